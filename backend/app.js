@@ -16,6 +16,7 @@ const cors = require('cors');
 const rateLimit = require('express-rate-limit');
 const helmet = require('helmet');
 const compression = require('compression');
+const cookieParser = require('cookie-parser');
 const Sentry = require('@sentry/node');
 const prisma = require('./prisma/client');
 
@@ -75,6 +76,20 @@ const allowedOrigins = isProduction && process.env.FRONTEND_URL
   ? ['https://kartess-production.up.railway.app', 'http://localhost:3000', /^https:\/\/.*\.vercel\.app$/] // Temporarily allow Railway URL for testing
   : ['http://localhost:3000', /^https:\/\/.*\.vercel\.app$/]; // Development
 
+// Check if origin matches allowed origins
+function isAllowedOrigin(origin) {
+  return allowedOrigins.some(allowed => {
+    if (allowed instanceof RegExp) {
+      return allowed.test(origin);
+    }
+    if (typeof allowed === 'string' && allowed.includes('*')) {
+      const pattern = allowed.replace(/\*/g, '.*');
+      return new RegExp(pattern).test(origin);
+    }
+    return origin === allowed;
+  });
+}
+
 app.use(cors({
   origin: function (origin, callback) {
     // Allow requests with no origin (mobile apps, curl, Postman, etc.)
@@ -83,19 +98,7 @@ app.use(cors({
       return callback(null, true);
     }
     
-    // Check if origin matches allowed origins
-    const isAllowed = allowedOrigins.some(allowed => {
-      if (allowed instanceof RegExp) {
-        return allowed.test(origin);
-      }
-      if (typeof allowed === 'string' && allowed.includes('*')) {
-        const pattern = allowed.replace(/\*/g, '.*');
-        return new RegExp(pattern).test(origin);
-      }
-      return origin === allowed;
-    });
-
-    if (isAllowed) {
+    if (isAllowedOrigin(origin)) {
       callback(null, true);
     } else {
       callback(new Error(`CORS: Origin ${origin} is not allowed`), false);
@@ -103,7 +106,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'X-CSRF-Token', 'X-Auth-Mode'],
 }));
 
 // Rate limiting
@@ -133,11 +136,16 @@ const authLimiter = rateLimit({
 app.use(limiter);
 app.use('/api/auth', authLimiter);
 
+// Daily.co webhooks are signed over the exact body, so keep it raw for that route
+app.use('/api/live/daily-webhook', express.raw({ type: 'application/json' }));
 app.use(express.json({ limit: '50mb' }));
+app.use(cookieParser()); // Session cookies, see utils/authCookies.js
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 // Routes
 const authRoutes = require('./routes/auth');
+const twoFactorRoutes = require('./routes/twoFactor');
+const sessionsRoutes = require('./routes/sessions');
 const profileRoutes = require('./routes/profile');
 const postsRoutes = require('./routes/posts');
 const searchRoutes = require('./routes/search');
@@ -163,6 +171,8 @@ const highlightsRoutes = require('./routes/highlights');
 const pushNotificationsRoutes = require('./routes/pushNotifications');
 
 app.use('/api/auth', authRoutes);
+app.use('/api/two-factor', twoFactorRoutes);
+app.use('/api/sessions', sessionsRoutes);
 app.use('/api/profile', profileRoutes);
 app.use('/api/posts', postsRoutes);
 app.use('/api/search', searchRoutes);
@@ -281,6 +291,9 @@ const { Server } = require('socket.io');
 const { socketRateLimitMiddleware, checkSocketRateLimit, rateLimiter } = require('./middleware/socketRateLimit');
 
 // Initialize Socket.io with security settings
+// Event names and payloads are defined in frontend/types/socket.ts; the JSDoc below
+// is for editors only, tests/mockIo.js checks what the routes actually emit
+/** @type {import('socket.io').Server<import('../frontend/types/socket').ClientToServerEvents, import('../frontend/types/socket').ServerToClientEvents>} */
 const io = new Server(server, {
   cors: {
     origin: function (origin, callback) {
@@ -292,19 +305,7 @@ const io = new Server(server, {
         return callback(null, true);
       }
       
-      // Check if origin matches allowed origins
-      const isAllowed = allowedOrigins.some(allowed => {
-        if (allowed instanceof RegExp) {
-          return allowed.test(origin);
-        }
-        if (typeof allowed === 'string' && allowed.includes('*')) {
-          const pattern = allowed.replace(/\*/g, '.*');
-          return new RegExp(pattern).test(origin);
-        }
-        return origin === allowed;
-      });
-
-      if (isAllowed) {
+      if (isAllowedOrigin(origin)) {
         callback(null, true);
       } else {
         callback(new Error(`CORS: Origin ${origin} not allowed`), false);
@@ -320,6 +321,9 @@ const io = new Server(server, {
 
 // Socket.io middleware chain
 const { verifyToken } = require('./utils/jwt');
+const { isSessionActive, recordSessionActivity } = require('./utils/sessions');
+const { getRequestToken } = require('./utils/authCookies');
+const { LIVE_REACTIONS, isBannedFromLive } = require('./utils/liveChat');
 
 // Apply rate limiting middleware first
 io.use(socketRateLimitMiddleware);
@@ -327,7 +331,16 @@ io.use(socketRateLimitMiddleware);
 // Then authentication
 io.use(async (socket, next) => {
   try {
-    const token = socket.handshake.auth?.token || socket.handshake.headers?.authorization?.replace('Bearer ', '');
+    // Cookie sessions authenticate the handshake with the access cookie
+    cookieParser()(socket.request, {}, () => {});
+    const fromAuth = socket.handshake.auth?.token;
+    const { token: requestToken, fromCookie } = getRequestToken(socket.request);
+    const token = fromAuth || requestToken;
+
+    // WebSockets skip CORS, so only trust cookies sent from our own frontend
+    if (!fromAuth && fromCookie && !isAllowedOrigin(socket.handshake.headers.origin || '')) {
+      return next(new Error('Origin not allowed'));
+    }
     
     if (!token) {
       // Allow unauthenticated connections for public features (posts subscription)
@@ -337,6 +350,10 @@ io.use(async (socket, next) => {
 
     // Verify token
     const decoded = verifyToken(token);
+
+    if (decoded.type === 'refresh' || !(await isSessionActive(decoded))) {
+      return next(new Error('Session revoked'));
+    }
     
     // Fetch user to ensure it exists
     const user = await prisma.user.findUnique({
@@ -351,6 +368,7 @@ io.use(async (socket, next) => {
     // Attach user to socket
     socket.userId = user.id;
     socket.user = user;
+    socket.sessionId = decoded.sid || null;
     
     next();
   } catch (error) {
@@ -370,6 +388,20 @@ io.on('connection', (socket) => {
     logger.debug('Socket auto-joined user room', { socketId: socket.id, userId: socket.userId });
   }
 
+  // Session room, so signing this device out can disconnect it
+  if (socket.sessionId) {
+    socket.join(`session:${socket.sessionId}`);
+    // Like Express with trust proxy 1: the address our proxy saw
+    const forwardedFor = socket.handshake.headers['x-forwarded-for'];
+    recordSessionActivity({
+      sessionId: socket.sessionId,
+      userId: socket.userId,
+      action: 'session_active',
+      ipAddress: forwardedFor ? forwardedFor.split(',').pop().trim() : socket.handshake.address,
+      userAgent: socket.handshake.headers['user-agent'],
+    });
+  }
+
   // Rate-limited event handlers
   // Join posts channel for timeline updates
   socket.on('subscribe:posts', () => {
@@ -385,10 +417,24 @@ io.on('connection', (socket) => {
   });
 
   // Join thread for messaging
-  socket.on('join:thread', (threadId) => {
+  socket.on('join:thread', async (threadId) => {
+    if (!socket.userId) return;
     if (!checkSocketRateLimit(socket, 'join:thread')) return;
-    socket.join(`thread:${threadId}`);
-    logger.debug('Socket joined thread', { socketId: socket.id, threadId });
+
+    try {
+      // Only participants may listen in; group members can be removed later on
+      const thread = await prisma.chatThread.findUnique({
+        where: { id: String(threadId) },
+        select: { participants: true },
+      });
+      const participants = Array.isArray(thread?.participants) ? thread.participants : [];
+      if (!participants.includes(socket.userId)) return;
+
+      socket.join(`thread:${threadId}`);
+      logger.debug('Socket joined thread', { socketId: socket.id, threadId });
+    } catch (error) {
+      logger.debug('Socket join thread error', { error: error.message, socketId: socket.id });
+    }
   });
 
   // Leave thread
@@ -427,10 +473,24 @@ io.on('connection', (socket) => {
   });
 
   // Join live stream room for real-time updates
-  socket.on('join:live', (sessionId) => {
+  socket.on('join:live', async (sessionId) => {
     if (!checkSocketRateLimit(socket, 'join:live')) return;
-    socket.join(`live:${sessionId}`);
-    logger.debug('Socket joined live stream room', { socketId: socket.id, sessionId });
+
+    try {
+      // Viewers banned from the stream don't get its chat or reactions
+      if (socket.userId) {
+        const session = await prisma.callSession.findUnique({
+          where: { id: String(sessionId) },
+          select: { banned_user_ids: true },
+        });
+        if (session && isBannedFromLive(session, socket.userId)) return;
+      }
+
+      socket.join(`live:${sessionId}`);
+      logger.debug('Socket joined live stream room', { socketId: socket.id, sessionId });
+    } catch (error) {
+      logger.debug('Socket join live error', { error: error.message, socketId: socket.id });
+    }
   });
 
   // Leave live stream room
@@ -439,6 +499,18 @@ io.on('connection', (socket) => {
     logger.debug('Socket left live stream room', { socketId: socket.id, sessionId });
   });
 
+  // Floating emoji reactions on a live stream; not stored
+  socket.on('live:reaction', (data) => {
+    if (!socket.userId) return;
+    if (!checkSocketRateLimit(socket, 'live:reaction')) return;
+
+    const { sessionId, emoji } = data || {};
+    const room = `live:${sessionId}`;
+    if (!socket.rooms.has(room) || !LIVE_REACTIONS.includes(emoji)) return;
+
+    io.to(room).emit('live.reaction', { sessionId, emoji, userId: socket.userId });
+  });
+
   // Handle call actions (accept, reject)
   socket.on('call:accept', async (data) => {
     if (!socket.userId) {
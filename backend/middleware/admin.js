@@ -1,5 +1,11 @@
 const prisma = require('../prisma/client');
 
+// Sent with 403s so the client can send staff to two-factor setup
+const twoFactorRequiredError = {
+  error: 'Two-factor authentication is required for admin and moderator accounts',
+  code: 'TWO_FACTOR_REQUIRED',
+};
+
 /**
  * Middleware to check if user is admin or moderator
  */
@@ -11,7 +17,7 @@ const adminMiddleware = async (req, res, next) => {
 
     const user = await prisma.user.findUnique({
       where: { id: req.user.id },
-      select: { role: true },
+      select: { role: true, two_factor_enabled: true },
     });
 
     if (!user) {
@@ -22,6 +28,10 @@ const adminMiddleware = async (req, res, next) => {
       return res.status(403).json({ error: 'Forbidden: Admin access required' });
     }
 
+    if (!user.two_factor_enabled) {
+      return res.status(403).json(twoFactorRequiredError);
+    }
+
     req.user.role = user.role;
     next();
   } catch (error) {
@@ -41,13 +51,17 @@ const adminOnlyMiddleware = async (req, res, next) => {
 
     const user = await prisma.user.findUnique({
       where: { id: req.user.id },
-      select: { role: true },
+      select: { role: true, two_factor_enabled: true },
     });
 
     if (!user || user.role !== 'admin') {
       return res.status(403).json({ error: 'Forbidden: Admin access required' });
     }
 
+    if (!user.two_factor_enabled) {
+      return res.status(403).json(twoFactorRequiredError);
+    }
+
     req.user.role = user.role;
     next();
   } catch (error) {
@@ -56,7 +70,22 @@ const adminOnlyMiddleware = async (req, res, next) => {
   }
 };
 
+/**
+ * Check whether a user is an admin or moderator, for routes that are open to
+ * everyone but grant staff extra access. Staff who have not enabled two-factor
+ * authentication get no extra access, as with adminMiddleware.
+ */
+const isModerator = async (userId) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, two_factor_enabled: true },
+  });
+
+  return (user?.role === 'admin' || user?.role === 'moderator') && user.two_factor_enabled === true;
+};
+
 module.exports = {
   adminMiddleware,
   adminOnlyMiddleware,
+  isModerator,
 };
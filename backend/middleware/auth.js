@@ -1,5 +1,10 @@
 const { verifyToken } = require('../utils/jwt');
 const prisma = require('../prisma/client');
+const { isSessionActive } = require('../utils/sessions');
+const { getRequestToken } = require('../utils/authCookies');
+const { isValidCSRFToken } = require('./csrf');
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
 
 /**
  * JWT authentication middleware
@@ -7,17 +12,30 @@ const prisma = require('../prisma/client');
  */
 async function authMiddleware(req, res, next) {
   try {
-    const authHeader = req.headers.authorization;
+    // Bearer header, or the httpOnly cookie in cookie session mode
+    const { token, fromCookie } = getRequestToken(req);
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       return res.status(401).json({ error: 'No token provided' });
     }
 
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+    // Browsers attach cookies to cross-site requests, so those need the CSRF token too
+    if (fromCookie && !SAFE_METHODS.includes(req.method) && !isValidCSRFToken(req)) {
+      return res.status(403).json({ error: 'Invalid CSRF token', code: 'CSRF_INVALID' });
+    }
 
     // Verify token
     const decoded = verifyToken(token);
 
+    if (decoded.type === 'refresh') {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    // Signing a device out revokes its session straight away
+    if (!(await isSessionActive(decoded))) {
+      return res.status(401).json({ error: 'Session has been revoked', code: 'SESSION_REVOKED' });
+    }
+
     // Fetch user from database to ensure it still exists
     const user = await prisma.user.findUnique({
       where: { id: decoded.id },
@@ -26,6 +44,7 @@ async function authMiddleware(req, res, next) {
         email: true,
         username: true,
         full_name: true,
+        is_verified: true,
       },
     });
 
@@ -35,6 +54,7 @@ async function authMiddleware(req, res, next) {
 
     // Attach user to request
     req.user = user;
+    req.sessionId = decoded.sid || null;
     next();
   } catch (error) {
     return res.status(401).json({ error: 'Invalid or expired token' });
@@ -95,9 +95,25 @@ function setCSRFToken(req, res, next) {
   next();
 }
 
+/**
+ * Check the double-submit token: the X-CSRF-Token header must match the
+ * csrf_token cookie. Used for requests authenticated by session cookie.
+ */
+function isValidCSRFToken(req) {
+  const token = req.headers['x-csrf-token'];
+  const cookieToken = req.cookies?.csrf_token;
+
+  if (typeof token !== 'string' || typeof cookieToken !== 'string' || token.length !== cookieToken.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(cookieToken));
+}
+
 module.exports = {
   csrfProtection,
   setCSRFToken,
   generateCSRFToken,
+  isValidCSRFToken,
 };
 
@@ -21,6 +21,7 @@ class SocketRateLimiter {
       'join:thread': { max: 20, window: 60000 }, // 20 per minute
       'subscribe:posts': { max: 5, window: 60000 }, // 5 per minute
       'join:user': { max: 5, window: 60000 }, // 5 per minute
+      'live:reaction': { max: 60, window: 60000 }, // 60 per minute
       default: { max: 30, window: 60000 }, // 30 per minute for other events
     };
 
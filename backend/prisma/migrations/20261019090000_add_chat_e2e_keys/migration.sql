@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "chat_threads" ADD COLUMN     "key_version" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "key_version" INTEGER,
+ALTER COLUMN "encrypted" SET DEFAULT false;
+
+-- Existing messages were stored as plaintext despite the flag
+UPDATE "messages" SET "encrypted" = false;
+
+-- CreateTable
+CREATE TABLE "device_keys" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "public_key" TEXT NOT NULL,
+    "label" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "device_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chat_thread_keys" (
+    "id" TEXT NOT NULL,
+    "thread_id" TEXT NOT NULL,
+    "key_version" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "wrapped_key" TEXT NOT NULL,
+    "ephemeral_public_key" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_thread_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "device_keys_user_id_idx" ON "device_keys"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_keys_user_id_device_id_key" ON "device_keys"("user_id", "device_id");
+
+-- CreateIndex
+CREATE INDEX "chat_thread_keys_thread_id_user_id_device_id_idx" ON "chat_thread_keys"("thread_id", "user_id", "device_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_thread_keys_thread_id_key_version_user_id_device_id_key" ON "chat_thread_keys"("thread_id", "key_version", "user_id", "device_id");
+
+-- AddForeignKey
+ALTER TABLE "device_keys" ADD CONSTRAINT "device_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_thread_keys" ADD CONSTRAINT "chat_thread_keys_thread_id_fkey" FOREIGN KEY ("thread_id") REFERENCES "chat_threads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
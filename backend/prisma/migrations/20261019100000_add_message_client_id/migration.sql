@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "client_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "messages_user_id_client_id_key" ON "messages"("user_id", "client_id");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "chat_threads" ADD COLUMN     "admins" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "avatar_url" TEXT;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'text';
+
+-- Existing groups: everyone who was already in the group can manage it
+UPDATE "chat_threads" SET "admins" = "participants" WHERE "type" = 'group';
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "edited_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "edited_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "post_revisions" (
+    "id" TEXT NOT NULL,
+    "post_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "tags" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "comment_revisions" (
+    "id" TEXT NOT NULL,
+    "comment_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "comment_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "post_revisions_post_id_idx" ON "post_revisions"("post_id");
+
+-- CreateIndex
+CREATE INDEX "comment_revisions_comment_id_idx" ON "comment_revisions"("comment_id");
+
+-- AddForeignKey
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_post_id_fkey" FOREIGN KEY ("post_id") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_revisions" ADD CONSTRAINT "comment_revisions_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "activity_logs_entity_type_entity_id_idx" ON "activity_logs"("entity_type", "entity_id");
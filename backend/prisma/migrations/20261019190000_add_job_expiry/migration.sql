@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN "expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "jobs_status_expires_at_idx" ON "jobs"("status", "expires_at");
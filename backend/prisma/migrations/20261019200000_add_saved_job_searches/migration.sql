@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "saved_job_searches" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT,
+    "type" TEXT,
+    "location" TEXT,
+    "tags" JSONB,
+    "salary_min" INTEGER,
+    "salary_max" INTEGER,
+    "alert_frequency" TEXT NOT NULL DEFAULT 'instant',
+    "push_enabled" BOOLEAN NOT NULL DEFAULT false,
+    "last_digest_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_job_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_job_searches_user_id_idx" ON "saved_job_searches"("user_id");
+
+-- CreateIndex
+CREATE INDEX "saved_job_searches_alert_frequency_idx" ON "saved_job_searches"("alert_frequency");
+
+-- AddForeignKey
+ALTER TABLE "saved_job_searches" ADD CONSTRAINT "saved_job_searches_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
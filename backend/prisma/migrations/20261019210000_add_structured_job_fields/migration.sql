@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN "location_city" TEXT,
+ADD COLUMN "location_country" TEXT,
+ADD COLUMN "workplace_type" TEXT,
+ADD COLUMN "seniority" TEXT,
+ADD COLUMN "salary_min" INTEGER,
+ADD COLUMN "salary_max" INTEGER,
+ADD COLUMN "salary_currency" TEXT,
+ADD COLUMN "salary_period" TEXT;
+
+-- AlterTable
+ALTER TABLE "saved_job_searches" ADD COLUMN "workplace_type" TEXT,
+ADD COLUMN "seniority" TEXT;
+
+-- CreateIndex
+CREATE INDEX "jobs_workplace_type_idx" ON "jobs"("workplace_type");
+
+-- CreateIndex
+CREATE INDEX "jobs_salary_min_salary_max_idx" ON "jobs"("salary_min", "salary_max");
+
+-- Best-effort migration of free-text values
+
+-- Workplace type from the location text ("Remote", "Hybrid - London", ...)
+UPDATE "jobs" SET "workplace_type" = 'remote' WHERE "location" ILIKE '%remote%';
+UPDATE "jobs" SET "workplace_type" = 'hybrid' WHERE "workplace_type" IS NULL AND "location" ILIKE '%hybrid%';
+
+-- "City, Country" locations; a single part is taken as the city
+UPDATE "jobs"
+SET "location_city" = NULLIF(TRIM(SPLIT_PART("location", ',', 1)), ''),
+    "location_country" = CASE
+      WHEN "location" LIKE '%,%' THEN NULLIF(TRIM(REGEXP_REPLACE("location", '^.*,', '')), '')
+    END
+WHERE "location" IS NOT NULL AND "location" !~* '^\s*(remote|hybrid)\s*$';
+
+-- Salary amounts like "$80k - $120k" or "80,000-95,000 EUR"; a k or m suffix
+-- must end the word, so the m of "4000 monthly" is not read as millions
+WITH "parsed" AS (
+  SELECT "jobs"."id",
+         MIN("amounts"."amount") AS "min_amount",
+         MAX("amounts"."amount") AS "max_amount"
+  FROM "jobs",
+  LATERAL (
+    SELECT REPLACE("match"[1], ',', '')::NUMERIC
+           * CASE LOWER("match"[2]) WHEN 'k' THEN 1000 WHEN 'm' THEN 1000000 ELSE 1 END AS "amount"
+    FROM REGEXP_MATCHES("jobs"."salary_range", '(\d[\d,]*(?:\.\d+)?)\s*([kKmM](?![A-Za-z]))?', 'g') AS "match"
+  ) AS "amounts"
+  WHERE "jobs"."salary_range" IS NOT NULL
+  GROUP BY "jobs"."id"
+)
+UPDATE "jobs"
+SET "salary_min" = "parsed"."min_amount"::INTEGER,
+    "salary_max" = "parsed"."max_amount"::INTEGER,
+    "salary_currency" = CASE
+      WHEN "jobs"."salary_range" ~ '€|EUR' THEN 'EUR'
+      WHEN "jobs"."salary_range" ~ '£|GBP' THEN 'GBP'
+      WHEN "jobs"."salary_range" ~ '₹|INR' THEN 'INR'
+      WHEN "jobs"."salary_range" ~ '\$|USD' THEN 'USD'
+    END,
+    "salary_period" = CASE
+      WHEN "jobs"."salary_range" ~* 'hour|/\s*hr|p/?h' THEN 'hour'
+      WHEN "jobs"."salary_range" ~* 'month|/\s*mo' THEN 'month'
+      ELSE 'year'
+    END
+FROM "parsed"
+WHERE "jobs"."id" = "parsed"."id" AND "parsed"."max_amount" < 2147483647;
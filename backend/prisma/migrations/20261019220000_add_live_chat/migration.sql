@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "call_sessions" ADD COLUMN "slow_mode_seconds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "moderator_ids" JSONB,
+ADD COLUMN "banned_user_ids" JSONB;
+
+-- CreateTable
+CREATE TABLE "live_chat_messages" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "live_chat_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "live_chat_messages_session_id_created_at_idx" ON "live_chat_messages"("session_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "live_chat_messages_user_id_idx" ON "live_chat_messages"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "live_chat_messages" ADD CONSTRAINT "live_chat_messages_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "call_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "live_chat_messages" ADD CONSTRAINT "live_chat_messages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
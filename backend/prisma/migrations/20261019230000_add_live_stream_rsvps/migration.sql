@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "live_stream_rsvps" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "live_stream_rsvps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "live_stream_rsvps_session_id_user_id_key" ON "live_stream_rsvps"("session_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "live_stream_rsvps_user_id_idx" ON "live_stream_rsvps"("user_id");
+
+-- CreateIndex
+CREATE INDEX "call_sessions_status_scheduled_at_idx" ON "call_sessions"("status", "scheduled_at");
+
+-- AddForeignKey
+ALTER TABLE "live_stream_rsvps" ADD CONSTRAINT "live_stream_rsvps_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "call_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "live_stream_rsvps" ADD CONSTRAINT "live_stream_rsvps_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
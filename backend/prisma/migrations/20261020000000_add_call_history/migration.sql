@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "call_sessions" ADD COLUMN "call_type" TEXT;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "call_session_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "messages_call_session_id_idx" ON "messages"("call_session_id");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_call_session_id_fkey" FOREIGN KEY ("call_session_id") REFERENCES "call_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "call_sessions" ADD COLUMN "active_participant_ids" JSONB;
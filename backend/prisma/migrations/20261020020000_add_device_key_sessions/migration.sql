@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "device_keys" ADD COLUMN "session_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "device_keys_session_id_idx" ON "device_keys"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "device_keys" ADD CONSTRAINT "device_keys_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "refresh_tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
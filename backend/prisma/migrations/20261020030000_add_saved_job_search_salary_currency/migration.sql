@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "saved_job_searches" ADD COLUMN "salary_currency" TEXT,
+ADD COLUMN "salary_period" TEXT;
+
+-- Existing bands were entered next to the job form's defaults
+UPDATE "saved_job_searches"
+SET "salary_currency" = 'USD',
+    "salary_period" = 'year'
+WHERE "salary_min" IS NOT NULL OR "salary_max" IS NOT NULL;
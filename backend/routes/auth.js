@@ -1,14 +1,44 @@
 const express = require('express');
 const { z } = require('zod');
 const { hashPassword, comparePassword } = require('../utils/bcrypt');
-const { generateToken, generateRefreshToken, hashRefreshToken, verifyRefreshTokenHash, verifyToken } = require('../utils/jwt');
+const {
+  generateToken,
+  generateRefreshToken,
+  hashRefreshToken,
+  verifyRefreshTokenHash,
+  verifyToken,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+} = require('../utils/jwt');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { createAuthToken, findValidAuthToken } = require('../utils/authTokens');
+const { isTwoFactorRequired, verifySecondFactor } = require('../utils/twoFactor');
+const { recordSessionActivity, revokeSessions, disconnectSessions } = require('../utils/sessions');
+const {
+  REFRESH_COOKIE,
+  wantsCookieSession,
+  setAccessCookie,
+  ensureCSRFCookie,
+  setSessionCookies,
+  clearSessionCookies,
+  sendSession,
+} = require('../utils/authCookies');
+const { isValidCSRFToken } = require('../middleware/csrf');
+const mailService = require('../services/mail');
 const logger = require('../utils/logger');
 
 const router = express.Router();
 
 // Validation schemas
+const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[0-9]/, 'Password must contain at least one number')
+  .regex(/[^a-zA-Z0-9]/, 'Password must contain at least one symbol');
+
 const registerSchema = z.object({
   full_name: z.string().min(1, 'Full name is required'),
   email: z.string().email('Invalid email address'),
@@ -16,13 +46,7 @@ const registerSchema = z.object({
     .string()
     .min(3, 'Username must be at least 3 characters')
     .regex(/^[a-zA-Z0-9]+$/, 'Username must be alphanumeric'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number')
-    .regex(/[^a-zA-Z0-9]/, 'Password must contain at least one symbol'),
+  password: passwordSchema,
   qr_token: z.string().optional(), // Optional QR token for non-user signup flow
 });
 
@@ -31,14 +55,32 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().min(1, 'Code is required'),
+});
+
 const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: passwordSchema,
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
 /**
  * Helper function to create and store refresh token
  * @param {string} userId - User ID
- * @returns {Promise<{refreshToken: string, expiresAt: Date}>}
+ * @returns {Promise<{refreshToken: string, expiresAt: Date, sessionId: string}>}
  */
 async function createRefreshToken(userId) {
   // Generate refresh token
@@ -54,7 +96,7 @@ async function createRefreshToken(userId) {
   const hashedToken = hashRefreshToken(refreshToken);
 
   // Store in database
-  await prisma.refreshToken.create({
+  const stored = await prisma.refreshToken.create({
     data: {
       user_id: userId,
       token: hashedToken,
@@ -62,7 +104,79 @@ async function createRefreshToken(userId) {
     },
   });
 
-  return { refreshToken, expiresAt };
+  return { refreshToken, expiresAt, sessionId: stored.id };
+}
+
+/**
+ * Start a login session: store a refresh token for the device and issue an
+ * access token bound to it
+ * @param {Object} user - User with id and email
+ * @param {Object} req - Express request (for IP and user agent)
+ * @returns {Promise<{token: string, refreshToken: string}>}
+ */
+async function startSession(user, req) {
+  const { refreshToken, sessionId } = await createRefreshToken(user.id);
+
+  await recordSessionActivity({
+    sessionId,
+    userId: user.id,
+    action: 'login',
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+
+  const token = generateToken({
+    id: user.id,
+    email: user.email,
+    sid: sessionId,
+  });
+
+  return { token, refreshToken };
+}
+
+/**
+ * Get the refresh token from the body, or from the httpOnly cookie in cookie
+ * session mode
+ * @param {Object} req - Express request
+ * @returns {{refreshToken: string|undefined, fromCookie: boolean}}
+ */
+function getRefreshTokenFromRequest(req) {
+  if (req.body?.refreshToken) {
+    return { refreshToken: req.body.refreshToken, fromCookie: false };
+  }
+
+  const cookieToken = req.cookies?.[REFRESH_COOKIE];
+  return { refreshToken: cookieToken, fromCookie: Boolean(cookieToken) };
+}
+
+/**
+ * Issue tokens for a user who has passed every login step
+ * @param {Object} user - User fields to return to the client
+ * @param {Object} req - Express request
+ * @returns {Promise<Object>} Login response body
+ */
+async function buildLoginResponse(user, req) {
+  // Check profile completeness
+  const profile = await prisma.profile.findUnique({
+    where: { user_id: user.id },
+  });
+
+  const profileComplete = Boolean(
+    profile &&
+    profile.bio &&
+    profile.bio.trim().length > 0
+  );
+
+  const { token, refreshToken } = await startSession(user, req);
+
+  return {
+    token,
+    refreshToken,
+    user,
+    profileComplete,
+    // Staff must enrol before they can use moderation tools
+    twoFactorSetupRequired: isTwoFactorRequired(user.role) && !user.two_factor_enabled,
+  };
 }
 
 /**
@@ -108,17 +222,20 @@ router.post('/register', async (req, res) => {
         email: true,
         username: true,
         full_name: true,
+        is_verified: true,
       },
     });
 
-    // Generate JWT access token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-    });
+    // Generate access and refresh tokens for this device
+    const { token, refreshToken } = await startSession(user, req);
 
-    // Generate and store refresh token
-    const { refreshToken } = await createRefreshToken(user.id);
+    // Send the email confirmation link; the user can ask for another one if this fails
+    try {
+      const verificationToken = await createAuthToken(user.id, 'email_verification');
+      await mailService.sendEmailVerification(user, verificationToken);
+    } catch (error) {
+      logger.logError(error, req, { context: 'Send verification email' });
+    }
 
     // If QR token provided, consume it after signup (auto-approve contact)
     let qrContact = null;
@@ -157,13 +274,13 @@ router.post('/register', async (req, res) => {
       profile.bio.trim().length > 0
     );
 
-    res.status(201).json({
+    sendSession(req, res, {
       token,
       refreshToken,
       user,
       profileComplete, // Include profile completion status
       qrContact, // Include contact info if QR token was consumed
-    });
+    }, 201);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
@@ -194,6 +311,9 @@ router.post('/login', async (req, res) => {
         email: true,
         username: true,
         full_name: true,
+        role: true,
+        is_verified: true,
+        two_factor_enabled: true,
         password_hash: true,
       },
     });
@@ -215,34 +335,76 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: genericError });
     }
 
-    // Check profile completeness
-    const profile = await prisma.profile.findUnique({
-      where: { user_id: user.id },
-    });
+    // Tokens are only issued after the second step
+    if (user.two_factor_enabled) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallenge(user.id),
+      });
+    }
 
-    const profileComplete = Boolean(
-      profile &&
-      profile.bio &&
-      profile.bio.trim().length > 0
-    );
+    // Remove password_hash from response
+    const { password_hash, ...userWithoutPassword } = user;
 
-    // Generate JWT access token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
+    sendSession(req, res, await buildLoginResponse(userWithoutPassword, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    logger.logError(error, req, { context: 'Login' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/login/2fa
+ * Second login step: exchange a challenge token and an authenticator or
+ * recovery code for access tokens
+ */
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+
+    let decoded;
+    try {
+      decoded = verifyTwoFactorChallenge(challengeToken);
+    } catch (error) {
+      return res.status(401).json({ error: 'Login session expired, please sign in again' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.id },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        full_name: true,
+        role: true,
+        is_verified: true,
+        two_factor_enabled: true,
+        two_factor_secret: true,
+      },
     });
 
-    // Generate and store refresh token
-    const { refreshToken } = await createRefreshToken(user.id);
+    if (!user || !user.two_factor_enabled) {
+      return res.status(401).json({ error: 'Login session expired, please sign in again' });
+    }
 
-    // Remove password_hash from response
-    const { password_hash, ...userWithoutPassword } = user;
+    const method = await verifySecondFactor(user, code);
 
-    res.json({
-      token,
-      refreshToken,
-      user: userWithoutPassword,
-      profileComplete,
+    if (!method) {
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+
+    const { two_factor_secret, ...userWithoutSecret } = user;
+
+    sendSession(req, res, {
+      ...(await buildLoginResponse(userWithoutSecret, req)),
+      usedRecoveryCode: method === 'recovery',
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -252,19 +414,28 @@ router.post('/login', async (req, res) => {
       });
     }
 
-    logger.logError(error, req, { context: 'Login' });
+    logger.logError(error, req, { context: 'Two-factor login' });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 /**
  * POST /api/auth/refresh
- * Refresh access token using refresh token
+ * Refresh access token using refresh token. In cookie session mode the refresh
+ * token comes from its cookie and the new access token is set as a cookie. A
+ * browser still holding a stored refresh token can send it with
+ * `X-Auth-Mode: cookie` to move its session into cookies.
  */
 router.post('/refresh', async (req, res) => {
   try {
+    const source = getRefreshTokenFromRequest(req);
+
+    if (source.fromCookie && !isValidCSRFToken(req)) {
+      return res.status(403).json({ error: 'Invalid CSRF token', code: 'CSRF_INVALID' });
+    }
+
     // Validate input
-    const validatedData = refreshTokenSchema.parse(req.body);
+    const validatedData = refreshTokenSchema.parse({ refreshToken: source.refreshToken });
     const { refreshToken } = validatedData;
 
     // Verify refresh token JWT
@@ -287,7 +458,8 @@ router.post('/refresh', async (req, res) => {
     });
 
     if (!storedToken) {
-      return res.status(401).json({ error: 'Refresh token not found' });
+      // Signed out from another device, or already logged out here
+      return res.status(401).json({ error: 'Refresh token not found', code: 'SESSION_REVOKED' });
     }
 
     // Check if token is expired
@@ -321,16 +493,36 @@ router.post('/refresh', async (req, res) => {
       return res.status(403).json({ error: 'User account is suspended' });
     }
 
-    // Generate new access token
+    // Generate new access token for the same session
     const newAccessToken = generateToken({
       id: user.id,
       email: user.email,
+      sid: storedToken.id,
+    });
+
+    await recordSessionActivity({
+      sessionId: storedToken.id,
+      userId: user.id,
+      action: 'session_refresh',
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
     });
 
     // Optionally rotate refresh token (generate new one, delete old one)
     // For now, we'll keep the same refresh token but update expiry if needed
     // Token rotation can be added later for enhanced security
 
+    if (source.fromCookie) {
+      setAccessCookie(res, newAccessToken);
+      return res.json({ csrfToken: ensureCSRFCookie(req, res) });
+    }
+
+    if (wantsCookieSession(req)) {
+      // Migrating a stored token: the same session continues in cookies
+      const csrfToken = setSessionCookies(req, res, { token: newAccessToken, refreshToken });
+      return res.json({ csrfToken });
+    }
+
     res.json({
       token: newAccessToken,
       // Optionally return new refresh token if rotating
@@ -349,6 +541,53 @@ router.post('/refresh', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/auth/logout
+ * End the session that owns the refresh token. Always succeeds so the client
+ * can clear its tokens either way.
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    const source = getRefreshTokenFromRequest(req);
+
+    if (source.fromCookie && !isValidCSRFToken(req)) {
+      return res.status(403).json({ error: 'Invalid CSRF token', code: 'CSRF_INVALID' });
+    }
+
+    const { refreshToken } = refreshTokenSchema.parse({ refreshToken: source.refreshToken });
+
+    const storedToken = await prisma.refreshToken.findFirst({
+      where: { token: hashRefreshToken(refreshToken) },
+      select: { id: true, user_id: true },
+    });
+
+    if (storedToken) {
+      await revokeSessions(req.app.get('io'), storedToken.user_id, [storedToken.id]);
+    }
+
+    clearSessionCookies(res);
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    logger.logError(error, req, { context: 'Logout' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/auth/csrf
+ * Get the CSRF token for a cookie session, e.g. when the client lost its copy
+ */
+router.get('/csrf', (req, res) => {
+  res.json({ csrfToken: ensureCSRFCookie(req, res) });
+});
+
 /**
  * POST /api/auth/verify
  * Verify JWT token and return user data with profile status
@@ -385,4 +624,178 @@ router.post('/verify', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link. Always answers the same way so the response
+ * doesn't reveal whether an account exists.
+ */
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+        full_name: true,
+        is_suspended: true,
+      },
+    });
+
+    if (user && !user.is_suspended) {
+      const token = await createAuthToken(user.id, 'password_reset');
+      await mailService.sendPasswordReset(user, token);
+    }
+
+    res.json({ message: 'If an account exists for that email, a reset link has been sent' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    logger.logError(error, req, { context: 'Forgot password' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with a reset token. Signs the user out everywhere.
+ */
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+
+    const authToken = await findValidAuthToken(token, 'password_reset');
+
+    if (!authToken) {
+      return res.status(400).json({ error: 'Invalid or expired reset link' });
+    }
+
+    const password_hash = await hashPassword(password);
+
+    const sessions = await prisma.refreshToken.findMany({
+      where: { user_id: authToken.user_id },
+      select: { id: true },
+    });
+
+    const redeemed = await prisma.$transaction(async (tx) => {
+      // Only the first request to claim the token gets to use it
+      const claimed = await tx.authToken.updateMany({
+        where: { id: authToken.id, used_at: null },
+        data: { used_at: new Date() },
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      // Receiving the email proves the address, so confirm it as well
+      await tx.user.update({
+        where: { id: authToken.user_id },
+        data: { password_hash, is_verified: true },
+      });
+
+      await tx.refreshToken.deleteMany({
+        where: { user_id: authToken.user_id },
+      });
+
+      return true;
+    });
+
+    if (!redeemed) {
+      return res.status(400).json({ error: 'Invalid or expired reset link' });
+    }
+
+    disconnectSessions(
+      req.app.get('io'),
+      sessions.map((session) => session.id)
+    );
+
+    res.json({ message: 'Password has been reset. Please log in with your new password.' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    logger.logError(error, req, { context: 'Reset password' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/send-verification
+ * Email a new confirmation link to the current user
+ */
+router.post('/send-verification', authMiddleware, async (req, res) => {
+  try {
+    if (req.user.is_verified) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    const token = await createAuthToken(req.user.id, 'email_verification');
+    await mailService.sendEmailVerification(req.user, token);
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    logger.logError(error, req, { context: 'Send verification email' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address with a verification token
+ */
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+
+    const authToken = await findValidAuthToken(token, 'email_verification');
+
+    if (!authToken) {
+      return res.status(400).json({ error: 'Invalid or expired verification link' });
+    }
+
+    const redeemed = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.authToken.updateMany({
+        where: { id: authToken.id, used_at: null },
+        data: { used_at: new Date() },
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await tx.user.update({
+        where: { id: authToken.user_id },
+        data: { is_verified: true },
+      });
+
+      return true;
+    });
+
+    if (!redeemed) {
+      return res.status(400).json({ error: 'Invalid or expired verification link' });
+    }
+
+    res.json({ message: 'Email verified' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    logger.logError(error, req, { context: 'Verify email' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 module.exports = router;
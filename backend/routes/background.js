@@ -1,6 +1,7 @@
 const express = require('express');
 const prisma = require('../prisma/client');
 const logger = require('../utils/logger');
+const { sendJobAlertDigests } = require('../utils/jobAlerts');
 
 const router = express.Router();
 
@@ -84,12 +85,13 @@ router.post('/cleanup-tokens', verifyWebhook, async (req, res) => {
 
 /**
  * POST /api/background/cleanup-refresh-tokens
- * Clean up expired refresh tokens
+ * Clean up expired refresh tokens, and the device keys published from them
  */
 router.post('/cleanup-refresh-tokens', verifyWebhook, async (req, res) => {
   try {
     const now = new Date();
 
+    // Device keys go with their session; this removes the keys of expired ones
     const deleted = await prisma.refreshToken.deleteMany({
       where: {
         expires_at: {
@@ -98,9 +100,25 @@ router.post('/cleanup-refresh-tokens', verifyWebhook, async (req, res) => {
       },
     });
 
+    // Keys published before sessions were tracked have none. Signed-in devices
+    // publish again on every visit, so one untouched for a refresh token's
+    // lifetime (7 days) belongs to a device that is signed out
+    const staleBefore = new Date(now);
+    staleBefore.setDate(staleBefore.getDate() - 7);
+
+    const staleKeys = await prisma.deviceKey.deleteMany({
+      where: {
+        session_id: null,
+        updated_at: {
+          lt: staleBefore,
+        },
+      },
+    });
+
     res.json({
       message: 'Refresh tokens cleaned up',
       deleted: deleted.count,
+      deviceKeysDeleted: staleKeys.count,
     });
   } catch (error) {
     logger.logError(error, req, { context: 'Cleanup refresh tokens' });
@@ -108,4 +126,53 @@ router.post('/cleanup-refresh-tokens', verifyWebhook, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/background/expire-jobs
+ * Close open jobs whose expiry date has passed
+ */
+router.post('/expire-jobs', verifyWebhook, async (req, res) => {
+  try {
+    const now = new Date();
+
+    const closed = await prisma.job.updateMany({
+      where: {
+        status: 'open',
+        expires_at: {
+          lte: now,
+        },
+      },
+      data: {
+        status: 'closed',
+      },
+    });
+
+    res.json({
+      message: 'Jobs expired',
+      closed: closed.count,
+    });
+  } catch (error) {
+    logger.logError(error, req, { context: 'Expire jobs' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/background/job-alert-digest
+ * Send daily digests for saved job searches
+ */
+router.post('/job-alert-digest', verifyWebhook, async (req, res) => {
+  try {
+    const { processed, notified } = await sendJobAlertDigests(req.app.get('io'));
+
+    res.json({
+      message: 'Job alert digests sent',
+      processed,
+      notified,
+    });
+  } catch (error) {
+    logger.logError(error, req, { context: 'Job alert digest' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 module.exports = router;
@@ -4,6 +4,8 @@ const multer = require('multer');
 const cloudinary = require('cloudinary').v2;
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { isBlockedBetween } = require('../utils/blocks');
+const { buildJobSearchFilters, notifyJobAlerts } = require('../utils/jobAlerts');
 
 const router = express.Router();
 
@@ -35,19 +37,93 @@ const upload = multer({
   },
 });
 
-const createJobSchema = z.object({
+const JOB_TYPES = ['full-time', 'part-time', 'contract', 'internship'];
+const WORKPLACE_TYPES = ['onsite', 'hybrid', 'remote'];
+const SENIORITY_LEVELS = ['entry', 'mid', 'senior', 'lead', 'executive'];
+
+const SALARY_PERIODS = ['hour', 'month', 'year'];
+
+const salaryBandRefinement = [
+  (data) => data.salary_min == null || data.salary_max == null || data.salary_min <= data.salary_max,
+  { message: 'Minimum salary must not be above the maximum', path: ['salary_max'] },
+];
+
+const salaryCurrency = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code')
+  .transform((code) => code.toUpperCase());
+
+// Amounts in different currencies can't be compared, so a search band names one
+const searchCurrencyRefinement = [
+  (data) => (data.salary_min == null && data.salary_max == null) || data.salary_currency != null,
+  { message: 'Choose a currency for the salary band', path: ['salary_currency'] },
+];
+
+// Optional fields accept null so an edit can clear them
+const jobFields = z.object({
   title: z.string().min(1, 'Title is required'),
   description: z.string().min(1, 'Description is required'),
-  company: z.string().optional(),
-  location: z.string().optional(),
-  type: z.enum(['full-time', 'part-time', 'contract', 'internship']).optional(),
-  salary_range: z.string().optional(),
+  company: z.string().nullish(),
+  location_city: z.string().trim().max(100).nullish(),
+  location_country: z.string().trim().max(100).nullish(),
+  workplace_type: z.enum(WORKPLACE_TYPES).nullish(),
+  type: z.enum(JOB_TYPES).nullish(),
+  seniority: z.enum(SENIORITY_LEVELS).nullish(),
+  salary_min: z.number().int().nonnegative().nullish(),
+  salary_max: z.number().int().nonnegative().nullish(),
+  salary_currency: salaryCurrency.nullish(),
+  salary_period: z.enum(SALARY_PERIODS).nullish(),
+  // Free text from older clients
+  location: z.string().nullish(),
+  salary_range: z.string().nullish(),
   requirements: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
-  application_url: z.string().url().optional(),
-  application_email: z.string().email().optional(),
+  application_url: z.string().url().nullish(),
+  application_email: z.string().email().nullish(),
+  expires_at: z.coerce
+    .date()
+    .refine((date) => date > new Date(), 'Expiry date must be in the future')
+    .nullish(),
 });
 
+const createJobSchema = jobFields.refine(...salaryBandRefinement);
+
+const updateJobSchema = jobFields
+  .partial()
+  .extend({
+    status: z.enum(['open', 'closed', 'filled']).optional(),
+  })
+  .refine(...salaryBandRefinement);
+
+/**
+ * Fill in the display location from the structured city and country
+ * @param {Object} data - Validated job fields
+ * @param {Object} [existing] - Current job, when editing
+ * @returns {Object} Job data with `location` set if the city or country changed
+ */
+function withDisplayLocation(data, existing) {
+  if (data.location_city === undefined && data.location_country === undefined) {
+    return data;
+  }
+
+  const city = data.location_city !== undefined ? data.location_city : existing?.location_city;
+  const country =
+    data.location_country !== undefined ? data.location_country : existing?.location_country;
+
+  return { ...data, location: [city, country].filter(Boolean).join(', ') || null };
+}
+
+const jobPosterSelect = {
+  id: true,
+  username: true,
+  full_name: true,
+  profile: {
+    select: {
+      avatar_url: true,
+    },
+  },
+};
+
 const createApplicationSchema = z.object({
   cover_letter: z.string().optional(),
 });
@@ -57,35 +133,209 @@ const createEndorsementSchema = z.object({
   message: z.string().optional(),
 });
 
+const MAX_SAVED_SEARCHES = 20;
+
+const savedJobSearchFields = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  query: z.string().trim().max(200).nullish(),
+  type: z.enum(JOB_TYPES).nullish(),
+  location: z.string().trim().max(200).nullish(),
+  workplace_type: z.enum(WORKPLACE_TYPES).nullish(),
+  seniority: z.enum(SENIORITY_LEVELS).nullish(),
+  tags: z.array(z.string().trim().min(1)).max(20).optional(),
+  salary_min: z.number().int().nonnegative().nullish(),
+  salary_max: z.number().int().nonnegative().nullish(),
+  salary_currency: salaryCurrency.nullish(),
+  salary_period: z.enum(SALARY_PERIODS).nullish(),
+  alert_frequency: z.enum(['instant', 'daily', 'off']).optional(),
+  push_enabled: z.boolean().optional(),
+});
+
+const createSavedJobSearchSchema = savedJobSearchFields
+  .refine(...salaryBandRefinement)
+  .refine(...searchCurrencyRefinement);
+const updateSavedJobSearchSchema = savedJobSearchFields
+  .partial()
+  .refine(...salaryBandRefinement)
+  .refine(...searchCurrencyRefinement);
+
+const jobSalaryQuerySchema = z
+  .object({
+    salary_min: z.number().int().nonnegative().nullish(),
+    salary_max: z.number().int().nonnegative().nullish(),
+    salary_currency: salaryCurrency.nullish(),
+    salary_period: z.enum(SALARY_PERIODS).nullish(),
+  })
+  .refine(...searchCurrencyRefinement);
+
+const APPLICATION_STATUSES = ['pending', 'reviewed', 'interviewed', 'accepted', 'rejected'];
+
+const updateApplicationStatusSchema = z.object({
+  status: z.enum(APPLICATION_STATUSES),
+});
+
+const bulkUpdateApplicationStatusSchema = z.object({
+  application_ids: z.array(z.string()).min(1, 'Select at least one application').max(100),
+  status: z.enum(APPLICATION_STATUSES),
+});
+
+const createApplicationNoteSchema = z.object({
+  content: z.string().trim().min(1, 'Note is required').max(2000),
+});
+
+const applicantSelect = {
+  id: true,
+  username: true,
+  full_name: true,
+  profile: {
+    select: {
+      avatar_url: true,
+      position: true,
+      company: true,
+    },
+  },
+};
+
+const statusMessages = {
+  pending: 'is back under consideration',
+  reviewed: 'has been reviewed',
+  interviewed: 'has moved to the interview stage',
+  accepted: 'has been accepted',
+  rejected: 'was not selected',
+};
+
+/**
+ * Move applications to a new status and notify each applicant. Applications
+ * already in that status are left alone.
+ * @param {Object} req - Express request (the poster's)
+ * @param {Object} job - Job the applications belong to
+ * @param {Array<{id: string, user_id: string, status: string}>} applications
+ * @param {string} status
+ * @returns {Promise<string[]>} IDs of the applications that changed
+ */
+async function changeApplicationStatus(req, job, applications, status) {
+  const changed = applications.filter((application) => application.status !== status);
+  if (changed.length === 0) {
+    return [];
+  }
+
+  const title = 'Application Update';
+  const message = `Your application for ${job.title} ${statusMessages[status]}`;
+
+  await prisma.$transaction(async (tx) => {
+    await tx.application.updateMany({
+      where: { id: { in: changed.map((application) => application.id) } },
+      data: { status },
+    });
+
+    for (const application of changed) {
+      await tx.notification.create({
+        data: {
+          user_id: application.user_id,
+          sender_id: req.user.id,
+          type: 'application',
+          title,
+          message,
+          link: '/careernet/applications',
+        },
+      });
+    }
+  });
+
+  const io = req.app.get('io');
+  if (io) {
+    for (const application of changed) {
+      io.to(`user:${application.user_id}`).emit('notification.new', {
+        type: 'application',
+        title,
+        message,
+      });
+      io.to(`user:${application.user_id}`).emit('application.status', {
+        applicationId: application.id,
+        jobId: job.id,
+        status,
+      });
+    }
+  }
+
+  return changed.map((application) => application.id);
+}
+
+/**
+ * Load an application with its job, checking the current user posted the job
+ * @returns {Promise<{application?: Object, error?: {status: number, message: string}}>}
+ */
+async function findPosterApplication(applicationId, userId) {
+  const application = await prisma.application.findUnique({
+    where: { id: applicationId },
+    include: {
+      job: {
+        select: {
+          id: true,
+          title: true,
+          user_id: true,
+        },
+      },
+    },
+  });
+
+  if (!application) {
+    return { error: { status: 404, message: 'Application not found' } };
+  }
+
+  if (application.job.user_id !== userId) {
+    return { error: { status: 403, message: 'Only the job poster can manage applications' } };
+  }
+
+  return { application };
+}
+
 /**
  * GET /api/careernet/jobs
- * Get all jobs with filters
+ * Get all jobs with filters. A salary band needs salary_currency and is per
+ * salary_period (default 'year').
  */
 router.get('/jobs', async (req, res) => {
   try {
-    const { status = 'open', type, location, search, limit = 20, cursor } = req.query;
+    const {
+      status = 'open',
+      type,
+      location,
+      workplace_type,
+      seniority,
+      search,
+      tags,
+      salary_min,
+      salary_max,
+      salary_currency,
+      salary_period,
+      limit = 20,
+      cursor,
+    } = req.query;
+
+    const salaryBand = jobSalaryQuerySchema.parse({
+      salary_min: salary_min ? parseInt(salary_min) : null,
+      salary_max: salary_max ? parseInt(salary_max) : null,
+      salary_currency: salary_currency || null,
+      salary_period: salary_period || null,
+    });
 
     const where = {
       status,
+      AND: buildJobSearchFilters({
+        query: search,
+        type,
+        location,
+        workplace_type,
+        seniority,
+        tags: tags ? tags.split(',').map((tag) => tag.trim()).filter(Boolean) : [],
+        ...salaryBand,
+      }),
     };
 
-    if (type) {
-      where.type = type;
-    }
-
-    if (location) {
-      where.location = {
-        contains: location,
-        mode: 'insensitive',
-      };
-    }
-
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-        { company: { contains: search, mode: 'insensitive' } },
-      ];
+    // Expired jobs stay open until the background sweep closes them
+    if (status === 'open') {
+      where.AND.push({ OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }] });
     }
 
     const jobs = await prisma.job.findMany({
@@ -121,6 +371,13 @@ router.get('/jobs', async (req, res) => {
       nextCursor: jobs.length === parseInt(limit) ? jobs[jobs.length - 1].id : null,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
     console.error('Get jobs error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -175,7 +432,7 @@ router.get('/jobs/:jobId', async (req, res) => {
  */
 router.post('/jobs', authMiddleware, async (req, res) => {
   try {
-    const validatedData = createJobSchema.parse(req.body);
+    const validatedData = withDisplayLocation(createJobSchema.parse(req.body));
 
     const job = await prisma.job.create({
       data: {
@@ -184,29 +441,32 @@ router.post('/jobs', authMiddleware, async (req, res) => {
         description: validatedData.description,
         company: validatedData.company || undefined,
         location: validatedData.location || undefined,
+        location_city: validatedData.location_city || undefined,
+        location_country: validatedData.location_country || undefined,
+        workplace_type: validatedData.workplace_type || undefined,
         type: validatedData.type || undefined,
+        seniority: validatedData.seniority || undefined,
+        salary_min: validatedData.salary_min || undefined,
+        salary_max: validatedData.salary_max || undefined,
+        salary_currency: validatedData.salary_currency || undefined,
+        salary_period: validatedData.salary_period || undefined,
         salary_range: validatedData.salary_range || undefined,
         requirements: validatedData.requirements || undefined,
         tags: validatedData.tags || undefined,
         application_url: validatedData.application_url || undefined,
         application_email: validatedData.application_email || undefined,
+        expires_at: validatedData.expires_at || undefined,
       },
       include: {
         user: {
-          select: {
-            id: true,
-            username: true,
-            full_name: true,
-            profile: {
-              select: {
-                avatar_url: true,
-              },
-            },
-          },
+          select: jobPosterSelect,
         },
       },
     });
 
+    // Not awaited: alerts shouldn't hold up posting
+    notifyJobAlerts(req.app.get('io'), job);
+
     res.status(201).json(job);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -221,6 +481,131 @@ router.post('/jobs', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/careernet/jobs/:jobId
+ * Edit, close, mark filled or reopen a job (poster only)
+ */
+router.patch('/jobs/:jobId', authMiddleware, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const validatedData = updateJobSchema.parse(req.body);
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        user_id: true,
+        status: true,
+        expires_at: true,
+        location_city: true,
+        location_country: true,
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the job poster can edit this job' });
+    }
+
+    // A lapsed expiry date would close a reopened job again on the next sweep
+    const status = validatedData.status || job.status;
+    const expiresAt =
+      validatedData.expires_at !== undefined ? validatedData.expires_at : job.expires_at;
+    if (status === 'open' && expiresAt && expiresAt <= new Date()) {
+      return res.status(400).json({ error: 'Set a new expiry date to reopen this job' });
+    }
+
+    const updated = await prisma.job.update({
+      where: { id: jobId },
+      data: withDisplayLocation(validatedData, job),
+      include: {
+        user: {
+          select: jobPosterSelect,
+        },
+        _count: {
+          select: {
+            applications: true,
+          },
+        },
+      },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Update job error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/careernet/jobs/:jobId/duplicate
+ * Repost a job as a new open posting (poster only)
+ */
+router.post('/jobs/:jobId/duplicate', authMiddleware, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the job poster can repost this job' });
+    }
+
+    // Applications and the expiry date stay with the original
+    const duplicate = await prisma.job.create({
+      data: {
+        user_id: req.user.id,
+        title: job.title,
+        description: job.description,
+        company: job.company,
+        location: job.location,
+        location_city: job.location_city,
+        location_country: job.location_country,
+        workplace_type: job.workplace_type,
+        type: job.type,
+        seniority: job.seniority,
+        salary_min: job.salary_min,
+        salary_max: job.salary_max,
+        salary_currency: job.salary_currency,
+        salary_period: job.salary_period,
+        salary_range: job.salary_range,
+        requirements: job.requirements || undefined,
+        tags: job.tags || undefined,
+        application_url: job.application_url,
+        application_email: job.application_email,
+      },
+      include: {
+        user: {
+          select: jobPosterSelect,
+        },
+      },
+    });
+
+    notifyJobAlerts(req.app.get('io'), duplicate);
+
+    res.status(201).json(duplicate);
+  } catch (error) {
+    console.error('Duplicate job error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * POST /api/careernet/jobs/:jobId/apply
  * Apply to a job
@@ -242,7 +627,7 @@ router.post(
         return res.status(404).json({ error: 'Job not found' });
       }
 
-      if (job.status !== 'open') {
+      if (job.status !== 'open' || (job.expires_at && job.expires_at <= new Date())) {
         return res.status(400).json({ error: 'Job is not accepting applications' });
       }
 
@@ -348,6 +733,360 @@ router.post(
   }
 );
 
+/**
+ * GET /api/careernet/saved-searches
+ * Get the current user's saved job searches
+ */
+router.get('/saved-searches', authMiddleware, async (req, res) => {
+  try {
+    const searches = await prisma.savedJobSearch.findMany({
+      where: { user_id: req.user.id },
+      orderBy: { created_at: 'asc' },
+    });
+
+    res.json({ searches });
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/careernet/saved-searches
+ * Save a job search, with alerts for new matching jobs
+ */
+router.post('/saved-searches', authMiddleware, async (req, res) => {
+  try {
+    const validatedData = createSavedJobSearchSchema.parse(req.body);
+
+    const count = await prisma.savedJobSearch.count({
+      where: { user_id: req.user.id },
+    });
+
+    if (count >= MAX_SAVED_SEARCHES) {
+      return res
+        .status(400)
+        .json({ error: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+    }
+
+    const search = await prisma.savedJobSearch.create({
+      data: {
+        ...validatedData,
+        user_id: req.user.id,
+      },
+    });
+
+    res.status(201).json(search);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Create saved search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/careernet/saved-searches/:searchId
+ * Update a saved search or its alert settings
+ */
+router.patch('/saved-searches/:searchId', authMiddleware, async (req, res) => {
+  try {
+    const { searchId } = req.params;
+    const validatedData = updateSavedJobSearchSchema.parse(req.body);
+
+    const search = await prisma.savedJobSearch.findUnique({
+      where: { id: searchId },
+    });
+
+    if (!search || search.user_id !== req.user.id) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    const data = { ...validatedData };
+    // Jobs already sent as instant alerts shouldn't show up in the first digest
+    if (data.alert_frequency === 'daily' && search.alert_frequency !== 'daily') {
+      data.last_digest_at = new Date();
+    }
+
+    const updated = await prisma.savedJobSearch.update({
+      where: { id: searchId },
+      data,
+    });
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Update saved search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/careernet/saved-searches/:searchId
+ * Delete a saved search
+ */
+router.delete('/saved-searches/:searchId', authMiddleware, async (req, res) => {
+  try {
+    const { searchId } = req.params;
+
+    const search = await prisma.savedJobSearch.findUnique({
+      where: { id: searchId },
+      select: { user_id: true },
+    });
+
+    if (!search || search.user_id !== req.user.id) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    await prisma.savedJobSearch.delete({
+      where: { id: searchId },
+    });
+
+    res.json({ message: 'Saved search deleted' });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/careernet/applications/mine
+ * Get the current user's applications with their status
+ */
+router.get('/applications/mine', authMiddleware, async (req, res) => {
+  try {
+    const applications = await prisma.application.findMany({
+      where: { user_id: req.user.id },
+      select: {
+        id: true,
+        job_id: true,
+        status: true,
+        resume_url: true,
+        created_at: true,
+        updated_at: true,
+        job: {
+          select: {
+            id: true,
+            title: true,
+            company: true,
+            location: true,
+            status: true,
+          },
+        },
+      },
+      orderBy: { updated_at: 'desc' },
+    });
+
+    res.json({ applications });
+  } catch (error) {
+    console.error('Get my applications error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/careernet/jobs/:jobId/applications
+ * Get a job's applications with notes (job poster only)
+ */
+router.get('/jobs/:jobId/applications', authMiddleware, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        user_id: true,
+        title: true,
+        company: true,
+        status: true,
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the job poster can view applications' });
+    }
+
+    const applications = await prisma.application.findMany({
+      where: { job_id: jobId },
+      include: {
+        user: {
+          select: applicantSelect,
+        },
+        notes: {
+          include: {
+            author: {
+              select: {
+                id: true,
+                full_name: true,
+              },
+            },
+          },
+          orderBy: { created_at: 'asc' },
+        },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    res.json({ job, applications });
+  } catch (error) {
+    console.error('Get job applications error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/careernet/jobs/:jobId/applications/status
+ * Move several applications to one status (job poster only)
+ */
+router.patch('/jobs/:jobId/applications/status', authMiddleware, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const validatedData = bulkUpdateApplicationStatusSchema.parse(req.body);
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        user_id: true,
+        title: true,
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the job poster can manage applications' });
+    }
+
+    // Only applications to this job
+    const applications = await prisma.application.findMany({
+      where: {
+        id: { in: validatedData.application_ids },
+        job_id: jobId,
+      },
+      select: {
+        id: true,
+        user_id: true,
+        status: true,
+      },
+    });
+
+    if (applications.length !== new Set(validatedData.application_ids).size) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    const updated = await changeApplicationStatus(req, job, applications, validatedData.status);
+
+    res.json({ message: 'Applications updated', updated: updated.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Bulk update application status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/careernet/applications/:applicationId/status
+ * Move an application through the pipeline (job poster only)
+ */
+router.patch('/applications/:applicationId/status', authMiddleware, async (req, res) => {
+  try {
+    const validatedData = updateApplicationStatusSchema.parse(req.body);
+
+    const { application, error } = await findPosterApplication(
+      req.params.applicationId,
+      req.user.id
+    );
+    if (error) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    await changeApplicationStatus(req, application.job, [application], validatedData.status);
+
+    res.json({ id: application.id, status: validatedData.status });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Update application status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/careernet/applications/:applicationId/notes
+ * Add a private note to an application (job poster only)
+ */
+router.post('/applications/:applicationId/notes', authMiddleware, async (req, res) => {
+  try {
+    const validatedData = createApplicationNoteSchema.parse(req.body);
+
+    const { application, error } = await findPosterApplication(
+      req.params.applicationId,
+      req.user.id
+    );
+    if (error) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const note = await prisma.applicationNote.create({
+      data: {
+        application_id: application.id,
+        author_id: req.user.id,
+        content: validatedData.content,
+      },
+      include: {
+        author: {
+          select: {
+            id: true,
+            full_name: true,
+          },
+        },
+      },
+    });
+
+    res.status(201).json(note);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Create application note error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/careernet/endorsements/user/:userId
  * Get endorsements for a user
@@ -404,6 +1143,10 @@ router.post('/endorsements', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Cannot endorse yourself' });
     }
 
+    if (await isBlockedBetween(req.user.id, receiver_id)) {
+      return res.status(403).json({ error: 'You cannot endorse this user' });
+    }
+
     // Check if already endorsed this skill
     const existing = await prisma.endorsement.findFirst({
       where: {
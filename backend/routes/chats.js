@@ -1,9 +1,273 @@
 const express = require('express');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { getBlockedUserIds } = require('../utils/blocks');
+const { callSummarySelect } = require('../utils/calls');
+const { buildSnippet, splitSearchTerms } = require('../utils/chatSearch');
 
 const router = express.Router();
 
+/**
+ * Check whether the current thread key still covers exactly the participant devices.
+ * Rotation is required when nobody has published a key yet, when a former participant
+ * or a signed-out device still holds the current key, or when a participant device has
+ * not received it.
+ */
+async function isKeyRotationRequired(thread) {
+  if (!thread.key_version) {
+    return true;
+  }
+
+  const participants = Array.isArray(thread.participants) ? thread.participants : [];
+
+  const [currentKeys, devices] = await Promise.all([
+    prisma.chatThreadKey.findMany({
+      where: { thread_id: thread.id, key_version: thread.key_version },
+      select: { user_id: true, device_id: true },
+    }),
+    prisma.deviceKey.findMany({
+      where: { user_id: { in: participants } },
+      select: { user_id: true, device_id: true },
+    }),
+  ]);
+
+  if (currentKeys.some((key) => !participants.includes(key.user_id))) {
+    return true;
+  }
+
+  const wrappedFor = new Set(currentKeys.map((key) => `${key.user_id}:${key.device_id}`));
+  const published = new Set(devices.map((device) => `${device.user_id}:${device.device_id}`));
+
+  // Device keys are deleted when their session signs out
+  if ([...wrappedFor].some((device) => !published.has(device))) {
+    return true;
+  }
+
+  return [...published].some((device) => !wrappedFor.has(device));
+}
+
+const memberSelect = {
+  id: true,
+  username: true,
+  full_name: true,
+  profile: {
+    select: {
+      avatar_url: true,
+    },
+  },
+};
+
+const MAX_GROUP_NAME_LENGTH = 100;
+
+function toIdList(value) {
+  return Array.isArray(value) ? value : [];
+}
+
+function displayName(user) {
+  return user.full_name || user.username;
+}
+
+/**
+ * Group details as returned by the group management endpoints
+ */
+async function getGroupDetails(thread, userId) {
+  const participants = toIdList(thread.participants);
+  const members = await prisma.user.findMany({
+    where: { id: { in: participants } },
+    select: memberSelect,
+  });
+
+  return {
+    thread: {
+      id: thread.id,
+      type: thread.type,
+      name: thread.name,
+      avatar_url: thread.avatar_url,
+      admin_ids: toIdList(thread.admins),
+      participants: members.filter((member) => member.id !== userId),
+      updated_at: thread.updated_at,
+    },
+    members,
+  };
+}
+
+/**
+ * Write a system message recording a membership or settings change. Pass the
+ * transaction client to keep the message in step with the change it describes.
+ */
+function createSystemMessage(db, req, threadId, content) {
+  return db.message.create({
+    data: {
+      thread_id: threadId,
+      user_id: req.user.id,
+      type: 'system',
+      content,
+    },
+    include: {
+      user: {
+        select: memberSelect,
+      },
+    },
+  });
+}
+
+function emitNewMessage(req, message) {
+  const io = req.app.get('io');
+  if (io) {
+    io.to(`thread:${message.thread_id}`).emit('message.new', message);
+  }
+}
+
+/**
+ * Record a membership or settings change as a system message in the thread
+ */
+async function postSystemMessage(req, threadId, content) {
+  const message = await createSystemMessage(prisma, req, threadId, content);
+  emitNewMessage(req, message);
+  return message;
+}
+
+/**
+ * Tell participants to refresh the thread (their thread list shows name, avatar and members)
+ */
+function emitThreadUpdated(req, threadId, userIds) {
+  const io = req.app.get('io');
+  if (io) {
+    userIds.forEach((userId) => {
+      io.to(`user:${userId}`).emit('thread.updated', { thread_id: threadId });
+    });
+  }
+}
+
+/**
+ * Why the user can't manage this thread, as { status, error }, or null when they can
+ */
+function getGroupAccessError(thread, userId, { requireAdmin = false } = {}) {
+  if (!thread) {
+    return { status: 404, error: 'Thread not found' };
+  }
+
+  if (thread.type !== 'group') {
+    return { status: 400, error: 'Only group chats can be managed' };
+  }
+
+  if (!toIdList(thread.participants).includes(userId)) {
+    return { status: 403, error: 'Not authorized to view this thread' };
+  }
+
+  if (requireAdmin && !toIdList(thread.admins).includes(userId)) {
+    return { status: 403, error: 'Only group admins can do this' };
+  }
+
+  return null;
+}
+
+/**
+ * Load a group thread the current user belongs to. Sends the error response and
+ * returns null when the thread is missing, not a group or the user isn't a member
+ * (or, with requireAdmin, not a group admin).
+ */
+async function findGroupForMember(req, res, { requireAdmin = false } = {}) {
+  const thread = await prisma.chatThread.findUnique({
+    where: { id: req.params.threadId },
+  });
+
+  const accessError = getGroupAccessError(thread, req.user.id, { requireAdmin });
+  if (accessError) {
+    res.status(accessError.status).json({ error: accessError.error });
+    return null;
+  }
+
+  return thread;
+}
+
+/**
+ * Change a group's members or admins with its row locked. The thread is re-read
+ * inside the lock, so concurrent changes apply one after another instead of
+ * overwriting each other's lists, and the system messages are written in the
+ * same transaction.
+ *
+ * `change(thread, tx)` works from the fresh thread and returns
+ * { data, messages } to update it, { remove: true } to delete it, or
+ * { status, error } to refuse. Sends the error response and returns null when
+ * the change is refused.
+ * @returns {Promise<{thread: Object|null}|null>} The updated thread, null once deleted
+ */
+async function updateGroupThread(req, res, { requireAdmin = false }, change) {
+  const threadId = req.params.threadId;
+
+  const result = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "chat_threads" WHERE id = ${threadId} FOR UPDATE`;
+    const thread = await tx.chatThread.findUnique({ where: { id: threadId } });
+
+    const accessError = getGroupAccessError(thread, req.user.id, { requireAdmin });
+    if (accessError) {
+      return accessError;
+    }
+
+    const outcome = await change(thread, tx);
+    if (outcome.error) {
+      return outcome;
+    }
+
+    if (outcome.remove) {
+      await tx.chatThread.delete({ where: { id: threadId } });
+      return { thread: null, messages: [] };
+    }
+
+    const updated = await tx.chatThread.update({
+      where: { id: threadId },
+      data: outcome.data,
+    });
+    const messages = [];
+    for (const content of outcome.messages) {
+      messages.push(await createSystemMessage(tx, req, threadId, content));
+    }
+
+    return { thread: updated, messages };
+  });
+
+  if (result.error) {
+    res.status(result.status).json({ error: result.error });
+    return null;
+  }
+
+  result.messages.forEach((message) => emitNewMessage(req, message));
+  return { thread: result.thread };
+}
+
+const MAX_SEARCH_RESULTS = 50;
+const MAX_READ_BATCH = 100;
+
+/**
+ * IDs of every thread the user participates in
+ */
+async function getUserThreadIds(userId) {
+  const allThreads = await prisma.chatThread.findMany({
+    select: { id: true, participants: true },
+  });
+  return allThreads
+    .filter((thread) => toIdList(thread.participants).includes(userId))
+    .map((thread) => thread.id);
+}
+
+/**
+ * Messages from other people the user hasn't read yet, in the given threads
+ */
+function countUnread(threadIds, userId) {
+  return prisma.message.count({
+    where: {
+      thread_id: { in: threadIds },
+      user_id: { not: userId },
+      reads: {
+        none: {
+          user_id: userId,
+        },
+      },
+    },
+  });
+}
+
 /**
  * GET /api/chats/threads
  * Get all threads for the current user
@@ -65,28 +329,22 @@ router.get('/threads', authMiddleware, async (req, res) => {
         });
 
         // Get unread count
-        const unreadCount = await prisma.message.count({
-          where: {
-            thread_id: thread.id,
-            user_id: { not: req.user.id },
-            reads: {
-              none: {
-                user_id: req.user.id,
-              },
-            },
-          },
-        });
+        const unreadCount = await countUnread([thread.id], req.user.id);
 
         return {
           id: thread.id,
           type: thread.type,
           name: thread.name,
+          avatar_url: thread.avatar_url,
+          admin_ids: toIdList(thread.admins),
           participants: otherParticipants,
           latestMessage: latestMessage
             ? {
                 id: latestMessage.id,
+                type: latestMessage.type,
                 content: latestMessage.content,
                 encrypted: latestMessage.encrypted,
+                key_version: latestMessage.key_version,
                 created_at: latestMessage.created_at,
                 user: latestMessage.user,
               }
@@ -123,6 +381,16 @@ router.post('/threads', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: '1:1 thread must have exactly 2 participants' });
     }
 
+    const groupName = typeof name === 'string' ? name.trim() : '';
+    if (type === 'group' && (!groupName || groupName.length > MAX_GROUP_NAME_LENGTH)) {
+      return res.status(400).json({ error: 'Group name is required (max 100 characters)' });
+    }
+
+    const blockedUserIds = await getBlockedUserIds(req.user.id);
+    if (allParticipants.some((userId) => blockedUserIds.includes(userId))) {
+      return res.status(403).json({ error: 'You cannot message a user you blocked or who blocked you' });
+    }
+
     // For 1:1, check if thread already exists
     if (type === '1:1') {
       const existingThreads = await prisma.chatThread.findMany({
@@ -169,15 +437,20 @@ router.post('/threads', authMiddleware, async (req, res) => {
       }
     }
 
-    // Create new thread
+    // Create new thread; whoever creates a group administers it
     const thread = await prisma.chatThread.create({
       data: {
         type,
-        name: type === 'group' ? name : undefined,
+        name: type === 'group' ? groupName : undefined,
         participants: allParticipants,
+        admins: type === 'group' ? [req.user.id] : [],
       },
     });
 
+    if (type === 'group') {
+      await postSystemMessage(req, thread.id, `${displayName(req.user)} created the group "${groupName}"`);
+    }
+
     // Get other participants' info
     const otherParticipantIds = allParticipants.filter((id) => id !== req.user.id);
     const otherParticipants = await prisma.user.findMany({
@@ -201,6 +474,8 @@ router.post('/threads', authMiddleware, async (req, res) => {
         id: thread.id,
         type: thread.type,
         name: thread.name,
+        avatar_url: thread.avatar_url,
+        admin_ids: toIdList(thread.admins),
         participants: otherParticipants,
         latestMessage: null,
         unreadCount: 0,
@@ -213,6 +488,98 @@ router.post('/threads', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/chats/unread
+ * Total unread messages across all of the current user's threads
+ */
+router.get('/unread', authMiddleware, async (req, res) => {
+  try {
+    const threadIds = await getUserThreadIds(req.user.id);
+    const unreadCount = await countUnread(threadIds, req.user.id);
+
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error('Get unread count error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/chats/search?q=...&thread_id=...
+ * Search the current user's messages, optionally within one thread. Only plaintext
+ * messages can be matched here; encrypted ones are searched on the device.
+ */
+router.get('/search', authMiddleware, async (req, res) => {
+  try {
+    const { q, thread_id, limit = 20 } = req.query;
+    const terms = splitSearchTerms(q);
+
+    if (thread_id !== undefined && typeof thread_id !== 'string') {
+      return res.status(400).json({ error: 'thread_id must be a single thread ID' });
+    }
+
+    if (terms.length === 0) {
+      return res.json({ results: [] });
+    }
+
+    let threadIds;
+    if (thread_id) {
+      const thread = await prisma.chatThread.findUnique({
+        where: { id: thread_id },
+      });
+
+      if (!thread) {
+        return res.status(404).json({ error: 'Thread not found' });
+      }
+
+      if (!toIdList(thread.participants).includes(req.user.id)) {
+        return res.status(403).json({ error: 'Not authorized to view this thread' });
+      }
+
+      threadIds = [thread.id];
+    } else {
+      threadIds = await getUserThreadIds(req.user.id);
+    }
+
+    const messages = await prisma.message.findMany({
+      where: {
+        thread_id: { in: threadIds },
+        type: 'text',
+        encrypted: false,
+        AND: terms.map((term) => ({ content: { contains: term, mode: 'insensitive' } })),
+      },
+      take: Math.min(parseInt(limit) || 20, MAX_SEARCH_RESULTS),
+      orderBy: { created_at: 'desc' },
+      select: {
+        id: true,
+        thread_id: true,
+        content: true,
+        created_at: true,
+        user: {
+          select: {
+            id: true,
+            username: true,
+            full_name: true,
+          },
+        },
+      },
+    });
+
+    res.json({
+      results: messages.map((message) => ({
+        message_id: message.id,
+        thread_id: message.thread_id,
+        user: message.user,
+        created_at: message.created_at,
+        ...buildSnippet(message.content, terms),
+      })),
+    });
+  } catch (error) {
+    console.error('Search messages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/chats/threads/:threadId/messages
  * Get messages for a thread
@@ -256,53 +623,572 @@ router.get('/threads/:threadId/messages', authMiddleware, async (req, res) => {
             },
           },
         },
-        reads: {
-          where: {
-            user_id: req.user.id,
+        reply_to: {
+          select: {
+            id: true,
+            user_id: true,
+            content: true,
+            encrypted: true,
+            key_version: true,
+            media_urls: true,
+            user: {
+              select: {
+                id: true,
+                username: true,
+                full_name: true,
+              },
+            },
+          },
+        },
+        reactions: {
+          select: {
+            emoji: true,
+            user_id: true,
           },
+          orderBy: { created_at: 'asc' },
+        },
+        // Read receipts; messages are marked read as they scroll into view
+        reads: {
           select: {
+            user_id: true,
             read_at: true,
           },
         },
+        // Call log entries ('call' messages)
+        call_session: {
+          select: callSummarySelect,
+        },
+      },
+    });
+
+    res.json({
+      messages: messages.reverse(), // Reverse to show oldest first
+      nextCursor: messages.length === parseInt(limit) ? messages[0].id : null,
+    });
+  } catch (error) {
+    console.error('Get messages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/chats/threads/:threadId/read
+ * Mark a batch of messages as read by the current user
+ */
+router.post('/threads/:threadId/read', authMiddleware, async (req, res) => {
+  try {
+    const { threadId } = req.params;
+    const { message_ids } = req.body;
+
+    if (
+      !Array.isArray(message_ids) ||
+      message_ids.length === 0 ||
+      message_ids.length > MAX_READ_BATCH ||
+      message_ids.some((id) => typeof id !== 'string')
+    ) {
+      return res
+        .status(400)
+        .json({ error: `message_ids must be a list of 1 to ${MAX_READ_BATCH} message IDs` });
+    }
+
+    const thread = await prisma.chatThread.findUnique({
+      where: { id: threadId },
+    });
+
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    if (!toIdList(thread.participants).includes(req.user.id)) {
+      return res.status(403).json({ error: 'Not authorized to view this thread' });
+    }
+
+    // Ignore IDs from other threads and the user's own messages
+    const messages = await prisma.message.findMany({
+      where: {
+        id: { in: message_ids },
+        thread_id: threadId,
+        user_id: { not: req.user.id },
       },
+      select: { id: true },
     });
 
-    // Mark messages as read
-    const unreadMessages = messages.filter((msg) => msg.reads.length === 0);
-    if (unreadMessages.length > 0) {
+    const readAt = new Date();
+    if (messages.length > 0) {
       await prisma.messageRead.createMany({
-        data: unreadMessages.map((msg) => ({
+        data: messages.map((msg) => ({
           message_id: msg.id,
           user_id: req.user.id,
+          read_at: readAt,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    const unreadCount = await countUnread([threadId], req.user.id);
+
+    const io = req.app.get('io');
+    if (io && messages.length > 0) {
+      io.to(`thread:${threadId}`).emit('message.read', {
+        thread_id: threadId,
+        user_id: req.user.id,
+        message_ids: messages.map((msg) => msg.id),
+        read_at: readAt,
+      });
+      // Lets the user's other tabs and devices update their unread badges
+      io.to(`user:${req.user.id}`).emit('thread.read', { thread_id: threadId, unreadCount });
+    }
+
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error('Mark read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/chats/threads/:threadId/keys?device_id=...
+ * Get every thread key version wrapped for the given device of the current user
+ */
+router.get('/threads/:threadId/keys', authMiddleware, async (req, res) => {
+  try {
+    const { threadId } = req.params;
+    const { device_id } = req.query;
+
+    if (!device_id) {
+      return res.status(400).json({ error: 'Device ID is required' });
+    }
+
+    const thread = await prisma.chatThread.findUnique({
+      where: { id: threadId },
+    });
+
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    const participants = Array.isArray(thread.participants) ? thread.participants : [];
+    if (!participants.includes(req.user.id)) {
+      return res.status(403).json({ error: 'Not authorized to view this thread' });
+    }
+
+    const keys = await prisma.chatThreadKey.findMany({
+      where: {
+        thread_id: threadId,
+        user_id: req.user.id,
+        device_id: String(device_id),
+      },
+      orderBy: { key_version: 'asc' },
+      select: {
+        key_version: true,
+        wrapped_key: true,
+        ephemeral_public_key: true,
+      },
+    });
+
+    res.json({
+      key_version: thread.key_version,
+      rotation_required: await isKeyRotationRequired(thread),
+      participant_ids: participants,
+      keys,
+    });
+  } catch (error) {
+    console.error('Get thread keys error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/chats/threads/:threadId/keys
+ * Rotate the thread key: publish a new version wrapped for every participant device
+ */
+router.post('/threads/:threadId/keys', authMiddleware, async (req, res) => {
+  try {
+    const { threadId } = req.params;
+    const { key_version, keys } = req.body;
+
+    if (!Number.isInteger(key_version) || !Array.isArray(keys) || keys.length === 0) {
+      return res.status(400).json({ error: 'Key version and wrapped keys are required' });
+    }
+
+    const thread = await prisma.chatThread.findUnique({
+      where: { id: threadId },
+    });
+
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    const participants = Array.isArray(thread.participants) ? thread.participants : [];
+    if (!participants.includes(req.user.id)) {
+      return res.status(403).json({ error: 'Not authorized to rotate keys in this thread' });
+    }
+
+    const invalidKey = keys.find(
+      (key) =>
+        !key ||
+        !participants.includes(key.user_id) ||
+        typeof key.device_id !== 'string' ||
+        typeof key.wrapped_key !== 'string' ||
+        typeof key.ephemeral_public_key !== 'string'
+    );
+    if (invalidKey) {
+      return res.status(400).json({ error: 'Keys can only be wrapped for thread participants' });
+    }
+
+    if (key_version !== thread.key_version + 1) {
+      return res.status(409).json({
+        error: 'Thread key version conflict',
+        key_version: thread.key_version,
+      });
+    }
+
+    // Bump the version only if nobody rotated concurrently
+    const rotated = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.chatThread.updateMany({
+        where: { id: threadId, key_version: thread.key_version },
+        data: { key_version },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.chatThreadKey.createMany({
+        data: keys.map((key) => ({
+          thread_id: threadId,
+          key_version,
+          user_id: key.user_id,
+          device_id: key.device_id,
+          wrapped_key: key.wrapped_key,
+          ephemeral_public_key: key.ephemeral_public_key,
+          created_by: req.user.id,
         })),
         skipDuplicates: true,
       });
 
-      // Emit read receipts via Socket.io
-      const io = req.app.get('io');
-      if (io) {
-        unreadMessages.forEach((msg) => {
-          io.to(`thread:${threadId}`).emit('message.read', {
-            message_id: msg.id,
-            user_id: req.user.id,
-          });
+      return true;
+    });
+
+    if (!rotated) {
+      return res.status(409).json({ error: 'Thread key version conflict' });
+    }
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`thread:${threadId}`).emit('thread.key_rotated', {
+        thread_id: threadId,
+        key_version,
+      });
+    }
+
+    res.status(201).json({ key_version });
+  } catch (error) {
+    console.error('Rotate thread key error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/chats/threads/:threadId/group
+ * Get group settings and the full member list
+ */
+router.get('/threads/:threadId/group', authMiddleware, async (req, res) => {
+  try {
+    const thread = await findGroupForMember(req, res);
+    if (!thread) return;
+
+    res.json(await getGroupDetails(thread, req.user.id));
+  } catch (error) {
+    console.error('Get group error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/chats/threads/:threadId/group
+ * Rename a group or change its avatar (group admins only)
+ */
+router.patch('/threads/:threadId/group', authMiddleware, async (req, res) => {
+  try {
+    const { name, avatar_url } = req.body;
+    const updateData = {};
+    const changes = [];
+
+    if (name !== undefined) {
+      const groupName = typeof name === 'string' ? name.trim() : '';
+      if (!groupName || groupName.length > MAX_GROUP_NAME_LENGTH) {
+        return res.status(400).json({ error: 'Group name is required (max 100 characters)' });
+      }
+      updateData.name = groupName;
+    }
+
+    if (avatar_url !== undefined) {
+      if (avatar_url !== null && (typeof avatar_url !== 'string' || !/^https:\/\//.test(avatar_url))) {
+        return res.status(400).json({ error: 'Invalid avatar URL' });
+      }
+      updateData.avatar_url = avatar_url;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ error: 'Nothing to update' });
+    }
+
+    const thread = await findGroupForMember(req, res, { requireAdmin: true });
+    if (!thread) return;
+
+    if (updateData.name !== undefined && updateData.name !== thread.name) {
+      changes.push(`${displayName(req.user)} renamed the group to "${updateData.name}"`);
+    }
+    if (updateData.avatar_url !== undefined && updateData.avatar_url !== thread.avatar_url) {
+      changes.push(
+        updateData.avatar_url
+          ? `${displayName(req.user)} changed the group photo`
+          : `${displayName(req.user)} removed the group photo`
+      );
+    }
+
+    const updated = await prisma.chatThread.update({
+      where: { id: thread.id },
+      data: updateData,
+    });
+
+    for (const change of changes) {
+      await postSystemMessage(req, thread.id, change);
+    }
+    emitThreadUpdated(req, thread.id, toIdList(updated.participants));
+
+    res.json(await getGroupDetails(updated, req.user.id));
+  } catch (error) {
+    console.error('Update group error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/chats/threads/:threadId/participants
+ * Add members to a group (group admins only)
+ */
+router.post('/threads/:threadId/participants', authMiddleware, async (req, res) => {
+  try {
+    const { user_ids } = req.body;
+
+    if (
+      !Array.isArray(user_ids) ||
+      user_ids.length === 0 ||
+      user_ids.some((userId) => typeof userId !== 'string')
+    ) {
+      return res.status(400).json({ error: 'User IDs array is required' });
+    }
+
+    const result = await updateGroupThread(req, res, { requireAdmin: true }, async (thread, tx) => {
+      const blockedUserIds = await getBlockedUserIds(req.user.id);
+      if (user_ids.some((userId) => blockedUserIds.includes(userId))) {
+        return { status: 403, error: 'You cannot add a user you blocked or who blocked you' };
+      }
+
+      const participants = toIdList(thread.participants);
+      const newUsers = await tx.user.findMany({
+        where: {
+          id: { in: [...new Set(user_ids)].filter((userId) => !participants.includes(userId)) },
+        },
+        select: memberSelect,
+      });
+
+      if (newUsers.length === 0) {
+        return { status: 400, error: 'No new members to add' };
+      }
+
+      return {
+        data: {
+          participants: [...participants, ...newUsers.map((user) => user.id)],
+        },
+        messages: [`${displayName(req.user)} added ${newUsers.map(displayName).join(', ')}`],
+      };
+    });
+    if (!result) return;
+
+    emitThreadUpdated(req, result.thread.id, toIdList(result.thread.participants));
+
+    res.json(await getGroupDetails(result.thread, req.user.id));
+  } catch (error) {
+    console.error('Add group members error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/chats/threads/:threadId/participants/:userId
+ * Remove a member (group admins only), or leave the group when userId is yourself.
+ * When the last admin leaves, the longest-standing member takes over; when the last
+ * member leaves, the group is deleted.
+ */
+router.delete('/threads/:threadId/participants/:userId', authMiddleware, async (req, res) => {
+  try {
+    const { threadId, userId } = req.params;
+    const leaving = userId === req.user.id;
+
+    const result = await updateGroupThread(req, res, { requireAdmin: !leaving }, async (thread, tx) => {
+      const participants = toIdList(thread.participants);
+      if (!participants.includes(userId)) {
+        return { status: 404, error: 'User is not a member of this group' };
+      }
+
+      const remaining = participants.filter((id) => id !== userId);
+      if (remaining.length === 0) {
+        return { remove: true };
+      }
+
+      const messages = [];
+      if (leaving) {
+        messages.push(`${displayName(req.user)} left the group`);
+      } else {
+        const removedUser = await tx.user.findUnique({
+          where: { id: userId },
+          select: memberSelect,
+        });
+        messages.push(
+          `${displayName(req.user)} removed ${removedUser ? displayName(removedUser) : 'a member'}`
+        );
+      }
+
+      let admins = toIdList(thread.admins).filter((id) => id !== userId);
+      if (admins.length === 0) {
+        admins = [remaining[0]];
+        const promotedUser = await tx.user.findUnique({
+          where: { id: remaining[0] },
+          select: memberSelect,
         });
+        if (promotedUser) {
+          messages.push(`${displayName(promotedUser)} is now an admin`);
+        }
       }
+
+      return {
+        data: {
+          participants: remaining,
+          admins,
+        },
+        messages,
+      };
+    });
+    if (!result) return;
+
+    const io = req.app.get('io');
+    if (io) {
+      // Stop live updates for the removed member straight away
+      io.in(`user:${userId}`).socketsLeave(`thread:${threadId}`);
+      io.to(`user:${userId}`).emit('thread.member_removed', {
+        thread_id: threadId,
+        user_id: userId,
+      });
     }
 
-    res.json({
-      messages: messages.reverse(), // Reverse to show oldest first
-      nextCursor: messages.length === parseInt(limit) ? messages[0].id : null,
+    if (!result.thread) {
+      return res.json({ message: 'Left group' });
+    }
+
+    emitThreadUpdated(req, threadId, toIdList(result.thread.participants));
+
+    if (leaving) {
+      return res.json({ message: 'Left group' });
+    }
+    res.json(await getGroupDetails(result.thread, req.user.id));
+  } catch (error) {
+    console.error('Remove group member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/chats/threads/:threadId/admins
+ * Make a member a group admin (group admins only)
+ */
+router.post('/threads/:threadId/admins', authMiddleware, async (req, res) => {
+  try {
+    const { user_id } = req.body;
+
+    if (!user_id || typeof user_id !== 'string') {
+      return res.status(400).json({ error: 'User ID is required' });
+    }
+
+    const result = await updateGroupThread(req, res, { requireAdmin: true }, async (thread, tx) => {
+      if (!toIdList(thread.participants).includes(user_id)) {
+        return { status: 404, error: 'User is not a member of this group' };
+      }
+
+      const admins = toIdList(thread.admins);
+      if (admins.includes(user_id)) {
+        return { status: 400, error: 'User is already an admin' };
+      }
+
+      const promotedUser = await tx.user.findUnique({
+        where: { id: user_id },
+        select: memberSelect,
+      });
+
+      return {
+        data: { admins: [...admins, user_id] },
+        messages: [
+          `${displayName(req.user)} made ${promotedUser ? displayName(promotedUser) : 'a member'} an admin`,
+        ],
+      };
     });
+    if (!result) return;
+
+    emitThreadUpdated(req, result.thread.id, toIdList(result.thread.participants));
+
+    res.json(await getGroupDetails(result.thread, req.user.id));
   } catch (error) {
-    console.error('Get messages error:', error);
+    console.error('Promote group admin error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/chats/threads/:threadId/admins/:userId
+ * Revoke a member's admin rights (group admins only). A group always keeps at least one admin.
+ */
+router.delete('/threads/:threadId/admins/:userId', authMiddleware, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const result = await updateGroupThread(req, res, { requireAdmin: true }, async (thread, tx) => {
+      const admins = toIdList(thread.admins);
+      if (!admins.includes(userId)) {
+        return { status: 404, error: 'User is not an admin of this group' };
+      }
+
+      if (admins.length === 1) {
+        return { status: 400, error: 'A group needs at least one admin' };
+      }
+
+      const demotedUser = await tx.user.findUnique({
+        where: { id: userId },
+        select: memberSelect,
+      });
+
+      return {
+        data: { admins: admins.filter((id) => id !== userId) },
+        messages: [
+          `${displayName(req.user)} removed ${demotedUser ? displayName(demotedUser) : 'a member'} as admin`,
+        ],
+      };
+    });
+    if (!result) return;
+
+    emitThreadUpdated(req, result.thread.id, toIdList(result.thread.participants));
+
+    res.json(await getGroupDetails(result.thread, req.user.id));
+  } catch (error) {
+    console.error('Demote group admin error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 /**
  * DELETE /api/chats/threads/:threadId
- * Delete a chat thread (only participants can delete)
+ * Delete a chat thread (only participants can delete, and only admins for groups)
  * Note: This will delete the thread and all messages for all participants
  */
 router.delete('/threads/:threadId', authMiddleware, async (req, res) => {
@@ -324,6 +1210,10 @@ router.delete('/threads/:threadId', authMiddleware, async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to delete this thread' });
     }
 
+    if (thread.type === 'group' && !toIdList(thread.admins).includes(req.user.id)) {
+      return res.status(403).json({ error: 'Only group admins can delete a group' });
+    }
+
     // Delete thread (cascade will delete all messages and message reads)
     await prisma.chatThread.delete({
       where: { id: threadId },
@@ -2,6 +2,9 @@ const express = require('express');
 const { z } = require('zod');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { isModerator } = require('../middleware/admin');
+const { getHiddenUserIds, isBlockedBetween } = require('../utils/blocks');
+const { getRequestToken } = require('../utils/authCookies');
 
 const router = express.Router();
 
@@ -50,10 +53,24 @@ router.post('/', authMiddleware, async (req, res) => {
       if (level >= 3) {
         return res.status(400).json({ error: 'Maximum nesting level reached' });
       }
+
+      if (parent.user_id !== req.user.id && (await isBlockedBetween(req.user.id, parent.user_id))) {
+        return res.status(403).json({ error: 'You cannot reply to this comment' });
+      }
     }
 
     const validatedData = commentSchema.parse({ content, parent_id });
 
+    // Blocked users can't comment on each other's posts
+    const post = await prisma.post.findUnique({
+      where: { id: post_id },
+      select: { user_id: true },
+    });
+
+    if (post && post.user_id !== req.user.id && (await isBlockedBetween(req.user.id, post.user_id))) {
+      return res.status(403).json({ error: 'You cannot comment on this post' });
+    }
+
     const comment = await prisma.comment.create({
       data: {
         post_id,
@@ -93,11 +110,6 @@ router.post('/', authMiddleware, async (req, res) => {
     });
 
     // Create notification for post author
-    const post = await prisma.post.findUnique({
-      where: { id: post_id },
-      select: { user_id: true },
-    });
-
     if (post && post.user_id !== req.user.id) {
       await prisma.notification.create({
         data: {
@@ -149,9 +161,23 @@ router.get('/post/:postId', async (req, res) => {
   try {
     const { postId } = req.params;
 
+    // Comments by users blocked either way, or muted by the viewer, are left
+    // out along with their replies
+    let hiddenUserIds = [];
+    const { token: viewerToken } = getRequestToken(req);
+    if (viewerToken) {
+      try {
+        const { verifyToken } = require('../utils/jwt');
+        const decoded = verifyToken(viewerToken);
+        hiddenUserIds = await getHiddenUserIds(decoded.id);
+      } catch (error) {
+        // Not authenticated or invalid token, continue as public
+      }
+    }
+
     // Get all comments for the post
     const allComments = await prisma.comment.findMany({
-      where: { post_id: postId },
+      where: { post_id: postId, user_id: { notIn: hiddenUserIds } },
       include: {
         user: {
           select: {
@@ -226,6 +252,113 @@ router.get('/post/:postId', async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/comments/:commentId
+ * Edit a comment (author only). The replaced version is kept in the comment's
+ * revision history.
+ */
+router.patch('/:commentId', authMiddleware, async (req, res) => {
+  try {
+    const { commentId } = req.params;
+    const validatedData = commentSchema.pick({ content: true }).parse(req.body);
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+    });
+
+    if (!comment) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    if (comment.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'Not authorized' });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.commentRevision.create({
+        data: {
+          comment_id: commentId,
+          content: comment.content,
+        },
+      });
+
+      return tx.comment.update({
+        where: { id: commentId },
+        data: {
+          content: validatedData.content,
+          edited_at: new Date(),
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              full_name: true,
+              profile: {
+                select: {
+                  avatar_url: true,
+                },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    // Emit via Socket.io
+    const io = req.app.get('io');
+    if (io) {
+      io.to('posts').emit('comment.updated', updated);
+    }
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Edit comment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/comments/:commentId/revisions
+ * Get the previous versions of an edited comment, newest first (author, admins
+ * and moderators only)
+ */
+router.get('/:commentId/revisions', authMiddleware, async (req, res) => {
+  try {
+    const { commentId } = req.params;
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      select: { id: true, user_id: true },
+    });
+
+    if (!comment) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    if (comment.user_id !== req.user.id && !(await isModerator(req.user.id))) {
+      return res.status(403).json({ error: 'Not authorized to view this history' });
+    }
+
+    const revisions = await prisma.commentRevision.findMany({
+      where: { comment_id: commentId },
+      orderBy: { created_at: 'desc' },
+    });
+
+    res.json({ revisions });
+  } catch (error) {
+    console.error('Get comment revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * DELETE /api/comments/:commentId
  * Delete a comment
@@ -1,6 +1,7 @@
 const express = require('express');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { isBlockedBetween } = require('../utils/blocks');
 
 const router = express.Router();
 
@@ -20,6 +21,10 @@ router.post('/follow', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Cannot follow yourself' });
     }
 
+    if (await isBlockedBetween(req.user.id, receiver_id)) {
+      return res.status(403).json({ error: 'You cannot follow this user' });
+    }
+
     // Check if contact already exists
     const existingContact = await prisma.contact.findFirst({
       where: {
@@ -1,13 +1,172 @@
 const express = require('express');
+const { z } = require('zod');
 // Agora imports (kept for rollback, currently disabled)
 // const { RtcTokenBuilder, RtcRole } = require('agora-access-token');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
 const daily = require('../services/daily');
 const logger = require('../utils/logger');
+const { getBlockedUserIds, isBlockedBetween } = require('../utils/blocks');
+const { sendPushToUser } = require('../services/push');
+const {
+  MAX_SLOW_MODE_SECONDS,
+  toIdList,
+  isLiveModerator,
+  isBannedFromLive,
+} = require('../utils/liveChat');
+const {
+  callSummarySelect,
+  getCallOutcome,
+  getCallDurationSeconds,
+  recordCallEnded,
+} = require('../utils/calls');
 
 const router = express.Router();
 
+// Viewers fetch a token right before joining a stream
+const LIVE_VIEWER_TOKEN_TTL_SECONDS = 10 * 60;
+
+const userSummarySelect = {
+  id: true,
+  username: true,
+  full_name: true,
+  profile: {
+    select: {
+      avatar_url: true,
+    },
+  },
+};
+
+function sendDailyUnavailable(res) {
+  logger.error('Daily.co configuration missing - live streaming/calls disabled');
+  return res.status(503).json({
+    error: 'Voice/video calls and live streaming are currently unavailable. Please configure Daily.co credentials.',
+    requiresConfiguration: true,
+    details: 'DAILY_API_KEY environment variable is required.',
+  });
+}
+
+/**
+ * Tell the host's contacts and everyone who RSVP'd that a live stream has
+ * started. RSVP'd users also get a web push since they asked to be reminded.
+ * Errors are logged so going live never fails because of notifications.
+ */
+async function announceLiveStream(req, session, blockedUserIds) {
+  try {
+    const [contacts, rsvps, host] = await Promise.all([
+      prisma.contact.findMany({
+        where: {
+          OR: [
+            { sender_id: session.host_id, status: 'approved' },
+            { receiver_id: session.host_id, status: 'approved' },
+          ],
+        },
+      }),
+      prisma.liveStreamRsvp.findMany({
+        where: { session_id: session.id },
+        select: { user_id: true },
+      }),
+      prisma.user.findUnique({
+        where: { id: session.host_id },
+        select: userSummarySelect,
+      }),
+    ]);
+
+    const rsvpUserIds = rsvps.map((rsvp) => rsvp.user_id);
+    const recipientIds = [
+      ...new Set([
+        ...contacts.map((contact) =>
+          contact.sender_id === session.host_id ? contact.receiver_id : contact.sender_id
+        ),
+        ...rsvpUserIds,
+      ]),
+    ].filter((id) => id !== session.host_id && !blockedUserIds.includes(id));
+
+    const title = 'Live Stream Started';
+    const message = `${host?.full_name || host?.username} is now live streaming${session.title ? `: ${session.title}` : ''}`;
+    const link = `/live/${session.id}`;
+    const io = req.app.get('io');
+
+    await Promise.all(
+      recipientIds.map(async (userId) => {
+        const rsvped = rsvpUserIds.includes(userId);
+
+        if (io) {
+          io.to(`user:${userId}`).emit('live.stream.started', {
+            sessionId: session.id,
+            host,
+            title: session.title || 'Live Stream',
+            description: session.description || undefined,
+            category: session.category || undefined,
+            roomUrl: session.daily_room_url,
+            rsvped,
+          });
+        }
+
+        await prisma.notification
+          .create({
+            data: {
+              user_id: userId,
+              sender_id: session.host_id,
+              type: 'live',
+              title,
+              message,
+              link,
+            },
+          })
+          .catch((err) => {
+            logger.error('Failed to create live stream notification', { error: err.message });
+          });
+
+        if (rsvped) {
+          await sendPushToUser(userId, { title, message, link });
+        }
+      })
+    );
+  } catch (error) {
+    logger.error('Failed to send live stream notifications', { error: error.message });
+  }
+}
+
+/**
+ * Tell a group thread who is in its call. Sent when the call starts, whenever
+ * someone joins or leaves, and once more when it ends.
+ */
+function emitGroupCallUpdate(req, session) {
+  const io = req.app.get('io');
+  if (io) {
+    io.to(`thread:${session.thread_id}`).emit('call.group.updated', {
+      sessionId: session.id,
+      threadId: session.thread_id,
+      callType: session.call_type || 'voice',
+      status: session.status,
+      activeParticipantIds: toIdList(session.active_participant_ids),
+    });
+  }
+}
+
+/**
+ * Delete a session's Daily.co room. Failures are logged, not thrown, since the
+ * room expires on its own.
+ */
+async function deleteDailyRoom(session) {
+  if (!session.daily_room_url) {
+    return;
+  }
+
+  try {
+    const roomName = daily.extractRoomName(session.daily_room_url);
+    if (roomName) {
+      await daily.deleteRoom(roomName);
+    }
+  } catch (error) {
+    logger.error('Failed to delete Daily.co room', {
+      error: error.message,
+      roomUrl: session.daily_room_url,
+    });
+  }
+}
+
 // Agora helper function (kept for rollback, currently disabled)
 /*
 function stringToNumericUID(userId) {
@@ -32,12 +191,7 @@ router.post('/create', authMiddleware, async (req, res) => {
 
     // Check Daily.co API key
     if (!process.env.DAILY_API_KEY) {
-      logger.error('Daily.co configuration missing - live streaming/calls disabled');
-      return res.status(503).json({ 
-        error: 'Voice/video calls and live streaming are currently unavailable. Please configure Daily.co credentials.',
-        requiresConfiguration: true,
-        details: 'DAILY_API_KEY environment variable is required.',
-      });
+      return sendDailyUnavailable(res);
     }
 
     // Determine if this is live streaming or call
@@ -46,6 +200,36 @@ router.post('/create', authMiddleware, async (req, res) => {
     const isCall = type === 'call' || type === 'voice' || type === 'video';
     const callType = isCall ? (type === 'video' ? 'video' : 'voice') : null;
 
+    // Blocked users can't call each other; group calls and live invites skip them
+    const blockedUserIds = await getBlockedUserIds(req.user.id);
+    let isGroupCall = false;
+    if (isCall && thread_id) {
+      const callThread = await prisma.chatThread.findUnique({
+        where: { id: thread_id },
+        select: { type: true, participants: true },
+      });
+      const callParticipants = Array.isArray(callThread?.participants) ? callThread.participants : [];
+
+      if (callThread?.type === '1:1' && callParticipants.some((id) => blockedUserIds.includes(id))) {
+        return res.status(403).json({ error: 'You cannot call a user you blocked or who blocked you' });
+      }
+
+      // A group has one call at a time, which members join and leave freely
+      isGroupCall = callThread?.type === 'group';
+      if (isGroupCall) {
+        const ongoingCall = await prisma.callSession.findFirst({
+          where: { thread_id, type: 'call', status: 'active' },
+          select: { id: true },
+        });
+        if (ongoingCall) {
+          return res.status(409).json({
+            error: 'A call is already in progress in this chat',
+            sessionId: ongoingCall.id,
+          });
+        }
+      }
+    }
+
     // Generate room name
     const roomName = `room_${Date.now()}_${req.user.id}`;
 
@@ -83,6 +267,7 @@ router.post('/create', authMiddleware, async (req, res) => {
     const token = await daily.createMeetingToken(actualRoomName, {
       is_owner: true,
       user_name: user?.full_name || user?.username || 'Host',
+      user_id: req.user.id,
     });
 
     // Determine call status
@@ -106,9 +291,11 @@ router.post('/create', authMiddleware, async (req, res) => {
         daily_token: token,
         status: scheduled_at ? 'scheduled' : 'active',
         call_status: callStatus,
+        call_type: callType,
         scheduled_at: scheduled_at ? new Date(scheduled_at) : undefined,
         started_at: scheduled_at ? undefined : new Date(),
         participants: [req.user.id],
+        active_participant_ids: isGroupCall ? [req.user.id] : undefined,
         viewers_count: 0,
       },
     });
@@ -123,7 +310,9 @@ router.post('/create', authMiddleware, async (req, res) => {
 
         if (thread) {
           const participants = Array.isArray(thread.participants) ? thread.participants : [];
-          const otherParticipants = participants.filter((id) => id !== req.user.id);
+          const otherParticipants = participants.filter(
+            (id) => id !== req.user.id && !blockedUserIds.includes(id)
+          );
 
           // Get caller info
           const caller = await prisma.user.findUnique({
@@ -142,7 +331,33 @@ router.post('/create', authMiddleware, async (req, res) => {
 
           // Send call notification via Socket.io to each participant
           const io = req.app.get('io');
-          if (io) {
+          if (isGroupCall) {
+            // Nobody has to answer a group call; members see it in the chat and join
+            emitGroupCallUpdate(req, session);
+
+            const title = 'Group Call';
+            const message = `${caller?.full_name || caller?.username} started a ${callType} call in ${
+              thread.name || 'your group'
+            }`;
+            otherParticipants.forEach((participantId) => {
+              prisma.notification.create({
+                data: {
+                  user_id: participantId,
+                  sender_id: req.user.id,
+                  type: 'call',
+                  title,
+                  message,
+                  link: `/chats/${thread_id}`,
+                },
+              }).catch((err) => {
+                logger.error('Failed to create call notification', { error: err.message });
+              });
+
+              if (io) {
+                io.to(`user:${participantId}`).emit('notification.new', { type: 'call', title, message });
+              }
+            });
+          } else if (io) {
             otherParticipants.forEach((participantId) => {
               // Emit incoming call event with call type
               io.to(`user:${participantId}`).emit('call.incoming', {
@@ -175,77 +390,9 @@ router.post('/create', authMiddleware, async (req, res) => {
       }
     }
 
-    // If this is a live stream, notify contacts only
-    if (type === 'live') {
-      try {
-        // Get host's approved contacts
-        const contacts = await prisma.contact.findMany({
-          where: {
-            OR: [
-              { sender_id: req.user.id, status: 'approved' },
-              { receiver_id: req.user.id, status: 'approved' },
-            ],
-          },
-        });
-
-        // Get contact user IDs
-        const contactUserIds = contacts.map((contact) => 
-          contact.sender_id === req.user.id ? contact.receiver_id : contact.sender_id
-        );
-
-        // Get host info
-        const host = await prisma.user.findUnique({
-          where: { id: req.user.id },
-          select: {
-            id: true,
-            username: true,
-            full_name: true,
-            profile: {
-              select: {
-                avatar_url: true,
-              },
-            },
-          },
-        });
-
-        const io = req.app.get('io');
-        if (io && contactUserIds.length > 0) {
-          // Emit to contacts only
-          contactUserIds.forEach((contactId) => {
-            io.to(`user:${contactId}`).emit('live.stream.started', {
-              sessionId: session.id,
-              host: host,
-              title: title || 'Live Stream',
-              description: description || undefined,
-              category: category || undefined,
-              roomUrl: room.url,
-            });
-          });
-        }
-
-        // Create notifications for contacts
-        if (contactUserIds.length > 0) {
-          await Promise.all(
-            contactUserIds.map((contactId) =>
-              prisma.notification.create({
-                data: {
-                  user_id: contactId,
-                  sender_id: req.user.id,
-                  type: 'live',
-                  title: 'Live Stream Started',
-                  message: `${host?.full_name || host?.username} is now live streaming${title ? `: ${title}` : ''}`,
-                  link: `/live/${session.id}`,
-                },
-              }).catch((err) => {
-                logger.error('Failed to create live stream notification', { error: err.message });
-              })
-            )
-          );
-        }
-      } catch (error) {
-        logger.error('Failed to send live stream notifications', { error: error.message });
-        // Don't fail the request if notification fails
-      }
+    // Scheduled streams are announced when the host starts them
+    if (type === 'live' && !scheduled_at) {
+      await announceLiveStream(req, session, blockedUserIds);
     }
 
     res.json({
@@ -263,6 +410,213 @@ router.post('/create', authMiddleware, async (req, res) => {
   }
 });
 
+const MAX_SCHEDULE_AHEAD_MS = 90 * 24 * 60 * 60 * 1000;
+
+const scheduleStreamSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().max(2000).nullish(),
+  category: z.string().trim().max(50).nullish(),
+  scheduled_at: z.coerce
+    .date()
+    .refine((date) => date > new Date(), 'Scheduled time must be in the future')
+    .refine(
+      (date) => date.getTime() - Date.now() <= MAX_SCHEDULE_AHEAD_MS,
+      'Streams can be scheduled up to 90 days ahead'
+    ),
+});
+
+/**
+ * POST /api/live/schedule
+ * Schedule a live stream. The Daily.co room is created when the host starts it.
+ */
+router.post('/schedule', authMiddleware, async (req, res) => {
+  try {
+    const { title, description, category, scheduled_at } = scheduleStreamSchema.parse(req.body);
+
+    const session = await prisma.callSession.create({
+      data: {
+        host_id: req.user.id,
+        type: 'live',
+        title,
+        description: description || undefined,
+        category: category || undefined,
+        status: 'scheduled',
+        scheduled_at,
+        participants: [req.user.id],
+        viewers_count: 0,
+      },
+    });
+
+    res.status(201).json({ session });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+    logger.error('Schedule live stream error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/live/start/:sessionId
+ * Start a scheduled live stream (host only) and notify contacts and RSVP'd viewers
+ */
+router.post('/start/:sessionId', authMiddleware, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await prisma.callSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.type !== 'live') {
+      return res.status(404).json({ error: 'Live stream not found' });
+    }
+
+    if (session.host_id !== req.user.id) {
+      return res.status(403).json({ error: 'Not authorized' });
+    }
+
+    if (session.status !== 'scheduled') {
+      return res.status(400).json({ error: 'This stream is not scheduled' });
+    }
+
+    if (!process.env.DAILY_API_KEY) {
+      return sendDailyUnavailable(res);
+    }
+
+    const room = await daily.createRoom({
+      name: `room_${Date.now()}_${req.user.id}`,
+      owner_only_broadcast: true,
+      enable_chat: true,
+      privacy: 'private',
+    });
+
+    const roomName = room?.name || daily.extractRoomName(room?.url);
+    if (!room || !room.url || !roomName) {
+      throw new Error('Failed to create Daily.co room');
+    }
+
+    const token = await daily.createMeetingToken(roomName, {
+      is_owner: true,
+      user_name: req.user.full_name || req.user.username || 'Host',
+      user_id: req.user.id,
+    });
+
+    const updated = await prisma.callSession.update({
+      where: { id: sessionId },
+      data: {
+        status: 'active',
+        started_at: new Date(),
+        daily_room_url: room.url,
+        daily_token: token,
+      },
+    });
+
+    await announceLiveStream(req, updated, await getBlockedUserIds(req.user.id));
+
+    res.json({
+      session: updated,
+      roomUrl: room.url,
+      token,
+      userId: req.user.id,
+    });
+  } catch (error) {
+    logger.error('Start scheduled stream error', { error: error.message, stack: error.stack });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Change who is in a group call. The row is locked and re-read first, so joins
+ * and leaves at the same moment each see the other's change.
+ * @param {string} sessionId
+ * @param {(session: Object) => Object|null} change - Update data for the current row, or null to leave it
+ * @returns {Promise<{session: Object|null, updated: boolean}>}
+ */
+function updateGroupCallMembers(sessionId, change) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "call_sessions" WHERE id = ${sessionId} FOR UPDATE`;
+    const session = await tx.callSession.findUnique({ where: { id: sessionId } });
+
+    const data = session ? change(session) : null;
+    if (!data) {
+      return { session, updated: false };
+    }
+
+    return {
+      session: await tx.callSession.update({ where: { id: sessionId }, data }),
+      updated: true,
+    };
+  });
+}
+
+/**
+ * Add a user to a group call. The call counts as answered once anyone besides
+ * the caller joins.
+ * @returns {Promise<Object>} The call, still as it was if it ended meanwhile
+ */
+async function joinGroupCall(sessionId, userId) {
+  const { session } = await updateGroupCallMembers(sessionId, (current) => {
+    if (current.status !== 'active') {
+      return null;
+    }
+
+    const participants = toIdList(current.participants);
+    const activeIds = toIdList(current.active_participant_ids);
+    const answered = !current.answered_at && userId !== current.host_id;
+
+    return {
+      participants: participants.includes(userId) ? participants : [...participants, userId],
+      active_participant_ids: activeIds.includes(userId) ? activeIds : [...activeIds, userId],
+      ...(answered ? { answered_at: new Date(), call_status: 'accepted' } : {}),
+    };
+  });
+
+  return session;
+}
+
+/**
+ * Take a user out of a group call, ending it when they were the last one in
+ * @returns {Promise<Object|null>} The call
+ */
+async function leaveGroupCall(req, sessionId, userId) {
+  const { session, updated } = await updateGroupCallMembers(sessionId, (current) => {
+    const activeIds = toIdList(current.active_participant_ids);
+    if (current.status !== 'active' || !activeIds.includes(userId)) {
+      return null;
+    }
+
+    const remainingIds = activeIds.filter((id) => id !== userId);
+    if (remainingIds.length > 0) {
+      return { active_participant_ids: remainingIds };
+    }
+
+    return {
+      status: 'ended',
+      call_status: 'ended',
+      ended_at: new Date(),
+      active_participant_ids: [],
+    };
+  });
+
+  if (!updated) {
+    return session;
+  }
+
+  emitGroupCallUpdate(req, session);
+
+  if (session.status === 'ended') {
+    await deleteDailyRoom(session);
+    await recordCallEnded(req.app.get('io'), session);
+  }
+
+  return session;
+}
+
 /**
  * POST /api/live/join/:sessionId
  * Join a live streaming session using Daily.co
@@ -287,14 +641,29 @@ router.post('/join/:sessionId', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Session does not have a Daily.co room configured' });
     }
 
+    if (session.host_id !== req.user.id && (await isBlockedBetween(req.user.id, session.host_id))) {
+      return res.status(403).json({ error: 'You cannot join this session' });
+    }
+
+    if (isBannedFromLive(session, req.user.id)) {
+      return res.status(403).json({ error: 'You have been removed from this stream' });
+    }
+
+    // Calls are for the members of their chat
+    const callThread =
+      session.type === 'call' && session.thread_id
+        ? await prisma.chatThread.findUnique({
+            where: { id: session.thread_id },
+            select: { type: true, participants: true },
+          })
+        : null;
+    if (callThread && !toIdList(callThread.participants).includes(req.user.id)) {
+      return res.status(403).json({ error: 'Not authorized to join this call' });
+    }
+
     // Check Daily.co API key
     if (!process.env.DAILY_API_KEY) {
-      logger.error('Daily.co configuration missing - live streaming/calls disabled');
-      return res.status(503).json({ 
-        error: 'Voice/video calls and live streaming are currently unavailable. Please configure Daily.co credentials.',
-        requiresConfiguration: true,
-        details: 'DAILY_API_KEY environment variable is required.',
-      });
+      return sendDailyUnavailable(res);
     }
 
     // Extract room name from room URL
@@ -317,12 +686,32 @@ router.post('/join/:sessionId', authMiddleware, async (req, res) => {
     const isHost = session.host_id === req.user.id;
 
     // Generate meeting token for participant
-    // Host gets owner token, audience gets participant token
+    // Host gets owner token, audience gets participant token. Viewer tokens are
+    // short-lived so a banned viewer cannot rejoin the room with an old one.
     const token = await daily.createMeetingToken(roomName, {
       is_owner: isHost,
       user_name: user?.full_name || user?.username || 'Participant',
+      user_id: req.user.id,
+      ...(session.type === 'live' && !isHost
+        ? { exp: Math.floor(Date.now() / 1000) + LIVE_VIEWER_TOKEN_TTL_SECONDS }
+        : {}),
     });
 
+    if (callThread?.type === 'group') {
+      const joined = await joinGroupCall(session.id, req.user.id);
+      if (joined.status !== 'active') {
+        return res.status(400).json({ error: 'Session is not active' });
+      }
+      emitGroupCallUpdate(req, joined);
+
+      return res.json({
+        session: joined,
+        roomUrl: session.daily_room_url,
+        token,
+        userId: req.user.id,
+      });
+    }
+
     // Update participants
     const participants = Array.isArray(session.participants) ? session.participants : [];
     if (!participants.includes(req.user.id)) {
@@ -403,6 +792,9 @@ router.post('/accept/:sessionId', authMiddleware, async (req, res) => {
         if (!threadParticipants.includes(req.user.id)) {
           return res.status(403).json({ error: 'Not authorized to accept this call' });
         }
+        if (thread.type === 'group') {
+          return res.status(400).json({ error: 'Group calls are joined and left, not answered' });
+        }
       }
     }
 
@@ -448,6 +840,7 @@ router.post('/accept/:sessionId', authMiddleware, async (req, res) => {
     const token = await daily.createMeetingToken(roomName, {
       is_owner: false, // Accepting user is a participant, not the owner
       user_name: user?.full_name || user?.username || 'Participant',
+      user_id: req.user.id,
     });
 
     // Notify caller that call was accepted
@@ -500,6 +893,9 @@ router.post('/reject/:sessionId', authMiddleware, async (req, res) => {
         if (!threadParticipants.includes(req.user.id)) {
           return res.status(403).json({ error: 'Not authorized to reject this call' });
         }
+        if (thread.type === 'group') {
+          return res.status(400).json({ error: 'Group calls are joined and left, not answered' });
+        }
       }
     }
 
@@ -522,6 +918,11 @@ router.post('/reject/:sessionId', authMiddleware, async (req, res) => {
       });
     }
 
+    // A call the caller already hung up on was logged then
+    if (session.status !== 'ended') {
+      await recordCallEnded(io, updated);
+    }
+
     res.json({ session: updated });
   } catch (error) {
     logger.error('Reject call error', { error: error.message });
@@ -531,13 +932,17 @@ router.post('/reject/:sessionId', authMiddleware, async (req, res) => {
 
 /**
  * GET /api/live/sessions
- * Get active live sessions
+ * Get active live sessions, optionally in one category
  */
 router.get('/sessions', async (req, res) => {
   try {
+    const { category } = req.query;
+
     const sessions = await prisma.callSession.findMany({
       where: {
+        type: 'live',
         status: 'active',
+        category: category || undefined,
       },
       include: {
         // Note: host_id is stored as string, need to fetch user separately
@@ -562,8 +967,10 @@ router.get('/sessions', async (req, res) => {
             },
           },
         });
+        // The host's owner token must not reach viewers
+        const { daily_token, ...publicSession } = session;
         return {
-          ...session,
+          ...publicSession,
           host: user,
         };
       })
@@ -576,42 +983,271 @@ router.get('/sessions', async (req, res) => {
   }
 });
 
+// Scheduled streams stay listed for a while after their start time in case the host is late
+const UPCOMING_GRACE_MS = 60 * 60 * 1000;
+
 /**
- * POST /api/live/end/:sessionId
- * End a live streaming session and delete Daily.co room
+ * GET /api/live/upcoming
+ * Get scheduled live streams, soonest first, optionally in one category
  */
-router.post('/end/:sessionId', authMiddleware, async (req, res) => {
+router.get('/upcoming', authMiddleware, async (req, res) => {
   try {
-    const { sessionId } = req.params;
+    const { category } = req.query;
+    const blockedUserIds = await getBlockedUserIds(req.user.id);
+
+    const sessions = await prisma.callSession.findMany({
+      where: {
+        type: 'live',
+        status: 'scheduled',
+        scheduled_at: { gte: new Date(Date.now() - UPCOMING_GRACE_MS) },
+        host_id: { notIn: blockedUserIds },
+        category: category || undefined,
+      },
+      orderBy: { scheduled_at: 'asc' },
+      take: 50,
+      include: {
+        _count: { select: { rsvps: true } },
+        rsvps: {
+          where: { user_id: req.user.id },
+          select: { id: true },
+        },
+      },
+    });
+
+    const hosts = await prisma.user.findMany({
+      where: { id: { in: [...new Set(sessions.map((session) => session.host_id))] } },
+      select: userSummarySelect,
+    });
+
+    res.json({
+      sessions: sessions.map(({ _count, rsvps, daily_token, ...session }) => ({
+        ...session,
+        host: hosts.find((host) => host.id === session.host_id) || null,
+        rsvp_count: _count.rsvps,
+        rsvped: rsvps.length > 0,
+      })),
+    });
+  } catch (error) {
+    logger.error('Get upcoming streams error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
+/**
+ * POST /api/live/leave/:sessionId
+ * Leave a group call. The call ends when the last person leaves.
+ */
+router.post('/leave/:sessionId', authMiddleware, async (req, res) => {
+  try {
     const session = await prisma.callSession.findUnique({
-      where: { id: sessionId },
+      where: { id: req.params.sessionId },
     });
 
-    if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
+    if (!session || session.type !== 'call') {
+      return res.status(404).json({ error: 'Call not found' });
     }
 
-    if (session.host_id !== req.user.id) {
-      return res.status(403).json({ error: 'Not authorized' });
+    if (!session.active_participant_ids) {
+      return res.status(400).json({ error: 'Only group calls can be left' });
     }
 
-    // Delete Daily.co room if it exists
-    if (session.daily_room_url) {
-      try {
-        const roomName = daily.extractRoomName(session.daily_room_url);
-        if (roomName) {
-          await daily.deleteRoom(roomName);
-        }
-      } catch (error) {
-        // Log error but don't fail the request
-        logger.error('Failed to delete Daily.co room', { 
-          error: error.message, 
-          roomUrl: session.daily_room_url 
-        });
-      }
+    res.json({ session: await leaveGroupCall(req, session.id, req.user.id) });
+  } catch (error) {
+    logger.error('Leave call error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/live/daily-webhook
+ * Daily.co webhook. A participant.left event takes that user out of the group
+ * call in the room, for members who close the tab or drop without calling /leave.
+ * The body arrives raw (see app.js) so its signature can be checked.
+ */
+router.post('/daily-webhook', async (req, res) => {
+  try {
+    // Daily.co checks the URL answers before it hands out the secret
+    if (!process.env.DAILY_WEBHOOK_SECRET) {
+      logger.warn('DAILY_WEBHOOK_SECRET not set - ignoring Daily.co webhook');
+      return res.json({ received: true });
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+
+    if (
+      !daily.verifyWebhookSignature(
+        rawBody,
+        req.headers['x-webhook-timestamp'],
+        req.headers['x-webhook-signature']
+      )
+    ) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const event = JSON.parse(rawBody);
+    const roomName = event.payload?.room;
+    const userId = event.payload?.user_id;
+
+    // Daily.co also sends a test event when the webhook is registered
+    if (event.type !== 'participant.left' || !roomName || !userId) {
+      return res.json({ received: true });
+    }
+
+    const call = await prisma.callSession.findFirst({
+      where: {
+        type: 'call',
+        status: 'active',
+        daily_room_url: { endsWith: `/${roomName}` },
+      },
+      select: { id: true },
+    });
+
+    if (call) {
+      await leaveGroupCall(req, call.id, userId);
+    }
+
+    res.json({ received: true });
+  } catch (error) {
+    logger.error('Daily.co webhook error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/live/threads/:threadId/call
+ * Get the call in progress in a group thread, if any
+ */
+router.get('/threads/:threadId/call', authMiddleware, async (req, res) => {
+  try {
+    const thread = await prisma.chatThread.findUnique({
+      where: { id: req.params.threadId },
+      select: { type: true, participants: true },
+    });
+
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    if (!toIdList(thread.participants).includes(req.user.id)) {
+      return res.status(403).json({ error: 'Not authorized to view this thread' });
+    }
+
+    // One-to-one calls ring instead
+    if (thread.type !== 'group') {
+      return res.json({ call: null });
+    }
+
+    const call = await prisma.callSession.findFirst({
+      where: { thread_id: req.params.threadId, type: 'call', status: 'active' },
+      select: { ...callSummarySelect, active_participant_ids: true },
+      orderBy: { created_at: 'desc' },
+    });
+
+    res.json({
+      call: call ? { ...call, active_participant_ids: toIdList(call.active_participant_ids) } : null,
+    });
+  } catch (error) {
+    logger.error('Get thread call error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const CALL_HISTORY_PAGE_SIZE = 30;
+
+/**
+ * GET /api/live/calls
+ * Get the current user's call history across their chat threads, newest first
+ */
+router.get('/calls', authMiddleware, async (req, res) => {
+  try {
+    const { cursor } = req.query;
+
+    const allThreads = await prisma.chatThread.findMany({
+      select: { id: true, type: true, name: true, avatar_url: true, participants: true },
+    });
+    const userThreads = allThreads.filter((thread) =>
+      toIdList(thread.participants).includes(req.user.id)
+    );
+
+    const calls = await prisma.callSession.findMany({
+      where: {
+        type: 'call',
+        thread_id: { in: userThreads.map((thread) => thread.id) },
+      },
+      select: { ...callSummarySelect, participants: true, created_at: true },
+      orderBy: { created_at: 'desc' },
+      take: CALL_HISTORY_PAGE_SIZE,
+      skip: cursor ? 1 : 0,
+      cursor: cursor ? { id: cursor } : undefined,
+    });
+
+    const callThreads = userThreads.filter((thread) =>
+      calls.some((call) => call.thread_id === thread.id)
+    );
+    const userIds = new Set(calls.map((call) => call.host_id));
+    callThreads.forEach((thread) => toIdList(thread.participants).forEach((id) => userIds.add(id)));
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...userIds] } },
+      select: userSummarySelect,
+    });
+    const findUser = (id) => users.find((user) => user.id === id) || null;
+
+    res.json({
+      calls: calls.map(({ participants, ...call }) => {
+        const thread = callThreads.find((item) => item.id === call.thread_id);
+        const outcome = getCallOutcome(call);
+        // A group call that went ahead is still missed by anyone who never joined
+        const joined = toIdList(participants).includes(req.user.id);
+        return {
+          ...call,
+          host: findUser(call.host_id),
+          direction: call.host_id === req.user.id ? 'outgoing' : 'incoming',
+          outcome: outcome === 'completed' && !joined ? 'missed' : outcome,
+          duration_seconds: joined ? getCallDurationSeconds(call) : null,
+          thread: {
+            id: thread.id,
+            type: thread.type,
+            name: thread.name,
+            avatar_url: thread.avatar_url,
+            participants: toIdList(thread.participants)
+              .filter((id) => id !== req.user.id)
+              .map(findUser)
+              .filter(Boolean),
+          },
+        };
+      }),
+      nextCursor: calls.length === CALL_HISTORY_PAGE_SIZE ? calls[calls.length - 1].id : null,
+    });
+  } catch (error) {
+    logger.error('Get call history error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/live/end/:sessionId
+ * End a live streaming session and delete Daily.co room
+ */
+router.post('/end/:sessionId', authMiddleware, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await prisma.callSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (session.host_id !== req.user.id) {
+      return res.status(403).json({ error: 'Not authorized' });
     }
 
+    // Delete Daily.co room if it exists
+    await deleteDailyRoom(session);
+
     // Update session status
     const updateData = {
       status: 'ended',
@@ -620,6 +1256,9 @@ router.post('/end/:sessionId', authMiddleware, async (req, res) => {
     
     if (session.type === 'call') {
       updateData.call_status = 'ended';
+      if (session.active_participant_ids) {
+        updateData.active_participant_ids = [];
+      }
     }
 
     const updated = await prisma.callSession.update({
@@ -631,13 +1270,25 @@ router.post('/end/:sessionId', authMiddleware, async (req, res) => {
     const io = req.app.get('io');
     if (io) {
       if (session.type === 'call') {
-        // Notify all participants in the call
+        // Everyone in the thread, so a call still ringing stops ringing
+        const thread = session.thread_id
+          ? await prisma.chatThread.findUnique({
+              where: { id: session.thread_id },
+              select: { type: true, participants: true },
+            })
+          : null;
+        const participants = toIdList(thread ? thread.participants : session.participants);
+
         participants.forEach((participantId) => {
           io.to(`user:${participantId}`).emit('call.ended', {
             sessionId,
             endedBy: req.user.id,
           });
         });
+
+        if (thread?.type === 'group') {
+          emitGroupCallUpdate(req, updated);
+        }
       } else if (session.type === 'live') {
         // Notify all viewers
         io.to(`live:${sessionId}`).emit('live.stream.ended', {
@@ -647,6 +1298,10 @@ router.post('/end/:sessionId', authMiddleware, async (req, res) => {
       }
     }
 
+    if (session.type === 'call' && session.status !== 'ended') {
+      await recordCallEnded(io, updated);
+    }
+
     res.json({ session: updated });
   } catch (error) {
     logger.error('End live session error', { error: error.message });
@@ -654,4 +1309,491 @@ router.post('/end/:sessionId', authMiddleware, async (req, res) => {
   }
 });
 
+const chatMessageSchema = z.object({
+  content: z.string().trim().min(1, 'Message cannot be empty').max(500),
+});
+
+const chatSettingsSchema = z.object({
+  slow_mode_seconds: z.number().int().min(0).max(MAX_SLOW_MODE_SECONDS),
+});
+
+/**
+ * Load a live stream for a chat route, sending the error response when it is
+ * missing or the user lacks the required role
+ * @returns {Promise<Object|null>} The session, or null if a response was sent
+ */
+async function findLiveSessionFor(req, res, { requireModerator = false, requireHost = false } = {}) {
+  const session = await prisma.callSession.findUnique({
+    where: { id: req.params.sessionId },
+  });
+
+  if (!session || session.type !== 'live') {
+    res.status(404).json({ error: 'Live stream not found' });
+    return null;
+  }
+
+  if (requireHost && session.host_id !== req.user.id) {
+    res.status(403).json({ error: 'Only the host can do this' });
+    return null;
+  }
+
+  if (requireModerator && !isLiveModerator(session, req.user.id)) {
+    res.status(403).json({ error: 'Only the host and moderators can do this' });
+    return null;
+  }
+
+  return session;
+}
+
+function emitChatSettings(req, session) {
+  const io = req.app.get('io');
+  if (io) {
+    io.to(`live:${session.id}`).emit('live.chat.settings', {
+      sessionId: session.id,
+      slowModeSeconds: session.slow_mode_seconds,
+      moderatorIds: toIdList(session.moderator_ids),
+    });
+  }
+}
+
+/**
+ * GET /api/live/:sessionId/chat
+ * Get live chat messages, oldest first. Works after the stream ends so chat can
+ * replay alongside a recording.
+ */
+router.get('/:sessionId/chat', authMiddleware, async (req, res) => {
+  try {
+    const { limit = 100, cursor } = req.query;
+
+    const session = await findLiveSessionFor(req, res);
+    if (!session) return;
+
+    if (isBannedFromLive(session, req.user.id)) {
+      return res.status(403).json({ error: 'You have been removed from this stream' });
+    }
+
+    const take = Math.min(parseInt(limit) || 100, 200);
+    const messages = await prisma.liveChatMessage.findMany({
+      where: { session_id: session.id },
+      take,
+      skip: cursor ? 1 : 0,
+      cursor: cursor ? { id: cursor } : undefined,
+      orderBy: { created_at: 'desc' },
+      include: {
+        user: { select: userSummarySelect },
+      },
+    });
+
+    res.json({
+      messages: messages.reverse(),
+      nextCursor: messages.length === take ? messages[0].id : null,
+      settings: {
+        slow_mode_seconds: session.slow_mode_seconds,
+        moderator_ids: toIdList(session.moderator_ids),
+      },
+    });
+  } catch (error) {
+    logger.error('Get live chat error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/live/:sessionId/chat
+ * Send a chat message to a live stream. Slow mode applies to everyone but the
+ * host and moderators.
+ */
+router.post('/:sessionId/chat', authMiddleware, async (req, res) => {
+  try {
+    const { content } = chatMessageSchema.parse(req.body);
+
+    const session = await findLiveSessionFor(req, res);
+    if (!session) return;
+
+    if (session.status !== 'active') {
+      return res.status(400).json({ error: 'Chat is closed because the stream is not live' });
+    }
+
+    if (isBannedFromLive(session, req.user.id)) {
+      return res.status(403).json({ error: 'You have been removed from this stream' });
+    }
+
+    if (session.host_id !== req.user.id && (await isBlockedBetween(req.user.id, session.host_id))) {
+      return res.status(403).json({ error: 'You cannot chat in this stream' });
+    }
+
+    if (session.slow_mode_seconds > 0 && !isLiveModerator(session, req.user.id)) {
+      const lastMessage = await prisma.liveChatMessage.findFirst({
+        where: {
+          session_id: session.id,
+          user_id: req.user.id,
+          created_at: { gt: new Date(Date.now() - session.slow_mode_seconds * 1000) },
+        },
+        orderBy: { created_at: 'desc' },
+        select: { created_at: true },
+      });
+
+      if (lastMessage) {
+        const retryAfter = Math.ceil(
+          (lastMessage.created_at.getTime() + session.slow_mode_seconds * 1000 - Date.now()) / 1000
+        );
+        return res.status(429).json({
+          error: `Slow mode is on. You can send another message in ${retryAfter}s`,
+          retryAfter,
+        });
+      }
+    }
+
+    const message = await prisma.liveChatMessage.create({
+      data: {
+        session_id: session.id,
+        user_id: req.user.id,
+        content,
+      },
+      include: {
+        user: { select: userSummarySelect },
+      },
+    });
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`live:${session.id}`).emit('live.chat.message', message);
+    }
+
+    res.status(201).json(message);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+    logger.error('Send live chat message error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/live/:sessionId/chat/:messageId
+ * Delete a chat message (host and moderators, or the sender)
+ */
+router.delete('/:sessionId/chat/:messageId', authMiddleware, async (req, res) => {
+  try {
+    const { messageId } = req.params;
+
+    const session = await findLiveSessionFor(req, res);
+    if (!session) return;
+
+    const message = await prisma.liveChatMessage.findUnique({
+      where: { id: messageId },
+    });
+
+    if (!message || message.session_id !== session.id) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    if (message.user_id !== req.user.id && !isLiveModerator(session, req.user.id)) {
+      return res.status(403).json({ error: 'Not authorized to delete this message' });
+    }
+
+    await prisma.liveChatMessage.delete({
+      where: { id: messageId },
+    });
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`live:${session.id}`).emit('live.chat.deleted', {
+        sessionId: session.id,
+        messageId,
+      });
+    }
+
+    res.json({ message: 'Message deleted successfully' });
+  } catch (error) {
+    logger.error('Delete live chat message error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/live/:sessionId/chat/settings
+ * Turn slow mode on or off (host and moderators)
+ */
+router.patch('/:sessionId/chat/settings', authMiddleware, async (req, res) => {
+  try {
+    const { slow_mode_seconds } = chatSettingsSchema.parse(req.body);
+
+    const session = await findLiveSessionFor(req, res, { requireModerator: true });
+    if (!session) return;
+
+    const updated = await prisma.callSession.update({
+      where: { id: session.id },
+      data: { slow_mode_seconds },
+    });
+
+    emitChatSettings(req, updated);
+
+    res.json({
+      slow_mode_seconds: updated.slow_mode_seconds,
+      moderator_ids: toIdList(updated.moderator_ids),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+    logger.error('Update live chat settings error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/live/:sessionId/moderators
+ * Make a viewer a chat moderator (host only)
+ */
+router.post('/:sessionId/moderators', authMiddleware, async (req, res) => {
+  try {
+    const { user_id } = req.body;
+
+    if (!user_id || typeof user_id !== 'string') {
+      return res.status(400).json({ error: 'User ID is required' });
+    }
+
+    const session = await findLiveSessionFor(req, res, { requireHost: true });
+    if (!session) return;
+
+    if (user_id === session.host_id) {
+      return res.status(400).json({ error: 'The host already moderates this stream' });
+    }
+
+    if (isBannedFromLive(session, user_id)) {
+      return res.status(400).json({ error: 'Unban this user before making them a moderator' });
+    }
+
+    const moderatorIds = toIdList(session.moderator_ids);
+    if (moderatorIds.includes(user_id)) {
+      return res.status(400).json({ error: 'User is already a moderator' });
+    }
+
+    const updated = await prisma.callSession.update({
+      where: { id: session.id },
+      data: { moderator_ids: [...moderatorIds, user_id] },
+    });
+
+    emitChatSettings(req, updated);
+
+    res.json({
+      slow_mode_seconds: updated.slow_mode_seconds,
+      moderator_ids: toIdList(updated.moderator_ids),
+    });
+  } catch (error) {
+    logger.error('Add live moderator error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/live/:sessionId/moderators/:userId
+ * Remove a chat moderator (host only)
+ */
+router.delete('/:sessionId/moderators/:userId', authMiddleware, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const session = await findLiveSessionFor(req, res, { requireHost: true });
+    if (!session) return;
+
+    const moderatorIds = toIdList(session.moderator_ids);
+    if (!moderatorIds.includes(userId)) {
+      return res.status(404).json({ error: 'User is not a moderator' });
+    }
+
+    const updated = await prisma.callSession.update({
+      where: { id: session.id },
+      data: { moderator_ids: moderatorIds.filter((id) => id !== userId) },
+    });
+
+    emitChatSettings(req, updated);
+
+    res.json({
+      slow_mode_seconds: updated.slow_mode_seconds,
+      moderator_ids: toIdList(updated.moderator_ids),
+    });
+  } catch (error) {
+    logger.error('Remove live moderator error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/live/:sessionId/bans
+ * Ban a viewer from the stream (host and moderators). Their chat messages are
+ * removed, they are dropped from the stream's socket room and ejected from the
+ * Daily.co room.
+ */
+router.post('/:sessionId/bans', authMiddleware, async (req, res) => {
+  try {
+    const { user_id } = req.body;
+
+    if (!user_id || typeof user_id !== 'string') {
+      return res.status(400).json({ error: 'User ID is required' });
+    }
+
+    const session = await findLiveSessionFor(req, res, { requireModerator: true });
+    if (!session) return;
+
+    if (user_id === session.host_id || user_id === req.user.id) {
+      return res.status(400).json({ error: 'This user cannot be banned' });
+    }
+
+    const moderatorIds = toIdList(session.moderator_ids);
+    if (moderatorIds.includes(user_id) && session.host_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the host can ban a moderator' });
+    }
+
+    const bannedIds = toIdList(session.banned_user_ids);
+    if (bannedIds.includes(user_id)) {
+      return res.status(400).json({ error: 'User is already banned' });
+    }
+
+    const participants = toIdList(session.participants).filter((id) => id !== user_id);
+
+    const [updated] = await prisma.$transaction([
+      prisma.callSession.update({
+        where: { id: session.id },
+        data: {
+          banned_user_ids: [...bannedIds, user_id],
+          moderator_ids: moderatorIds.filter((id) => id !== user_id),
+          participants,
+          viewers_count: participants.length,
+        },
+      }),
+      prisma.liveChatMessage.deleteMany({
+        where: { session_id: session.id, user_id },
+      }),
+    ]);
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`live:${session.id}`).emit('live.user.banned', {
+        sessionId: session.id,
+        userId: user_id,
+      });
+      io.to(`live:${session.id}`).emit('live.viewers.updated', {
+        sessionId: session.id,
+        viewersCount: participants.length,
+      });
+      io.in(`user:${user_id}`).socketsLeave(`live:${session.id}`);
+    }
+    emitChatSettings(req, updated);
+
+    // The ban stands even if Daily.co is unreachable; /join refuses them either way
+    const roomName = daily.extractRoomName(session.daily_room_url);
+    if (roomName && process.env.DAILY_API_KEY) {
+      try {
+        await daily.ejectParticipants(roomName, [user_id]);
+      } catch (error) {
+        logger.warn('Failed to eject banned live viewer', { sessionId: session.id, error: error.message });
+      }
+    }
+
+    res.json({ message: 'User banned from this stream' });
+  } catch (error) {
+    logger.error('Ban live viewer error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/live/:sessionId/bans/:userId
+ * Lift a ban (host and moderators)
+ */
+router.delete('/:sessionId/bans/:userId', authMiddleware, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const session = await findLiveSessionFor(req, res, { requireModerator: true });
+    if (!session) return;
+
+    const bannedIds = toIdList(session.banned_user_ids);
+    if (!bannedIds.includes(userId)) {
+      return res.status(404).json({ error: 'User is not banned' });
+    }
+
+    await prisma.callSession.update({
+      where: { id: session.id },
+      data: { banned_user_ids: bannedIds.filter((id) => id !== userId) },
+    });
+
+    res.json({ message: 'Ban lifted' });
+  } catch (error) {
+    logger.error('Unban live viewer error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/live/:sessionId/rsvp
+ * Ask to be notified when a scheduled stream starts
+ */
+router.post('/:sessionId/rsvp', authMiddleware, async (req, res) => {
+  try {
+    const session = await findLiveSessionFor(req, res);
+    if (!session) return;
+
+    if (session.status !== 'scheduled') {
+      return res.status(400).json({ error: 'This stream is not scheduled' });
+    }
+
+    if (session.host_id === req.user.id) {
+      return res.status(400).json({ error: 'You are hosting this stream' });
+    }
+
+    if (await isBlockedBetween(req.user.id, session.host_id)) {
+      return res.status(403).json({ error: 'You cannot RSVP to this stream' });
+    }
+
+    await prisma.liveStreamRsvp.upsert({
+      where: { session_id_user_id: { session_id: session.id, user_id: req.user.id } },
+      create: { session_id: session.id, user_id: req.user.id },
+      update: {},
+    });
+
+    const rsvpCount = await prisma.liveStreamRsvp.count({
+      where: { session_id: session.id },
+    });
+
+    res.json({ rsvped: true, rsvp_count: rsvpCount });
+  } catch (error) {
+    logger.error('RSVP live stream error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/live/:sessionId/rsvp
+ * Cancel an RSVP
+ */
+router.delete('/:sessionId/rsvp', authMiddleware, async (req, res) => {
+  try {
+    const session = await findLiveSessionFor(req, res);
+    if (!session) return;
+
+    await prisma.liveStreamRsvp.deleteMany({
+      where: { session_id: session.id, user_id: req.user.id },
+    });
+
+    const rsvpCount = await prisma.liveStreamRsvp.count({
+      where: { session_id: session.id },
+    });
+
+    res.json({ rsvped: false, rsvp_count: rsvpCount });
+  } catch (error) {
+    logger.error('Cancel live stream RSVP error', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 module.exports = router;
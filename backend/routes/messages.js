@@ -5,6 +5,7 @@ const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
 const { createAbuseGuard } = require('../middleware/abuseDetection');
 const { captchaGuard } = require('../middleware/captcha');
+const { isBlockedBetween } = require('../utils/blocks');
 
 const router = express.Router();
 
@@ -40,6 +41,74 @@ const upload = multer({
   },
 });
 
+const messageInclude = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+      full_name: true,
+      profile: {
+        select: {
+          avatar_url: true,
+        },
+      },
+    },
+  },
+  reply_to: {
+    select: {
+      id: true,
+      user_id: true,
+      content: true,
+      encrypted: true,
+      key_version: true,
+      media_urls: true,
+      user: {
+        select: {
+          id: true,
+          username: true,
+          full_name: true,
+        },
+      },
+    },
+  },
+  reactions: {
+    select: {
+      emoji: true,
+      user_id: true,
+    },
+    orderBy: { created_at: 'asc' },
+  },
+};
+
+const MAX_EMOJI_LENGTH = 16;
+
+/**
+ * Load a message along with its thread, returning null when the user can't see it
+ */
+async function findParticipantMessage(messageId, userId) {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: {
+      thread: {
+        select: {
+          id: true,
+          participants: true,
+          key_version: true,
+        },
+      },
+    },
+  });
+
+  if (!message) {
+    return null;
+  }
+
+  const participants = Array.isArray(message.thread.participants)
+    ? message.thread.participants
+    : [];
+  return participants.includes(userId) ? message : null;
+}
+
 const messageCaptchaGuard = captchaGuard({ context: 'messages:create' });
 
 const messageAbuseGuard = createAbuseGuard({
@@ -50,7 +119,10 @@ const messageAbuseGuard = createAbuseGuard({
 
 /**
  * POST /api/messages
- * Send a message (encrypted content expected from client)
+ * Send a message. Content encrypted by the client carries the thread key_version
+ * it was encrypted with; messages without one are stored as plaintext.
+ * Resending with the same client_id returns the original message instead of a duplicate.
+ * reply_to_id quotes another message from the same thread.
  */
 router.post(
   '/',
@@ -60,12 +132,24 @@ router.post(
   messageAbuseGuard,
   async (req, res) => {
   try {
-    const { thread_id, content, encrypted = true } = req.body;
+    const { thread_id, content, key_version, client_id, reply_to_id } = req.body;
 
     if (!thread_id || !content) {
       return res.status(400).json({ error: 'Thread ID and content are required' });
     }
 
+    if (client_id !== undefined && (typeof client_id !== 'string' || client_id.length > 64)) {
+      return res.status(400).json({ error: 'Invalid client ID' });
+    }
+
+    const keyVersion =
+      key_version !== undefined && key_version !== null && key_version !== ''
+        ? parseInt(key_version, 10)
+        : null;
+    if (Number.isNaN(keyVersion)) {
+      return res.status(400).json({ error: 'Invalid key version' });
+    }
+
     // Verify user is participant
     const thread = await prisma.chatThread.findUnique({
       where: { id: thread_id },
@@ -80,6 +164,55 @@ router.post(
       return res.status(403).json({ error: 'Not authorized to send message in this thread' });
     }
 
+    // Blocks stop direct messages; group chats stay usable for everyone else
+    const otherParticipantId = participants.find((userId) => userId !== req.user.id);
+    if (
+      thread.type === '1:1' &&
+      otherParticipantId &&
+      (await isBlockedBetween(req.user.id, otherParticipantId))
+    ) {
+      return res.status(403).json({ error: 'You cannot message a user you blocked or who blocked you' });
+    }
+
+    // A retry of a message that already went through (e.g. the response was lost)
+    if (client_id) {
+      const existing = await prisma.message.findUnique({
+        where: {
+          user_id_client_id: {
+            user_id: req.user.id,
+            client_id,
+          },
+        },
+        include: messageInclude,
+      });
+
+      if (existing) {
+        if (existing.thread_id !== thread_id) {
+          return res.status(400).json({ error: 'Client ID already used in another thread' });
+        }
+        return res.json(existing);
+      }
+    }
+
+    // Reject content encrypted with a key that has since been rotated
+    if (keyVersion !== null && keyVersion !== thread.key_version) {
+      return res.status(409).json({
+        error: 'Thread key has been rotated',
+        key_version: thread.key_version,
+      });
+    }
+
+    if (reply_to_id) {
+      const repliedTo = await prisma.message.findUnique({
+        where: { id: reply_to_id },
+        select: { thread_id: true },
+      });
+
+      if (!repliedTo || repliedTo.thread_id !== thread_id) {
+        return res.status(400).json({ error: 'Replied message not found in this thread' });
+      }
+    }
+
     // Upload media files to Cloudinary with enhanced validation
     let mediaUrls = [];
     if (req.files && req.files.length > 0) {
@@ -135,24 +268,14 @@ router.post(
       data: {
         thread_id,
         user_id: req.user.id,
-        content, // Already encrypted from client
-        encrypted: encrypted === true || encrypted === 'true',
+        content, // Already encrypted by the client when key_version is set
+        encrypted: keyVersion !== null,
+        key_version: keyVersion,
+        client_id: client_id || undefined,
+        reply_to_id: reply_to_id || undefined,
         media_urls: mediaUrls.length > 0 ? mediaUrls : undefined,
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            full_name: true,
-            profile: {
-              select: {
-                avatar_url: true,
-              },
-            },
-          },
-        },
-      },
+      include: messageInclude,
     });
 
     // Update thread updated_at
@@ -181,8 +304,9 @@ router.post(
         },
       });
 
-      // Emit notification via Socket.io
+      // Emit unread badge update and notification via Socket.io
       if (io) {
+        io.to(`user:${participantId}`).emit('thread.unread', { thread_id });
         io.to(`user:${participantId}`).emit('notification.new', {
           type: 'message',
           title: 'New Message',
@@ -198,6 +322,141 @@ router.post(
   }
 });
 
+/**
+ * PATCH /api/messages/:messageId
+ * Edit a message (only message sender can edit). Encrypted edits must use the
+ * current thread key, same as new messages.
+ */
+router.patch('/:messageId', authMiddleware, async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { content, key_version } = req.body;
+
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ error: 'Content is required' });
+    }
+
+    const keyVersion =
+      key_version !== undefined && key_version !== null && key_version !== ''
+        ? parseInt(key_version, 10)
+        : null;
+    if (Number.isNaN(keyVersion)) {
+      return res.status(400).json({ error: 'Invalid key version' });
+    }
+
+    const message = await findParticipantMessage(messageId, req.user.id);
+
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    if (message.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'Not authorized to edit this message' });
+    }
+
+    if (message.type === 'system' || message.type === 'call') {
+      return res.status(400).json({ error: 'System messages cannot be edited' });
+    }
+
+    if (message.encrypted && keyVersion === null) {
+      return res.status(400).json({ error: 'Edits to encrypted messages must be encrypted' });
+    }
+
+    if (keyVersion !== null && keyVersion !== message.thread.key_version) {
+      return res.status(409).json({
+        error: 'Thread key has been rotated',
+        key_version: message.thread.key_version,
+      });
+    }
+
+    const updated = await prisma.message.update({
+      where: { id: messageId },
+      data: {
+        content,
+        encrypted: keyVersion !== null,
+        key_version: keyVersion,
+        edited_at: new Date(),
+      },
+      include: messageInclude,
+    });
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`thread:${message.thread_id}`).emit('message.updated', updated);
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Edit message error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/messages/:messageId/reactions
+ * Toggle an emoji reaction on a message
+ */
+router.post('/:messageId/reactions', authMiddleware, async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { emoji } = req.body;
+
+    if (!emoji || typeof emoji !== 'string' || emoji.length > MAX_EMOJI_LENGTH) {
+      return res.status(400).json({ error: 'A single emoji is required' });
+    }
+
+    const message = await findParticipantMessage(messageId, req.user.id);
+
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    const existing = await prisma.messageReaction.findUnique({
+      where: {
+        message_id_user_id_emoji: {
+          message_id: messageId,
+          user_id: req.user.id,
+          emoji,
+        },
+      },
+    });
+
+    if (existing) {
+      await prisma.messageReaction.delete({
+        where: { id: existing.id },
+      });
+    } else {
+      await prisma.messageReaction.create({
+        data: {
+          message_id: messageId,
+          user_id: req.user.id,
+          emoji,
+        },
+      });
+    }
+
+    const reactions = await prisma.messageReaction.findMany({
+      where: { message_id: messageId },
+      select: messageInclude.reactions.select,
+      orderBy: messageInclude.reactions.orderBy,
+    });
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`thread:${message.thread_id}`).emit('message.reaction', {
+        message_id: messageId,
+        thread_id: message.thread_id,
+        reactions,
+      });
+    }
+
+    res.json({ reactions });
+  } catch (error) {
+    console.error('React to message error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * DELETE /api/messages/:messageId
  * Delete a message (only message sender can delete)
@@ -228,6 +487,10 @@ router.delete('/:messageId', authMiddleware, async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to delete this message' });
     }
 
+    if (message.type === 'system' || message.type === 'call') {
+      return res.status(400).json({ error: 'System messages cannot be deleted' });
+    }
+
     // Delete message (cascade will delete message reads)
     await prisma.message.delete({
       where: { id: messageId },
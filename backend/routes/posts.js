@@ -7,6 +7,10 @@ const authMiddleware = require('../middleware/auth');
 const { createAbuseGuard } = require('../middleware/abuseDetection');
 const { captchaGuard } = require('../middleware/captcha');
 
+const { isModerator } = require('../middleware/admin');
+const { excludePostsByUsers, getHiddenUserIds, isBlockedBetween } = require('../utils/blocks');
+const { getRequestToken } = require('../utils/authCookies');
+
 const router = express.Router();
 
 // Configure Cloudinary
@@ -48,6 +52,11 @@ const createPostSchema = z.object({
   is_reel: z.boolean().optional().default(false),
 });
 
+const updatePostSchema = z.object({
+  content: z.string().min(1, 'Content is required'),
+  tags: z.array(z.string()).optional(),
+});
+
 /**
  * Helper function to check if a contact belongs to personal network
  */
@@ -377,6 +386,12 @@ router.get('/timeline', authMiddleware, async (req, res) => {
       orderBy = { created_at: 'desc' };
     }
 
+    // Leave out blocked and muted users
+    const hiddenUserIds = await getHiddenUserIds(req.user.id);
+    if (hiddenUserIds.length > 0) {
+      where.AND = [...(where.AND || []), excludePostsByUsers(hiddenUserIds)];
+    }
+
     // Get posts
     const posts = await prisma.post.findMany({
       where,
@@ -545,6 +560,12 @@ router.get('/module/:module', authMiddleware, async (req, res) => {
       ],
     };
 
+    // Leave out blocked and muted users
+    const hiddenUserIds = await getHiddenUserIds(req.user.id);
+    if (hiddenUserIds.length > 0) {
+      where.AND = [...(where.AND || []), excludePostsByUsers(hiddenUserIds)];
+    }
+
     const posts = await prisma.post.findMany({
       where,
       take: parseInt(limit),
@@ -625,11 +646,11 @@ router.get('/user/:userId', async (req, res) => {
     // If authenticated, check network type filtering
     let viewerId = null;
     let contacts = [];
-    if (req.headers.authorization) {
+    const { token: viewerToken } = getRequestToken(req);
+    if (viewerToken) {
       try {
         const { verifyToken } = require('../utils/jwt');
-        const token = req.headers.authorization.replace('Bearer ', '');
-        const decoded = verifyToken(token);
+        const decoded = verifyToken(viewerToken);
         viewerId = decoded.id;
 
         // Get viewer's contacts with presets
@@ -646,6 +667,11 @@ router.get('/user/:userId', async (req, res) => {
       }
     }
 
+    // Blocked users see an empty feed instead of each other's posts
+    if (viewerId && viewerId !== userId && (await isBlockedBetween(viewerId, userId))) {
+      return res.json({ posts: [], nextCursor: null });
+    }
+
     // Build where clause
     const where = {
       user_id: userId,
@@ -796,6 +822,121 @@ router.get('/:postId', async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/posts/:postId
+ * Edit a post's content and hashtags (author only). The replaced version is kept
+ * in the post's revision history.
+ */
+router.patch('/:postId', authMiddleware, async (req, res) => {
+  try {
+    const { postId } = req.params;
+    const validatedData = updatePostSchema.parse(req.body);
+
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+    });
+
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    if (post.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'Not authorized to edit this post' });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.postRevision.create({
+        data: {
+          post_id: postId,
+          content: post.content,
+          tags: post.tags || undefined,
+        },
+      });
+
+      return tx.post.update({
+        where: { id: postId },
+        data: {
+          content: validatedData.content,
+          tags: validatedData.tags || post.tags || undefined,
+          edited_at: new Date(),
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              full_name: true,
+              profile: {
+                select: {
+                  avatar_url: true,
+                },
+              },
+            },
+          },
+          _count: {
+            select: {
+              reactions: true,
+              comments: true,
+            },
+          },
+        },
+      });
+    });
+
+    // Open feeds patch the post in place
+    const io = req.app.get('io');
+    if (io) {
+      io.to('posts').emit('post.updated', updated);
+    }
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Edit post error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/posts/:postId/revisions
+ * Get the previous versions of an edited post, newest first (author, admins and
+ * moderators only)
+ */
+router.get('/:postId/revisions', authMiddleware, async (req, res) => {
+  try {
+    const { postId } = req.params;
+
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { id: true, user_id: true },
+    });
+
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    if (post.user_id !== req.user.id && !(await isModerator(req.user.id))) {
+      return res.status(403).json({ error: 'Not authorized to view this history' });
+    }
+
+    const revisions = await prisma.postRevision.findMany({
+      where: { post_id: postId },
+      orderBy: { created_at: 'desc' },
+    });
+
+    res.json({ revisions });
+  } catch (error) {
+    console.error('Get post revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * DELETE /api/posts/:postId
  * Delete a post (owners or admins only)
@@ -1043,6 +1184,12 @@ router.get('/reels', authMiddleware, async (req, res) => {
       ],
     };
 
+    // Leave out blocked and muted users
+    const hiddenUserIds = await getHiddenUserIds(req.user.id);
+    if (hiddenUserIds.length > 0) {
+      where.AND = [...(where.AND || []), excludePostsByUsers(hiddenUserIds)];
+    }
+
     const posts = await prisma.post.findMany({
       where,
       take: parseInt(limit),
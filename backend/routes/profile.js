@@ -45,6 +45,12 @@ const profileSchema = z.object({
   education: z.string().optional(),
 });
 
+const deviceKeySchema = z.object({
+  device_id: z.string().min(8).max(100),
+  public_key: z.string().min(1).max(1000),
+  label: z.string().max(200).optional(),
+});
+
 /**
  * GET /api/profile
  * Get current user's profile
@@ -305,4 +311,91 @@ router.post('/complete', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * PUT /api/profile/keys
+ * Publish (or refresh) the ECDH public key of the current device. The key is
+ * tied to the current session and removed when that session signs out.
+ */
+router.put('/keys', authMiddleware, async (req, res) => {
+  try {
+    const { device_id, public_key, label } = deviceKeySchema.parse(req.body);
+
+    const deviceKey = await prisma.deviceKey.upsert({
+      where: {
+        user_id_device_id: {
+          user_id: req.user.id,
+          device_id,
+        },
+      },
+      update: {
+        public_key,
+        label: label || null,
+        session_id: req.sessionId,
+      },
+      create: {
+        user_id: req.user.id,
+        device_id,
+        public_key,
+        label: label || null,
+        session_id: req.sessionId,
+      },
+    });
+
+    res.json({
+      key: {
+        user_id: deviceKey.user_id,
+        device_id: deviceKey.device_id,
+        public_key: deviceKey.public_key,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    console.error('Publish device key error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/profile/keys?user_ids=id1,id2
+ * Get the published device public keys for a set of users
+ */
+router.get('/keys', authMiddleware, async (req, res) => {
+  try {
+    const userIds = String(req.query.user_ids || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    if (userIds.length === 0) {
+      return res.status(400).json({ error: 'user_ids is required' });
+    }
+
+    if (userIds.length > 100) {
+      return res.status(400).json({ error: 'Too many users requested' });
+    }
+
+    const keys = await prisma.deviceKey.findMany({
+      where: {
+        user_id: { in: userIds },
+      },
+      select: {
+        user_id: true,
+        device_id: true,
+        public_key: true,
+      },
+    });
+
+    res.json({ keys });
+  } catch (error) {
+    console.error('Get device keys error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 module.exports = router;
@@ -1,20 +1,11 @@
 const express = require('express');
-const webpush = require('web-push');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
 const logger = require('../utils/logger');
+const { sendPush } = require('../services/push');
 
 const router = express.Router();
 
-// Configure VAPID keys
-const vapidPublicKey = process.env.VAPID_PUBLIC_KEY;
-const vapidPrivateKey = process.env.VAPID_PRIVATE_KEY;
-const vapidEmail = process.env.VAPID_EMAIL || 'mailto:your-email@example.com';
-
-if (vapidPublicKey && vapidPrivateKey) {
-  webpush.setVapidDetails(vapidEmail, vapidPublicKey, vapidPrivateKey);
-}
-
 /**
  * POST /api/notifications/push/subscribe
  * Subscribe to push notifications
@@ -64,14 +55,12 @@ router.post('/push/send', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'User has no push subscription' });
     }
 
-    const payload = JSON.stringify({
+    await sendPush(subscription, {
       title,
       message,
       link,
     });
 
-    await webpush.sendNotification(subscription, payload);
-
     res.json({ message: 'Push notification sent' });
   } catch (error) {
     logger.logError(error, req, { context: 'Send push notification' });
@@ -2,6 +2,7 @@ const express = require('express');
 const crypto = require('crypto');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { isBlockedBetween } = require('../utils/blocks');
 
 const router = express.Router();
 
@@ -185,6 +186,10 @@ router.post('/consume', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Cannot scan your own QR code' });
     }
 
+    if (await isBlockedBetween(req.user.id, qrToken.user_id)) {
+      return res.status(403).json({ error: 'You cannot connect with this user' });
+    }
+
     // Get sender's profile and preset
     const senderProfile = await prisma.profile.findUnique({
       where: { user_id: qrToken.user_id },
@@ -478,6 +483,10 @@ router.post('/consume-after-signup', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Cannot scan your own QR code' });
     }
 
+    if (await isBlockedBetween(req.user.id, qrToken.user_id)) {
+      return res.status(403).json({ error: 'You cannot connect with this user' });
+    }
+
     // Get sender's (QR owner's) profile and preset
     const senderProfile = await prisma.profile.findUnique({
       where: { user_id: qrToken.user_id },
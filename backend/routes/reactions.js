@@ -1,6 +1,8 @@
 const express = require('express');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { getHiddenUserIds, isBlockedBetween } = require('../utils/blocks');
+const { getRequestToken } = require('../utils/authCookies');
 
 const router = express.Router();
 
@@ -21,6 +23,16 @@ router.post('/', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Invalid reaction type' });
     }
 
+    // Blocked users can't react to each other's posts
+    const post = await prisma.post.findUnique({
+      where: { id: post_id },
+      select: { user_id: true },
+    });
+
+    if (post && post.user_id !== req.user.id && (await isBlockedBetween(req.user.id, post.user_id))) {
+      return res.status(403).json({ error: 'You cannot react to this post' });
+    }
+
     // Check if reaction already exists
     const existing = await prisma.reaction.findFirst({
       where: {
@@ -98,8 +110,21 @@ router.get('/post/:postId', async (req, res) => {
   try {
     const { postId } = req.params;
 
+    // Reactions by users blocked either way, or muted by the viewer, are left out
+    let hiddenUserIds = [];
+    const { token: viewerToken } = getRequestToken(req);
+    if (viewerToken) {
+      try {
+        const { verifyToken } = require('../utils/jwt');
+        const decoded = verifyToken(viewerToken);
+        hiddenUserIds = await getHiddenUserIds(decoded.id);
+      } catch (error) {
+        // Not authenticated or invalid token, continue as public
+      }
+    }
+
     const reactions = await prisma.reaction.findMany({
-      where: { post_id: postId },
+      where: { post_id: postId, user_id: { notIn: hiddenUserIds } },
       include: {
         user: {
           select: {
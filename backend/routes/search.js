@@ -1,6 +1,8 @@
 const express = require('express');
 const { PrismaClient } = require('@prisma/client');
 const prisma = new PrismaClient();
+const { getBlockedUserIds, getHiddenUserIds } = require('../utils/blocks');
+const { getRequestToken } = require('../utils/authCookies');
 
 const router = express.Router();
 
@@ -23,6 +25,23 @@ router.get('/', async (req, res) => {
     const searchTerm = q.trim().toLowerCase();
     const searchLimit = parseInt(limit);
 
+    // Blocked users don't find each other; muted users' posts are left out too
+    let blockedUserIds = [];
+    let hiddenUserIds = [];
+    const { token: viewerToken } = getRequestToken(req);
+    if (viewerToken) {
+      try {
+        const { verifyToken } = require('../utils/jwt');
+        const decoded = verifyToken(viewerToken);
+        [blockedUserIds, hiddenUserIds] = await Promise.all([
+          getBlockedUserIds(decoded.id),
+          getHiddenUserIds(decoded.id),
+        ]);
+      } catch (error) {
+        // Not authenticated or invalid token, continue as public
+      }
+    }
+
     const results = {
       users: [],
       posts: [],
@@ -33,6 +52,7 @@ router.get('/', async (req, res) => {
     if (type === 'all' || type === 'users') {
       results.users = await prisma.user.findMany({
         where: {
+          id: { notIn: blockedUserIds },
           OR: [
             { username: { contains: searchTerm, mode: 'insensitive' } },
             { full_name: { contains: searchTerm, mode: 'insensitive' } },
@@ -60,6 +80,7 @@ router.get('/', async (req, res) => {
       results.posts = await prisma.post.findMany({
         where: {
           visibility: 'public',
+          user_id: { notIn: hiddenUserIds },
           OR: [
             { content: { contains: searchTerm, mode: 'insensitive' } },
           ],
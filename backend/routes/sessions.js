@@ -0,0 +1,57 @@
+const express = require('express');
+const authMiddleware = require('../middleware/auth');
+const { listSessions, revokeSessions } = require('../utils/sessions');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+/**
+ * GET /api/sessions
+ * List the devices the current user is logged in on
+ */
+router.get('/', authMiddleware, async (req, res) => {
+  try {
+    const sessions = await listSessions(req.user.id, req.sessionId);
+
+    res.json({ sessions });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/sessions
+ * Sign out everywhere, including this device
+ */
+router.delete('/', authMiddleware, async (req, res) => {
+  try {
+    const revoked = await revokeSessions(req.app.get('io'), req.user.id);
+
+    res.json({ message: 'Signed out of all devices', revoked: revoked.length });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:id
+ * Sign out one device
+ */
+router.delete('/:id', authMiddleware, async (req, res) => {
+  try {
+    const revoked = await revokeSessions(req.app.get('io'), req.user.id, [req.params.id]);
+
+    if (revoked.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
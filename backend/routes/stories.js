@@ -3,6 +3,8 @@ const multer = require('multer');
 const cloudinary = require('cloudinary').v2;
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { getHiddenUserIds, isBlockedBetween } = require('../utils/blocks');
+const { getRequestToken } = require('../utils/authCookies');
 
 const router = express.Router();
 
@@ -212,9 +214,13 @@ router.get('/', authMiddleware, async (req, res) => {
     const twentyFourHoursAgo = new Date();
     twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
 
+    // Leave out blocked and muted users
+    const hiddenUserIds = await getHiddenUserIds(req.user.id);
+
     const stories = await prisma.post.findMany({
       where: {
         is_story: true,
+        user_id: { notIn: hiddenUserIds },
         created_at: {
           gte: twentyFourHoursAgo,
         },
@@ -264,6 +270,21 @@ router.get('/user/:userId', async (req, res) => {
   try {
     const { userId } = req.params;
 
+    // Blocked users don't see each other's stories
+    const { token: viewerToken } = getRequestToken(req);
+    if (viewerToken) {
+      try {
+        const { verifyToken } = require('../utils/jwt');
+        const decoded = verifyToken(viewerToken);
+
+        if (decoded.id !== userId && (await isBlockedBetween(decoded.id, userId))) {
+          return res.json({ stories: [] });
+        }
+      } catch (error) {
+        // Not authenticated or invalid token, continue as public
+      }
+    }
+
     // Get stories from last 24 hours
     const twentyFourHoursAgo = new Date();
     twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
@@ -2,6 +2,8 @@ const express = require('express');
 const { z } = require('zod');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { getHiddenUserIds, isBlockedBetween } = require('../utils/blocks');
+const { getRequestToken } = require('../utils/authCookies');
 
 const router = express.Router();
 
@@ -29,6 +31,21 @@ router.get('/', async (req, res) => {
       where.topic = topic;
     }
 
+    // Leave out threads by users blocked either way or muted by the viewer
+    const { token: viewerToken } = getRequestToken(req);
+    if (viewerToken) {
+      try {
+        const { verifyToken } = require('../utils/jwt');
+        const decoded = verifyToken(viewerToken);
+        const hiddenUserIds = await getHiddenUserIds(decoded.id);
+        if (hiddenUserIds.length > 0) {
+          where.user_id = { notIn: hiddenUserIds };
+        }
+      } catch (error) {
+        // Not authenticated or invalid token, continue as public
+      }
+    }
+
     let orderBy = { created_at: 'desc' };
     if (sort === 'popular') {
       orderBy = [{ replies_count: 'desc' }, { views_count: 'desc' }];
@@ -157,6 +174,33 @@ router.get('/:threadId', async (req, res) => {
   try {
     const { threadId } = req.params;
 
+    let viewerId = null;
+    let hiddenUserIds = [];
+    const { token: viewerToken } = getRequestToken(req);
+    if (viewerToken) {
+      try {
+        const { verifyToken } = require('../utils/jwt');
+        const decoded = verifyToken(viewerToken);
+        viewerId = decoded.id;
+        hiddenUserIds = await getHiddenUserIds(viewerId);
+      } catch (error) {
+        // Not authenticated or invalid token, continue as public
+      }
+    }
+
+    const existing = await prisma.thread.findUnique({
+      where: { id: threadId },
+      select: { user_id: true },
+    });
+
+    // Blocked users don't see each other's threads
+    if (
+      !existing ||
+      (viewerId && viewerId !== existing.user_id && (await isBlockedBetween(viewerId, existing.user_id)))
+    ) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
     // Increment views
     await prisma.thread.update({
       where: { id: threadId },
@@ -179,6 +223,7 @@ router.get('/:threadId', async (req, res) => {
           },
         },
         replies: {
+          where: { user_id: { notIn: hiddenUserIds } },
           include: {
             user: {
               select: {
@@ -193,6 +238,7 @@ router.get('/:threadId', async (req, res) => {
               },
             },
             replies: {
+              where: { user_id: { notIn: hiddenUserIds } },
               include: {
                 user: {
                   select: {
@@ -246,6 +292,20 @@ router.post('/:threadId/replies', authMiddleware, async (req, res) => {
       return res.status(403).json({ error: 'Thread is locked' });
     }
 
+    // Blocked users can't reply to each other
+    const parent = validatedData.parent_id
+      ? await prisma.threadReply.findUnique({
+          where: { id: validatedData.parent_id },
+          select: { user_id: true },
+        })
+      : null;
+    const authorIds = [thread.user_id, parent?.user_id].filter((id) => id && id !== req.user.id);
+    for (const authorId of authorIds) {
+      if (await isBlockedBetween(req.user.id, authorId)) {
+        return res.status(403).json({ error: 'You cannot reply to this thread' });
+      }
+    }
+
     const reply = await prisma.threadReply.create({
       data: {
         thread_id: threadId,
@@ -0,0 +1,273 @@
+const express = require('express');
+const { z } = require('zod');
+const prisma = require('../prisma/client');
+const authMiddleware = require('../middleware/auth');
+const { comparePassword } = require('../utils/bcrypt');
+const { generateSecret, verifyCode, buildOtpauthUrl, encryptSecret, decryptSecret } = require('../utils/totp');
+const { isTwoFactorRequired, verifySecondFactor, replaceRecoveryCodes } = require('../utils/twoFactor');
+const { revokeSessions } = require('../utils/sessions');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+// Validation schemas
+const codeSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+});
+
+const disableSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().min(1, 'Code is required'),
+});
+
+/**
+ * Load the current user's two-factor fields
+ */
+function findTwoFactorUser(userId) {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      password_hash: true,
+      two_factor_enabled: true,
+      two_factor_secret: true,
+    },
+  });
+}
+
+/**
+ * GET /api/two-factor
+ * Get the current user's two-factor status
+ */
+router.get('/', authMiddleware, async (req, res) => {
+  try {
+    const user = await findTwoFactorUser(req.user.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const recoveryCodesRemaining = user.two_factor_enabled
+      ? await prisma.recoveryCode.count({
+          where: { user_id: user.id, used_at: null },
+        })
+      : 0;
+
+    res.json({
+      enabled: user.two_factor_enabled,
+      required: isTwoFactorRequired(user.role),
+      recoveryCodesRemaining,
+    });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/two-factor/setup
+ * Start enrolment: generate a secret for the authenticator app. Two-factor
+ * stays off until a code from the app is confirmed.
+ */
+router.post('/setup', authMiddleware, async (req, res) => {
+  try {
+    const user = await findTwoFactorUser(req.user.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.two_factor_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = generateSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        two_factor_secret: encryptSecret(secret),
+        two_factor_last_step: null,
+      },
+    });
+
+    res.json({
+      secret,
+      otpauthUrl: buildOtpauthUrl(secret, user.email),
+    });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/two-factor/enable
+ * Finish enrolment with a code from the authenticator app. Returns the
+ * recovery codes, which are only shown this once.
+ */
+router.post('/enable', authMiddleware, async (req, res) => {
+  try {
+    const { code } = codeSchema.parse(req.body);
+    const user = await findTwoFactorUser(req.user.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.two_factor_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    if (!user.two_factor_secret) {
+      return res.status(400).json({ error: 'Start two-factor setup first' });
+    }
+
+    const step = verifyCode(decryptSecret(user.two_factor_secret), code);
+
+    if (step === null) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: {
+          two_factor_enabled: true,
+          two_factor_last_step: step,
+        },
+      });
+
+      return replaceRecoveryCodes(tx, user.id);
+    });
+
+    // Anyone already signed in elsewhere got in without the second factor
+    const otherSessions = await prisma.refreshToken.findMany({
+      where: req.sessionId ? { user_id: user.id, id: { not: req.sessionId } } : { user_id: user.id },
+      select: { id: true },
+    });
+    if (otherSessions.length > 0) {
+      await revokeSessions(
+        req.app.get('io'),
+        user.id,
+        otherSessions.map((session) => session.id)
+      );
+    }
+
+    res.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/two-factor/recovery-codes
+ * Replace the recovery codes (the old ones stop working)
+ */
+router.post('/recovery-codes', authMiddleware, async (req, res) => {
+  try {
+    const { code } = codeSchema.parse(req.body);
+    const user = await findTwoFactorUser(req.user.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!user.two_factor_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(prisma, user.id);
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/two-factor/disable
+ * Turn two-factor authentication off (not allowed for admins and moderators)
+ */
+router.post('/disable', authMiddleware, async (req, res) => {
+  try {
+    const { password, code } = disableSchema.parse(req.body);
+    const user = await findTwoFactorUser(req.user.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (isTwoFactorRequired(user.role)) {
+      return res.status(403).json({
+        error: 'Two-factor authentication is required for admin and moderator accounts',
+      });
+    }
+
+    if (!user.two_factor_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    if (!(await comparePassword(password, user.password_hash))) {
+      return res.status(400).json({ error: 'Incorrect password' });
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: {
+          two_factor_enabled: false,
+          two_factor_secret: null,
+          two_factor_last_step: null,
+        },
+      });
+
+      await tx.recoveryCode.deleteMany({
+        where: { user_id: user.id },
+      });
+    });
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
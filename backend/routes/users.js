@@ -1,6 +1,7 @@
 const express = require('express');
 const prisma = require('../prisma/client');
 const authMiddleware = require('../middleware/auth');
+const { revokeSessions } = require('../utils/sessions');
 const logger = require('../utils/logger');
 
 const router = express.Router();
@@ -121,10 +122,8 @@ router.delete('/account', authMiddleware, async (req, res) => {
   try {
     const userId = req.user.id;
 
-    // Delete all refresh tokens for this user first (explicit cleanup)
-    await prisma.refreshToken.deleteMany({
-      where: { user_id: userId },
-    });
+    // Sign out every device first (explicit cleanup, and drops their sockets)
+    await revokeSessions(req.app.get('io'), userId);
 
     // Delete user (cascade will handle related records)
     await prisma.user.delete({
@@ -139,6 +138,183 @@ router.delete('/account', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/users/blocks
+ * Get the users the current user has blocked and muted
+ * NOTE: Must be defined before /:username to avoid route conflict
+ */
+router.get('/blocks', authMiddleware, async (req, res) => {
+  try {
+    const [blocks, mutes] = await Promise.all([
+      prisma.userBlock.findMany({
+        where: { blocker_id: req.user.id },
+        orderBy: { created_at: 'desc' },
+        include: {
+          blocked: {
+            select: {
+              id: true,
+              username: true,
+              full_name: true,
+              profile: {
+                select: {
+                  avatar_url: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.userMute.findMany({
+        where: { muter_id: req.user.id },
+        orderBy: { created_at: 'desc' },
+        include: {
+          muted: {
+            select: {
+              id: true,
+              username: true,
+              full_name: true,
+              profile: {
+                select: {
+                  avatar_url: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    res.json({
+      blocked: blocks.map((block) => ({ user: block.blocked, created_at: block.created_at })),
+      muted: mutes.map((mute) => ({ user: mute.muted, created_at: mute.created_at })),
+    });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/users/:userId/block
+ * Block a user. Any contact between the two users is removed.
+ */
+router.post('/:userId/block', authMiddleware, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (userId === req.user.id) {
+      return res.status(400).json({ error: 'You cannot block yourself' });
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.userBlock.upsert({
+        where: {
+          blocker_id_blocked_id: { blocker_id: req.user.id, blocked_id: userId },
+        },
+        create: { blocker_id: req.user.id, blocked_id: userId },
+        update: {},
+      });
+
+      await tx.contact.deleteMany({
+        where: {
+          OR: [
+            { sender_id: req.user.id, receiver_id: userId },
+            { sender_id: userId, receiver_id: req.user.id },
+          ],
+        },
+      });
+    });
+
+    res.json({ message: 'User blocked' });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/users/:userId/block
+ * Unblock a user (contacts removed by the block are not restored)
+ */
+router.delete('/:userId/block', authMiddleware, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    await prisma.userBlock.deleteMany({
+      where: { blocker_id: req.user.id, blocked_id: userId },
+    });
+
+    res.json({ message: 'User unblocked' });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/users/:userId/mute
+ * Mute a user so their content stays out of the current user's feeds
+ */
+router.post('/:userId/mute', authMiddleware, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (userId === req.user.id) {
+      return res.status(400).json({ error: 'You cannot mute yourself' });
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await prisma.userMute.upsert({
+      where: {
+        muter_id_muted_id: { muter_id: req.user.id, muted_id: userId },
+      },
+      create: { muter_id: req.user.id, muted_id: userId },
+      update: {},
+    });
+
+    res.json({ message: 'User muted' });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/users/:userId/mute
+ * Unmute a user
+ */
+router.delete('/:userId/mute', authMiddleware, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    await prisma.userMute.deleteMany({
+      where: { muter_id: req.user.id, muted_id: userId },
+    });
+
+    res.json({ message: 'User unmuted' });
+  } catch (error) {
+    logger.logError(error, req);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/users/:username
  * Get user by username
@@ -149,7 +325,14 @@ router.get('/:username', async (req, res) => {
 
     const user = await prisma.user.findUnique({
       where: { username },
-      include: {
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        full_name: true,
+        role: true,
+        is_verified: true,
+        created_at: true,
         profile: true,
         _count: {
           select: {
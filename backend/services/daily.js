@@ -1,3 +1,4 @@
+const crypto = require('crypto');
 const axios = require('axios');
 const logger = require('../utils/logger');
 
@@ -105,6 +106,7 @@ class DailyService {
    * @param {Object} properties - Token properties
    * @param {boolean} properties.is_owner - User is room owner
    * @param {string} properties.user_name - User name
+   * @param {string} properties.user_id - Our user ID, so the participant can be ejected later
    * @param {number} properties.exp - Token expiration timestamp
    * @returns {Promise<string>} Meeting token
    */
@@ -117,6 +119,7 @@ class DailyService {
       const {
         is_owner = false,
         user_name = 'User',
+        user_id,
         exp,
       } = properties;
 
@@ -132,6 +135,10 @@ class DailyService {
         },
       };
 
+      if (user_id) {
+        tokenConfig.properties.user_id = user_id;
+      }
+
       const response = await axios.post(
         `${this.baseURL}/meeting-tokens`,
         tokenConfig,
@@ -154,6 +161,37 @@ class DailyService {
     }
   }
 
+  /**
+   * Remove participants from a room
+   * @param {string} roomName - Room name
+   * @param {string[]} userIds - User IDs their meeting tokens were issued with
+   * @returns {Promise<Object>} Ejection result
+   */
+  async ejectParticipants(roomName, userIds) {
+    try {
+      if (!this.apiKey) {
+        throw new Error('DAILY_API_KEY is not configured');
+      }
+
+      const response = await axios.post(
+        `${this.baseURL}/rooms/${roomName}/eject`,
+        { user_ids: userIds },
+        { headers: this.getHeaders() }
+      );
+
+      logger.info('Daily.co participants ejected', { roomName, count: userIds.length });
+
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to eject Daily.co participants', {
+        error: error.message,
+        roomName,
+        response: error.response?.data,
+      });
+      throw new Error(`Failed to eject Daily.co participants: ${error.message}`);
+    }
+  }
+
   /**
    * Get room details
    * @param {string} roomName - Room name
@@ -218,6 +256,29 @@ class DailyService {
     }
   }
 
+  /**
+   * Check a webhook request against DAILY_WEBHOOK_SECRET, the base64 HMAC secret
+   * Daily.co returns when the webhook is created
+   * @param {string} rawBody - Request body exactly as received
+   * @param {string} timestamp - X-Webhook-Timestamp header
+   * @param {string} signature - X-Webhook-Signature header
+   * @returns {boolean}
+   */
+  verifyWebhookSignature(rawBody, timestamp, signature) {
+    const secret = process.env.DAILY_WEBHOOK_SECRET;
+    if (!secret || !timestamp || !signature) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', Buffer.from(secret, 'base64'))
+      .update(`${timestamp}.${rawBody}`)
+      .digest();
+    const provided = Buffer.from(signature, 'base64');
+
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  }
+
   /**
    * Extract room name from room URL
    * @param {string} roomUrl - Full room URL
@@ -0,0 +1,184 @@
+const fs = require('fs/promises');
+const path = require('path');
+const axios = require('axios');
+const logger = require('../utils/logger');
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Kartess <no-reply@kartess.app>';
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+/**
+ * Transports deliver a message of the shape { from, to, subject, text, html }.
+ * Any object with an async send(message) method can be plugged in with
+ * mailService.setTransport().
+ */
+
+/**
+ * Logs that a message was sent instead of sending it (local development default).
+ * The body carries live reset and verification links, so it is never logged;
+ * use the file transport to open them locally.
+ */
+const consoleTransport = {
+  name: 'console',
+  async send(message) {
+    logger.info('Mail (console transport)', {
+      to: message.to,
+      subject: message.subject,
+    });
+  },
+};
+
+/**
+ * Writes each message to a JSON file, so links can be opened from disk
+ * @param {string} directory - Output directory
+ */
+function createFileTransport(directory) {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const filename = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+      await fs.writeFile(path.join(directory, filename), JSON.stringify(message, null, 2));
+    },
+  };
+}
+
+/**
+ * Posts each message as JSON to a mail provider or relay endpoint
+ * @param {string} url - Endpoint URL
+ * @param {string} [apiKey] - Sent as a bearer token
+ */
+function createHttpTransport(url, apiKey) {
+  return {
+    name: 'http',
+    async send(message) {
+      await axios.post(url, message, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout: 10000,
+      });
+    },
+  };
+}
+
+/**
+ * Pick the transport named by MAIL_TRANSPORT ('console', 'file' or 'http')
+ * Throws in production unless mail actually leaves the server
+ */
+function createTransportFromEnv() {
+  const transport = resolveTransport();
+
+  if (process.env.NODE_ENV === 'production' && transport.name !== 'http') {
+    throw new Error(
+      'MAIL_TRANSPORT must be "http" with MAIL_HTTP_URL set in production; ' +
+        `the ${transport.name} transport would keep reset and verification links on the server`
+    );
+  }
+
+  return transport;
+}
+
+function resolveTransport() {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return createFileTransport(process.env.MAIL_FILE_DIR || path.join(__dirname, '..', 'tmp', 'mail'));
+    case 'http':
+      if (!process.env.MAIL_HTTP_URL) {
+        logger.warn('MAIL_HTTP_URL not set - falling back to console mail transport');
+        return consoleTransport;
+      }
+      return createHttpTransport(process.env.MAIL_HTTP_URL, process.env.MAIL_HTTP_API_KEY);
+    default:
+      return consoleTransport;
+  }
+}
+
+/**
+ * Transactional email service
+ * Renders account emails and hands them to the configured transport
+ */
+class MailService {
+  constructor() {
+    this.transport = createTransportFromEnv();
+  }
+
+  /**
+   * Replace the transport (e.g. an SMTP or provider SDK adapter, or a test double)
+   * @param {{ send: (message: Object) => Promise<void> }} transport
+   */
+  setTransport(transport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email
+   * @param {Object} options
+   * @param {string} options.to - Recipient address
+   * @param {string} options.subject - Subject line
+   * @param {string} options.text - Plain text body
+   * @param {string} [options.html] - HTML body
+   */
+  async send({ to, subject, text, html }) {
+    await this.transport.send({ from: MAIL_FROM, to, subject, text, html });
+  }
+
+  /**
+   * Send the link for choosing a new password
+   * @param {{ email: string, full_name: string }} user
+   * @param {string} token - Raw reset token
+   */
+  async sendPasswordReset(user, token) {
+    const link = `${FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to: user.email,
+      subject: 'Reset your Kartess password',
+      text: [
+        `Hi ${user.full_name},`,
+        '',
+        'We received a request to reset your Kartess password. Choose a new one here:',
+        link,
+        '',
+        'This link expires in 1 hour. If you did not ask for a reset, you can ignore this email.',
+      ].join('\n'),
+      html: `<p>Hi ${escapeHtml(user.full_name)},</p>
+<p>We received a request to reset your Kartess password.</p>
+<p><a href="${link}">Choose a new password</a></p>
+<p>This link expires in 1 hour. If you did not ask for a reset, you can ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Send the link for confirming an email address
+   * @param {{ email: string, full_name: string }} user
+   * @param {string} token - Raw verification token
+   */
+  async sendEmailVerification(user, token) {
+    const link = `${FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to: user.email,
+      subject: 'Confirm your email for Kartess',
+      text: [
+        `Hi ${user.full_name},`,
+        '',
+        'Please confirm your email address:',
+        link,
+        '',
+        'This link expires in 24 hours.',
+      ].join('\n'),
+      html: `<p>Hi ${escapeHtml(user.full_name)},</p>
+<p><a href="${link}">Confirm your email address</a></p>
+<p>This link expires in 24 hours.</p>`,
+    });
+  }
+}
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Export singleton instance
+module.exports = new MailService();
@@ -0,0 +1,60 @@
+const webpush = require('web-push');
+const prisma = require('../prisma/client');
+const logger = require('../utils/logger');
+
+// Configure VAPID keys
+const vapidPublicKey = process.env.VAPID_PUBLIC_KEY;
+const vapidPrivateKey = process.env.VAPID_PRIVATE_KEY;
+const vapidEmail = process.env.VAPID_EMAIL || 'mailto:your-email@example.com';
+
+const isConfigured = Boolean(vapidPublicKey && vapidPrivateKey);
+
+if (isConfigured) {
+  webpush.setVapidDetails(vapidEmail, vapidPublicKey, vapidPrivateKey);
+}
+
+/**
+ * Send a web push notification to a user's saved subscription
+ * @param {Object} subscription - PushSubscription stored in user settings
+ * @param {{title: string, message: string, link?: string}} payload
+ */
+async function sendPush(subscription, payload) {
+  await webpush.sendNotification(subscription, JSON.stringify(payload));
+}
+
+/**
+ * Push to a user if they have a subscription and haven't turned push off in
+ * their notification settings. Failures are logged, not thrown, so callers can
+ * fire and forget.
+ * @param {string} userId
+ * @param {{title: string, message: string, link?: string}} payload
+ * @returns {Promise<boolean>} Whether a push was sent
+ */
+async function sendPushToUser(userId, payload) {
+  if (!isConfigured) {
+    return false;
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { settings: true },
+    });
+
+    const settings = user?.settings || {};
+    if (!settings.pushSubscription || settings.notifications?.pushNotifications === false) {
+      return false;
+    }
+
+    await sendPush(settings.pushSubscription, payload);
+    return true;
+  } catch (error) {
+    logger.error('Failed to send push notification', { error: error.message, userId });
+    return false;
+  }
+}
+
+module.exports = {
+  sendPush,
+  sendPushToUser,
+};
@@ -43,6 +43,7 @@ describe('Auth Middleware', () => {
         email: true,
         username: true,
         full_name: true,
+        is_verified: true,
       },
     });
     expect(req.user).toEqual(mockUser);
@@ -95,6 +96,85 @@ describe('Auth Middleware', () => {
     expect(next).not.toHaveBeenCalled();
   });
 
+  it('should attach the session id from the token', async () => {
+    req.headers.authorization = 'Bearer valid_token';
+    verifyToken.mockReturnValue({ id: 'user-1', email: 'test@example.com', sid: 'session-1' });
+    prisma.refreshToken.findUnique.mockResolvedValue({
+      user_id: 'user-1',
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+    await authMiddleware(req, res, next);
+
+    expect(prisma.refreshToken.findUnique).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      select: { user_id: true, expires_at: true },
+    });
+    expect(req.sessionId).toBe('session-1');
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should return 401 if the session was revoked', async () => {
+    req.headers.authorization = 'Bearer valid_token';
+    verifyToken.mockReturnValue({ id: 'user-1', email: 'test@example.com', sid: 'session-1' });
+    prisma.refreshToken.findUnique.mockResolvedValue(null);
+
+    await authMiddleware(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Session has been revoked', code: 'SESSION_REVOKED' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should not accept a refresh token', async () => {
+    req.headers.authorization = 'Bearer refresh_token';
+    verifyToken.mockReturnValue({ id: 'user-1', type: 'refresh' });
+
+    await authMiddleware(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should accept the access cookie for reads', async () => {
+    req.method = 'GET';
+    req.cookies = { kartess_access: 'cookie_token' };
+    verifyToken.mockReturnValue({ id: 'user-1', email: 'test@example.com' });
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+    await authMiddleware(req, res, next);
+
+    expect(verifyToken).toHaveBeenCalledWith('cookie_token');
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should require the CSRF token for cookie-authenticated writes', async () => {
+    req.method = 'POST';
+    req.cookies = { kartess_access: 'cookie_token', csrf_token: 'csrf-1' };
+    req.headers['x-csrf-token'] = 'wrong';
+
+    await authMiddleware(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Invalid CSRF token', code: 'CSRF_INVALID' });
+    expect(verifyToken).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should accept cookie-authenticated writes with a matching CSRF token', async () => {
+    req.method = 'POST';
+    req.cookies = { kartess_access: 'cookie_token', csrf_token: 'csrf-1' };
+    req.headers['x-csrf-token'] = 'csrf-1';
+    verifyToken.mockReturnValue({ id: 'user-1', email: 'test@example.com' });
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+    await authMiddleware(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
   it('should handle database errors', async () => {
     req.headers.authorization = 'Bearer valid_token';
     verifyToken.mockReturnValue({ id: 'user-1', email: 'test@example.com' });
@@ -0,0 +1,90 @@
+// Socket.io mock for route tests. Every emit is checked against the payload
+// samples the frontend validates against frontend/types/socket.ts, so a payload
+// the frontend does not expect fails the test that sent it.
+const socketEvents = require('../../frontend/tests/fixtures/socketEvents.json');
+
+function kindOf(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Kinds each key takes across an event's samples, 'undefined' when a sample leaves it out
+function allowedKinds(samples) {
+  const keys = new Set(samples.flatMap((sample) => Object.keys(sample)));
+  const kinds = {};
+
+  for (const key of keys) {
+    kinds[key] = {
+      value: new Set(samples.map((sample) => kindOf(sample[key]))),
+      items: new Set(
+        samples.flatMap((sample) => (Array.isArray(sample[key]) ? sample[key].map(kindOf) : []))
+      ),
+    };
+  }
+  return kinds;
+}
+
+/**
+ * Describe how a payload breaks the contract
+ * @returns {string|null} null when the payload matches
+ */
+function checkSocketPayload(event, data) {
+  // What the client receives: dates become strings and undefined keys drop out
+  const payload = data === undefined ? undefined : JSON.parse(JSON.stringify(data));
+
+  if (socketEvents.entityEvents.includes(event)) {
+    return kindOf(payload) === 'object' ? null : `${event}: expected an object`;
+  }
+
+  const samples = socketEvents.payloads[event];
+  if (!samples) {
+    return `${event}: not a known socket event`;
+  }
+  if (kindOf(payload) !== 'object') {
+    return `${event}: expected an object`;
+  }
+
+  const kinds = allowedKinds(samples);
+  for (const key of new Set([...Object.keys(kinds), ...Object.keys(payload)])) {
+    const allowed = kinds[key];
+    const value = payload[key];
+
+    if (!allowed) {
+      return `${event}: unexpected key '${key}'`;
+    }
+    if (!allowed.value.has(kindOf(value))) {
+      return `${event}: '${key}' is ${kindOf(value)}, expected ${[...allowed.value].join(' or ')}`;
+    }
+    if (Array.isArray(value) && value.some((item) => !allowed.items.has(kindOf(item)))) {
+      return `${event}: '${key}' has items of the wrong kind`;
+    }
+  }
+  return null;
+}
+
+/**
+ * An io stand-in whose to()/in() chain back to itself; mismatched payloads
+ * fail the test after it finishes
+ */
+function createMockIo() {
+  const violations = [];
+  const mockIo = {
+    to: jest.fn().mockReturnThis(),
+    in: jest.fn().mockReturnThis(),
+    emit: jest.fn((event, payload) => {
+      const problem = checkSocketPayload(event, payload);
+      if (problem) violations.push(problem);
+    }),
+    socketsLeave: jest.fn(),
+  };
+
+  afterEach(() => {
+    const found = violations.splice(0);
+    expect(found).toEqual([]);
+  });
+
+  return mockIo;
+}
+
+module.exports = { createMockIo, checkSocketPayload };
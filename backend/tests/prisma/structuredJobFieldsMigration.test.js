@@ -0,0 +1,40 @@
+const fs = require('fs');
+const path = require('path');
+
+// The salary pattern from the migration, run with the same multipliers as its SQL
+const migration = fs.readFileSync(
+  path.join(
+    __dirname,
+    '../../prisma/migrations/20261019210000_add_structured_job_fields/migration.sql'
+  ),
+  'utf8'
+);
+const [, salaryPattern] = migration.match(/REGEXP_MATCHES\("jobs"\."salary_range", '([^']+)', 'g'\)/);
+
+function parseSalaryRange(text) {
+  const amounts = [...text.matchAll(new RegExp(salaryPattern, 'g'))].map(
+    ([, amount, suffix]) =>
+      Number(amount.replace(/,/g, '')) *
+      ({ k: 1000, m: 1000000 }[suffix?.toLowerCase()] || 1)
+  );
+  return { min: Math.min(...amounts), max: Math.max(...amounts) };
+}
+
+describe('Structured job fields migration', () => {
+  describe('salary parsing', () => {
+    it('should read k and m suffixes', () => {
+      expect(parseSalaryRange('$80k - $120k')).toEqual({ min: 80000, max: 120000 });
+      expect(parseSalaryRange('€1.2M')).toEqual({ min: 1200000, max: 1200000 });
+    });
+
+    it('should read grouped amounts', () => {
+      expect(parseSalaryRange('80,000-95,000 EUR')).toEqual({ min: 80000, max: 95000 });
+    });
+
+    it('should not read the m of month as millions', () => {
+      expect(parseSalaryRange('4000 monthly')).toEqual({ min: 4000, max: 4000 });
+      expect(parseSalaryRange('£3,500 - £4,000 Month')).toEqual({ min: 3500, max: 4000 });
+      expect(parseSalaryRange('2k/month')).toEqual({ min: 2000, max: 2000 });
+    });
+  });
+});
@@ -1,14 +1,29 @@
 const request = require('supertest');
 const express = require('express');
+const cookieParser = require('cookie-parser');
 const authRoutes = require('../../routes/auth');
 const prisma = require('../../prisma/client');
 const { hashPassword, comparePassword } = require('../../utils/bcrypt');
-const { generateToken, generateRefreshToken, hashRefreshToken, verifyToken } = require('../../utils/jwt');
+const {
+  generateToken,
+  generateRefreshToken,
+  hashRefreshToken,
+  verifyToken,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+} = require('../../utils/jwt');
 const authMiddleware = require('../../middleware/auth');
+const mailService = require('../../services/mail');
+const { signAuthToken } = require('../../utils/authTokens');
+const { encryptSecret, generateSecret, hashRecoveryCode } = require('../../utils/totp');
 
 jest.mock('../../prisma/client');
 jest.mock('../../utils/bcrypt');
 jest.mock('../../utils/jwt');
+jest.mock('../../services/mail', () => ({
+  sendPasswordReset: jest.fn(),
+  sendEmailVerification: jest.fn(),
+}));
 jest.mock('../../middleware/auth', () => (req, res, next) => {
   req.user = global.mockUser;
   next();
@@ -16,6 +31,7 @@ jest.mock('../../middleware/auth', () => (req, res, next) => {
 
 const app = express();
 app.use(express.json());
+app.use(cookieParser());
 app.use('/api/auth', authRoutes);
 
 describe('Auth Routes', () => {
@@ -215,6 +231,20 @@ describe('Auth Routes', () => {
       expect(comparePassword).toHaveBeenCalledWith(loginData.password, mockUser.password_hash);
       expect(generateRefreshToken).toHaveBeenCalled();
       expect(prisma.refreshToken.create).toHaveBeenCalled();
+      // The access token is bound to the new session
+      expect(generateToken).toHaveBeenCalledWith({
+        id: 'user-1',
+        email: loginData.email,
+        sid: 'refresh-token-1',
+      });
+      expect(prisma.activityLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: 'user-1',
+          action: 'login',
+          entity_type: 'session',
+          entity_id: 'refresh-token-1',
+        }),
+      });
     });
 
     it('should login successfully with incomplete profile', async () => {
@@ -412,6 +442,7 @@ describe('Auth Routes', () => {
       expect(generateToken).toHaveBeenCalledWith({
         id: mockUserId,
         email: mockUser.email,
+        sid: storedToken.id,
       });
     });
 
@@ -563,5 +594,504 @@ describe('Auth Routes', () => {
       expect(response.body.error).toBe('Internal server error');
     });
   });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the session and disconnect its sockets', async () => {
+      const io = { to: jest.fn(), in: jest.fn() };
+      const emit = jest.fn();
+      const disconnectSockets = jest.fn();
+      io.to.mockReturnValue({ emit });
+      io.in.mockReturnValue({ disconnectSockets });
+      app.set('io', io);
+
+      hashRefreshToken.mockReturnValue('hashed_refresh_token');
+      prisma.refreshToken.findFirst.mockResolvedValueOnce({ id: 'session-1', user_id: 'user-1' });
+      prisma.refreshToken.findMany.mockResolvedValueOnce([{ id: 'session-1' }]);
+      prisma.refreshToken.deleteMany.mockResolvedValue({ count: 1 });
+
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: 'mock_refresh_token' })
+        .expect(200);
+
+      expect(prisma.refreshToken.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['session-1'] } },
+      });
+      expect(io.to).toHaveBeenCalledWith('session:session-1');
+      expect(emit).toHaveBeenCalledWith('session.revoked', { sessionId: 'session-1' });
+      expect(disconnectSockets).toHaveBeenCalledWith(true);
+
+      app.set('io', undefined);
+    });
+
+    it('should succeed when the session is already gone', async () => {
+      hashRefreshToken.mockReturnValue('hashed_refresh_token');
+      prisma.refreshToken.findFirst.mockResolvedValueOnce(null);
+
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: 'mock_refresh_token' })
+        .expect(200);
+
+      expect(prisma.refreshToken.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cookie session mode', () => {
+    const mockUser = {
+      id: 'user-1',
+      email: 'test@example.com',
+      username: 'testuser',
+      full_name: 'Test User',
+      password_hash: 'hashed_password',
+    };
+
+    const findCookie = (response, name) =>
+      (response.headers['set-cookie'] || []).find((cookie) => cookie.startsWith(`${name}=`));
+
+    const mockValidRefresh = () => {
+      verifyToken.mockReturnValue({ id: 'user-1', type: 'refresh' });
+      hashRefreshToken.mockReturnValue('hashed_refresh_token');
+      prisma.refreshToken.findFirst.mockResolvedValueOnce({
+        id: 'session-1',
+        user_id: 'user-1',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      });
+      prisma.user.findUnique.mockResolvedValueOnce({ id: 'user-1', email: 'test@example.com', is_suspended: false });
+      generateToken.mockReturnValue('new_access_token');
+    };
+
+    it('should set httpOnly cookies on login instead of returning tokens', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce(mockUser);
+      comparePassword.mockResolvedValue(true);
+      prisma.profile.findUnique.mockResolvedValueOnce(null);
+      generateToken.mockReturnValue('mock_jwt_token');
+      generateRefreshToken.mockReturnValue('mock_refresh_token');
+      hashRefreshToken.mockReturnValue('hashed_refresh_token');
+      prisma.refreshToken.create.mockResolvedValue({ id: 'session-1' });
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .set('X-Auth-Mode', 'cookie')
+        .send({ email: mockUser.email, password: 'Test123!@#' })
+        .expect(200);
+
+      expect(response.body).not.toHaveProperty('token');
+      expect(response.body).not.toHaveProperty('refreshToken');
+      expect(response.body.csrfToken).toEqual(expect.any(String));
+      expect(response.body.user.id).toBe('user-1');
+
+      expect(findCookie(response, 'kartess_access')).toMatch(/^kartess_access=mock_jwt_token;.*HttpOnly/);
+      expect(findCookie(response, 'kartess_refresh')).toMatch(/Path=\/api\/auth;.*HttpOnly/);
+      const csrfCookie = findCookie(response, 'csrf_token');
+      expect(csrfCookie).toContain(`csrf_token=${response.body.csrfToken}`);
+      expect(csrfCookie).not.toContain('HttpOnly');
+    });
+
+    describe('in production', () => {
+      const originalEnv = { NODE_ENV: process.env.NODE_ENV, COOKIE_DOMAIN: process.env.COOKIE_DOMAIN };
+
+      const loginWithCookies = () => {
+        prisma.user.findUnique.mockResolvedValueOnce(mockUser);
+        comparePassword.mockResolvedValue(true);
+        prisma.profile.findUnique.mockResolvedValueOnce(null);
+        generateToken.mockReturnValue('mock_jwt_token');
+        generateRefreshToken.mockReturnValue('mock_refresh_token');
+        hashRefreshToken.mockReturnValue('hashed_refresh_token');
+        prisma.refreshToken.create.mockResolvedValue({ id: 'session-1' });
+
+        return request(app)
+          .post('/api/auth/login')
+          .set('X-Auth-Mode', 'cookie')
+          .send({ email: mockUser.email, password: 'Test123!@#' })
+          .expect(200);
+      };
+
+      beforeEach(() => {
+        process.env.NODE_ENV = 'production';
+      });
+
+      afterEach(() => {
+        process.env.NODE_ENV = originalEnv.NODE_ENV;
+        if (originalEnv.COOKIE_DOMAIN === undefined) {
+          delete process.env.COOKIE_DOMAIN;
+        } else {
+          process.env.COOKIE_DOMAIN = originalEnv.COOKIE_DOMAIN;
+        }
+      });
+
+      it('should use first-party SameSite=Lax cookies on a shared COOKIE_DOMAIN', async () => {
+        process.env.COOKIE_DOMAIN = '.kartess.app';
+
+        const response = await loginWithCookies();
+
+        const accessCookie = findCookie(response, 'kartess_access');
+        expect(accessCookie).toContain('Domain=.kartess.app');
+        expect(accessCookie).toContain('SameSite=Lax');
+        expect(accessCookie).toContain('Secure');
+      });
+
+      it('should fall back to cross-site SameSite=None cookies without a COOKIE_DOMAIN', async () => {
+        delete process.env.COOKIE_DOMAIN;
+
+        const response = await loginWithCookies();
+
+        expect(findCookie(response, 'kartess_access')).toContain('SameSite=None');
+      });
+    });
+
+    it('should refuse a cookie refresh without the CSRF token', async () => {
+      await request(app)
+        .post('/api/auth/refresh')
+        .set('Cookie', ['kartess_refresh=mock_refresh_token', 'csrf_token=csrf-1'])
+        .expect(403);
+
+      expect(verifyToken).not.toHaveBeenCalled();
+    });
+
+    it('should refresh from the cookie and set a new access cookie', async () => {
+      mockValidRefresh();
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .set('Cookie', ['kartess_refresh=mock_refresh_token', 'csrf_token=csrf-1'])
+        .set('X-CSRF-Token', 'csrf-1')
+        .expect(200);
+
+      expect(response.body).toEqual({ csrfToken: 'csrf-1' });
+      expect(verifyToken).toHaveBeenCalledWith('mock_refresh_token');
+      expect(findCookie(response, 'kartess_access')).toMatch(/^kartess_access=new_access_token;/);
+    });
+
+    it('should move a stored refresh token into cookies', async () => {
+      mockValidRefresh();
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .set('X-Auth-Mode', 'cookie')
+        .send({ refreshToken: 'mock_refresh_token' })
+        .expect(200);
+
+      expect(response.body).not.toHaveProperty('token');
+      expect(response.body.csrfToken).toEqual(expect.any(String));
+      expect(findCookie(response, 'kartess_refresh')).toMatch(/^kartess_refresh=mock_refresh_token;/);
+      expect(findCookie(response, 'kartess_access')).toMatch(/^kartess_access=new_access_token;/);
+    });
+
+    it('should clear the cookies on logout', async () => {
+      hashRefreshToken.mockReturnValue('hashed_refresh_token');
+      prisma.refreshToken.findFirst.mockResolvedValueOnce(null);
+
+      const response = await request(app)
+        .post('/api/auth/logout')
+        .set('Cookie', ['kartess_refresh=mock_refresh_token', 'csrf_token=csrf-1'])
+        .set('X-CSRF-Token', 'csrf-1')
+        .expect(200);
+
+      expect(hashRefreshToken).toHaveBeenCalledWith('mock_refresh_token');
+      expect(findCookie(response, 'kartess_access')).toMatch(/Expires=Thu, 01 Jan 1970/);
+      expect(findCookie(response, 'kartess_refresh')).toMatch(/Expires=Thu, 01 Jan 1970/);
+    });
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should email a reset link to an existing user', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        email: 'test@example.com',
+        full_name: 'Test User',
+        is_suspended: false,
+      });
+      prisma.authToken.deleteMany.mockResolvedValue({ count: 0 });
+      prisma.authToken.create.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'test@example.com' })
+        .expect(200);
+
+      expect(response.body.message).toMatch(/reset link/);
+      expect(prisma.authToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ user_id: 'user-1', purpose: 'password_reset' }),
+      });
+
+      // Only the signed form of the token is stored
+      const [, rawToken] = mailService.sendPasswordReset.mock.calls[0];
+      const storedToken = prisma.authToken.create.mock.calls[0][0].data.token;
+      expect(storedToken).toBe(signAuthToken(rawToken));
+      expect(storedToken).not.toBe(rawToken);
+    });
+
+    it('should answer the same way for unknown emails', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(200);
+
+      expect(response.body.message).toMatch(/reset link/);
+      expect(mailService.sendPasswordReset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    const validToken = {
+      id: 'auth-token-1',
+      user_id: 'user-1',
+      purpose: 'password_reset',
+      used_at: null,
+      expires_at: new Date(Date.now() + 60 * 1000),
+    };
+
+    it('should set the new password and sign out other sessions', async () => {
+      prisma.authToken.findUnique.mockResolvedValue(validToken);
+      hashPassword.mockResolvedValue('new_hashed_password');
+      prisma.authToken.updateMany.mockResolvedValue({ count: 1 });
+      prisma.user.update.mockResolvedValue({});
+      prisma.refreshToken.deleteMany.mockResolvedValue({ count: 2 });
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'raw-token', password: 'NewPass123!' })
+        .expect(200);
+
+      expect(prisma.authToken.findUnique).toHaveBeenCalledWith({
+        where: { token: signAuthToken('raw-token') },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { password_hash: 'new_hashed_password', is_verified: true },
+      });
+      expect(prisma.refreshToken.deleteMany).toHaveBeenCalledWith({ where: { user_id: 'user-1' } });
+    });
+
+    it('should reject used tokens', async () => {
+      prisma.authToken.findUnique.mockResolvedValue({ ...validToken, used_at: new Date() });
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'raw-token', password: 'NewPass123!' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid or expired reset link');
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token another request redeemed first', async () => {
+      prisma.authToken.findUnique.mockResolvedValue(validToken);
+      hashPassword.mockResolvedValue('new_hashed_password');
+      prisma.authToken.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'raw-token', password: 'NewPass123!' })
+        .expect(400);
+
+      expect(prisma.authToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'auth-token-1', used_at: null },
+        data: { used_at: expect.any(Date) },
+      });
+      expect(response.body.error).toBe('Invalid or expired reset link');
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(prisma.refreshToken.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      prisma.authToken.findUnique.mockResolvedValue({
+        ...validToken,
+        expires_at: new Date(Date.now() - 1000),
+      });
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'raw-token', password: 'NewPass123!' })
+        .expect(400);
+    });
+
+    it('should reject verification tokens', async () => {
+      prisma.authToken.findUnique.mockResolvedValue({ ...validToken, purpose: 'email_verification' });
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'raw-token', password: 'NewPass123!' })
+        .expect(400);
+    });
+
+    it('should enforce password rules', async () => {
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'raw-token', password: 'weak' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+  });
+
+  describe('POST /api/auth/verify-email', () => {
+    it('should mark the user as verified', async () => {
+      prisma.authToken.findUnique.mockResolvedValue({
+        id: 'auth-token-2',
+        user_id: 'user-1',
+        purpose: 'email_verification',
+        used_at: null,
+        expires_at: new Date(Date.now() + 60 * 1000),
+      });
+      prisma.authToken.updateMany.mockResolvedValue({ count: 1 });
+      prisma.user.update.mockResolvedValue({});
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: 'raw-token' })
+        .expect(200);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { is_verified: true },
+      });
+    });
+
+    it('should return 400 for an unknown token', async () => {
+      prisma.authToken.findUnique.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: 'raw-token' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid or expired verification link');
+    });
+  });
+
+  describe('POST /api/auth/send-verification', () => {
+    it('should email a new verification link', async () => {
+      prisma.authToken.deleteMany.mockResolvedValue({ count: 1 });
+      prisma.authToken.create.mockResolvedValue({});
+
+      await request(app)
+        .post('/api/auth/send-verification')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(prisma.authToken.deleteMany).toHaveBeenCalledWith({
+        where: { user_id: global.mockUser.id, purpose: 'email_verification', used_at: null },
+      });
+      expect(mailService.sendEmailVerification).toHaveBeenCalledWith(
+        global.mockUser,
+        expect.any(String)
+      );
+    });
+  });
+
+  describe('POST /api/auth/login with two-factor authentication', () => {
+    const twoFactorUser = {
+      id: 'user-1',
+      email: 'test@example.com',
+      username: 'testuser',
+      full_name: 'Test User',
+      role: 'user',
+      two_factor_enabled: true,
+      two_factor_secret: encryptSecret(generateSecret()),
+    };
+
+    it('should return a challenge instead of tokens', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce({ ...twoFactorUser, password_hash: 'hashed_password' });
+      comparePassword.mockResolvedValue(true);
+      generateTwoFactorChallenge.mockReturnValue('challenge_token');
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Test123!@#' })
+        .expect(200);
+
+      expect(response.body).toEqual({ twoFactorRequired: true, challengeToken: 'challenge_token' });
+      expect(generateToken).not.toHaveBeenCalled();
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should flag staff who still need to enrol', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce({
+        ...twoFactorUser,
+        role: 'moderator',
+        two_factor_enabled: false,
+        password_hash: 'hashed_password',
+      });
+      comparePassword.mockResolvedValue(true);
+      prisma.profile.findUnique.mockResolvedValueOnce(null);
+      generateToken.mockReturnValue('mock_jwt_token');
+      generateRefreshToken.mockReturnValue('mock_refresh_token');
+      prisma.refreshToken.create.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Test123!@#' })
+        .expect(200);
+
+      expect(response.body.token).toBe('mock_jwt_token');
+      expect(response.body.twoFactorSetupRequired).toBe(true);
+    });
+
+    it('should issue tokens for a valid recovery code', async () => {
+      verifyTwoFactorChallenge.mockReturnValue({ id: 'user-1' });
+      prisma.user.findUnique.mockResolvedValueOnce(twoFactorUser);
+      prisma.recoveryCode.updateMany.mockResolvedValue({ count: 1 });
+      prisma.profile.findUnique.mockResolvedValueOnce(null);
+      generateToken.mockReturnValue('mock_jwt_token');
+      generateRefreshToken.mockReturnValue('mock_refresh_token');
+      prisma.refreshToken.create.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: 'challenge_token', code: 'abcde-12345' })
+        .expect(200);
+
+      expect(response.body.token).toBe('mock_jwt_token');
+      expect(response.body.usedRecoveryCode).toBe(true);
+      expect(response.body.user).not.toHaveProperty('two_factor_secret');
+      expect(prisma.recoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { user_id: 'user-1', code_hash: hashRecoveryCode('ABCDE12345'), used_at: null },
+        data: { used_at: expect.any(Date) },
+      });
+    });
+
+    it('should reject a recovery code that was already used', async () => {
+      verifyTwoFactorChallenge.mockReturnValue({ id: 'user-1' });
+      prisma.user.findUnique.mockResolvedValueOnce(twoFactorUser);
+      prisma.recoveryCode.updateMany.mockResolvedValue({ count: 0 });
+
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: 'challenge_token', code: 'abcde-12345' })
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid authentication code');
+      expect(generateToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wrong authenticator code', async () => {
+      verifyTwoFactorChallenge.mockReturnValue({ id: 'user-1' });
+      prisma.user.findUnique.mockResolvedValueOnce(twoFactorUser);
+
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: 'challenge_token', code: '000000' })
+        .expect(401);
+
+      expect(generateToken).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for an expired challenge', async () => {
+      verifyTwoFactorChallenge.mockImplementationOnce(() => {
+        throw new Error('Invalid or expired challenge');
+      });
+
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: 'expired', code: '123456' })
+        .expect(401);
+
+      expect(response.body.error).toBe('Login session expired, please sign in again');
+    });
+  });
 });
 
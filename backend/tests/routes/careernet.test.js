@@ -0,0 +1,514 @@
+const request = require('supertest');
+const express = require('express');
+const careernetRoutes = require('../../routes/careernet');
+const prisma = require('../../prisma/client');
+const { createMockIo } = require('../mockIo');
+
+jest.mock('../../prisma/client');
+jest.mock('../../middleware/auth', () => (req, res, next) => {
+  req.user = global.mockUser;
+  next();
+});
+
+const mockIo = createMockIo();
+
+const app = express();
+app.use(express.json());
+app.set('io', mockIo);
+app.use('/api/careernet', careernetRoutes);
+
+const postedJob = { id: 'job-1', user_id: 'user-1', title: 'Backend Engineer' };
+
+describe('CareerNet Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/careernet/jobs', () => {
+    it('should leave out expired jobs when listing open jobs', async () => {
+      prisma.job.findMany.mockResolvedValueOnce([]);
+
+      await request(app).get('/api/careernet/jobs').expect(200);
+
+      expect(prisma.job.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: 'open',
+            AND: [{ OR: [{ expires_at: null }, { expires_at: { gt: expect.any(Date) } }] }],
+          },
+        })
+      );
+    });
+  });
+
+  describe('GET /api/careernet/jobs with structured filters', () => {
+    it('should filter by tags, workplace type and salary band', async () => {
+      prisma.job.findMany.mockResolvedValueOnce([{ id: 'job-1' }]);
+
+      await request(app)
+        .get('/api/careernet/jobs?tags=React,Node.js&workplace_type=remote&salary_min=80000&salary_currency=usd')
+        .expect(200);
+
+      expect(prisma.job.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: expect.arrayContaining([
+              { tags: { array_contains: ['React', 'Node.js'] } },
+              { workplace_type: 'remote' },
+              { salary_currency: 'USD', salary_period: 'year' },
+              {
+                OR: [
+                  { salary_max: { gte: 80000 } },
+                  { salary_max: null, salary_min: { gte: 80000 } },
+                ],
+              },
+            ]),
+          }),
+        })
+      );
+    });
+
+    it('should reject a salary band without a currency', async () => {
+      await request(app).get('/api/careernet/jobs?salary_min=80000').expect(400);
+
+      expect(prisma.job.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/careernet/jobs', () => {
+    it('should store structured salary and location fields', async () => {
+      prisma.job.create.mockResolvedValueOnce({ id: 'job-9', user_id: 'user-1', title: 'Designer' });
+
+      await request(app)
+        .post('/api/careernet/jobs')
+        .set('Authorization', 'Bearer mock_token')
+        .send({
+          title: 'Designer',
+          description: 'Design things',
+          location_city: 'Lisbon',
+          location_country: 'Portugal',
+          workplace_type: 'hybrid',
+          seniority: 'mid',
+          salary_min: 40000,
+          salary_max: 55000,
+          salary_currency: 'eur',
+          salary_period: 'year',
+        })
+        .expect(201);
+
+      expect(prisma.job.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            location: 'Lisbon, Portugal',
+            location_city: 'Lisbon',
+            workplace_type: 'hybrid',
+            salary_min: 40000,
+            salary_max: 55000,
+            salary_currency: 'EUR',
+            salary_period: 'year',
+          }),
+        })
+      );
+    });
+
+    it('should reject a salary minimum above the maximum', async () => {
+      await request(app)
+        .post('/api/careernet/jobs')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ title: 'Designer', description: 'Design things', salary_min: 9, salary_max: 1 })
+        .expect(400);
+
+      expect(prisma.job.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Saved searches', () => {
+    it('should save a search for the current user', async () => {
+      prisma.savedJobSearch.count.mockResolvedValueOnce(0);
+      prisma.savedJobSearch.create.mockResolvedValueOnce({ id: 'search-1', name: 'React in Berlin' });
+
+      await request(app)
+        .post('/api/careernet/saved-searches')
+        .set('Authorization', 'Bearer mock_token')
+        .send({
+          name: 'React in Berlin',
+          query: 'react',
+          location: 'Berlin',
+          tags: ['React'],
+          salary_min: 70000,
+          salary_currency: 'EUR',
+          salary_period: 'month',
+          alert_frequency: 'daily',
+        })
+        .expect(201);
+
+      expect(prisma.savedJobSearch.create).toHaveBeenCalledWith({
+        data: {
+          name: 'React in Berlin',
+          query: 'react',
+          location: 'Berlin',
+          tags: ['React'],
+          salary_min: 70000,
+          salary_currency: 'EUR',
+          salary_period: 'month',
+          alert_frequency: 'daily',
+          user_id: 'user-1',
+        },
+      });
+    });
+
+    it('should reject a salary band with the minimum above the maximum', async () => {
+      await request(app)
+        .post('/api/careernet/saved-searches')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ name: 'Odd band', salary_min: 100000, salary_max: 50000, salary_currency: 'USD' })
+        .expect(400);
+
+      expect(prisma.savedJobSearch.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a salary band without a currency', async () => {
+      await request(app)
+        .post('/api/careernet/saved-searches')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ name: 'Any currency', salary_min: 50000 })
+        .expect(400);
+
+      expect(prisma.savedJobSearch.create).not.toHaveBeenCalled();
+    });
+
+    it('should cap the number of saved searches', async () => {
+      prisma.savedJobSearch.count.mockResolvedValueOnce(20);
+
+      await request(app)
+        .post('/api/careernet/saved-searches')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ name: 'One too many' })
+        .expect(400);
+
+      expect(prisma.savedJobSearch.create).not.toHaveBeenCalled();
+    });
+
+    it('should start the digest window when switching to daily alerts', async () => {
+      prisma.savedJobSearch.findUnique.mockResolvedValueOnce({
+        id: 'search-1',
+        user_id: 'user-1',
+        alert_frequency: 'instant',
+      });
+      prisma.savedJobSearch.update.mockResolvedValueOnce({ id: 'search-1' });
+
+      await request(app)
+        .patch('/api/careernet/saved-searches/search-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ alert_frequency: 'daily' })
+        .expect(200);
+
+      expect(prisma.savedJobSearch.update).toHaveBeenCalledWith({
+        where: { id: 'search-1' },
+        data: { alert_frequency: 'daily', last_digest_at: expect.any(Date) },
+      });
+    });
+
+    it("should return 404 when deleting someone else's search", async () => {
+      prisma.savedJobSearch.findUnique.mockResolvedValueOnce({ user_id: 'user-2' });
+
+      await request(app)
+        .delete('/api/careernet/saved-searches/search-1')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(404);
+
+      expect(prisma.savedJobSearch.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/careernet/jobs/:jobId', () => {
+    it('should let the poster edit and close a job', async () => {
+      prisma.job.findUnique.mockResolvedValueOnce({ ...postedJob, status: 'open', expires_at: null });
+      prisma.job.update.mockResolvedValueOnce({ ...postedJob, status: 'filled' });
+
+      await request(app)
+        .patch('/api/careernet/jobs/job-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ status: 'filled', company: null })
+        .expect(200);
+
+      expect(prisma.job.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'job-1' },
+          data: { status: 'filled', company: null },
+        })
+      );
+    });
+
+    it("should return 403 for someone else's job", async () => {
+      prisma.job.findUnique.mockResolvedValueOnce({ ...postedJob, user_id: 'user-2' });
+
+      await request(app)
+        .patch('/api/careernet/jobs/job-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ status: 'closed' })
+        .expect(403);
+
+      expect(prisma.job.update).not.toHaveBeenCalled();
+    });
+
+    it('should not reopen a job whose expiry date has passed', async () => {
+      prisma.job.findUnique.mockResolvedValueOnce({
+        ...postedJob,
+        status: 'closed',
+        expires_at: new Date('2026-01-01T00:00:00Z'),
+      });
+
+      const response = await request(app)
+        .patch('/api/careernet/jobs/job-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ status: 'open' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Set a new expiry date to reopen this job');
+      expect(prisma.job.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expiry date in the past', async () => {
+      await request(app)
+        .patch('/api/careernet/jobs/job-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ expires_at: '2020-01-01T00:00:00Z' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/careernet/jobs/:jobId/duplicate', () => {
+    it('should repost the job as a new open posting', async () => {
+      prisma.job.findUnique.mockResolvedValueOnce({
+        ...postedJob,
+        description: 'Build APIs',
+        status: 'filled',
+        tags: ['Node.js'],
+        expires_at: new Date('2026-01-01T00:00:00Z'),
+      });
+      prisma.job.create.mockResolvedValueOnce({ id: 'job-2', title: 'Backend Engineer' });
+
+      const response = await request(app)
+        .post('/api/careernet/jobs/job-1/duplicate')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(201);
+
+      expect(response.body.id).toBe('job-2');
+      const { data } = prisma.job.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        user_id: 'user-1',
+        title: 'Backend Engineer',
+        description: 'Build APIs',
+        tags: ['Node.js'],
+      });
+      expect(data).not.toHaveProperty('status');
+      expect(data).not.toHaveProperty('expires_at');
+    });
+  });
+
+  describe('GET /api/careernet/jobs/:jobId/applications', () => {
+    it('should list applications with notes for the poster', async () => {
+      prisma.job.findUnique.mockResolvedValueOnce({ ...postedJob, company: 'Kartess', status: 'open' });
+      prisma.application.findMany.mockResolvedValueOnce([
+        { id: 'app-1', user_id: 'user-2', status: 'pending', notes: [] },
+      ]);
+
+      const response = await request(app)
+        .get('/api/careernet/jobs/job-1/applications')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.job.id).toBe('job-1');
+      expect(response.body.applications).toHaveLength(1);
+      expect(prisma.application.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { job_id: 'job-1' } })
+      );
+    });
+
+    it("should return 403 for someone else's job", async () => {
+      prisma.job.findUnique.mockResolvedValueOnce({ ...postedJob, user_id: 'user-2' });
+
+      await request(app)
+        .get('/api/careernet/jobs/job-1/applications')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(403);
+
+      expect(prisma.application.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/careernet/applications/:applicationId/status', () => {
+    it('should update the status and notify the applicant', async () => {
+      prisma.application.findUnique.mockResolvedValueOnce({
+        id: 'app-1',
+        user_id: 'user-2',
+        status: 'pending',
+        job: postedJob,
+      });
+      prisma.application.updateMany.mockResolvedValueOnce({ count: 1 });
+      prisma.notification.create.mockResolvedValueOnce({});
+
+      const response = await request(app)
+        .patch('/api/careernet/applications/app-1/status')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ status: 'interviewed' })
+        .expect(200);
+
+      expect(response.body).toEqual({ id: 'app-1', status: 'interviewed' });
+      expect(prisma.application.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['app-1'] } },
+        data: { status: 'interviewed' },
+      });
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: 'user-2',
+          type: 'application',
+          link: '/careernet/applications',
+        }),
+      });
+      expect(mockIo.to).toHaveBeenCalledWith('user:user-2');
+      expect(mockIo.emit).toHaveBeenCalledWith('application.status', {
+        applicationId: 'app-1',
+        jobId: 'job-1',
+        status: 'interviewed',
+      });
+    });
+
+    it('should not notify when the status is unchanged', async () => {
+      prisma.application.findUnique.mockResolvedValueOnce({
+        id: 'app-1',
+        user_id: 'user-2',
+        status: 'reviewed',
+        job: postedJob,
+      });
+
+      await request(app)
+        .patch('/api/careernet/applications/app-1/status')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ status: 'reviewed' })
+        .expect(200);
+
+      expect(prisma.application.updateMany).not.toHaveBeenCalled();
+      expect(prisma.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown status', async () => {
+      await request(app)
+        .patch('/api/careernet/applications/app-1/status')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ status: 'hired' })
+        .expect(400);
+    });
+
+    it("should return 403 for an application to someone else's job", async () => {
+      prisma.application.findUnique.mockResolvedValueOnce({
+        id: 'app-1',
+        user_id: 'user-2',
+        status: 'pending',
+        job: { ...postedJob, user_id: 'user-3' },
+      });
+
+      await request(app)
+        .patch('/api/careernet/applications/app-1/status')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ status: 'accepted' })
+        .expect(403);
+
+      expect(prisma.application.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/careernet/jobs/:jobId/applications/status', () => {
+    it('should move several applications and notify only those that changed', async () => {
+      prisma.job.findUnique.mockResolvedValueOnce(postedJob);
+      prisma.application.findMany.mockResolvedValueOnce([
+        { id: 'app-1', user_id: 'user-2', status: 'pending' },
+        { id: 'app-2', user_id: 'user-3', status: 'rejected' },
+      ]);
+      prisma.application.updateMany.mockResolvedValueOnce({ count: 1 });
+      prisma.notification.create.mockResolvedValue({});
+
+      const response = await request(app)
+        .patch('/api/careernet/jobs/job-1/applications/status')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ application_ids: ['app-1', 'app-2'], status: 'rejected' })
+        .expect(200);
+
+      expect(response.body.updated).toBe(1);
+      expect(prisma.application.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: ['app-1', 'app-2'] }, job_id: 'job-1' },
+        })
+      );
+      expect(prisma.notification.create).toHaveBeenCalledTimes(1);
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ user_id: 'user-2' }),
+      });
+    });
+
+    it('should return 404 when an application belongs to another job', async () => {
+      prisma.job.findUnique.mockResolvedValueOnce(postedJob);
+      prisma.application.findMany.mockResolvedValueOnce([
+        { id: 'app-1', user_id: 'user-2', status: 'pending' },
+      ]);
+
+      await request(app)
+        .patch('/api/careernet/jobs/job-1/applications/status')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ application_ids: ['app-1', 'app-other'], status: 'reviewed' })
+        .expect(404);
+
+      expect(prisma.application.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/careernet/applications/:applicationId/notes', () => {
+    it('should add a note for the poster', async () => {
+      prisma.application.findUnique.mockResolvedValueOnce({
+        id: 'app-1',
+        user_id: 'user-2',
+        status: 'pending',
+        job: postedJob,
+      });
+      prisma.applicationNote.create.mockResolvedValueOnce({
+        id: 'note-1',
+        content: 'Strong portfolio',
+      });
+
+      await request(app)
+        .post('/api/careernet/applications/app-1/notes')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: '  Strong portfolio  ' })
+        .expect(201);
+
+      expect(prisma.applicationNote.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            application_id: 'app-1',
+            author_id: 'user-1',
+            content: 'Strong portfolio',
+          },
+        })
+      );
+    });
+  });
+
+  describe('GET /api/careernet/applications/mine', () => {
+    it("should list the current user's applications", async () => {
+      prisma.application.findMany.mockResolvedValueOnce([
+        { id: 'app-1', status: 'interviewed', job: { id: 'job-1', title: 'Backend Engineer' } },
+      ]);
+
+      const response = await request(app)
+        .get('/api/careernet/applications/mine')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.applications[0].status).toBe('interviewed');
+      expect(prisma.application.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { user_id: 'user-1' } })
+      );
+    });
+  });
+});
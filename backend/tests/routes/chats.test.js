@@ -3,6 +3,7 @@ const express = require('express');
 const chatsRoutes = require('../../routes/chats');
 const prisma = require('../../prisma/client');
 const authMiddleware = require('../../middleware/auth');
+const { createMockIo } = require('../mockIo');
 
 jest.mock('../../prisma/client');
 jest.mock('../../middleware/auth', () => (req, res, next) => {
@@ -10,10 +11,7 @@ jest.mock('../../middleware/auth', () => (req, res, next) => {
   next();
 });
 
-const mockIo = {
-  to: jest.fn().mockReturnThis(),
-  emit: jest.fn(),
-};
+const mockIo = createMockIo();
 
 const app = express();
 app.use(express.json());
@@ -115,6 +113,12 @@ describe('Chats Routes', () => {
         { id: 'user-2', username: 'user2', full_name: 'User 2', profile: { avatar_url: null } },
         { id: 'user-3', username: 'user3', full_name: 'User 3', profile: { avatar_url: null } },
       ]);
+      prisma.message.create.mockResolvedValue({
+        id: 'msg-system',
+        thread_id: 'thread-1',
+        type: 'system',
+        content: 'created the group',
+      });
 
       const response = await request(app)
         .post('/api/chats/threads')
@@ -127,6 +131,78 @@ describe('Chats Routes', () => {
     });
   });
 
+  describe('GET /api/chats/search', () => {
+    it('should search plaintext messages in the user\'s threads with highlighted snippets', async () => {
+      prisma.chatThread.findMany.mockResolvedValue([
+        { id: 'thread-1', participants: [global.mockUser.id, 'user-2'] },
+        { id: 'thread-2', participants: ['user-2', 'user-3'] },
+      ]);
+      prisma.message.findMany.mockResolvedValue([
+        {
+          id: 'msg-1',
+          thread_id: 'thread-1',
+          content: 'See you at the Project kickoff tomorrow',
+          created_at: new Date(),
+          user: { id: 'user-2', username: 'user2', full_name: 'User 2' },
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/api/chats/search')
+        .query({ q: 'project KICKOFF' })
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      const where = prisma.message.findMany.mock.calls[0][0].where;
+      expect(where.thread_id).toEqual({ in: ['thread-1'] });
+      expect(where.encrypted).toBe(false);
+      expect(where.AND).toHaveLength(2);
+
+      expect(response.body.results).toHaveLength(1);
+      const [result] = response.body.results;
+      expect(result.message_id).toBe('msg-1');
+      expect(result.snippet).toBe('See you at the Project kickoff tomorrow');
+      expect(result.highlights).toEqual([
+        { start: 15, end: 22 },
+        { start: 23, end: 30 },
+      ]);
+    });
+
+    it('should return no results for an empty query', async () => {
+      const response = await request(app)
+        .get('/api/chats/search')
+        .query({ q: '   ' })
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.results).toEqual([]);
+      expect(prisma.message.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject searching a thread the user is not in', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-2',
+        participants: ['user-2', 'user-3'],
+      });
+
+      await request(app)
+        .get('/api/chats/search')
+        .query({ q: 'hello', thread_id: 'thread-2' })
+        .set('Authorization', 'Bearer mock_token')
+        .expect(403);
+    });
+
+    it('should return 400 when thread_id is given more than once', async () => {
+      const response = await request(app)
+        .get('/api/chats/search?q=hello&thread_id=thread-1&thread_id=thread-2')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(400);
+
+      expect(response.body.error).toBe('thread_id must be a single thread ID');
+      expect(prisma.chatThread.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /api/chats/threads/:threadId/messages', () => {
     it('should get messages for a thread', async () => {
       const mockThread = {
@@ -185,5 +261,360 @@ describe('Chats Routes', () => {
       expect(response.body.error).toBe('Not authorized to view this thread');
     });
   });
-});
 
+  describe('POST /api/chats/threads/:threadId/read', () => {
+    it('should mark other people\'s messages as read and emit a batched receipt', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+      });
+      prisma.message.findMany.mockResolvedValue([{ id: 'msg-1' }]);
+      prisma.messageRead.createMany.mockResolvedValue({ count: 1 });
+      prisma.message.count.mockResolvedValue(2);
+
+      const response = await request(app)
+        .post('/api/chats/threads/thread-1/read')
+        .send({ message_ids: ['msg-1', 'msg-own'] })
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.unreadCount).toBe(2);
+      expect(prisma.message.findMany.mock.calls[0][0].where).toMatchObject({
+        thread_id: 'thread-1',
+        user_id: { not: global.mockUser.id },
+      });
+      expect(prisma.messageRead.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [expect.objectContaining({ message_id: 'msg-1', user_id: global.mockUser.id })],
+          skipDuplicates: true,
+        })
+      );
+      expect(mockIo.to).toHaveBeenCalledWith('thread:thread-1');
+      expect(mockIo.emit).toHaveBeenCalledWith(
+        'message.read',
+        expect.objectContaining({ user_id: global.mockUser.id, message_ids: ['msg-1'] })
+      );
+      expect(mockIo.emit).toHaveBeenCalledWith('thread.read', {
+        thread_id: 'thread-1',
+        unreadCount: 2,
+      });
+    });
+
+    it('should reject an empty batch', async () => {
+      await request(app)
+        .post('/api/chats/threads/thread-1/read')
+        .send({ message_ids: [] })
+        .set('Authorization', 'Bearer mock_token')
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/chats/unread', () => {
+    it('should count unread messages across the user\'s threads', async () => {
+      prisma.chatThread.findMany.mockResolvedValue([
+        { id: 'thread-1', participants: [global.mockUser.id, 'user-2'] },
+        { id: 'thread-2', participants: ['user-2', 'user-3'] },
+      ]);
+      prisma.message.count.mockResolvedValue(4);
+
+      const response = await request(app)
+        .get('/api/chats/unread')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.unreadCount).toBe(4);
+      expect(prisma.message.count.mock.calls[0][0].where.thread_id).toEqual({ in: ['thread-1'] });
+    });
+  });
+
+  describe('GET /api/chats/threads/:threadId/keys', () => {
+    it('should return wrapped keys and flag rotation for an uncovered device', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+        key_version: 1,
+      });
+      prisma.chatThreadKey.findMany
+        .mockResolvedValueOnce([
+          { key_version: 1, wrapped_key: 'wrapped', ephemeral_public_key: 'epk' },
+        ])
+        .mockResolvedValueOnce([{ user_id: global.mockUser.id, device_id: 'device-1' }]);
+      prisma.deviceKey.findMany.mockResolvedValue([
+        { user_id: global.mockUser.id, device_id: 'device-1' },
+        { user_id: 'user-2', device_id: 'device-2' },
+      ]);
+
+      const response = await request(app)
+        .get('/api/chats/threads/thread-1/keys?device_id=device-1')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.key_version).toBe(1);
+      expect(response.body.keys).toHaveLength(1);
+      expect(response.body.rotation_required).toBe(true);
+    });
+
+    it('should flag rotation when a device holding the key has signed out', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+        key_version: 1,
+      });
+      prisma.chatThreadKey.findMany
+        .mockResolvedValueOnce([
+          { key_version: 1, wrapped_key: 'wrapped', ephemeral_public_key: 'epk' },
+        ])
+        .mockResolvedValueOnce([
+          { user_id: global.mockUser.id, device_id: 'device-1' },
+          { user_id: 'user-2', device_id: 'device-2' },
+          { user_id: 'user-2', device_id: 'device-signed-out' },
+        ]);
+      prisma.deviceKey.findMany.mockResolvedValue([
+        { user_id: global.mockUser.id, device_id: 'device-1' },
+        { user_id: 'user-2', device_id: 'device-2' },
+      ]);
+
+      const response = await request(app)
+        .get('/api/chats/threads/thread-1/keys?device_id=device-1')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.rotation_required).toBe(true);
+    });
+
+    it('should return 400 without a device ID', async () => {
+      const response = await request(app)
+        .get('/api/chats/threads/thread-1/keys')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(400);
+
+      expect(response.body.error).toBe('Device ID is required');
+    });
+  });
+
+  describe('POST /api/chats/threads/:threadId/keys', () => {
+    const wrappedKeys = [
+      { user_id: global.mockUser.id, device_id: 'device-1', wrapped_key: 'a', ephemeral_public_key: 'epk' },
+      { user_id: 'user-2', device_id: 'device-2', wrapped_key: 'b', ephemeral_public_key: 'epk' },
+    ];
+
+    it('should publish the next key version', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+        key_version: 1,
+      });
+      prisma.chatThread.updateMany.mockResolvedValue({ count: 1 });
+      prisma.chatThreadKey.createMany.mockResolvedValue({ count: 2 });
+
+      const response = await request(app)
+        .post('/api/chats/threads/thread-1/keys')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ key_version: 2, keys: wrappedKeys })
+        .expect(201);
+
+      expect(response.body.key_version).toBe(2);
+      expect(prisma.chatThreadKey.createMany).toHaveBeenCalled();
+      expect(mockIo.to).toHaveBeenCalledWith('thread:thread-1');
+    });
+
+    it('should return 409 when the version is stale', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+        key_version: 3,
+      });
+
+      const response = await request(app)
+        .post('/api/chats/threads/thread-1/keys')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ key_version: 2, keys: wrappedKeys })
+        .expect(409);
+
+      expect(response.body.key_version).toBe(3);
+      expect(prisma.chatThreadKey.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when wrapping for a non-participant', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+        key_version: 1,
+      });
+
+      const response = await request(app)
+        .post('/api/chats/threads/thread-1/keys')
+        .set('Authorization', 'Bearer mock_token')
+        .send({
+          key_version: 2,
+          keys: [{ user_id: 'user-9', device_id: 'device-9', wrapped_key: 'x', ephemeral_public_key: 'epk' }],
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Keys can only be wrapped for thread participants');
+    });
+  });
+
+  describe('Group management', () => {
+    const groupThread = {
+      id: 'thread-1',
+      type: 'group',
+      name: 'Team',
+      avatar_url: null,
+      participants: [global.mockUser.id, 'user-2', 'user-3'],
+      admins: [global.mockUser.id],
+      updated_at: new Date(),
+    };
+    const members = [
+      { id: global.mockUser.id, username: 'testuser', full_name: 'Test User', profile: null },
+      { id: 'user-2', username: 'user2', full_name: 'User 2', profile: null },
+      { id: 'user-3', username: 'user3', full_name: 'User 3', profile: null },
+    ];
+
+    beforeEach(() => {
+      prisma.user.findMany.mockResolvedValue(members);
+      prisma.message.create.mockResolvedValue({ id: 'system-1', type: 'system' });
+    });
+
+    it('should rename a group and post a system message', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue(groupThread);
+      prisma.chatThread.update.mockResolvedValue({ ...groupThread, name: 'New name' });
+
+      const response = await request(app)
+        .patch('/api/chats/threads/thread-1/group')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ name: 'New name' })
+        .expect(200);
+
+      expect(response.body.thread.name).toBe('New name');
+      expect(response.body.members).toHaveLength(3);
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'system',
+            content: expect.stringContaining('renamed the group to "New name"'),
+          }),
+        })
+      );
+      expect(mockIo.emit).toHaveBeenCalledWith('thread.updated', { thread_id: 'thread-1' });
+    });
+
+    it('should only let admins change group settings', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({ ...groupThread, admins: ['user-2'] });
+
+      const response = await request(app)
+        .patch('/api/chats/threads/thread-1/group')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ name: 'New name' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Only group admins can do this');
+      expect(prisma.chatThread.update).not.toHaveBeenCalled();
+    });
+
+    it('should add new members only', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue(groupThread);
+      prisma.user.findMany
+        .mockResolvedValueOnce([{ id: 'user-4', username: 'user4', full_name: 'User 4' }])
+        .mockResolvedValue(members);
+      prisma.chatThread.update.mockResolvedValue({
+        ...groupThread,
+        participants: [...groupThread.participants, 'user-4'],
+      });
+
+      await request(app)
+        .post('/api/chats/threads/thread-1/participants')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ user_ids: ['user-2', 'user-4'] })
+        .expect(200);
+
+      expect(prisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: ['user-4'] } } })
+      );
+      expect(prisma.chatThread.update).toHaveBeenCalledWith({
+        where: { id: 'thread-1' },
+        data: { participants: [global.mockUser.id, 'user-2', 'user-3', 'user-4'] },
+      });
+    });
+
+    it('should hand admin rights on when the last admin leaves', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue(groupThread);
+      prisma.chatThread.update.mockResolvedValue({});
+      prisma.user.findUnique.mockResolvedValue(members[1]);
+
+      const response = await request(app)
+        .delete(`/api/chats/threads/thread-1/participants/${global.mockUser.id}`)
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.message).toBe('Left group');
+      expect(prisma.chatThread.update).toHaveBeenCalledWith({
+        where: { id: 'thread-1' },
+        data: { participants: ['user-2', 'user-3'], admins: ['user-2'] },
+      });
+      expect(mockIo.socketsLeave).toHaveBeenCalledWith('thread:thread-1');
+    });
+
+    it('should lock the thread and work from the member list inside the lock', async () => {
+      // user-4 was added after the admin opened the request
+      prisma.chatThread.findUnique.mockResolvedValue({
+        ...groupThread,
+        participants: [...groupThread.participants, 'user-4'],
+      });
+      prisma.chatThread.update.mockResolvedValue(groupThread);
+      prisma.user.findUnique.mockResolvedValue(members[2]);
+
+      await request(app)
+        .delete('/api/chats/threads/thread-1/participants/user-3')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.chatThread.update).toHaveBeenCalledWith({
+        where: { id: 'thread-1' },
+        data: { participants: [global.mockUser.id, 'user-2', 'user-4'], admins: [global.mockUser.id] },
+      });
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ content: 'Test User removed User 3' }),
+        })
+      );
+    });
+
+    it('should refuse the change when the user stopped being an admin meanwhile', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({ ...groupThread, admins: ['user-2'] });
+
+      const response = await request(app)
+        .post('/api/chats/threads/thread-1/admins')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ user_id: 'user-3' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Only group admins can do this');
+      expect(prisma.chatThread.update).not.toHaveBeenCalled();
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('should not let members remove others', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({ ...groupThread, admins: ['user-2'] });
+
+      await request(app)
+        .delete('/api/chats/threads/thread-1/participants/user-3')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(403);
+
+      expect(prisma.chatThread.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep at least one admin', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue(groupThread);
+
+      const response = await request(app)
+        .delete(`/api/chats/threads/thread-1/admins/${global.mockUser.id}`)
+        .set('Authorization', 'Bearer mock_token')
+        .expect(400);
+
+      expect(response.body.error).toBe('A group needs at least one admin');
+    });
+  });
+});
@@ -3,17 +3,17 @@ const express = require('express');
 const commentsRoutes = require('../../routes/comments');
 const prisma = require('../../prisma/client');
 const authMiddleware = require('../../middleware/auth');
+const { verifyToken } = require('../../utils/jwt');
+const { createMockIo } = require('../mockIo');
 
 jest.mock('../../prisma/client');
+jest.mock('../../utils/jwt');
 jest.mock('../../middleware/auth', () => (req, res, next) => {
   req.user = global.mockUser;
   next();
 });
 
-const mockIo = {
-  to: jest.fn().mockReturnThis(),
-  emit: jest.fn(),
-};
+const mockIo = createMockIo();
 
 const app = express();
 app.use(express.json());
@@ -130,6 +130,20 @@ describe('Comments Routes', () => {
 
       expect(response.body.error).toBe('Post ID and content are required');
     });
+
+    it('should return 403 when the post author and commenter have blocked each other', async () => {
+      prisma.post.findUnique.mockResolvedValueOnce({ user_id: 'blocker-1' });
+      prisma.userBlock.findFirst.mockResolvedValueOnce({ id: 'block-1' });
+
+      const response = await request(app)
+        .post('/api/comments')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ post_id: 'post-1', content: 'Hello' })
+        .expect(403);
+
+      expect(response.body.error).toBe('You cannot comment on this post');
+      expect(prisma.comment.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /api/comments/post/:postId', () => {
@@ -159,6 +173,94 @@ describe('Comments Routes', () => {
       expect(response.body).toHaveProperty('comments');
       expect(Array.isArray(response.body.comments)).toBe(true);
     });
+
+    it('should leave out comments by blocked and muted users', async () => {
+      verifyToken.mockReturnValueOnce({ id: global.mockUser.id });
+      prisma.userBlock.findMany.mockResolvedValueOnce([
+        { blocker_id: 'user-2', blocked_id: global.mockUser.id },
+      ]);
+      prisma.userMute.findMany.mockResolvedValueOnce([{ muted_id: 'user-3' }]);
+      prisma.comment.findMany.mockResolvedValueOnce([]);
+
+      await request(app)
+        .get('/api/comments/post/post-1')
+        .set('Authorization', 'Bearer viewer_token')
+        .expect(200);
+
+      expect(prisma.comment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { post_id: 'post-1', user_id: { notIn: ['user-2', 'user-3'] } },
+        })
+      );
+    });
+  });
+
+  describe('PATCH /api/comments/:commentId', () => {
+    it('should edit a comment and keep the previous version', async () => {
+      const comment = {
+        id: 'comment-1',
+        post_id: 'post-1',
+        user_id: global.mockUser.id,
+        content: 'Old comment',
+      };
+
+      prisma.comment.findUnique.mockResolvedValue(comment);
+      prisma.commentRevision.create.mockResolvedValue({});
+      prisma.comment.update.mockResolvedValue({
+        ...comment,
+        content: 'New comment',
+        edited_at: new Date(),
+      });
+
+      const response = await request(app)
+        .patch('/api/comments/comment-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: 'New comment' })
+        .expect(200);
+
+      expect(response.body.content).toBe('New comment');
+      expect(prisma.commentRevision.create).toHaveBeenCalledWith({
+        data: { comment_id: 'comment-1', content: 'Old comment' },
+      });
+      expect(mockIo.emit).toHaveBeenCalledWith('comment.updated', expect.any(Object));
+    });
+
+    it('should return 403 if user does not own comment', async () => {
+      prisma.comment.findUnique.mockResolvedValue({
+        id: 'comment-1',
+        post_id: 'post-1',
+        user_id: 'other-user-id',
+        content: 'Old comment',
+      });
+
+      await request(app)
+        .patch('/api/comments/comment-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: 'New comment' })
+        .expect(403);
+
+      expect(prisma.comment.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/comments/:commentId/revisions', () => {
+    it('should return the revision log to the author', async () => {
+      prisma.comment.findUnique.mockResolvedValue({
+        id: 'comment-1',
+        user_id: global.mockUser.id,
+      });
+      prisma.commentRevision.findMany.mockResolvedValue([
+        { id: 'rev-1', comment_id: 'comment-1', content: 'Old comment', created_at: new Date() },
+      ]);
+
+      const response = await request(app)
+        .get('/api/comments/comment-1/revisions')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.revisions).toHaveLength(1);
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
   });
 
   describe('DELETE /api/comments/:commentId', () => {
@@ -0,0 +1,797 @@
+const request = require('supertest');
+const express = require('express');
+const liveRoutes = require('../../routes/live');
+const prisma = require('../../prisma/client');
+const daily = require('../../services/daily');
+const { sendPushToUser } = require('../../services/push');
+const { createMockIo } = require('../mockIo');
+
+jest.mock('../../prisma/client');
+jest.mock('../../services/daily', () => ({
+  createRoom: jest.fn(),
+  createMeetingToken: jest.fn(),
+  extractRoomName: jest.fn(),
+  deleteRoom: jest.fn(),
+  ejectParticipants: jest.fn(),
+  verifyWebhookSignature: jest.fn(),
+}));
+jest.mock('../../services/push', () => ({
+  sendPushToUser: jest.fn().mockResolvedValue(true),
+}));
+jest.mock('../../middleware/auth', () => (req, res, next) => {
+  req.user = global.mockUser;
+  next();
+});
+
+const mockIo = createMockIo();
+
+const app = express();
+app.use('/api/live/daily-webhook', express.raw({ type: 'application/json' }));
+app.use(express.json());
+app.set('io', mockIo);
+app.use('/api/live', liveRoutes);
+
+const liveSession = {
+  id: 'live-1',
+  host_id: 'host-1',
+  type: 'live',
+  status: 'active',
+  slow_mode_seconds: 0,
+  moderator_ids: [],
+  banned_user_ids: [],
+  participants: ['host-1', 'user-1', 'user-2'],
+};
+
+describe('Live Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/live/:sessionId/chat', () => {
+    it('should save the message and send it to the stream room', async () => {
+      const message = { id: 'msg-1', session_id: 'live-1', user_id: 'user-1', content: 'Hello!' };
+      prisma.callSession.findUnique.mockResolvedValueOnce(liveSession);
+      prisma.liveChatMessage.create.mockResolvedValueOnce(message);
+
+      const response = await request(app)
+        .post('/api/live/live-1/chat')
+        .send({ content: '  Hello!  ' })
+        .expect(201);
+
+      expect(response.body).toEqual(message);
+      expect(prisma.liveChatMessage.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { session_id: 'live-1', user_id: 'user-1', content: 'Hello!' },
+        })
+      );
+      expect(mockIo.to).toHaveBeenCalledWith('live:live-1');
+      expect(mockIo.emit).toHaveBeenCalledWith('live.chat.message', message);
+    });
+
+    it('should reject messages from banned viewers', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({
+        ...liveSession,
+        banned_user_ids: ['user-1'],
+      });
+
+      await request(app).post('/api/live/live-1/chat').send({ content: 'Hi' }).expect(403);
+
+      expect(prisma.liveChatMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce slow mode for viewers', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({ ...liveSession, slow_mode_seconds: 30 });
+      prisma.liveChatMessage.findFirst.mockResolvedValueOnce({
+        created_at: new Date(Date.now() - 10000),
+      });
+
+      const response = await request(app)
+        .post('/api/live/live-1/chat')
+        .send({ content: 'Again' })
+        .expect(429);
+
+      expect(response.body.retryAfter).toBe(20);
+      expect(prisma.liveChatMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('should let moderators skip slow mode', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({
+        ...liveSession,
+        slow_mode_seconds: 30,
+        moderator_ids: ['user-1'],
+      });
+      prisma.liveChatMessage.create.mockResolvedValueOnce({ id: 'msg-2' });
+
+      await request(app).post('/api/live/live-1/chat').send({ content: 'Mod here' }).expect(201);
+
+      expect(prisma.liveChatMessage.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/live/:sessionId/chat/:messageId', () => {
+    it('should let a moderator delete anyone\'s message', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({ ...liveSession, moderator_ids: ['user-1'] });
+      prisma.liveChatMessage.findUnique.mockResolvedValueOnce({
+        id: 'msg-9',
+        session_id: 'live-1',
+        user_id: 'user-2',
+      });
+      prisma.liveChatMessage.delete.mockResolvedValueOnce({});
+
+      await request(app).delete('/api/live/live-1/chat/msg-9').expect(200);
+
+      expect(mockIo.emit).toHaveBeenCalledWith('live.chat.deleted', {
+        sessionId: 'live-1',
+        messageId: 'msg-9',
+      });
+    });
+
+    it('should not let viewers delete other people\'s messages', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce(liveSession);
+      prisma.liveChatMessage.findUnique.mockResolvedValueOnce({
+        id: 'msg-9',
+        session_id: 'live-1',
+        user_id: 'user-2',
+      });
+
+      await request(app).delete('/api/live/live-1/chat/msg-9').expect(403);
+
+      expect(prisma.liveChatMessage.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/live/:sessionId/bans', () => {
+    it('should ban the viewer, remove their messages and drop them from the room', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({ ...liveSession, host_id: 'user-1' });
+      prisma.callSession.update.mockResolvedValueOnce({
+        ...liveSession,
+        host_id: 'user-1',
+        banned_user_ids: ['user-2'],
+      });
+      prisma.liveChatMessage.deleteMany.mockResolvedValueOnce({ count: 3 });
+
+      await request(app).post('/api/live/live-1/bans').send({ user_id: 'user-2' }).expect(200);
+
+      expect(prisma.callSession.update).toHaveBeenCalledWith({
+        where: { id: 'live-1' },
+        data: expect.objectContaining({
+          banned_user_ids: ['user-2'],
+          participants: ['host-1', 'user-1'],
+        }),
+      });
+      expect(prisma.liveChatMessage.deleteMany).toHaveBeenCalledWith({
+        where: { session_id: 'live-1', user_id: 'user-2' },
+      });
+      expect(mockIo.emit).toHaveBeenCalledWith('live.user.banned', {
+        sessionId: 'live-1',
+        userId: 'user-2',
+      });
+      expect(mockIo.in).toHaveBeenCalledWith('user:user-2');
+      expect(mockIo.socketsLeave).toHaveBeenCalledWith('live:live-1');
+    });
+
+    describe('with Daily.co configured', () => {
+      const originalApiKey = process.env.DAILY_API_KEY;
+      const streamSession = {
+        ...liveSession,
+        host_id: 'user-1',
+        daily_room_url: 'https://kartess.daily.co/room',
+      };
+
+      beforeEach(() => {
+        process.env.DAILY_API_KEY = 'test-key';
+      });
+
+      afterAll(() => {
+        process.env.DAILY_API_KEY = originalApiKey;
+      });
+
+      it('should eject the banned viewer and refuse them a new token', async () => {
+        prisma.callSession.findUnique.mockResolvedValueOnce(streamSession);
+        prisma.callSession.update.mockResolvedValueOnce({ ...streamSession, banned_user_ids: ['user-2'] });
+        prisma.liveChatMessage.deleteMany.mockResolvedValueOnce({ count: 0 });
+        daily.extractRoomName.mockReturnValueOnce('room');
+        daily.ejectParticipants.mockResolvedValueOnce({});
+
+        await request(app).post('/api/live/live-1/bans').send({ user_id: 'user-2' }).expect(200);
+
+        expect(daily.ejectParticipants).toHaveBeenCalledWith('room', ['user-2']);
+
+        // user-2 comes back through the API
+        const mockUser = global.mockUser;
+        global.mockUser = { ...mockUser, id: 'user-2' };
+        prisma.callSession.findUnique.mockResolvedValueOnce({ ...streamSession, banned_user_ids: ['user-2'] });
+        try {
+          await request(app).post('/api/live/join/live-1').expect(403);
+        } finally {
+          global.mockUser = mockUser;
+        }
+
+        expect(daily.createMeetingToken).not.toHaveBeenCalled();
+      });
+
+      it('should still ban the viewer when Daily.co cannot eject them', async () => {
+        prisma.callSession.findUnique.mockResolvedValueOnce(streamSession);
+        prisma.callSession.update.mockResolvedValueOnce({ ...streamSession, banned_user_ids: ['user-2'] });
+        prisma.liveChatMessage.deleteMany.mockResolvedValueOnce({ count: 0 });
+        daily.extractRoomName.mockReturnValueOnce('room');
+        daily.ejectParticipants.mockRejectedValueOnce(new Error('Daily.co unavailable'));
+
+        await request(app).post('/api/live/live-1/bans').send({ user_id: 'user-2' }).expect(200);
+      });
+    });
+
+    it('should only let the host ban a moderator', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({
+        ...liveSession,
+        moderator_ids: ['user-1', 'user-2'],
+      });
+
+      await request(app).post('/api/live/live-1/bans').send({ user_id: 'user-2' }).expect(403);
+
+      expect(prisma.callSession.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let viewers ban anyone', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce(liveSession);
+
+      await request(app).post('/api/live/live-1/bans').send({ user_id: 'user-2' }).expect(403);
+    });
+  });
+
+  describe('PATCH /api/live/:sessionId/chat/settings', () => {
+    it('should turn on slow mode and tell the room', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({ ...liveSession, host_id: 'user-1' });
+      prisma.callSession.update.mockResolvedValueOnce({
+        ...liveSession,
+        host_id: 'user-1',
+        slow_mode_seconds: 10,
+      });
+
+      const response = await request(app)
+        .patch('/api/live/live-1/chat/settings')
+        .send({ slow_mode_seconds: 10 })
+        .expect(200);
+
+      expect(response.body).toEqual({ slow_mode_seconds: 10, moderator_ids: [] });
+      expect(mockIo.emit).toHaveBeenCalledWith('live.chat.settings', {
+        sessionId: 'live-1',
+        slowModeSeconds: 10,
+        moderatorIds: [],
+      });
+    });
+  });
+
+  describe('POST /api/live/join/:sessionId', () => {
+    it('should refuse viewers banned from the stream', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({
+        ...liveSession,
+        daily_room_url: 'https://kartess.daily.co/room',
+        banned_user_ids: ['user-1'],
+      });
+
+      await request(app).post('/api/live/join/live-1').expect(403);
+    });
+
+    it('should give viewers a short-lived token tied to their user ID', async () => {
+      const originalApiKey = process.env.DAILY_API_KEY;
+      process.env.DAILY_API_KEY = 'test-key';
+      prisma.callSession.findUnique.mockResolvedValueOnce({
+        ...liveSession,
+        daily_room_url: 'https://kartess.daily.co/room',
+      });
+      daily.extractRoomName.mockReturnValueOnce('room');
+      prisma.user.findUnique.mockResolvedValueOnce({ id: 'user-1', username: 'alex', full_name: 'Alex' });
+      daily.createMeetingToken.mockResolvedValueOnce('viewer-token');
+
+      try {
+        const response = await request(app).post('/api/live/join/live-1').expect(200);
+        expect(response.body.token).toBe('viewer-token');
+      } finally {
+        process.env.DAILY_API_KEY = originalApiKey;
+      }
+
+      const [, properties] = daily.createMeetingToken.mock.calls[0];
+      expect(properties).toEqual(expect.objectContaining({ is_owner: false, user_id: 'user-1' }));
+      expect(properties.exp - Date.now() / 1000).toBeLessThanOrEqual(10 * 60);
+    });
+  });
+
+  describe('POST /api/live/schedule', () => {
+    it('should save a scheduled stream without creating a room', async () => {
+      const scheduledAt = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+      prisma.callSession.create.mockResolvedValueOnce({ id: 'live-2', status: 'scheduled' });
+
+      await request(app)
+        .post('/api/live/schedule')
+        .send({ title: 'Friday jam', category: 'Music', scheduled_at: scheduledAt })
+        .expect(201);
+
+      expect(prisma.callSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          host_id: 'user-1',
+          type: 'live',
+          status: 'scheduled',
+          scheduled_at: new Date(scheduledAt),
+        }),
+      });
+      expect(daily.createRoom).not.toHaveBeenCalled();
+    });
+
+    it('should reject times in the past', async () => {
+      await request(app)
+        .post('/api/live/schedule')
+        .send({ title: 'Too late', scheduled_at: '2020-01-01T00:00:00Z' })
+        .expect(400);
+
+      expect(prisma.callSession.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/live/start/:sessionId', () => {
+    const originalApiKey = process.env.DAILY_API_KEY;
+
+    beforeEach(() => {
+      process.env.DAILY_API_KEY = 'test-key';
+    });
+
+    afterAll(() => {
+      process.env.DAILY_API_KEY = originalApiKey;
+    });
+
+    it('should go live and notify contacts and RSVP\'d viewers', async () => {
+      const scheduled = { ...liveSession, host_id: 'user-1', status: 'scheduled', title: 'Friday jam' };
+      prisma.callSession.findUnique.mockResolvedValueOnce(scheduled);
+      daily.createRoom.mockResolvedValueOnce({ name: 'room-1', url: 'https://kartess.daily.co/room-1' });
+      daily.createMeetingToken.mockResolvedValueOnce('owner-token');
+      prisma.callSession.update.mockResolvedValueOnce({
+        ...scheduled,
+        status: 'active',
+        daily_room_url: 'https://kartess.daily.co/room-1',
+      });
+      prisma.contact.findMany.mockResolvedValueOnce([
+        { sender_id: 'user-1', receiver_id: 'contact-1' },
+      ]);
+      prisma.liveStreamRsvp.findMany.mockResolvedValueOnce([
+        { user_id: 'fan-1' },
+        { user_id: 'contact-1' },
+      ]);
+      prisma.user.findUnique.mockResolvedValueOnce({ id: 'user-1', full_name: 'Test User' });
+      prisma.notification.create.mockResolvedValue({});
+
+      const response = await request(app).post('/api/live/start/live-1').expect(200);
+
+      expect(response.body.token).toBe('owner-token');
+      expect(prisma.callSession.update).toHaveBeenCalledWith({
+        where: { id: 'live-1' },
+        data: expect.objectContaining({ status: 'active', daily_token: 'owner-token' }),
+      });
+      expect(prisma.notification.create).toHaveBeenCalledTimes(2);
+      expect(mockIo.to).toHaveBeenCalledWith('user:fan-1');
+      expect(mockIo.emit).toHaveBeenCalledWith(
+        'live.stream.started',
+        expect.objectContaining({ sessionId: 'live-1', title: 'Friday jam', rsvped: true })
+      );
+      expect(sendPushToUser).toHaveBeenCalledTimes(2);
+      expect(sendPushToUser).toHaveBeenCalledWith('fan-1', {
+        title: 'Live Stream Started',
+        message: 'Test User is now live streaming: Friday jam',
+        link: '/live/live-1',
+      });
+    });
+
+    it('should only let the host start the stream', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({ ...liveSession, status: 'scheduled' });
+
+      await request(app).post('/api/live/start/live-1').expect(403);
+
+      expect(daily.createRoom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/live/:sessionId/rsvp', () => {
+    it('should RSVP to a scheduled stream', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({ ...liveSession, status: 'scheduled' });
+      prisma.liveStreamRsvp.upsert.mockResolvedValueOnce({});
+      prisma.liveStreamRsvp.count.mockResolvedValueOnce(4);
+
+      const response = await request(app).post('/api/live/live-1/rsvp').expect(200);
+
+      expect(response.body).toEqual({ rsvped: true, rsvp_count: 4 });
+      expect(prisma.liveStreamRsvp.upsert).toHaveBeenCalledWith({
+        where: { session_id_user_id: { session_id: 'live-1', user_id: 'user-1' } },
+        create: { session_id: 'live-1', user_id: 'user-1' },
+        update: {},
+      });
+    });
+
+    it('should not RSVP to a stream that already started', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce(liveSession);
+
+      await request(app).post('/api/live/live-1/rsvp').expect(400);
+    });
+  });
+
+  describe('GET /api/live/upcoming', () => {
+    it('should list scheduled streams in a category with RSVP state', async () => {
+      prisma.callSession.findMany.mockResolvedValueOnce([
+        {
+          id: 'live-2',
+          host_id: 'host-1',
+          type: 'live',
+          status: 'scheduled',
+          daily_token: null,
+          _count: { rsvps: 3 },
+          rsvps: [{ id: 'rsvp-1' }],
+        },
+      ]);
+      prisma.user.findMany.mockResolvedValueOnce([{ id: 'host-1', full_name: 'Host' }]);
+
+      const response = await request(app).get('/api/live/upcoming?category=Music').expect(200);
+
+      expect(prisma.callSession.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: 'scheduled', category: 'Music' }),
+          orderBy: { scheduled_at: 'asc' },
+        })
+      );
+      expect(response.body.sessions).toEqual([
+        {
+          id: 'live-2',
+          host_id: 'host-1',
+          type: 'live',
+          status: 'scheduled',
+          host: { id: 'host-1', full_name: 'Host' },
+          rsvp_count: 3,
+          rsvped: true,
+        },
+      ]);
+    });
+  });
+
+  describe('POST /api/live/end/:sessionId', () => {
+    const ringingCall = {
+      id: 'call-1',
+      host_id: 'user-1',
+      type: 'call',
+      thread_id: 'thread-1',
+      call_type: 'voice',
+      status: 'active',
+      call_status: 'ringing',
+      answered_at: null,
+      participants: ['user-1'],
+    };
+
+    it('should stop the ringing and log a missed call when the caller hangs up', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce(ringingCall);
+      prisma.callSession.update.mockResolvedValueOnce({
+        ...ringingCall,
+        status: 'ended',
+        call_status: 'ended',
+        ended_at: new Date(),
+      });
+      // Once to notify the thread, once to log the call
+      prisma.chatThread.findUnique
+        .mockResolvedValueOnce({ participants: ['user-1', 'user-2'] })
+        .mockResolvedValueOnce({ participants: ['user-1', 'user-2'] });
+      prisma.message.create.mockResolvedValueOnce({ id: 'msg-1', user: { full_name: 'Test User' } });
+      prisma.notification.create.mockResolvedValue({});
+
+      await request(app).post('/api/live/end/call-1').expect(200);
+
+      expect(mockIo.to).toHaveBeenCalledWith('user:user-2');
+      expect(mockIo.emit).toHaveBeenCalledWith('call.ended', { sessionId: 'call-1', endedBy: 'user-1' });
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ type: 'call', content: 'Missed voice call' }),
+        })
+      );
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ user_id: 'user-2', type: 'missed_call' }),
+      });
+    });
+
+    it('should not log a call twice', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce({ ...ringingCall, status: 'ended' });
+      prisma.callSession.update.mockResolvedValueOnce({ ...ringingCall, status: 'ended' });
+      prisma.chatThread.findUnique.mockResolvedValueOnce({ participants: ['user-1', 'user-2'] });
+
+      await request(app).post('/api/live/end/call-1').expect(200);
+
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/live/calls', () => {
+    it('should list calls from the user\'s threads with how they went', async () => {
+      prisma.chatThread.findMany.mockResolvedValueOnce([
+        { id: 'thread-1', type: '1:1', name: null, avatar_url: null, participants: ['user-1', 'user-2'] },
+        { id: 'thread-2', type: '1:1', name: null, avatar_url: null, participants: ['user-3', 'user-4'] },
+      ]);
+      prisma.callSession.findMany.mockResolvedValueOnce([
+        {
+          id: 'call-2',
+          host_id: 'user-2',
+          thread_id: 'thread-1',
+          call_type: 'video',
+          call_status: 'ended',
+          status: 'ended',
+          answered_at: null,
+          ended_at: new Date('2026-10-19T10:00:30Z'),
+          participants: ['user-2'],
+        },
+        {
+          id: 'call-1',
+          host_id: 'user-1',
+          thread_id: 'thread-1',
+          call_type: 'voice',
+          call_status: 'ended',
+          status: 'ended',
+          answered_at: new Date('2026-10-19T09:00:00Z'),
+          ended_at: new Date('2026-10-19T09:01:30Z'),
+          participants: ['user-1', 'user-2'],
+        },
+      ]);
+      prisma.user.findMany.mockResolvedValueOnce([
+        { id: 'user-1', full_name: 'Test User' },
+        { id: 'user-2', full_name: 'Other User' },
+      ]);
+
+      const response = await request(app).get('/api/live/calls').expect(200);
+
+      expect(prisma.callSession.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { type: 'call', thread_id: { in: ['thread-1'] } },
+        })
+      );
+      expect(response.body.calls).toMatchObject([
+        {
+          id: 'call-2',
+          direction: 'incoming',
+          outcome: 'missed',
+          duration_seconds: null,
+          host: { id: 'user-2' },
+          thread: { id: 'thread-1', participants: [{ id: 'user-2' }] },
+        },
+        { id: 'call-1', direction: 'outgoing', outcome: 'completed', duration_seconds: 90 },
+      ]);
+      expect(response.body.nextCursor).toBeNull();
+    });
+  });
+
+  describe('group calls', () => {
+    const groupCall = {
+      id: 'call-3',
+      host_id: 'user-2',
+      type: 'call',
+      thread_id: 'group-1',
+      call_type: 'video',
+      status: 'active',
+      call_status: 'ringing',
+      answered_at: null,
+      daily_room_url: 'https://kartess.daily.co/room_1',
+      participants: ['user-2'],
+      active_participant_ids: ['user-2'],
+    };
+    const groupThread = { type: 'group', participants: ['user-1', 'user-2', 'user-3'] };
+    const originalApiKey = process.env.DAILY_API_KEY;
+
+    beforeEach(() => {
+      process.env.DAILY_API_KEY = 'test-key';
+    });
+
+    afterAll(() => {
+      process.env.DAILY_API_KEY = originalApiKey;
+    });
+
+    it('should point to the call already in progress instead of starting another', async () => {
+      prisma.chatThread.findUnique.mockResolvedValueOnce(groupThread);
+      prisma.callSession.findFirst.mockResolvedValueOnce({ id: 'call-3' });
+
+      const response = await request(app)
+        .post('/api/live/create')
+        .send({ type: 'video', thread_id: 'group-1' })
+        .expect(409);
+
+      expect(response.body.sessionId).toBe('call-3');
+      expect(daily.createRoom).not.toHaveBeenCalled();
+    });
+
+    it('should let a member join and tell the thread who is in the call', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce(groupCall).mockResolvedValueOnce(groupCall);
+      prisma.chatThread.findUnique.mockResolvedValueOnce(groupThread);
+      daily.extractRoomName.mockReturnValueOnce('room_1');
+      daily.createMeetingToken.mockResolvedValueOnce('token-1');
+      prisma.callSession.update.mockImplementationOnce(({ data }) =>
+        Promise.resolve({ ...groupCall, ...data })
+      );
+
+      const response = await request(app).post('/api/live/join/call-3').expect(200);
+
+      expect(prisma.callSession.update).toHaveBeenCalledWith({
+        where: { id: 'call-3' },
+        data: {
+          participants: ['user-2', 'user-1'],
+          active_participant_ids: ['user-2', 'user-1'],
+          answered_at: expect.any(Date),
+          call_status: 'accepted',
+        },
+      });
+      expect(response.body.token).toBe('token-1');
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(mockIo.to).toHaveBeenCalledWith('thread:group-1');
+      expect(mockIo.emit).toHaveBeenCalledWith('call.group.updated', {
+        sessionId: 'call-3',
+        threadId: 'group-1',
+        callType: 'video',
+        status: 'active',
+        activeParticipantIds: ['user-2', 'user-1'],
+      });
+    });
+
+    it('should not join a call that ended while the token was made', async () => {
+      prisma.callSession.findUnique
+        .mockResolvedValueOnce(groupCall)
+        .mockResolvedValueOnce({ ...groupCall, status: 'ended' });
+      prisma.chatThread.findUnique.mockResolvedValueOnce(groupThread);
+      daily.extractRoomName.mockReturnValueOnce('room_1');
+      daily.createMeetingToken.mockResolvedValueOnce('token-1');
+
+      await request(app).post('/api/live/join/call-3').expect(400);
+
+      expect(prisma.callSession.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let people outside the thread join', async () => {
+      prisma.callSession.findUnique.mockResolvedValueOnce(groupCall);
+      prisma.chatThread.findUnique.mockResolvedValueOnce({ type: 'group', participants: ['user-2'] });
+
+      await request(app).post('/api/live/join/call-3').expect(403);
+    });
+
+    it('should keep the call going while others remain', async () => {
+      const inCall = { ...groupCall, active_participant_ids: ['user-2', 'user-1'] };
+      prisma.callSession.findUnique.mockResolvedValueOnce(inCall).mockResolvedValueOnce(inCall);
+      prisma.callSession.update.mockImplementationOnce(({ data }) =>
+        Promise.resolve({ ...groupCall, ...data })
+      );
+
+      await request(app).post('/api/live/leave/call-3').expect(200);
+
+      expect(prisma.callSession.update).toHaveBeenCalledWith({
+        where: { id: 'call-3' },
+        data: { active_participant_ids: ['user-2'] },
+      });
+      expect(daily.deleteRoom).not.toHaveBeenCalled();
+    });
+
+    it('should end the call when the last person leaves', async () => {
+      const lastOneIn = {
+        ...groupCall,
+        answered_at: new Date(),
+        participants: ['user-2', 'user-1'],
+        active_participant_ids: ['user-1'],
+      };
+      prisma.callSession.findUnique.mockResolvedValueOnce(lastOneIn).mockResolvedValueOnce(lastOneIn);
+      daily.extractRoomName.mockReturnValueOnce('room_1');
+      prisma.callSession.update.mockImplementationOnce(({ data }) =>
+        Promise.resolve({ ...groupCall, ...data })
+      );
+      prisma.chatThread.findUnique.mockResolvedValueOnce(groupThread);
+      prisma.message.create.mockResolvedValueOnce({ id: 'msg-1', user: null });
+
+      await request(app).post('/api/live/leave/call-3').expect(200);
+
+      expect(daily.deleteRoom).toHaveBeenCalledWith('room_1');
+      expect(prisma.callSession.update).toHaveBeenCalledWith({
+        where: { id: 'call-3' },
+        data: expect.objectContaining({ status: 'ended', active_participant_ids: [] }),
+      });
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ type: 'call' }) })
+      );
+    });
+
+    it('should end the call when the other member left at the same moment', async () => {
+      // user-2's leave committed between this request's first read and its locked re-read
+      prisma.callSession.findUnique
+        .mockResolvedValueOnce({ ...groupCall, active_participant_ids: ['user-2', 'user-1'] })
+        .mockResolvedValueOnce({ ...groupCall, active_participant_ids: ['user-1'] });
+      daily.extractRoomName.mockReturnValueOnce('room_1');
+      prisma.callSession.update.mockImplementationOnce(({ data }) =>
+        Promise.resolve({ ...groupCall, ...data })
+      );
+      prisma.chatThread.findUnique.mockResolvedValueOnce(groupThread);
+      prisma.message.create.mockResolvedValueOnce({ id: 'msg-1', user: null });
+
+      await request(app).post('/api/live/leave/call-3').expect(200);
+
+      expect(prisma.callSession.update).toHaveBeenCalledWith({
+        where: { id: 'call-3' },
+        data: expect.objectContaining({ status: 'ended', active_participant_ids: [] }),
+      });
+      expect(daily.deleteRoom).toHaveBeenCalledWith('room_1');
+    });
+  });
+
+  describe('POST /api/live/daily-webhook', () => {
+    const originalSecret = process.env.DAILY_WEBHOOK_SECRET;
+    const groupCall = {
+      id: 'call-3',
+      host_id: 'user-2',
+      type: 'call',
+      thread_id: 'group-1',
+      call_type: 'video',
+      status: 'active',
+      daily_room_url: 'https://kartess.daily.co/room_1',
+      participants: ['user-2', 'user-1', 'user-3'],
+      active_participant_ids: ['user-2', 'user-3'],
+    };
+
+    function sendEvent(event) {
+      return request(app)
+        .post('/api/live/daily-webhook')
+        .set('Content-Type', 'application/json')
+        .set('X-Webhook-Timestamp', '1760000000')
+        .set('X-Webhook-Signature', 'signature')
+        .send(JSON.stringify(event));
+    }
+
+    beforeEach(() => {
+      process.env.DAILY_WEBHOOK_SECRET = 'c2VjcmV0';
+    });
+
+    afterAll(() => {
+      process.env.DAILY_WEBHOOK_SECRET = originalSecret;
+    });
+
+    it('should take a member who dropped out of the group call', async () => {
+      daily.verifyWebhookSignature.mockReturnValueOnce(true);
+      prisma.callSession.findFirst.mockResolvedValueOnce({ id: 'call-3' });
+      prisma.callSession.findUnique.mockResolvedValueOnce(groupCall);
+      prisma.callSession.update.mockImplementationOnce(({ data }) =>
+        Promise.resolve({ ...groupCall, ...data })
+      );
+      const event = { type: 'participant.left', payload: { room: 'room_1', user_id: 'user-3' } };
+
+      await sendEvent(event).expect(200);
+
+      expect(daily.verifyWebhookSignature).toHaveBeenCalledWith(
+        JSON.stringify(event),
+        '1760000000',
+        'signature'
+      );
+      expect(prisma.callSession.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ daily_room_url: { endsWith: '/room_1' } }),
+        })
+      );
+      expect(prisma.callSession.update).toHaveBeenCalledWith({
+        where: { id: 'call-3' },
+        data: { active_participant_ids: ['user-2'] },
+      });
+      expect(mockIo.emit).toHaveBeenCalledWith(
+        'call.group.updated',
+        expect.objectContaining({ activeParticipantIds: ['user-2'] })
+      );
+    });
+
+    it('should reject events with a bad signature', async () => {
+      daily.verifyWebhookSignature.mockReturnValueOnce(false);
+
+      await sendEvent({ type: 'participant.left', payload: { room: 'room_1', user_id: 'user-3' } }).expect(
+        401
+      );
+
+      expect(prisma.callSession.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should acknowledge other events without changing anything', async () => {
+      daily.verifyWebhookSignature.mockReturnValueOnce(true);
+
+      await sendEvent({ type: 'meeting.started', payload: { room: 'room_1' } }).expect(200);
+
+      expect(prisma.callSession.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,6 +3,7 @@ const express = require('express');
 const messagesRoutes = require('../../routes/messages');
 const prisma = require('../../prisma/client');
 const authMiddleware = require('../../middleware/auth');
+const { createMockIo } = require('../mockIo');
 
 jest.mock('../../prisma/client');
 jest.mock('../../middleware/auth', () => (req, res, next) => {
@@ -10,10 +11,7 @@ jest.mock('../../middleware/auth', () => (req, res, next) => {
   next();
 });
 
-const mockIo = {
-  to: jest.fn().mockReturnThis(),
-  emit: jest.fn(),
-};
+const mockIo = createMockIo();
 
 const app = express();
 app.use(express.json());
@@ -103,6 +101,227 @@ describe('Messages Routes', () => {
 
       expect(response.body.error).toBe('Not authorized to send message in this thread');
     });
+
+    it('should return 403 in a direct chat with a blocked user', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        type: '1:1',
+        participants: [global.mockUser.id, 'user-2'],
+      });
+      prisma.userBlock.findFirst.mockResolvedValueOnce({ id: 'block-1' });
+
+      const response = await request(app)
+        .post('/api/messages')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ thread_id: 'thread-1', content: 'Hello' })
+        .expect(403);
+
+      expect(response.body.error).toBe('You cannot message a user you blocked or who blocked you');
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('should flag content as encrypted when a key version is sent', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+        key_version: 2,
+      });
+      prisma.message.create.mockResolvedValue({ id: 'msg-1', thread_id: 'thread-1', content: 'cipher' });
+      prisma.chatThread.update.mockResolvedValue({});
+      prisma.notification.create.mockResolvedValue({});
+
+      await request(app)
+        .post('/api/messages')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ thread_id: 'thread-1', content: 'cipher', key_version: 2 })
+        .expect(201);
+
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ encrypted: true, key_version: 2 }),
+        })
+      );
+    });
+
+    it('should return 409 if the thread key was rotated', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+        key_version: 3,
+      });
+
+      const response = await request(app)
+        .post('/api/messages')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ thread_id: 'thread-1', content: 'cipher', key_version: 2 })
+        .expect(409);
+
+      expect(response.body.key_version).toBe(3);
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('should return the original message when a client ID is resent', async () => {
+      const existingMessage = {
+        id: 'msg-1',
+        thread_id: 'thread-1',
+        user_id: global.mockUser.id,
+        client_id: 'client-1',
+        content: 'Hello',
+      };
+
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+      });
+      prisma.message.findUnique.mockResolvedValue(existingMessage);
+
+      const response = await request(app)
+        .post('/api/messages')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ thread_id: 'thread-1', content: 'Hello', client_id: 'client-1' })
+        .expect(200);
+
+      expect(response.body.id).toBe('msg-1');
+      expect(prisma.message.create).not.toHaveBeenCalled();
+      expect(mockIo.emit).not.toHaveBeenCalled();
+    });
+
+    it('should store the client ID on new messages', async () => {
+      prisma.chatThread.findUnique.mockResolvedValue({
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+      });
+      prisma.message.findUnique.mockResolvedValue(null);
+      prisma.message.create.mockResolvedValue({ id: 'msg-2', thread_id: 'thread-1', content: 'Hi' });
+      prisma.chatThread.update.mockResolvedValue({});
+      prisma.notification.create.mockResolvedValue({});
+
+      await request(app)
+        .post('/api/messages')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ thread_id: 'thread-1', content: 'Hi', client_id: 'client-2' })
+        .expect(201);
+
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ client_id: 'client-2' }),
+        })
+      );
+    });
   });
-});
 
+  describe('PATCH /api/messages/:messageId', () => {
+    const ownMessage = {
+      id: 'msg-1',
+      thread_id: 'thread-1',
+      user_id: global.mockUser.id,
+      encrypted: true,
+      key_version: 2,
+      thread: {
+        id: 'thread-1',
+        participants: [global.mockUser.id, 'user-2'],
+        key_version: 2,
+      },
+    };
+
+    it('should edit a message and emit message.updated', async () => {
+      prisma.message.findUnique.mockResolvedValue(ownMessage);
+      prisma.message.update.mockResolvedValue({
+        id: 'msg-1',
+        thread_id: 'thread-1',
+        content: 'edited',
+        edited_at: new Date(),
+      });
+
+      const response = await request(app)
+        .patch('/api/messages/msg-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: 'edited', key_version: 2 })
+        .expect(200);
+
+      expect(response.body.content).toBe('edited');
+      expect(prisma.message.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ content: 'edited', edited_at: expect.any(Date) }),
+        })
+      );
+      expect(mockIo.to).toHaveBeenCalledWith('thread:thread-1');
+      expect(mockIo.emit).toHaveBeenCalledWith('message.updated', expect.any(Object));
+    });
+
+    it('should return 403 when editing someone else\'s message', async () => {
+      prisma.message.findUnique.mockResolvedValue({ ...ownMessage, user_id: 'user-2' });
+
+      const response = await request(app)
+        .patch('/api/messages/msg-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: 'edited', key_version: 2 })
+        .expect(403);
+
+      expect(response.body.error).toBe('Not authorized to edit this message');
+      expect(prisma.message.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject plaintext edits of encrypted messages', async () => {
+      prisma.message.findUnique.mockResolvedValue(ownMessage);
+
+      await request(app)
+        .patch('/api/messages/msg-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: 'edited' })
+        .expect(400);
+
+      expect(prisma.message.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/messages/:messageId/reactions', () => {
+    beforeEach(() => {
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'msg-1',
+        thread_id: 'thread-1',
+        user_id: 'user-2',
+        thread: {
+          id: 'thread-1',
+          participants: [global.mockUser.id, 'user-2'],
+        },
+      });
+    });
+
+    it('should add a reaction and emit message.reaction', async () => {
+      const reactions = [{ emoji: '👍', user_id: global.mockUser.id }];
+      prisma.messageReaction.findUnique.mockResolvedValue(null);
+      prisma.messageReaction.create.mockResolvedValue({ id: 'reaction-1' });
+      prisma.messageReaction.findMany.mockResolvedValue(reactions);
+
+      const response = await request(app)
+        .post('/api/messages/msg-1/reactions')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ emoji: '👍' })
+        .expect(200);
+
+      expect(response.body.reactions).toEqual(reactions);
+      expect(mockIo.emit).toHaveBeenCalledWith('message.reaction', {
+        message_id: 'msg-1',
+        thread_id: 'thread-1',
+        reactions,
+      });
+    });
+
+    it('should remove an existing reaction', async () => {
+      prisma.messageReaction.findUnique.mockResolvedValue({ id: 'reaction-1' });
+      prisma.messageReaction.delete.mockResolvedValue({});
+      prisma.messageReaction.findMany.mockResolvedValue([]);
+
+      const response = await request(app)
+        .post('/api/messages/msg-1/reactions')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ emoji: '👍' })
+        .expect(200);
+
+      expect(response.body.reactions).toEqual([]);
+      expect(prisma.messageReaction.delete).toHaveBeenCalledWith({ where: { id: 'reaction-1' } });
+      expect(prisma.messageReaction.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,6 +3,7 @@ const express = require('express');
 const pollsRoutes = require('../../routes/polls');
 const prisma = require('../../prisma/client');
 const authMiddleware = require('../../middleware/auth');
+const { createMockIo } = require('../mockIo');
 
 jest.mock('../../prisma/client');
 jest.mock('../../middleware/auth', () => (req, res, next) => {
@@ -10,10 +11,7 @@ jest.mock('../../middleware/auth', () => (req, res, next) => {
   next();
 });
 
-const mockIo = {
-  to: jest.fn().mockReturnThis(),
-  emit: jest.fn(),
-};
+const mockIo = createMockIo();
 
 const app = express();
 app.use(express.json());
@@ -3,6 +3,7 @@ const express = require('express');
 const postsRoutes = require('../../routes/posts');
 const prisma = require('../../prisma/client');
 const authMiddleware = require('../../middleware/auth');
+const { createMockIo } = require('../mockIo');
 
 jest.mock('../../prisma/client');
 jest.mock('../../middleware/auth', () => (req, res, next) => {
@@ -11,10 +12,7 @@ jest.mock('../../middleware/auth', () => (req, res, next) => {
 });
 
 // Mock Socket.io
-const mockIo = {
-  to: jest.fn().mockReturnThis(),
-  emit: jest.fn(),
-};
+const mockIo = createMockIo();
 
 const app = express();
 app.use(express.json());
@@ -263,6 +261,119 @@ describe('Posts Routes', () => {
     });
   });
 
+  describe('PATCH /api/posts/:postId', () => {
+    it('should edit a post and keep the previous version', async () => {
+      const post = {
+        id: 'post-1',
+        user_id: global.mockUser.id,
+        content: 'Old content',
+        tags: ['old'],
+      };
+      const updated = {
+        ...post,
+        content: 'New content',
+        edited_at: new Date(),
+        user: {
+          id: global.mockUser.id,
+          username: global.mockUser.username,
+          full_name: global.mockUser.full_name,
+          profile: { avatar_url: null },
+        },
+        _count: { reactions: 2, comments: 1 },
+      };
+
+      prisma.post.findUnique.mockResolvedValue(post);
+      prisma.postRevision.create.mockResolvedValue({});
+      prisma.post.update.mockResolvedValue(updated);
+
+      const response = await request(app)
+        .patch('/api/posts/post-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: 'New content' })
+        .expect(200);
+
+      expect(response.body.content).toBe('New content');
+      expect(prisma.postRevision.create).toHaveBeenCalledWith({
+        data: { post_id: 'post-1', content: 'Old content', tags: ['old'] },
+      });
+      expect(prisma.post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ content: 'New content', tags: ['old'] }),
+        })
+      );
+      expect(mockIo.to).toHaveBeenCalledWith('posts');
+      expect(mockIo.emit).toHaveBeenCalledWith('post.updated', expect.any(Object));
+    });
+
+    it('should return 403 when editing someone else\'s post', async () => {
+      prisma.post.findUnique.mockResolvedValue({
+        id: 'post-1',
+        user_id: 'other-user',
+        content: 'Old content',
+      });
+
+      const response = await request(app)
+        .patch('/api/posts/post-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: 'New content' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Not authorized to edit this post');
+      expect(prisma.post.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject empty content', async () => {
+      await request(app)
+        .patch('/api/posts/post-1')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: '' })
+        .expect(400);
+
+      expect(prisma.post.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/posts/:postId/revisions', () => {
+    it('should let moderators view the revision log', async () => {
+      prisma.post.findUnique.mockResolvedValue({ id: 'post-1', user_id: 'other-user' });
+      prisma.user.findUnique.mockResolvedValue({ role: 'moderator', two_factor_enabled: true });
+      prisma.postRevision.findMany.mockResolvedValue([
+        { id: 'rev-1', post_id: 'post-1', content: 'Old content', created_at: new Date() },
+      ]);
+
+      const response = await request(app)
+        .get('/api/posts/post-1/revisions')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.revisions).toHaveLength(1);
+    });
+
+    it('should hide the revision log from moderators without two-factor authentication', async () => {
+      prisma.post.findUnique.mockResolvedValue({ id: 'post-1', user_id: 'other-user' });
+      prisma.user.findUnique.mockResolvedValue({ role: 'moderator', two_factor_enabled: false });
+
+      await request(app)
+        .get('/api/posts/post-1/revisions')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(403);
+
+      expect(prisma.postRevision.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should hide the revision log from other users', async () => {
+      prisma.post.findUnique.mockResolvedValue({ id: 'post-1', user_id: 'other-user' });
+      prisma.user.findUnique.mockResolvedValue({ role: 'user' });
+
+      await request(app)
+        .get('/api/posts/post-1/revisions')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(403);
+
+      expect(prisma.postRevision.findMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('POST /api/posts/:postId/repost', () => {
     it('should repost successfully', async () => {
       const originalPost = {
@@ -0,0 +1,49 @@
+const request = require('supertest');
+const express = require('express');
+const profileRoutes = require('../../routes/profile');
+const prisma = require('../../prisma/client');
+
+jest.mock('../../prisma/client');
+jest.mock('../../middleware/auth', () => (req, res, next) => {
+  req.user = global.mockUser;
+  req.sessionId = 'session-current';
+  next();
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/profile', profileRoutes);
+
+describe('Profile Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('PUT /api/profile/keys', () => {
+    it('should tie the published key to the current session', async () => {
+      prisma.deviceKey.upsert.mockResolvedValue({
+        user_id: global.mockUser.id,
+        device_id: 'device-1',
+        public_key: 'spki',
+      });
+
+      const response = await request(app)
+        .put('/api/profile/keys')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ device_id: 'device-1', public_key: 'spki', label: 'Firefox' })
+        .expect(200);
+
+      expect(response.body.key).toEqual({
+        user_id: global.mockUser.id,
+        device_id: 'device-1',
+        public_key: 'spki',
+      });
+      expect(prisma.deviceKey.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ session_id: 'session-current' }),
+          create: expect.objectContaining({ session_id: 'session-current' }),
+        })
+      );
+    });
+  });
+});
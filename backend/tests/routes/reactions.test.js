@@ -3,17 +3,17 @@ const express = require('express');
 const reactionsRoutes = require('../../routes/reactions');
 const prisma = require('../../prisma/client');
 const authMiddleware = require('../../middleware/auth');
+const { verifyToken } = require('../../utils/jwt');
+const { createMockIo } = require('../mockIo');
 
 jest.mock('../../prisma/client');
+jest.mock('../../utils/jwt');
 jest.mock('../../middleware/auth', () => (req, res, next) => {
   req.user = global.mockUser;
   next();
 });
 
-const mockIo = {
-  to: jest.fn().mockReturnThis(),
-  emit: jest.fn(),
-};
+const mockIo = createMockIo();
 
 const app = express();
 app.use(express.json());
@@ -113,6 +113,20 @@ describe('Reactions Routes', () => {
 
       expect(response.body.error).toBe('Invalid reaction type');
     });
+
+    it('should return 403 when the post author and reactor have blocked each other', async () => {
+      prisma.post.findUnique.mockResolvedValueOnce({ user_id: 'blocker-1' });
+      prisma.userBlock.findFirst.mockResolvedValueOnce({ id: 'block-1' });
+
+      const response = await request(app)
+        .post('/api/reactions')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ post_id: 'post-1', type: 'like' })
+        .expect(403);
+
+      expect(response.body.error).toBe('You cannot react to this post');
+      expect(prisma.reaction.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /api/reactions/post/:postId', () => {
@@ -152,6 +166,25 @@ describe('Reactions Routes', () => {
       expect(response.body).toHaveProperty('total');
       expect(response.body.total).toBe(2);
     });
+
+    it('should leave out reactions by blocked users', async () => {
+      verifyToken.mockReturnValueOnce({ id: global.mockUser.id });
+      prisma.userBlock.findMany.mockResolvedValueOnce([
+        { blocker_id: global.mockUser.id, blocked_id: 'user-2' },
+      ]);
+      prisma.reaction.findMany = jest.fn().mockResolvedValue([]);
+
+      await request(app)
+        .get('/api/reactions/post/post-1')
+        .set('Authorization', 'Bearer viewer_token')
+        .expect(200);
+
+      expect(prisma.reaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { post_id: 'post-1', user_id: { notIn: ['user-2'] } },
+        })
+      );
+    });
   });
 
   describe('DELETE /api/reactions/:reactionId', () => {
@@ -0,0 +1,145 @@
+const request = require('supertest');
+const express = require('express');
+const sessionsRoutes = require('../../routes/sessions');
+const prisma = require('../../prisma/client');
+
+jest.mock('../../prisma/client');
+jest.mock('../../middleware/auth', () => (req, res, next) => {
+  req.user = global.mockUser;
+  req.sessionId = 'session-current';
+  next();
+});
+
+const emit = jest.fn();
+const disconnectSockets = jest.fn();
+const io = {
+  to: jest.fn(() => ({ emit })),
+  in: jest.fn(() => ({ disconnectSockets })),
+};
+
+const app = express();
+app.use(express.json());
+app.set('io', io);
+app.use('/api/sessions', sessionsRoutes);
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+describe('Sessions Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/sessions', () => {
+    it('should list sessions with device details, current first', async () => {
+      const future = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      prisma.refreshToken.findMany.mockResolvedValueOnce([
+        { id: 'session-other', created_at: new Date('2026-10-18T10:00:00Z'), expires_at: future },
+        { id: 'session-current', created_at: new Date('2026-10-17T10:00:00Z'), expires_at: future },
+      ]);
+      prisma.activityLog.findMany.mockResolvedValueOnce([
+        {
+          entity_id: 'session-other',
+          ip_address: '203.0.113.9',
+          user_agent: SAFARI_IPHONE,
+          created_at: new Date('2026-10-19T09:00:00Z'),
+        },
+        {
+          entity_id: 'session-current',
+          ip_address: '198.51.100.4',
+          user_agent: CHROME_MAC,
+          created_at: new Date('2026-10-19T08:00:00Z'),
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/api/sessions')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.sessions).toHaveLength(2);
+      expect(response.body.sessions[0]).toMatchObject({
+        id: 'session-current',
+        browser: 'Chrome',
+        os: 'macOS',
+        device: 'desktop',
+        ip_address: '198.51.100.4',
+        current: true,
+      });
+      expect(response.body.sessions[1]).toMatchObject({
+        id: 'session-other',
+        browser: 'Safari',
+        os: 'iOS',
+        device: 'mobile',
+        last_seen_at: '2026-10-19T09:00:00.000Z',
+        current: false,
+      });
+      expect(prisma.refreshToken.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { user_id: global.mockUser.id, expires_at: { gt: expect.any(Date) } },
+        })
+      );
+    });
+  });
+
+  describe('DELETE /api/sessions/:id', () => {
+    it('should revoke the session and disconnect its sockets', async () => {
+      prisma.refreshToken.findMany.mockResolvedValueOnce([{ id: 'session-other' }]);
+      prisma.refreshToken.deleteMany.mockResolvedValue({ count: 1 });
+
+      await request(app)
+        .delete('/api/sessions/session-other')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      // Scoped to the current user's sessions
+      expect(prisma.refreshToken.findMany).toHaveBeenCalledWith({
+        where: { user_id: global.mockUser.id, id: { in: ['session-other'] } },
+        select: { id: true },
+      });
+      expect(prisma.refreshToken.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['session-other'] } },
+      });
+      expect(io.to).toHaveBeenCalledWith('session:session-other');
+      expect(emit).toHaveBeenCalledWith('session.revoked', { sessionId: 'session-other' });
+      expect(disconnectSockets).toHaveBeenCalledWith(true);
+    });
+
+    it("should return 404 for another user's session", async () => {
+      prisma.refreshToken.findMany.mockResolvedValueOnce([]);
+
+      await request(app)
+        .delete('/api/sessions/someone-elses')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(404);
+
+      expect(prisma.refreshToken.deleteMany).not.toHaveBeenCalled();
+      expect(disconnectSockets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/sessions', () => {
+    it('should sign out every session', async () => {
+      prisma.refreshToken.findMany.mockResolvedValueOnce([
+        { id: 'session-current' },
+        { id: 'session-other' },
+      ]);
+      prisma.refreshToken.deleteMany.mockResolvedValue({ count: 2 });
+
+      const response = await request(app)
+        .delete('/api/sessions')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.revoked).toBe(2);
+      expect(prisma.refreshToken.findMany).toHaveBeenCalledWith({
+        where: { user_id: global.mockUser.id },
+        select: { id: true },
+      });
+      expect(io.to).toHaveBeenCalledWith('session:session-current');
+      expect(io.to).toHaveBeenCalledWith('session:session-other');
+    });
+  });
+});
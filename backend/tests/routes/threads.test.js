@@ -3,8 +3,10 @@ const express = require('express');
 const threadsRoutes = require('../../routes/threads');
 const prisma = require('../../prisma/client');
 const authMiddleware = require('../../middleware/auth');
+const { verifyToken } = require('../../utils/jwt');
 
 jest.mock('../../prisma/client');
+jest.mock('../../utils/jwt');
 jest.mock('../../middleware/auth', () => (req, res, next) => {
   req.user = global.mockUser;
   next();
@@ -94,6 +96,74 @@ describe('Threads Routes', () => {
       expect(response.body).toHaveProperty('threads');
       expect(Array.isArray(response.body.threads)).toBe(true);
     });
+
+    it('should leave out threads by blocked and muted users', async () => {
+      verifyToken.mockReturnValueOnce({ id: global.mockUser.id });
+      prisma.userBlock.findMany.mockResolvedValueOnce([
+        { blocker_id: 'user-2', blocked_id: global.mockUser.id },
+      ]);
+      prisma.userMute.findMany.mockResolvedValueOnce([{ muted_id: 'user-3' }]);
+      prisma.thread.findMany.mockResolvedValueOnce([]);
+
+      await request(app)
+        .get('/api/threads')
+        .set('Authorization', 'Bearer viewer_token')
+        .expect(200);
+
+      expect(prisma.thread.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { user_id: { notIn: ['user-2', 'user-3'] } },
+        })
+      );
+    });
+  });
+
+  describe('GET /api/threads/:threadId', () => {
+    it('should hide replies by blocked and muted users', async () => {
+      verifyToken.mockReturnValueOnce({ id: global.mockUser.id });
+      prisma.userMute.findMany.mockResolvedValueOnce([{ muted_id: 'user-3' }]);
+      prisma.thread.findUnique
+        .mockResolvedValueOnce({ user_id: 'user-1' })
+        .mockResolvedValueOnce({ id: 'thread-1', user_id: 'user-1', replies: [] });
+      prisma.thread.update.mockResolvedValueOnce({});
+
+      await request(app)
+        .get('/api/threads/thread-1')
+        .set('Authorization', 'Bearer viewer_token')
+        .expect(200);
+
+      const { include } = prisma.thread.findUnique.mock.calls[1][0];
+      expect(include.replies.where).toEqual({ user_id: { notIn: ['user-3'] } });
+    });
+
+    it('should return 404 when the viewer and the author have blocked each other', async () => {
+      verifyToken.mockReturnValueOnce({ id: global.mockUser.id });
+      prisma.thread.findUnique.mockResolvedValueOnce({ user_id: 'blocker-1' });
+      prisma.userBlock.findFirst.mockResolvedValueOnce({ id: 'block-1' });
+
+      await request(app)
+        .get('/api/threads/thread-1')
+        .set('Authorization', 'Bearer viewer_token')
+        .expect(404);
+
+      expect(prisma.thread.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/threads/:threadId/replies', () => {
+    it('should return 403 when the thread author and replier have blocked each other', async () => {
+      prisma.thread.findUnique.mockResolvedValueOnce({ id: 'thread-1', user_id: 'blocker-1', locked: false });
+      prisma.userBlock.findFirst.mockResolvedValueOnce({ id: 'block-1' });
+
+      const response = await request(app)
+        .post('/api/threads/thread-1/replies')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ content: 'Hello' })
+        .expect(403);
+
+      expect(response.body.error).toBe('You cannot reply to this thread');
+      expect(prisma.threadReply.create).not.toHaveBeenCalled();
+    });
   });
 });
 
@@ -0,0 +1,219 @@
+const request = require('supertest');
+const express = require('express');
+const twoFactorRoutes = require('../../routes/twoFactor');
+const prisma = require('../../prisma/client');
+const { comparePassword } = require('../../utils/bcrypt');
+const { currentStep, decryptSecret, encryptSecret, generateCode, generateSecret } = require('../../utils/totp');
+
+jest.mock('../../prisma/client');
+jest.mock('../../utils/bcrypt');
+jest.mock('../../middleware/auth', () => (req, res, next) => {
+  req.user = global.mockUser;
+  next();
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/two-factor', twoFactorRoutes);
+
+describe('Two-Factor Routes', () => {
+  const secret = generateSecret();
+
+  const baseUser = {
+    id: global.mockUser.id,
+    email: global.mockUser.email,
+    role: 'user',
+    password_hash: 'hashed_password',
+    two_factor_enabled: false,
+    two_factor_secret: null,
+  };
+
+  const enabledUser = {
+    ...baseUser,
+    two_factor_enabled: true,
+    two_factor_secret: encryptSecret(secret),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/two-factor', () => {
+    it('should report status and remaining recovery codes', async () => {
+      prisma.user.findUnique.mockResolvedValue(enabledUser);
+      prisma.recoveryCode.count.mockResolvedValue(7);
+
+      const response = await request(app)
+        .get('/api/two-factor')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body).toEqual({ enabled: true, required: false, recoveryCodesRemaining: 7 });
+    });
+  });
+
+  describe('POST /api/two-factor/setup', () => {
+    it('should store an encrypted secret and return the otpauth URL', async () => {
+      prisma.user.findUnique.mockResolvedValue(baseUser);
+      prisma.user.update.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/api/two-factor/setup')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.otpauthUrl).toMatch(/^otpauth:\/\/totp\/Kartess/);
+      expect(response.body.otpauthUrl).toContain(`secret=${response.body.secret}`);
+
+      const stored = prisma.user.update.mock.calls[0][0].data.two_factor_secret;
+      expect(stored).not.toBe(response.body.secret);
+      expect(decryptSecret(stored)).toBe(response.body.secret);
+    });
+
+    it('should return 400 when already enabled', async () => {
+      prisma.user.findUnique.mockResolvedValue(enabledUser);
+
+      await request(app)
+        .post('/api/two-factor/setup')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/two-factor/enable', () => {
+    it('should enable two-factor and return recovery codes', async () => {
+      prisma.user.findUnique.mockResolvedValue({ ...baseUser, two_factor_secret: encryptSecret(secret) });
+      prisma.user.update.mockResolvedValue({});
+      prisma.recoveryCode.deleteMany.mockResolvedValue({ count: 0 });
+      prisma.recoveryCode.createMany.mockResolvedValue({ count: 10 });
+
+      const response = await request(app)
+        .post('/api/two-factor/enable')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ code: generateCode(secret, currentStep()) })
+        .expect(200);
+
+      expect(response.body.recoveryCodes).toHaveLength(10);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: baseUser.id },
+        data: expect.objectContaining({ two_factor_enabled: true }),
+      });
+
+      // Only hashes are stored
+      const storedHashes = prisma.recoveryCode.createMany.mock.calls[0][0].data.map((row) => row.code_hash);
+      expect(storedHashes).not.toContain(response.body.recoveryCodes[0]);
+    });
+
+    it('should sign out the other sessions but keep this one', async () => {
+      const io = {
+        to: jest.fn().mockReturnValue({ emit: jest.fn() }),
+        in: jest.fn().mockReturnValue({ disconnectSockets: jest.fn() }),
+      };
+      const sessionApp = express();
+      sessionApp.use(express.json());
+      sessionApp.set('io', io);
+      sessionApp.use((req, res, next) => {
+        req.sessionId = 'session-current';
+        next();
+      });
+      sessionApp.use('/api/two-factor', twoFactorRoutes);
+
+      prisma.user.findUnique.mockResolvedValue({ ...baseUser, two_factor_secret: encryptSecret(secret) });
+      prisma.user.update.mockResolvedValue({});
+      prisma.recoveryCode.deleteMany.mockResolvedValue({ count: 0 });
+      prisma.recoveryCode.createMany.mockResolvedValue({ count: 10 });
+      prisma.refreshToken.findMany
+        .mockResolvedValueOnce([{ id: 'session-other' }])
+        .mockResolvedValueOnce([{ id: 'session-other' }]);
+      prisma.refreshToken.deleteMany.mockResolvedValue({ count: 1 });
+
+      await request(sessionApp)
+        .post('/api/two-factor/enable')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ code: generateCode(secret, currentStep()) })
+        .expect(200);
+
+      expect(prisma.refreshToken.findMany).toHaveBeenCalledWith({
+        where: { user_id: baseUser.id, id: { not: 'session-current' } },
+        select: { id: true },
+      });
+      expect(prisma.refreshToken.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['session-other'] } },
+      });
+      expect(io.in).toHaveBeenCalledWith('session:session-other');
+    });
+
+    it('should reject a wrong code', async () => {
+      prisma.user.findUnique.mockResolvedValue({ ...baseUser, two_factor_secret: encryptSecret(secret) });
+
+      const response = await request(app)
+        .post('/api/two-factor/enable')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ code: 'abcdef' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid authentication code');
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should require setup first', async () => {
+      prisma.user.findUnique.mockResolvedValue(baseUser);
+
+      const response = await request(app)
+        .post('/api/two-factor/enable')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ code: '123456' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Start two-factor setup first');
+    });
+  });
+
+  describe('POST /api/two-factor/disable', () => {
+    it('should disable two-factor with password and code', async () => {
+      prisma.user.findUnique.mockResolvedValue(enabledUser);
+      comparePassword.mockResolvedValue(true);
+      prisma.user.updateMany.mockResolvedValue({ count: 1 });
+      prisma.user.update.mockResolvedValue({});
+      prisma.recoveryCode.deleteMany.mockResolvedValue({ count: 10 });
+
+      await request(app)
+        .post('/api/two-factor/disable')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ password: 'Test123!@#', code: generateCode(secret, currentStep()) })
+        .expect(200);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: baseUser.id },
+        data: { two_factor_enabled: false, two_factor_secret: null, two_factor_last_step: null },
+      });
+      expect(prisma.recoveryCode.deleteMany).toHaveBeenCalledWith({ where: { user_id: baseUser.id } });
+    });
+
+    it('should not accept a replayed code', async () => {
+      prisma.user.findUnique.mockResolvedValue(enabledUser);
+      comparePassword.mockResolvedValue(true);
+      prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await request(app)
+        .post('/api/two-factor/disable')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ password: 'Test123!@#', code: generateCode(secret, currentStep()) })
+        .expect(400);
+
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let staff disable two-factor', async () => {
+      prisma.user.findUnique.mockResolvedValue({ ...enabledUser, role: 'moderator' });
+
+      await request(app)
+        .post('/api/two-factor/disable')
+        .set('Authorization', 'Bearer mock_token')
+        .send({ password: 'Test123!@#', code: '123456' })
+        .expect(403);
+
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+const request = require('supertest');
+const express = require('express');
+const usersRoutes = require('../../routes/users');
+const prisma = require('../../prisma/client');
+
+jest.mock('../../prisma/client');
+jest.mock('../../middleware/auth', () => (req, res, next) => {
+  req.user = global.mockUser;
+  next();
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/users', usersRoutes);
+
+describe('Users Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/users/:userId/block', () => {
+    it('should block a user and remove contacts between them', async () => {
+      prisma.user.findUnique.mockResolvedValue({ id: 'user-2' });
+      prisma.userBlock.upsert.mockResolvedValue({});
+      prisma.contact.deleteMany.mockResolvedValue({ count: 1 });
+
+      const response = await request(app)
+        .post('/api/users/user-2/block')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.message).toBe('User blocked');
+      expect(prisma.userBlock.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { blocker_id: global.mockUser.id, blocked_id: 'user-2' },
+        })
+      );
+      expect(prisma.contact.deleteMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { sender_id: global.mockUser.id, receiver_id: 'user-2' },
+            { sender_id: 'user-2', receiver_id: global.mockUser.id },
+          ],
+        },
+      });
+    });
+
+    it('should return 400 when blocking yourself', async () => {
+      const response = await request(app)
+        .post(`/api/users/${global.mockUser.id}/block`)
+        .set('Authorization', 'Bearer mock_token')
+        .expect(400);
+
+      expect(response.body.error).toBe('You cannot block yourself');
+      expect(prisma.userBlock.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if user not found', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/users/missing-user/block')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(404);
+
+      expect(response.body.error).toBe('User not found');
+    });
+  });
+
+  describe('DELETE /api/users/:userId/block', () => {
+    it('should unblock a user', async () => {
+      prisma.userBlock.deleteMany.mockResolvedValue({ count: 1 });
+
+      const response = await request(app)
+        .delete('/api/users/user-2/block')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.message).toBe('User unblocked');
+      expect(prisma.userBlock.deleteMany).toHaveBeenCalledWith({
+        where: { blocker_id: global.mockUser.id, blocked_id: 'user-2' },
+      });
+    });
+  });
+
+  describe('POST /api/users/:userId/mute', () => {
+    it('should mute a user', async () => {
+      prisma.user.findUnique.mockResolvedValue({ id: 'user-2' });
+      prisma.userMute.upsert.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/api/users/user-2/mute')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.message).toBe('User muted');
+      expect(prisma.contact.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when muting yourself', async () => {
+      await request(app)
+        .post(`/api/users/${global.mockUser.id}/mute`)
+        .set('Authorization', 'Bearer mock_token')
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/users/blocks', () => {
+    it('should list blocked and muted users', async () => {
+      const blockedUser = { id: 'user-2', username: 'user2', full_name: 'User 2', profile: null };
+      const mutedUser = { id: 'user-3', username: 'user3', full_name: 'User 3', profile: null };
+
+      prisma.userBlock.findMany.mockResolvedValue([
+        { blocked: blockedUser, created_at: new Date() },
+      ]);
+      prisma.userMute.findMany.mockResolvedValue([
+        { muted: mutedUser, created_at: new Date() },
+      ]);
+
+      const response = await request(app)
+        .get('/api/users/blocks')
+        .set('Authorization', 'Bearer mock_token')
+        .expect(200);
+
+      expect(response.body.blocked).toHaveLength(1);
+      expect(response.body.blocked[0].user.id).toBe('user-2');
+      expect(response.body.muted).toHaveLength(1);
+      expect(response.body.muted[0].user.id).toBe('user-3');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+const crypto = require('crypto');
+const daily = require('../../services/daily');
+
+describe('Daily Service', () => {
+  describe('verifyWebhookSignature', () => {
+    const originalSecret = process.env.DAILY_WEBHOOK_SECRET;
+    const secret = Buffer.from('webhook-secret').toString('base64');
+    const body = JSON.stringify({ type: 'participant.left', payload: { room: 'room_1' } });
+
+    function sign(timestamp, rawBody) {
+      return crypto
+        .createHmac('sha256', Buffer.from(secret, 'base64'))
+        .update(`${timestamp}.${rawBody}`)
+        .digest('base64');
+    }
+
+    beforeEach(() => {
+      process.env.DAILY_WEBHOOK_SECRET = secret;
+    });
+
+    afterAll(() => {
+      process.env.DAILY_WEBHOOK_SECRET = originalSecret;
+    });
+
+    it('should accept a body signed with the webhook secret', () => {
+      expect(daily.verifyWebhookSignature(body, '1760000000', sign('1760000000', body))).toBe(true);
+    });
+
+    it('should reject a changed body or timestamp', () => {
+      const signature = sign('1760000000', body);
+
+      expect(daily.verifyWebhookSignature(`${body} `, '1760000000', signature)).toBe(false);
+      expect(daily.verifyWebhookSignature(body, '1760000001', signature)).toBe(false);
+    });
+
+    it('should reject everything without a secret', () => {
+      delete process.env.DAILY_WEBHOOK_SECRET;
+
+      expect(daily.verifyWebhookSignature(body, '1760000000', sign('1760000000', body))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+describe('Mail Service', () => {
+  const env = { ...process.env };
+
+  let logger;
+
+  // The service picks its transport when it is first required
+  function loadMailService(overrides) {
+    Object.assign(process.env, overrides);
+    let mailService;
+    jest.isolateModules(() => {
+      logger = require('../../utils/logger');
+      jest.spyOn(logger, 'info').mockImplementation(() => {});
+      jest.spyOn(logger, 'warn').mockImplementation(() => {});
+      mailService = require('../../services/mail');
+    });
+    return mailService;
+  }
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  describe('console transport', () => {
+    it('should log the recipient and subject but never the link', async () => {
+      const mailService = loadMailService({ MAIL_TRANSPORT: 'console' });
+      const info = logger.info;
+
+      await mailService.sendPasswordReset({ email: 'alex@example.com', full_name: 'Alex' }, 'secret-token');
+
+      expect(info).toHaveBeenCalledWith('Mail (console transport)', {
+        to: 'alex@example.com',
+        subject: 'Reset your Kartess password',
+      });
+      expect(JSON.stringify(info.mock.calls)).not.toContain('secret-token');
+    });
+  });
+
+  describe('in production', () => {
+    it('should refuse to start with the console transport', () => {
+      expect(() => loadMailService({ NODE_ENV: 'production', MAIL_TRANSPORT: 'console' })).toThrow(
+        /MAIL_TRANSPORT must be "http"/
+      );
+    });
+
+    it('should refuse to start with the file transport', () => {
+      expect(() => loadMailService({ NODE_ENV: 'production', MAIL_TRANSPORT: 'file' })).toThrow(
+        /file transport/
+      );
+    });
+
+    it('should refuse to start when the HTTP transport has no URL', () => {
+      expect(() =>
+        loadMailService({ NODE_ENV: 'production', MAIL_TRANSPORT: 'http', MAIL_HTTP_URL: '' })
+      ).toThrow(/console transport/);
+    });
+
+    it('should start with the HTTP transport', () => {
+      const mailService = loadMailService({
+        NODE_ENV: 'production',
+        MAIL_TRANSPORT: 'http',
+        MAIL_HTTP_URL: 'https://mail.example.com/send',
+      });
+
+      expect(mailService.transport.name).toBe('http');
+    });
+  });
+});
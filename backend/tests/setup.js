@@ -12,6 +12,7 @@ jest.mock('../prisma/client', () => {
       findMany: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       delete: jest.fn(),
     },
     profile: {
@@ -39,22 +40,64 @@ jest.mock('../prisma/client', () => {
       delete: jest.fn(),
       deleteMany: jest.fn(),
     },
+    // Nobody is blocked or muted unless a test says so
+    userBlock: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findFirst: jest.fn().mockResolvedValue(null),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    userMute: {
+      findMany: jest.fn().mockResolvedValue([]),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
     refreshToken: {
       create: jest.fn(),
       findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
       delete: jest.fn(),
       deleteMany: jest.fn(),
     },
+    activityLog: {
+      create: jest.fn().mockResolvedValue({}),
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    recoveryCode: {
+      count: jest.fn(),
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    authToken: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
     chatThread: {
       findUnique: jest.fn(),
       findMany: jest.fn(),
       findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    chatThreadKey: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    deviceKey: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
     },
     message: {
       findMany: jest.fn(),
       findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
     },
@@ -63,6 +106,12 @@ jest.mock('../prisma/client', () => {
       findMany: jest.fn(),
       create: jest.fn(),
     },
+    messageReaction: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
     notification: {
       findMany: jest.fn(),
       create: jest.fn(),
@@ -81,25 +130,51 @@ jest.mock('../prisma/client', () => {
       findUnique: jest.fn(),
       findMany: jest.fn(),
       create: jest.fn(),
+      update: jest.fn(),
       delete: jest.fn(),
     },
+    postRevision: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    commentRevision: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
     thread: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
     },
+    threadReply: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
     job: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
     },
     application: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    applicationNote: {
+      create: jest.fn(),
+    },
+    savedJobSearch: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
     },
     qrToken: {
       findUnique: jest.fn(),
@@ -114,9 +189,25 @@ jest.mock('../prisma/client', () => {
     },
     callSession: {
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
     },
+    liveStreamRsvp: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+      count: jest.fn(),
+    },
+    liveChatMessage: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
     pollOption: {
       createMany: jest.fn(),
       create: jest.fn(),
@@ -150,6 +241,14 @@ jest.mock('../prisma/client', () => {
     },
   };
 
+  // Row locks taken with SELECT ... FOR UPDATE
+  mockPrisma.$queryRaw = jest.fn().mockResolvedValue([]);
+
+  // Interactive transactions run against the same mocked client
+  mockPrisma.$transaction = jest.fn((arg) =>
+    typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+  );
+
   return mockPrisma;
 });
 
@@ -0,0 +1,100 @@
+const { describeCall, getCallOutcome, recordCallEnded } = require('../../utils/calls');
+const prisma = require('../../prisma/client');
+const { createMockIo } = require('../mockIo');
+
+jest.mock('../../prisma/client');
+
+const mockIo = createMockIo();
+
+const endedCall = {
+  id: 'call-1',
+  host_id: 'caller-1',
+  type: 'call',
+  thread_id: 'thread-1',
+  call_type: 'video',
+  call_status: 'ended',
+  status: 'ended',
+  started_at: new Date('2026-10-19T10:00:00Z'),
+  answered_at: new Date('2026-10-19T10:00:10Z'),
+  ended_at: new Date('2026-10-19T10:04:15Z'),
+  participants: ['caller-1', 'user-2'],
+};
+
+describe('Calls Utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('describeCall', () => {
+    it('should describe answered calls with their duration', () => {
+      expect(describeCall(endedCall)).toBe('Video call (4:05)');
+    });
+
+    it('should describe missed and declined calls', () => {
+      const unanswered = { ...endedCall, call_type: 'voice', answered_at: null };
+
+      expect(getCallOutcome(unanswered)).toBe('missed');
+      expect(describeCall(unanswered)).toBe('Missed voice call');
+      expect(describeCall({ ...unanswered, call_status: 'rejected' })).toBe('Declined voice call');
+    });
+  });
+
+  describe('recordCallEnded', () => {
+    it('should post a call message and notify everyone who missed it', async () => {
+      const missedCall = { ...endedCall, answered_at: null, participants: ['caller-1'] };
+      prisma.chatThread.findUnique.mockResolvedValueOnce({
+        participants: ['caller-1', 'user-2', 'user-3'],
+      });
+      prisma.message.create.mockResolvedValueOnce({
+        id: 'msg-1',
+        user: { id: 'caller-1', username: 'caller', full_name: 'Caller One' },
+      });
+      prisma.notification.create.mockResolvedValue({});
+
+      await recordCallEnded(mockIo, missedCall);
+
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            thread_id: 'thread-1',
+            user_id: 'caller-1',
+            type: 'call',
+            content: 'Missed video call',
+            call_session_id: 'call-1',
+          },
+        })
+      );
+      expect(mockIo.to).toHaveBeenCalledWith('thread:thread-1');
+      expect(prisma.notification.create).toHaveBeenCalledTimes(2);
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: 'user-2',
+          type: 'missed_call',
+          message: 'Missed video call from Caller One',
+          link: '/chats/thread-1',
+        }),
+      });
+    });
+
+    it('should not send missed-call notifications for declined calls', async () => {
+      prisma.chatThread.findUnique.mockResolvedValueOnce({ participants: ['caller-1', 'user-2'] });
+      prisma.message.create.mockResolvedValueOnce({ id: 'msg-1', user: null });
+
+      await recordCallEnded(mockIo, {
+        ...endedCall,
+        call_status: 'rejected',
+        answered_at: null,
+        participants: ['caller-1'],
+      });
+
+      expect(prisma.message.create).toHaveBeenCalled();
+      expect(prisma.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when recording fails', async () => {
+      prisma.chatThread.findUnique.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(recordCallEnded(mockIo, endedCall)).resolves.toBeUndefined();
+    });
+  });
+});
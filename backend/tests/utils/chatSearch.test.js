@@ -0,0 +1,22 @@
+const { buildSnippet, splitSearchTerms } = require('../../utils/chatSearch');
+// Shared with the frontend's on-device search so both cut snippets the same way
+const snippetCases = require('../../../frontend/tests/fixtures/searchSnippets.json');
+
+describe('Chat Search Utils', () => {
+  describe('splitSearchTerms', () => {
+    it('should lowercase and split on whitespace', () => {
+      expect(splitSearchTerms('  Lunch   NOON ')).toEqual(['lunch', 'noon']);
+    });
+
+    it('should ignore non-string queries', () => {
+      expect(splitSearchTerms(['lunch'])).toEqual([]);
+      expect(splitSearchTerms(undefined)).toEqual([]);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it.each(snippetCases.map((testCase) => [testCase.name, testCase]))('%s', (_, testCase) => {
+      expect(buildSnippet(testCase.content, splitSearchTerms(testCase.query))).toEqual(testCase.expected);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+const {
+  buildJobSearchFilters,
+  jobMatchesSearch,
+  notifyJobAlerts,
+  sendJobAlertDigests,
+} = require('../../utils/jobAlerts');
+const prisma = require('../../prisma/client');
+const { sendPushToUser } = require('../../services/push');
+const { createMockIo } = require('../mockIo');
+
+jest.mock('../../prisma/client');
+jest.mock('../../services/push', () => ({
+  sendPushToUser: jest.fn().mockResolvedValue(true),
+}));
+
+const mockIo = createMockIo();
+
+const job = {
+  id: 'job-1',
+  user_id: 'poster-1',
+  title: 'Senior React Developer',
+  description: 'Build our web app',
+  company: 'Kartess',
+  location: 'Berlin, Germany',
+  workplace_type: 'hybrid',
+  type: 'full-time',
+  seniority: 'senior',
+  salary_min: 70000,
+  salary_max: 90000,
+  salary_currency: 'EUR',
+  salary_period: 'year',
+  tags: ['React', 'TypeScript'],
+};
+
+describe('Job Alerts Utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildJobSearchFilters', () => {
+    it('should match salary ranges that overlap the band', () => {
+      expect(
+        buildJobSearchFilters({ salary_min: 80000, salary_max: 100000, salary_currency: 'EUR' })
+      ).toEqual([
+        { salary_currency: 'EUR', salary_period: 'year' },
+        {
+          OR: [
+            { salary_max: { gte: 80000 } },
+            { salary_max: null, salary_min: { gte: 80000 } },
+          ],
+        },
+        {
+          OR: [
+            { salary_min: { lte: 100000 } },
+            { salary_min: null, salary_max: { lte: 100000 } },
+          ],
+        },
+      ]);
+    });
+
+    it('should only compare a band with jobs paid in its currency and period', () => {
+      expect(
+        buildJobSearchFilters({ salary_min: 20, salary_currency: 'GBP', salary_period: 'hour' })
+      ).toEqual([
+        { salary_currency: 'GBP', salary_period: 'hour' },
+        {
+          OR: [
+            { salary_max: { gte: 20 } },
+            { salary_max: null, salary_min: { gte: 20 } },
+          ],
+        },
+      ]);
+    });
+
+    it('should filter by workplace type and seniority', () => {
+      expect(buildJobSearchFilters({ workplace_type: 'remote', seniority: 'mid' })).toEqual([
+        { workplace_type: 'remote' },
+        { seniority: 'mid' },
+      ]);
+    });
+  });
+
+  describe('jobMatchesSearch', () => {
+    it('should match on text, type, location, tags and salary band', () => {
+      expect(
+        jobMatchesSearch(job, {
+          query: 'react',
+          type: 'full-time',
+          location: 'berlin',
+          workplace_type: 'hybrid',
+          seniority: 'senior',
+          tags: ['React'],
+          salary_min: 80000,
+          salary_max: null,
+          salary_currency: 'EUR',
+          salary_period: 'year',
+        })
+      ).toBe(true);
+    });
+
+    it('should not match a band in another currency or period', () => {
+      const band = { salary_min: 50000, salary_max: 80000, salary_currency: 'EUR' };
+
+      expect(jobMatchesSearch({ ...job, salary_min: 60000, salary_max: 60000 }, band)).toBe(true);
+      expect(
+        jobMatchesSearch({ ...job, salary_min: 60000, salary_max: 60000, salary_currency: 'INR' }, band)
+      ).toBe(false);
+      expect(
+        jobMatchesSearch({ ...job, salary_min: 60000, salary_max: 60000, salary_period: 'month' }, band)
+      ).toBe(false);
+      expect(
+        jobMatchesSearch(
+          { ...job, salary_min: 30, salary_max: 45, salary_period: 'hour' },
+          { salary_min: 25, salary_currency: 'EUR', salary_period: 'hour' }
+        )
+      ).toBe(true);
+    });
+
+    it('should not match when any part differs', () => {
+      expect(jobMatchesSearch(job, { query: 'python' })).toBe(false);
+      expect(jobMatchesSearch(job, { type: 'contract' })).toBe(false);
+      expect(jobMatchesSearch(job, { tags: ['React', 'Go'] })).toBe(false);
+      expect(jobMatchesSearch(job, { workplace_type: 'remote' })).toBe(false);
+      expect(jobMatchesSearch(job, { salary_min: 100000, salary_currency: 'EUR' })).toBe(false);
+      expect(
+        jobMatchesSearch(
+          { ...job, salary_min: null, salary_max: null },
+          { salary_max: 50000, salary_currency: 'EUR' }
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('notifyJobAlerts', () => {
+    it('should notify each matching user once and push when asked', async () => {
+      prisma.savedJobSearch.findMany.mockResolvedValueOnce([
+        { id: 's1', user_id: 'user-2', name: 'React jobs', query: 'react', push_enabled: false },
+        { id: 's2', user_id: 'user-2', name: 'Berlin', location: 'Berlin', push_enabled: true },
+        { id: 's3', user_id: 'user-3', name: 'Go jobs', tags: ['Go'], push_enabled: true },
+      ]);
+      prisma.notification.create.mockResolvedValue({});
+
+      const notified = await notifyJobAlerts(mockIo, job);
+
+      expect(notified).toBe(1);
+      expect(prisma.savedJobSearch.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          alert_frequency: 'instant',
+          user_id: { notIn: ['poster-1'] },
+        }),
+      });
+      expect(prisma.notification.create).toHaveBeenCalledTimes(1);
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: 'user-2',
+          type: 'job_alert',
+          message: 'Senior React Developer at Kartess matches "React jobs"',
+          link: '/careernet/jobs/job-1',
+        }),
+      });
+      expect(mockIo.to).toHaveBeenCalledWith('user:user-2');
+      expect(sendPushToUser).toHaveBeenCalledWith('user-2', expect.objectContaining({
+        title: 'New Job Match',
+      }));
+    });
+
+    it('should not throw when alerts fail', async () => {
+      prisma.savedJobSearch.findMany.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(notifyJobAlerts(mockIo, job)).resolves.toBe(0);
+    });
+  });
+
+  describe('sendJobAlertDigests', () => {
+    it('should send one digest per daily search with new matches', async () => {
+      const lastDigest = new Date('2026-10-18T08:00:00Z');
+      prisma.savedJobSearch.findMany.mockResolvedValueOnce([
+        {
+          id: 's1',
+          user_id: 'user-2',
+          name: 'React jobs',
+          query: 'react',
+          tags: [],
+          salary_min: 75000,
+          salary_currency: 'USD',
+          salary_period: 'year',
+          push_enabled: false,
+          last_digest_at: lastDigest,
+        },
+      ]);
+      prisma.job.findMany.mockResolvedValueOnce([{ id: 'job-1' }, { id: 'job-3' }]);
+      prisma.notification.create.mockResolvedValue({});
+      prisma.savedJobSearch.update.mockResolvedValue({});
+
+      const result = await sendJobAlertDigests(mockIo);
+
+      expect(result).toEqual({ processed: 1, notified: 1 });
+      expect(prisma.job.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: 'open',
+            created_at: { gt: lastDigest, lte: expect.any(Date) },
+            AND: expect.arrayContaining([
+              { salary_currency: 'USD', salary_period: 'year' },
+              {
+                OR: [
+                  { salary_max: { gte: 75000 } },
+                  { salary_max: null, salary_min: { gte: 75000 } },
+                ],
+              },
+            ]),
+          }),
+        })
+      );
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: 'user-2',
+          message: '2 new jobs match "React jobs"',
+          link: '/careernet?savedSearch=s1',
+        }),
+      });
+      expect(prisma.savedJobSearch.update).toHaveBeenCalledWith({
+        where: { id: 's1' },
+        data: { last_digest_at: expect.any(Date) },
+      });
+      expect(sendPushToUser).not.toHaveBeenCalled();
+    });
+  });
+});
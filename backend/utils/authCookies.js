@@ -0,0 +1,147 @@
+const { generateCSRFToken } = require('../middleware/csrf');
+
+/**
+ * Cookie session mode.
+ *
+ * Browsers ask for it by sending `X-Auth-Mode: cookie` when they log in (or refresh).
+ * The access and refresh tokens are then set as httpOnly cookies instead of being
+ * returned in the body, so page scripts never see them, and a CSRF token is set in
+ * a readable cookie and returned in the body. Requests authenticated by cookie must
+ * echo that token in the X-CSRF-Token header (double-submit). Clients that send a
+ * Bearer token, like mobile apps, keep working as before.
+ */
+
+const ACCESS_COOKIE = 'kartess_access';
+const REFRESH_COOKIE = 'kartess_refresh';
+const CSRF_COOKIE = 'csrf_token';
+
+const ACCESS_MAX_AGE = 24 * 60 * 60 * 1000; // Matches the access token lifetime
+const REFRESH_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // Matches the refresh token lifetime
+
+// Only sent with refresh and logout requests
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+function cookieOptions(overrides) {
+  const isProduction = process.env.NODE_ENV === 'production';
+  const cookieDomain = process.env.COOKIE_DOMAIN || undefined;
+  return {
+    httpOnly: true,
+    secure: isProduction,
+    // A shared COOKIE_DOMAIN means the frontend and API are on one site. Without
+    // it they are on different sites in production, and browsers that block
+    // third-party cookies drop these (which is why the frontend only uses
+    // cookie sessions with a same-site API).
+    sameSite: isProduction && !cookieDomain ? 'none' : 'lax',
+    domain: cookieDomain,
+    path: '/',
+    ...overrides,
+  };
+}
+
+/**
+ * Whether the client asked for a cookie session
+ * @param {Object} req - Express request
+ * @returns {boolean}
+ */
+function wantsCookieSession(req) {
+  return req.get('x-auth-mode') === 'cookie';
+}
+
+/**
+ * Set the access cookie (after login or refresh)
+ * @param {Object} res - Express response
+ * @param {string} token - Access token
+ */
+function setAccessCookie(res, token) {
+  res.cookie(ACCESS_COOKIE, token, cookieOptions({ maxAge: ACCESS_MAX_AGE }));
+}
+
+/**
+ * Reuse the request's CSRF token or issue a new one
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @returns {string} CSRF token
+ */
+function ensureCSRFCookie(req, res) {
+  const csrfToken = req.cookies?.[CSRF_COOKIE] || generateCSRFToken();
+  res.cookie(
+    CSRF_COOKIE,
+    csrfToken,
+    cookieOptions({ httpOnly: false, maxAge: REFRESH_MAX_AGE })
+  );
+  return csrfToken;
+}
+
+/**
+ * Set all session cookies
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @param {{token: string, refreshToken: string}} tokens
+ * @returns {string} CSRF token for the client to echo back
+ */
+function setSessionCookies(req, res, { token, refreshToken }) {
+  setAccessCookie(res, token);
+  res.cookie(
+    REFRESH_COOKIE,
+    refreshToken,
+    cookieOptions({ maxAge: REFRESH_MAX_AGE, path: REFRESH_COOKIE_PATH })
+  );
+  return ensureCSRFCookie(req, res);
+}
+
+/**
+ * Remove all session cookies
+ * @param {Object} res - Express response
+ */
+function clearSessionCookies(res) {
+  res.clearCookie(ACCESS_COOKIE, cookieOptions());
+  res.clearCookie(REFRESH_COOKIE, cookieOptions({ path: REFRESH_COOKIE_PATH }));
+  res.clearCookie(CSRF_COOKIE, cookieOptions({ httpOnly: false }));
+}
+
+/**
+ * Send a login response, moving the tokens into cookies if the client asked for
+ * a cookie session
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @param {Object} body - Login response with token and refreshToken
+ * @param {number} [status]
+ */
+function sendSession(req, res, body, status = 200) {
+  if (!wantsCookieSession(req)) {
+    return res.status(status).json(body);
+  }
+
+  const { token, refreshToken, ...rest } = body;
+  const csrfToken = setSessionCookies(req, res, { token, refreshToken });
+
+  res.status(status).json({ ...rest, csrfToken });
+}
+
+/**
+ * Get the access token from the Authorization header, falling back to the cookie
+ * @param {Object} req - Express request (or a socket handshake request with parsed cookies)
+ * @returns {{token: string|null, fromCookie: boolean}}
+ */
+function getRequestToken(req) {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return { token: authHeader.substring(7), fromCookie: false };
+  }
+
+  const cookieToken = req.cookies?.[ACCESS_COOKIE];
+  return { token: cookieToken || null, fromCookie: Boolean(cookieToken) };
+}
+
+module.exports = {
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  CSRF_COOKIE,
+  wantsCookieSession,
+  setAccessCookie,
+  ensureCSRFCookie,
+  setSessionCookies,
+  clearSessionCookies,
+  sendSession,
+  getRequestToken,
+};
@@ -0,0 +1,72 @@
+const crypto = require('crypto');
+const prisma = require('../prisma/client');
+
+const TOKEN_TTL_MS = {
+  password_reset: 60 * 60 * 1000, // 1 hour
+  email_verification: 24 * 60 * 60 * 1000, // 24 hours
+};
+
+/**
+ * Sign a raw token with the server secret for storage, so a leaked table
+ * can't be replayed and tokens can't be minted without the secret
+ * @param {string} token - Raw token from the emailed link
+ * @returns {string} Hex HMAC digest
+ */
+function signAuthToken(token) {
+  return crypto.createHmac('sha256', process.env.JWT_SECRET).update(token).digest('hex');
+}
+
+/**
+ * Issue a single-use token, replacing any unused ones with the same purpose
+ * @param {string} userId - User ID
+ * @param {'password_reset' | 'email_verification'} purpose
+ * @returns {Promise<string>} Raw token to email to the user
+ */
+async function createAuthToken(userId, purpose) {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await prisma.$transaction(async (tx) => {
+    await tx.authToken.deleteMany({
+      where: { user_id: userId, purpose, used_at: null },
+    });
+
+    await tx.authToken.create({
+      data: {
+        user_id: userId,
+        token: signAuthToken(token),
+        purpose,
+        expires_at: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+      },
+    });
+  });
+
+  return token;
+}
+
+/**
+ * Look up an unused, unexpired token
+ * @param {string} token - Raw token from the emailed link
+ * @param {'password_reset' | 'email_verification'} purpose
+ * @returns {Promise<Object|null>} Stored token record, or null if invalid
+ */
+async function findValidAuthToken(token, purpose) {
+  const authToken = await prisma.authToken.findUnique({
+    where: { token: signAuthToken(token) },
+  });
+
+  if (!authToken || authToken.purpose !== purpose || authToken.used_at) {
+    return null;
+  }
+
+  if (new Date() > authToken.expires_at) {
+    return null;
+  }
+
+  return authToken;
+}
+
+module.exports = {
+  signAuthToken,
+  createAuthToken,
+  findValidAuthToken,
+};
@@ -0,0 +1,82 @@
+const prisma = require('../prisma/client');
+
+/**
+ * Block and mute lookups shared by every module.
+ *
+ * A block works both ways: neither user sees the other's content or can reach them
+ * (messages, calls, QR connect, endorsements, live invites). A mute only hides the
+ * muted user's content from the muter's own feeds.
+ */
+
+/**
+ * Get IDs of users the given user has blocked or been blocked by
+ */
+async function getBlockedUserIds(userId) {
+  const blocks = await prisma.userBlock.findMany({
+    where: {
+      OR: [{ blocker_id: userId }, { blocked_id: userId }],
+    },
+    select: { blocker_id: true, blocked_id: true },
+  });
+
+  return [
+    ...new Set(
+      blocks.map((block) => (block.blocker_id === userId ? block.blocked_id : block.blocker_id))
+    ),
+  ];
+}
+
+/**
+ * Get IDs of users whose content is left out of the given user's feeds
+ * (blocked either way, or muted by them)
+ */
+async function getHiddenUserIds(userId) {
+  const [blockedIds, mutes] = await Promise.all([
+    getBlockedUserIds(userId),
+    prisma.userMute.findMany({
+      where: { muter_id: userId },
+      select: { muted_id: true },
+    }),
+  ]);
+
+  return [...new Set([...blockedIds, ...mutes.map((mute) => mute.muted_id)])];
+}
+
+/**
+ * Check whether either user has blocked the other
+ */
+async function isBlockedBetween(userId, otherUserId) {
+  const block = await prisma.userBlock.findFirst({
+    where: {
+      OR: [
+        { blocker_id: userId, blocked_id: otherUserId },
+        { blocker_id: otherUserId, blocked_id: userId },
+      ],
+    },
+    select: { id: true },
+  });
+
+  return !!block;
+}
+
+/**
+ * Prisma post filter that leaves out posts by the given users and reposts of
+ * their posts
+ */
+function excludePostsByUsers(userIds) {
+  return {
+    AND: [
+      { user_id: { notIn: userIds } },
+      {
+        OR: [{ parent_id: null }, { parent: { user_id: { notIn: userIds } } }],
+      },
+    ],
+  };
+}
+
+module.exports = {
+  getBlockedUserIds,
+  getHiddenUserIds,
+  isBlockedBetween,
+  excludePostsByUsers,
+};
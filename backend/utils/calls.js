@@ -0,0 +1,185 @@
+const prisma = require('../prisma/client');
+const logger = require('./logger');
+const { getBlockedUserIds } = require('./blocks');
+
+/**
+ * Call history for voice and video calls started from a chat thread.
+ *
+ * When a call finishes (hung up, cancelled or declined) a 'call' message is
+ * posted in its thread so the chat keeps a record of it, and everyone who was
+ * rung but never joined gets a missed-call notification.
+ */
+
+// CallSession fields the chat and call history need to show a call
+const callSummarySelect = {
+  id: true,
+  host_id: true,
+  thread_id: true,
+  call_type: true,
+  call_status: true,
+  status: true,
+  started_at: true,
+  answered_at: true,
+  ended_at: true,
+};
+
+const callMessageUserSelect = {
+  id: true,
+  username: true,
+  full_name: true,
+  profile: {
+    select: {
+      avatar_url: true,
+    },
+  },
+};
+
+function toIdList(value) {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * How a call went: 'ongoing' until it ends, then 'declined', 'missed' (nobody
+ * answered) or 'completed'
+ * @param {Object} session - CallSession with type 'call'
+ */
+function getCallOutcome(session) {
+  if (session.call_status === 'rejected') {
+    return 'declined';
+  }
+  if (session.status !== 'ended') {
+    return 'ongoing';
+  }
+  return session.answered_at ? 'completed' : 'missed';
+}
+
+/**
+ * Seconds from answer to hang-up, or null if the call never connected or is
+ * still going
+ */
+function getCallDurationSeconds(session) {
+  if (!session.answered_at || !session.ended_at) {
+    return null;
+  }
+  const ms = new Date(session.ended_at).getTime() - new Date(session.answered_at).getTime();
+  return Math.max(0, Math.round(ms / 1000));
+}
+
+function formatDuration(seconds) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
+
+/**
+ * One-line summary used as the call message's content, e.g. "Missed video call"
+ * or "Voice call (4:05)". Thread lists and search show it as-is.
+ */
+function describeCall(session) {
+  const kind = session.call_type === 'video' ? 'video call' : 'voice call';
+  const outcome = getCallOutcome(session);
+
+  if (outcome === 'declined') {
+    return `Declined ${kind}`;
+  }
+  if (outcome === 'missed') {
+    return `Missed ${kind}`;
+  }
+
+  const label = kind.charAt(0).toUpperCase() + kind.slice(1);
+  const duration = getCallDurationSeconds(session);
+  return duration === null ? label : `${label} (${formatDuration(duration)})`;
+}
+
+/**
+ * Post the call message in the call's thread and send missed-call notifications.
+ * Call once, after the session is marked ended. Errors are logged so ending a
+ * call never fails because of them.
+ * @param {import('socket.io').Server} [io]
+ * @param {Object} session - The ended CallSession
+ */
+async function recordCallEnded(io, session) {
+  if (session.type !== 'call' || !session.thread_id) {
+    return;
+  }
+
+  try {
+    const thread = await prisma.chatThread.findUnique({
+      where: { id: session.thread_id },
+      select: { participants: true },
+    });
+    if (!thread) {
+      return;
+    }
+
+    const message = await prisma.message.create({
+      data: {
+        thread_id: session.thread_id,
+        user_id: session.host_id,
+        type: 'call',
+        content: describeCall(session),
+        call_session_id: session.id,
+      },
+      include: {
+        user: {
+          select: callMessageUserSelect,
+        },
+        call_session: {
+          select: callSummarySelect,
+        },
+      },
+    });
+
+    if (io) {
+      io.to(`thread:${session.thread_id}`).emit('message.new', message);
+    }
+
+    if (getCallOutcome(session) === 'declined') {
+      return;
+    }
+
+    // Everyone who was rung but never joined missed it
+    const blockedIds = await getBlockedUserIds(session.host_id);
+    const joined = toIdList(session.participants);
+    const missedBy = toIdList(thread.participants).filter(
+      (id) => id !== session.host_id && !joined.includes(id) && !blockedIds.includes(id)
+    );
+    if (missedBy.length === 0) {
+      return;
+    }
+
+    const caller = message.user;
+    const title = 'Missed Call';
+    const text = `Missed ${session.call_type === 'video' ? 'video' : 'voice'} call from ${
+      caller?.full_name || caller?.username
+    }`;
+
+    for (const userId of missedBy) {
+      await prisma.notification.create({
+        data: {
+          user_id: userId,
+          sender_id: session.host_id,
+          type: 'missed_call',
+          title,
+          message: text,
+          link: `/chats/${session.thread_id}`,
+        },
+      });
+
+      if (io) {
+        io.to(`user:${userId}`).emit('notification.new', { type: 'missed_call', title, message: text });
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to record call history', { error: error.message, sessionId: session.id });
+  }
+}
+
+module.exports = {
+  callSummarySelect,
+  getCallOutcome,
+  getCallDurationSeconds,
+  describeCall,
+  recordCallEnded,
+};
@@ -0,0 +1,51 @@
+/**
+ * Snippets for chat message search.
+ *
+ * The frontend cuts snippets for device-indexed (encrypted) messages with its own
+ * copy of these rules in frontend/lib/chatSearch.ts, so both kinds of result render
+ * identically. Both copies are tested against the cases in
+ * frontend/tests/fixtures/searchSnippets.json; change them together.
+ */
+
+const SNIPPET_CONTEXT_CHARS = 40;
+const SNIPPET_LENGTH = 120;
+
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Lowercased, whitespace-separated search terms
+ */
+function splitSearchTerms(query) {
+  return typeof query === 'string' ? query.trim().toLowerCase().split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Cut a window of message text around the first matched term and locate every term
+ * inside it
+ */
+function buildSnippet(content, terms) {
+  const lower = content.toLowerCase();
+  const firstMatch = Math.min(
+    ...terms.map((term) => lower.indexOf(term)).filter((index) => index !== -1)
+  );
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${content.slice(start, end)}${end < content.length ? '…' : ''}`;
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const highlights = [];
+  for (const match of snippet.matchAll(pattern)) {
+    highlights.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return { snippet, highlights };
+}
+
+module.exports = {
+  splitSearchTerms,
+  buildSnippet,
+};
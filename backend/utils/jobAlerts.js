@@ -0,0 +1,315 @@
+const prisma = require('../prisma/client');
+const logger = require('./logger');
+const { getBlockedUserIds } = require('./blocks');
+const { sendPushToUser } = require('../services/push');
+
+/**
+ * Saved job searches and their alerts.
+ *
+ * A saved search stores the jobs tab filters plus a salary band. The band is in a
+ * currency and per period, and only matches jobs paid in that currency over that
+ * period, since there are no exchange rates to compare across them. When a job is
+ * posted, users whose searches match it are notified straight away ('instant'),
+ * or in one notification per search from POST /api/background/job-alert-digest
+ * ('daily'). Searches set to 'off' are only kept for running by hand.
+ */
+
+const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Bands without a period are yearly, like the job form's default
+const DEFAULT_SALARY_PERIOD = 'year';
+
+/**
+ * Whether a job's structured salary overlaps the band. Jobs without a salary only
+ * match searches without a band.
+ * @param {Object} job
+ * @param {{salary_min?: number|null, salary_max?: number|null, salary_currency?: string|null, salary_period?: string|null}} band
+ */
+function salaryMatches(job, { salary_min, salary_max, salary_currency, salary_period }) {
+  if (salary_min == null && salary_max == null) {
+    return true;
+  }
+
+  if (
+    job.salary_currency !== salary_currency ||
+    job.salary_period !== (salary_period || DEFAULT_SALARY_PERIOD)
+  ) {
+    return false;
+  }
+
+  const jobMin = job.salary_min != null ? job.salary_min : job.salary_max;
+  const jobMax = job.salary_max != null ? job.salary_max : job.salary_min;
+  if (jobMin == null) {
+    return false;
+  }
+
+  return (salary_min == null || jobMax >= salary_min) && (salary_max == null || jobMin <= salary_max);
+}
+
+/**
+ * Prisma filters for a job search, shared by the jobs listing and digests
+ * @param {Object} search
+ * @param {string} [search.query] - Matched against title, description and company
+ * @param {string} [search.type]
+ * @param {string} [search.location]
+ * @param {string} [search.workplace_type]
+ * @param {string} [search.seniority]
+ * @param {string[]} [search.tags] - Jobs must have all of them
+ * @param {number|null} [search.salary_min]
+ * @param {number|null} [search.salary_max]
+ * @param {string|null} [search.salary_currency] - Required with a band
+ * @param {string|null} [search.salary_period] - Defaults to 'year'
+ * @returns {Object[]} Conditions to AND together
+ */
+function buildJobSearchFilters({
+  query,
+  type,
+  location,
+  workplace_type,
+  seniority,
+  tags,
+  salary_min,
+  salary_max,
+  salary_currency,
+  salary_period,
+}) {
+  const filters = [];
+
+  if (query) {
+    filters.push({
+      OR: [
+        { title: { contains: query, mode: 'insensitive' } },
+        { description: { contains: query, mode: 'insensitive' } },
+        { company: { contains: query, mode: 'insensitive' } },
+      ],
+    });
+  }
+
+  if (type) {
+    filters.push({ type });
+  }
+
+  if (location) {
+    filters.push({ location: { contains: location, mode: 'insensitive' } });
+  }
+
+  if (workplace_type) {
+    filters.push({ workplace_type });
+  }
+
+  if (seniority) {
+    filters.push({ seniority });
+  }
+
+  if (tags && tags.length > 0) {
+    filters.push({ tags: { array_contains: tags } });
+  }
+
+  if (salary_min != null || salary_max != null) {
+    filters.push({ salary_currency, salary_period: salary_period || DEFAULT_SALARY_PERIOD });
+  }
+
+  // Ranges overlap the band; a job with only one bound is treated as that amount
+  if (salary_min != null) {
+    filters.push({
+      OR: [
+        { salary_max: { gte: salary_min } },
+        { salary_max: null, salary_min: { gte: salary_min } },
+      ],
+    });
+  }
+
+  if (salary_max != null) {
+    filters.push({
+      OR: [
+        { salary_min: { lte: salary_max } },
+        { salary_min: null, salary_max: { lte: salary_max } },
+      ],
+    });
+  }
+
+  return filters;
+}
+
+/**
+ * Check a single job against a saved search, mirroring buildJobSearchFilters()
+ * @param {Object} job
+ * @param {Object} search - SavedJobSearch row
+ * @returns {boolean}
+ */
+function jobMatchesSearch(job, search) {
+  const contains = (value, term) =>
+    Boolean(value) && value.toLowerCase().includes(term.toLowerCase());
+
+  if (
+    search.query &&
+    !['title', 'description', 'company'].some((field) => contains(job[field], search.query))
+  ) {
+    return false;
+  }
+
+  if (search.type && job.type !== search.type) {
+    return false;
+  }
+
+  if (search.location && !contains(job.location, search.location)) {
+    return false;
+  }
+
+  if (search.workplace_type && job.workplace_type !== search.workplace_type) {
+    return false;
+  }
+
+  if (search.seniority && job.seniority !== search.seniority) {
+    return false;
+  }
+
+  const tags = Array.isArray(search.tags) ? search.tags : [];
+  const jobTags = Array.isArray(job.tags) ? job.tags : [];
+  if (!tags.every((tag) => jobTags.includes(tag))) {
+    return false;
+  }
+
+  return salaryMatches(job, search);
+}
+
+/**
+ * Create a job alert notification and send it over Socket.io and, if the search
+ * asks for it, web push
+ */
+async function deliverJobAlert(io, { userId, senderId, title, message, link, push }) {
+  await prisma.notification.create({
+    data: {
+      user_id: userId,
+      sender_id: senderId || null,
+      type: 'job_alert',
+      title,
+      message,
+      link,
+    },
+  });
+
+  if (io) {
+    io.to(`user:${userId}`).emit('notification.new', { type: 'job_alert', title, message });
+  }
+
+  if (push) {
+    await sendPushToUser(userId, { title, message, link });
+  }
+}
+
+/**
+ * Notify users with instant alerts whose saved searches match a newly posted job.
+ * Each user gets one notification however many of their searches match. Errors
+ * are logged so posting a job never fails because of alerts.
+ * @param {import('socket.io').Server} [io]
+ * @param {Object} job - The new Job row
+ */
+async function notifyJobAlerts(io, job) {
+  try {
+    const blockedIds = await getBlockedUserIds(job.user_id);
+
+    const searches = await prisma.savedJobSearch.findMany({
+      where: {
+        alert_frequency: 'instant',
+        user_id: { notIn: [job.user_id, ...blockedIds] },
+        OR: [{ type: null }, { type: job.type || undefined }],
+      },
+    });
+
+    const matchesByUser = new Map();
+    for (const search of searches) {
+      if (!jobMatchesSearch(job, search)) continue;
+
+      const existing = matchesByUser.get(search.user_id);
+      matchesByUser.set(search.user_id, {
+        name: existing?.name || search.name,
+        push: Boolean(existing?.push || search.push_enabled),
+      });
+    }
+
+    for (const [userId, match] of matchesByUser) {
+      await deliverJobAlert(io, {
+        userId,
+        senderId: job.user_id,
+        title: 'New Job Match',
+        message: `${job.title}${job.company ? ` at ${job.company}` : ''} matches "${match.name}"`,
+        link: `/careernet/jobs/${job.id}`,
+        push: match.push,
+      });
+    }
+
+    return matchesByUser.size;
+  } catch (error) {
+    logger.error('Failed to send job alerts', { error: error.message, jobId: job.id });
+    return 0;
+  }
+}
+
+/**
+ * Send one notification per daily saved search that has new matches since its
+ * last digest
+ * @param {import('socket.io').Server} [io]
+ * @returns {Promise<{processed: number, notified: number}>}
+ */
+async function sendJobAlertDigests(io) {
+  const now = new Date();
+
+  const searches = await prisma.savedJobSearch.findMany({
+    where: {
+      alert_frequency: 'daily',
+      OR: [
+        { last_digest_at: null },
+        { last_digest_at: { lte: new Date(now.getTime() - DIGEST_INTERVAL_MS) } },
+      ],
+    },
+  });
+
+  let notified = 0;
+  for (const search of searches) {
+    const since = search.last_digest_at || search.created_at;
+    const blockedIds = await getBlockedUserIds(search.user_id);
+
+    const jobs = await prisma.job.findMany({
+      where: {
+        status: 'open',
+        created_at: { gt: since, lte: now },
+        user_id: { notIn: [search.user_id, ...blockedIds] },
+        AND: buildJobSearchFilters({
+          ...search,
+          tags: Array.isArray(search.tags) ? search.tags : [],
+        }),
+      },
+      select: { id: true },
+    });
+
+    if (jobs.length > 0) {
+      await deliverJobAlert(io, {
+        userId: search.user_id,
+        title: 'Job Alert',
+        message:
+          jobs.length === 1
+            ? `1 new job matches "${search.name}"`
+            : `${jobs.length} new jobs match "${search.name}"`,
+        link: `/careernet?savedSearch=${search.id}`,
+        push: search.push_enabled,
+      });
+      notified += 1;
+    }
+
+    await prisma.savedJobSearch.update({
+      where: { id: search.id },
+      data: { last_digest_at: now },
+    });
+  }
+
+  return { processed: searches.length, notified };
+}
+
+module.exports = {
+  salaryMatches,
+  buildJobSearchFilters,
+  jobMatchesSearch,
+  notifyJobAlerts,
+  sendJobAlertDigests,
+};
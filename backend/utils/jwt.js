@@ -24,11 +24,14 @@ function generateToken(payload) {
 }
 
 /**
- * Generate refresh token (long-lived)
+ * Generate refresh token (long-lived). Marked as a refresh token so it is never
+ * accepted as an access token, and given a unique id so two logins in the same
+ * second still get different tokens.
  */
 function generateRefreshToken(payload) {
-  return jwt.sign(payload, JWT_SECRET, {
+  return jwt.sign({ ...payload, type: 'refresh' }, JWT_SECRET, {
     expiresIn: '7d', // Refresh tokens can be longer-lived
+    jwtid: crypto.randomUUID(),
   });
 }
 
@@ -65,10 +68,40 @@ function verifyRefreshTokenHash(token, hashedToken) {
   return crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(hashedToken));
 }
 
+// Challenge tokens use their own key so they can never pass as access tokens
+const TWO_FACTOR_CHALLENGE_SECRET = `${JWT_SECRET}:two-factor-challenge`;
+
+/**
+ * Generate the short-lived token that carries a password-verified login over
+ * to the two-factor step
+ * @param {string} userId - User ID
+ * @returns {string} JWT challenge token
+ */
+function generateTwoFactorChallenge(userId) {
+  return jwt.sign({ id: userId }, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: '5m',
+  });
+}
+
+/**
+ * Verify a two-factor challenge token
+ * @param {string} token - Challenge token
+ * @returns {Object} Decoded token payload
+ */
+function verifyTwoFactorChallenge(token) {
+  try {
+    return jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET);
+  } catch (error) {
+    throw new Error('Invalid or expired challenge');
+  }
+}
+
 module.exports = {
   generateToken,
   generateRefreshToken,
   verifyToken,
   hashRefreshToken,
   verifyRefreshTokenHash,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
 };
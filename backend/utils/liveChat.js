@@ -0,0 +1,32 @@
+/**
+ * Live stream chat rules shared by the live routes and the Socket.io server.
+ *
+ * The host can name moderators. Both can delete chat messages and ban viewers;
+ * only the host can ban a moderator or change who moderates. Banned viewers
+ * can't rejoin the stream, chat or react.
+ */
+
+// Emoji viewers can float over the stream
+const LIVE_REACTIONS = ['❤️', '😂', '😮', '👏', '🔥', '🎉'];
+
+const MAX_SLOW_MODE_SECONDS = 300;
+
+function toIdList(value) {
+  return Array.isArray(value) ? value : [];
+}
+
+function isLiveModerator(session, userId) {
+  return session.host_id === userId || toIdList(session.moderator_ids).includes(userId);
+}
+
+function isBannedFromLive(session, userId) {
+  return toIdList(session.banned_user_ids).includes(userId);
+}
+
+module.exports = {
+  LIVE_REACTIONS,
+  MAX_SLOW_MODE_SECONDS,
+  toIdList,
+  isLiveModerator,
+  isBannedFromLive,
+};
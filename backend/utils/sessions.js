@@ -0,0 +1,191 @@
+const prisma = require('../prisma/client');
+const logger = require('./logger');
+
+/**
+ * Login sessions ("where you're logged in").
+ *
+ * Every login stores one refresh token, and that row's id is the session id. Access
+ * tokens carry it as `sid`, so deleting the row signs the device out: its access
+ * token stops working, its refresh token is gone and its sockets (which join
+ * `session:<id>`) are disconnected. Devices, IPs and last-seen times come from
+ * ActivityLog entries with entity_type 'session'.
+ */
+
+const SESSION_ENTITY = 'session';
+
+/**
+ * Work out browser, OS and device type from a User-Agent header
+ * @param {string} [userAgent]
+ * @returns {{browser: string, os: string, device: 'desktop'|'mobile'|'tablet'}}
+ */
+function parseUserAgent(userAgent) {
+  const ua = userAgent || '';
+
+  let browser = 'Unknown browser';
+  if (/Edg(e|A|iOS)?\//.test(ua)) browser = 'Edge';
+  else if (/OPR\/|Opera/.test(ua)) browser = 'Opera';
+  else if (/SamsungBrowser\//.test(ua)) browser = 'Samsung Internet';
+  else if (/Firefox\/|FxiOS\//.test(ua)) browser = 'Firefox';
+  else if (/Chrome\/|CriOS\//.test(ua)) browser = 'Chrome';
+  else if (/Safari\//.test(ua)) browser = 'Safari';
+
+  let os = 'Unknown OS';
+  if (/iPhone|iPad|iPod/.test(ua)) os = 'iOS';
+  else if (/Android/.test(ua)) os = 'Android';
+  else if (/Windows/.test(ua)) os = 'Windows';
+  else if (/Mac OS X|Macintosh/.test(ua)) os = 'macOS';
+  else if (/CrOS/.test(ua)) os = 'ChromeOS';
+  else if (/Linux/.test(ua)) os = 'Linux';
+
+  let device = 'desktop';
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) device = 'tablet';
+  else if (/Mobi|iPhone|iPod/.test(ua)) device = 'mobile';
+
+  return { browser, os, device };
+}
+
+/**
+ * Log activity for a session (login, token refresh, socket connect). Failures
+ * are logged and swallowed so they never block signing in.
+ * @param {Object} params
+ * @param {string} params.sessionId - Refresh token id
+ * @param {string} params.userId
+ * @param {string} params.action - 'login', 'session_refresh' or 'session_active'
+ * @param {string} [params.ipAddress]
+ * @param {string} [params.userAgent]
+ */
+async function recordSessionActivity({ sessionId, userId, action, ipAddress, userAgent }) {
+  try {
+    await prisma.activityLog.create({
+      data: {
+        user_id: userId,
+        action,
+        entity_type: SESSION_ENTITY,
+        entity_id: sessionId,
+        ip_address: ipAddress || null,
+        user_agent: userAgent || null,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to record session activity', { error: error.message, sessionId, action });
+  }
+}
+
+/**
+ * Check that the session behind an access token hasn't been revoked. Tokens
+ * issued before sessions were tracked have no sid and stay valid until they expire.
+ * @param {Object} decoded - Verified access token payload
+ * @returns {Promise<boolean>}
+ */
+async function isSessionActive(decoded) {
+  if (!decoded.sid) {
+    return true;
+  }
+
+  const session = await prisma.refreshToken.findUnique({
+    where: { id: decoded.sid },
+    select: { user_id: true, expires_at: true },
+  });
+
+  return Boolean(session && session.user_id === decoded.id && session.expires_at > new Date());
+}
+
+/**
+ * List a user's sessions with device details and when each was last seen
+ * @param {string} userId
+ * @param {string} [currentSessionId] - Session making the request
+ */
+async function listSessions(userId, currentSessionId) {
+  const sessions = await prisma.refreshToken.findMany({
+    where: {
+      user_id: userId,
+      expires_at: { gt: new Date() },
+    },
+    select: { id: true, created_at: true, expires_at: true },
+    orderBy: { created_at: 'desc' },
+  });
+
+  if (sessions.length === 0) {
+    return [];
+  }
+
+  // Latest activity per session
+  const activity = await prisma.activityLog.findMany({
+    where: {
+      entity_type: SESSION_ENTITY,
+      entity_id: { in: sessions.map((session) => session.id) },
+    },
+    orderBy: { created_at: 'desc' },
+    distinct: ['entity_id'],
+    select: { entity_id: true, ip_address: true, user_agent: true, created_at: true },
+  });
+  const activityBySession = new Map(activity.map((entry) => [entry.entity_id, entry]));
+
+  return sessions
+    .map((session) => {
+      const latest = activityBySession.get(session.id);
+      return {
+        id: session.id,
+        ...parseUserAgent(latest?.user_agent),
+        ip_address: latest?.ip_address || null,
+        created_at: session.created_at,
+        last_seen_at: latest?.created_at || session.created_at,
+        expires_at: session.expires_at,
+        current: session.id === currentSessionId,
+      };
+    })
+    .sort((a, b) => {
+      if (a.current !== b.current) return a.current ? -1 : 1;
+      return new Date(b.last_seen_at) - new Date(a.last_seen_at);
+    });
+}
+
+/**
+ * Tell a session's sockets they were signed out, then drop them
+ * @param {import('socket.io').Server} [io]
+ * @param {string[]} sessionIds
+ */
+function disconnectSessions(io, sessionIds) {
+  if (!io) return;
+
+  for (const sessionId of sessionIds) {
+    const room = `session:${sessionId}`;
+    io.to(room).emit('session.revoked', { sessionId });
+    io.in(room).disconnectSockets(true);
+  }
+}
+
+/**
+ * Revoke sessions belonging to a user
+ * @param {import('socket.io').Server} [io]
+ * @param {string} userId
+ * @param {string[]} [sessionIds] - Leave out to revoke every session
+ * @returns {Promise<string[]>} IDs of the revoked sessions
+ */
+async function revokeSessions(io, userId, sessionIds) {
+  const where = sessionIds ? { user_id: userId, id: { in: sessionIds } } : { user_id: userId };
+
+  const sessions = await prisma.refreshToken.findMany({
+    where,
+    select: { id: true },
+  });
+  const ids = sessions.map((session) => session.id);
+
+  if (ids.length > 0) {
+    await prisma.refreshToken.deleteMany({
+      where: { id: { in: ids } },
+    });
+    disconnectSessions(io, ids);
+  }
+
+  return ids;
+}
+
+module.exports = {
+  parseUserAgent,
+  recordSessionActivity,
+  isSessionActive,
+  listSessions,
+  disconnectSessions,
+  revokeSessions,
+};
@@ -0,0 +1,92 @@
+const prisma = require('../prisma/client');
+const { verifyCode, decryptSecret, generateRecoveryCodes, hashRecoveryCode } = require('./totp');
+
+// Staff accounts can't use moderation tools without two-factor authentication
+const TWO_FACTOR_REQUIRED_ROLES = ['admin', 'moderator'];
+
+/**
+ * Whether a role must have two-factor authentication enabled
+ * @param {string} role - User role
+ * @returns {boolean}
+ */
+function isTwoFactorRequired(role) {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role);
+}
+
+/**
+ * Check an authenticator code or recovery code for a user with 2FA enabled.
+ * Accepted codes are used up: a TOTP step can't be replayed and a recovery
+ * code works once.
+ * @param {{ id: string, two_factor_secret: string|null }} user
+ * @param {string} code - 6-digit authenticator code or recovery code
+ * @returns {Promise<'totp'|'recovery'|null>} How the user verified, or null
+ */
+async function verifySecondFactor(user, code) {
+  const normalized = String(code || '').trim();
+
+  if (/^\d{6}$/.test(normalized.replace(/\s/g, ''))) {
+    if (!user.two_factor_secret) {
+      return null;
+    }
+
+    const step = verifyCode(decryptSecret(user.two_factor_secret), normalized);
+    if (step === null) {
+      return null;
+    }
+
+    // Only move forward, so the same code can't be accepted twice
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ two_factor_last_step: null }, { two_factor_last_step: { lt: step } }],
+      },
+      data: { two_factor_last_step: step },
+    });
+
+    return updated.count === 1 ? 'totp' : null;
+  }
+
+  if (!normalized) {
+    return null;
+  }
+
+  const used = await prisma.recoveryCode.updateMany({
+    where: {
+      user_id: user.id,
+      code_hash: hashRecoveryCode(normalized),
+      used_at: null,
+    },
+    data: { used_at: new Date() },
+  });
+
+  return used.count > 0 ? 'recovery' : null;
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set
+ * @param {Object} tx - Prisma client or transaction client
+ * @param {string} userId - User ID
+ * @returns {Promise<string[]>} Plain codes, to show the user once
+ */
+async function replaceRecoveryCodes(tx, userId) {
+  const codes = generateRecoveryCodes();
+
+  await tx.recoveryCode.deleteMany({
+    where: { user_id: userId },
+  });
+
+  await tx.recoveryCode.createMany({
+    data: codes.map((code) => ({
+      user_id: userId,
+      code_hash: hashRecoveryCode(code),
+    })),
+  });
+
+  return codes;
+}
+
+module.exports = {
+  isTwoFactorRequired,
+  verifySecondFactor,
+  replaceRecoveryCodes,
+};
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import Button from './Button';
+import ConfirmModal from './ConfirmModal';
+import LoadingSpinner from './LoadingSpinner';
+import { sessionsAPI } from '../lib/api';
+import { clearAuth } from '../lib/auth';
+import { disconnectSocket } from '../lib/socket';
+import type { LoginSession } from '../types';
+
+const deviceIcons: Record<LoginSession['device'], string> = {
+  desktop: '💻',
+  mobile: '📱',
+  tablet: '📲',
+};
+
+function errorMessage(error: unknown, fallback: string): string {
+  return (isAxiosError(error) && error.response?.data?.error) || fallback;
+}
+
+/**
+ * "Where you're logged in": every device with a live session, with sign-out
+ * for one device or all of them
+ */
+export default function ActiveSessions() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [showSignOutAll, setShowSignOutAll] = useState(false);
+  const [error, setError] = useState('');
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: () => sessionsAPI.getAll(),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => sessionsAPI.revoke(sessionId),
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to sign out device')),
+  });
+
+  const revokeAllMutation = useMutation({
+    // Drop our own socket first so its revoked event doesn't race the redirect
+    onMutate: () => disconnectSocket(),
+    mutationFn: () => sessionsAPI.revokeAll(),
+    onSuccess: () => {
+      clearAuth();
+      router.push('/login');
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to sign out everywhere')),
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <h2 className="text-lg font-bold text-gray-900 mb-4">Where You&apos;re Logged In</h2>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <ul className="divide-y divide-gray-100">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center gap-3 py-3">
+                <span className="text-2xl" aria-hidden="true">
+                  {deviceIcons[session.device]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {session.browser} on {session.os}
+                    {session.current && (
+                      <span className="ml-2 text-xs font-medium text-green-700">This device</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {session.ip_address || 'Unknown IP'} · Last active{' '}
+                    {new Date(session.last_seen_at).toLocaleString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                    className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Sign out
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <Button
+            variant="outline"
+            onClick={() => setShowSignOutAll(true)}
+            loading={revokeAllMutation.isPending}
+            className="w-full"
+          >
+            Sign Out Everywhere
+          </Button>
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={showSignOutAll}
+        title="Sign Out Everywhere"
+        message="This signs you out on every device, including this one."
+        confirmText="Sign Out"
+        confirmVariant="danger"
+        onConfirm={() => {
+          setShowSignOutAll(false);
+          revokeAllMutation.mutate();
+        }}
+        onCancel={() => setShowSignOutAll(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { ApplicationStatus } from '../types';
+
+// Pipeline order, as the columns appear on the applicants board
+export const applicationStatuses: ApplicationStatus[] = [
+  'pending',
+  'reviewed',
+  'interviewed',
+  'accepted',
+  'rejected',
+];
+
+export const applicationStatusLabels: Record<ApplicationStatus, string> = {
+  pending: 'New',
+  reviewed: 'Reviewed',
+  interviewed: 'Interviewing',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+};
+
+const statusStyles: Record<ApplicationStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  reviewed: 'bg-blue-100 text-blue-700',
+  interviewed: 'bg-purple-100 text-purple-700',
+  accepted: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+export default function ApplicationStatusBadge({ status }: { status: ApplicationStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${statusStyles[status]}`}>
+      {applicationStatusLabels[status]}
+    </span>
+  );
+}
@@ -22,7 +22,8 @@ export default function BookmarkButton({ postId }: BookmarkButtonProps) {
   }, [data]);
 
   const bookmarkMutation = useMutation({
-    mutationFn: () => (bookmarked ? bookmarksAPI.unbookmark(postId) : bookmarksAPI.bookmark(postId)),
+    mutationFn: (): Promise<unknown> =>
+      bookmarked ? bookmarksAPI.unbookmark(postId) : bookmarksAPI.bookmark(postId),
     onSuccess: () => {
       setBookmarked(!bookmarked);
       queryClient.invalidateQueries({ queryKey: ['bookmarkCheck', postId] });
@@ -1,15 +1,37 @@
 import { useRouter } from 'next/router';
 import Link from 'next/link';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { chatsAPI } from '../lib/api';
 import { getUser } from '../lib/auth';
+import { useSocketEvent, useSocketRoom } from '../lib/socket';
 
 export default function BottomNav() {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const user = getUser();
 
+  const { data: unreadData } = useQuery({
+    queryKey: ['chatUnread'],
+    queryFn: () => chatsAPI.getUnreadCount(),
+    enabled: !!user?.id,
+    refetchInterval: false, // Socket.io events below keep the badge current
+    staleTime: 2 * 60 * 1000,
+  });
+  const unreadMessages = unreadData?.unreadCount || 0;
+
+  // Refresh unread counts when a message arrives or is read on another device
+  const handleUnreadChange = () => {
+    queryClient.invalidateQueries({ queryKey: ['chatUnread'] });
+    queryClient.invalidateQueries({ queryKey: ['chatThreads'] });
+  };
+  useSocketRoom(user?.id ? `user:${user.id}` : null);
+  useSocketEvent('thread.unread', handleUnreadChange, !!user?.id);
+  useSocketEvent('thread.read', handleUnreadChange, !!user?.id);
+
   const navItems = [
     { href: '/home', icon: '🏠', label: 'Home' },
     { href: '/search', icon: '🔍', label: 'Search' },
-    { href: '/chats', icon: '💬', label: 'Messages' },
+    { href: '/chats', icon: '💬', label: 'Messages', badge: unreadMessages },
     { href: user?.username ? `/${user.username}/profile` : '/home', icon: '👤', label: 'Profile' },
     { href: '/more', icon: '⋯', label: 'More', isMore: true },
   ];
@@ -68,7 +90,14 @@ export default function BottomNav() {
                   : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
               } transition-colors touch-manipulation`}
             >
-              <span className="text-xl sm:text-2xl mb-0.5 sm:mb-1 flex-shrink-0">{item.icon}</span>
+              <span className="relative text-xl sm:text-2xl mb-0.5 sm:mb-1 flex-shrink-0">
+                {item.icon}
+                {!!item.badge && (
+                  <span className="absolute -top-1 -right-3 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+                    {item.badge > 99 ? '99+' : item.badge}
+                  </span>
+                )}
+              </span>
               <span className="text-[10px] sm:text-xs font-medium truncate w-full text-center">{item.label}</span>
             </Link>
           );
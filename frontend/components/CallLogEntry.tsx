@@ -0,0 +1,56 @@
+import Link from 'next/link';
+import {
+  callBackHref,
+  describeCall,
+  formatCallDuration,
+  getCallDurationSeconds,
+  getCallOutcome,
+} from '../lib/calls';
+import type { Message } from '../types';
+
+interface CallLogEntryProps {
+  message: Message;
+  currentUserId?: string;
+}
+
+/**
+ * A finished call, shown in the chat thread in place of a message
+ */
+export default function CallLogEntry({ message, currentUserId }: CallLogEntryProps) {
+  const call = message.call_session;
+
+  // The call itself is gone; keep the summary the server wrote
+  if (!call) {
+    return (
+      <p className="text-xs text-gray-500 bg-gray-100 rounded-full px-3 py-1 text-center">
+        📞 {message.content}
+      </p>
+    );
+  }
+
+  const outcome = getCallOutcome(call);
+  const direction = call.host_id === currentUserId ? 'outgoing' : 'incoming';
+  const duration = getCallDurationSeconds(call);
+  const isMissed = outcome === 'missed' && direction === 'incoming';
+
+  return (
+    <div className="flex items-center gap-3 bg-gray-100 rounded-full pl-3 pr-1 py-1 text-xs">
+      <span aria-hidden="true">{call.call_type === 'video' ? '📹' : '📞'}</span>
+      <span className={isMissed ? 'text-red-600 font-medium' : 'text-gray-600'}>
+        {describeCall(call, outcome, direction)}
+        {duration !== null && ` · ${formatCallDuration(duration)}`}
+      </span>
+      <span className="text-gray-400">
+        {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </span>
+      {call.thread_id && outcome !== 'ongoing' && (
+        <Link
+          href={callBackHref(call.thread_id, call.call_type)}
+          className="px-3 py-1 rounded-full bg-white text-blue-600 font-medium hover:bg-blue-50"
+        >
+          Call back
+        </Link>
+      )}
+    </div>
+  );
+}
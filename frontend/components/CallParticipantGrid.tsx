@@ -0,0 +1,81 @@
+import { useEffect, useRef } from 'react';
+
+export interface CallTile {
+  id: string; // Daily session ID
+  name: string;
+  videoTrack?: MediaStreamTrack | null;
+  isLocal?: boolean;
+}
+
+interface CallParticipantGridProps {
+  tiles: CallTile[];
+  activeSpeakerId?: string | null;
+}
+
+// Columns grow with the call so tiles stay a usable size
+function gridColumns(count: number): string {
+  if (count <= 1) return 'grid-cols-1';
+  if (count === 2) return 'grid-cols-1 sm:grid-cols-2';
+  if (count <= 4) return 'grid-cols-2';
+  if (count <= 9) return 'grid-cols-2 sm:grid-cols-3';
+  return 'grid-cols-3 sm:grid-cols-4';
+}
+
+function Tile({ tile, isSpeaking }: { tile: CallTile; isSpeaking: boolean }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { videoTrack } = tile;
+
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !videoTrack) return;
+
+    videoElement.srcObject = new MediaStream([videoTrack]);
+    videoElement.play().catch((err) => {
+      console.error('Failed to play participant video', err);
+    });
+
+    return () => {
+      videoElement.srcObject = null;
+    };
+  }, [videoTrack]);
+
+  return (
+    <div
+      className={`relative aspect-video bg-gray-800 rounded-lg overflow-hidden transition-shadow ${
+        isSpeaking ? 'ring-4 ring-green-500' : ''
+      }`}
+    >
+      {videoTrack ? (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted // Audio plays through separate elements
+          className={`w-full h-full object-cover ${tile.isLocal ? '-scale-x-100' : ''}`}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <div className="w-16 h-16 sm:w-20 sm:h-20 rounded-full bg-blue-600 flex items-center justify-center text-2xl sm:text-3xl text-white">
+            {tile.name.charAt(0).toUpperCase()}
+          </div>
+        </div>
+      )}
+      <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs truncate max-w-[90%]">
+        {tile.name}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Everyone in a call, one tile each, with the active speaker outlined
+ */
+export default function CallParticipantGrid({ tiles, activeSpeakerId }: CallParticipantGridProps) {
+  return (
+    <div className={`grid ${gridColumns(tiles.length)} gap-2 p-2 w-full max-w-6xl mx-auto`}>
+      {tiles.map((tile) => (
+        <Tile key={tile.id} tile={tile} isSpeaking={tiles.length > 1 && tile.id === activeSpeakerId} />
+      ))}
+    </div>
+  );
+}
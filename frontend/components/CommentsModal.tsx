@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import { commentsAPI } from '../lib/api';
 import { getUser } from '../lib/auth';
+import { useSocketEvent, useSocketRoom } from '../lib/socket';
 import Button from './Button';
+import EditedLabel from './EditedLabel';
 import Input from './Input';
 import Image from 'next/image';
 import Link from 'next/link';
@@ -15,6 +18,8 @@ interface CommentsModalProps {
 
 export default function CommentsModal({ postId, isOpen, onClose }: CommentsModalProps) {
   const [commentText, setCommentText] = useState('');
+  const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
   const queryClient = useQueryClient();
   const currentUser = getUser();
 
@@ -38,6 +43,42 @@ export default function CommentsModal({ postId, isOpen, onClose }: CommentsModal
     },
   });
 
+  const editMutation = useMutation({
+    mutationFn: ({ commentId, content }: { commentId: string; content: string }) =>
+      commentsAPI.update(commentId, content),
+    onSuccess: (updated) => {
+      setEditingCommentId(null);
+      queryClient.invalidateQueries({ queryKey: ['comments', postId] });
+      queryClient.invalidateQueries({ queryKey: ['revisions', 'comment', updated.id] });
+    },
+    onError: (error) => {
+      alert((isAxiosError(error) && error.response?.data?.error) || 'Failed to edit comment');
+    },
+  });
+
+  // Pick up edits made elsewhere while the modal is open
+  useSocketRoom(isOpen ? 'posts' : null);
+  useSocketEvent(
+    'comment.updated',
+    (comment) => {
+      if (comment.post_id === postId) {
+        queryClient.invalidateQueries({ queryKey: ['comments', postId] });
+      }
+    },
+    isOpen
+  );
+
+  const startEditing = (commentId: string, content: string) => {
+    setEditingCommentId(commentId);
+    setEditText(content);
+  };
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingCommentId || !editText.trim()) return;
+    editMutation.mutate({ commentId: editingCommentId, content: editText.trim() });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!commentText.trim()) return;
@@ -100,13 +141,59 @@ export default function CommentsModal({ postId, isOpen, onClose }: CommentsModal
                           {comment.user.full_name}
                         </p>
                       </Link>
-                      <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">
-                        {comment.content}
+                      {editingCommentId === comment.id ? (
+                        <form onSubmit={handleEditSubmit} className="flex gap-2 mt-1">
+                          <Input
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            className="flex-1"
+                            autoFocus
+                          />
+                          <Button
+                            type="submit"
+                            variant="primary"
+                            loading={editMutation.isPending}
+                            disabled={!editText.trim()}
+                            className="px-3"
+                          >
+                            Save
+                          </Button>
+                        </form>
+                      ) : (
+                        <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">
+                          {comment.content}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 mt-1">
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(comment.created_at).toLocaleDateString()}
                       </p>
+                      <EditedLabel
+                        type="comment"
+                        id={comment.id}
+                        authorId={comment.user.id}
+                        editedAt={comment.edited_at}
+                      />
+                      {currentUser?.id === comment.user.id &&
+                        (editingCommentId === comment.id ? (
+                          <button
+                            type="button"
+                            onClick={() => setEditingCommentId(null)}
+                            className="text-xs text-gray-600 dark:text-gray-400 hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => startEditing(comment.id, comment.content)}
+                            className="text-xs text-gray-600 dark:text-gray-400 hover:underline"
+                          >
+                            Edit
+                          </button>
+                        ))}
                     </div>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                      {new Date(comment.created_at).toLocaleDateString()}
-                    </p>
                   </div>
                 </div>
               ))}
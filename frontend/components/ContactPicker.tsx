@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import Image from 'next/image';
+import Input from './Input';
+import LoadingSpinner from './LoadingSpinner';
+import { contactsAPI } from '../lib/api';
+
+interface ContactPickerProps {
+  selectedIds: string[];
+  onToggle: (userId: string) => void;
+  excludeIds?: string[]; // e.g. people already in the group
+}
+
+/**
+ * Searchable multi-select list of the current user's contacts
+ */
+export default function ContactPicker({ selectedIds, onToggle, excludeIds = [] }: ContactPickerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const { data: contactsData, isLoading } = useQuery({
+    queryKey: ['contacts'],
+    queryFn: () => contactsAPI.getContacts(),
+  });
+
+  const query = searchQuery.toLowerCase();
+  const users = (contactsData?.contacts || [])
+    .flatMap((contact) => (contact.user ? [contact.user] : []))
+    .filter((user) => !excludeIds.includes(user.id))
+    .filter(
+      (user) =>
+        user.full_name.toLowerCase().includes(query) || user.username.toLowerCase().includes(query)
+    );
+
+  return (
+    <div className="space-y-3">
+      <Input
+        type="text"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        placeholder="Search contacts..."
+      />
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-center text-gray-500 py-6">
+          {searchQuery ? 'No contacts found' : 'No contacts to add'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {users.map((user) => {
+            const selected = selectedIds.includes(user.id);
+            return (
+              <button
+                key={user.id}
+                type="button"
+                onClick={() => onToggle(user.id)}
+                className={`w-full bg-white rounded-lg shadow-sm border p-3 flex items-center gap-3 ${
+                  selected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                {user.profile?.avatar_url ? (
+                  <Image
+                    src={user.profile.avatar_url}
+                    alt={user.full_name}
+                    width={40}
+                    height={40}
+                    className="rounded-full"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center">
+                    {user.full_name.charAt(0)}
+                  </div>
+                )}
+                <div className="flex-1 text-left">
+                  <p className="font-semibold text-gray-900">{user.full_name}</p>
+                  <p className="text-sm text-gray-500">@{user.username}</p>
+                </div>
+                <input type="checkbox" checked={selected} readOnly className="w-4 h-4" />
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import Button from './Button';
 import { postsAPI, pollsAPI } from '../lib/api';
-import { getSocket } from '../lib/socket';
 
 interface CreatePostModalProps {
   isOpen: boolean;
@@ -158,10 +157,6 @@ export default function CreatePostModal({
         await pollsAPI.create(post.id, validOptions);
       }
 
-      // Subscribe to posts channel and emit new post
-      const socket = getSocket();
-      socket.emit('subscribe:posts');
-
       // Reset form
       setContent('');
       setSelectedModules(isReelMode ? ['visuals'] : []);
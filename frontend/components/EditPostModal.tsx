@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { postsAPI } from '../lib/api';
+import { applyPostEdit } from '../lib/postCache';
+import Button from './Button';
+
+interface EditPostModalProps {
+  post: {
+    id: string;
+    content: string;
+  };
+  onClose: () => void;
+}
+
+/**
+ * Mount only while editing so the draft starts from the latest content
+ */
+export default function EditPostModal({ post, onClose }: EditPostModalProps) {
+  const [content, setContent] = useState(post.content);
+  const queryClient = useQueryClient();
+
+  const editMutation = useMutation({
+    mutationFn: (newContent: string) => postsAPI.update(post.id, { content: newContent }),
+    onSuccess: (updated) => {
+      applyPostEdit(queryClient, updated);
+      queryClient.invalidateQueries({ queryKey: ['revisions', 'post', post.id] });
+      onClose();
+    },
+    onError: (error) => {
+      alert((isAxiosError(error) && error.response?.data?.error) || 'Failed to edit post');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = content.trim();
+    if (!trimmed || editMutation.isPending) return;
+
+    if (trimmed === post.content) {
+      onClose();
+      return;
+    }
+    editMutation.mutate(trimmed);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end sm:items-center justify-center z-50 p-0 sm:p-4 safe-area-top safe-area-bottom">
+      <div className="bg-white dark:bg-gray-800 rounded-t-2xl sm:rounded-lg max-w-md w-full p-6 max-h-[95vh] sm:max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4">Edit Post</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            rows={5}
+            autoFocus
+            required
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Reactions and comments are kept. Earlier versions stay in the edit history.
+          </p>
+
+          <div className="flex gap-3">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={onClose}
+              className="flex-1"
+              disabled={editMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              loading={editMutation.isPending}
+              disabled={!content.trim()}
+              className="flex-1"
+            >
+              Save
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
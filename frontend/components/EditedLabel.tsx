@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { commentsAPI, postsAPI } from '../lib/api';
+import { getUser } from '../lib/auth';
+import LoadingSpinner from './LoadingSpinner';
+
+interface EditedLabelProps {
+  type: 'post' | 'comment';
+  id: string;
+  authorId: string;
+  editedAt?: string | null;
+  className?: string;
+}
+
+/**
+ * "Edited" marker for posts and comments. The author, admins and moderators can
+ * open it to see the versions the edits replaced.
+ */
+export default function EditedLabel({ type, id, authorId, editedAt, className = '' }: EditedLabelProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const currentUser = getUser();
+  const canViewHistory =
+    currentUser?.id === authorId ||
+    currentUser?.role === 'admin' ||
+    currentUser?.role === 'moderator';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['revisions', type, id],
+    queryFn: () => (type === 'post' ? postsAPI.getRevisions(id) : commentsAPI.getRevisions(id)),
+    enabled: showHistory,
+  });
+
+  if (!editedAt) return null;
+
+  const title = `Edited ${new Date(editedAt).toLocaleString()}`;
+
+  if (!canViewHistory) {
+    return (
+      <span className={`text-xs text-gray-500 dark:text-gray-400 ${className}`} title={title}>
+        (edited)
+      </span>
+    );
+  }
+
+  const revisions = data?.revisions || [];
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setShowHistory(true)}
+        className={`text-xs text-gray-500 dark:text-gray-400 hover:underline ${className}`}
+        title={title}
+      >
+        (edited)
+      </button>
+
+      {showHistory && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50"
+          onClick={() => setShowHistory(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full max-h-[80vh] flex flex-col"
+            role="dialog"
+            aria-modal="true"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">Edit history</h2>
+              <button
+                type="button"
+                onClick={() => setShowHistory(false)}
+                className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 text-2xl"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <LoadingSpinner size="md" />
+                </div>
+              ) : revisions.length === 0 ? (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                  No earlier versions
+                </p>
+              ) : (
+                <ol className="space-y-4">
+                  {revisions.map((revision) => (
+                    <li key={revision.id} className="border-l-2 border-gray-200 dark:border-gray-600 pl-3">
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        Replaced {new Date(revision.created_at).toLocaleString()}
+                      </p>
+                      <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                        {revision.content}
+                      </p>
+                      {revision.tags && revision.tags.length > 0 && (
+                        <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                          {revision.tags.map((tag) => `#${tag}`).join(' ')}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
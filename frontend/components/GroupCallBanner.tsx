@@ -0,0 +1,70 @@
+import Link from 'next/link';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { liveAPI } from '../lib/api';
+import { useSocketEvent } from '../lib/socket';
+import type { ActiveCall, UserSummary } from '../types';
+
+interface GroupCallBannerProps {
+  threadId: string;
+  members: UserSummary[]; // Thread participants other than the current user
+  currentUserId?: string;
+}
+
+/**
+ * "Call in progress" bar at the top of a group chat, kept live over Socket.io
+ */
+export default function GroupCallBanner({ threadId, members, currentUserId }: GroupCallBannerProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ['activeCall', threadId];
+
+  const { data } = useQuery({
+    queryKey,
+    queryFn: () => liveAPI.getActiveCall(threadId),
+  });
+
+  useSocketEvent('call.group.updated', (event) => {
+    if (event.threadId !== threadId) return;
+
+    const current = queryClient.getQueryData<{ call: ActiveCall | null }>(queryKey);
+    if (event.status === 'ended') {
+      queryClient.setQueryData(queryKey, { call: null });
+    } else if (current?.call?.id === event.sessionId) {
+      queryClient.setQueryData(queryKey, {
+        call: { ...current.call, active_participant_ids: event.activeParticipantIds },
+      });
+    } else {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  const call = data?.call;
+  if (!call) {
+    return null;
+  }
+
+  const inCall = call.active_participant_ids;
+  const names = inCall.map((id) =>
+    id === currentUserId ? 'You' : members.find((member) => member.id === id)?.full_name || 'Someone'
+  );
+  const isVideo = call.call_type === 'video';
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-green-50 border-b border-green-200">
+      <span className="text-xl" aria-hidden="true">
+        {isVideo ? '📹' : '📞'}
+      </span>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-green-800">
+          {isVideo ? 'Video' : 'Voice'} call in progress · {inCall.length} in call
+        </p>
+        {names.length > 0 && <p className="text-xs text-green-700 truncate">{names.join(', ')}</p>}
+      </div>
+      <Link
+        href={`/chats/${threadId}/call?type=${isVideo ? 'video' : 'voice'}&sessionId=${call.id}`}
+        className="px-4 py-1.5 rounded-full bg-green-600 hover:bg-green-700 text-white text-sm font-medium"
+      >
+        {currentUserId && inCall.includes(currentUserId) ? 'Return' : 'Join'}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+import { useState } from 'react';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+import type { careernetAPI } from '../lib/api';
+import { salaryPeriodLabels, seniorityLabels, workplaceTypeLabels } from '../lib/jobs';
+import type { SalaryPeriod, SeniorityLevel, WorkplaceType } from '../lib/jobs';
+import type { Job } from '../types';
+
+type JobInput = Parameters<typeof careernetAPI.createJob>[0];
+
+interface JobFormProps {
+  job?: Job;
+  submitLabel: string;
+  isSubmitting: boolean;
+  error?: string;
+  onSubmit: (data: JobInput) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+// <input type="date"> works in local calendar days
+function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function initialValues(job?: Job) {
+  return {
+    title: job?.title || '',
+    description: job?.description || '',
+    company: job?.company || '',
+    location_city: job?.location_city || '',
+    location_country: job?.location_country || '',
+    workplace_type: job?.workplace_type || '',
+    type: job?.type || '',
+    seniority: job?.seniority || '',
+    salary_min: job?.salary_min != null ? String(job.salary_min) : '',
+    salary_max: job?.salary_max != null ? String(job.salary_max) : '',
+    salary_currency: job?.salary_currency || 'USD',
+    salary_period: job?.salary_period || 'year',
+    requirements: job?.requirements?.join('\n') || '',
+    tags: job?.tags?.join(', ') || '',
+    application_url: job?.application_url || '',
+    application_email: job?.application_email || '',
+    expires_at: job?.expires_at ? toDateInput(new Date(job.expires_at)) : '',
+  };
+}
+
+function toAmount(value: string): number | null {
+  return value.trim() ? Math.round(Number(value)) : null;
+}
+
+/**
+ * Job posting form, shared by posting a new job and editing one. Cleared optional
+ * fields are sent as null so an edit removes them.
+ */
+export default function JobForm({
+  job,
+  submitLabel,
+  isSubmitting,
+  error,
+  onSubmit,
+  onCancel,
+}: JobFormProps) {
+  const [formData, setFormData] = useState(() => initialValues(job));
+
+  const salaryMin = toAmount(formData.salary_min);
+  const salaryMax = toAmount(formData.salary_max);
+  const hasSalary = salaryMin != null || salaryMax != null;
+  const salaryError =
+    salaryMin != null && salaryMax != null && salaryMin > salaryMax
+      ? 'Minimum salary cannot be more than the maximum'
+      : '';
+
+  // Older jobs may only have a free-text location; keep it unless one is entered
+  const legacyLocation =
+    job?.location && !job.location_city && !job.location_country ? job.location : null;
+  const keepLegacyLocation =
+    Boolean(legacyLocation) && !formData.location_city.trim() && !formData.location_country.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title.trim() || !formData.description.trim() || salaryError) return;
+
+    onSubmit({
+      title: formData.title.trim(),
+      description: formData.description.trim(),
+      company: formData.company.trim() || null,
+      ...(!keepLegacyLocation && {
+        location_city: formData.location_city.trim() || null,
+        location_country: formData.location_country.trim() || null,
+      }),
+      workplace_type: (formData.workplace_type || null) as WorkplaceType | null,
+      type: formData.type || null,
+      seniority: (formData.seniority || null) as SeniorityLevel | null,
+      salary_min: salaryMin,
+      salary_max: salaryMax,
+      salary_currency: hasSalary ? formData.salary_currency.trim() || null : null,
+      salary_period: hasSalary ? (formData.salary_period as SalaryPeriod) : null,
+      requirements: formData.requirements.split('\n').filter((r) => r.trim()),
+      tags: formData.tags.split(',').map((t) => t.trim()).filter((t) => t),
+      application_url: formData.application_url.trim() || null,
+      application_email: formData.application_email.trim() || null,
+      // Open until the end of the chosen day
+      expires_at: formData.expires_at
+        ? new Date(`${formData.expires_at}T23:59:59`).toISOString()
+        : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="job-title" className="block text-sm font-medium text-gray-700 mb-1">
+          Job Title *
+        </label>
+        <input
+          id="job-title"
+          type="text"
+          value={formData.title}
+          onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+          className={inputClassName}
+          placeholder="e.g., Senior Software Engineer"
+          required
+        />
+      </div>
+
+      <div>
+        <label htmlFor="job-description" className="block text-sm font-medium text-gray-700 mb-1">
+          Description *
+        </label>
+        <textarea
+          id="job-description"
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          className={inputClassName}
+          rows={8}
+          placeholder="Describe the job position..."
+          required
+        />
+      </div>
+
+      <div>
+        <label htmlFor="job-company" className="block text-sm font-medium text-gray-700 mb-1">
+          Company
+        </label>
+        <input
+          id="job-company"
+          type="text"
+          value={formData.company}
+          onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+          className={inputClassName}
+          placeholder="Company name"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="job-city" className="block text-sm font-medium text-gray-700 mb-1">
+            City
+          </label>
+          <input
+            id="job-city"
+            type="text"
+            value={formData.location_city}
+            onChange={(e) => setFormData({ ...formData, location_city: e.target.value })}
+            className={inputClassName}
+            placeholder="e.g., Berlin"
+            maxLength={100}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="job-country" className="block text-sm font-medium text-gray-700 mb-1">
+            Country
+          </label>
+          <input
+            id="job-country"
+            type="text"
+            value={formData.location_country}
+            onChange={(e) => setFormData({ ...formData, location_country: e.target.value })}
+            className={inputClassName}
+            placeholder="e.g., Germany"
+            maxLength={100}
+          />
+        </div>
+
+        <div className="col-span-2 sm:col-span-1">
+          <label htmlFor="job-workplace" className="block text-sm font-medium text-gray-700 mb-1">
+            Workplace
+          </label>
+          <select
+            id="job-workplace"
+            value={formData.workplace_type}
+            onChange={(e) => setFormData({ ...formData, workplace_type: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Not specified</option>
+            {Object.entries(workplaceTypeLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {legacyLocation && (
+          <p className="col-span-2 sm:col-span-3 -mt-2 text-xs text-gray-500">
+            Previously listed as: {legacyLocation}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="job-type" className="block text-sm font-medium text-gray-700 mb-1">
+            Job Type
+          </label>
+          <select
+            id="job-type"
+            value={formData.type}
+            onChange={(e) => setFormData({ ...formData, type: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select type</option>
+            <option value="full-time">Full-time</option>
+            <option value="part-time">Part-time</option>
+            <option value="contract">Contract</option>
+            <option value="internship">Internship</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="job-seniority" className="block text-sm font-medium text-gray-700 mb-1">
+            Seniority
+          </label>
+          <select
+            id="job-seniority"
+            value={formData.seniority}
+            onChange={(e) => setFormData({ ...formData, seniority: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select level</option>
+            {Object.entries(seniorityLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-1">Salary</legend>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={formData.salary_min}
+            onChange={(e) => setFormData({ ...formData, salary_min: e.target.value })}
+            className={inputClassName}
+            placeholder="Min"
+            aria-label="Minimum salary"
+          />
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={formData.salary_max}
+            onChange={(e) => setFormData({ ...formData, salary_max: e.target.value })}
+            className={inputClassName}
+            placeholder="Max"
+            aria-label="Maximum salary"
+          />
+          <input
+            type="text"
+            value={formData.salary_currency}
+            onChange={(e) =>
+              setFormData({ ...formData, salary_currency: e.target.value.toUpperCase() })
+            }
+            className={inputClassName}
+            placeholder="USD"
+            aria-label="Salary currency"
+            maxLength={3}
+            pattern="[A-Za-z]{3}"
+          />
+          <select
+            value={formData.salary_period}
+            onChange={(e) => setFormData({ ...formData, salary_period: e.target.value as SalaryPeriod })}
+            className={inputClassName}
+            aria-label="Salary period"
+          >
+            {Object.entries(salaryPeriodLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {salaryError ? (
+          <p className="text-xs text-red-600 mt-1">{salaryError}</p>
+        ) : (
+          job?.salary_range &&
+          job.salary_min == null &&
+          job.salary_max == null && (
+            <p className="text-xs text-gray-500 mt-1">Previously listed as: {job.salary_range}</p>
+          )
+        )}
+      </fieldset>
+
+      <div>
+        <label htmlFor="job-requirements" className="block text-sm font-medium text-gray-700 mb-1">
+          Requirements (One per line)
+        </label>
+        <textarea
+          id="job-requirements"
+          value={formData.requirements}
+          onChange={(e) => setFormData({ ...formData, requirements: e.target.value })}
+          className={inputClassName}
+          rows={4}
+          placeholder="Requirement 1&#10;Requirement 2&#10;..."
+        />
+      </div>
+
+      <div>
+        <label htmlFor="job-tags" className="block text-sm font-medium text-gray-700 mb-1">
+          Skills (Comma-separated)
+        </label>
+        <input
+          id="job-tags"
+          type="text"
+          value={formData.tags}
+          onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+          className={inputClassName}
+          placeholder="JavaScript, React, Node.js"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="job-url" className="block text-sm font-medium text-gray-700 mb-1">
+            Application URL
+          </label>
+          <input
+            id="job-url"
+            type="url"
+            value={formData.application_url}
+            onChange={(e) => setFormData({ ...formData, application_url: e.target.value })}
+            className={inputClassName}
+            placeholder="https://..."
+          />
+        </div>
+
+        <div>
+          <label htmlFor="job-email" className="block text-sm font-medium text-gray-700 mb-1">
+            Application Email
+          </label>
+          <input
+            id="job-email"
+            type="email"
+            value={formData.application_email}
+            onChange={(e) => setFormData({ ...formData, application_email: e.target.value })}
+            className={inputClassName}
+            placeholder="jobs@company.com"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="job-expires" className="block text-sm font-medium text-gray-700 mb-1">
+          Closes On (Optional)
+        </label>
+        <input
+          id="job-expires"
+          type="date"
+          value={formData.expires_at}
+          min={toDateInput(new Date())}
+          onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+          className={inputClassName}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          The job stops taking applications after this day.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <Button type="button" variant="secondary" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="primary"
+          disabled={
+            !formData.title.trim() || !formData.description.trim() || !!salaryError || isSubmitting
+          }
+          className="flex-1 bg-purple-600"
+        >
+          {isSubmitting ? <LoadingSpinner size="sm" /> : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { InfiniteData } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { liveAPI } from '../lib/api';
+import { useSocketEvent } from '../lib/socket';
+import type { LiveChatMessage, LiveChatSettings } from '../types';
+
+type ChatPage = Awaited<ReturnType<typeof liveAPI.getChat>>;
+
+const slowModeOptions = [0, 5, 10, 30, 60, 120];
+
+interface LiveChatPanelProps {
+  sessionId: string;
+  hostId: string;
+  currentUserId: string;
+  isLive: boolean; // Chat is read-only once the stream ends
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return (isAxiosError(error) && error.response?.data?.error) || fallback;
+}
+
+/**
+ * Chat beside a live stream. The host and moderators can delete messages, ban
+ * viewers and turn on slow mode; the host also picks the moderators.
+ */
+export default function LiveChatPanel({
+  sessionId,
+  hostId,
+  currentUserId,
+  isLive,
+}: LiveChatPanelProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ['liveChat', sessionId];
+  const listRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState('');
+  const [lastBanned, setLastBanned] = useState<{ id: string; name: string } | null>(null);
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }: { pageParam: string | undefined }) =>
+      liveAPI.getChat(sessionId, { cursor: pageParam }),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    initialPageParam: undefined,
+  });
+
+  // Pages run newest first, each in oldest-first order
+  const pages = data?.pages || [];
+  const messages = [...pages].reverse().flatMap((page) => page.messages);
+  const settings: LiveChatSettings = pages[0]?.settings || { slow_mode_seconds: 0, moderator_ids: [] };
+
+  const isHost = currentUserId === hostId;
+  const canModerate = isHost || settings.moderator_ids.includes(currentUserId);
+
+  const updateCache = (update: (chat: InfiniteData<ChatPage>) => InfiniteData<ChatPage>) => {
+    queryClient.setQueryData<InfiniteData<ChatPage>>(queryKey, (chat) => (chat ? update(chat) : chat));
+  };
+
+  const addMessage = (message: LiveChatMessage) => {
+    updateCache((chat) => {
+      if (chat.pages.some((page) => page.messages.some((item) => item.id === message.id))) {
+        return chat;
+      }
+      const [newest, ...older] = chat.pages;
+      return { ...chat, pages: [{ ...newest, messages: [...newest.messages, message] }, ...older] };
+    });
+  };
+
+  const removeMessages = (keep: (message: LiveChatMessage) => boolean) => {
+    updateCache((chat) => ({
+      ...chat,
+      pages: chat.pages.map((page) => ({ ...page, messages: page.messages.filter(keep) })),
+    }));
+  };
+
+  const setSettings = (next: LiveChatSettings) => {
+    updateCache((chat) => {
+      const [newest, ...older] = chat.pages;
+      return { ...chat, pages: [{ ...newest, settings: next }, ...older] };
+    });
+  };
+
+  useSocketEvent('live.chat.message', (message) => {
+    if (message.session_id === sessionId) addMessage(message);
+  });
+
+  useSocketEvent('live.chat.deleted', (event) => {
+    if (event.sessionId === sessionId) removeMessages((message) => message.id !== event.messageId);
+  });
+
+  useSocketEvent('live.user.banned', (event) => {
+    if (event.sessionId === sessionId) removeMessages((message) => message.user_id !== event.userId);
+  });
+
+  useSocketEvent('live.chat.settings', (event) => {
+    if (event.sessionId === sessionId) {
+      setSettings({ slow_mode_seconds: event.slowModeSeconds, moderator_ids: event.moderatorIds });
+    }
+  });
+
+  // Follow new messages while the viewer is at the bottom of the list
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && list.scrollHeight - list.scrollTop - list.clientHeight < 120) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [lastMessageId]);
+
+  const sendMutation = useMutation({
+    mutationFn: (content: string) => liveAPI.sendChatMessage(sessionId, content),
+    onSuccess: (message) => {
+      setDraft('');
+      setError('');
+      addMessage(message);
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to send message')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (messageId: string) => liveAPI.deleteChatMessage(sessionId, messageId),
+    onSuccess: (_, messageId) => removeMessages((message) => message.id !== messageId),
+    onError: (error) => setError(errorMessage(error, 'Failed to delete message')),
+  });
+
+  const banMutation = useMutation({
+    mutationFn: (user: { id: string; name: string }) => liveAPI.banViewer(sessionId, user.id),
+    onSuccess: (_, user) => {
+      setLastBanned(user);
+      removeMessages((message) => message.user_id !== user.id);
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to ban viewer')),
+  });
+
+  const unbanMutation = useMutation({
+    mutationFn: (userId: string) => liveAPI.unbanViewer(sessionId, userId),
+    onSuccess: () => setLastBanned(null),
+    onError: (error) => setError(errorMessage(error, 'Failed to lift ban')),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (slowModeSeconds: number) =>
+      liveAPI.updateChatSettings(sessionId, { slow_mode_seconds: slowModeSeconds }),
+    onSuccess: setSettings,
+    onError: (error) => setError(errorMessage(error, 'Failed to update slow mode')),
+  });
+
+  const moderatorMutation = useMutation({
+    mutationFn: ({ userId, add }: { userId: string; add: boolean }) =>
+      add ? liveAPI.addModerator(sessionId, userId) : liveAPI.removeModerator(sessionId, userId),
+    onSuccess: setSettings,
+    onError: (error) => setError(errorMessage(error, 'Failed to update moderators')),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim() && !sendMutation.isPending) {
+      sendMutation.mutate(draft.trim());
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900/90 text-white">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-white/10">
+        <h2 className="font-semibold text-sm">Live Chat</h2>
+        {canModerate && isLive ? (
+          <select
+            value={settings.slow_mode_seconds}
+            onChange={(e) => settingsMutation.mutate(Number(e.target.value))}
+            aria-label="Slow mode"
+            className="bg-gray-800 border border-white/20 rounded px-2 py-1 text-xs"
+          >
+            {slowModeOptions.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0 ? 'Slow mode off' : `Slow mode: ${seconds}s`}
+              </option>
+            ))}
+          </select>
+        ) : (
+          settings.slow_mode_seconds > 0 && (
+            <span className="text-xs text-gray-300">Slow mode: {settings.slow_mode_seconds}s</span>
+          )
+        )}
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-2" aria-live="polite">
+        {hasNextPage && (
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="w-full text-xs text-gray-300 hover:text-white disabled:opacity-50"
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load earlier messages'}
+          </button>
+        )}
+        {isLoading ? (
+          <p className="text-sm text-gray-400 text-center py-4">Loading chat...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-4">
+            {isLive ? 'Say hello to the stream!' : 'No one chatted during this stream.'}
+          </p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.user_id === currentUserId;
+            const isModerator = settings.moderator_ids.includes(message.user_id);
+            const canDelete = isOwn || canModerate;
+            // Only the host can act on moderators; nobody acts on the host
+            const canBan =
+              canModerate && !isOwn && message.user_id !== hostId && (isHost || !isModerator);
+
+            return (
+              <div key={message.id} className="group text-sm break-words">
+                <span
+                  className={`font-semibold mr-1 ${
+                    message.user_id === hostId
+                      ? 'text-red-400'
+                      : isModerator
+                      ? 'text-green-400'
+                      : 'text-purple-300'
+                  }`}
+                >
+                  {message.user.full_name}
+                  {message.user_id === hostId && ' (host)'}
+                  {isModerator && ' (mod)'}
+                </span>
+                <span className="text-gray-100">{message.content}</span>
+                {(canDelete || canBan) && (
+                  <span className="ml-2 hidden group-hover:inline-flex group-focus-within:inline-flex gap-2 text-xs">
+                    {canDelete && (
+                      <button
+                        onClick={() => deleteMutation.mutate(message.id)}
+                        className="text-gray-400 hover:text-white"
+                      >
+                        Delete
+                      </button>
+                    )}
+                    {canBan && (
+                      <button
+                        onClick={() =>
+                          banMutation.mutate({ id: message.user_id, name: message.user.full_name })
+                        }
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Ban
+                      </button>
+                    )}
+                    {isHost && !isOwn && (
+                      <button
+                        onClick={() =>
+                          moderatorMutation.mutate({ userId: message.user_id, add: !isModerator })
+                        }
+                        className="text-green-400 hover:text-green-300"
+                      >
+                        {isModerator ? 'Remove mod' : 'Make mod'}
+                      </button>
+                    )}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {lastBanned && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 text-xs bg-gray-800">
+          <span>{lastBanned.name} was banned from this stream.</span>
+          <button
+            onClick={() => unbanMutation.mutate(lastBanned.id)}
+            disabled={unbanMutation.isPending}
+            className="text-purple-300 hover:text-white disabled:opacity-50"
+          >
+            Undo
+          </button>
+        </div>
+      )}
+
+      {error && <p className="px-3 pt-2 text-xs text-red-400">{error}</p>}
+
+      {isLive ? (
+        <form onSubmit={handleSubmit} className="flex gap-2 p-3 border-t border-white/10">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Send a message..."
+            aria-label="Chat message"
+            maxLength={500}
+            className="flex-1 min-w-0 px-3 py-2 rounded-full bg-white/10 text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim() || sendMutation.isPending}
+            className="px-4 py-2 rounded-full bg-purple-600 text-sm font-medium disabled:opacity-50"
+          >
+            Send
+          </button>
+        </form>
+      ) : (
+        <p className="p-3 border-t border-white/10 text-xs text-gray-400 text-center">
+          This stream has ended. Chat is read-only.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useRef, useState } from 'react';
+import { getSocket, useSocketEvent } from '../lib/socket';
+
+// Must match LIVE_REACTIONS on the server, which drops anything else
+export const liveReactions = ['❤️', '😂', '😮', '👏', '🔥', '🎉'];
+
+const FLOAT_DURATION_MS = 3000;
+const MAX_FLOATING = 30;
+
+interface FloatingReaction {
+  key: number;
+  emoji: string;
+  left: number; // Percent from the left edge of the overlay
+}
+
+/**
+ * Send a reaction to everyone watching, including this viewer. Reactions go out
+ * over Socket.io only and are not stored.
+ */
+export function LiveReactionPicker({ sessionId }: { sessionId: string }) {
+  return (
+    <div className="flex gap-1" role="group" aria-label="Send a reaction">
+      {liveReactions.map((emoji) => (
+        <button
+          key={emoji}
+          onClick={() => getSocket().emit('live:reaction', { sessionId, emoji })}
+          className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 text-xl transition-transform active:scale-90"
+          aria-label={`React with ${emoji}`}
+        >
+          {emoji}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Emoji reactions floating up over a live stream. Render it inside the
+ * positioned element that holds the video.
+ */
+export default function LiveReactions({ sessionId }: { sessionId: string }) {
+  const [floating, setFloating] = useState<FloatingReaction[]>([]);
+  const nextKey = useRef(0);
+
+  useSocketEvent('live.reaction', (data) => {
+    if (data.sessionId !== sessionId) return;
+
+    const key = nextKey.current++;
+    const left = 10 + Math.random() * 80;
+    // Busy streams drop the oldest reactions rather than pile them up
+    setFloating((current) => [
+      ...current.slice(-(MAX_FLOATING - 1)),
+      { key, emoji: data.emoji, left },
+    ]);
+    setTimeout(() => {
+      setFloating((current) => current.filter((reaction) => reaction.key !== key));
+    }, FLOAT_DURATION_MS);
+  });
+
+  return (
+    <div
+      className="pointer-events-none absolute inset-x-0 bottom-24 top-0 overflow-hidden z-20"
+      aria-hidden="true"
+    >
+      {floating.map((reaction) => (
+        <span
+          key={reaction.key}
+          className="live-reaction-float absolute bottom-0 text-3xl"
+          style={{ left: `${reaction.left}%` }}
+        >
+          {reaction.emoji}
+        </span>
+      ))}
+    </div>
+  );
+}
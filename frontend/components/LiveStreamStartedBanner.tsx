@@ -0,0 +1,51 @@
+import Link from 'next/link';
+import type { ServerToClientEvents } from '../types/socket';
+
+export type LiveStreamStarted = Parameters<ServerToClientEvents['live.stream.started']>[0];
+
+interface LiveStreamStartedBannerProps {
+  stream: LiveStreamStarted;
+  onDismiss: () => void;
+}
+
+/**
+ * Toast shown when a contact, or a stream the user asked to be reminded
+ * about, goes live.
+ */
+export default function LiveStreamStartedBanner({ stream, onDismiss }: LiveStreamStartedBannerProps) {
+  const hostName = stream.host?.full_name || stream.host?.username || 'Someone';
+
+  return (
+    <div
+      role="status"
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md bg-white dark:bg-gray-800 border border-red-200 dark:border-red-900 rounded-lg shadow-lg p-4"
+    >
+      <div className="flex items-start gap-3">
+        <span className="mt-0.5 px-2 py-0.5 rounded bg-red-600 text-white text-xs font-bold">LIVE</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-gray-900 dark:text-gray-100">
+            <span className="font-semibold">{hostName}</span> is live now
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-300 truncate">{stream.title}</p>
+          {stream.rsvped && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">You asked to be reminded</p>
+          )}
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+      <Link
+        href={`/live/${stream.sessionId}`}
+        onClick={onDismiss}
+        className="mt-3 block w-full text-center px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white text-sm font-medium"
+      >
+        Watch
+      </Link>
+    </div>
+  );
+}
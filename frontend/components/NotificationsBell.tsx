@@ -1,7 +1,6 @@
-import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { notificationsAPI } from '../lib/api';
-import { getSocket } from '../lib/socket';
+import { useSocketEvent, useSocketRoom } from '../lib/socket';
 import { getUser } from '../lib/auth';
 
 interface NotificationsBellProps {
@@ -9,7 +8,6 @@ interface NotificationsBellProps {
 }
 
 export default function NotificationsBell({ onClick }: NotificationsBellProps) {
-  const [socket, setSocket] = useState<any>(null);
   const currentUser = getUser();
 
   const { data, refetch } = useQuery({
@@ -22,27 +20,10 @@ export default function NotificationsBell({ onClick }: NotificationsBellProps) {
   const unreadCount = data?.unreadCount || 0;
 
   // Set up Socket.io for real-time notifications
-  useEffect(() => {
-    if (!currentUser?.id || typeof window === 'undefined') return;
+  useSocketRoom(currentUser?.id ? `user:${currentUser.id}` : null);
 
-    const socketInstance = getSocket();
-    setSocket(socketInstance);
-
-    // Join user room for real-time notifications
-    socketInstance.emit('join:user', currentUser.id);
-
-    // Listen for new notifications - refetch immediately when notification arrives
-    const handleNotification = () => {
-      // Immediately refetch unread count when new notification arrives
-      refetch();
-    };
-
-    socketInstance.on('notification.new', handleNotification);
-
-    return () => {
-      socketInstance.off('notification.new', handleNotification);
-    };
-  }, [currentUser?.id, refetch]);
+  // Immediately refetch unread count when a new notification arrives
+  useSocketEvent('notification.new', () => refetch(), !!currentUser?.id);
 
   return (
     <button
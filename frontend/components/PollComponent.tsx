@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { pollsAPI } from '../lib/api';
-import { getSocket } from '../lib/socket';
+import { useSocketEvent } from '../lib/socket';
 import { getUser } from '../lib/auth';
 import Button from './Button';
 
@@ -28,20 +28,15 @@ export default function PollComponent({ postId }: PollComponentProps) {
     },
   });
 
-  useEffect(() => {
-    if (!poll) return;
-
-    const socket = getSocket();
-    socket.on('poll.vote', (data: any) => {
+  useSocketEvent(
+    'poll.vote',
+    (data) => {
       if (data.post_id === postId) {
         queryClient.invalidateQueries({ queryKey: ['poll', postId] });
       }
-    });
-
-    return () => {
-      socket.off('poll.vote');
-    };
-  }, [poll, postId, queryClient]);
+    },
+    !!poll
+  );
 
   if (isLoading || !poll) {
     return <div className="text-sm text-gray-500">Loading poll...</div>;
@@ -4,6 +4,8 @@ import Link from 'next/link';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import ReactionsBar from './ReactionsBar';
 import ConfirmModal from './ConfirmModal';
+import EditPostModal from './EditPostModal';
+import EditedLabel from './EditedLabel';
 import { postsAPI } from '../lib/api';
 import { getUser } from '../lib/auth';
 
@@ -14,6 +16,7 @@ interface PostCardProps {
     module: string;
     media_urls?: string[] | null;
     tags?: string[] | null;
+    edited_at?: string | null;
     created_at: string;
     user: {
       id: string;
@@ -34,6 +37,7 @@ interface PostCardProps {
 export default function PostCard({ post }: PostCardProps) {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
   const queryClient = useQueryClient();
   const currentUser = getUser();
   const isOwner = currentUser?.id === post.user.id;
@@ -109,13 +113,22 @@ export default function PostCard({ post }: PostCardProps) {
               </span>
             ))}
           {isOwner && (
-            <button
-              type="button"
-              onClick={() => setShowDeleteConfirm(true)}
-              className="ml-2 text-xs text-red-600 hover:text-red-700 font-medium"
-            >
-              Delete
-            </button>
+            <>
+              <button
+                type="button"
+                onClick={() => setShowEditModal(true)}
+                className="ml-2 text-xs text-gray-600 dark:text-gray-400 hover:text-gray-700 font-medium"
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowDeleteConfirm(true)}
+                className="ml-2 text-xs text-red-600 hover:text-red-700 font-medium"
+              >
+                Delete
+              </button>
+            </>
           )}
           </div>
         </div>
@@ -200,6 +213,13 @@ export default function PostCard({ post }: PostCardProps) {
           <ReactionsBar post={post} variant="default" />
           <span className="text-xs text-gray-500 dark:text-gray-400">
             {new Date(post.created_at).toLocaleDateString()}
+            <EditedLabel
+              type="post"
+              id={post.id}
+              authorId={post.user.id}
+              editedAt={post.edited_at}
+              className="ml-1"
+            />
           </span>
         </div>
       </div>
@@ -237,6 +257,10 @@ export default function PostCard({ post }: PostCardProps) {
         </div>
       )}
 
+      {isOwner && showEditModal && (
+        <EditPostModal post={post} onClose={() => setShowEditModal(false)} />
+      )}
+
       {isOwner && (
         <ConfirmModal
           isOpen={showDeleteConfirm}
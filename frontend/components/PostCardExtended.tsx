@@ -5,6 +5,8 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import ReactionsBar from './ReactionsBar';
 import PollComponent from './PollComponent';
 import ConfirmModal from './ConfirmModal';
+import EditPostModal from './EditPostModal';
+import EditedLabel from './EditedLabel';
 import { postsAPI } from '../lib/api';
 import { getUser } from '../lib/auth';
 
@@ -15,6 +17,7 @@ interface PostCardExtendedProps {
     module: string;
     media_urls?: string[] | null;
     tags?: string[] | null;
+    edited_at?: string | null;
     created_at: string;
     user: {
       id: string;
@@ -34,6 +37,7 @@ interface PostCardExtendedProps {
       content: string;
       media_urls?: string[] | null;
       tags?: string[] | null;
+      edited_at?: string | null;
       created_at: string;
       user: {
         id: string;
@@ -66,6 +70,7 @@ const reactionEmojis: Record<string, string> = {
 export default function PostCardExtended({ post, onRepost }: PostCardExtendedProps) {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
   const queryClient = useQueryClient();
   const currentUser = getUser();
   const isOwner = currentUser?.id === post.user.id;
@@ -146,13 +151,22 @@ export default function PostCardExtended({ post, onRepost }: PostCardExtendedPro
               ))}
             </div>
             {isOwner && (
-              <button
-                type="button"
-                onClick={() => setShowDeleteConfirm(true)}
-                className="text-xs text-red-600 hover:text-red-700 font-medium"
-              >
-                Delete
-              </button>
+              <>
+                <button
+                  type="button"
+                  onClick={() => setShowEditModal(true)}
+                  className="text-xs text-gray-600 hover:text-gray-700 font-medium"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowDeleteConfirm(true)}
+                  className="text-xs text-red-600 hover:text-red-700 font-medium"
+                >
+                  Delete
+                </button>
+              </>
             )}
           </div>
         </div>
@@ -172,6 +186,13 @@ export default function PostCardExtended({ post, onRepost }: PostCardExtendedPro
             {post.content && (
               <p className="text-sm text-gray-700 dark:text-gray-300 mb-2 whitespace-pre-wrap">
                 {post.content}
+                <EditedLabel
+                  type="post"
+                  id={post.id}
+                  authorId={post.user.id}
+                  editedAt={post.edited_at}
+                  className="ml-1"
+                />
               </p>
             )}
           </div>
@@ -207,6 +228,13 @@ export default function PostCardExtended({ post, onRepost }: PostCardExtendedPro
                 </Link>
                 <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
                   @{post.parent.user.username}
+                  <EditedLabel
+                    type="post"
+                    id={post.parent.id}
+                    authorId={post.parent.user.id}
+                    editedAt={post.parent.edited_at}
+                    className="ml-1"
+                  />
                 </p>
               </div>
             </div>
@@ -300,6 +328,15 @@ export default function PostCardExtended({ post, onRepost }: PostCardExtendedPro
           />
           <span className="text-xs text-gray-500 dark:text-gray-400">
             {new Date(post.created_at).toLocaleDateString()}
+            {!isRepost && (
+              <EditedLabel
+                type="post"
+                id={post.id}
+                authorId={post.user.id}
+                editedAt={post.edited_at}
+                className="ml-1"
+              />
+            )}
           </span>
         </div>
       </div>
@@ -337,6 +374,10 @@ export default function PostCardExtended({ post, onRepost }: PostCardExtendedPro
         </div>
       )}
 
+      {isOwner && showEditModal && (
+        <EditPostModal post={post} onClose={() => setShowEditModal(false)} />
+      )}
+
       {isOwner && (
         <ConfirmModal
           isOpen={showDeleteConfirm}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import Button from './Button';
+import { reportsAPI } from '../lib/api';
 
 interface ReportButtonProps {
   targetType: 'post' | 'comment' | 'user' | 'thread' | 'job';
@@ -16,18 +17,7 @@ export default function ReportButton({ targetType, targetId, onSuccess }: Report
   const [description, setDescription] = useState('');
 
   const reportMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/reports`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
-        body: JSON.stringify(data),
-      });
-      if (!res.ok) throw new Error('Failed to submit report');
-      return res.json();
-    },
+    mutationFn: (data: Parameters<typeof reportsAPI.create>[0]) => reportsAPI.create(data),
     onSuccess: () => {
       setShowModal(false);
       setDescription('');
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import Button from './Button';
+import { careernetAPI } from '../lib/api';
+import type { SalaryPeriod } from '../lib/jobs';
+import type { SavedJobSearch } from '../types';
+
+export interface JobSearchFilters {
+  query: string;
+  type?: string;
+  location: string;
+  workplaceType?: string;
+  seniority?: string;
+  tags: string[];
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string | null;
+  salaryPeriod: SalaryPeriod | null;
+}
+
+interface SavedJobSearchesProps {
+  searches: SavedJobSearch[];
+  activeId: string | null;
+  filters: JobSearchFilters;
+  onApply: (search: SavedJobSearch) => void;
+}
+
+const frequencyLabels: Record<SavedJobSearch['alert_frequency'], string> = {
+  instant: 'Alert me right away',
+  daily: 'Daily digest',
+  off: 'No alerts',
+};
+
+function errorMessage(error: unknown, fallback: string): string {
+  return (isAxiosError(error) && error.response?.data?.error) || fallback;
+}
+
+/**
+ * Saved job searches for the jobs tab: run one, save the current filters, and
+ * choose how alerts for new matches are delivered
+ */
+export default function SavedJobSearches({
+  searches,
+  activeId,
+  filters,
+  onApply,
+}: SavedJobSearchesProps) {
+  const queryClient = useQueryClient();
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [name, setName] = useState('');
+  const [alertFrequency, setAlertFrequency] = useState<SavedJobSearch['alert_frequency']>('instant');
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [error, setError] = useState('');
+
+  const activeSearch = searches.find((search) => search.id === activeId);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['savedJobSearches'] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      careernetAPI.createSavedSearch({
+        name: name.trim(),
+        query: filters.query.trim() || null,
+        type: filters.type || null,
+        location: filters.location.trim() || null,
+        workplace_type: filters.workplaceType || null,
+        seniority: filters.seniority || null,
+        tags: filters.tags,
+        salary_min: filters.salaryMin,
+        salary_max: filters.salaryMax,
+        salary_currency: filters.salaryCurrency,
+        salary_period: filters.salaryPeriod,
+        alert_frequency: alertFrequency,
+        push_enabled: pushEnabled,
+      }),
+    onSuccess: (search) => {
+      setError('');
+      setShowSaveForm(false);
+      setName('');
+      invalidate();
+      onApply(search);
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to save search')),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Parameters<typeof careernetAPI.updateSavedSearch>[1];
+    }) => careernetAPI.updateSavedSearch(id, data),
+    onSuccess: () => {
+      setError('');
+      invalidate();
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to update saved search')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => careernetAPI.deleteSavedSearch(id),
+    onSuccess: () => {
+      setError('');
+      invalidate();
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to delete saved search')),
+  });
+
+  return (
+    <div className="space-y-2 mb-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {searches.map((search) => (
+          <button
+            key={search.id}
+            onClick={() => onApply(search)}
+            className={`px-3 py-1 rounded-full text-xs sm:text-sm border ${
+              search.id === activeId
+                ? 'bg-purple-600 text-white border-purple-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:border-purple-400'
+            }`}
+          >
+            {search.alert_frequency !== 'off' && <span aria-hidden="true">🔔 </span>}
+            {search.name}
+          </button>
+        ))}
+        {!showSaveForm && (
+          <button
+            onClick={() => setShowSaveForm(true)}
+            className="text-xs sm:text-sm font-medium text-purple-600 hover:text-purple-700"
+          >
+            + Save this search
+          </button>
+        )}
+      </div>
+
+      {activeSearch && !showSaveForm && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <select
+            value={activeSearch.alert_frequency}
+            onChange={(e) =>
+              updateMutation.mutate({
+                id: activeSearch.id,
+                data: { alert_frequency: e.target.value as SavedJobSearch['alert_frequency'] },
+              })
+            }
+            aria-label={`Alerts for ${activeSearch.name}`}
+            className="px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            {Object.entries(frequencyLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={activeSearch.push_enabled}
+              disabled={activeSearch.alert_frequency === 'off'}
+              onChange={(e) =>
+                updateMutation.mutate({
+                  id: activeSearch.id,
+                  data: { push_enabled: e.target.checked },
+                })
+              }
+            />
+            Push
+          </label>
+          <button
+            onClick={() => deleteMutation.mutate(activeSearch.id)}
+            disabled={deleteMutation.isPending}
+            className="text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+
+      {showSaveForm && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) createMutation.mutate();
+          }}
+          className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2"
+        >
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name this search, e.g. React jobs in Berlin"
+            aria-label="Saved search name"
+            maxLength={100}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+            <select
+              value={alertFrequency}
+              onChange={(e) => setAlertFrequency(e.target.value as SavedJobSearch['alert_frequency'])}
+              aria-label="Alerts for new matching jobs"
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {Object.entries(frequencyLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={pushEnabled}
+                disabled={alertFrequency === 'off'}
+                onChange={(e) => setPushEnabled(e.target.checked)}
+              />
+              Also send a push notification
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              variant="primary"
+              loading={createMutation.isPending}
+              disabled={!name.trim()}
+              className="px-4 py-1 text-sm bg-purple-600"
+            >
+              Save
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setShowSaveForm(false)}
+              className="px-4 py-1 text-sm"
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import LoadingSpinner from './LoadingSpinner';
+import { twoFactorAPI } from '../lib/api';
+
+interface StaffTwoFactorGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Moderation tools need two-factor authentication (the backend enforces it too).
+ * Asks the server, since the stored user can predate enrolment.
+ */
+export default function StaffTwoFactorGate({ children }: StaffTwoFactorGateProps) {
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['twoFactorStatus'],
+    queryFn: () => twoFactorAPI.getStatus(),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!status?.enabled) {
+    return (
+      <div className="px-4 py-12">
+        <div className="max-w-md mx-auto bg-white rounded-lg shadow-sm border border-amber-200 p-6 text-center">
+          <h2 className="text-lg font-bold text-gray-900 mb-2">Two-factor authentication required</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Admin and moderator accounts must turn on two-factor authentication before using
+            moderation tools.
+          </p>
+          <Link
+            href="/settings/account?setup2fa=1"
+            className="inline-block px-6 py-3 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Set Up Two-Factor Authentication
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { isAxiosError } from 'axios';
+import Button from './Button';
+import Input from './Input';
+import LoadingSpinner from './LoadingSpinner';
+import { twoFactorAPI } from '../lib/api';
+import { updateStoredUser } from '../lib/auth';
+
+function errorMessage(error: unknown, fallback: string): string {
+  return (isAxiosError(error) && error.response?.data?.error) || fallback;
+}
+
+/**
+ * Recovery codes are only returned once, right after they are generated
+ */
+function RecoveryCodesPanel({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-700">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app. They won&apos;t be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 bg-gray-50 border border-gray-200 rounded-lg p-3 font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button variant="secondary" onClick={handleCopy} className="flex-1">
+          {copied ? 'Copied' : 'Copy codes'}
+        </Button>
+        <Button variant="primary" onClick={onDone} className="flex-1">
+          I&apos;ve saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const [setupData, setSetupData] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null);
+  const [error, setError] = useState('');
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['twoFactorStatus'],
+    queryFn: () => twoFactorAPI.getStatus(),
+  });
+
+  const resetForm = () => {
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => twoFactorAPI.setup(),
+    onSuccess: (data) => {
+      resetForm();
+      setSetupData(data);
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to start setup')),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (otp: string) => twoFactorAPI.enable(otp),
+    onSuccess: (data) => {
+      resetForm();
+      setSetupData(null);
+      setRecoveryCodes(data.recoveryCodes);
+      updateStoredUser({ two_factor_enabled: true });
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to enable two-factor authentication')),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (otp: string) => twoFactorAPI.regenerateRecoveryCodes(otp),
+    onSuccess: (data) => {
+      resetForm();
+      setAction(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to regenerate recovery codes')),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => twoFactorAPI.disable({ password, code: code.trim() }),
+    onSuccess: () => {
+      resetForm();
+      setAction(null);
+      updateStoredUser({ two_factor_enabled: false });
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    },
+    onError: (error) => setError(errorMessage(error, 'Failed to disable two-factor authentication')),
+  });
+
+  const renderBody = () => {
+    if (isLoading || !status) {
+      return (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="md" />
+        </div>
+      );
+    }
+
+    if (recoveryCodes) {
+      return <RecoveryCodesPanel codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+    }
+
+    if (setupData) {
+      return (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (code.trim()) enableMutation.mutate(code.trim());
+          }}
+          className="space-y-4"
+        >
+          <div className="flex flex-col items-center">
+            <div className="bg-white p-4 rounded-lg border-2 border-gray-200 mb-3">
+              <QRCodeSVG value={setupData.otpauthUrl} size={192} />
+            </div>
+            <p className="text-sm text-gray-600 text-center">
+              Scan this QR code with your authenticator app, or enter the key manually:
+            </p>
+            <p className="mt-1 font-mono text-xs text-gray-900 break-all text-center">{setupData.secret}</p>
+          </div>
+          <Input
+            type="text"
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value);
+              setError('');
+            }}
+            placeholder="6-digit code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            error={error || undefined}
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              onClick={() => {
+                setSetupData(null);
+                resetForm();
+              }}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" loading={enableMutation.isPending} disabled={!code.trim()} className="flex-1">
+              Enable
+            </Button>
+          </div>
+        </form>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="space-y-3">
+          {status.required && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+              Admin and moderator accounts must use two-factor authentication before they can use
+              moderation tools.
+            </div>
+          )}
+          <p className="text-sm text-gray-600">
+            Protect your account with a code from an authenticator app each time you sign in.
+          </p>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button onClick={() => setupMutation.mutate()} loading={setupMutation.isPending} className="w-full">
+            Set Up Two-Factor Authentication
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-green-700">✓ Enabled</span>
+          <span className="text-sm text-gray-500">
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+          </span>
+        </div>
+
+        {action ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!code.trim()) return;
+              if (action === 'regenerate') {
+                regenerateMutation.mutate(code.trim());
+              } else {
+                disableMutation.mutate();
+              }
+            }}
+            className="space-y-3"
+          >
+            {action === 'disable' && (
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setError('');
+                }}
+                placeholder="Current password"
+                autoComplete="current-password"
+              />
+            )}
+            <Input
+              type="text"
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value);
+                setError('');
+              }}
+              placeholder="Authenticator or recovery code"
+              autoComplete="one-time-code"
+              error={error || undefined}
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setAction(null);
+                  resetForm();
+                }}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                loading={regenerateMutation.isPending || disableMutation.isPending}
+                disabled={!code.trim() || (action === 'disable' && !password)}
+                className="flex-1"
+              >
+                {action === 'regenerate' ? 'Generate New Codes' : 'Disable'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-2">
+            <Button variant="secondary" onClick={() => setAction('regenerate')} className="w-full">
+              Regenerate Recovery Codes
+            </Button>
+            {!status.required && (
+              <Button variant="outline" onClick={() => setAction('disable')} className="w-full">
+                Disable Two-Factor Authentication
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <h2 className="text-lg font-bold text-gray-900 mb-4">Two-Factor Authentication</h2>
+      {renderBody()}
+    </div>
+  );
+}
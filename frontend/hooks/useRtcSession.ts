@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { describeMediaError, getRtcProvider } from '../lib/rtc';
+import type { RtcConnection, RtcParticipant, RtcProvider } from '../lib/rtc';
+
+interface UseRtcSessionProps {
+  roomUrl: string; // Nothing connects while this is empty
+  token: string | null;
+  userName?: string; // Shown to the other participants
+  enableVideo?: boolean; // Optional: enable video (default: true)
+  enableAudio?: boolean; // Optional: enable audio (default: true)
+  provider?: RtcProvider; // Optional: defaults to getRtcProvider()
+}
+
+const MEDIA_UNAVAILABLE =
+  'Media devices API not available in this browser. Please use a modern browser like Chrome, Firefox, or Safari.';
+
+// Open and immediately release the camera/microphone so the browser asks for
+// permission before the provider tries to publish
+async function checkMediaAccess(enableVideo: boolean, enableAudio: boolean) {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: enableVideo ? { width: { ideal: 1280 }, height: { ideal: 720 }, facingMode: 'user' } : false,
+    audio: enableAudio ? { echoCancellation: true, noiseSuppression: true, autoGainControl: true } : false,
+  });
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+function hasMediaDevices() {
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Join an audio/video room and follow who is in it. Connects whenever roomUrl
+ * is set and leaves on unmount or when any option changes.
+ */
+export function useRtcSession({
+  roomUrl,
+  token,
+  userName = 'User',
+  enableVideo = true,
+  enableAudio = true,
+  provider,
+}: UseRtcSessionProps) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [needsPermission, setNeedsPermission] = useState(false);
+  const [participants, setParticipants] = useState<RtcParticipant[]>([]);
+  const [localVideoTrack, setLocalVideoTrack] = useState<MediaStreamTrack | null>(null);
+  const [localAudioTrack, setLocalAudioTrack] = useState<MediaStreamTrack | null>(null);
+  // Provider session IDs: ours, and whoever was last heard speaking
+  const [localSessionId, setLocalSessionId] = useState<string | null>(null);
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  // Bumped to reconnect once the user grants media access
+  const [attempt, setAttempt] = useState(0);
+  const connectionRef = useRef<RtcConnection | null>(null);
+
+  const rtcProvider = provider || getRtcProvider();
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !roomUrl) {
+      return;
+    }
+
+    let isUnmounted = false;
+    let connection: RtcConnection | null = null;
+
+    const clearRoom = () => {
+      setIsConnected(false);
+      setParticipants([]);
+      setLocalVideoTrack(null);
+      setLocalAudioTrack(null);
+      setLocalSessionId(null);
+      setActiveSpeakerId(null);
+    };
+
+    const fail = (message: string, permissionNeeded = false) => {
+      if (isUnmounted) return;
+      setError(message);
+      setNeedsPermission(permissionNeeded);
+      setIsConnecting(false);
+      setIsConnected(false);
+    };
+
+    const start = async () => {
+      if (rtcProvider.usesMediaDevices && (enableVideo || enableAudio)) {
+        if (!hasMediaDevices()) {
+          fail(MEDIA_UNAVAILABLE);
+          return;
+        }
+        try {
+          await checkMediaAccess(enableVideo, enableAudio);
+        } catch (mediaError) {
+          console.error('useRtcSession: Media permission error:', mediaError);
+          const { message, needsPermission: permissionNeeded } = describeMediaError(mediaError, enableVideo);
+          fail(message, permissionNeeded);
+          return;
+        }
+      }
+
+      try {
+        connection = await rtcProvider.connect({
+          onJoined: (localId) => {
+            if (isUnmounted) return;
+            setLocalSessionId(localId);
+            setIsConnected(true);
+            setIsConnecting(false);
+          },
+          onLeft: () => {
+            if (isUnmounted) return;
+            clearRoom();
+          },
+          onParticipantsChanged: (remote) => {
+            if (isUnmounted) return;
+            setParticipants(remote);
+          },
+          onLocalTrack: (kind, track) => {
+            if (isUnmounted) return;
+            if (kind === 'video') {
+              setLocalVideoTrack(track);
+            } else {
+              setLocalAudioTrack(track);
+            }
+          },
+          onActiveSpeakerChanged: (participantId) => {
+            if (isUnmounted) return;
+            setActiveSpeakerId(participantId);
+          },
+          onError: (message) => fail(message),
+        });
+
+        if (isUnmounted) {
+          connection.destroy().catch((err) => {
+            console.error('Failed to close call connection:', err);
+          });
+          return;
+        }
+
+        connectionRef.current = connection;
+        setIsConnecting(true);
+        setError(null);
+        setNeedsPermission(false);
+
+        await connection.join({ roomUrl, token, userName, enableVideo, enableAudio });
+      } catch (joinError) {
+        console.error(`useRtcSession: Failed to join ${rtcProvider.name} room`, joinError);
+        fail(
+          joinError instanceof Error && joinError.message
+            ? joinError.message
+            : 'Failed to connect to the meeting. Please try again.'
+        );
+      }
+    };
+
+    start();
+
+    return () => {
+      isUnmounted = true;
+
+      if (connection) {
+        connection.leave().catch((err) => {
+          console.error('Failed to leave call:', err);
+        });
+        connection.destroy().catch((err) => {
+          console.error('Failed to close call connection:', err);
+        });
+      }
+      connectionRef.current = null;
+
+      clearRoom();
+      setIsConnecting(false);
+    };
+  }, [rtcProvider, roomUrl, token, userName, enableVideo, enableAudio, attempt]);
+
+  // Ask for media access again after a denial, then reconnect
+  const requestPermissions = useCallback(async () => {
+    if (!hasMediaDevices()) {
+      setError(MEDIA_UNAVAILABLE);
+      return false;
+    }
+
+    try {
+      setNeedsPermission(false);
+      setError(null);
+      await checkMediaAccess(enableVideo, enableAudio);
+      setAttempt((count) => count + 1);
+      return true;
+    } catch (mediaError) {
+      console.error('useRtcSession: Manual permission request failed:', mediaError);
+      const { message, needsPermission: permissionNeeded } = describeMediaError(mediaError, enableVideo);
+      setError(message);
+      setNeedsPermission(permissionNeeded);
+      return false;
+    }
+  }, [enableVideo, enableAudio]);
+
+  const leave = useCallback(() => {
+    connectionRef.current?.leave().catch((err) => {
+      console.error('Failed to leave call:', err);
+    });
+  }, []);
+
+  const toggleVideo = useCallback(async () => {
+    const connection = connectionRef.current;
+    if (!connection) return;
+    try {
+      await connection.setLocalVideo(!(await connection.isLocalVideoEnabled()));
+    } catch (err) {
+      console.error('Failed to toggle video', err);
+    }
+  }, []);
+
+  const toggleAudio = useCallback(async () => {
+    const connection = connectionRef.current;
+    if (!connection) return;
+    try {
+      await connection.setLocalAudio(!(await connection.isLocalAudioEnabled()));
+    } catch (err) {
+      console.error('Failed to toggle audio', err);
+    }
+  }, []);
+
+  return {
+    isConnected,
+    isConnecting,
+    error,
+    needsPermission,
+    participants,
+    localVideoTrack,
+    localAudioTrack,
+    localSessionId,
+    activeSpeakerId,
+    leave,
+    toggleVideo,
+    toggleAudio,
+    requestPermissions,
+  };
+}
@@ -1,6 +1,124 @@
-import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
-import { getToken, getRefreshToken, setToken, clearAuth } from './auth';
-import { AuthResponse } from '../types';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig, isAxiosError } from 'axios';
+import {
+  clearAuth,
+  getCsrfToken,
+  getRefreshToken,
+  getToken,
+  isAuthenticated,
+  redirectToLogin,
+  removeRefreshToken,
+  removeToken,
+  setCsrfToken,
+  setToken,
+  usesCookieSession,
+} from './auth';
+import { encryptMessage, decryptMessage, invalidateThreadKeys } from './encryption';
+import { indexMessages, searchIndex } from './chatSearch';
+import { z } from 'zod';
+import {
+  activeCallSchema,
+  adminStatsSchema,
+  applicantSchema,
+  applicationNoteSchema,
+  applicationSchema,
+  applicationStatusSchema,
+  authResponseSchema,
+  blockEntrySchema,
+  bookmarkSchema,
+  callHistoryEntrySchema,
+  callSessionSchema,
+  chatThreadSchema,
+  commentSchema,
+  contactSchema,
+  deviceKeySchema,
+  endorsementSchema,
+  groupDetailsSchema,
+  hashtagSchema,
+  jobSchema,
+  liveChatMessageSchema,
+  liveChatSettingsSchema,
+  liveRsvpSchema,
+  loginSessionSchema,
+  mentionSuggestionSchema,
+  messageResponseSchema,
+  messageSchema,
+  messageReactionSchema,
+  messageSearchResultSchema,
+  myApplicationSchema,
+  notificationSchema,
+  pollSchema,
+  postSchema,
+  profileSchema,
+  publicUserSchema,
+  reactionSchema,
+  reportSchema,
+  revisionSchema,
+  roomAccessSchema,
+  savedJobSearchSchema,
+  storyGroupSchema,
+  storyHighlightSchema,
+  threadReplySchema,
+  threadSchema,
+  twoFactorChallengeSchema,
+  twoFactorStatusSchema,
+  userAnalyticsSchema,
+  userSchema,
+  userSettingsSchema,
+  userSummarySchema,
+  visibilityPresetsSchema,
+  wrappedThreadKeySchema,
+} from '../types/schemas';
+import type {
+  ActiveCall,
+  AdminStats,
+  Applicant,
+  Application,
+  ApplicationNote,
+  ApplicationStatus,
+  AuthResponse,
+  BlockEntry,
+  Bookmark,
+  CallHistoryEntry,
+  CallSession,
+  ChatThread,
+  Comment,
+  Contact,
+  DeviceKey,
+  Endorsement,
+  GroupDetails,
+  Hashtag,
+  Job,
+  LiveChatMessage,
+  LiveChatSettings,
+  LiveRsvp,
+  LoginSession,
+  Message,
+  MessageReaction,
+  MessageSearchResult,
+  MentionSuggestion,
+  MyApplication,
+  Notification,
+  Poll,
+  Post,
+  Profile,
+  PublicUser,
+  Reaction,
+  Report,
+  Revision,
+  RoomAccess,
+  SavedJobSearch,
+  StoryGroup,
+  StoryHighlight,
+  Thread,
+  ThreadReply,
+  TwoFactorChallenge,
+  TwoFactorStatus,
+  User,
+  UserAnalytics,
+  UserSettings,
+  UserSummary,
+  VisibilityPresets,
+} from '../types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -10,14 +128,30 @@ const api: AxiosInstance = axios.create({
   headers: {
     'Content-Type': 'application/json',
   },
+  withCredentials: true, // Session cookies, see usesCookieSession
 });
 
-// Request interceptor: Add JWT token to headers
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+// Headers that put a request in the cookie session: the mode, plus the CSRF token
+// the API wants with cookie-authenticated writes
+function cookieSessionHeaders(method = 'get'): Record<string, string> {
+  const headers: Record<string, string> = { 'X-Auth-Mode': 'cookie' };
+  const csrfToken = getCsrfToken();
+  if (csrfToken && !SAFE_METHODS.includes(method.toLowerCase())) {
+    headers['X-CSRF-Token'] = csrfToken;
+  }
+  return headers;
+}
+
+// Request interceptor: Add JWT token (or cookie session headers) to headers
 api.interceptors.request.use(
   (config) => {
     const token = getToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
+    } else if (usesCookieSession()) {
+      config.headers.set(cookieSessionHeaders(config.method));
     }
     
     return config;
@@ -27,8 +161,6 @@ api.interceptors.request.use(
   }
 );
 
-// Track if we're currently redirecting to avoid multiple redirects
-let isRedirecting = false;
 // Track if we're currently refreshing to avoid multiple refresh attempts
 let isRefreshing = false;
 // Queue of requests waiting for token refresh
@@ -44,7 +176,8 @@ const processQueue = (error: any, token: string | null = null) => {
     if (error) {
       prom.reject(error);
     } else {
-      if (prom.config.headers) {
+      // Cookie sessions have no token; the new cookie is sent by itself
+      if (token && prom.config.headers) {
         prom.config.headers.Authorization = `Bearer ${token}`;
       }
       prom.resolve(api(prom.config));
@@ -60,7 +193,27 @@ api.interceptors.response.use(
     return response;
   },
   async (error: AxiosError) => {
-    const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
+    const originalRequest = error.config as InternalAxiosRequestConfig & {
+      _retry?: boolean;
+      _csrfRetry?: boolean;
+    };
+
+    // Our CSRF token is missing or stale: fetch the current one and retry once
+    const errorCode = (error.response?.data as { code?: string } | undefined)?.code;
+    if (error.response?.status === 403 && errorCode === 'CSRF_INVALID' && !originalRequest._csrfRetry) {
+      originalRequest._csrfRetry = true;
+      let csrfToken: string;
+      try {
+        const response = await axios.get(`${API_URL}/api/auth/csrf`, { withCredentials: true });
+        csrfToken = response.data.csrfToken;
+      } catch {
+        // Report the request that failed, not the token fetch
+        return Promise.reject(error);
+      }
+      setCsrfToken(csrfToken);
+      originalRequest.headers.set('X-CSRF-Token', csrfToken);
+      return api(originalRequest);
+    }
 
     // If error is 401 and we haven't tried to refresh yet
     if (error.response?.status === 401 && !originalRequest._retry) {
@@ -75,49 +228,41 @@ api.interceptors.response.use(
       isRefreshing = true;
 
       const refreshToken = getRefreshToken();
+      // A cookie session's refresh token is in an httpOnly cookie we can't see
+      const cookieRefresh = !refreshToken && usesCookieSession() && isAuthenticated();
 
       // If no refresh token, clear auth and redirect to login
-      if (!refreshToken) {
+      if (!refreshToken && !cookieRefresh) {
         isRefreshing = false;
-        clearAuth();
-        
-        if (typeof window !== 'undefined' && !isRedirecting) {
-          const currentPath = window.location.pathname;
-          if (!currentPath.includes('/login') && 
-              !currentPath.includes('/register') &&
-              !currentPath.includes('/profile-complete')) {
-            isRedirecting = true;
-            setTimeout(() => {
-              const stillOnProtectedPage = !window.location.pathname.includes('/login') &&
-                                        !window.location.pathname.includes('/register') &&
-                                        !window.location.pathname.includes('/profile-complete');
-              if (stillOnProtectedPage) {
-                window.location.href = '/login';
-              }
-              setTimeout(() => {
-                isRedirecting = false;
-              }, 1000);
-            }, 200);
-          }
-        }
-        
+        redirectToLogin();
         processQueue(error, null);
         return Promise.reject(error);
       }
 
       try {
         // Attempt to refresh token
-        const response = await axios.post(`${API_URL}/api/auth/refresh`, {
-          refreshToken,
-        });
-
-        const { token: newToken } = response.data;
-
-        // Update stored token
-        setToken(newToken);
+        const response = cookieRefresh
+          ? await axios.post(
+              `${API_URL}/api/auth/refresh`,
+              {},
+              { withCredentials: true, headers: cookieSessionHeaders('post') }
+            )
+          : await axios.post(`${API_URL}/api/auth/refresh`, {
+              refreshToken,
+            });
+
+        const { token: newToken = null, csrfToken } = response.data;
+
+        // Update stored token (the API set a new access cookie instead in cookie mode)
+        if (newToken) {
+          setToken(newToken);
+        }
+        if (csrfToken) {
+          setCsrfToken(csrfToken);
+        }
 
         // Update original request with new token
-        if (originalRequest.headers) {
+        if (newToken && originalRequest.headers) {
           originalRequest.headers.Authorization = `Bearer ${newToken}`;
         }
 
@@ -128,29 +273,16 @@ api.interceptors.response.use(
         // Retry original request
         return api(originalRequest);
       } catch (refreshError) {
-        // Refresh failed, clear auth and redirect to login
         isRefreshing = false;
-        clearAuth();
         processQueue(refreshError, null);
 
-        if (typeof window !== 'undefined' && !isRedirecting) {
-          const currentPath = window.location.pathname;
-          if (!currentPath.includes('/login') && 
-              !currentPath.includes('/register') &&
-              !currentPath.includes('/profile-complete')) {
-            isRedirecting = true;
-            setTimeout(() => {
-              const stillOnProtectedPage = !window.location.pathname.includes('/login') &&
-                                        !window.location.pathname.includes('/register') &&
-                                        !window.location.pathname.includes('/profile-complete');
-              if (stillOnProtectedPage) {
-                window.location.href = '/login';
-              }
-              setTimeout(() => {
-                isRedirecting = false;
-              }, 1000);
-            }, 200);
-          }
+        // Only sign out when the server turned the refresh token down (revoked from
+        // another device, expired or suspended); a network error keeps the session
+        const status = isAxiosError(refreshError) ? refreshError.response?.status : undefined;
+        if (status === 401 || status === 403) {
+          const revoked =
+            isAxiosError(refreshError) && refreshError.response?.data?.code === 'SESSION_REVOKED';
+          redirectToLogin(revoked ? 'session_revoked' : 'session_expired');
         }
 
         return Promise.reject(refreshError);
@@ -161,6 +293,62 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * Browsers logged in before cookie sessions still hold their tokens in
+ * localStorage. Hand the refresh token to the API once so it continues the same
+ * session in httpOnly cookies, then forget the stored tokens.
+ */
+export async function migrateToCookieSession(): Promise<void> {
+  if (!usesCookieSession() || !getToken()) return;
+
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    // Nothing to carry over; the access token alone can't start a cookie session
+    clearAuth();
+    return;
+  }
+
+  try {
+    const response = await axios.post(
+      `${API_URL}/api/auth/refresh`,
+      { refreshToken },
+      { withCredentials: true, headers: { 'X-Auth-Mode': 'cookie' } }
+    );
+    setCsrfToken(response.data.csrfToken);
+    removeToken();
+    removeRefreshToken();
+  } catch (error) {
+    // Keep the tokens for a retry on the next load unless the API refused them
+    const status = isAxiosError(error) ? error.response?.status : undefined;
+    if (status === 401 || status === 403) {
+      clearAuth();
+    }
+  }
+}
+
+/**
+ * Check a response body against its schema. A mismatch throws in development so
+ * backend drift shows up straight away; in production it is logged and the raw
+ * body is passed through rather than breaking the page.
+ */
+function validate<S extends z.ZodType>(schema: S, data: unknown, endpoint: string): z.output<S> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const message = `Unexpected response from ${endpoint}:\n${z.prettifyError(result.error)}`;
+  if (process.env.NODE_ENV !== 'production') {
+    throw new Error(message);
+  }
+  console.error(message);
+  return data as z.output<S>;
+}
+
+const postPage = z.looseObject({ posts: z.array(postSchema), nextCursor: z.string().nullable() });
+const profileResponse = z.looseObject({ message: z.string(), profile: profileSchema });
+const contactResponse = z.looseObject({ message: z.string(), contact: contactSchema });
+
 // API methods
 export const authAPI = {
   register: async (data: {
@@ -170,39 +358,97 @@ export const authAPI = {
     password: string;
     qr_token?: string;
   }): Promise<AuthResponse> => {
-    const response = await api.post<AuthResponse>('/api/auth/register', data);
-    return response.data;
+    const response = await api.post('/api/auth/register', data);
+    return validate(authResponseSchema, response.data, 'POST /api/auth/register');
   },
 
+  /**
+   * Resolves with a challenge instead of tokens when the account has
+   * two-factor authentication; finish with loginTwoFactor
+   */
   login: async (data: {
     email: string;
     password: string;
-  }): Promise<AuthResponse> => {
-    const response = await api.post<AuthResponse>('/api/auth/login', data);
-    return response.data;
+  }): Promise<AuthResponse | TwoFactorChallenge> => {
+    const response = await api.post('/api/auth/login', data);
+    return validate(
+      z.union([twoFactorChallengeSchema, authResponseSchema]),
+      response.data,
+      'POST /api/auth/login'
+    );
+  },
+
+  loginTwoFactor: async (data: { challengeToken: string; code: string }): Promise<AuthResponse> => {
+    const response = await api.post('/api/auth/login/2fa', data);
+    return validate(authResponseSchema, response.data, 'POST /api/auth/login/2fa');
   },
 
   refreshToken: async (refreshToken: string): Promise<{ token: string }> => {
-    const response = await api.post<{ token: string }>('/api/auth/refresh', {
+    const response = await api.post('/api/auth/refresh', {
       refreshToken,
     });
-    return response.data;
+    return validate(z.looseObject({ token: z.string() }), response.data, 'POST /api/auth/refresh');
+  },
+
+  /**
+   * End this device's session on the server. Call before clearing local auth,
+   * since the refresh token identifies the session.
+   */
+  logout: async (): Promise<void> => {
+    const refreshToken = getRefreshToken();
+    if (refreshToken) {
+      await api.post('/api/auth/logout', { refreshToken });
+    } else if (usesCookieSession() && isAuthenticated()) {
+      // Sends the refresh cookie, and the API clears the cookies
+      await api.post('/api/auth/logout', {});
+    }
   },
 
   verify: async (): Promise<{
-    user: any;
+    user: User;
     profileComplete: boolean;
-    profile: any;
+    profile: Profile | null;
   }> => {
     const response = await api.post('/api/auth/verify');
-    return response.data;
+    return validate(
+      z.looseObject({
+        user: userSchema,
+        profileComplete: z.boolean(),
+        profile: profileSchema.nullable(),
+      }),
+      response.data,
+      'POST /api/auth/verify'
+    );
+  },
+
+  /**
+   * Always resolves with the same message whether or not the email has an account
+   */
+  forgotPassword: async (email: string): Promise<{ message: string }> => {
+    const response = await api.post('/api/auth/forgot-password', { email });
+    return validate(messageResponseSchema, response.data, 'POST /api/auth/forgot-password');
+  },
+
+  resetPassword: async (data: { token: string; password: string }): Promise<{ message: string }> => {
+    const response = await api.post('/api/auth/reset-password', data);
+    return validate(messageResponseSchema, response.data, 'POST /api/auth/reset-password');
+  },
+
+  sendVerificationEmail: async (): Promise<{ message: string }> => {
+    const response = await api.post('/api/auth/send-verification');
+    return validate(messageResponseSchema, response.data, 'POST /api/auth/send-verification');
+  },
+
+  verifyEmail: async (token: string): Promise<{ message: string }> => {
+    const response = await api.post('/api/auth/verify-email', { token });
+    return validate(messageResponseSchema, response.data, 'POST /api/auth/verify-email');
   },
 };
 
 export const profileAPI = {
-  getProfile: async (): Promise<{ profile: any }> => {
+  getProfile: async (): Promise<{ profile: Profile }> => {
     const response = await api.get('/api/profile');
-    return response.data;
+    return validate(z.looseObject({ profile: profileSchema }), response.data, 'GET /api/profile');
   },
 
   uploadAvatar: async (file: File): Promise<{ avatar_url: string }> => {
@@ -213,7 +459,11 @@ export const profileAPI = {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return validate(
+      z.looseObject({ avatar_url: z.string() }),
+      response.data,
+      'POST /api/profile/upload-avatar'
+    );
   },
 
   updateProfile: async (data: {
@@ -223,9 +473,9 @@ export const profileAPI = {
     phone?: string;
     education?: string;
     avatar_url?: string;
-  }): Promise<{ message: string; profile: any }> => {
+  }): Promise<{ message: string; profile: Profile }> => {
     const response = await api.put('/api/profile', data);
-    return response.data;
+    return validate(profileResponse, response.data, 'PUT /api/profile');
   },
 
   complete: async (data: {
@@ -235,9 +485,29 @@ export const profileAPI = {
     phone?: string;
     education?: string;
     avatar_url?: string;
-  }): Promise<{ message: string; profile: any }> => {
+  }): Promise<{ message: string; profile: Profile }> => {
     const response = await api.post('/api/profile/complete', data);
-    return response.data;
+    return validate(profileResponse, response.data, 'POST /api/profile/complete');
+  },
+
+  publishDeviceKey: async (data: {
+    device_id: string;
+    public_key: string; // Base64 SPKI ECDH public key
+    label?: string;
+  }): Promise<{ key: DeviceKey }> => {
+    const response = await api.put('/api/profile/keys', data);
+    return validate(z.looseObject({ key: deviceKeySchema }), response.data, 'PUT /api/profile/keys');
+  },
+
+  getDeviceKeys: async (userIds: string[]): Promise<{ keys: DeviceKey[] }> => {
+    const response = await api.get('/api/profile/keys', {
+      params: { user_ids: userIds.join(',') },
+    });
+    return validate(
+      z.looseObject({ keys: z.array(deviceKeySchema) }),
+      response.data,
+      'GET /api/profile/keys'
+    );
   },
 };
 
@@ -251,7 +521,7 @@ export const postsAPI = {
     media?: File[];
     is_poll?: boolean;
     is_reel?: boolean;
-  }): Promise<any> => {
+  }): Promise<Post> => {
     const formData = new FormData();
     formData.append('content', data.content);
     formData.append('module', data.module);
@@ -272,7 +542,7 @@ export const postsAPI = {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return validate(postSchema, response.data, 'POST /api/posts');
   },
 
   getTimeline: async (params: {
@@ -280,9 +550,9 @@ export const postsAPI = {
     sort?: string;
     cursor?: string;
     limit?: number;
-  }): Promise<{ posts: any[]; nextCursor: string | null }> => {
+  }): Promise<{ posts: Post[]; nextCursor: string | null }> => {
     const response = await api.get('/api/posts/timeline', { params });
-    return response.data;
+    return validate(postPage, response.data, 'GET /api/posts/timeline');
   },
 
   getModulePosts: async (
@@ -291,36 +561,50 @@ export const postsAPI = {
       cursor?: string;
       limit?: number;
     }
-  ): Promise<{ posts: any[]; nextCursor: string | null }> => {
+  ): Promise<{ posts: Post[]; nextCursor: string | null }> => {
     const response = await api.get(`/api/posts/module/${module}`, { params });
-    return response.data;
+    return validate(postPage, response.data, 'GET /api/posts/module/:module');
   },
 
   getUserPosts: async (userId: string, params?: {
     module?: string;
     cursor?: string;
     limit?: number;
-  }): Promise<{ posts: any[]; nextCursor: string | null }> => {
+  }): Promise<{ posts: Post[]; nextCursor: string | null }> => {
     const response = await api.get(`/api/posts/user/${userId}`, { params });
-    return response.data;
+    return validate(postPage, response.data, 'GET /api/posts/user/:userId');
   },
 
-  getPost: async (postId: string): Promise<any> => {
+  getPost: async (postId: string): Promise<Post> => {
     const response = await api.get(`/api/posts/${postId}`);
-    return response.data;
+    return validate(postSchema, response.data, 'GET /api/posts/:postId');
   },
 
   getReels: async (params?: {
     cursor?: string;
     limit?: number;
-  }): Promise<{ posts: any[]; nextCursor: string | null }> => {
+  }): Promise<{ posts: Post[]; nextCursor: string | null }> => {
     const response = await api.get('/api/posts/reels', { params });
-    return response.data;
+    return validate(postPage, response.data, 'GET /api/posts/reels');
   },
 
-  repost: async (postId: string, data?: { content?: string; module?: string }): Promise<any> => {
+  repost: async (postId: string, data?: { content?: string; module?: string }): Promise<Post> => {
     const response = await api.post(`/api/posts/${postId}/repost`, data || {});
-    return response.data;
+    return validate(postSchema, response.data, 'POST /api/posts/:postId/repost');
+  },
+
+  update: async (postId: string, data: { content: string; tags?: string[] }): Promise<Post> => {
+    const response = await api.patch(`/api/posts/${postId}`, data);
+    return validate(postSchema, response.data, 'PATCH /api/posts/:postId');
+  },
+
+  getRevisions: async (postId: string): Promise<{ revisions: Revision[] }> => {
+    const response = await api.get(`/api/posts/${postId}/revisions`);
+    return validate(
+      z.looseObject({ revisions: z.array(revisionSchema) }),
+      response.data,
+      'GET /api/posts/:postId/revisions'
+    );
   },
 
   delete: async (postId: string): Promise<void> => {
@@ -330,161 +614,444 @@ export const postsAPI = {
 
 export const searchAPI = {
   search: async (query: string, type?: string): Promise<{
-    users: any[];
-    posts: any[];
-    hashtags: any[];
+    users: UserSummary[];
+    posts: Post[];
+    hashtags: Hashtag[];
   }> => {
     const response = await api.get('/api/search', {
       params: { q: query, type },
     });
-    return response.data;
+    return validate(
+      z.looseObject({
+        users: z.array(userSummarySchema),
+        posts: z.array(postSchema),
+        hashtags: z.array(hashtagSchema),
+      }),
+      response.data,
+      'GET /api/search'
+    );
   },
 
   autocomplete: async (query: string, type: string = 'hashtags'): Promise<{
-    suggestions: any[];
+    suggestions: Array<Hashtag | MentionSuggestion>;
   }> => {
     const response = await api.get('/api/search/autocomplete', {
       params: { q: query, type },
     });
-    return response.data;
+    return validate(
+      z.looseObject({ suggestions: z.array(z.union([hashtagSchema, mentionSuggestionSchema])) }),
+      response.data,
+      'GET /api/search/autocomplete'
+    );
   },
 };
 
 export const contactsAPI = {
-  follow: async (receiverId: string, presetName?: string): Promise<any> => {
+  follow: async (receiverId: string, presetName?: string): Promise<{ message: string; contact: Contact }> => {
     const response = await api.post('/api/contacts/follow', { 
       receiver_id: receiverId,
       preset_name: presetName,
     });
-    return response.data;
+    return validate(contactResponse, response.data, 'POST /api/contacts/follow');
   },
 
-  approve: async (contactId: string, presetName?: string): Promise<any> => {
+  approve: async (contactId: string, presetName?: string): Promise<{ message: string; contact: Contact }> => {
     const response = await api.post('/api/contacts/approve', { 
       contact_id: contactId,
       preset_name: presetName,
     });
-    return response.data;
+    return validate(contactResponse, response.data, 'POST /api/contacts/approve');
   },
 
-  unfollow: async (contactId?: string, userId?: string): Promise<any> => {
+  unfollow: async (contactId?: string, userId?: string): Promise<{ message: string }> => {
     const response = await api.delete('/api/contacts/unfollow', {
       data: { contact_id: contactId, user_id: userId },
     });
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'DELETE /api/contacts/unfollow');
   },
 
-  getContacts: async (): Promise<{ contacts: any[] }> => {
+  getContacts: async (): Promise<{ contacts: Contact[] }> => {
     const response = await api.get('/api/contacts');
-    return response.data;
+    return validate(
+      z.looseObject({ contacts: z.array(contactSchema) }),
+      response.data,
+      'GET /api/contacts'
+    );
   },
 
-  getPending: async (): Promise<{ pending: any[] }> => {
+  getPending: async (): Promise<{ pending: Contact[] }> => {
     const response = await api.get('/api/contacts/pending');
-    return response.data;
+    return validate(
+      z.looseObject({ pending: z.array(contactSchema) }),
+      response.data,
+      'GET /api/contacts/pending'
+    );
   },
 };
 
 export const presetsAPI = {
-  getPresets: async (): Promise<{ presets: any }> => {
+  getPresets: async (): Promise<{ presets: VisibilityPresets }> => {
     const response = await api.get('/api/presets');
-    return response.data;
+    return validate(
+      z.looseObject({ presets: visibilityPresetsSchema }),
+      response.data,
+      'GET /api/presets'
+    );
   },
 
-  updatePresets: async (presets: any): Promise<{ message: string; presets: any }> => {
+  updatePresets: async (
+    presets: VisibilityPresets
+  ): Promise<{ message: string; presets: VisibilityPresets }> => {
     const response = await api.put('/api/presets', presets);
-    return response.data;
+    return validate(
+      z.looseObject({ message: z.string(), presets: visibilityPresetsSchema }),
+      response.data,
+      'PUT /api/presets'
+    );
   },
 
-  getSharedData: async (userId: string, presetName: string): Promise<{ shared_data: any }> => {
+  getSharedData: async (
+    userId: string,
+    presetName: string
+  ): Promise<{ shared_data: Record<string, unknown> }> => {
     const response = await api.post('/api/presets/get-shared-data', {
       user_id: userId,
       preset_name: presetName,
     });
-    return response.data;
+    return validate(
+      z.looseObject({ shared_data: z.record(z.string(), z.unknown()) }),
+      response.data,
+      'POST /api/presets/get-shared-data'
+    );
   },
 };
 
 export const qrAPI = {
   generate: async (presetName: string): Promise<{ token: string; expires_at: string; qr_token_id: string }> => {
     const response = await api.post('/api/qr/generate', { preset_name: presetName });
-    return response.data;
-  },
-
-  validate: async (token: string): Promise<{ valid: boolean; user?: any; requires_signup?: boolean; error?: string }> => {
+    return validate(
+      z.looseObject({ token: z.string(), expires_at: z.string(), qr_token_id: z.string() }),
+      response.data,
+      'POST /api/qr/generate'
+    );
+  },
+
+  validate: async (token: string): Promise<{
+    valid: boolean;
+    user?: { username: string; full_name: string };
+    requires_signup?: boolean;
+    error?: string;
+  }> => {
     // Public endpoint - no auth required
     const response = await axios.get(`${API_URL}/api/qr/validate/${token}`);
-    return response.data;
-  },
-
-  consume: async (token: string, presetName: string): Promise<any> => {
+    return validate(
+      z.looseObject({
+        valid: z.boolean(),
+        user: z.looseObject({ username: z.string(), full_name: z.string() }).optional(),
+        requires_signup: z.boolean().optional(),
+        error: z.string().optional(),
+      }),
+      response.data,
+      'GET /api/qr/validate/:token'
+    );
+  },
+
+  consume: async (token: string, presetName: string): Promise<{ message: string; contact: Contact }> => {
     const response = await api.post('/api/qr/consume', { token, preset_name: presetName });
-    return response.data;
+    return validate(contactResponse, response.data, 'POST /api/qr/consume');
   },
 
-  consumeAfterSignup: async (token: string): Promise<any> => {
+  consumeAfterSignup: async (token: string): Promise<{ message: string; contact: Contact }> => {
     const response = await api.post('/api/qr/consume-after-signup', { token });
-    return response.data;
+    return validate(contactResponse, response.data, 'POST /api/qr/consume-after-signup');
   },
 };
 
 export const chatsAPI = {
-  getThreads: async (): Promise<{ threads: any[] }> => {
+  getThreads: async (): Promise<{ threads: ChatThread[] }> => {
     const response = await api.get('/api/chats/threads');
-    return response.data;
+    const data = validate(
+      z.looseObject({ threads: z.array(chatThreadSchema) }),
+      response.data,
+      'GET /api/chats/threads'
+    );
+    const threads = await Promise.all(
+      data.threads.map(async (thread) => ({
+        ...thread,
+        latestMessage: thread.latestMessage
+          ? await decryptMessage(thread.id, thread.latestMessage)
+          : null,
+      }))
+    );
+    return { ...data, threads };
   },
 
   createThread: async (data: {
     type?: string;
     name?: string;
     participant_ids: string[];
-  }): Promise<{ thread: any }> => {
+  }): Promise<{ thread: ChatThread }> => {
     const response = await api.post('/api/chats/threads', data);
-    return response.data;
+    return validate(
+      z.looseObject({ thread: chatThreadSchema }),
+      response.data,
+      'POST /api/chats/threads'
+    );
   },
 
   getMessages: async (threadId: string, params?: {
     limit?: number;
     cursor?: string;
-  }): Promise<{ messages: any[]; nextCursor: string | null }> => {
+  }): Promise<{ messages: Message[]; nextCursor: string | null }> => {
     const response = await api.get(`/api/chats/threads/${threadId}/messages`, { params });
-    return response.data;
+    const data = validate(
+      z.looseObject({ messages: z.array(messageSchema), nextCursor: z.string().nullable() }),
+      response.data,
+      'GET /api/chats/threads/:threadId/messages'
+    );
+    const messages = await Promise.all(
+      data.messages.map((message) => decryptMessage(threadId, message))
+    );
+    indexMessages(messages);
+    return { ...data, messages };
+  },
+
+  /**
+   * Mark messages as read; returns how many messages in the thread are still unread
+   */
+  markRead: async (threadId: string, messageIds: string[]): Promise<{ unreadCount: number }> => {
+    const response = await api.post(`/api/chats/threads/${threadId}/read`, {
+      message_ids: messageIds,
+    });
+    return validate(
+      z.looseObject({ unreadCount: z.number() }),
+      response.data,
+      'POST /api/chats/threads/:threadId/read'
+    );
+  },
+
+  getUnreadCount: async (): Promise<{ unreadCount: number }> => {
+    const response = await api.get('/api/chats/unread');
+    return validate(z.looseObject({ unreadCount: z.number() }), response.data, 'GET /api/chats/unread');
+  },
+
+  /**
+   * Search messages across all of the user's chats, or within one. The server matches
+   * plaintext messages and the on-device index matches encrypted ones; both lists are
+   * merged newest first.
+   */
+  searchMessages: async (
+    threadId: string | undefined,
+    query: string,
+    limit = 20
+  ): Promise<{ results: MessageSearchResult[] }> => {
+    const [response, local] = await Promise.all([
+      api.get('/api/chats/search', { params: { q: query, thread_id: threadId, limit } }),
+      searchIndex(query, threadId, limit),
+    ]);
+    const data = validate(
+      z.looseObject({ results: z.array(messageSearchResultSchema) }),
+      response.data,
+      'GET /api/chats/search'
+    );
+
+    const serverIds = new Set(data.results.map((result) => result.message_id));
+    const results = [...data.results, ...local.filter((result) => !serverIds.has(result.message_id))]
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+      .slice(0, limit);
+    return { ...data, results };
+  },
+
+  getGroup: async (threadId: string): Promise<GroupDetails> => {
+    const response = await api.get(`/api/chats/threads/${threadId}/group`);
+    return validate(groupDetailsSchema, response.data, 'GET /api/chats/threads/:threadId/group');
+  },
+
+  /**
+   * Rename a group or change its avatar; pass avatar_url: null to remove it
+   */
+  updateGroup: async (threadId: string, data: {
+    name?: string;
+    avatar_url?: string | null;
+  }): Promise<GroupDetails> => {
+    const response = await api.patch(`/api/chats/threads/${threadId}/group`, data);
+    return validate(groupDetailsSchema, response.data, 'PATCH /api/chats/threads/:threadId/group');
+  },
+
+  addParticipants: async (threadId: string, userIds: string[]): Promise<GroupDetails> => {
+    const response = await api.post(`/api/chats/threads/${threadId}/participants`, {
+      user_ids: userIds,
+    });
+    return validate(
+      groupDetailsSchema,
+      response.data,
+      'POST /api/chats/threads/:threadId/participants'
+    );
+  },
+
+  removeParticipant: async (threadId: string, userId: string): Promise<GroupDetails> => {
+    const response = await api.delete(`/api/chats/threads/${threadId}/participants/${userId}`);
+    return validate(
+      groupDetailsSchema,
+      response.data,
+      'DELETE /api/chats/threads/:threadId/participants/:userId'
+    );
+  },
+
+  leaveGroup: async (threadId: string, userId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/api/chats/threads/${threadId}/participants/${userId}`);
+    return validate(
+      messageResponseSchema,
+      response.data,
+      'DELETE /api/chats/threads/:threadId/participants/:userId'
+    );
+  },
+
+  addAdmin: async (threadId: string, userId: string): Promise<GroupDetails> => {
+    const response = await api.post(`/api/chats/threads/${threadId}/admins`, { user_id: userId });
+    return validate(groupDetailsSchema, response.data, 'POST /api/chats/threads/:threadId/admins');
+  },
+
+  removeAdmin: async (threadId: string, userId: string): Promise<GroupDetails> => {
+    const response = await api.delete(`/api/chats/threads/${threadId}/admins/${userId}`);
+    return validate(
+      groupDetailsSchema,
+      response.data,
+      'DELETE /api/chats/threads/:threadId/admins/:userId'
+    );
   },
 
   deleteThread: async (threadId: string): Promise<{ message: string }> => {
     const response = await api.delete(`/api/chats/threads/${threadId}`);
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'DELETE /api/chats/threads/:threadId');
+  },
+
+  getThreadKeys: async (threadId: string, deviceId: string): Promise<{
+    key_version: number;
+    rotation_required: boolean;
+    participant_ids: string[];
+    keys: Array<{ key_version: number; wrapped_key: string; ephemeral_public_key: string }>;
+  }> => {
+    const response = await api.get(`/api/chats/threads/${threadId}/keys`, {
+      params: { device_id: deviceId },
+    });
+    return validate(
+      z.looseObject({
+        key_version: z.number(),
+        rotation_required: z.boolean(),
+        participant_ids: z.array(z.string()),
+        keys: z.array(wrappedThreadKeySchema),
+      }),
+      response.data,
+      'GET /api/chats/threads/:threadId/keys'
+    );
+  },
+
+  rotateThreadKey: async (threadId: string, data: {
+    key_version: number;
+    keys: Array<{
+      user_id: string;
+      device_id: string;
+      wrapped_key: string;
+      ephemeral_public_key: string;
+    }>;
+  }): Promise<{ key_version: number }> => {
+    const response = await api.post(`/api/chats/threads/${threadId}/keys`, data);
+    return validate(
+      z.looseObject({ key_version: z.number() }),
+      response.data,
+      'POST /api/chats/threads/:threadId/keys'
+    );
   },
 };
 
 export const messagesAPI = {
+  /**
+   * Send a message. Content is end-to-end encrypted with the thread key before upload
+   * and the returned message is decrypted again for the caller. Resending with the same
+   * client_id returns the original message rather than creating a second one.
+   */
   send: async (data: {
     thread_id: string;
     content: string;
-    encrypted?: boolean;
     media?: File[];
-  }): Promise<any> => {
-    const formData = new FormData();
-    formData.append('thread_id', data.thread_id);
-    formData.append('content', data.content);
-    if (data.encrypted !== undefined) formData.append('encrypted', String(data.encrypted));
-    if (data.media) {
-      data.media.forEach((file) => {
-        formData.append('media', file);
+    client_id?: string;
+    reply_to_id?: string;
+  }): Promise<Message> => {
+    const post = async () => {
+      const encrypted = await encryptMessage(data.thread_id, data.content);
+      const formData = new FormData();
+      formData.append('thread_id', data.thread_id);
+      formData.append('content', encrypted.content);
+      formData.append('key_version', String(encrypted.key_version));
+      if (data.client_id) formData.append('client_id', data.client_id);
+      if (data.reply_to_id) formData.append('reply_to_id', data.reply_to_id);
+      if (data.media) {
+        data.media.forEach((file) => {
+          formData.append('media', file);
+        });
+      }
+
+      return api.post('/api/messages', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
       });
+    };
+
+    let response;
+    try {
+      response = await post();
+    } catch (error) {
+      // Key was rotated between encrypting and sending: re-encrypt with the new one
+      if ((error as { response?: { status?: number } })?.response?.status !== 409) throw error;
+      invalidateThreadKeys(data.thread_id);
+      response = await post();
+    }
+    const message = validate(messageSchema, response.data, 'POST /api/messages');
+    const decrypted = await decryptMessage(data.thread_id, message);
+    indexMessages([decrypted]);
+    return decrypted;
+  },
+
+  /**
+   * Edit your own message, re-encrypting the new content with the current thread key
+   */
+  edit: async (threadId: string, messageId: string, content: string): Promise<Message> => {
+    const patch = async () => {
+      const encrypted = await encryptMessage(threadId, content);
+      return api.patch(`/api/messages/${messageId}`, encrypted);
+    };
+
+    let response;
+    try {
+      response = await patch();
+    } catch (error) {
+      if ((error as { response?: { status?: number } })?.response?.status !== 409) throw error;
+      invalidateThreadKeys(threadId);
+      response = await patch();
     }
+    const message = validate(messageSchema, response.data, 'PATCH /api/messages/:messageId');
+    const decrypted = await decryptMessage(threadId, message);
+    indexMessages([decrypted]);
+    return decrypted;
+  },
 
-    const response = await api.post('/api/messages', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
-    return response.data;
+  /**
+   * Toggle an emoji reaction; returns the message's full reaction list
+   */
+  react: async (messageId: string, emoji: string): Promise<{ reactions: MessageReaction[] }> => {
+    const response = await api.post(`/api/messages/${messageId}/reactions`, { emoji });
+    return validate(
+      z.looseObject({ reactions: z.array(messageReactionSchema) }),
+      response.data,
+      'POST /api/messages/:messageId/reactions'
+    );
   },
 
   delete: async (messageId: string): Promise<{ message: string }> => {
     const response = await api.delete(`/api/messages/${messageId}`);
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'DELETE /api/messages/:messageId');
   },
 };
 
@@ -492,36 +1059,64 @@ export const notificationsAPI = {
   getNotifications: async (params?: {
     limit?: number;
     unread_only?: boolean;
-  }): Promise<{ notifications: any[]; unreadCount: number }> => {
+  }): Promise<{ notifications: Notification[]; unreadCount: number }> => {
     const response = await api.get('/api/notifications', { params });
-    return response.data;
+    return validate(
+      z.looseObject({ notifications: z.array(notificationSchema), unreadCount: z.number() }),
+      response.data,
+      'GET /api/notifications'
+    );
   },
 
-  markRead: async (notificationId: string): Promise<any> => {
+  markRead: async (notificationId: string): Promise<Notification> => {
     const response = await api.put(`/api/notifications/${notificationId}/read`);
-    return response.data;
+    return validate(notificationSchema, response.data, 'PUT /api/notifications/:id/read');
   },
 
   markAllRead: async (): Promise<{ message: string }> => {
     const response = await api.put('/api/notifications/read-all');
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'PUT /api/notifications/read-all');
+  },
+
+  subscribePush: async (subscription: PushSubscription): Promise<void> => {
+    await api.post('/api/notifications/push/subscribe', subscription.toJSON());
   },
 };
 
 export const reactionsAPI = {
-  react: async (postId: string, type: string): Promise<any> => {
+  /**
+   * Toggle a reaction; reacting again with the same type removes it
+   */
+  react: async (
+    postId: string,
+    type: string
+  ): Promise<Reaction | { message: string; reaction: null }> => {
     const response = await api.post('/api/reactions', { post_id: postId, type });
-    return response.data;
+    return validate(
+      z.union([reactionSchema, z.looseObject({ message: z.string(), reaction: z.null() })]),
+      response.data,
+      'POST /api/reactions'
+    );
   },
 
-  getPostReactions: async (postId: string): Promise<{ reactions: any; total: number }> => {
+  getPostReactions: async (postId: string): Promise<{
+    reactions: Record<string, Reaction[]>;
+    total: number;
+  }> => {
     const response = await api.get(`/api/reactions/post/${postId}`);
-    return response.data;
+    return validate(
+      z.looseObject({
+        reactions: z.record(z.string(), z.array(reactionSchema)),
+        total: z.number(),
+      }),
+      response.data,
+      'GET /api/reactions/post/:postId'
+    );
   },
 
-  deleteReaction: async (reactionId: string): Promise<any> => {
+  deleteReaction: async (reactionId: string): Promise<{ message: string }> => {
     const response = await api.delete(`/api/reactions/${reactionId}`);
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'DELETE /api/reactions/:reactionId');
   },
 };
 
@@ -530,24 +1125,42 @@ export const commentsAPI = {
     post_id: string;
     content: string;
     parent_id?: string;
-  }): Promise<any> => {
+  }): Promise<Comment> => {
     const response = await api.post('/api/comments', data);
-    return response.data;
+    return validate(commentSchema, response.data, 'POST /api/comments');
   },
 
-  getPostComments: async (postId: string): Promise<{ comments: any[] }> => {
+  getPostComments: async (postId: string): Promise<{ comments: Comment[] }> => {
     const response = await api.get(`/api/comments/post/${postId}`);
-    return response.data;
+    return validate(
+      z.looseObject({ comments: z.array(commentSchema) }),
+      response.data,
+      'GET /api/comments/post/:postId'
+    );
+  },
+
+  update: async (commentId: string, content: string): Promise<Comment> => {
+    const response = await api.patch(`/api/comments/${commentId}`, { content });
+    return validate(commentSchema, response.data, 'PATCH /api/comments/:commentId');
+  },
+
+  getRevisions: async (commentId: string): Promise<{ revisions: Revision[] }> => {
+    const response = await api.get(`/api/comments/${commentId}/revisions`);
+    return validate(
+      z.looseObject({ revisions: z.array(revisionSchema) }),
+      response.data,
+      'GET /api/comments/:commentId/revisions'
+    );
   },
 
-  delete: async (commentId: string): Promise<any> => {
+  delete: async (commentId: string): Promise<{ message: string }> => {
     const response = await api.delete(`/api/comments/${commentId}`);
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'DELETE /api/comments/:commentId');
   },
 };
 
 export const storiesAPI = {
-  create: async (file: File, content?: string, module?: string): Promise<any> => {
+  create: async (file: File, content?: string, module?: string): Promise<Post> => {
     const formData = new FormData();
     formData.append('media', file);
     if (content) formData.append('content', content);
@@ -558,17 +1171,25 @@ export const storiesAPI = {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return validate(postSchema, response.data, 'POST /api/stories');
   },
 
-  getStories: async (): Promise<{ stories: any[] }> => {
+  getStories: async (): Promise<{ stories: StoryGroup[] }> => {
     const response = await api.get('/api/stories');
-    return response.data;
+    return validate(
+      z.looseObject({ stories: z.array(storyGroupSchema) }),
+      response.data,
+      'GET /api/stories'
+    );
   },
 
-  getUserStories: async (userId: string): Promise<{ stories: any[] }> => {
+  getUserStories: async (userId: string): Promise<{ stories: Post[] }> => {
     const response = await api.get(`/api/stories/user/${userId}`);
-    return response.data;
+    return validate(
+      z.looseObject({ stories: z.array(postSchema) }),
+      response.data,
+      'GET /api/stories/user/:userId'
+    );
   },
 };
 
@@ -578,28 +1199,38 @@ export const threadsAPI = {
     sort?: string;
     cursor?: string;
     limit?: number;
-  }): Promise<{ threads: any[]; nextCursor: string | null }> => {
+  }): Promise<{ threads: Thread[]; nextCursor: string | null }> => {
     const response = await api.get('/api/threads', { params });
-    return response.data;
+    return validate(
+      z.looseObject({ threads: z.array(threadSchema), nextCursor: z.string().nullable() }),
+      response.data,
+      'GET /api/threads'
+    );
   },
 
   getTopics: async (): Promise<{ topics: Array<{ name: string; count: number }> }> => {
     const response = await api.get('/api/threads/topics');
-    return response.data;
+    return validate(
+      z.looseObject({
+        topics: z.array(z.looseObject({ name: z.string(), count: z.number() })),
+      }),
+      response.data,
+      'GET /api/threads/topics'
+    );
   },
 
-  getThread: async (threadId: string): Promise<any> => {
+  getThread: async (threadId: string): Promise<Thread> => {
     const response = await api.get(`/api/threads/${threadId}`);
-    return response.data;
+    return validate(threadSchema, response.data, 'GET /api/threads/:threadId');
   },
 
   createThread: async (data: {
     title: string;
     content: string;
     topic?: string;
-  }): Promise<any> => {
+  }): Promise<Thread> => {
     const response = await api.post('/api/threads', data);
-    return response.data;
+    return validate(threadSchema, response.data, 'POST /api/threads');
   },
 
   createReply: async (
@@ -608,44 +1239,94 @@ export const threadsAPI = {
       content: string;
       parent_id?: string;
     }
-  ): Promise<any> => {
+  ): Promise<ThreadReply> => {
     const response = await api.post(`/api/threads/${threadId}/replies`, data);
-    return response.data;
+    return validate(threadReplySchema, response.data, 'POST /api/threads/:threadId/replies');
   },
 };
 
+// Optional fields take null to clear them when editing
+type JobInput = {
+  title: string;
+  description: string;
+  company?: string | null;
+  location_city?: string | null;
+  location_country?: string | null;
+  workplace_type?: Job['workplace_type'];
+  type?: string | null;
+  seniority?: Job['seniority'];
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_period?: Job['salary_period'];
+  requirements?: string[];
+  tags?: string[];
+  application_url?: string | null;
+  application_email?: string | null;
+  expires_at?: string | null;
+};
+
+type SavedJobSearchInput = {
+  name: string;
+  query?: string | null;
+  type?: string | null;
+  location?: string | null;
+  workplace_type?: string | null;
+  seniority?: string | null;
+  tags?: string[];
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null; // Required with a band
+  salary_period?: Job['salary_period'];
+  alert_frequency?: SavedJobSearch['alert_frequency'];
+  push_enabled?: boolean;
+};
+
 export const careernetAPI = {
   getJobs: async (params?: {
     status?: string;
     type?: string;
     location?: string;
+    workplace_type?: string;
+    seniority?: string;
     search?: string;
+    tags?: string; // Comma-separated; jobs must have all of them
+    salary_min?: number;
+    salary_max?: number;
+    salary_currency?: string; // Required with a band
+    salary_period?: Job['salary_period'];
     cursor?: string;
     limit?: number;
-  }): Promise<{ jobs: any[]; nextCursor: string | null }> => {
+  }): Promise<{ jobs: Job[]; nextCursor: string | null }> => {
     const response = await api.get('/api/careernet/jobs', { params });
-    return response.data;
+    return validate(
+      z.looseObject({ jobs: z.array(jobSchema), nextCursor: z.string().nullable() }),
+      response.data,
+      'GET /api/careernet/jobs'
+    );
   },
 
-  getJob: async (jobId: string): Promise<any> => {
+  getJob: async (jobId: string): Promise<Job> => {
     const response = await api.get(`/api/careernet/jobs/${jobId}`);
-    return response.data;
+    return validate(jobSchema, response.data, 'GET /api/careernet/jobs/:jobId');
   },
 
-  createJob: async (data: {
-    title: string;
-    description: string;
-    company?: string;
-    location?: string;
-    type?: string;
-    salary_range?: string;
-    requirements?: string[];
-    tags?: string[];
-    application_url?: string;
-    application_email?: string;
-  }): Promise<any> => {
+  createJob: async (data: JobInput): Promise<Job> => {
     const response = await api.post('/api/careernet/jobs', data);
-    return response.data;
+    return validate(jobSchema, response.data, 'POST /api/careernet/jobs');
+  },
+
+  updateJob: async (
+    jobId: string,
+    data: Partial<JobInput> & { status?: Job['status'] }
+  ): Promise<Job> => {
+    const response = await api.patch(`/api/careernet/jobs/${jobId}`, data);
+    return validate(jobSchema, response.data, 'PATCH /api/careernet/jobs/:jobId');
+  },
+
+  duplicateJob: async (jobId: string): Promise<Job> => {
+    const response = await api.post(`/api/careernet/jobs/${jobId}/duplicate`);
+    return validate(jobSchema, response.data, 'POST /api/careernet/jobs/:jobId/duplicate');
   },
 
   applyToJob: async (
@@ -654,7 +1335,7 @@ export const careernetAPI = {
       cover_letter?: string;
       resume?: File;
     }
-  ): Promise<any> => {
+  ): Promise<Application> => {
     const formData = new FormData();
     if (data.cover_letter) formData.append('cover_letter', data.cover_letter);
     if (data.resume) formData.append('resume', data.resume);
@@ -664,21 +1345,124 @@ export const careernetAPI = {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return validate(applicationSchema, response.data, 'POST /api/careernet/jobs/:jobId/apply');
+  },
+
+  getSavedSearches: async (): Promise<{ searches: SavedJobSearch[] }> => {
+    const response = await api.get('/api/careernet/saved-searches');
+    return validate(
+      z.looseObject({ searches: z.array(savedJobSearchSchema) }),
+      response.data,
+      'GET /api/careernet/saved-searches'
+    );
+  },
+
+  createSavedSearch: async (data: SavedJobSearchInput): Promise<SavedJobSearch> => {
+    const response = await api.post('/api/careernet/saved-searches', data);
+    return validate(savedJobSearchSchema, response.data, 'POST /api/careernet/saved-searches');
+  },
+
+  updateSavedSearch: async (
+    searchId: string,
+    data: Partial<SavedJobSearchInput>
+  ): Promise<SavedJobSearch> => {
+    const response = await api.patch(`/api/careernet/saved-searches/${searchId}`, data);
+    return validate(
+      savedJobSearchSchema,
+      response.data,
+      'PATCH /api/careernet/saved-searches/:searchId'
+    );
+  },
+
+  deleteSavedSearch: async (searchId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/api/careernet/saved-searches/${searchId}`);
+    return validate(
+      messageResponseSchema,
+      response.data,
+      'DELETE /api/careernet/saved-searches/:searchId'
+    );
+  },
+
+  getMyApplications: async (): Promise<{ applications: MyApplication[] }> => {
+    const response = await api.get('/api/careernet/applications/mine');
+    return validate(
+      z.looseObject({ applications: z.array(myApplicationSchema) }),
+      response.data,
+      'GET /api/careernet/applications/mine'
+    );
+  },
+
+  getJobApplications: async (
+    jobId: string
+  ): Promise<{ job: Pick<Job, 'id' | 'user_id' | 'title' | 'company' | 'status'>; applications: Applicant[] }> => {
+    const response = await api.get(`/api/careernet/jobs/${jobId}/applications`);
+    return validate(
+      z.looseObject({
+        job: jobSchema.pick({ id: true, user_id: true, title: true, company: true, status: true }),
+        applications: z.array(applicantSchema),
+      }),
+      response.data,
+      'GET /api/careernet/jobs/:jobId/applications'
+    );
+  },
+
+  updateApplicationStatus: async (
+    applicationId: string,
+    status: ApplicationStatus
+  ): Promise<{ id: string; status: ApplicationStatus }> => {
+    const response = await api.patch(`/api/careernet/applications/${applicationId}/status`, {
+      status,
+    });
+    return validate(
+      z.looseObject({ id: z.string(), status: applicationStatusSchema }),
+      response.data,
+      'PATCH /api/careernet/applications/:applicationId/status'
+    );
+  },
+
+  bulkUpdateApplicationStatus: async (
+    jobId: string,
+    applicationIds: string[],
+    status: ApplicationStatus
+  ): Promise<{ message: string; updated: number }> => {
+    const response = await api.patch(`/api/careernet/jobs/${jobId}/applications/status`, {
+      application_ids: applicationIds,
+      status,
+    });
+    return validate(
+      messageResponseSchema.extend({ updated: z.number() }),
+      response.data,
+      'PATCH /api/careernet/jobs/:jobId/applications/status'
+    );
+  },
+
+  addApplicationNote: async (applicationId: string, content: string): Promise<ApplicationNote> => {
+    const response = await api.post(`/api/careernet/applications/${applicationId}/notes`, {
+      content,
+    });
+    return validate(
+      applicationNoteSchema,
+      response.data,
+      'POST /api/careernet/applications/:applicationId/notes'
+    );
   },
 
-  getEndorsements: async (userId: string): Promise<{ endorsements: any }> => {
+  getEndorsements: async (userId: string): Promise<{ endorsements: Record<string, Endorsement[]> }> => {
     const response = await api.get(`/api/careernet/endorsements/user/${userId}`);
-    return response.data;
+    return validate(
+      z.looseObject({ endorsements: z.record(z.string(), z.array(endorsementSchema)) }),
+      response.data,
+      'GET /api/careernet/endorsements/user/:userId'
+    );
   },
 
   createEndorsement: async (data: {
     receiver_id: string;
     skill: string;
     message?: string;
-  }): Promise<any> => {
+  }): Promise<Endorsement> => {
     const response = await api.post('/api/careernet/endorsements', data);
-    return response.data;
+    return validate(endorsementSchema, response.data, 'POST /api/careernet/endorsements');
   },
 };
 
@@ -690,61 +1474,215 @@ export const liveAPI = {
     category?: string; // For live streams: 'Gaming', 'Music', 'Art & Creative', 'Technology', 'Education', 'Lifestyle', 'Other'
     scheduled_at?: string;
     thread_id?: string; // For calls: thread ID to call participants
-  }): Promise<{
-    session: any;
-    roomUrl: string; // Daily.co room URL
-    token: string; // Daily.co meeting token
-    userId: string; // String user ID for reference
-  }> => {
+  }): Promise<RoomAccess> => {
     const response = await api.post('/api/live/create', data);
-    return response.data;
+    return validate(roomAccessSchema, response.data, 'POST /api/live/create');
   },
 
-  joinSession: async (sessionId: string): Promise<{
-    session?: any;
-    roomUrl: string; // Daily.co room URL
-    token: string; // Daily.co meeting token
-    userId: string; // String user ID for reference
-  }> => {
+  scheduleSession: async (data: {
+    title: string;
+    description?: string;
+    category?: string;
+    scheduled_at: string;
+  }): Promise<{ session: CallSession }> => {
+    const response = await api.post('/api/live/schedule', data);
+    return validate(
+      z.looseObject({ session: callSessionSchema }),
+      response.data,
+      'POST /api/live/schedule'
+    );
+  },
+
+  // Host only: takes a scheduled stream live
+  startSession: async (sessionId: string): Promise<RoomAccess> => {
+    const response = await api.post(`/api/live/start/${sessionId}`);
+    return validate(roomAccessSchema, response.data, 'POST /api/live/start/:sessionId');
+  },
+
+  joinSession: async (sessionId: string): Promise<RoomAccess> => {
     const response = await api.post(`/api/live/join/${sessionId}`);
-    return response.data;
+    return validate(roomAccessSchema, response.data, 'POST /api/live/join/:sessionId');
   },
 
-  acceptCall: async (sessionId: string): Promise<{ session: any; roomUrl?: string; token?: string }> => {
+  acceptCall: async (sessionId: string): Promise<RoomAccess> => {
     const response = await api.post(`/api/live/accept/${sessionId}`);
-    return response.data;
+    return validate(roomAccessSchema, response.data, 'POST /api/live/accept/:sessionId');
   },
 
-  rejectCall: async (sessionId: string): Promise<{ session: any }> => {
+  rejectCall: async (sessionId: string): Promise<{ session: CallSession }> => {
     const response = await api.post(`/api/live/reject/${sessionId}`);
-    return response.data;
+    return validate(
+      z.looseObject({ session: callSessionSchema }),
+      response.data,
+      'POST /api/live/reject/:sessionId'
+    );
+  },
+
+  getSessions: async (params?: { category?: string }): Promise<{ sessions: CallSession[] }> => {
+    const response = await api.get('/api/live/sessions', { params });
+    return validate(
+      z.looseObject({ sessions: z.array(callSessionSchema) }),
+      response.data,
+      'GET /api/live/sessions'
+    );
+  },
+
+  getUpcoming: async (params?: { category?: string }): Promise<{ sessions: CallSession[] }> => {
+    const response = await api.get('/api/live/upcoming', { params });
+    return validate(
+      z.looseObject({ sessions: z.array(callSessionSchema) }),
+      response.data,
+      'GET /api/live/upcoming'
+    );
+  },
+
+  rsvp: async (sessionId: string): Promise<LiveRsvp> => {
+    const response = await api.post(`/api/live/${sessionId}/rsvp`);
+    return validate(liveRsvpSchema, response.data, 'POST /api/live/:sessionId/rsvp');
   },
 
-  getSessions: async (): Promise<{ sessions: any[] }> => {
-    const response = await api.get('/api/live/sessions');
-    return response.data;
+  cancelRsvp: async (sessionId: string): Promise<LiveRsvp> => {
+    const response = await api.delete(`/api/live/${sessionId}/rsvp`);
+    return validate(liveRsvpSchema, response.data, 'DELETE /api/live/:sessionId/rsvp');
   },
 
-  endSession: async (sessionId: string): Promise<any> => {
+  getActiveCall: async (threadId: string): Promise<{ call: ActiveCall | null }> => {
+    const response = await api.get(`/api/live/threads/${threadId}/call`);
+    return validate(
+      z.looseObject({ call: activeCallSchema.nullable() }),
+      response.data,
+      'GET /api/live/threads/:threadId/call'
+    );
+  },
+
+  leaveSession: async (sessionId: string): Promise<{ session: CallSession }> => {
+    const response = await api.post(`/api/live/leave/${sessionId}`);
+    return validate(
+      z.looseObject({ session: callSessionSchema }),
+      response.data,
+      'POST /api/live/leave/:sessionId'
+    );
+  },
+
+  getCallHistory: async (params?: {
+    cursor?: string;
+  }): Promise<{ calls: CallHistoryEntry[]; nextCursor: string | null }> => {
+    const response = await api.get('/api/live/calls', { params });
+    return validate(
+      z.looseObject({
+        calls: z.array(callHistoryEntrySchema),
+        nextCursor: z.string().nullable(),
+      }),
+      response.data,
+      'GET /api/live/calls'
+    );
+  },
+
+  endSession: async (sessionId: string): Promise<{ session: CallSession }> => {
     const response = await api.post(`/api/live/end/${sessionId}`);
-    return response.data;
+    return validate(
+      z.looseObject({ session: callSessionSchema }),
+      response.data,
+      'POST /api/live/end/:sessionId'
+    );
+  },
+
+  // Live chat; messages are kept after the stream ends for replay
+  getChat: async (
+    sessionId: string,
+    params?: { cursor?: string; limit?: number }
+  ): Promise<{
+    messages: LiveChatMessage[];
+    nextCursor: string | null;
+    settings: LiveChatSettings;
+  }> => {
+    const response = await api.get(`/api/live/${sessionId}/chat`, { params });
+    return validate(
+      z.looseObject({
+        messages: z.array(liveChatMessageSchema),
+        nextCursor: z.string().nullable(),
+        settings: liveChatSettingsSchema,
+      }),
+      response.data,
+      'GET /api/live/:sessionId/chat'
+    );
+  },
+
+  sendChatMessage: async (sessionId: string, content: string): Promise<LiveChatMessage> => {
+    const response = await api.post(`/api/live/${sessionId}/chat`, { content });
+    return validate(liveChatMessageSchema, response.data, 'POST /api/live/:sessionId/chat');
+  },
+
+  deleteChatMessage: async (sessionId: string, messageId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/api/live/${sessionId}/chat/${messageId}`);
+    return validate(
+      messageResponseSchema,
+      response.data,
+      'DELETE /api/live/:sessionId/chat/:messageId'
+    );
+  },
+
+  updateChatSettings: async (
+    sessionId: string,
+    data: { slow_mode_seconds: number }
+  ): Promise<LiveChatSettings> => {
+    const response = await api.patch(`/api/live/${sessionId}/chat/settings`, data);
+    return validate(liveChatSettingsSchema, response.data, 'PATCH /api/live/:sessionId/chat/settings');
+  },
+
+  addModerator: async (sessionId: string, userId: string): Promise<LiveChatSettings> => {
+    const response = await api.post(`/api/live/${sessionId}/moderators`, { user_id: userId });
+    return validate(liveChatSettingsSchema, response.data, 'POST /api/live/:sessionId/moderators');
+  },
+
+  removeModerator: async (sessionId: string, userId: string): Promise<LiveChatSettings> => {
+    const response = await api.delete(`/api/live/${sessionId}/moderators/${userId}`);
+    return validate(
+      liveChatSettingsSchema,
+      response.data,
+      'DELETE /api/live/:sessionId/moderators/:userId'
+    );
+  },
+
+  banViewer: async (sessionId: string, userId: string): Promise<{ message: string }> => {
+    const response = await api.post(`/api/live/${sessionId}/bans`, { user_id: userId });
+    return validate(messageResponseSchema, response.data, 'POST /api/live/:sessionId/bans');
+  },
+
+  unbanViewer: async (sessionId: string, userId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/api/live/${sessionId}/bans/${userId}`);
+    return validate(messageResponseSchema, response.data, 'DELETE /api/live/:sessionId/bans/:userId');
   },
 };
 
 export const pollsAPI = {
-  create: async (postId: string, options: string[]): Promise<any> => {
+  create: async (postId: string, options: string[]): Promise<{
+    pollOptions: Array<{ id: string; option_text: string; vote_count: number }>;
+  }> => {
     const response = await api.post('/api/polls', { post_id: postId, options });
-    return response.data;
-  },
-
-  getPoll: async (postId: string): Promise<any> => {
+    return validate(
+      z.looseObject({
+        pollOptions: z.array(
+          z.looseObject({ id: z.string(), option_text: z.string(), vote_count: z.number() })
+        ),
+      }),
+      response.data,
+      'POST /api/polls'
+    );
+  },
+
+  getPoll: async (postId: string): Promise<Poll> => {
     const response = await api.get(`/api/polls/post/${postId}`);
-    return response.data;
+    return validate(pollSchema, response.data, 'GET /api/polls/post/:postId');
   },
 
-  vote: async (postId: string, optionId: string): Promise<any> => {
+  vote: async (postId: string, optionId: string): Promise<{ vote: { id: string; option_id: string } }> => {
     const response = await api.post('/api/polls/vote', { post_id: postId, option_id: optionId });
-    return response.data;
+    return validate(
+      z.looseObject({ vote: z.looseObject({ id: z.string(), option_id: z.string() }) }),
+      response.data,
+      'POST /api/polls/vote'
+    );
   },
 };
 
@@ -752,60 +1690,246 @@ export const bookmarksAPI = {
   getBookmarks: async (params?: {
     cursor?: string;
     limit?: number;
-  }): Promise<{ bookmarks: any[]; nextCursor: string | null }> => {
+  }): Promise<{ bookmarks: Bookmark[]; nextCursor: string | null }> => {
     const response = await api.get('/api/bookmarks', { params });
-    return response.data;
+    return validate(
+      z.looseObject({ bookmarks: z.array(bookmarkSchema), nextCursor: z.string().nullable() }),
+      response.data,
+      'GET /api/bookmarks'
+    );
   },
 
-  bookmark: async (postId: string): Promise<any> => {
+  bookmark: async (postId: string): Promise<Bookmark> => {
     const response = await api.post('/api/bookmarks', { post_id: postId });
-    return response.data;
+    return validate(bookmarkSchema, response.data, 'POST /api/bookmarks');
   },
 
-  unbookmark: async (postId: string): Promise<any> => {
+  unbookmark: async (postId: string): Promise<{ message: string }> => {
     const response = await api.delete(`/api/bookmarks/${postId}`);
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'DELETE /api/bookmarks/:postId');
   },
 
   checkBookmarked: async (postId: string): Promise<{ bookmarked: boolean }> => {
     const response = await api.get(`/api/bookmarks/check/${postId}`);
-    return response.data;
+    return validate(
+      z.looseObject({ bookmarked: z.boolean() }),
+      response.data,
+      'GET /api/bookmarks/check/:postId'
+    );
   },
 };
 
 export const highlightsAPI = {
-  getHighlights: async (userId: string): Promise<{ highlights: any[] }> => {
+  getHighlights: async (userId: string): Promise<{ highlights: StoryHighlight[] }> => {
     const response = await api.get(`/api/highlights/user/${userId}`);
-    return response.data;
+    return validate(
+      z.looseObject({ highlights: z.array(storyHighlightSchema) }),
+      response.data,
+      'GET /api/highlights/user/:userId'
+    );
   },
 
   createHighlight: async (data: {
     title: string;
     story_ids: string[];
     cover_url?: string;
-  }): Promise<any> => {
+  }): Promise<StoryHighlight> => {
     const response = await api.post('/api/highlights', data);
-    return response.data;
+    return validate(storyHighlightSchema, response.data, 'POST /api/highlights');
   },
 
-  deleteHighlight: async (highlightId: string): Promise<any> => {
+  deleteHighlight: async (highlightId: string): Promise<{ message: string }> => {
     const response = await api.delete(`/api/highlights/${highlightId}`);
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'DELETE /api/highlights/:highlightId');
   },
 };
 
 export const usersAPI = {
-  getSettings: async (): Promise<{ settings: any }> => {
+  getByUsername: async (username: string): Promise<{ user: PublicUser }> => {
+    const response = await api.get(`/api/users/${encodeURIComponent(username)}`);
+    return validate(
+      z.looseObject({ user: publicUserSchema }),
+      response.data,
+      'GET /api/users/:username'
+    );
+  },
+  getSettings: async (): Promise<{ settings: UserSettings }> => {
     const response = await api.get('/api/users/settings');
-    return response.data;
-  },
-  updateSettings: async (settings: { privacy?: any; notifications?: any }): Promise<{ message: string; user: any }> => {
+    return validate(
+      z.looseObject({ settings: userSettingsSchema }),
+      response.data,
+      'GET /api/users/settings'
+    );
+  },
+  updateSettings: async (
+    settings: UserSettings
+  ): Promise<{ message: string; user: { id: string; settings?: UserSettings | null } }> => {
     const response = await api.patch('/api/users/settings', settings);
-    return response.data;
+    return validate(
+      z.looseObject({
+        message: z.string(),
+        user: z.looseObject({ id: z.string(), settings: userSettingsSchema.nullish() }),
+      }),
+      response.data,
+      'PATCH /api/users/settings'
+    );
   },
   deleteAccount: async (): Promise<{ message: string }> => {
     const response = await api.delete('/api/users/account');
-    return response.data;
+    return validate(messageResponseSchema, response.data, 'DELETE /api/users/account');
+  },
+  getBlocks: async (): Promise<{ blocked: BlockEntry[]; muted: BlockEntry[] }> => {
+    const response = await api.get('/api/users/blocks');
+    return validate(
+      z.looseObject({ blocked: z.array(blockEntrySchema), muted: z.array(blockEntrySchema) }),
+      response.data,
+      'GET /api/users/blocks'
+    );
+  },
+  /**
+   * Blocking also removes any contact between the two users
+   */
+  block: async (userId: string): Promise<{ message: string }> => {
+    const response = await api.post(`/api/users/${userId}/block`);
+    return validate(messageResponseSchema, response.data, 'POST /api/users/:userId/block');
+  },
+  unblock: async (userId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/api/users/${userId}/block`);
+    return validate(messageResponseSchema, response.data, 'DELETE /api/users/:userId/block');
+  },
+  mute: async (userId: string): Promise<{ message: string }> => {
+    const response = await api.post(`/api/users/${userId}/mute`);
+    return validate(messageResponseSchema, response.data, 'POST /api/users/:userId/mute');
+  },
+  unmute: async (userId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/api/users/${userId}/mute`);
+    return validate(messageResponseSchema, response.data, 'DELETE /api/users/:userId/mute');
+  },
+};
+
+export const analyticsAPI = {
+  /**
+   * Activity totals for the signed-in user (the backend rejects other usernames)
+   */
+  getUserAnalytics: async (username: string): Promise<UserAnalytics> => {
+    const response = await api.get(`/api/users/${encodeURIComponent(username)}/analytics`);
+    return validate(userAnalyticsSchema, response.data, 'GET /api/users/:username/analytics');
+  },
+};
+
+export const reportsAPI = {
+  create: async (data: {
+    target_type: Report['target_type'];
+    target_id: string;
+    reason: Report['reason'];
+    description?: string;
+  }): Promise<Report> => {
+    const response = await api.post('/api/reports', data);
+    return validate(reportSchema, response.data, 'POST /api/reports');
+  },
+
+  getMine: async (): Promise<{ reports: Report[] }> => {
+    const response = await api.get('/api/reports/my');
+    return validate(
+      z.looseObject({ reports: z.array(reportSchema) }),
+      response.data,
+      'GET /api/reports/my'
+    );
+  },
+};
+
+export const twoFactorAPI = {
+  getStatus: async (): Promise<TwoFactorStatus> => {
+    const response = await api.get('/api/two-factor');
+    return validate(twoFactorStatusSchema, response.data, 'GET /api/two-factor');
+  },
+  /**
+   * Start enrolment; two-factor stays off until enable() confirms a code
+   */
+  setup: async (): Promise<{ secret: string; otpauthUrl: string }> => {
+    const response = await api.post('/api/two-factor/setup');
+    return validate(
+      z.looseObject({ secret: z.string(), otpauthUrl: z.string() }),
+      response.data,
+      'POST /api/two-factor/setup'
+    );
+  },
+  enable: async (code: string): Promise<{ message: string; recoveryCodes: string[] }> => {
+    const response = await api.post('/api/two-factor/enable', { code });
+    return validate(
+      z.looseObject({ message: z.string(), recoveryCodes: z.array(z.string()) }),
+      response.data,
+      'POST /api/two-factor/enable'
+    );
+  },
+  regenerateRecoveryCodes: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+    const response = await api.post('/api/two-factor/recovery-codes', { code });
+    return validate(
+      z.looseObject({ recoveryCodes: z.array(z.string()) }),
+      response.data,
+      'POST /api/two-factor/recovery-codes'
+    );
+  },
+  disable: async (data: { password: string; code: string }): Promise<{ message: string }> => {
+    const response = await api.post('/api/two-factor/disable', data);
+    return validate(messageResponseSchema, response.data, 'POST /api/two-factor/disable');
+  },
+};
+
+export const sessionsAPI = {
+  getAll: async (): Promise<LoginSession[]> => {
+    const response = await api.get('/api/sessions');
+    return validate(
+      z.looseObject({ sessions: z.array(loginSessionSchema) }),
+      response.data,
+      'GET /api/sessions'
+    ).sessions;
+  },
+  revoke: async (sessionId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/api/sessions/${sessionId}`);
+    return validate(messageResponseSchema, response.data, 'DELETE /api/sessions/:sessionId');
+  },
+  /**
+   * Sign out of every device, including this one
+   */
+  revokeAll: async (): Promise<{ message: string; revoked: number }> => {
+    const response = await api.delete('/api/sessions');
+    return validate(
+      z.looseObject({ message: z.string(), revoked: z.number() }),
+      response.data,
+      'DELETE /api/sessions'
+    );
+  },
+};
+
+export const adminAPI = {
+  getStats: async (): Promise<AdminStats> => {
+    const response = await api.get('/api/admin/stats');
+    return validate(adminStatsSchema, response.data, 'GET /api/admin/stats');
+  },
+
+  getReports: async (params?: {
+    status?: Report['status'];
+    cursor?: string;
+    limit?: number;
+  }): Promise<{ reports: Report[]; nextCursor: string | null }> => {
+    const response = await api.get('/api/admin/reports', { params });
+    return validate(
+      z.looseObject({ reports: z.array(reportSchema), nextCursor: z.string().nullable() }),
+      response.data,
+      'GET /api/admin/reports'
+    );
+  },
+
+  updateReport: async (
+    reportId: string,
+    data: {
+      status?: Report['status'];
+      action_taken?: string;
+    }
+  ): Promise<Report> => {
+    const response = await api.patch(`/api/admin/reports/${reportId}`, data);
+    return validate(reportSchema, response.data, 'PATCH /api/admin/reports/:reportId');
   },
 };
 
@@ -1,7 +1,75 @@
 import { AuthResponse, User, Profile } from '../types';
+import { idbClear } from './idb';
 
 const TOKEN_KEY = 'kartess_token';
 const REFRESH_TOKEN_KEY = 'kartess_refresh_token';
+const CSRF_TOKEN_KEY = 'kartess_csrf_token';
+
+// Hosting platforms that give every deployment its own site under a shared
+// domain (they are on the Public Suffix List), so two hosts there are cross-site
+const SHARED_HOSTING_SUFFIXES = [
+  'vercel.app',
+  'up.railway.app',
+  'netlify.app',
+  'herokuapp.com',
+  'onrender.com',
+  'pages.dev',
+  'github.io',
+];
+
+/**
+ * The site a host belongs to in the browser's eyes: its domain one label below
+ * the public suffix. Only the hosting suffixes above are known; anything else is
+ * taken to end in a single-label suffix such as .app or .com.
+ */
+function siteOf(hostname: string): string {
+  if (!hostname.includes('.') || /^[\d.]+$/.test(hostname)) {
+    return hostname;
+  }
+
+  const suffix = SHARED_HOSTING_SUFFIXES.find(
+    (candidate) => hostname === candidate || hostname.endsWith(`.${candidate}`)
+  );
+  const suffixLabels = suffix ? suffix.split('.').length : 1;
+  return hostname.split('.').slice(-(suffixLabels + 1)).join('.');
+}
+
+/**
+ * Whether the API is on the same site (scheme and registrable domain) as this page
+ */
+export function isSameSiteApi(
+  apiUrl: string = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
+): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+
+  try {
+    const api = new URL(apiUrl, window.location.href);
+    return (
+      api.protocol === window.location.protocol &&
+      siteOf(api.hostname) === siteOf(window.location.hostname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * In cookie session mode the access and refresh tokens live in httpOnly cookies
+ * set by the API, out of reach of page scripts, and only the CSRF token and
+ * non-secret user data are kept here. It is the default whenever the API is on
+ * the frontend's site. A cross-site API keeps bearer tokens in localStorage,
+ * because browsers that block third-party cookies would drop the session cookies
+ * (see DEPLOYMENT_GUIDE). NEXT_PUBLIC_AUTH_MODE=token opts out of cookie sessions
+ * and NEXT_PUBLIC_AUTH_MODE=cookie forces them.
+ */
+export function usesCookieSession(): boolean {
+  const mode = process.env.NEXT_PUBLIC_AUTH_MODE;
+  if (mode === 'token') return false;
+  if (mode === 'cookie') return true;
+  return isSameSiteApi();
+}
 
 /**
  * Store JWT token in localStorage
@@ -60,20 +128,45 @@ export function removeRefreshToken(): void {
 }
 
 /**
- * Check if user is authenticated (has valid token)
+ * Store the CSRF token that cookie sessions echo back in the X-CSRF-Token header
+ */
+export function setCsrfToken(csrfToken: string): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(CSRF_TOKEN_KEY, csrfToken);
+  }
+}
+
+/**
+ * Get the CSRF token for a cookie session
+ */
+export function getCsrfToken(): string | null {
+  if (typeof window !== 'undefined') {
+    return localStorage.getItem(CSRF_TOKEN_KEY);
+  }
+  return null;
+}
+
+/**
+ * Check if user is authenticated (has valid token). The session cookie can't be
+ * read, so in cookie mode a stored user stands in for it until the API says otherwise.
  */
 export function isAuthenticated(): boolean {
-  return !!getToken();
+  return !!getToken() || (usesCookieSession() && !!getUser());
 }
 
 /**
- * Store auth response (token and user data)
+ * Store auth response (tokens or CSRF token, and user data)
  */
-export function setAuth(authResponse: AuthResponse): void {
-  setToken(authResponse.token);
+export function setAuth(authResponse: Partial<AuthResponse> & Pick<AuthResponse, 'user'>): void {
+  if (authResponse.token) {
+    setToken(authResponse.token);
+  }
   if (authResponse.refreshToken) {
     setRefreshToken(authResponse.refreshToken);
   }
+  if (authResponse.csrfToken) {
+    setCsrfToken(authResponse.csrfToken);
+  }
   if (typeof window !== 'undefined') {
     localStorage.setItem('kartess_user', JSON.stringify(authResponse.user));
     if (authResponse.profileComplete !== undefined) {
@@ -102,6 +195,16 @@ export function getUser(): User | null {
   return null;
 }
 
+/**
+ * Merge changes into the stored user (e.g. after verifying their email)
+ */
+export function updateStoredUser(updates: Partial<User>): void {
+  const user = getUser();
+  if (user && typeof window !== 'undefined') {
+    localStorage.setItem('kartess_user', JSON.stringify({ ...user, ...updates }));
+  }
+}
+
 /**
  * Clear all auth data
  */
@@ -109,12 +212,53 @@ export function clearAuth(): void {
   removeToken();
   removeRefreshToken();
   if (typeof window !== 'undefined') {
+    localStorage.removeItem(CSRF_TOKEN_KEY);
     localStorage.removeItem('kartess_user');
     localStorage.removeItem('kartess_profile_complete');
     sessionStorage.removeItem('kartess_auth_verified');
+
+    // Decrypted message text and unsent plaintext must not outlive the session
+    // on a shared device
+    (['messageIndex', 'outbox'] as const).forEach((store) => {
+      idbClear(store).catch((error) => {
+        console.error(`Failed to clear ${store}:`, error);
+      });
+    });
   }
 }
 
+// Track if we're currently redirecting to avoid multiple redirects
+let isRedirecting = false;
+
+/**
+ * Clear auth data and send the user to the login page, unless they are on a
+ * page that doesn't need a login. The reason is shown on the login page.
+ */
+export function redirectToLogin(reason?: 'session_expired' | 'session_revoked'): void {
+  clearAuth();
+
+  if (typeof window === 'undefined' || isRedirecting) {
+    return;
+  }
+
+  const isPublicPath = (path: string) =>
+    path.includes('/login') || path.includes('/register') || path.includes('/profile-complete');
+
+  if (isPublicPath(window.location.pathname)) {
+    return;
+  }
+
+  isRedirecting = true;
+  setTimeout(() => {
+    if (!isPublicPath(window.location.pathname)) {
+      window.location.href = reason ? `/login?reason=${reason}` : '/login';
+    }
+    setTimeout(() => {
+      isRedirecting = false;
+    }, 1000);
+  }, 200);
+}
+
 /**
  * Check if profile is complete (from localStorage or API)
  */
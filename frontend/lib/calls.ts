@@ -0,0 +1,60 @@
+import type { CallHistoryEntry, CallSummary } from '../types';
+
+export type CallOutcome = CallHistoryEntry['outcome'];
+
+/**
+ * How a call went. Mirrors getCallOutcome on the server, which also marks a
+ * group call as missed for anyone who never joined (GET /api/live/calls only).
+ */
+export function getCallOutcome(call: CallSummary): CallOutcome {
+  if (call.call_status === 'rejected') {
+    return 'declined';
+  }
+  if (call.status !== 'ended') {
+    return 'ongoing';
+  }
+  return call.answered_at ? 'completed' : 'missed';
+}
+
+export function getCallDurationSeconds(call: CallSummary): number | null {
+  if (!call.answered_at || !call.ended_at) {
+    return null;
+  }
+  const ms = new Date(call.ended_at).getTime() - new Date(call.answered_at).getTime();
+  return Math.max(0, Math.round(ms / 1000));
+}
+
+// "4:05", or "1:02:09" past an hour
+export function formatCallDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
+
+/**
+ * e.g. "Missed video call", "Outgoing voice call", "Call declined"
+ */
+export function describeCall(
+  call: CallSummary,
+  outcome: CallOutcome,
+  direction: CallHistoryEntry['direction']
+): string {
+  const kind = call.call_type === 'video' ? 'video call' : 'voice call';
+
+  switch (outcome) {
+    case 'declined':
+      return direction === 'outgoing' ? 'Call declined' : `Declined ${kind}`;
+    case 'missed':
+      return direction === 'outgoing' ? `No answer (${kind})` : `Missed ${kind}`;
+    case 'ongoing':
+      return `${kind.charAt(0).toUpperCase()}${kind.slice(1)} in progress`;
+    default:
+      return `${direction === 'outgoing' ? 'Outgoing' : 'Incoming'} ${kind}`;
+  }
+}
+
+// The call page starts a new call (liveAPI.createSession) when opened without a sessionId
+export function callBackHref(threadId: string, callType: CallSummary['call_type']): string {
+  return `/chats/${threadId}/call?type=${callType === 'video' ? 'video' : 'voice'}`;
+}
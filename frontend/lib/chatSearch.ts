@@ -0,0 +1,133 @@
+import { getUser } from './auth';
+import { UNDECRYPTABLE_MESSAGE } from './encryption';
+import { idbDelete, idbGetAll, idbPut } from './idb';
+import type { Message, MessageSearchResult } from '../types';
+
+/**
+ * On-device search index for end-to-end encrypted chat messages.
+ *
+ * The server can only match plaintext, so every encrypted message this device decrypts
+ * is kept here and searched locally. Results have the same shape as the server's and
+ * snippets are cut the same way (backend/utils/chatSearch.js; both are tested against
+ * tests/fixtures/searchSnippets.json), so callers can merge both lists without caring
+ * where a match came from. Only messages this device has loaded at some point are
+ * searchable.
+ */
+
+const SNIPPET_CONTEXT_CHARS = 40;
+const SNIPPET_LENGTH = 120;
+
+interface IndexedMessage {
+  id: string;
+  owner_id: string; // Signed-in user who decrypted it; devices can be shared
+  thread_id: string;
+  user: Message['user'];
+  content: string;
+  created_at: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function splitSearchTerms(query: string): string[] {
+  return query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Cut a window of text around the first matched term and locate every term inside it
+ */
+export function buildSnippet(
+  content: string,
+  terms: string[]
+): Pick<MessageSearchResult, 'snippet' | 'highlights'> {
+  const lower = content.toLowerCase();
+  const firstMatch = Math.min(
+    ...terms.map((term) => lower.indexOf(term)).filter((index) => index !== -1)
+  );
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${content.slice(start, end)}${end < content.length ? '…' : ''}`;
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const highlights = Array.from(snippet.matchAll(pattern), (match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+  return { snippet, highlights };
+}
+
+/**
+ * Add decrypted messages to the index. Plaintext messages are skipped since the
+ * server can already search them.
+ */
+export function indexMessages(messages: Message[]): void {
+  const ownerId = getUser()?.id;
+  if (!ownerId) return;
+
+  messages
+    .filter(
+      (message) =>
+        message.encrypted && message.type !== 'system' && message.content !== UNDECRYPTABLE_MESSAGE
+    )
+    .forEach((message) => {
+      const entry: IndexedMessage = {
+        id: message.id,
+        owner_id: ownerId,
+        thread_id: message.thread_id,
+        user: message.user,
+        content: message.content,
+        created_at: message.created_at,
+      };
+      idbPut('messageIndex', message.id, entry).catch((error) => {
+        console.error('Failed to index message:', error);
+      });
+    });
+}
+
+export function removeFromIndex(messageId: string): void {
+  idbDelete('messageIndex', messageId).catch((error) => {
+    console.error('Failed to remove message from index:', error);
+  });
+}
+
+/**
+ * Search indexed messages of the signed-in user, newest first
+ */
+export async function searchIndex(
+  query: string,
+  threadId?: string,
+  limit = 20
+): Promise<MessageSearchResult[]> {
+  const ownerId = getUser()?.id;
+  const terms = splitSearchTerms(query);
+  if (!ownerId || terms.length === 0) {
+    return [];
+  }
+
+  let indexed: IndexedMessage[];
+  try {
+    indexed = await idbGetAll<IndexedMessage>('messageIndex');
+  } catch (error) {
+    console.error('Failed to read message index:', error);
+    return [];
+  }
+
+  return indexed
+    .filter((entry) => entry.owner_id === ownerId && (!threadId || entry.thread_id === threadId))
+    .filter((entry) => {
+      const content = entry.content.toLowerCase();
+      return terms.every((term) => content.includes(term));
+    })
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, limit)
+    .map((entry) => ({
+      message_id: entry.id,
+      thread_id: entry.thread_id,
+      user: entry.user,
+      created_at: entry.created_at,
+      ...buildSnippet(entry.content, terms),
+    }));
+}
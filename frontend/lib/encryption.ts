@@ -1,41 +1,330 @@
-import CryptoJS from 'crypto-js';
-
-// Use a key derived from user token for encryption
-// In production, this should be more secure
-function getEncryptionKey(): string {
-  if (typeof window !== 'undefined') {
-    const token = localStorage.getItem('kartess_token');
-    if (token) {
-      // Derive key from token (simple approach - in production use proper key derivation)
-      return CryptoJS.SHA256(token).toString().substring(0, 32);
+import { chatsAPI, profileAPI } from './api';
+import { getUser } from './auth';
+import { idbGet, idbPut } from './idb';
+
+/**
+ * End-to-end encryption for chat messages.
+ *
+ * Every browser holds its own ECDH P-256 keypair (private key never leaves IndexedDB)
+ * and publishes the public half via /api/profile/keys for the current session; signing
+ * that session out removes the published key. Each chat thread has a versioned AES-GCM
+ * key; whoever rotates it wraps the raw key for every participant device using an
+ * ephemeral ECDH keypair, and the server only ever sees wrapped keys. The key is
+ * rotated whenever the server reports that the participant devices changed.
+ *
+ * Attachments are uploaded as-is and are not covered by this scheme.
+ */
+
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const AES_PARAMS: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
+const IV_LENGTH = 12;
+const MAX_ROTATION_ATTEMPTS = 3;
+
+export const UNDECRYPTABLE_MESSAGE = '🔒 This message can\'t be decrypted on this device';
+
+interface DeviceRecord {
+  deviceId: string;
+  keyPair: CryptoKeyPair;
+}
+
+interface ThreadKeyState {
+  currentVersion: number;
+  rotationRequired: boolean;
+  participantIds: string[];
+  keys: Map<number, CryptoKey>;
+}
+
+export interface EncryptableMessage {
+  content: string;
+  encrypted?: boolean;
+  key_version?: number | null;
+  reply_to?: EncryptableMessage | null;
+}
+
+const threadKeys = new Map<string, Promise<ThreadKeyState>>();
+let devicePromise: Promise<DeviceRecord> | null = null;
+let devicePromiseUserId: string | null = null;
+let publishPromise: Promise<void> | null = null;
+
+function getSubtle(): SubtleCrypto {
+  if (typeof window === 'undefined' || !window.crypto?.subtle) {
+    throw new Error('End-to-end encryption is not supported in this browser');
+  }
+  return window.crypto.subtle;
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function randomIv(): Uint8Array<ArrayBuffer> {
+  return window.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+}
+
+async function sealBytes(key: CryptoKey, plaintext: Uint8Array<ArrayBuffer>): Promise<string> {
+  const iv = randomIv();
+  const ciphertext = await getSubtle().encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  sealed.set(iv, 0);
+  sealed.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return toBase64(sealed);
+}
+
+async function openBytes(key: CryptoKey, sealed: string): Promise<ArrayBuffer> {
+  const bytes = fromBase64(sealed);
+  return getSubtle().decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+    key,
+    bytes.slice(IV_LENGTH)
+  );
+}
+
+function importPublicKey(spki: string): Promise<CryptoKey> {
+  return getSubtle().importKey('spki', fromBase64(spki), ECDH_PARAMS, false, []);
+}
+
+function deriveWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
+  return getSubtle().deriveKey({ name: 'ECDH', public: publicKey }, privateKey, AES_PARAMS, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Load this browser's device keypair for the signed-in user, creating it on first use
+ */
+function getDevice(): Promise<DeviceRecord> {
+  const userId = getUser()?.id;
+  if (!userId) {
+    return Promise.reject(new Error('Not signed in'));
+  }
+
+  if (!devicePromise || devicePromiseUserId !== userId) {
+    devicePromiseUserId = userId;
+    publishPromise = null;
+    devicePromise = (async () => {
+      const existing = await idbGet<DeviceRecord>('deviceKeys', userId);
+      if (existing) {
+        return existing;
+      }
+
+      const keyPair = (await getSubtle().generateKey(ECDH_PARAMS, false, [
+        'deriveKey',
+      ])) as CryptoKeyPair;
+      const record: DeviceRecord = {
+        deviceId: window.crypto.randomUUID(),
+        keyPair,
+      };
+      await idbPut('deviceKeys', userId, record);
+      return record;
+    })().catch((error) => {
+      devicePromise = null;
+      throw error;
+    });
+  }
+
+  return devicePromise;
+}
+
+/**
+ * Publish this device's public key so other participants can wrap thread keys for it.
+ * Safe to call repeatedly; the upload happens once per session.
+ */
+export function ensureDeviceKeyPublished(): Promise<void> {
+  if (!publishPromise) {
+    publishPromise = (async () => {
+      const device = await getDevice();
+      const publicKey = await getSubtle().exportKey('spki', device.keyPair.publicKey);
+      await profileAPI.publishDeviceKey({
+        device_id: device.deviceId,
+        public_key: toBase64(publicKey),
+        label: navigator.userAgent.slice(0, 200),
+      });
+    })().catch((error) => {
+      publishPromise = null;
+      throw error;
+    });
+  }
+
+  return publishPromise;
+}
+
+async function fetchThreadKeys(threadId: string): Promise<ThreadKeyState> {
+  await ensureDeviceKeyPublished();
+  const device = await getDevice();
+  const response = await chatsAPI.getThreadKeys(threadId, device.deviceId);
+
+  const keys = new Map<number, CryptoKey>();
+  await Promise.all(
+    response.keys.map(async (wrapped) => {
+      try {
+        const ephemeralKey = await importPublicKey(wrapped.ephemeral_public_key);
+        const wrappingKey = await deriveWrappingKey(device.keyPair.privateKey, ephemeralKey);
+        const raw = await openBytes(wrappingKey, wrapped.wrapped_key);
+        keys.set(
+          wrapped.key_version,
+          await getSubtle().importKey('raw', raw, AES_PARAMS, false, ['encrypt', 'decrypt'])
+        );
+      } catch (error) {
+        console.error('Failed to unwrap thread key version', wrapped.key_version, error);
+      }
+    })
+  );
+
+  return {
+    currentVersion: response.key_version,
+    rotationRequired: response.rotation_required,
+    participantIds: response.participant_ids,
+    keys,
+  };
+}
+
+function getThreadKeys(threadId: string): Promise<ThreadKeyState> {
+  let state = threadKeys.get(threadId);
+  if (!state) {
+    state = fetchThreadKeys(threadId);
+    state.catch(() => threadKeys.delete(threadId));
+    threadKeys.set(threadId, state);
+  }
+  return state;
+}
+
+/**
+ * Drop cached keys for a thread (e.g. after a `thread.key_rotated` event)
+ */
+export function invalidateThreadKeys(threadId: string): void {
+  threadKeys.delete(threadId);
+}
+
+/**
+ * Generate a new thread key and wrap it for every device of every participant
+ */
+async function rotateThreadKey(threadId: string, state: ThreadKeyState): Promise<void> {
+  const subtle = getSubtle();
+  const { keys: devices } = await profileAPI.getDeviceKeys(state.participantIds);
+  if (devices.length === 0) {
+    throw new Error('No participant has an encryption key yet');
+  }
+
+  const threadKey = await subtle.generateKey(AES_PARAMS, true, ['encrypt', 'decrypt']);
+  const raw = new Uint8Array(await subtle.exportKey('raw', threadKey));
+  const ephemeral = (await subtle.generateKey(ECDH_PARAMS, false, ['deriveKey'])) as CryptoKeyPair;
+  const ephemeralPublicKey = toBase64(await subtle.exportKey('spki', ephemeral.publicKey));
+
+  const wrappedKeys = await Promise.all(
+    devices.map(async (device) => {
+      const wrappingKey = await deriveWrappingKey(
+        ephemeral.privateKey,
+        await importPublicKey(device.public_key)
+      );
+      return {
+        user_id: device.user_id,
+        device_id: device.device_id,
+        wrapped_key: await sealBytes(wrappingKey, raw),
+        ephemeral_public_key: ephemeralPublicKey,
+      };
+    })
+  );
+
+  await chatsAPI.rotateThreadKey(threadId, {
+    key_version: state.currentVersion + 1,
+    keys: wrappedKeys,
+  });
+}
+
+/**
+ * Resolve the key to encrypt with, rotating first if the participant devices changed
+ */
+async function getCurrentThreadKey(threadId: string): Promise<{ key: CryptoKey; version: number }> {
+  for (let attempt = 0; attempt < MAX_ROTATION_ATTEMPTS; attempt++) {
+    const state = await getThreadKeys(threadId);
+    const key = state.keys.get(state.currentVersion);
+
+    if (key && !state.rotationRequired) {
+      return { key, version: state.currentVersion };
+    }
+
+    try {
+      await rotateThreadKey(threadId, state);
+    } catch (error) {
+      // Another participant rotated concurrently; reload and use theirs
+      if ((error as { response?: { status?: number } })?.response?.status !== 409) {
+        throw error;
+      }
     }
+    invalidateThreadKeys(threadId);
   }
-  // Fallback key (should not happen in production)
-  return 'default-encryption-key-32chars!!';
+
+  throw new Error('Unable to establish an encryption key for this conversation');
 }
 
 /**
- * Encrypt message content
+ * Encrypt message content with the current thread key
  */
-export function encryptMessage(content: string): string {
-  // Temporarily return plain content to keep messages readable across users.
-  // TODO: implement shared encryption scheme with per-thread keys.
-  return content;
+export async function encryptMessage(
+  threadId: string,
+  content: string
+): Promise<{ content: string; key_version: number }> {
+  const { key, version } = await getCurrentThreadKey(threadId);
+  const sealed = await sealBytes(key, new TextEncoder().encode(content));
+  return { content: sealed, key_version: version };
 }
 
 /**
- * Decrypt message content
+ * Decrypt a message's content, and that of the message it quotes. Plaintext messages
+ * are returned untouched; messages whose key was never wrapped for this device get a
+ * placeholder instead.
  */
-export function decryptMessage(encryptedContent: string): string {
+export async function decryptMessage<T extends EncryptableMessage>(
+  threadId: string,
+  message: T
+): Promise<T> {
+  const decrypted = await decryptContent(threadId, message);
+  if (!message.reply_to) {
+    return decrypted;
+  }
+  return { ...decrypted, reply_to: await decryptContent(threadId, message.reply_to) };
+}
+
+async function decryptContent<T extends EncryptableMessage>(
+  threadId: string,
+  message: T
+): Promise<T> {
+  if (!message.encrypted || message.key_version == null) {
+    return message;
+  }
+
   try {
-    const key = getEncryptionKey();
-    const bytes = CryptoJS.AES.decrypt(encryptedContent, key);
-    const decrypted = bytes.toString(CryptoJS.enc.Utf8);
-    if (decrypted) {
-      return decrypted;
+    let state = await getThreadKeys(threadId);
+    if (!state.keys.has(message.key_version) && message.key_version > state.currentVersion) {
+      // Key was rotated after we cached this thread
+      invalidateThreadKeys(threadId);
+      state = await getThreadKeys(threadId);
+    }
+
+    const key = state.keys.get(message.key_version);
+    if (!key) {
+      return { ...message, content: UNDECRYPTABLE_MESSAGE };
     }
+
+    const plaintext = await openBytes(key, message.content);
+    return { ...message, content: new TextDecoder().decode(plaintext) };
   } catch (error) {
-    // Silent fallback; content may already be plaintext.
+    console.error('Failed to decrypt message:', error);
+    return { ...message, content: UNDECRYPTABLE_MESSAGE };
   }
-  return encryptedContent;
 }
@@ -0,0 +1,97 @@
+const DB_NAME = 'kartess';
+const DB_VERSION = 3;
+
+/**
+ * Object stores in the shared client database.
+ * Bump DB_VERSION when adding a store so existing databases get upgraded.
+ */
+const STORES = ['deviceKeys', 'outbox', 'messageIndex'] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade if needed) the shared IndexedDB database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach((store) => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store);
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+function runRequest<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(store, mode);
+        const request = action(transaction.objectStore(store));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+/**
+ * Read a single record
+ */
+export function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return runRequest<T | undefined>(store, 'readonly', (objectStore) => objectStore.get(key));
+}
+
+/**
+ * Read every record in a store
+ */
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return runRequest<T[]>(store, 'readonly', (objectStore) => objectStore.getAll());
+}
+
+/**
+ * Insert or replace a record
+ */
+export function idbPut<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+  return runRequest<IDBValidKey>(store, 'readwrite', (objectStore) => objectStore.put(value, key)).then(
+    () => undefined
+  );
+}
+
+/**
+ * Delete a record
+ */
+export function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  return runRequest<undefined>(store, 'readwrite', (objectStore) => objectStore.delete(key));
+}
+
+/**
+ * Delete every record in a store
+ */
+export function idbClear(store: StoreName): Promise<void> {
+  return runRequest<undefined>(store, 'readwrite', (objectStore) => objectStore.clear());
+}
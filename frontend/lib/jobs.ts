@@ -0,0 +1,67 @@
+import type { Job } from '../types';
+
+export type WorkplaceType = NonNullable<Job['workplace_type']>;
+export type SeniorityLevel = NonNullable<Job['seniority']>;
+export type SalaryPeriod = NonNullable<Job['salary_period']>;
+
+export const workplaceTypeLabels: Record<WorkplaceType, string> = {
+  onsite: 'On-site',
+  hybrid: 'Hybrid',
+  remote: 'Remote',
+};
+
+export const seniorityLabels: Record<SeniorityLevel, string> = {
+  entry: 'Entry level',
+  mid: 'Mid level',
+  senior: 'Senior',
+  lead: 'Lead',
+  executive: 'Executive',
+};
+
+export const salaryPeriodLabels: Record<SalaryPeriod, string> = {
+  hour: 'per hour',
+  month: 'per month',
+  year: 'per year',
+};
+
+function formatAmount(amount: number, currency: string | null | undefined): string {
+  if (!currency) {
+    return amount.toLocaleString();
+  }
+
+  try {
+    return amount.toLocaleString(undefined, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    });
+  } catch {
+    // Unknown currency codes make Intl throw
+    return `${amount.toLocaleString()} ${currency}`;
+  }
+}
+
+/**
+ * Salary for display, e.g. "€70,000 – €90,000 per year". Jobs posted before
+ * salaries were structured fall back to their free-text range.
+ */
+export function formatSalary(job: Job): string | null {
+  const { salary_min: min, salary_max: max, salary_currency: currency } = job;
+
+  if (min == null && max == null) {
+    return job.salary_range || null;
+  }
+
+  let amount: string;
+  if (min != null && max != null && min !== max) {
+    amount = `${formatAmount(min, currency)} – ${formatAmount(max, currency)}`;
+  } else if (min != null && max != null) {
+    amount = formatAmount(min, currency);
+  } else if (min != null) {
+    amount = `From ${formatAmount(min, currency)}`;
+  } else {
+    amount = `Up to ${formatAmount(max as number, currency)}`;
+  }
+
+  return job.salary_period ? `${amount} ${salaryPeriodLabels[job.salary_period]}` : amount;
+}
@@ -0,0 +1,18 @@
+// Categories a live stream can be listed under
+export const LIVE_CATEGORIES = [
+  'Gaming',
+  'Music',
+  'Art & Creative',
+  'Technology',
+  'Education',
+  'Lifestyle',
+  'Other',
+];
+
+// <input type="datetime-local"> works in local time without seconds
+export function toDateTimeInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,253 @@
+import { isAxiosError } from 'axios';
+import { messagesAPI } from './api';
+import { getUser } from './auth';
+import { idbDelete, idbGetAll, idbPut } from './idb';
+import type { Message } from '../types';
+
+/**
+ * Offline outbox for chat messages.
+ *
+ * Every send is written to IndexedDB first under a client-generated ID and shown
+ * optimistically, then delivered strictly in the order it was queued. The backend
+ * treats the client ID as an idempotency key, so replaying a message whose response
+ * was lost can't create a duplicate, and the `message.new` echo carries the ID back
+ * so the optimistic copy can be dropped.
+ *
+ * Content stays as plaintext on this device until it is sent; it is encrypted at
+ * delivery time with whatever thread key is current then.
+ */
+
+const MAX_RATE_LIMIT_RETRIES = 5;
+const DEFAULT_RETRY_AFTER_MS = 1500;
+
+export type OutboxStatus = 'sending' | 'failed';
+
+export interface OutboxEntry {
+  client_id: string;
+  user_id: string;
+  thread_id: string;
+  content: string;
+  media: File[];
+  reply_to_id?: string;
+  created_at: string;
+  status: OutboxStatus;
+  error?: string; // Set when the message was rejected or couldn't be sent; those aren't replayed automatically
+}
+
+/**
+ * Called after every outbox change, with the server copy when a message was delivered
+ */
+export type OutboxListener = (delivered?: Message) => void;
+
+let entries: OutboxEntry[] = [];
+let loadPromise: Promise<void> | null = null;
+let flushPromise: Promise<void> | null = null;
+let flushRequested = false;
+const listeners = new Set<OutboxListener>();
+
+interface ErrorBody {
+  error?: string;
+  retryAfterMs?: number;
+}
+
+function notify(delivered?: Message) {
+  listeners.forEach((listener) => listener(delivered));
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function persist(entry: OutboxEntry): Promise<void> {
+  return idbPut('outbox', entry.client_id, entry).catch((error) => {
+    // Still deliverable from memory for this session
+    console.error('Failed to persist outbox entry:', error);
+  });
+}
+
+function forget(clientId: string): Promise<void> {
+  return idbDelete('outbox', clientId).catch((error) => {
+    console.error('Failed to remove outbox entry:', error);
+  });
+}
+
+function loadOutbox(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = idbGetAll<OutboxEntry>('outbox')
+      .then((stored) => {
+        const known = new Set(entries.map((entry) => entry.client_id));
+        entries = [...stored.filter((entry) => !known.has(entry.client_id)), ...entries].sort(
+          (a, b) => a.created_at.localeCompare(b.created_at)
+        );
+        notify();
+      })
+      .catch((error) => {
+        console.error('Failed to load outbox:', error);
+      });
+  }
+  return loadPromise;
+}
+
+function updateEntry(clientId: string, changes: Partial<OutboxEntry>): OutboxEntry | undefined {
+  const index = entries.findIndex((entry) => entry.client_id === clientId);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const updated = { ...entries[index], ...changes };
+  entries = [...entries.slice(0, index), updated, ...entries.slice(index + 1)];
+  persist(updated);
+  notify();
+  return updated;
+}
+
+function removeEntry(clientId: string, delivered?: Message) {
+  entries = entries.filter((entry) => entry.client_id !== clientId);
+  forget(clientId);
+  notify(delivered);
+}
+
+/**
+ * Send one entry, waiting out the server's rate limit (which also trips when an
+ * identical message was sent moments ago)
+ */
+async function deliver(entry: OutboxEntry): Promise<Message> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await messagesAPI.send({
+        thread_id: entry.thread_id,
+        content: entry.content,
+        media: entry.media.length > 0 ? entry.media : undefined,
+        client_id: entry.client_id,
+        reply_to_id: entry.reply_to_id,
+      });
+    } catch (error) {
+      const response = isAxiosError<ErrorBody>(error) ? error.response : undefined;
+      if (response?.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw error;
+      }
+      await delay(response.data?.retryAfterMs || DEFAULT_RETRY_AFTER_MS);
+    }
+  }
+}
+
+async function drain() {
+  await loadOutbox();
+  const userId = getUser()?.id;
+
+  for (const queued of entries) {
+    if (queued.user_id !== userId || queued.error) continue;
+
+    // The entry may have been discarded or retried while an earlier one was in flight
+    const entry = updateEntry(queued.client_id, { status: 'sending' });
+    if (!entry) continue;
+
+    try {
+      const message = await deliver(entry);
+      removeEntry(entry.client_id, message);
+    } catch (error) {
+      if (isAxiosError<ErrorBody>(error) && !error.response) {
+        // Offline: stop here so nothing overtakes this message, and wait for a reconnect
+        entries
+          .filter((pending) => pending.user_id === userId && !pending.error)
+          .forEach((pending) => updateEntry(pending.client_id, { status: 'failed' }));
+        return;
+      }
+
+      // Rejected by the server, or failed here (e.g. while encrypting): hold only this one
+      if (!isAxiosError(error)) {
+        console.error('Failed to send queued message:', error);
+      }
+      updateEntry(entry.client_id, {
+        status: 'failed',
+        error: (isAxiosError<ErrorBody>(error) && error.response?.data?.error) || 'Failed to send message',
+      });
+    }
+  }
+}
+
+/**
+ * Deliver everything queued for the signed-in user, oldest first.
+ * Concurrent calls share one run; a call made mid-run triggers another pass.
+ */
+export function flushOutbox(): Promise<void> {
+  if (flushPromise) {
+    flushRequested = true;
+    return flushPromise;
+  }
+
+  flushPromise = (async () => {
+    do {
+      flushRequested = false;
+      await drain();
+    } while (flushRequested);
+  })().finally(() => {
+    flushPromise = null;
+  });
+
+  return flushPromise;
+}
+
+/**
+ * Queue a message for delivery and show it straight away
+ */
+export async function queueMessage(data: {
+  thread_id: string;
+  content: string;
+  media?: File[];
+  reply_to_id?: string;
+}): Promise<OutboxEntry> {
+  const userId = getUser()?.id;
+  if (!userId) {
+    throw new Error('Not signed in');
+  }
+
+  await loadOutbox();
+  const entry: OutboxEntry = {
+    client_id: window.crypto.randomUUID(),
+    user_id: userId,
+    thread_id: data.thread_id,
+    content: data.content,
+    media: data.media || [],
+    reply_to_id: data.reply_to_id,
+    created_at: new Date().toISOString(),
+    status: 'sending',
+  };
+
+  entries = [...entries, entry];
+  await persist(entry);
+  notify();
+  flushOutbox().catch((error) => console.error('Outbox flush failed:', error));
+  return entry;
+}
+
+/**
+ * Try a failed message again, including ones the server rejected
+ */
+export function retryMessage(clientId: string): Promise<void> {
+  updateEntry(clientId, { status: 'sending', error: undefined });
+  return flushOutbox();
+}
+
+/**
+ * Drop a queued message without sending it
+ */
+export function discardMessage(clientId: string) {
+  removeEntry(clientId);
+}
+
+/**
+ * Messages still waiting in the outbox for a thread, oldest first
+ */
+export function getOutboxEntries(threadId: string): OutboxEntry[] {
+  const userId = getUser()?.id;
+  return entries.filter((entry) => entry.thread_id === threadId && entry.user_id === userId);
+}
+
+export function subscribeOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  loadOutbox();
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,54 @@
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+import type { Post } from '../types';
+
+/**
+ * Keeps cached posts in sync with edits, so feeds update in place instead of
+ * refetching and losing their scroll position.
+ */
+
+type PostPages = InfiniteData<{ posts: Post[] }>;
+
+function isPostPages(data: unknown): data is PostPages {
+  const pages = (data as PostPages | undefined)?.pages;
+  return Array.isArray(pages) && pages.every((page) => Array.isArray(page?.posts));
+}
+
+/**
+ * Copy only the editable fields; counts and the viewer's own reaction stay as cached
+ * since the edit payload is the same for every viewer
+ */
+function patchPost(post: Post, updated: Post): Post {
+  const edits = {
+    content: updated.content,
+    tags: updated.tags,
+    edited_at: updated.edited_at,
+  };
+
+  if (post.id === updated.id) {
+    return { ...post, ...edits };
+  }
+  // Reposts show the original post's content
+  if (post.parent?.id === updated.id) {
+    return { ...post, parent: { ...post.parent, ...edits } };
+  }
+  return post;
+}
+
+/**
+ * Apply an edited post to every cached feed page and to its detail query
+ */
+export function applyPostEdit(queryClient: QueryClient, updated: Post): void {
+  queryClient.setQueriesData<PostPages>(
+    { predicate: (query) => isPostPages(query.state.data) },
+    (old) =>
+      old && {
+        ...old,
+        pages: old.pages.map((page) => ({
+          ...page,
+          posts: page.posts.map((post) => patchPost(post, updated)),
+        })),
+      }
+  );
+
+  queryClient.setQueryData<Post>(['post', updated.id], (old) => old && patchPost(old, updated));
+}
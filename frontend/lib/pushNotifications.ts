@@ -1,3 +1,5 @@
+import { notificationsAPI } from './api';
+
 // Browser Push Notifications
 export async function requestNotificationPermission(): Promise<boolean> {
   if (!('Notification' in window)) {
@@ -49,14 +51,7 @@ export async function subscribeToPush(
     });
 
     // Send subscription to backend
-    await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/notifications/push/subscribe`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${localStorage.getItem('token')}`,
-      },
-      body: JSON.stringify(subscription),
-    });
+    await notificationsAPI.subscribePush(subscription);
 
     return subscription;
   } catch (error) {
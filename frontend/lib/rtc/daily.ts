@@ -0,0 +1,178 @@
+import type { RtcParticipant, RtcProvider } from './index';
+
+// The parts of a Daily.co participant we read
+interface DailyParticipant {
+  session_id: string;
+  user_name?: string;
+  local?: boolean;
+  videoTrack?: MediaStreamTrack | null;
+  audioTrack?: MediaStreamTrack | null;
+}
+
+interface DailyTrackEvent {
+  participant?: DailyParticipant;
+  track?: MediaStreamTrack;
+}
+
+interface DailyErrorEvent {
+  errorMsg?: string;
+  error?: { message?: string };
+  message?: string;
+}
+
+function toRtcParticipant(participant: DailyParticipant): RtcParticipant {
+  return {
+    id: participant.session_id,
+    name: participant.user_name || 'Guest',
+    videoTrack: participant.videoTrack || null,
+    audioTrack: participant.audioTrack || null,
+  };
+}
+
+/**
+ * Daily.co call objects (no iframe; pages render the tracks themselves)
+ */
+export const dailyProvider: RtcProvider = {
+  name: 'daily',
+  usesMediaDevices: true,
+
+  async connect(listener) {
+    // TypeScript types are declared in types/daily-js.d.ts
+    const dailyModule = await import('@daily-co/daily-js');
+    const DailyIframe = dailyModule.default || dailyModule.DailyIframe;
+    const callObject = DailyIframe.createCallObject();
+
+    const remotes = new Map<string, RtcParticipant>();
+    let enableVideo = true;
+
+    const emitParticipants = () => {
+      listener.onParticipantsChanged(Array.from(remotes.values()));
+    };
+
+    // Rebuild the remote list from Daily's own state
+    const syncParticipants = () => {
+      try {
+        const state = callObject.participants() as Record<string, DailyParticipant>;
+        remotes.clear();
+        Object.entries(state).forEach(([key, participant]) => {
+          if (key !== 'local' && participant) {
+            remotes.set(participant.session_id, toRtcParticipant(participant));
+          }
+        });
+        emitParticipants();
+      } catch (err) {
+        console.error('Error updating participants from state', err);
+      }
+    };
+
+    const updateTrack = (event: DailyTrackEvent | undefined, started: boolean) => {
+      const participant = event?.participant;
+      const track = event?.track;
+      if (!participant || !track) {
+        syncParticipants();
+        return;
+      }
+
+      const kind = track.kind === 'video' ? 'video' : 'audio';
+      if (participant.local) {
+        listener.onLocalTrack(kind, started ? track : null);
+        return;
+      }
+
+      if (!started && !remotes.has(participant.session_id)) {
+        return;
+      }
+      const existing = remotes.get(participant.session_id) || toRtcParticipant(participant);
+      remotes.set(participant.session_id, {
+        ...existing,
+        [kind === 'video' ? 'videoTrack' : 'audioTrack']: started ? track : null,
+      });
+      emitParticipants();
+    };
+
+    callObject
+      .on('joined-meeting', () => {
+        const local = (callObject.participants() as Record<string, DailyParticipant>).local;
+        listener.onJoined(local?.session_id || null);
+        if (local?.videoTrack) {
+          listener.onLocalTrack('video', local.videoTrack);
+        }
+        if (local?.audioTrack) {
+          listener.onLocalTrack('audio', local.audioTrack);
+        }
+        syncParticipants();
+      })
+      .on('left-meeting', () => {
+        remotes.clear();
+        listener.onLeft();
+      })
+      .on('participant-joined', syncParticipants)
+      .on('participant-updated', syncParticipants)
+      .on('participant-left', (event?: { participant?: DailyParticipant }) => {
+        if (event?.participant) {
+          remotes.delete(event.participant.session_id);
+        }
+        emitParticipants();
+      })
+      .on('active-speaker-change', (event?: { activeSpeaker?: { peerId?: string } }) => {
+        listener.onActiveSpeakerChanged(event?.activeSpeaker?.peerId || null);
+      })
+      .on('track-started', (event?: DailyTrackEvent) => updateTrack(event, true))
+      .on('track-stopped', (event?: DailyTrackEvent) => updateTrack(event, false))
+      .on('error', (event?: DailyErrorEvent) => {
+        console.error('Daily.co error', event);
+
+        let message =
+          event?.errorMsg ||
+          event?.error?.message ||
+          event?.message ||
+          'Failed to connect to the meeting. Please try again.';
+        const lower = message.toLowerCase();
+
+        if (lower.includes('permission') || lower.includes('notallowed') || lower.includes('denied')) {
+          message = enableVideo
+            ? 'Camera and microphone permissions are required. Please allow access and try again.'
+            : 'Microphone permission is required. Please allow access and try again.';
+        } else if (lower.includes('notfound') || lower.includes('no device')) {
+          message = enableVideo
+            ? 'No camera or microphone found. Please connect a device and try again.'
+            : 'No microphone found. Please connect a microphone and try again.';
+        }
+
+        listener.onError(message);
+      });
+
+    return {
+      async join(options) {
+        enableVideo = options.enableVideo;
+
+        await callObject.join({
+          url: options.roomUrl,
+          token: options.token || undefined,
+          userName: options.userName,
+        });
+
+        // Both sides of a call publish, so turn devices on only after joining
+        try {
+          await callObject.setLocalAudio(options.enableAudio);
+        } catch (err) {
+          console.error('Failed to set local audio', err);
+        }
+        try {
+          await callObject.setLocalVideo(options.enableVideo);
+        } catch (err) {
+          console.error('Failed to set local video', err);
+        }
+
+        // Pick up tracks that were already flowing before our handlers saw them
+        setTimeout(syncParticipants, 500);
+      },
+      leave: () => callObject.leave(),
+      destroy: () => callObject.destroy(),
+      setLocalAudio: (enabled) => callObject.setLocalAudio(enabled),
+      setLocalVideo: (enabled) => callObject.setLocalVideo(enabled),
+      isLocalAudioEnabled: () => callObject.localAudio(),
+      isLocalVideoEnabled: () => callObject.localVideo(),
+    };
+  },
+};
@@ -0,0 +1,113 @@
+import { dailyProvider } from './daily';
+import { loopbackProvider } from './loopback';
+
+/**
+ * Real-time audio/video, independent of the service that carries it.
+ *
+ * Pages talk to `useRtcSession`; the hook drives an RtcProvider, which wraps
+ * one SDK. Daily.co is used in production. The loopback provider fakes a room
+ * in memory so calls and live streams can be developed and tested without
+ * network access or a camera.
+ */
+
+export interface RtcParticipant {
+  id: string; // Provider session ID
+  name: string;
+  videoTrack: MediaStreamTrack | null;
+  audioTrack: MediaStreamTrack | null;
+}
+
+export interface RtcJoinOptions {
+  roomUrl: string;
+  token: string | null;
+  userName: string;
+  enableVideo: boolean;
+  enableAudio: boolean;
+}
+
+// Callbacks a connection uses to report what happens in the room
+export interface RtcSessionListener {
+  onJoined(localId: string | null): void;
+  onLeft(): void;
+  onParticipantsChanged(participants: RtcParticipant[]): void; // Remote participants only
+  onLocalTrack(kind: 'audio' | 'video', track: MediaStreamTrack | null): void;
+  onActiveSpeakerChanged(participantId: string | null): void;
+  onError(message: string): void;
+}
+
+export interface RtcConnection {
+  join(options: RtcJoinOptions): Promise<void>;
+  leave(): Promise<void>;
+  destroy(): Promise<void>;
+  setLocalAudio(enabled: boolean): Promise<void>;
+  setLocalVideo(enabled: boolean): Promise<void>;
+  isLocalAudioEnabled(): Promise<boolean>;
+  isLocalVideoEnabled(): Promise<boolean>;
+}
+
+export interface RtcProvider {
+  name: string;
+  // Whether joining captures the camera/microphone, so the browser must grant access first
+  usesMediaDevices: boolean;
+  connect(listener: RtcSessionListener): Promise<RtcConnection>;
+}
+
+/**
+ * The provider named by NEXT_PUBLIC_RTC_PROVIDER ('daily' or 'loopback'),
+ * defaulting to Daily.co
+ */
+export function getRtcProvider(): RtcProvider {
+  return process.env.NEXT_PUBLIC_RTC_PROVIDER === 'loopback' ? loopbackProvider : dailyProvider;
+}
+
+/**
+ * User-facing explanation for a getUserMedia failure
+ * @returns The message, and whether the user has to grant access to fix it
+ */
+export function describeMediaError(
+  error: unknown,
+  enableVideo: boolean
+): { message: string; needsPermission: boolean } {
+  const name = error instanceof Error ? error.name : '';
+  const devices = enableVideo ? 'camera and microphone' : 'microphone';
+
+  if (name === 'NotAllowedError' || name === 'PermissionDeniedError') {
+    return {
+      message: `${
+        enableVideo ? 'Camera and microphone permissions were' : 'Microphone permission was'
+      } denied. Please click the lock icon in your browser's address bar, allow ${devices} access, and refresh the page.`,
+      needsPermission: true,
+    };
+  }
+  if (name === 'NotFoundError' || name === 'DevicesNotFoundError') {
+    return {
+      message: `No ${devices} found. Please connect a ${devices} and try again.`,
+      needsPermission: false,
+    };
+  }
+  if (name === 'NotReadableError' || name === 'TrackStartError') {
+    return {
+      message:
+        'Camera or microphone is already in use by another application. Please close other applications using your camera/microphone and try again.',
+      needsPermission: false,
+    };
+  }
+  if (name === 'OverconstrainedError' || name === 'ConstraintNotSatisfiedError') {
+    return {
+      message:
+        'Camera or microphone does not meet the required specifications. Please try with a different device.',
+      needsPermission: false,
+    };
+  }
+  if (name === 'AbortError') {
+    return { message: 'Permission request was aborted. Please try again.', needsPermission: false };
+  }
+
+  return {
+    message:
+      error instanceof Error && error.message
+        ? `Failed to access media devices: ${error.message}`
+        : 'Failed to access media devices.',
+    needsPermission: false,
+  };
+}
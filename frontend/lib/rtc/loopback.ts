@@ -0,0 +1,60 @@
+import type { RtcParticipant, RtcProvider } from './index';
+
+interface LoopbackOptions {
+  peers?: string[]; // Names of the fake remote participants
+}
+
+/**
+ * An in-memory room with no network or media: joining connects at once and
+ * the given peers are already there, without tracks. Tiles, controls and call
+ * flows can be exercised without a camera or a Daily.co account.
+ */
+export function createLoopbackProvider({ peers = ['Loopback Peer'] }: LoopbackOptions = {}): RtcProvider {
+  return {
+    name: 'loopback',
+    usesMediaDevices: false,
+
+    async connect(listener) {
+      let joined = false;
+      let audioEnabled = false;
+      let videoEnabled = false;
+
+      const remotes: RtcParticipant[] = peers.map((name, index) => ({
+        id: `loopback-peer-${index + 1}`,
+        name,
+        videoTrack: null,
+        audioTrack: null,
+      }));
+
+      const leave = async () => {
+        if (!joined) return;
+        joined = false;
+        listener.onLeft();
+      };
+
+      return {
+        async join(options) {
+          joined = true;
+          audioEnabled = options.enableAudio;
+          videoEnabled = options.enableVideo;
+
+          listener.onJoined('loopback-local');
+          listener.onParticipantsChanged(remotes);
+          listener.onActiveSpeakerChanged(remotes[0]?.id || null);
+        },
+        leave,
+        destroy: leave,
+        async setLocalAudio(enabled) {
+          audioEnabled = enabled;
+        },
+        async setLocalVideo(enabled) {
+          videoEnabled = enabled;
+        },
+        isLocalAudioEnabled: async () => audioEnabled,
+        isLocalVideoEnabled: async () => videoEnabled,
+      };
+    },
+  };
+}
+
+export const loopbackProvider = createLoopbackProvider();
@@ -1,18 +1,52 @@
+import { useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { getToken } from './auth';
+import { getToken, redirectToLogin } from './auth';
+import { flushOutbox } from './outbox';
+import type { ClientToServerEvents, ServerToClientEvents, SocketRoom } from '../types/socket';
 
 const SOCKET_SERVER_URL = process.env.SOCKET_SERVER_URL || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
-let socket: Socket | null = null;
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
-export function getSocket(): Socket {
-  if (!socket || !socket.connected) {
-    const token = getToken();
-    
+let socket: AppSocket | null = null;
+
+// Number of mounted subscribers per room; rooms are left when it drops to zero
+const roomSubscribers = new Map<SocketRoom, number>();
+
+function joinRoom(target: AppSocket, room: SocketRoom) {
+  const [kind, id] = splitRoom(room);
+  if (kind === 'posts') target.emit('subscribe:posts');
+  else if (kind === 'thread') target.emit('join:thread', id);
+  else if (kind === 'user') target.emit('join:user', id);
+  else if (kind === 'live') target.emit('join:live', id);
+}
+
+function leaveRoom(target: AppSocket, room: SocketRoom) {
+  const [kind, id] = splitRoom(room);
+  if (kind === 'posts') target.emit('unsubscribe:posts');
+  else if (kind === 'thread') target.emit('leave:thread', id);
+  else if (kind === 'live') target.emit('leave:live', id);
+  // The server joins the user room on connect and never leaves it
+}
+
+function splitRoom(room: SocketRoom): [string, string] {
+  const separator = room.indexOf(':');
+  return separator === -1 ? [room, ''] : [room.slice(0, separator), room.slice(separator + 1)];
+}
+
+/**
+ * The shared connection. It is created once and reconnects by itself; rooms in use
+ * are joined again after every reconnect since the server forgets them.
+ */
+export function getSocket(): AppSocket {
+  if (!socket) {
     socket = io(SOCKET_SERVER_URL, {
-      auth: {
-        token,
+      // Read on every (re)connect so a refreshed token is picked up
+      auth: (callback) => {
+        callback({ token: getToken() });
       },
+      // Cookie sessions authenticate the handshake with the access cookie
+      withCredentials: true,
       transports: ['websocket', 'polling'], // Prefer websocket, fallback to polling
       reconnection: true,
       reconnectionDelay: 1000,
@@ -23,6 +57,11 @@ export function getSocket(): Socket {
 
     socket.on('connect', () => {
       console.log('Socket connected:', socket?.id);
+      roomSubscribers.forEach((_, room) => {
+        if (socket) joinRoom(socket, room);
+      });
+      // Replay messages queued while we were offline
+      flushOutbox().catch((error) => console.error('Outbox flush failed:', error));
     });
 
     socket.on('disconnect', (reason) => {
@@ -33,6 +72,12 @@ export function getSocket(): Socket {
       }
     });
 
+    // This device was signed out from another one
+    socket.on('session.revoked', () => {
+      disconnectSocket();
+      redirectToLogin('session_revoked');
+    });
+
     socket.on('connect_error', (error) => {
       console.error('Socket connection error:', error.message);
     });
@@ -42,15 +87,15 @@ export function getSocket(): Socket {
     });
 
     // Auto-reconnect on connection loss
-    socket.on('reconnect', (attemptNumber) => {
+    socket.io.on('reconnect', (attemptNumber) => {
       console.log('Socket reconnected after', attemptNumber, 'attempts');
     });
 
-    socket.on('reconnect_attempt', (attemptNumber) => {
+    socket.io.on('reconnect_attempt', (attemptNumber) => {
       console.log('Socket reconnection attempt', attemptNumber);
     });
 
-    socket.on('reconnect_failed', () => {
+    socket.io.on('reconnect_failed', () => {
       console.error('Socket reconnection failed');
     });
   }
@@ -64,3 +109,66 @@ export function disconnectSocket() {
     socket = null;
   }
 }
+
+/**
+ * Stay in a room while the calling component is mounted. Several components can hold
+ * the same room; it is only left once the last of them unmounts. Pass null to skip.
+ */
+export function useSocketRoom(room: SocketRoom | null | undefined) {
+  useEffect(() => {
+    if (!room || typeof window === 'undefined') return;
+
+    const target = getSocket();
+    const count = roomSubscribers.get(room) || 0;
+    roomSubscribers.set(room, count + 1);
+    // While disconnected the connect handler joins instead
+    if (count === 0 && target.connected) {
+      joinRoom(target, room);
+    }
+
+    return () => {
+      const remaining = (roomSubscribers.get(room) || 1) - 1;
+      if (remaining > 0) {
+        roomSubscribers.set(room, remaining);
+        return;
+      }
+
+      roomSubscribers.delete(room);
+      if (socket?.connected) {
+        leaveRoom(socket, room);
+      }
+    };
+  }, [room]);
+}
+
+/**
+ * Listen for a server event while the calling component is mounted. The latest
+ * handler is always called, so it doesn't need to be memoized, and only this
+ * component's listener is removed on unmount.
+ */
+export function useSocketEvent<E extends keyof ServerToClientEvents>(
+  event: E,
+  handler: ServerToClientEvents[E],
+  enabled = true
+) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') return;
+
+    // TypeScript can't narrow the listener type for a generic event name
+    const target: Socket = getSocket();
+    const listener = (...args: unknown[]) => {
+      (handlerRef.current as (...params: unknown[]) => void)(...args);
+    };
+
+    target.on(event as string, listener);
+    return () => {
+      target.off(event as string, listener);
+    };
+  }, [event, enabled]);
+}
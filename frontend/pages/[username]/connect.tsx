@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/router';
 import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import Layout from '../../components/Layout';
@@ -7,8 +7,8 @@ import PostCardExtended from '../../components/PostCardExtended';
 import CreatePostModal from '../../components/CreatePostModal';
 import Button from '../../components/Button';
 import LoadingSpinner from '../../components/LoadingSpinner';
-import { postsAPI } from '../../lib/api';
-import { getSocket } from '../../lib/socket';
+import { postsAPI, usersAPI } from '../../lib/api';
+import { useSocketEvent, useSocketRoom } from '../../lib/socket';
 import { getUser } from '../../lib/auth';
 
 export default function ConnectFeed() {
@@ -23,18 +23,11 @@ export default function ConnectFeed() {
   // Get user data if viewing other's profile
   const { data: userData } = useQuery({
     queryKey: ['userByUsername', username],
-    queryFn: () => {
-      if (!username || isOwnProfile) return null;
-      return fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/users/${username}`)
-        .then((res) => {
-          if (!res.ok) throw new Error('User not found');
-          return res.json();
-        });
-    },
+    queryFn: () => usersAPI.getByUsername(username as string),
     enabled: !!username && !isOwnProfile,
   });
 
-  const targetUser = isOwnProfile ? currentUser : userData;
+  const targetUser = isOwnProfile ? currentUser : userData?.user;
   const targetUserId = targetUser?.id;
 
   // Fetch Connect module posts
@@ -73,40 +66,21 @@ export default function ConnectFeed() {
   const posts = data?.pages.flatMap((page) => page.posts) || [];
 
   // Set up Socket.io for real-time updates
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-
-    const socket = getSocket();
-    socket.emit('subscribe:posts');
-
-    socket.on('post.new', (newPost: any) => {
-      if (newPost.module?.includes('connect')) {
-        refetch();
-      }
-    });
-
-    socket.on('post.deleted', (deletedPost: any) => {
-      if (deletedPost?.id) {
-        refetch();
-      }
-    });
-
-    socket.on('reaction.update', () => {
-      refetch();
-    });
-
-    socket.on('comment.new', () => {
+  useSocketRoom('posts');
+  useSocketEvent('post.new', (newPost) => {
+    if (newPost.module.includes('connect')) {
       refetch();
-    });
-
-    return () => {
-      socket.emit('unsubscribe:posts');
-      socket.off('post.new');
-      socket.off('post.deleted');
-      socket.off('reaction.update');
-      socket.off('comment.new');
-    };
-  }, [refetch]);
+    }
+  });
+  useSocketEvent('post.deleted', () => {
+    refetch();
+  });
+  useSocketEvent('reaction.update', () => {
+    refetch();
+  });
+  useSocketEvent('comment.new', () => {
+    refetch();
+  });
 
   const handlePostSuccess = () => {
     refetch();
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import Image from 'next/image';
 import Layout from '../../components/Layout';
 import BottomNav from '../../components/BottomNav';
@@ -14,7 +15,7 @@ import Toast from '../../components/Toast';
 import Logo from '../../components/Logo';
 import NotificationsBell from '../../components/NotificationsBell';
 import NotificationsPanel from '../../components/NotificationsPanel';
-import { contactsAPI } from '../../lib/api';
+import { authAPI, contactsAPI, usersAPI } from '../../lib/api';
 import { getUser, clearAuth } from '../../lib/auth';
 import { disconnectSocket } from '../../lib/socket';
 
@@ -29,6 +30,8 @@ export default function UserProfile() {
   const [isUnfollowing, setIsUnfollowing] = useState(false);
   const [showUnfollowConfirm, setShowUnfollowConfirm] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
+  const [showBlockConfirm, setShowBlockConfirm] = useState(false);
+  const [isUpdatingBlock, setIsUpdatingBlock] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info'; isVisible: boolean }>({
     message: '',
     type: 'info',
@@ -40,13 +43,7 @@ export default function UserProfile() {
   // Get user by username (includes follower/following counts)
   const { data: userData, isLoading } = useQuery({
     queryKey: ['userByUsername', username],
-    queryFn: () => {
-      return fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/users/${username}`)
-        .then((res) => {
-          if (!res.ok) throw new Error('User not found');
-          return res.json();
-        });
-    },
+    queryFn: () => usersAPI.getByUsername(username as string),
     enabled: !!username,
   });
 
@@ -59,6 +56,15 @@ export default function UserProfile() {
     enabled: !!currentUser && !!user,
   });
 
+  // Block and mute state for this profile
+  const { data: blocksData } = useQuery({
+    queryKey: ['blocks'],
+    queryFn: () => usersAPI.getBlocks(),
+    enabled: !!currentUser && !!user && currentUser.id !== user.id,
+  });
+  const isBlocked = !!user && !!blocksData?.blocked.some((entry) => entry.user.id === user.id);
+  const isMuted = !!user && !!blocksData?.muted.some((entry) => entry.user.id === user.id);
+
   // Check if already following
   const checkFollowing = () => {
     if (!contactsData?.contacts || !user) return false;
@@ -112,13 +118,80 @@ export default function UserProfile() {
     }
   };
 
+  const confirmBlock = async () => {
+    if (!user) return;
+    setShowBlockConfirm(false);
+    setIsUpdatingBlock(true);
+    try {
+      await usersAPI.block(user.id);
+      setIsFollowing(false);
+      queryClient.invalidateQueries({ queryKey: ['blocks'] });
+      queryClient.invalidateQueries({ queryKey: ['contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['userByUsername', username] });
+      setToast({ message: `Blocked @${user.username}`, type: 'success', isVisible: true });
+    } catch (error) {
+      setToast({
+        message: (isAxiosError(error) && error.response?.data?.error) || 'Failed to block user',
+        type: 'error',
+        isVisible: true,
+      });
+    } finally {
+      setIsUpdatingBlock(false);
+    }
+  };
+
+  const handleUnblock = async () => {
+    if (!user) return;
+    setIsUpdatingBlock(true);
+    try {
+      await usersAPI.unblock(user.id);
+      queryClient.invalidateQueries({ queryKey: ['blocks'] });
+      setToast({ message: `Unblocked @${user.username}`, type: 'success', isVisible: true });
+    } catch (error) {
+      setToast({
+        message: (isAxiosError(error) && error.response?.data?.error) || 'Failed to unblock user',
+        type: 'error',
+        isVisible: true,
+      });
+    } finally {
+      setIsUpdatingBlock(false);
+    }
+  };
+
+  const handleToggleMute = async () => {
+    if (!user) return;
+    setIsUpdatingBlock(true);
+    try {
+      if (isMuted) {
+        await usersAPI.unmute(user.id);
+      } else {
+        await usersAPI.mute(user.id);
+      }
+      queryClient.invalidateQueries({ queryKey: ['blocks'] });
+      setToast({
+        message: isMuted ? `Unmuted @${user.username}` : `Muted @${user.username}`,
+        type: 'success',
+        isVisible: true,
+      });
+    } catch (error) {
+      setToast({
+        message: (isAxiosError(error) && error.response?.data?.error) || 'Failed to update mute',
+        type: 'error',
+        isVisible: true,
+      });
+    } finally {
+      setIsUpdatingBlock(false);
+    }
+  };
+
   const handleLogout = () => {
     setShowLogoutConfirm(true);
   };
 
-  const confirmLogout = () => {
+  const confirmLogout = async () => {
     setShowLogoutConfirm(false);
     disconnectSocket();
+    await authAPI.logout().catch(console.error);
     clearAuth();
     sessionStorage.removeItem('kartess_auth_verified');
     router.push('/login');
@@ -294,6 +367,27 @@ export default function UserProfile() {
                   </>
                 )}
               </div>
+
+              {!isCurrentUser && (
+                <div className="mt-3 flex justify-end gap-4 text-sm">
+                  <button
+                    type="button"
+                    onClick={handleToggleMute}
+                    disabled={isUpdatingBlock || isBlocked}
+                    className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                  >
+                    {isMuted ? 'Unmute' : 'Mute'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => (isBlocked ? handleUnblock() : setShowBlockConfirm(true))}
+                    disabled={isUpdatingBlock}
+                    className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    {isBlocked ? 'Unblock' : 'Block'}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
 
@@ -414,6 +508,17 @@ export default function UserProfile() {
           onCancel={() => setShowUnfollowConfirm(false)}
         />
 
+        <ConfirmModal
+          isOpen={showBlockConfirm}
+          title="Block User"
+          message={`Block ${user?.full_name || user?.username || 'this user'}? You'll stop following each other and neither of you will be able to message, call or see the other's posts.`}
+          confirmText="Block"
+          cancelText="Cancel"
+          confirmVariant="danger"
+          onConfirm={confirmBlock}
+          onCancel={() => setShowBlockConfirm(false)}
+        />
+
         <ConfirmModal
           isOpen={showLogoutConfirm}
           title="Logout"
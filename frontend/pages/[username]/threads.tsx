@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/router';
 import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import Layout from '../../components/Layout';
@@ -7,8 +7,8 @@ import Button from '../../components/Button';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import PostCardExtended from '../../components/PostCardExtended';
 import CreatePostModal from '../../components/CreatePostModal';
-import { postsAPI, threadsAPI } from '../../lib/api';
-import { getSocket } from '../../lib/socket';
+import { postsAPI, threadsAPI, usersAPI } from '../../lib/api';
+import { useSocketEvent, useSocketRoom } from '../../lib/socket';
 import { getUser } from '../../lib/auth';
 import Link from 'next/link';
 import Image from 'next/image';
@@ -26,19 +26,11 @@ export default function ThreadsFeed() {
 
   const { data: userData } = useQuery({
     queryKey: ['userByUsername', username],
-    queryFn: () => {
-      if (!username || isOwnProfile) return null;
-      return fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/users/${username}`
-      ).then((res) => {
-        if (!res.ok) throw new Error('User not found');
-        return res.json();
-      });
-    },
+    queryFn: () => usersAPI.getByUsername(username as string),
     enabled: !!username && !isOwnProfile,
   });
 
-  const targetUser = isOwnProfile ? currentUser : userData;
+  const targetUser = isOwnProfile ? currentUser : userData?.user;
   const targetUserId = targetUser?.id;
 
   const { data: topicsData } = useQuery({
@@ -109,46 +101,19 @@ export default function ThreadsFeed() {
   const threads = data?.pages.flatMap((page) => page.threads) || [];
 
   // Set up Socket.io for real-time updates
-  useEffect(() => {
-    if (typeof window === 'undefined' || viewMode !== 'posts') return;
-
-    const socket = getSocket();
-    socket.emit('subscribe:posts');
-
-    const handleNewPost = (newPost: any) => {
-      if (newPost.module?.includes('threads')) {
-        refetchPosts();
-      }
-    };
-
-    const handleDeletedPost = (deletedPost: any) => {
-      if (deletedPost?.id) {
+  const isPostsView = viewMode === 'posts';
+  useSocketRoom(isPostsView ? 'posts' : null);
+  useSocketEvent(
+    'post.new',
+    (newPost) => {
+      if (newPost.module.includes('threads')) {
         refetchPosts();
       }
-    };
-
-    socket.on('post.new', handleNewPost);
-    socket.on('post.deleted', handleDeletedPost);
-
-    return () => {
-      socket.emit('unsubscribe:posts');
-      socket.off('post.new', handleNewPost);
-      socket.off('post.deleted', handleDeletedPost);
-    };
-  }, [refetchPosts, viewMode]);
-
-  useEffect(() => {
-    if (typeof window === 'undefined' || viewMode !== 'discussions') return;
-
-    const socket = getSocket();
-    socket.on('thread.reply.new', () => {
-      refetch();
-    });
-
-    return () => {
-      socket.off('thread.reply.new');
-    };
-  }, [refetch, viewMode]);
+    },
+    isPostsView
+  );
+  useSocketEvent('post.deleted', () => refetchPosts(), isPostsView);
+  useSocketEvent('thread.reply.new', () => refetch(), viewMode === 'discussions');
 
   return (
     <Layout title="Threads - Kartess">
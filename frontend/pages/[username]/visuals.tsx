@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/router';
 import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import Masonry from 'react-masonry-css';
@@ -8,8 +8,8 @@ import CreatePostModal from '../../components/CreatePostModal';
 import Button from '../../components/Button';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import ReactionsBar from '../../components/ReactionsBar';
-import { postsAPI } from '../../lib/api';
-import { getSocket } from '../../lib/socket';
+import { postsAPI, usersAPI } from '../../lib/api';
+import { useSocketEvent, useSocketRoom } from '../../lib/socket';
 import { getUser } from '../../lib/auth';
 import Image from 'next/image';
 import Link from 'next/link';
@@ -26,18 +26,11 @@ export default function VisualsFeed() {
 
   const { data: userData } = useQuery({
     queryKey: ['userByUsername', username],
-    queryFn: () => {
-      if (!username || isOwnProfile) return null;
-      return fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/users/${username}`)
-        .then((res) => {
-          if (!res.ok) throw new Error('User not found');
-          return res.json();
-        });
-    },
+    queryFn: () => usersAPI.getByUsername(username as string),
     enabled: !!username && !isOwnProfile,
   });
 
-  const targetUser = isOwnProfile ? currentUser : userData;
+  const targetUser = isOwnProfile ? currentUser : userData?.user;
   const targetUserId = targetUser?.id;
 
   // Fetch Visuals module posts
@@ -77,30 +70,15 @@ export default function VisualsFeed() {
     : allPosts.filter((p: any) => p.is_reel);
 
   // Set up Socket.io
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-
-    const socket = getSocket();
-    socket.emit('subscribe:posts');
-
-    socket.on('post.new', (newPost: any) => {
-      if (newPost.module?.includes('visuals')) {
-        refetch();
-      }
-    });
-
-    socket.on('post.deleted', (deletedPost: any) => {
-      if (deletedPost?.id) {
-        refetch();
-      }
-    });
-
-    return () => {
-      socket.emit('unsubscribe:posts');
-      socket.off('post.new');
-      socket.off('post.deleted');
-    };
-  }, [refetch]);
+  useSocketRoom('posts');
+  useSocketEvent('post.new', (newPost) => {
+    if (newPost.module.includes('visuals')) {
+      refetch();
+    }
+  });
+  useSocketEvent('post.deleted', () => {
+    refetch();
+  });
 
   const breakpointColumnsObj = {
     default: 3,
@@ -4,11 +4,15 @@ import { useState, useEffect } from 'react';
 import '../styles/globals.css';
 import '../styles/masonry.css';
 import { registerServiceWorker, requestNotificationPermission } from '../lib/pushNotifications';
-import { getToken, clearAuth, getUser } from '../lib/auth';
-import { authAPI } from '../lib/api';
+import { clearAuth, getUser, isAuthenticated } from '../lib/auth';
+import { authAPI, migrateToCookieSession } from '../lib/api';
 import { DarkModeProvider } from '../contexts/DarkModeContext';
-import { getSocket } from '../lib/socket';
+import { useSocketEvent, useSocketRoom } from '../lib/socket';
+import { ensureDeviceKeyPublished } from '../lib/encryption';
+import { applyPostEdit } from '../lib/postCache';
 import IncomingCallNotification from '../components/IncomingCallNotification';
+import LiveStreamStartedBanner from '../components/LiveStreamStartedBanner';
+import type { LiveStreamStarted } from '../components/LiveStreamStartedBanner';
 
 // Initialize Sentry for client-side
 if (typeof window !== 'undefined' && process.env.SENTRY_DSN) {
@@ -36,14 +40,17 @@ export default function App({ Component, pageProps }: AppProps) {
   const [incomingCall, setIncomingCall] = useState<any>(null);
   const [callAccepted, setCallAccepted] = useState(false);
   const [callRejected, setCallRejected] = useState(false);
+  const [liveStream, setLiveStream] = useState<LiveStreamStarted | null>(null);
 
   useEffect(() => {
     // Validate token on app load - defer to avoid blocking initial render
     const validateTokenOnLoad = async () => {
       if (typeof window === 'undefined') return;
+
+      // Logged in before cookie sessions: move the stored tokens into cookies
+      await migrateToCookieSession();
       
-      const token = getToken();
-      if (!token) {
+      if (!isAuthenticated()) {
         // No token, clear any stale auth data
         clearAuth();
         sessionStorage.removeItem('kartess_auth_verified');
@@ -60,6 +67,8 @@ export default function App({ Component, pageProps }: AppProps) {
         await authAPI.verify();
         // Token is valid, mark as verified in session
         sessionStorage.setItem('kartess_auth_verified', 'true');
+        // Make sure contacts can wrap chat keys for this device
+        ensureDeviceKeyPublished().catch(console.error);
       } catch (error) {
         // Token is invalid or expired, clear auth data
         clearAuth();
@@ -95,26 +104,24 @@ export default function App({ Component, pageProps }: AppProps) {
   }, []);
 
   // Set up Socket.io for incoming calls and notifications
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    
-    const currentUser = getUser();
-    if (!currentUser?.id) return;
-
-    const socket = getSocket();
-    
-    // Join user room for notifications and calls
-    socket.emit('join:user', currentUser.id);
-
-    // Listen for incoming calls
-    const handleCallIncoming = (callData: any) => {
+  const currentUserId = typeof window !== 'undefined' ? getUser()?.id : undefined;
+  useSocketRoom(currentUserId ? `user:${currentUserId}` : null);
+
+  // Listen for incoming calls
+  useSocketEvent(
+    'call.incoming',
+    (callData) => {
       setIncomingCall(callData);
       setCallAccepted(false);
       setCallRejected(false);
-    };
+    },
+    !!currentUserId
+  );
 
-    // Listen for call accepted
-    const handleCallAccepted = (data: any) => {
+  // Listen for call accepted
+  useSocketEvent(
+    'call.accepted',
+    (data) => {
       setIncomingCall((prev: any) => {
         if (prev?.sessionId === data.sessionId) {
           setCallAccepted(true);
@@ -122,10 +129,14 @@ export default function App({ Component, pageProps }: AppProps) {
         }
         return prev;
       });
-    };
+    },
+    !!currentUserId
+  );
 
-    // Listen for call rejected
-    const handleCallRejected = (data: any) => {
+  // Listen for call rejected
+  useSocketEvent(
+    'call.rejected',
+    (data) => {
       setIncomingCall((prev: any) => {
         if (prev?.sessionId === data.sessionId) {
           setCallRejected(true);
@@ -133,10 +144,14 @@ export default function App({ Component, pageProps }: AppProps) {
         }
         return prev;
       });
-    };
+    },
+    !!currentUserId
+  );
 
-    // Listen for call ended
-    const handleCallEnded = (data: any) => {
+  // Listen for call ended
+  useSocketEvent(
+    'call.ended',
+    (data) => {
       setIncomingCall((prev: any) => {
         if (prev?.sessionId === data.sessionId) {
           setCallAccepted(false);
@@ -145,29 +160,23 @@ export default function App({ Component, pageProps }: AppProps) {
         }
         return prev;
       });
-    };
+    },
+    !!currentUserId
+  );
 
-    // Listen for live stream started (from contacts)
-    const handleLiveStreamStarted = (data: any) => {
-      // Show notification or update UI when a contact starts a live stream
-      console.log('Live stream started:', data);
-      // The notification system should handle this via Socket.io
-    };
+  // Listen for live stream started (from contacts, or streams the user RSVP'd to)
+  useSocketEvent(
+    'live.stream.started',
+    (data) => {
+      setLiveStream(data);
+      queryClient.invalidateQueries({ queryKey: ['liveSessions'] });
+      queryClient.invalidateQueries({ queryKey: ['upcomingStreams'] });
+    },
+    !!currentUserId
+  );
 
-    socket.on('call.incoming', handleCallIncoming);
-    socket.on('call.accepted', handleCallAccepted);
-    socket.on('call.rejected', handleCallRejected);
-    socket.on('call.ended', handleCallEnded);
-    socket.on('live.stream.started', handleLiveStreamStarted);
-
-    return () => {
-      socket.off('call.incoming', handleCallIncoming);
-      socket.off('call.accepted', handleCallAccepted);
-      socket.off('call.rejected', handleCallRejected);
-      socket.off('call.ended', handleCallEnded);
-      socket.off('live.stream.started', handleLiveStreamStarted);
-    };
-  }, []); // Remove incomingCall from dependencies to avoid re-subscribing
+  // Feed pages join the posts room; edits are patched into every cached feed in place
+  useSocketEvent('post.updated', (post) => applyPostEdit(queryClient, post));
 
   const handleCallAccept = () => {
     setIncomingCall(null);
@@ -191,6 +200,9 @@ export default function App({ Component, pageProps }: AppProps) {
             onReject={handleCallReject}
           />
         )}
+        {liveStream && (
+          <LiveStreamStartedBanner stream={liveStream} onDismiss={() => setLiveStream(null)} />
+        )}
       </QueryClientProvider>
     </DarkModeProvider>
   );
@@ -2,7 +2,9 @@ import { useQuery } from '@tanstack/react-query';
 import Layout from '../../components/Layout';
 import BottomNav from '../../components/BottomNav';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import StaffTwoFactorGate from '../../components/StaffTwoFactorGate';
 import { getUser } from '../../lib/auth';
+import { adminAPI } from '../../lib/api';
 import { useRouter } from 'next/router';
 import { useEffect } from 'react';
 import Link from 'next/link';
@@ -21,15 +23,7 @@ export default function AdminDashboard() {
 
   const { data: stats, isLoading } = useQuery({
     queryKey: ['adminStats'],
-    queryFn: async () => {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/stats`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
-      if (!res.ok) throw new Error('Failed to fetch stats');
-      return res.json();
-    },
+    queryFn: () => adminAPI.getStats(),
     enabled: currentUser?.role === 'admin' || currentUser?.role === 'moderator',
   });
 
@@ -39,6 +33,7 @@ export default function AdminDashboard() {
 
   return (
     <Layout title="Admin Dashboard - Kartess">
+      <StaffTwoFactorGate>
         <div className="min-h-screen bg-gray-50 pb-20">
           <div className="bg-white border-b border-gray-200 px-4 py-6">
             <h1 className="text-2xl font-bold text-gray-900">Admin Dashboard</h1>
@@ -132,6 +127,7 @@ export default function AdminDashboard() {
             </div>
           )}
         </div>
+      </StaffTwoFactorGate>
 
         <BottomNav />
       </Layout>
@@ -2,50 +2,36 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import Layout from '../../components/Layout';
 import BottomNav from '../../components/BottomNav';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import StaffTwoFactorGate from '../../components/StaffTwoFactorGate';
 import Button from '../../components/Button';
 import { getUser } from '../../lib/auth';
+import { adminAPI } from '../../lib/api';
+import type { Report } from '../../types';
 import { useRouter } from 'next/router';
 import { useState } from 'react';
 
 export default function AdminReports() {
   const router = useRouter();
   const currentUser = getUser();
-  const [selectedStatus, setSelectedStatus] = useState('pending');
+  const [selectedStatus, setSelectedStatus] = useState<Report['status']>('pending');
   const queryClient = useQueryClient();
 
   const { data, isLoading } = useQuery({
     queryKey: ['adminReports', selectedStatus],
-    queryFn: async () => {
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/admin/reports?status=${selectedStatus}`,
-        {
-          headers: {
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
-          },
-        }
-      );
-      if (!res.ok) throw new Error('Failed to fetch reports');
-      return res.json();
-    },
+    queryFn: () => adminAPI.getReports({ status: selectedStatus }),
     enabled: currentUser?.role === 'admin' || currentUser?.role === 'moderator',
   });
 
   const updateReportMutation = useMutation({
-    mutationFn: async ({ reportId, status, action_taken }: any) => {
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/admin/reports/${reportId}`,
-        {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
-          },
-          body: JSON.stringify({ status, action_taken }),
-        }
-      );
-      if (!res.ok) throw new Error('Failed to update report');
-      return res.json();
-    },
+    mutationFn: ({
+      reportId,
+      status,
+      action_taken,
+    }: {
+      reportId: string;
+      status: Report['status'];
+      action_taken?: string;
+    }) => adminAPI.updateReport(reportId, { status, action_taken }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['adminReports'] });
     },
@@ -59,6 +45,7 @@ export default function AdminReports() {
 
   return (
     <Layout title="Reports - Admin">
+      <StaffTwoFactorGate>
         <div className="min-h-screen bg-gray-50 pb-20">
           <div className="bg-white border-b border-gray-200 px-4 py-6">
             <div className="flex items-center justify-between mb-4">
@@ -70,7 +57,7 @@ export default function AdminReports() {
 
             {/* Status Filter */}
             <div className="flex gap-2">
-              {['pending', 'reviewed', 'resolved', 'dismissed'].map((status) => (
+              {(['pending', 'reviewed', 'resolved', 'dismissed'] as const).map((status) => (
                 <button
                   key={status}
                   onClick={() => setSelectedStatus(status)}
@@ -174,6 +161,7 @@ export default function AdminReports() {
             )}
           </div>
         </div>
+      </StaffTwoFactorGate>
 
         <BottomNav />
       </Layout>
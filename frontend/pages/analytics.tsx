@@ -3,24 +3,14 @@ import Layout from '../components/Layout';
 import BottomNav from '../components/BottomNav';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { getUser } from '../lib/auth';
+import { analyticsAPI } from '../lib/api';
 
 export default function UserAnalytics() {
   const currentUser = getUser();
 
   const { data: analytics, isLoading } = useQuery({
     queryKey: ['userAnalytics'],
-    queryFn: async () => {
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/users/${currentUser?.username}/analytics`,
-        {
-          headers: {
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
-          },
-        }
-      );
-      if (!res.ok) throw new Error('Failed to fetch analytics');
-      return res.json();
-    },
+    queryFn: () => analyticsAPI.getUserAnalytics(currentUser?.username as string),
     enabled: !!currentUser,
   });
 
@@ -70,7 +60,7 @@ export default function UserAnalytics() {
               </div>
 
               {/* Engagement Stats */}
-              {analytics?.engagement && (
+              {analytics && (
                 <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
                   <h2 className="text-lg font-bold text-gray-900 mb-4">Engagement</h2>
                   <div className="space-y-3">
@@ -78,7 +68,7 @@ export default function UserAnalytics() {
                       <div className="flex justify-between mb-1">
                         <span className="text-sm text-gray-600">Average Reactions per Post</span>
                         <span className="text-sm font-medium text-gray-900">
-                          {analytics.engagement.avgReactions?.toFixed(1) || 0}
+                          {analytics.engagement.avgReactions.toFixed(1)}
                         </span>
                       </div>
                     </div>
@@ -86,27 +76,13 @@ export default function UserAnalytics() {
                       <div className="flex justify-between mb-1">
                         <span className="text-sm text-gray-600">Average Comments per Post</span>
                         <span className="text-sm font-medium text-gray-900">
-                          {analytics.engagement.avgComments?.toFixed(1) || 0}
+                          {analytics.engagement.avgComments.toFixed(1)}
                         </span>
                       </div>
                     </div>
                   </div>
                 </div>
               )}
-
-              {/* Recent Activity */}
-              {analytics?.recentActivity && analytics.recentActivity.length > 0 && (
-                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-                  <h2 className="text-lg font-bold text-gray-900 mb-4">Recent Activity</h2>
-                  <div className="space-y-2">
-                    {analytics.recentActivity.map((activity: any, idx: number) => (
-                      <div key={idx} className="text-sm text-gray-600">
-                        {activity.action} - {new Date(activity.created_at).toLocaleDateString()}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
             </div>
           )}
         </div>
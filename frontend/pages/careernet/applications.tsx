@@ -0,0 +1,79 @@
+import { useQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import Layout from '../../components/Layout';
+import BottomNav from '../../components/BottomNav';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import ApplicationStatusBadge from '../../components/ApplicationStatusBadge';
+import { careernetAPI } from '../../lib/api';
+import { useSocketEvent } from '../../lib/socket';
+
+export default function MyApplications() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['myApplications'],
+    queryFn: () => careernetAPI.getMyApplications(),
+  });
+
+  // Posters moving an application notify us in real time
+  useSocketEvent('application.status', () => refetch());
+
+  const applications = data?.applications || [];
+
+  return (
+    <Layout title="My Applications - CareerNet">
+      <div className="min-h-screen bg-gray-50 pb-20">
+        <div className="bg-white border-b border-gray-200 px-4 py-6">
+          <Link
+            href="/careernet"
+            className="text-purple-600 hover:text-purple-700 text-sm mb-4 inline-block"
+          >
+            ← Back to CareerNet
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">My Applications</h1>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : applications.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <p className="text-gray-500 mb-2">You haven&apos;t applied to any jobs yet</p>
+            <Link href="/careernet" className="text-purple-600 hover:text-purple-700 text-sm">
+              Browse jobs
+            </Link>
+          </div>
+        ) : (
+          <ul className="px-4 py-4 space-y-3">
+            {applications.map((application) => (
+              <li key={application.id}>
+                <Link
+                  href={`/careernet/jobs/${application.job.id}`}
+                  className="block bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:border-purple-300"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900 truncate">{application.job.title}</p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {[application.job.company, application.job.location]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </div>
+                    <ApplicationStatusBadge status={application.status} />
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">
+                    Applied {new Date(application.created_at).toLocaleDateString()} · Updated{' '}
+                    {new Date(application.updated_at).toLocaleString()}
+                    {application.job.status !== 'open' && ` · Job ${application.job.status}`}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <BottomNav />
+    </Layout>
+  );
+}
@@ -6,13 +6,16 @@ import Button from '../../components/Button';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import CreatePostModal from '../../components/CreatePostModal';
 import PostCard from '../../components/PostCard';
+import SavedJobSearches from '../../components/SavedJobSearches';
 import { careernetAPI, postsAPI, contactsAPI } from '../../lib/api';
 import { useRouter } from 'next/router';
 import { getUser } from '../../lib/auth';
-import { getSocket } from '../../lib/socket';
-import { useEffect } from 'react';
+import { formatSalary, salaryPeriodLabels, seniorityLabels, workplaceTypeLabels } from '../../lib/jobs';
+import type { SalaryPeriod, SeniorityLevel, WorkplaceType } from '../../lib/jobs';
+import { useSocketEvent, useSocketRoom } from '../../lib/socket';
 import Link from 'next/link';
 import Image from 'next/image';
+import type { SavedJobSearch } from '../../types';
 
 type TabType = 'feed' | 'network' | 'jobs';
 
@@ -24,6 +27,15 @@ export default function CareerNet() {
   const [searchQuery, setSearchQuery] = useState('');
   const [typeFilter, setTypeFilter] = useState<string | undefined>(undefined);
   const [locationFilter, setLocationFilter] = useState('');
+  const [workplaceFilter, setWorkplaceFilter] = useState<WorkplaceType | undefined>(undefined);
+  const [seniorityFilter, setSeniorityFilter] = useState<SeniorityLevel | undefined>(undefined);
+  const [tagsFilter, setTagsFilter] = useState('');
+  const [salaryMin, setSalaryMin] = useState('');
+  const [salaryMax, setSalaryMax] = useState('');
+  const [salaryCurrency, setSalaryCurrency] = useState('USD');
+  const [salaryPeriod, setSalaryPeriod] = useState<SalaryPeriod>('year');
+  const [activeSavedSearchId, setActiveSavedSearchId] = useState<string | null>(null);
+  const [appliedSavedSearchParam, setAppliedSavedSearchParam] = useState<string | null>(null);
 
   // Fetch professional posts feed (careernet module)
   const {
@@ -50,30 +62,18 @@ export default function CareerNet() {
   const feedPosts = feedData?.pages.flatMap((page) => page.posts) || [];
 
   // Set up Socket.io for real-time updates
-  useEffect(() => {
-    if (typeof window === 'undefined' || activeTab !== 'feed') return;
-
-    const socket = getSocket();
-    socket.emit('subscribe:posts');
-
-    socket.on('post.new', (newPost: any) => {
-      if (newPost.module?.includes('careernet')) {
-        refetchFeed();
-      }
-    });
-
-    socket.on('post.deleted', (deletedPost: any) => {
-      if (deletedPost?.id) {
+  const isFeedTab = activeTab === 'feed';
+  useSocketRoom(isFeedTab ? 'posts' : null);
+  useSocketEvent(
+    'post.new',
+    (newPost) => {
+      if (newPost.module.includes('careernet')) {
         refetchFeed();
       }
-    });
-
-    return () => {
-      socket.emit('unsubscribe:posts');
-      socket.off('post.new');
-      socket.off('post.deleted');
-    };
-  }, [activeTab, refetchFeed]);
+    },
+    isFeedTab
+  );
+  useSocketEvent('post.deleted', () => refetchFeed(), isFeedTab);
 
   // Fetch professional network contacts
   const {
@@ -100,6 +100,60 @@ export default function CareerNet() {
     );
   });
 
+  // Saved job searches (also opened from job alert digests via ?savedSearch=)
+  const savedSearchParam =
+    typeof router.query.savedSearch === 'string' ? router.query.savedSearch : null;
+
+  const { data: savedSearchesData } = useQuery({
+    queryKey: ['savedJobSearches'],
+    queryFn: () => careernetAPI.getSavedSearches(),
+    enabled: activeTab === 'jobs' || !!savedSearchParam,
+  });
+
+  const savedSearches = savedSearchesData?.searches || [];
+
+  const applySavedSearch = (search: SavedJobSearch) => {
+    setActiveSavedSearchId(search.id);
+    setSearchQuery(search.query || '');
+    setTypeFilter(search.type || undefined);
+    setLocationFilter(search.location || '');
+    setWorkplaceFilter((search.workplace_type as WorkplaceType) || undefined);
+    setSeniorityFilter((search.seniority as SeniorityLevel) || undefined);
+    setTagsFilter(search.tags?.join(', ') || '');
+    setSalaryMin(search.salary_min != null ? String(search.salary_min) : '');
+    setSalaryMax(search.salary_max != null ? String(search.salary_max) : '');
+    setSalaryCurrency(search.salary_currency || 'USD');
+    setSalaryPeriod(search.salary_period || 'year');
+  };
+
+  // Editing a filter by hand leaves the saved search
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setActiveSavedSearchId(null);
+  };
+
+  if (savedSearchParam && savedSearchParam !== appliedSavedSearchParam) {
+    const search = savedSearches.find((item) => item.id === savedSearchParam);
+    if (search) {
+      setAppliedSavedSearchParam(savedSearchParam);
+      setActiveTab('jobs');
+      applySavedSearch(search);
+    }
+  }
+
+  const tags = tagsFilter
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  // A band only matches jobs paid in its currency over its period
+  const hasSalaryBand = !!salaryMin || !!salaryMax;
+  const salaryBand = {
+    min: salaryMin ? parseInt(salaryMin, 10) : null,
+    max: salaryMax ? parseInt(salaryMax, 10) : null,
+    currency: hasSalaryBand ? salaryCurrency.trim() || 'USD' : null,
+    period: hasSalaryBand ? salaryPeriod : null,
+  };
+
   // Fetch jobs
   const {
     data: jobsData,
@@ -108,13 +162,32 @@ export default function CareerNet() {
     isFetchingNextPage: isFetchingNextJobsPage,
     isLoading: isLoadingJobs,
   } = useInfiniteQuery({
-    queryKey: ['careernetJobs', searchQuery, typeFilter, locationFilter],
+    queryKey: [
+      'careernetJobs',
+      searchQuery,
+      typeFilter,
+      locationFilter,
+      workplaceFilter,
+      seniorityFilter,
+      tags.join(','),
+      salaryBand.min,
+      salaryBand.max,
+      salaryBand.currency,
+      salaryBand.period,
+    ],
     queryFn: async ({ pageParam }: { pageParam: string | undefined }) => {
       const result = await careernetAPI.getJobs({
         status: 'open',
         type: typeFilter,
         location: locationFilter || undefined,
+        workplace_type: workplaceFilter,
+        seniority: seniorityFilter,
         search: searchQuery || undefined,
+        tags: tags.length > 0 ? tags.join(',') : undefined,
+        salary_min: salaryBand.min ?? undefined,
+        salary_max: salaryBand.max ?? undefined,
+        salary_currency: salaryBand.currency ?? undefined,
+        salary_period: salaryBand.period ?? undefined,
         cursor: pageParam,
         limit: 20,
       });
@@ -310,10 +383,35 @@ export default function CareerNet() {
           <>
             {/* Search and Filters */}
             <div className="px-4 py-4 border-b border-gray-200 bg-white">
+              <Link
+                href="/careernet/applications"
+                className="text-purple-600 hover:text-purple-700 text-sm font-medium mb-3 inline-block"
+              >
+                My Applications →
+              </Link>
+
+              <SavedJobSearches
+                searches={savedSearches}
+                activeId={activeSavedSearchId}
+                filters={{
+                  query: searchQuery,
+                  type: typeFilter,
+                  location: locationFilter,
+                  workplaceType: workplaceFilter,
+                  seniority: seniorityFilter,
+                  tags,
+                  salaryMin: salaryBand.min,
+                  salaryMax: salaryBand.max,
+                  salaryCurrency: salaryBand.currency,
+                  salaryPeriod: salaryBand.period,
+                }}
+                onApply={applySavedSearch}
+              />
+
               <input
                 type="text"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => updateFilter(setSearchQuery)(e.target.value)}
                 placeholder="Search jobs..."
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 mb-3"
               />
@@ -329,7 +427,7 @@ export default function CareerNet() {
                   }}
                 >
                   <button
-                    onClick={() => setTypeFilter(undefined)}
+                    onClick={() => updateFilter(setTypeFilter)(undefined)}
                     className={`flex-shrink-0 px-2 py-1 sm:px-3 sm:py-1 rounded-full text-xs sm:text-sm whitespace-nowrap ${
                       !typeFilter
                         ? 'bg-purple-600 text-white'
@@ -341,7 +439,7 @@ export default function CareerNet() {
                   {jobTypes.map((type) => (
                     <button
                       key={type}
-                      onClick={() => setTypeFilter(type)}
+                      onClick={() => updateFilter(setTypeFilter)(type)}
                       className={`flex-shrink-0 px-2 py-1 sm:px-3 sm:py-1 rounded-full text-xs sm:text-sm whitespace-nowrap capitalize ${
                         typeFilter === type
                           ? 'bg-purple-600 text-white'
@@ -357,10 +455,102 @@ export default function CareerNet() {
               <input
                 type="text"
                 value={locationFilter}
-                onChange={(e) => setLocationFilter(e.target.value)}
+                onChange={(e) => updateFilter(setLocationFilter)(e.target.value)}
                 placeholder="Filter by location..."
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 mt-2"
               />
+
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                <button
+                  onClick={() => updateFilter(setWorkplaceFilter)(undefined)}
+                  className={`px-2 py-1 sm:px-3 sm:py-1 rounded-full text-xs sm:text-sm ${
+                    !workplaceFilter
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  Any Workplace
+                </button>
+                {(Object.keys(workplaceTypeLabels) as WorkplaceType[]).map((workplace) => (
+                  <button
+                    key={workplace}
+                    onClick={() => updateFilter(setWorkplaceFilter)(workplace)}
+                    className={`px-2 py-1 sm:px-3 sm:py-1 rounded-full text-xs sm:text-sm ${
+                      workplaceFilter === workplace
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    {workplaceTypeLabels[workplace]}
+                  </button>
+                ))}
+                <select
+                  value={seniorityFilter || ''}
+                  onChange={(e) =>
+                    updateFilter(setSeniorityFilter)((e.target.value as SeniorityLevel) || undefined)
+                  }
+                  aria-label="Filter by seniority"
+                  className="ml-auto px-2 py-1 border border-gray-300 rounded-lg text-xs sm:text-sm"
+                >
+                  <option value="">Any level</option>
+                  {Object.entries(seniorityLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <input
+                type="text"
+                value={tagsFilter}
+                onChange={(e) => updateFilter(setTagsFilter)(e.target.value)}
+                placeholder="Skills, comma-separated..."
+                aria-label="Filter by skills"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 mt-2"
+              />
+
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={salaryMin}
+                  onChange={(e) => updateFilter(setSalaryMin)(e.target.value)}
+                  placeholder="Min salary"
+                  aria-label="Minimum salary"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={salaryMax}
+                  onChange={(e) => updateFilter(setSalaryMax)(e.target.value)}
+                  placeholder="Max salary"
+                  aria-label="Maximum salary"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <input
+                  type="text"
+                  maxLength={3}
+                  value={salaryCurrency}
+                  onChange={(e) => updateFilter(setSalaryCurrency)(e.target.value.toUpperCase())}
+                  placeholder="USD"
+                  aria-label="Salary currency"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <select
+                  value={salaryPeriod}
+                  onChange={(e) => updateFilter(setSalaryPeriod)(e.target.value as SalaryPeriod)}
+                  aria-label="Salary period"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {Object.entries(salaryPeriodLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             {/* Jobs List */}
@@ -423,14 +613,19 @@ export default function CareerNet() {
                                 {job.type.replace('-', ' ')}
                               </span>
                             )}
+                            {job.workplace_type && (
+                              <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded">
+                                {workplaceTypeLabels[job.workplace_type as WorkplaceType]}
+                              </span>
+                            )}
                             {job.location && (
                               <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
                                 📍 {job.location}
                               </span>
                             )}
-                            {job.salary_range && (
+                            {formatSalary(job) && (
                               <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
-                                💰 {job.salary_range}
+                                💰 {formatSalary(job)}
                               </span>
                             )}
                           </div>
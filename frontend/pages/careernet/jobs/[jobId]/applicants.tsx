@@ -0,0 +1,374 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import Link from 'next/link';
+import Image from 'next/image';
+import Layout from '../../../../components/Layout';
+import BottomNav from '../../../../components/BottomNav';
+import Button from '../../../../components/Button';
+import LoadingSpinner from '../../../../components/LoadingSpinner';
+import ApplicationStatusBadge, {
+  applicationStatuses,
+  applicationStatusLabels,
+} from '../../../../components/ApplicationStatusBadge';
+import { careernetAPI } from '../../../../lib/api';
+import type { Applicant, ApplicationStatus } from '../../../../types';
+
+function errorMessage(error: unknown, fallback: string): string {
+  return (isAxiosError(error) && error.response?.data?.error) || fallback;
+}
+
+export default function JobApplicants() {
+  const router = useRouter();
+  const { jobId } = router.query;
+  const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState<ApplicationStatus>('reviewed');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [actionError, setActionError] = useState('');
+
+  const queryKey = ['jobApplications', jobId];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () => careernetAPI.getJobApplications(jobId as string),
+    enabled: !!jobId,
+  });
+
+  const applications = data?.applications || [];
+  const openApplication = applications.find((application) => application.id === openId);
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: ApplicationStatus }) =>
+      careernetAPI.updateApplicationStatus(id, status),
+    onSuccess: () => {
+      setActionError('');
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => setActionError(errorMessage(error, 'Failed to update application')),
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: ({ ids, status }: { ids: string[]; status: ApplicationStatus }) =>
+      careernetAPI.bulkUpdateApplicationStatus(jobId as string, ids, status),
+    onSuccess: () => {
+      setActionError('');
+      setSelectedIds(new Set());
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => setActionError(errorMessage(error, 'Failed to update applications')),
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: ({ id, content }: { id: string; content: string }) =>
+      careernetAPI.addApplicationNote(id, content),
+    onSuccess: () => {
+      setActionError('');
+      setNoteDraft('');
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => setActionError(errorMessage(error, 'Failed to save note')),
+  });
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const moveApplication = (application: Applicant, status: ApplicationStatus) => {
+    if (application.status !== status) {
+      statusMutation.mutate({ id: application.id, status });
+    }
+  };
+
+  const handleDrop = (status: ApplicationStatus) => {
+    const application = applications.find((item) => item.id === draggedId);
+    setDraggedId(null);
+    if (application) {
+      moveApplication(application, status);
+    }
+  };
+
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!openApplication || !noteDraft.trim()) return;
+    noteMutation.mutate({ id: openApplication.id, content: noteDraft.trim() });
+  };
+
+  return (
+    <Layout title={data ? `Applicants - ${data.job.title}` : 'Applicants - CareerNet'}>
+      <div className="min-h-screen bg-gray-50 pb-20">
+        <div className="bg-white border-b border-gray-200 px-4 py-6">
+          <Link
+            href={`/careernet/jobs/${jobId}`}
+            className="text-purple-600 hover:text-purple-700 text-sm mb-4 inline-block"
+          >
+            ← Back to Job
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Applicants</h1>
+          {data && (
+            <p className="text-sm text-gray-500">
+              {data.job.title}
+              {data.job.company && ` · ${data.job.company}`} · {applications.length} applications
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 px-4">
+            <p className="text-gray-500">{errorMessage(error, 'Failed to load applicants')}</p>
+          </div>
+        ) : (
+          <>
+            {/* Bulk actions */}
+            {selectedIds.size > 0 && (
+              <div className="sticky top-0 z-10 bg-purple-50 border-b border-purple-200 px-4 py-3 flex flex-wrap items-center gap-3">
+                <span className="text-sm font-medium text-purple-900">
+                  {selectedIds.size} selected
+                </span>
+                <select
+                  value={bulkStatus}
+                  onChange={(e) => setBulkStatus(e.target.value as ApplicationStatus)}
+                  aria-label="Move selected applications to"
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  {applicationStatuses.map((status) => (
+                    <option key={status} value={status}>
+                      {applicationStatusLabels[status]}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="primary"
+                  onClick={() => bulkMutation.mutate({ ids: [...selectedIds], status: bulkStatus })}
+                  loading={bulkMutation.isPending}
+                  className="px-3 py-1 text-sm bg-purple-600"
+                >
+                  Move
+                </Button>
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+
+            {actionError && <p className="px-4 pt-3 text-sm text-red-600">{actionError}</p>}
+
+            {/* Pipeline */}
+            <div className="flex gap-3 overflow-x-auto px-4 py-4">
+              {applicationStatuses.map((status) => {
+                const column = applications.filter((application) => application.status === status);
+                return (
+                  <section
+                    key={status}
+                    aria-label={applicationStatusLabels[status]}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleDrop(status)}
+                    className="flex-shrink-0 w-64 bg-gray-100 rounded-lg p-2"
+                  >
+                    <h2 className="flex items-center justify-between px-1 pb-2 text-sm font-semibold text-gray-700">
+                      {applicationStatusLabels[status]}
+                      <span className="text-xs font-normal text-gray-500">{column.length}</span>
+                    </h2>
+                    <ul className="space-y-2 min-h-[4rem]">
+                      {column.map((application) => (
+                        <li
+                          key={application.id}
+                          draggable
+                          onDragStart={() => setDraggedId(application.id)}
+                          onDragEnd={() => setDraggedId(null)}
+                          className={`bg-white rounded-lg border p-3 shadow-sm ${
+                            openId === application.id ? 'border-purple-500' : 'border-gray-200'
+                          }`}
+                        >
+                          <div className="flex items-start gap-2">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(application.id)}
+                              onChange={() => toggleSelected(application.id)}
+                              aria-label={`Select ${application.user.full_name}`}
+                              className="mt-1"
+                            />
+                            <button
+                              onClick={() => {
+                                setOpenId(application.id);
+                                setNoteDraft('');
+                              }}
+                              className="flex-1 min-w-0 text-left"
+                            >
+                              <p className="text-sm font-medium text-gray-900 truncate">
+                                {application.user.full_name}
+                              </p>
+                              {application.user.profile?.position && (
+                                <p className="text-xs text-gray-500 truncate">
+                                  {application.user.profile.position}
+                                  {application.user.profile.company &&
+                                    ` at ${application.user.profile.company}`}
+                                </p>
+                              )}
+                              <p className="text-xs text-gray-400 mt-1">
+                                Applied {new Date(application.created_at).toLocaleDateString()}
+                                {application.notes.length > 0 &&
+                                  ` · ${application.notes.length} notes`}
+                              </p>
+                            </button>
+                          </div>
+                          <select
+                            value={application.status}
+                            onChange={(e) =>
+                              moveApplication(application, e.target.value as ApplicationStatus)
+                            }
+                            disabled={statusMutation.isPending}
+                            aria-label={`Status for ${application.user.full_name}`}
+                            className="mt-2 w-full px-2 py-1 border border-gray-200 rounded text-xs"
+                          >
+                            {applicationStatuses.map((option) => (
+                              <option key={option} value={option}>
+                                {applicationStatusLabels[option]}
+                              </option>
+                            ))}
+                          </select>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                );
+              })}
+            </div>
+
+            {applications.length === 0 && (
+              <p className="text-center text-gray-500 py-6">No applications yet</p>
+            )}
+
+            {/* Applicant details */}
+            {openApplication && (
+              <div className="mx-4 bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+                <div className="flex items-start gap-3">
+                  {openApplication.user.profile?.avatar_url ? (
+                    <Image
+                      src={openApplication.user.profile.avatar_url}
+                      alt={openApplication.user.full_name}
+                      width={48}
+                      height={48}
+                      className="rounded-full"
+                    />
+                  ) : (
+                    <div className="w-12 h-12 rounded-full bg-gray-200 flex items-center justify-center">
+                      {openApplication.user.full_name.charAt(0)}
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      href={`/${openApplication.user.username}/profile`}
+                      className="font-semibold text-gray-900 hover:underline"
+                    >
+                      {openApplication.user.full_name}
+                    </Link>
+                    <p className="text-sm text-gray-500">@{openApplication.user.username}</p>
+                  </div>
+                  <ApplicationStatusBadge status={openApplication.status} />
+                  <button
+                    onClick={() => setOpenId(null)}
+                    aria-label="Close applicant details"
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-bold text-gray-900 mb-1">Cover Letter</h3>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                    {openApplication.cover_letter || 'No cover letter'}
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-bold text-gray-900 mb-1">Resume</h3>
+                  {openApplication.resume_url ? (
+                    <>
+                      <iframe
+                        src={openApplication.resume_url}
+                        title={`Resume of ${openApplication.user.full_name}`}
+                        className="w-full h-96 border border-gray-200 rounded"
+                      />
+                      <a
+                        href={openApplication.resume_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-purple-600 hover:text-purple-700 underline"
+                      >
+                        Open in new tab
+                      </a>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500">No resume attached</p>
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-bold text-gray-900 mb-2">Notes</h3>
+                  {openApplication.notes.length > 0 ? (
+                    <ul className="space-y-2 mb-3">
+                      {openApplication.notes.map((note) => (
+                        <li key={note.id} className="bg-gray-50 rounded p-2">
+                          <p className="text-sm text-gray-700 whitespace-pre-wrap">{note.content}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {note.author.full_name} · {new Date(note.created_at).toLocaleString()}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500 mb-3">
+                      Notes are only visible to you, not the applicant.
+                    </p>
+                  )}
+                  <form onSubmit={handleAddNote} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={noteDraft}
+                      onChange={(e) => setNoteDraft(e.target.value)}
+                      placeholder="Add a note..."
+                      aria-label="Add a note"
+                      maxLength={2000}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                    <Button
+                      type="submit"
+                      variant="primary"
+                      loading={noteMutation.isPending}
+                      disabled={!noteDraft.trim()}
+                      className="px-4 text-sm bg-purple-600"
+                    >
+                      Add
+                    </Button>
+                  </form>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <BottomNav />
+    </Layout>
+  );
+}
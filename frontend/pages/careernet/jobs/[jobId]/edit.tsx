@@ -0,0 +1,70 @@
+import { useRouter } from 'next/router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import Layout from '../../../../components/Layout';
+import BottomNav from '../../../../components/BottomNav';
+import JobForm from '../../../../components/JobForm';
+import LoadingSpinner from '../../../../components/LoadingSpinner';
+import { careernetAPI } from '../../../../lib/api';
+import { getUser } from '../../../../lib/auth';
+
+export default function EditJob() {
+  const router = useRouter();
+  const { jobId } = router.query;
+  const currentUser = getUser();
+  const queryClient = useQueryClient();
+
+  const { data: job, isLoading } = useQuery({
+    queryKey: ['careernetJob', jobId],
+    queryFn: () => careernetAPI.getJob(jobId as string),
+    enabled: !!jobId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (data: Parameters<typeof careernetAPI.updateJob>[1]) =>
+      careernetAPI.updateJob(jobId as string, data),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['careernetJob', jobId], updated);
+      queryClient.invalidateQueries({ queryKey: ['careernetJobs'] });
+      router.push(`/careernet/jobs/${updated.id}`);
+    },
+  });
+
+  return (
+    <Layout title="Edit Job - CareerNet">
+      <div className="min-h-screen bg-gray-50 pb-20">
+        <div className="bg-white border-b border-gray-200 px-4 py-6">
+          <h1 className="text-2xl font-bold text-gray-900">Edit Job</h1>
+        </div>
+
+        <div className="px-4 py-6">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : !job || job.user_id !== currentUser?.id ? (
+            <p className="text-center text-gray-500 py-12">
+              Only the person who posted this job can edit it
+            </p>
+          ) : (
+            <JobForm
+              job={job}
+              submitLabel="Save Changes"
+              isSubmitting={updateMutation.isPending}
+              error={
+                updateMutation.error
+                  ? (isAxiosError(updateMutation.error) && updateMutation.error.response?.data?.error) ||
+                    'Failed to save job'
+                  : undefined
+              }
+              onSubmit={(data) => updateMutation.mutate(data)}
+              onCancel={() => router.back()}
+            />
+          )}
+        </div>
+      </div>
+
+      <BottomNav />
+    </Layout>
+  );
+}
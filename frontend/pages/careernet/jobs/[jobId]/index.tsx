@@ -1,12 +1,15 @@
 import { useState } from 'react';
 import { useRouter } from 'next/router';
-import { useQuery, useMutation } from '@tanstack/react-query';
-import Layout from '../../../components/Layout';
-import BottomNav from '../../../components/BottomNav';
-import Button from '../../../components/Button';
-import LoadingSpinner from '../../../components/LoadingSpinner';
-import { careernetAPI } from '../../../lib/api';
-import { getUser } from '../../../lib/auth';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import Layout from '../../../../components/Layout';
+import BottomNav from '../../../../components/BottomNav';
+import Button from '../../../../components/Button';
+import ConfirmModal from '../../../../components/ConfirmModal';
+import LoadingSpinner from '../../../../components/LoadingSpinner';
+import { careernetAPI } from '../../../../lib/api';
+import { getUser } from '../../../../lib/auth';
+import { formatSalary, seniorityLabels, workplaceTypeLabels } from '../../../../lib/jobs';
 import Link from 'next/link';
 import Image from 'next/image';
 
@@ -17,6 +20,9 @@ export default function JobDetail() {
   const [showApplicationForm, setShowApplicationForm] = useState(false);
   const [coverLetter, setCoverLetter] = useState('');
   const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [pendingStatus, setPendingStatus] = useState<'closed' | 'filled' | null>(null);
+  const [ownerError, setOwnerError] = useState('');
+  const queryClient = useQueryClient();
 
   const { data: job, isLoading } = useQuery({
     queryKey: ['careernetJob', jobId],
@@ -31,10 +37,31 @@ export default function JobDetail() {
       setShowApplicationForm(false);
       setCoverLetter('');
       setResumeFile(null);
-      alert('Application submitted successfully!');
+      alert('Application submitted! Track its progress under My Applications.');
     },
   });
 
+  const statusMutation = useMutation({
+    mutationFn: (status: 'open' | 'closed' | 'filled') =>
+      careernetAPI.updateJob(jobId as string, { status }),
+    onSuccess: (updated) => {
+      setOwnerError('');
+      queryClient.setQueryData(['careernetJob', jobId], updated);
+      queryClient.invalidateQueries({ queryKey: ['careernetJobs'] });
+    },
+    onError: (error) =>
+      setOwnerError(
+        (isAxiosError(error) && error.response?.data?.error) || 'Failed to update job'
+      ),
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: () => careernetAPI.duplicateJob(jobId as string),
+    // Open the copy for editing before it goes out
+    onSuccess: (copy) => router.push(`/careernet/jobs/${copy.id}/edit`),
+    onError: () => setOwnerError('Failed to repost job'),
+  });
+
   const handleApply = (e: React.FormEvent) => {
     e.preventDefault();
     applicationMutation.mutate({
@@ -110,14 +137,24 @@ export default function JobDetail() {
                       {job.type.replace('-', ' ')}
                     </span>
                   )}
+                  {job.workplace_type && (
+                    <span className="px-3 py-1 bg-purple-100 text-purple-700 text-sm rounded">
+                      {workplaceTypeLabels[job.workplace_type]}
+                    </span>
+                  )}
+                  {job.seniority && (
+                    <span className="px-3 py-1 bg-purple-100 text-purple-700 text-sm rounded">
+                      {seniorityLabels[job.seniority]}
+                    </span>
+                  )}
                   {job.location && (
                     <span className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded">
                       📍 {job.location}
                     </span>
                   )}
-                  {job.salary_range && (
+                  {formatSalary(job) && (
                     <span className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded">
-                      💰 {job.salary_range}
+                      💰 {formatSalary(job)}
                     </span>
                   )}
                 </div>
@@ -183,6 +220,61 @@ export default function JobDetail() {
                   </div>
                 )}
 
+                {isOwner && (
+                  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+                    <Button
+                      variant="primary"
+                      onClick={() => router.push(`/careernet/jobs/${job.id}/applicants`)}
+                      className="w-full bg-purple-600"
+                    >
+                      Review Applicants ({job._count?.applications || 0})
+                    </Button>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => router.push(`/careernet/jobs/${job.id}/edit`)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => duplicateMutation.mutate()}
+                        loading={duplicateMutation.isPending}
+                      >
+                        Repost
+                      </Button>
+                      {job.status === 'open' ? (
+                        <>
+                          <Button
+                            variant="outline"
+                            onClick={() => setPendingStatus('filled')}
+                            disabled={statusMutation.isPending}
+                          >
+                            Mark Filled
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => setPendingStatus('closed')}
+                            disabled={statusMutation.isPending}
+                          >
+                            Close
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          onClick={() => statusMutation.mutate('open')}
+                          loading={statusMutation.isPending}
+                          className="col-span-2"
+                        >
+                          Reopen
+                        </Button>
+                      )}
+                    </div>
+                    {ownerError && <p className="text-sm text-red-600">{ownerError}</p>}
+                  </div>
+                )}
+
                 {/* Application Form */}
                 {!isOwner && job.status === 'open' && (
                   <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
@@ -255,12 +347,27 @@ export default function JobDetail() {
                 <div className="text-sm text-gray-500 text-center">
                   {job._count?.applications || 0} applications • Posted{' '}
                   {new Date(job.created_at).toLocaleDateString()}
+                  {job.expires_at && (
+                    <> • Closes {new Date(job.expires_at).toLocaleDateString()}</>
+                  )}
                 </div>
               </div>
             </>
           )}
         </div>
 
+        <ConfirmModal
+          isOpen={pendingStatus !== null}
+          title={pendingStatus === 'filled' ? 'Mark Job Filled' : 'Close Job'}
+          message="The job will stop taking applications and no longer appear in job listings. You can reopen it later."
+          confirmText={pendingStatus === 'filled' ? 'Mark Filled' : 'Close Job'}
+          onConfirm={() => {
+            if (pendingStatus) statusMutation.mutate(pendingStatus);
+            setPendingStatus(null);
+          }}
+          onCancel={() => setPendingStatus(null)}
+        />
+
         <BottomNav />
       </Layout>
   );
@@ -1,56 +1,21 @@
-import { useState } from 'react';
 import { useRouter } from 'next/router';
 import { useMutation } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import Layout from '../../../components/Layout';
 import BottomNav from '../../../components/BottomNav';
-import Button from '../../../components/Button';
-import LoadingSpinner from '../../../components/LoadingSpinner';
+import JobForm from '../../../components/JobForm';
 import { careernetAPI } from '../../../lib/api';
 
 export default function NewJob() {
   const router = useRouter();
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    company: '',
-    location: '',
-    type: '',
-    salary_range: '',
-    requirements: '',
-    tags: '',
-    application_url: '',
-    application_email: '',
-  });
 
   const createMutation = useMutation({
-    mutationFn: (data: any) => careernetAPI.createJob(data),
+    mutationFn: careernetAPI.createJob,
     onSuccess: (job) => {
       router.push(`/careernet/jobs/${job.id}`);
     },
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!formData.title.trim() || !formData.description.trim()) return;
-
-    createMutation.mutate({
-      title: formData.title.trim(),
-      description: formData.description.trim(),
-      company: formData.company.trim() || undefined,
-      location: formData.location.trim() || undefined,
-      type: formData.type || undefined,
-      salary_range: formData.salary_range.trim() || undefined,
-      requirements: formData.requirements
-        ? formData.requirements.split('\n').filter((r) => r.trim())
-        : undefined,
-      tags: formData.tags
-        ? formData.tags.split(',').map((t) => t.trim()).filter((t) => t)
-        : undefined,
-      application_url: formData.application_url.trim() || undefined,
-      application_email: formData.application_email.trim() || undefined,
-    });
-  };
-
   return (
     <Layout title="Post New Job - CareerNet">
         <div className="min-h-screen bg-gray-50 pb-20">
@@ -59,168 +24,18 @@ export default function NewJob() {
           </div>
 
           <div className="px-4 py-6">
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Job Title *
-                </label>
-                <input
-                  type="text"
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  placeholder="e.g., Senior Software Engineer"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Description *
-                </label>
-                <textarea
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  rows={8}
-                  placeholder="Describe the job position..."
-                  required
-                />
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Company
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.company}
-                    onChange={(e) => setFormData({ ...formData, company: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                    placeholder="Company name"
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Location
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.location}
-                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                    placeholder="City, Country"
-                  />
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Job Type
-                  </label>
-                  <select
-                    value={formData.type}
-                    onChange={(e) => setFormData({ ...formData, type: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  >
-                    <option value="">Select type</option>
-                    <option value="full-time">Full-time</option>
-                    <option value="part-time">Part-time</option>
-                    <option value="contract">Contract</option>
-                    <option value="internship">Internship</option>
-                  </select>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Salary Range
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.salary_range}
-                    onChange={(e) => setFormData({ ...formData, salary_range: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                    placeholder="e.g., $80k - $120k"
-                  />
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Requirements (One per line)
-                </label>
-                <textarea
-                  value={formData.requirements}
-                  onChange={(e) => setFormData({ ...formData, requirements: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  rows={4}
-                  placeholder="Requirement 1&#10;Requirement 2&#10;..."
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Skills (Comma-separated)
-                </label>
-                <input
-                  type="text"
-                  value={formData.tags}
-                  onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  placeholder="JavaScript, React, Node.js"
-                />
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Application URL
-                  </label>
-                  <input
-                    type="url"
-                    value={formData.application_url}
-                    onChange={(e) => setFormData({ ...formData, application_url: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                    placeholder="https://..."
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Application Email
-                  </label>
-                  <input
-                    type="email"
-                    value={formData.application_email}
-                    onChange={(e) => setFormData({ ...formData, application_email: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                    placeholder="jobs@company.com"
-                  />
-                </div>
-              </div>
-
-              <div className="flex gap-3">
-                <Button
-                  type="button"
-                  variant="secondary"
-                  onClick={() => router.back()}
-                  className="flex-1"
-                >
-                  Cancel
-                </Button>
-                <Button
-                  type="submit"
-                  variant="primary"
-                  disabled={!formData.title.trim() || !formData.description.trim() || createMutation.isPending}
-                  className="flex-1 bg-purple-600"
-                >
-                  {createMutation.isPending ? <LoadingSpinner size="sm" /> : 'Post Job'}
-                </Button>
-              </div>
-            </form>
+            <JobForm
+              submitLabel="Post Job"
+              isSubmitting={createMutation.isPending}
+              error={
+                createMutation.error
+                  ? (isAxiosError(createMutation.error) && createMutation.error.response?.data?.error) ||
+                    'Failed to post job'
+                  : undefined
+              }
+              onSubmit={(data) => createMutation.mutate(data)}
+              onCancel={() => router.back()}
+            />
           </div>
         </div>
 
@@ -8,7 +8,6 @@ import Button from '../components/Button';
 import { chatsAPI, contactsAPI } from '../lib/api';
 import Image from 'next/image';
 import Link from 'next/link';
-import { decryptMessage } from '../lib/encryption';
 
 export default function Chats() {
   const router = useRouter();
@@ -26,13 +25,29 @@ export default function Chats() {
           <div className="bg-white border-b border-gray-200 px-4 py-6">
             <div className="flex items-center justify-between">
               <h1 className="text-2xl font-bold text-gray-900">Messages</h1>
-              <Button
-                variant="primary"
-                onClick={() => router.push('/chats/new')}
-                className="text-sm"
-              >
-                + New
-              </Button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => router.push('/chats/calls')}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                  title="Call History"
+                >
+                  📞
+                </button>
+                <button
+                  onClick={() => router.push('/chats/search')}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                  title="Search Messages"
+                >
+                  🔍
+                </button>
+                <Button
+                  variant="primary"
+                  onClick={() => router.push('/chats/new')}
+                  className="text-sm"
+                >
+                  + New
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -59,7 +74,10 @@ export default function Chats() {
                     thread.type === 'group'
                       ? thread.name
                       : otherParticipant?.full_name || 'Unknown';
-                  const displayAvatar = otherParticipant?.profile?.avatar_url;
+                  const displayAvatar =
+                    thread.type === 'group'
+                      ? thread.avatar_url
+                      : otherParticipant?.profile?.avatar_url;
 
                   return (
                     <Link
@@ -98,10 +116,12 @@ export default function Chats() {
                             )}
                           </div>
                           {thread.latestMessage ? (
-                            <p className="text-sm text-gray-600 truncate">
-                              {thread.latestMessage.encrypted
-                                ? decryptMessage(thread.latestMessage.content)
-                                : thread.latestMessage.content}
+                            <p
+                              className={`text-sm truncate ${
+                                thread.unreadCount > 0 ? 'font-semibold text-gray-900' : 'text-gray-600'
+                              }`}
+                            >
+                              {thread.latestMessage.content}
                             </p>
                           ) : (
                             <p className="text-sm text-gray-400">No messages yet</p>
@@ -1,6 +1,7 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useCallback, useLayoutEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/router';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { InfiniteData } from '@tanstack/react-query';
 import Image from 'next/image';
 import Link from 'next/link';
 import Layout from '../../components/Layout';
@@ -8,10 +9,95 @@ import BottomNav from '../../components/BottomNav';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import Button from '../../components/Button';
 import ConfirmModal from '../../components/ConfirmModal';
+import CallLogEntry from '../../components/CallLogEntry';
+import GroupCallBanner from '../../components/GroupCallBanner';
 import { chatsAPI, messagesAPI } from '../../lib/api';
-import { decryptMessage, encryptMessage } from '../../lib/encryption';
-import { getSocket } from '../../lib/socket';
+import { decryptMessage, invalidateThreadKeys } from '../../lib/encryption';
+import { indexMessages, removeFromIndex } from '../../lib/chatSearch';
+import { getSocket, useSocketEvent, useSocketRoom } from '../../lib/socket';
 import { getUser } from '../../lib/auth';
+import {
+  discardMessage,
+  getOutboxEntries,
+  queueMessage,
+  retryMessage,
+  subscribeOutbox,
+} from '../../lib/outbox';
+import type { OutboxEntry } from '../../lib/outbox';
+import type { ChatThread, Message, MessageReaction } from '../../types';
+
+type MessagePage = { messages: Message[]; nextCursor: string | null };
+type MessageHistory = InfiniteData<MessagePage, string | undefined>;
+
+const PAGE_SIZE = 50;
+const LOAD_OLDER_THRESHOLD_PX = 100;
+const STICK_TO_BOTTOM_THRESHOLD_PX = 150;
+// Messages seen within this window are marked read in one request
+const MARK_READ_DELAY_MS = 500;
+const MAX_READ_BATCH = 100;
+
+/**
+ * Apply a change to every loaded page of history (pages run newest to oldest,
+ * messages within a page oldest to newest)
+ */
+function updateHistory(
+  old: MessageHistory | undefined,
+  update: (messages: Message[]) => Message[]
+): MessageHistory | undefined {
+  if (!old) return old;
+  return {
+    ...old,
+    pages: old.pages.map((page) => ({ ...page, messages: update(page.messages) })),
+  };
+}
+
+/**
+ * Append a live message to the newest page unless it is already loaded
+ */
+function appendToHistory(old: MessageHistory | undefined, message: Message) {
+  if (!old || old.pages.length === 0) return old;
+  if (old.pages.some((page) => page.messages.some((msg) => msg.id === message.id))) return old;
+
+  const [newest, ...older] = old.pages;
+  return {
+    ...old,
+    pages: [{ ...newest, messages: [...newest.messages, message] }, ...older],
+  };
+}
+
+/**
+ * Record that a user has read the given messages
+ */
+function applyReads(
+  old: MessageHistory | undefined,
+  messageIds: string[],
+  userId: string,
+  readAt: string
+) {
+  return updateHistory(old, (pageMessages) =>
+    pageMessages.map((msg) =>
+      messageIds.includes(msg.id) && !msg.reads?.some((read) => read.user_id === userId)
+        ? { ...msg, reads: [...(msg.reads || []), { user_id: userId, read_at: readAt }] }
+        : msg
+    )
+  );
+}
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+/**
+ * Group a message's reactions by emoji, keeping first-use order
+ */
+function groupReactions(reactions: MessageReaction[], userId?: string) {
+  const groups = new Map<string, { count: number; reacted: boolean }>();
+  reactions.forEach((reaction) => {
+    const group = groups.get(reaction.emoji) || { count: 0, reacted: false };
+    group.count += 1;
+    group.reacted = group.reacted || reaction.user_id === userId;
+    groups.set(reaction.emoji, group);
+  });
+  return Array.from(groups, ([emoji, group]) => ({ emoji, ...group }));
+}
 
 export default function ChatView() {
   const router = useRouter();
@@ -22,6 +108,8 @@ export default function ChatView() {
       : Array.isArray(threadId)
       ? threadId[0]
       : undefined;
+  // Deep link from search results, e.g. /chats/abc?message=xyz
+  const linkedMessageId = typeof router.query.message === 'string' ? router.query.message : undefined;
   const queryClient = useQueryClient();
   const [message, setMessage] = useState('');
   const [mediaFiles, setMediaFiles] = useState<File[]>([]);
@@ -31,10 +119,22 @@ export default function ChatView() {
   const [selectedMessage, setSelectedMessage] = useState<string | null>(null);
   const [showDeleteMessageConfirm, setShowDeleteMessageConfirm] = useState(false);
   const [showDeleteChatConfirm, setShowDeleteChatConfirm] = useState(false);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [jumpDate, setJumpDate] = useState('');
+  const [isJumping, setIsJumping] = useState(false);
+  const [highlightedMessage, setHighlightedMessage] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll position captured before older history is prepended
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const stickToBottomRef = useRef(true);
+  const revealedLinkRef = useRef<string | null>(null);
+  const readObserverRef = useRef<IntersectionObserver | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const socket = useRef<any>(null);
   const currentUser = getUser();
 
   // Get thread details
@@ -48,98 +148,171 @@ export default function ChatView() {
 
   const thread = threadsData?.threads?.find((t: any) => t.id === activeThreadId);
 
-  // Get messages
+  // Get messages, newest page first; older pages load as the user scrolls up
   const {
     data: messagesData,
     refetch: refetchMessages,
-  } = useQuery({
+    fetchNextPage: fetchOlderMessages,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isFetchingOlderMessages,
+  } = useInfiniteQuery({
     queryKey: ['messages', activeThreadId],
-    queryFn: () => chatsAPI.getMessages(activeThreadId as string, { limit: 50 }),
+    queryFn: ({ pageParam }) =>
+      chatsAPI.getMessages(activeThreadId as string, { limit: PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     enabled: !!activeThreadId,
     refetchInterval: false, // Disable automatic refetch - rely on Socket.io for real-time updates
     staleTime: 5 * 60 * 1000, // Consider data fresh for 5 minutes
   });
 
-  const messages = messagesData?.messages || [];
+  const messages = useMemo(
+    () => [...(messagesData?.pages || [])].reverse().flatMap((page) => page.messages),
+    [messagesData]
+  );
+  const newestMessageId = messages[messages.length - 1]?.id;
 
-  // Set up Socket.io
+  // Outbox entries whose echo hasn't arrived yet
+  const deliveredClientIds = new Set(messages.map((msg) => msg.client_id).filter(Boolean));
+  const pendingMessages = outboxEntries.filter(
+    (entry) => !deliveredClientIds.has(entry.client_id)
+  );
+
+  // Track queued messages and fold delivered ones into the history
   useEffect(() => {
-    if (!activeThreadId || typeof window === 'undefined') return;
-
-    const socketInstance = getSocket();
-    socket.current = socketInstance;
-
-    // Join thread
-    socketInstance.emit('join:thread', activeThreadId);
-
-    // Listen for new messages - update cache immediately for real-time updates
-    const handleNewMessage = (newMessage: any) => {
-      // Only update if message is for current thread
-      if (newMessage.thread_id === activeThreadId) {
-        queryClient.setQueryData(['messages', activeThreadId], (old: any) => {
-          if (!old) return { messages: [newMessage], nextCursor: null };
-          // Check if message already exists to avoid duplicates
-          const messageExists = old.messages.some((msg: any) => msg.id === newMessage.id);
-          if (messageExists) return old;
-          return {
-            ...old,
-            messages: [...old.messages, newMessage],
-          };
-        });
-        scrollToBottom();
-      }
+    if (!activeThreadId) return;
+
+    const addDelivered = (delivered: Message) => {
+      queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+        appendToHistory(old, delivered)
+      );
     };
 
-    socketInstance.on('message.new', handleNewMessage);
-
-    // Listen for typing indicators
-    socketInstance.on('thread:typing', (data: { user_id: string; typing: boolean }) => {
-      setTypingUsers((prev) => {
-        const newSet = new Set(prev);
-        if (data.typing) {
-          newSet.add(data.user_id);
-        } else {
-          newSet.delete(data.user_id);
-        }
-        return newSet;
-      });
+    setOutboxEntries(getOutboxEntries(activeThreadId));
+    return subscribeOutbox((delivered) => {
+      if (delivered?.thread_id === activeThreadId) {
+        addDelivered(delivered);
+      }
+      setOutboxEntries(getOutboxEntries(activeThreadId));
     });
+  }, [activeThreadId, queryClient]);
 
-    // Listen for read receipts
-    socketInstance.on('message.read', (data: { message_id: string; user_id: string }) => {
-      // Update message read status if needed
-      queryClient.invalidateQueries({ queryKey: ['messages', activeThreadId] });
-    });
+  // Set up Socket.io
+  useSocketRoom(activeThreadId ? `thread:${activeThreadId}` : null);
 
-    // Listen for message deleted
-    socketInstance.on('message.deleted', (data: { message_id: string; thread_id: string }) => {
-      if (data.thread_id === activeThreadId) {
-        queryClient.setQueryData(['messages', activeThreadId], (old: any) => {
-          if (!old) return old;
-          return {
-            ...old,
-            messages: old.messages.filter((msg: any) => msg.id !== data.message_id),
-          };
-        });
-      }
-    });
+  // Listen for new messages - update cache immediately for real-time updates
+  useSocketEvent('message.new', async (incomingMessage) => {
+    // Only update if message is for current thread
+    if (incomingMessage.thread_id === activeThreadId) {
+      const newMessage = await decryptMessage(activeThreadId, incomingMessage);
+      indexMessages([newMessage]);
+      // Skips messages that are already loaded (e.g. our own outbox deliveries)
+      queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+        appendToHistory(old, newMessage)
+      );
+    }
+  });
 
-    // Listen for thread deleted
-    socketInstance.on('thread.deleted', (data: { thread_id: string }) => {
-      if (data.thread_id === activeThreadId) {
-        router.push('/chats');
+  // Listen for typing indicators
+  useSocketEvent('thread:typing', (data) => {
+    setTypingUsers((prev) => {
+      const newSet = new Set(prev);
+      if (data.typing) {
+        newSet.add(data.user_id);
+      } else {
+        newSet.delete(data.user_id);
       }
+      return newSet;
     });
+  });
 
-    return () => {
-      socketInstance.emit('leave:thread', activeThreadId);
-      socketInstance.off('message.new');
-      socketInstance.off('thread:typing');
-      socketInstance.off('message.read');
-      socketInstance.off('message.deleted');
-      socketInstance.off('thread.deleted');
-    };
-  }, [activeThreadId, queryClient, router]);
+  // Listen for read receipts
+  useSocketEvent('message.read', (data) => {
+    if (data.thread_id !== activeThreadId) return;
+    queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+      applyReads(old, data.message_ids, data.user_id, data.read_at)
+    );
+  });
+
+  // Listen for message deleted
+  useSocketEvent('message.deleted', (data) => {
+    if (data.thread_id === activeThreadId) {
+      removeFromIndex(data.message_id);
+      queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+        updateHistory(old, (pageMessages) =>
+          pageMessages
+            .filter((msg) => msg.id !== data.message_id)
+            .map((msg) =>
+              msg.reply_to_id === data.message_id ? { ...msg, reply_to: null } : msg
+            )
+        )
+      );
+    }
+  });
+
+  // Listen for message edits, which also refresh quotes of the edited message
+  useSocketEvent('message.updated', async (incomingMessage) => {
+    if (incomingMessage.thread_id !== activeThreadId) return;
+
+    const updated = await decryptMessage(activeThreadId, incomingMessage);
+    indexMessages([updated]);
+    queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+      updateHistory(old, (pageMessages) =>
+        pageMessages.map((msg) => {
+          if (msg.id === updated.id) {
+            return { ...msg, ...updated };
+          }
+          if (msg.reply_to?.id === updated.id) {
+            return { ...msg, reply_to: { ...msg.reply_to, content: updated.content } };
+          }
+          return msg;
+        })
+      )
+    );
+  });
+
+  // Listen for reaction changes
+  useSocketEvent('message.reaction', (data) => {
+    if (data.thread_id !== activeThreadId) return;
+
+    queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+      updateHistory(old, (pageMessages) =>
+        pageMessages.map((msg) =>
+          msg.id === data.message_id ? { ...msg, reactions: data.reactions } : msg
+        )
+      )
+    );
+  });
+
+  // Drop cached keys so the next send/decrypt picks up the rotated key
+  useSocketEvent('thread.key_rotated', (data) => {
+    if (data.thread_id === activeThreadId) {
+      invalidateThreadKeys(activeThreadId);
+    }
+  });
+
+  // Listen for thread deleted
+  useSocketEvent('thread.deleted', (data) => {
+    if (data.thread_id === activeThreadId) {
+      router.push('/chats');
+    }
+  });
+
+  // Group renamed, new avatar or membership changed
+  useSocketEvent('thread.updated', (data) => {
+    if (data.thread_id === activeThreadId) {
+      queryClient.invalidateQueries({ queryKey: ['chatThreads'] });
+      queryClient.invalidateQueries({ queryKey: ['chatGroup', activeThreadId] });
+    }
+  });
+
+  // Removed from the group (or left it from another device)
+  useSocketEvent('thread.member_removed', (data) => {
+    if (data.thread_id === activeThreadId && data.user_id === getUser()?.id) {
+      queryClient.invalidateQueries({ queryKey: ['chatThreads'] });
+      router.push('/chats');
+    }
+  });
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
@@ -173,32 +346,14 @@ export default function ChatView() {
     setMediaPreviews((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const sendMutation = useMutation({
-    mutationFn: (data: { content: string; encrypted: boolean; media?: File[] }) =>
-      messagesAPI.send({
-        thread_id: activeThreadId as string,
-        ...data,
-      }),
-    onSuccess: () => {
-      setMediaFiles([]);
-      setMediaPreviews([]);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      setMessage('');
-      refetchMessages();
-      scrollToBottom();
-    },
-  });
-
   const handleTyping = (value: string) => {
     setMessage(value);
 
     // Send typing indicator
     if (!isTyping && value.length > 0) {
       setIsTyping(true);
-      if (socket.current && activeThreadId) {
-        socket.current.emit('thread:typing', {
+      if (activeThreadId) {
+        getSocket().emit('thread:typing', {
           thread_id: activeThreadId,
           typing: true,
         });
@@ -213,8 +368,8 @@ export default function ChatView() {
     // Set timeout to stop typing indicator
     typingTimeoutRef.current = setTimeout(() => {
       setIsTyping(false);
-      if (socket.current && activeThreadId) {
-        socket.current.emit('thread:typing', {
+      if (activeThreadId) {
+        getSocket().emit('thread:typing', {
           thread_id: activeThreadId,
           typing: false,
         });
@@ -222,22 +377,104 @@ export default function ChatView() {
     }, 2000);
   };
 
+  const updateCachedMessage = (updated: Message) => {
+    queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+      updateHistory(old, (pageMessages) =>
+        pageMessages.map((msg) => (msg.id === updated.id ? { ...msg, ...updated } : msg))
+      )
+    );
+  };
+
+  const editMutation = useMutation({
+    mutationFn: (data: { messageId: string; content: string }) =>
+      messagesAPI.edit(activeThreadId as string, data.messageId, data.content),
+    onSuccess: (updated) => {
+      updateCachedMessage(updated);
+      setEditingMessage(null);
+      setMessage('');
+    },
+    onError: (error: any) => {
+      alert(error?.response?.data?.error || 'Failed to edit message');
+    },
+  });
+
+  const reactMutation = useMutation({
+    mutationFn: (data: { messageId: string; emoji: string }) =>
+      messagesAPI.react(data.messageId, data.emoji),
+    onSuccess: ({ reactions }, { messageId }) => {
+      queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+        updateHistory(old, (pageMessages) =>
+          pageMessages.map((msg) => (msg.id === messageId ? { ...msg, reactions } : msg))
+        )
+      );
+    },
+    onError: (error: any) => {
+      alert(error?.response?.data?.error || 'Failed to react to message');
+    },
+  });
+
+  const handleReact = (messageId: string, emoji: string) => {
+    setReactionPickerFor(null);
+    reactMutation.mutate({ messageId, emoji });
+  };
+
+  const startReply = (msg: Message) => {
+    setEditingMessage(null);
+    setReplyTo(msg);
+  };
+
+  const startEdit = (msg: Message) => {
+    setReplyTo(null);
+    setEditingMessage(msg);
+    setMessage(msg.content);
+  };
+
+  const cancelComposerMode = () => {
+    if (editingMessage) {
+      setMessage('');
+    }
+    setEditingMessage(null);
+    setReplyTo(null);
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!message.trim() && mediaFiles.length === 0) || sendMutation.isPending) return;
+
+    if (editingMessage) {
+      if (message.trim() && !editMutation.isPending) {
+        editMutation.mutate({ messageId: editingMessage.id, content: message.trim() });
+      }
+      return;
+    }
+
+    if ((!message.trim() && mediaFiles.length === 0) || !activeThreadId) return;
 
     const contentToSend = message.trim() || (mediaFiles.length > 0 ? '📎' : '');
-    const encryptedContent = encryptMessage(contentToSend);
-    sendMutation.mutate({
-      content: encryptedContent,
-      encrypted: true,
-      media: mediaFiles.length > 0 ? mediaFiles : undefined,
-    });
+    // Queued locally first and delivered (and encrypted) by the outbox
+    try {
+      await queueMessage({
+        thread_id: activeThreadId,
+        content: contentToSend,
+        media: mediaFiles,
+        reply_to_id: replyTo?.id,
+      });
+    } catch (error) {
+      alert((error as Error).message || 'Failed to send message');
+      return;
+    }
+
+    setReplyTo(null);
+    setMediaFiles([]);
+    setMediaPreviews([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    setMessage('');
 
     // Stop typing indicator
     setIsTyping(false);
-    if (socket.current && activeThreadId) {
-      socket.current.emit('thread:typing', {
+    if (activeThreadId) {
+      getSocket().emit('thread:typing', {
         thread_id: activeThreadId,
         typing: false,
       });
@@ -248,10 +485,206 @@ export default function ChatView() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Follow new messages only while the user hasn't scrolled up into history
   useEffect(() => {
-    scrollToBottom();
+    if (stickToBottomRef.current) {
+      scrollToBottom();
+    }
+  }, [newestMessageId]);
+
+  useEffect(() => {
+    if (pendingMessages.length > 0) {
+      stickToBottomRef.current = true;
+      scrollToBottom();
+    }
+  }, [pendingMessages.length]);
+
+  // Mark other people's messages read once they scroll into view, batching requests
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    const userId = currentUser?.id;
+    if (!activeThreadId || !container || !userId) return;
+
+    const pending = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = () => {
+      if (!timer && pending.size > 0) {
+        timer = setTimeout(flush, MARK_READ_DELAY_MS);
+      }
+    };
+
+    const flush = () => {
+      timer = null;
+      // Messages on a background tab haven't really been seen yet
+      if (document.visibilityState !== 'visible') return;
+
+      const batch = Array.from(pending).slice(0, MAX_READ_BATCH);
+      batch.forEach((id) => pending.delete(id));
+      chatsAPI
+        .markRead(activeThreadId, batch)
+        .then(({ unreadCount }) => {
+          queryClient.setQueryData<MessageHistory>(['messages', activeThreadId], (old) =>
+            applyReads(old, batch, userId, new Date().toISOString())
+          );
+          queryClient.setQueryData<{ threads: ChatThread[] }>(['chatThreads'], (old) =>
+            old
+              ? {
+                  ...old,
+                  threads: old.threads.map((t) => (t.id === activeThreadId ? { ...t, unreadCount } : t)),
+                }
+              : old
+          );
+          queryClient.invalidateQueries({ queryKey: ['chatUnread'] });
+        })
+        .catch((error) => {
+          console.error('Failed to mark messages as read:', error);
+        });
+      schedule();
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const messageId = (entry.target as HTMLElement).dataset.unreadMessage;
+          if (entry.isIntersecting && messageId) {
+            pending.add(messageId);
+            observer.unobserve(entry.target);
+          }
+        });
+        schedule();
+      },
+      { root: container, threshold: 0.1 }
+    );
+    readObserverRef.current = observer;
+    document.addEventListener('visibilitychange', schedule);
+
+    return () => {
+      observer.disconnect();
+      readObserverRef.current = null;
+      document.removeEventListener('visibilitychange', schedule);
+      if (timer) clearTimeout(timer);
+    };
+  }, [activeThreadId, thread?.id, currentUser?.id, queryClient]);
+
+  useEffect(() => {
+    const observer = readObserverRef.current;
+    scrollContainerRef.current
+      ?.querySelectorAll('[data-unread-message]')
+      .forEach((element) => observer?.observe(element));
   }, [messages]);
 
+  // Keep the visible messages in place when an older page is prepended
+  useLayoutEffect(() => {
+    const anchor = prependAnchorRef.current;
+    const container = scrollContainerRef.current;
+    if (!anchor || !container) return;
+
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    prependAnchorRef.current = null;
+  }, [messagesData?.pages.length]);
+
+  useEffect(() => {
+    if (!highlightedMessage) return;
+
+    document
+      .getElementById(`message-${highlightedMessage}`)
+      ?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const timeout = setTimeout(() => setHighlightedMessage(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessage]);
+
+  const loadOlderMessages = async () => {
+    const container = scrollContainerRef.current;
+    if (!container || !hasOlderMessages || isFetchingOlderMessages) return;
+
+    prependAnchorRef.current = {
+      scrollHeight: container.scrollHeight,
+      scrollTop: container.scrollTop,
+    };
+    const result = await fetchOlderMessages();
+    if (result.isError) {
+      prependAnchorRef.current = null;
+    }
+  };
+
+  const handleMessagesScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    stickToBottomRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight <
+      STICK_TO_BOTTOM_THRESHOLD_PX;
+    if (container.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      loadOlderMessages();
+    }
+  };
+
+  /**
+   * Load older pages until `loadedEnough` holds (or history runs out), then scroll to
+   * and highlight the message chosen by `find`. Returns false when nothing matched.
+   */
+  const revealMessage = useCallback(async (
+    loadedEnough: (loaded: Message[]) => boolean,
+    find: (loaded: Message[]) => Message | undefined
+  ): Promise<boolean> => {
+    setIsJumping(true);
+    try {
+      let history: { pages: MessagePage[] } | undefined = queryClient.getQueryData<MessageHistory>([
+        'messages',
+        activeThreadId,
+      ]);
+      let hasMore = hasOlderMessages;
+      while (hasMore && history) {
+        const loaded = [...history.pages].reverse().flatMap((page) => page.messages);
+        if (loadedEnough(loaded)) break;
+
+        const result = await fetchOlderMessages();
+        if (result.isError) break;
+        history = result.data;
+        hasMore = result.hasNextPage;
+      }
+
+      const match = find([...(history?.pages || [])].reverse().flatMap((page) => page.messages));
+      if (!match) return false;
+
+      stickToBottomRef.current = false;
+      setHighlightedMessage(match.id);
+      return true;
+    } finally {
+      setIsJumping(false);
+    }
+  }, [queryClient, activeThreadId, hasOlderMessages, fetchOlderMessages]);
+
+  const jumpToDate = async (value: string) => {
+    setJumpDate(value);
+    if (!value || isJumping) return;
+
+    const target = new Date(`${value}T00:00:00`);
+    const found = await revealMessage(
+      (loaded) => !!loaded[0] && new Date(loaded[0].created_at) < target,
+      (loaded) => loaded.find((msg) => new Date(msg.created_at) >= target)
+    );
+    if (!found) {
+      stickToBottomRef.current = true;
+      scrollToBottom();
+    }
+  };
+
+  useEffect(() => {
+    if (!linkedMessageId || !messagesData || revealedLinkRef.current === linkedMessageId) return;
+
+    revealedLinkRef.current = linkedMessageId;
+    revealMessage(
+      (loaded) => loaded.some((msg) => msg.id === linkedMessageId),
+      (loaded) => loaded.find((msg) => msg.id === linkedMessageId)
+    ).then((found) => {
+      if (!found) {
+        alert('That message is no longer available');
+      }
+    });
+  }, [linkedMessageId, messagesData, revealMessage]);
+
   // Delete message mutation
   const deleteMessageMutation = useMutation({
     mutationFn: (messageId: string) => messagesAPI.delete(messageId),
@@ -315,8 +748,19 @@ export default function ChatView() {
   }
 
   const otherParticipant = thread.participants?.[0];
-  const displayName =
-    thread.type === 'group' ? thread.name : otherParticipant?.full_name || 'Unknown';
+  const isGroup = thread.type === 'group';
+  const displayName = (isGroup ? thread.name : otherParticipant?.full_name) || 'Unknown';
+  const displayAvatar = isGroup ? thread.avatar_url : otherParticipant?.profile?.avatar_url;
+  const canDeleteChat = !isGroup || (!!currentUser && !!thread.admin_ids?.includes(currentUser.id));
+  // Everyone other than its sender who has read the latest message
+  const lastMessage = messages[messages.length - 1];
+  const seenBy = lastMessage
+    ? thread.participants.filter(
+        (participant) =>
+          participant.id !== lastMessage.user_id &&
+          lastMessage.reads?.some((read) => read.user_id === participant.id)
+      )
+    : [];
 
   return (
     <Layout title={displayName}>
@@ -327,9 +771,9 @@ export default function ChatView() {
               ← Back
             </button>
             <div className="flex items-center gap-3 flex-1 min-w-0">
-              {otherParticipant?.profile?.avatar_url ? (
+              {displayAvatar ? (
                 <Image
-                  src={otherParticipant.profile.avatar_url}
+                  src={displayAvatar}
                   alt={displayName}
                   width={40}
                   height={40}
@@ -341,54 +785,136 @@ export default function ChatView() {
                 </div>
               )}
               <div className="min-w-0 flex-1 overflow-hidden">
-                <p className="font-semibold text-gray-900 truncate">{displayName}</p>
+                {isGroup ? (
+                  <Link href={`/chats/${activeThreadId}/group`} className="block">
+                    <p className="font-semibold text-gray-900 truncate">{displayName}</p>
+                    <p className="text-xs text-gray-500">
+                      {thread.participants.length + 1} members · tap for group info
+                    </p>
+                  </Link>
+                ) : (
+                  <p className="font-semibold text-gray-900 truncate">{displayName}</p>
+                )}
                 {typingUsers.size > 0 && (
                   <p className="text-xs text-gray-500">typing...</p>
                 )}
               </div>
             </div>
-            {/* Call Buttons and Delete Chat */}
-            <div className="flex gap-2 flex-shrink-0">
-              {thread.type === '1:1' && (
-                <>
-                  <button
-                    onClick={() => router.push(`/chats/${activeThreadId}/call?type=voice`)}
-                    className="p-2 text-green-600 hover:bg-green-50 rounded-full transition-colors"
-                    title="Voice Call"
-                  >
-                    📞
-                  </button>
-                  <button
-                    onClick={() => router.push(`/chats/${activeThreadId}/call?type=video`)}
-                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
-                    title="Video Call"
-                  >
-                    📹
-                  </button>
-                </>
-              )}
+            {/* Search, Jump to Date, Call Buttons and Delete Chat */}
+            <div className="flex gap-2 flex-shrink-0 items-center">
+              <button
+                onClick={() => router.push(`/chats/search?thread=${activeThreadId}`)}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                title="Search in Chat"
+              >
+                🔍
+              </button>
+              <input
+                type="date"
+                value={jumpDate}
+                max={new Date().toISOString().slice(0, 10)}
+                onChange={(e) => jumpToDate(e.target.value)}
+                disabled={isJumping}
+                className="w-9 sm:w-auto text-xs text-gray-600 border border-gray-300 rounded-lg px-1 py-1"
+                title="Jump to date"
+              />
+              <button
+                onClick={() => router.push(`/chats/${activeThreadId}/call?type=voice`)}
+                className="p-2 text-green-600 hover:bg-green-50 rounded-full transition-colors"
+                title="Voice Call"
+              >
+                📞
+              </button>
               <button
-                onClick={handleDeleteChat}
-                className="p-2 text-red-600 hover:bg-red-50 rounded-full transition-colors"
-                title="Delete Chat"
+                onClick={() => router.push(`/chats/${activeThreadId}/call?type=video`)}
+                className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                title="Video Call"
               >
-                🗑️
+                📹
               </button>
+              {canDeleteChat && (
+                <button
+                  onClick={handleDeleteChat}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                  title="Delete Chat"
+                >
+                  🗑️
+                </button>
+              )}
             </div>
           </div>
 
+          {isGroup && (
+            <GroupCallBanner
+              threadId={thread.id}
+              members={thread.participants}
+              currentUserId={currentUser?.id}
+            />
+          )}
+
           {/* Messages */}
-          <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
-            {messages.map((msg: any) => {
+          <div
+            ref={scrollContainerRef}
+            onScroll={handleMessagesScroll}
+            className="flex-1 overflow-y-auto px-4 py-4 space-y-4"
+          >
+            {isFetchingOlderMessages || isJumping ? (
+              <div className="flex justify-center">
+                <LoadingSpinner size="sm" />
+              </div>
+            ) : (
+              !hasOlderMessages &&
+              messages.length > 0 && (
+                <p className="text-center text-xs text-gray-400">Beginning of conversation</p>
+              )
+            )}
+            {messages.map((msg) => {
+              // Observed by the mark-as-read effect
+              const unreadId =
+                msg.user_id !== currentUser?.id &&
+                !msg.reads?.some((read) => read.user_id === currentUser?.id)
+                  ? msg.id
+                  : undefined;
+
+              if (msg.type === 'system') {
+                return (
+                  <div
+                    key={msg.id}
+                    id={`message-${msg.id}`}
+                    data-unread-message={unreadId}
+                    className="flex justify-center"
+                  >
+                    <p className="text-xs text-gray-500 bg-gray-100 rounded-full px-3 py-1 text-center">
+                      {msg.content}
+                    </p>
+                  </div>
+                );
+              }
+
+              if (msg.type === 'call') {
+                return (
+                  <div
+                    key={msg.id}
+                    id={`message-${msg.id}`}
+                    data-unread-message={unreadId}
+                    className="flex justify-center"
+                  >
+                    <CallLogEntry message={msg} currentUserId={currentUser?.id} />
+                  </div>
+                );
+              }
+
               const isOwn = msg.user_id === currentUser?.id;
-              const decryptedContent = msg.encrypted
-                ? decryptMessage(msg.content)
-                : msg.content;
+              const reactionGroups = groupReactions(msg.reactions || [], currentUser?.id);
 
               return (
                 <div
                   key={msg.id}
-                  className={`flex ${isOwn ? 'justify-end' : 'justify-start'} group`}
+                  id={`message-${msg.id}`}
+                  data-unread-message={unreadId}
+                  className={`flex ${isOwn ? 'justify-end' : 'justify-start'} group ${
+                    highlightedMessage === msg.id ? 'rounded-lg ring-2 ring-yellow-300' : ''
+                  }`}
                 >
                   <div className="relative">
                     <div
@@ -403,7 +929,23 @@ export default function ChatView() {
                           {msg.user.full_name}
                         </p>
                       )}
-                      <p className="text-sm whitespace-pre-wrap">{decryptedContent}</p>
+                      {msg.reply_to_id && (
+                        <div
+                          className={`mb-2 pl-2 border-l-2 text-xs ${
+                            isOwn ? 'border-blue-200 text-blue-100' : 'border-gray-300 text-gray-500'
+                          }`}
+                        >
+                          {msg.reply_to ? (
+                            <>
+                              <p className="font-medium">{msg.reply_to.user.full_name}</p>
+                              <p className="truncate">{msg.reply_to.content}</p>
+                            </>
+                          ) : (
+                            <p className="italic">Original message was deleted</p>
+                          )}
+                        </div>
+                      )}
+                      <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
                       {msg.media_urls && Array.isArray(msg.media_urls) && (
                         <div className="mt-2 space-y-2">
                           {(msg.media_urls as string[]).map((url, idx) => (
@@ -429,22 +971,137 @@ export default function ChatView() {
                             hour: '2-digit',
                             minute: '2-digit',
                           })}
+                          {msg.edited_at && ' · edited'}
                         </p>
-                        {isOwn && (
+                        <div className="flex items-center ml-2 gap-1 text-xs opacity-0 group-hover:opacity-100 transition-opacity">
                           <button
-                            onClick={() => handleDeleteMessage(msg.id)}
-                            className="ml-2 text-xs opacity-0 group-hover:opacity-100 transition-opacity hover:text-red-500"
-                            title="Delete message"
+                            onClick={() =>
+                              setReactionPickerFor(reactionPickerFor === msg.id ? null : msg.id)
+                            }
+                            title="React"
                           >
-                            🗑️
+                            🙂
+                          </button>
+                          <button onClick={() => startReply(msg)} title="Reply">
+                            ↩️
                           </button>
-                        )}
+                          {isOwn && (
+                            <>
+                              <button onClick={() => startEdit(msg)} title="Edit message">
+                                ✏️
+                              </button>
+                              <button
+                                onClick={() => handleDeleteMessage(msg.id)}
+                                className="hover:text-red-500"
+                                title="Delete message"
+                              >
+                                🗑️
+                              </button>
+                            </>
+                          )}
+                        </div>
                       </div>
                     </div>
+                    {reactionPickerFor === msg.id && (
+                      <div
+                        className={`absolute z-10 -top-10 ${
+                          isOwn ? 'right-0' : 'left-0'
+                        } flex gap-1 bg-white border border-gray-200 rounded-full shadow px-2 py-1`}
+                      >
+                        {QUICK_REACTIONS.map((emoji) => (
+                          <button
+                            key={emoji}
+                            onClick={() => handleReact(msg.id, emoji)}
+                            className="text-lg hover:scale-125 transition-transform"
+                          >
+                            {emoji}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {reactionGroups.length > 0 && (
+                      <div className={`flex flex-wrap gap-1 mt-1 ${isOwn ? 'justify-end' : ''}`}>
+                        {reactionGroups.map((group) => (
+                          <button
+                            key={group.emoji}
+                            onClick={() => handleReact(msg.id, group.emoji)}
+                            className={`px-2 py-0.5 rounded-full border text-xs ${
+                              group.reacted
+                                ? 'bg-blue-50 border-blue-300'
+                                : 'bg-white border-gray-200'
+                            }`}
+                          >
+                            {group.emoji} {group.count}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               );
             })}
+            {seenBy.length > 0 && (
+              <div
+                className="flex justify-end items-center gap-1"
+                title={`Seen by ${seenBy.map((participant) => participant.full_name).join(', ')}`}
+              >
+                <span className="text-xs text-gray-400 mr-1">Seen</span>
+                {seenBy.map((participant) =>
+                  participant.profile?.avatar_url ? (
+                    <Image
+                      key={participant.id}
+                      src={participant.profile.avatar_url}
+                      alt={participant.full_name}
+                      width={16}
+                      height={16}
+                      className="rounded-full"
+                    />
+                  ) : (
+                    <div
+                      key={participant.id}
+                      className="w-4 h-4 rounded-full bg-gray-300 text-[9px] text-gray-700 flex items-center justify-center"
+                    >
+                      {participant.full_name.charAt(0)}
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+            {pendingMessages.map((entry) => (
+              <div key={entry.client_id} className="flex justify-end">
+                <div
+                  className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg bg-blue-600 text-white ${
+                    entry.status === 'sending' ? 'opacity-60' : ''
+                  }`}
+                >
+                  <p className="text-sm whitespace-pre-wrap">{entry.content}</p>
+                  {entry.media.length > 0 && (
+                    <p className="text-xs mt-1 opacity-75">
+                      📎 {entry.media.length} attachment{entry.media.length === 1 ? '' : 's'}
+                    </p>
+                  )}
+                  {entry.status === 'sending' ? (
+                    <p className="text-xs opacity-75 mt-1">Sending…</p>
+                  ) : (
+                    <div className="flex items-center gap-2 mt-1 text-xs">
+                      <span className="opacity-75">{entry.error || 'Not sent'}</span>
+                      <button
+                        onClick={() => retryMessage(entry.client_id)}
+                        className="underline"
+                      >
+                        Retry
+                      </button>
+                      <button
+                        onClick={() => discardMessage(entry.client_id)}
+                        className="underline"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
             <div ref={messagesEndRef} />
           </div>
 
@@ -508,6 +1165,24 @@ export default function ChatView() {
                 </Button>
               </Link>
             </div>
+            {(replyTo || editingMessage) && (
+              <div className="flex items-center gap-2 mb-2 pl-2 border-l-2 border-blue-500 text-xs text-gray-600 min-w-0">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {editingMessage ? 'Editing message' : `Replying to ${replyTo?.user.full_name}`}
+                  </p>
+                  <p className="truncate">{(editingMessage || replyTo)?.content}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={cancelComposerMode}
+                  className="flex-shrink-0 text-gray-500 hover:text-gray-700"
+                  title="Cancel"
+                >
+                  ×
+                </button>
+              </div>
+            )}
             <form onSubmit={handleSend} className="flex items-center gap-1.5 sm:gap-2 min-w-0">
               <input
                 ref={fileInputRef}
@@ -517,14 +1192,16 @@ export default function ChatView() {
                 onChange={handleFileSelect}
                 className="hidden"
               />
-              <button
-                type="button"
-                onClick={() => fileInputRef.current?.click()}
-                className="flex-shrink-0 w-9 h-9 sm:w-10 sm:h-10 flex items-center justify-center rounded-lg border border-gray-300 hover:bg-gray-50 text-gray-600 text-sm sm:text-base"
-                title="Attach media"
-              >
-                📎
-              </button>
+              {!editingMessage && (
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex-shrink-0 w-9 h-9 sm:w-10 sm:h-10 flex items-center justify-center rounded-lg border border-gray-300 hover:bg-gray-50 text-gray-600 text-sm sm:text-base"
+                  title="Attach media"
+                >
+                  📎
+                </button>
+              )}
               <input
                 type="text"
                 value={message}
@@ -535,10 +1212,14 @@ export default function ChatView() {
               <Button
                 type="submit"
                 variant="primary"
-                disabled={(!message.trim() && mediaFiles.length === 0) || sendMutation.isPending}
+                disabled={
+                  editingMessage
+                    ? !message.trim() || editMutation.isPending
+                    : !message.trim() && mediaFiles.length === 0
+                }
                 className="flex-shrink-0 px-3 sm:px-4 py-2 text-xs sm:text-sm whitespace-nowrap"
               >
-                Send
+                {editingMessage ? 'Save' : 'Send'}
               </Button>
             </form>
           </div>
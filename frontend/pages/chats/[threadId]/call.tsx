@@ -1,11 +1,14 @@
 import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/router';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import Layout from '../../../components/Layout';
-import { liveAPI } from '../../../lib/api';
+import CallParticipantGrid from '../../../components/CallParticipantGrid';
+import type { CallTile } from '../../../components/CallParticipantGrid';
+import { chatsAPI, liveAPI } from '../../../lib/api';
 import { getUser } from '../../../lib/auth';
-import { useDaily } from '../../../hooks/useDaily';
-import { getSocket } from '../../../lib/socket';
+import { useRtcSession } from '../../../hooks/useRtcSession';
+import { useSocketEvent } from '../../../lib/socket';
 import Button from '../../../components/Button';
 import LoadingSpinner from '../../../components/LoadingSpinner';
 
@@ -14,8 +17,6 @@ export default function CallView() {
   const { threadId, type, sessionId } = router.query;
   const currentUser = getUser();
   const queryClient = useQueryClient();
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRefs = useRef<Map<string, HTMLVideoElement>>(new Map());
   const remoteAudioRefs = useRef<Map<string, HTMLAudioElement>>(new Map());
   const [isInCall, setIsInCall] = useState(false);
   const [shouldStart, setShouldStart] = useState(false);
@@ -31,6 +32,13 @@ export default function CallView() {
   const isVideo = callMode === 'video';
   const callType = isVideo ? 'video' : 'voice';
 
+  const { data: threadsData } = useQuery({
+    queryKey: ['chatThreads'],
+    queryFn: () => chatsAPI.getThreads(),
+  });
+  // Group calls are joined and left at will; nobody rings or answers
+  const isGroup = threadsData?.threads.find((thread) => thread.id === threadId)?.type === 'group';
+
   // If sessionId is provided, join existing session (call was accepted)
   // Otherwise, create new session (initiating call)
   const { data: sessionData, isLoading } = useQuery({
@@ -41,11 +49,21 @@ export default function CallView() {
         return liveAPI.joinSession(sessionId);
       } else {
         // Creating new call - this will send notification to other participant
-        return liveAPI.createSession({
-          type: callType,
-          title: `Call with thread ${threadId}`,
-          thread_id: threadId as string, // Pass thread_id for call notifications
-        });
+        try {
+          return await liveAPI.createSession({
+            type: callType,
+            title: `Call with thread ${threadId}`,
+            thread_id: threadId as string, // Pass thread_id for call notifications
+          });
+        } catch (error) {
+          // A group chat has one call at a time; join the one in progress
+          const ongoingId =
+            isAxiosError(error) && error.response?.status === 409 ? error.response.data?.sessionId : null;
+          if (ongoingId) {
+            return liveAPI.joinSession(ongoingId);
+          }
+          throw error;
+        }
       }
     },
     enabled: !!threadId,
@@ -61,13 +79,9 @@ export default function CallView() {
   }, [sessionId, sessionData, shouldStart, isLoading]);
 
   // Listen for call status updates via Socket.io
-  useEffect(() => {
-    if (!threadId || typeof window === 'undefined') return;
-
-    const socket = getSocket();
-
-    // Listen for call accepted
-    socket.on('call.accepted', (data: any) => {
+  useSocketEvent(
+    'call.accepted',
+    (data) => {
       if (sessionData?.session?.id === data.sessionId) {
         setCallStatus('accepted');
         // Auto-start the call when accepted (for the caller)
@@ -75,10 +89,13 @@ export default function CallView() {
           setShouldStart(true);
         }
       }
-    });
+    },
+    !!threadId
+  );
 
-    // Listen for call rejected
-    socket.on('call.rejected', (data: any) => {
+  useSocketEvent(
+    'call.rejected',
+    (data) => {
       if (sessionData?.session?.id === data.sessionId) {
         setCallStatus('rejected');
         // Show rejection message and go back
@@ -86,10 +103,13 @@ export default function CallView() {
           router.push(`/chats/${threadId}`);
         }, 2000);
       }
-    });
+    },
+    !!threadId
+  );
 
-    // Listen for call ended
-    socket.on('call.ended', (data: any) => {
+  useSocketEvent(
+    'call.ended',
+    (data) => {
       if (sessionData?.session?.id === data.sessionId) {
         setCallStatus('ended');
         // Navigate back after a delay
@@ -97,22 +117,29 @@ export default function CallView() {
           router.push(`/chats/${threadId}`);
         }, 1000);
       }
-    });
-
-    return () => {
-      socket.off('call.accepted');
-      socket.off('call.rejected');
-      socket.off('call.ended');
-    };
-  }, [threadId, sessionData, shouldStart, router]);
+    },
+    !!threadId
+  );
 
-  // Only start Daily.co when user clicks the start button
+  // Only connect when user clicks the start button
   // This ensures permission request happens in response to user click
-  const { isConnected, isConnecting, error, needsPermission, localVideoTrack, participants, callObject, requestPermissions } = useDaily(
+  const {
+    isConnected,
+    isConnecting,
+    error,
+    needsPermission,
+    localVideoTrack,
+    localSessionId,
+    activeSpeakerId,
+    participants,
+    leave,
+    requestPermissions,
+  } = useRtcSession(
     sessionData && shouldStart
       ? {
           roomUrl: sessionData.roomUrl || '',
           token: sessionData.token || null,
+          userName: currentUser?.full_name,
           enableVideo: isVideo, // Enable video only for video calls
           enableAudio: true, // Always enable audio for calls
         }
@@ -124,56 +151,11 @@ export default function CallView() {
         }
   );
 
-  // Render local video track
-  useEffect(() => {
-    if (localVideoTrack && localVideoRef.current && isVideo) {
-      const videoElement = localVideoRef.current;
-      const stream = new MediaStream([localVideoTrack]);
-      videoElement.srcObject = stream;
-      videoElement.play().catch((err) => {
-        console.error('Failed to play local video', err);
-      });
-
-      return () => {
-        videoElement.srcObject = null;
-      };
-    }
-  }, [localVideoTrack, isVideo]);
-
-  // Render remote participant video tracks
-  useEffect(() => {
-    if (!isVideo) return;
-
-    participants.forEach((participant) => {
-      if (participant.videoTrack) {
-        const videoElement = remoteVideoRefs.current.get(participant.session_id);
-        if (videoElement) {
-          // Create a new MediaStream with the track
-          const stream = new MediaStream([participant.videoTrack]);
-          
-          // Only update if the srcObject is different to avoid unnecessary re-renders
-          if (videoElement.srcObject !== stream) {
-            videoElement.srcObject = stream;
-            videoElement.play().catch((err) => {
-              console.error('Failed to play remote video', err);
-            });
-          }
-        }
-      } else {
-        // Clear video element if track is gone
-        const videoElement = remoteVideoRefs.current.get(participant.session_id);
-        if (videoElement) {
-          videoElement.srcObject = null;
-        }
-      }
-    });
-  }, [participants, isVideo]);
-
   // Play remote audio tracks - properly managed with refs
   useEffect(() => {
     participants.forEach((participant) => {
       if (participant.audioTrack) {
-        let audioElement = remoteAudioRefs.current.get(participant.session_id);
+        let audioElement = remoteAudioRefs.current.get(participant.id);
         
         // Create audio element if it doesn't exist
         if (!audioElement) {
@@ -183,7 +165,7 @@ export default function CallView() {
           // Hide audio element
           audioElement.style.display = 'none';
           document.body.appendChild(audioElement);
-          remoteAudioRefs.current.set(participant.session_id, audioElement);
+          remoteAudioRefs.current.set(participant.id, audioElement);
         }
 
         // Attach track to audio element
@@ -194,17 +176,17 @@ export default function CallView() {
         });
       } else {
         // Remove audio element if track is gone
-        const audioElement = remoteAudioRefs.current.get(participant.session_id);
+        const audioElement = remoteAudioRefs.current.get(participant.id);
         if (audioElement) {
           audioElement.srcObject = null;
           audioElement.remove();
-          remoteAudioRefs.current.delete(participant.session_id);
+          remoteAudioRefs.current.delete(participant.id);
         }
       }
     });
 
     // Clean up audio elements for participants that left
-    const currentParticipantIds = new Set(participants.map(p => p.session_id));
+    const currentParticipantIds = new Set(participants.map(p => p.id));
     remoteAudioRefs.current.forEach((audioElement, sessionId) => {
       if (!currentParticipantIds.has(sessionId)) {
         audioElement.srcObject = null;
@@ -227,16 +209,9 @@ export default function CallView() {
     setIsInCall(isConnected);
   }, [isConnected]);
 
-  // Cleanup audio/video elements on unmount
+  // Cleanup audio elements on unmount
   useEffect(() => {
     return () => {
-      // Clean up all remote video elements
-      remoteVideoRefs.current.forEach((videoElement) => {
-        videoElement.srcObject = null;
-        videoElement.remove();
-      });
-      remoteVideoRefs.current.clear();
-
       // Clean up all remote audio elements
       remoteAudioRefs.current.forEach((audioElement) => {
         audioElement.srcObject = null;
@@ -246,6 +221,32 @@ export default function CallView() {
     };
   }, []);
 
+  // Leaving the page leaves a group call; the last one out ends it
+  const callId = sessionData?.session?.id;
+  useEffect(() => {
+    if (!isGroup || !callId) return;
+
+    return () => {
+      liveAPI.leaveSession(callId).catch((err) => {
+        console.error('Failed to leave call', err);
+      });
+    };
+  }, [isGroup, callId]);
+
+  const tiles: CallTile[] = [
+    {
+      id: localSessionId || 'local',
+      name: `${currentUser?.full_name || 'You'} (you)`,
+      videoTrack: isVideo ? localVideoTrack : null,
+      isLocal: true,
+    },
+    ...participants.map((participant) => ({
+      id: participant.id,
+      name: participant.name,
+      videoTrack: isVideo ? participant.videoTrack : null,
+    })),
+  ];
+
   const endCallMutation = useMutation({
     mutationFn: () => liveAPI.endSession(sessionData?.session?.id || ''),
     onSuccess: () => {
@@ -266,47 +267,13 @@ export default function CallView() {
   return (
     <Layout title={`${isVideo ? 'Video' : 'Voice'} Call - Kartess`}>
       <div className="min-h-screen bg-black relative">
-        {/* Local video (host) */}
-        {isVideo && localVideoTrack && isInCall && (
-          <video
-            ref={localVideoRef}
-            className="w-full h-screen object-cover"
-            autoPlay
-            playsInline
-            muted
-          />
+        {/* Everyone in the call */}
+        {isInCall && (
+          <div className="min-h-screen flex items-center pb-28">
+            <CallParticipantGrid tiles={tiles} activeSpeakerId={activeSpeakerId} />
+          </div>
         )}
 
-        {/* Remote participants video */}
-        {isVideo && participants.map((participant) => {
-          // Only render if participant has a video track
-          if (!participant.videoTrack) return null;
-          
-          return (
-            <video
-              key={participant.session_id}
-              ref={(el) => {
-                if (el) {
-                  remoteVideoRefs.current.set(participant.session_id, el);
-                  // Attach track immediately when element is mounted
-                  if (participant.videoTrack) {
-                    const stream = new MediaStream([participant.videoTrack]);
-                    el.srcObject = stream;
-                    el.play().catch((err) => {
-                      console.error('Failed to play remote video on mount', err);
-                    });
-                  }
-                } else {
-                  remoteVideoRefs.current.delete(participant.session_id);
-                }
-              }}
-              className="w-full h-screen object-cover absolute inset-0"
-              autoPlay
-              playsInline
-            />
-          );
-        })}
-
         {/* Start button - show before connection */}
         {!shouldStart && sessionData && !isLoading && !error && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/80 z-50">
@@ -347,7 +314,11 @@ export default function CallView() {
               ) : (
                 <>
                   <h2 className="text-2xl font-bold mb-4">
-                    {isVideo ? 'Start Video Call?' : 'Start Voice Call?'}
+                    {isGroup
+                      ? `Join Group ${isVideo ? 'Video' : 'Voice'} Call?`
+                      : isVideo
+                      ? 'Start Video Call?'
+                      : 'Start Voice Call?'}
                   </h2>
                   <p className="text-gray-300 mb-6">
                     {isVideo 
@@ -358,11 +329,11 @@ export default function CallView() {
                     variant="primary"
                     onClick={() => {
                       setShouldStart(true);
-                      setCallStatus('ringing');
+                      setCallStatus(isGroup ? 'accepted' : 'ringing');
                     }}
                     className={`px-8 py-3 text-lg z-10 relative ${isVideo ? 'bg-blue-600' : 'bg-green-600'}`}
                   >
-                    {isVideo ? '📹 Start Video Call' : '📞 Start Voice Call'}
+                    {isGroup ? '📞 Join Call' : isVideo ? '📹 Start Video Call' : '📞 Start Voice Call'}
                   </Button>
                   <Button
                     variant="secondary"
@@ -404,20 +375,23 @@ export default function CallView() {
         {isConnected && (
           <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6 z-30">
             <div className="flex items-center justify-center gap-4">
-              <Button
-                variant="primary"
-                onClick={() => {
-                  endCallMutation.mutate();
-                  callObject?.leave();
-                }}
-                className="bg-red-600"
-              >
-                End Call
-              </Button>
+              {/* In a group only the caller can end the call for everyone */}
+              {(!isGroup || sessionData?.session?.host_id === currentUser?.id) && (
+                <Button
+                  variant="primary"
+                  onClick={() => {
+                    endCallMutation.mutate();
+                    leave();
+                  }}
+                  className="bg-red-600"
+                >
+                  {isGroup ? 'End for Everyone' : 'End Call'}
+                </Button>
+              )}
               <Button
                 variant="secondary"
                 onClick={() => {
-                  callObject?.leave();
+                  leave();
                   router.back();
                 }}
               >
@@ -463,18 +437,6 @@ export default function CallView() {
             </div>
           </div>
         )}
-
-        {!isVideo && isConnected && (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="text-center text-white">
-              <div className="w-32 h-32 rounded-full bg-blue-600 mx-auto mb-4 flex items-center justify-center text-4xl">
-                {currentUser?.full_name?.charAt(0) || 'U'}
-              </div>
-              <p className="text-xl font-semibold">{currentUser?.full_name || 'User'}</p>
-              <p className="text-gray-400">Voice Call</p>
-            </div>
-          </div>
-        )}
       </div>
     </Layout>
   );
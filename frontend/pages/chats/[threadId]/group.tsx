@@ -0,0 +1,370 @@
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Image from 'next/image';
+import Layout from '../../../components/Layout';
+import BottomNav from '../../../components/BottomNav';
+import LoadingSpinner from '../../../components/LoadingSpinner';
+import Button from '../../../components/Button';
+import Input from '../../../components/Input';
+import ConfirmModal from '../../../components/ConfirmModal';
+import ContactPicker from '../../../components/ContactPicker';
+import { chatsAPI, profileAPI } from '../../../lib/api';
+import { getUser } from '../../../lib/auth';
+import type { GroupDetails } from '../../../types';
+
+export default function GroupSettings() {
+  const router = useRouter();
+  const { threadId } = router.query;
+  const activeThreadId =
+    typeof threadId === 'string'
+      ? threadId
+      : Array.isArray(threadId)
+      ? threadId[0]
+      : undefined;
+  const queryClient = useQueryClient();
+  const currentUser = getUser();
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const [editedName, setEditedName] = useState<string | null>(null);
+  const [showAddMembers, setShowAddMembers] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['chatGroup', activeThreadId],
+    queryFn: () => chatsAPI.getGroup(activeThreadId as string),
+    enabled: !!activeThreadId,
+  });
+
+  const thread = data?.thread;
+  const members = data?.members || [];
+  const adminIds = thread?.admin_ids || [];
+  const isAdmin = !!currentUser && adminIds.includes(currentUser.id);
+
+  const applyDetails = (details: GroupDetails) => {
+    queryClient.setQueryData(['chatGroup', activeThreadId], details);
+    queryClient.invalidateQueries({ queryKey: ['chatThreads'] });
+  };
+
+  const onMutationError = (error: any) => {
+    alert(error?.response?.data?.error || 'Failed to update group');
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: (name: string) => chatsAPI.updateGroup(activeThreadId as string, { name }),
+    onSuccess: (details) => {
+      applyDetails(details);
+      setEditedName(null);
+    },
+    onError: onMutationError,
+  });
+
+  const avatarMutation = useMutation({
+    mutationFn: async (file: File | null) => {
+      const avatar_url = file ? (await profileAPI.uploadAvatar(file)).avatar_url : null;
+      return chatsAPI.updateGroup(activeThreadId as string, { avatar_url });
+    },
+    onSuccess: applyDetails,
+    onError: onMutationError,
+  });
+
+  const addMembersMutation = useMutation({
+    mutationFn: () => chatsAPI.addParticipants(activeThreadId as string, selectedIds),
+    onSuccess: (details) => {
+      applyDetails(details);
+      setSelectedIds([]);
+      setShowAddMembers(false);
+    },
+    onError: onMutationError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => chatsAPI.removeParticipant(activeThreadId as string, userId),
+    onSuccess: applyDetails,
+    onError: onMutationError,
+  });
+
+  const adminMutation = useMutation({
+    mutationFn: ({ userId, admin }: { userId: string; admin: boolean }) =>
+      admin
+        ? chatsAPI.addAdmin(activeThreadId as string, userId)
+        : chatsAPI.removeAdmin(activeThreadId as string, userId),
+    onSuccess: applyDetails,
+    onError: onMutationError,
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: () => chatsAPI.leaveGroup(activeThreadId as string, currentUser?.id as string),
+    onSuccess: () => {
+      setShowLeaveConfirm(false);
+      queryClient.removeQueries({ queryKey: ['chatGroup', activeThreadId] });
+      queryClient.invalidateQueries({ queryKey: ['chatThreads'] });
+      router.push('/chats');
+    },
+    onError: onMutationError,
+  });
+
+  const handleAvatarSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      avatarMutation.mutate(file);
+    }
+    e.target.value = '';
+  };
+
+  const toggleSelected = (userId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    );
+  };
+
+  if (!router.isReady || isLoading) {
+    return (
+      <Layout title="Group - Kartess">
+        <div className="min-h-screen bg-gray-50 pb-20 flex items-center justify-center">
+          <LoadingSpinner size="lg" />
+        </div>
+        <BottomNav />
+      </Layout>
+    );
+  }
+
+  if (error || !thread) {
+    return (
+      <Layout title="Group - Kartess">
+        <div className="min-h-screen bg-gray-50 pb-20 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <p className="text-gray-500">Group not found.</p>
+            <Button variant="primary" onClick={() => router.push('/chats')}>
+              Back to Messages
+            </Button>
+          </div>
+        </div>
+        <BottomNav />
+      </Layout>
+    );
+  }
+
+  const groupName = thread.name || 'Group';
+
+  return (
+    <Layout title={`${groupName} - Kartess`}>
+      <div className="min-h-screen bg-gray-50 pb-20">
+        <div className="bg-white border-b border-gray-200 px-4 py-3 flex items-center gap-3">
+          <button onClick={() => router.back()} className="text-gray-600">
+            ← Back
+          </button>
+          <h1 className="text-lg font-semibold text-gray-900">Group info</h1>
+        </div>
+
+        {/* Name and avatar */}
+        <div className="bg-white border-b border-gray-200 px-4 py-6 flex flex-col items-center gap-3">
+          <div className="w-24 h-24 rounded-full bg-gray-200 overflow-hidden flex items-center justify-center text-3xl text-gray-500">
+            {thread.avatar_url ? (
+              <Image
+                src={thread.avatar_url}
+                alt={groupName}
+                width={96}
+                height={96}
+                className="object-cover w-full h-full"
+              />
+            ) : (
+              groupName.charAt(0).toUpperCase()
+            )}
+          </div>
+          {isAdmin && (
+            <div className="flex gap-2">
+              <input
+                ref={avatarInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleAvatarSelect}
+                className="hidden"
+              />
+              <Button
+                variant="secondary"
+                onClick={() => avatarInputRef.current?.click()}
+                disabled={avatarMutation.isPending}
+                className="text-sm"
+              >
+                {avatarMutation.isPending ? 'Uploading...' : 'Change photo'}
+              </Button>
+              {thread.avatar_url && (
+                <Button
+                  variant="secondary"
+                  onClick={() => avatarMutation.mutate(null)}
+                  disabled={avatarMutation.isPending}
+                  className="text-sm"
+                >
+                  Remove photo
+                </Button>
+              )}
+            </div>
+          )}
+
+          {editedName !== null ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (editedName.trim()) renameMutation.mutate(editedName.trim());
+              }}
+              className="w-full max-w-sm flex gap-2"
+            >
+              <Input
+                type="text"
+                value={editedName}
+                onChange={(e) => setEditedName(e.target.value)}
+                maxLength={100}
+                autoFocus
+              />
+              <Button
+                type="submit"
+                variant="primary"
+                disabled={!editedName.trim() || renameMutation.isPending}
+              >
+                Save
+              </Button>
+              <Button type="button" variant="secondary" onClick={() => setEditedName(null)}>
+                Cancel
+              </Button>
+            </form>
+          ) : (
+            <div className="flex items-center gap-2">
+              <p className="text-xl font-semibold text-gray-900">{groupName}</p>
+              {isAdmin && (
+                <button
+                  onClick={() => setEditedName(groupName)}
+                  className="text-gray-500 hover:text-gray-700"
+                  title="Rename group"
+                >
+                  ✏️
+                </button>
+              )}
+            </div>
+          )}
+          <p className="text-sm text-gray-500">{members.length} members</p>
+        </div>
+
+        {/* Members */}
+        <div className="px-4 py-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold text-gray-900">Members</h2>
+            {isAdmin && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowAddMembers(!showAddMembers)}
+                className="text-sm"
+              >
+                {showAddMembers ? 'Cancel' : '+ Add members'}
+              </Button>
+            )}
+          </div>
+
+          {showAddMembers && (
+            <div className="space-y-3">
+              <ContactPicker
+                selectedIds={selectedIds}
+                onToggle={toggleSelected}
+                excludeIds={members.map((member) => member.id)}
+              />
+              <Button
+                variant="primary"
+                onClick={() => addMembersMutation.mutate()}
+                disabled={selectedIds.length === 0 || addMembersMutation.isPending}
+                className="w-full"
+              >
+                {addMembersMutation.isPending ? 'Adding...' : `Add ${selectedIds.length || ''}`}
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {members.map((member) => {
+              const memberIsAdmin = adminIds.includes(member.id);
+              const isSelf = member.id === currentUser?.id;
+
+              return (
+                <div
+                  key={member.id}
+                  className="bg-white rounded-lg shadow-sm border border-gray-200 p-3 flex items-center gap-3"
+                >
+                  {member.profile?.avatar_url ? (
+                    <Image
+                      src={member.profile.avatar_url}
+                      alt={member.full_name}
+                      width={40}
+                      height={40}
+                      className="rounded-full"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center">
+                      {member.full_name.charAt(0)}
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">
+                      {member.full_name}
+                      {isSelf && ' (you)'}
+                    </p>
+                    <p className="text-sm text-gray-500">@{member.username}</p>
+                  </div>
+                  {memberIsAdmin && (
+                    <span className="text-xs font-medium text-blue-700 bg-blue-50 px-2 py-0.5 rounded-full">
+                      Admin
+                    </span>
+                  )}
+                  {isAdmin && !isSelf && (
+                    <div className="flex gap-2 text-xs">
+                      <button
+                        onClick={() => adminMutation.mutate({ userId: member.id, admin: !memberIsAdmin })}
+                        disabled={adminMutation.isPending}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {memberIsAdmin ? 'Remove admin' : 'Make admin'}
+                      </button>
+                      <button
+                        onClick={() => removeMemberMutation.mutate(member.id)}
+                        disabled={removeMemberMutation.isPending}
+                        className="text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={() => setShowLeaveConfirm(true)}
+            className="w-full text-red-600 border-red-300"
+          >
+            Leave group
+          </Button>
+        </div>
+      </div>
+
+      <BottomNav />
+
+      <ConfirmModal
+        isOpen={showLeaveConfirm}
+        title="Leave group?"
+        message="You will stop receiving messages from this group. An admin can add you back later."
+        confirmText={leaveMutation.isPending ? 'Leaving...' : 'Leave'}
+        confirmVariant="danger"
+        onCancel={() => {
+          if (!leaveMutation.isPending) {
+            setShowLeaveConfirm(false);
+          }
+        }}
+        onConfirm={() => {
+          if (!leaveMutation.isPending) {
+            leaveMutation.mutate();
+          }
+        }}
+      />
+    </Layout>
+  );
+}
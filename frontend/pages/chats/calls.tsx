@@ -0,0 +1,107 @@
+import { useRouter } from 'next/router';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import Layout from '../../components/Layout';
+import BottomNav from '../../components/BottomNav';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { liveAPI } from '../../lib/api';
+import { callBackHref, describeCall, formatCallDuration } from '../../lib/calls';
+import type { CallHistoryEntry } from '../../types';
+
+function callDisplayName(call: CallHistoryEntry): string {
+  return call.thread.type === 'group'
+    ? call.thread.name || 'Group'
+    : call.thread.participants[0]?.full_name || 'Unknown';
+}
+
+export default function CallHistory() {
+  const router = useRouter();
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery({
+    queryKey: ['callHistory'],
+    queryFn: ({ pageParam }: { pageParam: string | undefined }) =>
+      liveAPI.getCallHistory({ cursor: pageParam }),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    initialPageParam: undefined,
+  });
+
+  const calls = data?.pages.flatMap((page) => page.calls) || [];
+
+  return (
+    <Layout title="Calls - Kartess">
+      <div className="min-h-screen bg-gray-50 pb-20">
+        <div className="sticky top-0 bg-white border-b border-gray-200 z-10 px-4 py-3">
+          <div className="flex items-center gap-3">
+            <button onClick={() => router.back()} className="text-gray-600">
+              ← Back
+            </button>
+            <h1 className="text-lg font-semibold text-gray-900">Calls</h1>
+          </div>
+        </div>
+
+        <div className="px-4 py-4">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : calls.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No calls yet</p>
+          ) : (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+              {calls.map((call) => {
+                const isMissed = call.outcome === 'missed' && call.direction === 'incoming';
+
+                return (
+                  <div key={call.id} className="flex items-center gap-3 px-4 py-3">
+                    <span className="text-xl" aria-hidden="true">
+                      {call.call_type === 'video' ? '📹' : '📞'}
+                    </span>
+                    <Link href={`/chats/${call.thread.id}`} className="flex-1 min-w-0">
+                      <p
+                        className={`font-medium truncate ${
+                          isMissed ? 'text-red-600' : 'text-gray-900'
+                        }`}
+                      >
+                        {callDisplayName(call)}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {call.direction === 'outgoing' ? '↗ ' : '↙ '}
+                        {describeCall(call, call.outcome, call.direction)}
+                        {call.duration_seconds !== null &&
+                          ` · ${formatCallDuration(call.duration_seconds)}`}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {new Date(call.created_at).toLocaleString()}
+                      </p>
+                    </Link>
+                    {call.outcome !== 'ongoing' && (
+                      <Link
+                        href={callBackHref(call.thread.id, call.call_type)}
+                        className="px-3 py-1 rounded-full text-sm font-medium text-blue-600 hover:bg-blue-50"
+                        aria-label={`Call ${callDisplayName(call)} back`}
+                      >
+                        Call back
+                      </Link>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {hasNextPage && (
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="w-full mt-4 text-sm text-blue-600 hover:underline disabled:opacity-50"
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <BottomNav />
+    </Layout>
+  );
+}
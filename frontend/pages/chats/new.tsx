@@ -7,11 +7,15 @@ import BottomNav from '../../components/BottomNav';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import Button from '../../components/Button';
 import Input from '../../components/Input';
+import ContactPicker from '../../components/ContactPicker';
 import { chatsAPI, contactsAPI } from '../../lib/api';
 
 export default function NewChat() {
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
+  const [groupMode, setGroupMode] = useState(false);
+  const [groupName, setGroupName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const { data: contactsData } = useQuery({
     queryKey: ['contacts'],
@@ -29,6 +33,27 @@ export default function NewChat() {
     },
   });
 
+  const createGroupMutation = useMutation({
+    mutationFn: () =>
+      chatsAPI.createThread({
+        type: 'group',
+        name: groupName.trim(),
+        participant_ids: selectedIds,
+      }),
+    onSuccess: (data) => {
+      router.push(`/chats/${data.thread.id}`);
+    },
+    onError: (error: any) => {
+      alert(error?.response?.data?.error || 'Failed to create group');
+    },
+  });
+
+  const toggleSelected = (userId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    );
+  };
+
   const contacts = contactsData?.contacts || [];
   const filteredContacts = contacts.filter((contact: any) => {
     const name = contact.user.full_name.toLowerCase();
@@ -49,18 +74,53 @@ export default function NewChat() {
               <button onClick={() => router.back()} className="text-gray-600">
                 ← Back
               </button>
-              <h1 className="text-2xl font-bold text-gray-900">New Chat</h1>
+              <h1 className="text-2xl font-bold text-gray-900 flex-1">
+                {groupMode ? 'New Group' : 'New Chat'}
+              </h1>
+              <Button
+                variant="secondary"
+                onClick={() => setGroupMode(!groupMode)}
+                className="text-sm"
+              >
+                {groupMode ? 'Direct message' : 'New group'}
+              </Button>
             </div>
-            <Input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search contacts..."
-            />
+            {groupMode ? (
+              <Input
+                type="text"
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                placeholder="Group name"
+                maxLength={100}
+              />
+            ) : (
+              <Input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search contacts..."
+              />
+            )}
           </div>
 
           <div className="px-4 py-4">
-            {filteredContacts.length === 0 ? (
+            {groupMode ? (
+              <div className="space-y-4">
+                <ContactPicker selectedIds={selectedIds} onToggle={toggleSelected} />
+                <Button
+                  variant="primary"
+                  onClick={() => createGroupMutation.mutate()}
+                  disabled={
+                    !groupName.trim() || selectedIds.length === 0 || createGroupMutation.isPending
+                  }
+                  className="w-full"
+                >
+                  {createGroupMutation.isPending
+                    ? 'Creating...'
+                    : `Create group${selectedIds.length > 0 ? ` (${selectedIds.length + 1})` : ''}`}
+                </Button>
+              </div>
+            ) : filteredContacts.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-gray-500">
                   {searchQuery ? 'No contacts found' : 'No contacts yet'}
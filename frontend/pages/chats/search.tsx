@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { useQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import Layout from '../../components/Layout';
+import BottomNav from '../../components/BottomNav';
+import Input from '../../components/Input';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { chatsAPI } from '../../lib/api';
+import type { ChatThread, MessageSearchResult } from '../../types';
+
+function threadDisplayName(thread: ChatThread): string {
+  return thread.type === 'group'
+    ? thread.name || 'Group'
+    : thread.participants[0]?.full_name || 'Unknown';
+}
+
+/**
+ * Render a result snippet with its matched ranges in bold
+ */
+function HighlightedSnippet({ result }: { result: MessageSearchResult }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  result.highlights.forEach((range, index) => {
+    if (range.start < position) return;
+    parts.push(result.snippet.slice(position, range.start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">
+        {result.snippet.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+  parts.push(result.snippet.slice(position));
+
+  return <p className="text-sm text-gray-700 break-words">{parts}</p>;
+}
+
+export default function ChatSearch() {
+  const router = useRouter();
+  // Limit the search to one conversation, e.g. /chats/search?thread=abc
+  const threadFilter = typeof router.query.thread === 'string' ? router.query.thread : undefined;
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: threadsData } = useQuery({
+    queryKey: ['chatThreads'],
+    queryFn: () => chatsAPI.getThreads(),
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['chatSearch', threadFilter, debouncedQuery],
+    queryFn: () => chatsAPI.searchMessages(threadFilter, debouncedQuery),
+    enabled: router.isReady && debouncedQuery.length > 0,
+  });
+
+  const threads = new Map((threadsData?.threads || []).map((thread) => [thread.id, thread]));
+  const filterThread = threadFilter ? threads.get(threadFilter) : undefined;
+  // The device index can still hold messages from chats the user has since left
+  const results = (data?.results || []).filter((result) => threads.has(result.thread_id));
+
+  return (
+    <Layout title="Search messages - Kartess">
+      <div className="min-h-screen bg-gray-50 pb-20">
+        <div className="sticky top-0 bg-white border-b border-gray-200 z-10 px-4 py-3 space-y-2">
+          <div className="flex items-center gap-3">
+            <button onClick={() => router.back()} className="text-gray-600">
+              ← Back
+            </button>
+            <h1 className="text-lg font-semibold text-gray-900 truncate">
+              {filterThread ? `Search in ${threadDisplayName(filterThread)}` : 'Search messages'}
+            </h1>
+          </div>
+          <Input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search messages..."
+            autoFocus
+          />
+        </div>
+
+        <div className="px-4 py-4">
+          {!debouncedQuery ? (
+            <p className="text-center text-gray-500 py-12">
+              Encrypted messages can only be found once they have been opened on this device.
+            </p>
+          ) : isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No messages found</p>
+          ) : (
+            <div className="space-y-2">
+              {results.map((result) => {
+                const thread = threads.get(result.thread_id);
+                return (
+                  <Link
+                    key={result.message_id}
+                    href={`/chats/${result.thread_id}?message=${result.message_id}`}
+                    className="block bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between mb-1 gap-2">
+                      <p className="font-semibold text-gray-900 truncate">
+                        {thread && !threadFilter
+                          ? `${result.user.full_name} in ${threadDisplayName(thread)}`
+                          : result.user.full_name}
+                      </p>
+                      <span className="text-xs text-gray-500 flex-shrink-0">
+                        {new Date(result.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <HighlightedSnippet result={result} />
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <BottomNav />
+    </Layout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useInfiniteQuery } from '@tanstack/react-query';
 import Masonry from 'react-masonry-css';
 import Layout from '../components/Layout';
@@ -7,7 +7,7 @@ import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Logo from '../components/Logo';
 import { postsAPI } from '../lib/api';
-import { getSocket } from '../lib/socket';
+import { useSocketEvent, useSocketRoom } from '../lib/socket';
 import Image from 'next/image';
 import Link from 'next/link';
 
@@ -40,30 +40,15 @@ export default function Explore() {
   const posts = data?.pages.flatMap((page) => page.posts) || [];
 
   // Set up Socket.io
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-
-    const socket = getSocket();
-    socket.emit('subscribe:posts');
-
-    socket.on('post.new', (newPost: any) => {
-      if (newPost.module?.includes('visuals')) {
-        refetch();
-      }
-    });
-
-    socket.on('post.deleted', (deletedPost: any) => {
-      if (deletedPost?.id) {
-        refetch();
-      }
-    });
-
-    return () => {
-      socket.emit('unsubscribe:posts');
-      socket.off('post.new');
-      socket.off('post.deleted');
-    };
-  }, [refetch]);
+  useSocketRoom('posts');
+  useSocketEvent('post.new', (newPost) => {
+    if (newPost.module.includes('visuals')) {
+      refetch();
+    }
+  });
+  useSocketEvent('post.deleted', () => {
+    refetch();
+  });
 
   const breakpointColumnsObj = {
     default: 4,
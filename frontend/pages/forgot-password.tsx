@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { z } from 'zod';
+import { isAxiosError } from 'axios';
+import Layout from '../components/Layout';
+import Button from '../components/Button';
+import Input from '../components/Input';
+import FormField from '../components/FormField';
+import Logo from '../components/Logo';
+import { authAPI } from '../lib/api';
+
+const emailSchema = z.string().email('Invalid email address');
+
+export default function ForgotPassword() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await authAPI.forgotPassword(emailSchema.parse(email));
+      setSent(true);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        setError(error.issues[0]?.message || 'Invalid input.');
+      } else if (isAxiosError(error) && error.response?.data?.error) {
+        setError(error.response.data.error);
+      } else {
+        setError('Could not send the reset link. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout title="Forgot Password - Kartess">
+      <div className="min-h-screen flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-4">
+              <Logo size="lg" showText={false} onClick={() => {}} />
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              Forgot Password
+            </h1>
+            <p className="text-gray-600">
+              We&apos;ll email you a link to choose a new one
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            {sent ? (
+              <div className="text-center">
+                <p className="text-gray-900 font-medium mb-2">Check your inbox</p>
+                <p className="text-sm text-gray-600">
+                  If an account exists for {email}, a reset link is on its way. The link expires in 1 hour.
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit}>
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <FormField label="Email" required>
+                  <Input
+                    type="email"
+                    name="email"
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      setError('');
+                    }}
+                    placeholder="john@example.com"
+                  />
+                </FormField>
+
+                <Button
+                  type="submit"
+                  loading={loading}
+                  className="w-full mt-6"
+                >
+                  Send Reset Link
+                </Button>
+              </form>
+            )}
+
+            <p className="mt-4 text-center text-sm text-gray-600 dark:text-gray-400">
+              Remembered it?{' '}
+              <button
+                type="button"
+                onClick={() => router.push('/login')}
+                className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+              >
+                Back to Sign In
+              </button>
+            </p>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
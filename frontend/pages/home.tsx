@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { useQuery, useInfiniteQuery, type InfiniteData } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import Layout from '../components/Layout';
@@ -20,7 +20,7 @@ import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Logo from '../components/Logo';
 import { postsAPI, storiesAPI } from '../lib/api';
-import { getSocket } from '../lib/socket';
+import { useSocketEvent, useSocketRoom } from '../lib/socket';
 import { getUser } from '../lib/auth';
 import Image from 'next/image';
 import Link from 'next/link';
@@ -41,7 +41,6 @@ export default function Home() {
   const [isCreateStoryModalOpen, setIsCreateStoryModalOpen] = useState(false);
   const [selectedStoryUserId, setSelectedStoryUserId] = useState<string | undefined>(undefined);
   const [isStoryCarouselOpen, setIsStoryCarouselOpen] = useState(false);
-  const [socket, setSocket] = useState<any>(null);
   const currentUser = getUser();
 
   // Fetch timeline with infinite scroll
@@ -93,9 +92,6 @@ export default function Home() {
 
   const handlePostSuccess = () => {
     refetch();
-    if (socket) {
-      socket.emit('subscribe:posts');
-    }
   };
 
   const handleStoryClick = (userId: string) => {
@@ -103,28 +99,10 @@ export default function Home() {
     setIsStoryCarouselOpen(true);
   };
 
-// Set up Socket.io connection
-useEffect(() => {
-  if (typeof window === 'undefined') return;
-
-  const socketInstance = getSocket();
-  setSocket(socketInstance);
-
-  socketInstance.emit('subscribe:posts');
-
-  const refreshTimeline = () => {
-    refetch();
-  };
-
-  socketInstance.on('post.new', refreshTimeline);
-  socketInstance.on('post.deleted', refreshTimeline);
-
-  return () => {
-    socketInstance.emit('unsubscribe:posts');
-    socketInstance.off('post.new', refreshTimeline);
-    socketInstance.off('post.deleted', refreshTimeline);
-  };
-}, [refetch]);
+  // Set up Socket.io connection
+  useSocketRoom('posts');
+  useSocketEvent('post.new', () => refetch());
+  useSocketEvent('post.deleted', () => refetch());
 
   return (
     <Layout title="Home - Kartess">
@@ -1,18 +1,86 @@
-import { useState, useEffect } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import Layout from '../components/Layout';
 import BottomNav from '../components/BottomNav';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { getUser } from '../lib/auth';
 import Link from 'next/link';
-import Image from 'next/image';
 import { useRouter } from 'next/router';
 import { liveAPI } from '../lib/api';
+import { LIVE_CATEGORIES } from '../lib/live';
+import type { CallSession } from '../types';
+
+type UpcomingStreams = Awaited<ReturnType<typeof liveAPI.getUpcoming>>;
 
 export default function LiveStreaming() {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const currentUser = getUser();
+  const [category, setCategory] = useState('');
+  const [error, setError] = useState('');
+
+  const params = { category: category || undefined };
+  const upcomingKey = ['upcomingStreams', category];
+
+  const { data: liveData, isLoading: liveLoading } = useQuery({
+    queryKey: ['liveSessions', category],
+    queryFn: () => liveAPI.getSessions(params),
+  });
+
+  const { data: upcomingData, isLoading: upcomingLoading } = useQuery({
+    queryKey: upcomingKey,
+    queryFn: () => liveAPI.getUpcoming(params),
+    enabled: !!currentUser,
+  });
+
+  const liveStreams = liveData?.sessions || [];
+  const upcomingStreams = upcomingData?.sessions || [];
+
+  const rsvpMutation = useMutation({
+    mutationFn: (stream: CallSession) =>
+      stream.rsvped ? liveAPI.cancelRsvp(stream.id) : liveAPI.rsvp(stream.id),
+    onSuccess: (rsvp, stream) => {
+      setError('');
+      queryClient.setQueryData<UpcomingStreams>(upcomingKey, (upcoming) =>
+        upcoming
+          ? {
+              ...upcoming,
+              sessions: upcoming.sessions.map((session) =>
+                session.id === stream.id
+                  ? { ...session, rsvped: rsvp.rsvped, rsvp_count: rsvp.rsvp_count }
+                  : session
+              ),
+            }
+          : upcoming
+      );
+    },
+    onError: (error) => {
+      setError((isAxiosError(error) && error.response?.data?.error) || 'Failed to update reminder');
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: (sessionId: string) => liveAPI.startSession(sessionId),
+    onSuccess: (_, sessionId) => {
+      router.push(`/live/${sessionId}`);
+    },
+    onError: (error) => {
+      setError((isAxiosError(error) && error.response?.data?.error) || 'Failed to start live stream');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (sessionId: string) => liveAPI.endSession(sessionId),
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['upcomingStreams'] });
+    },
+    onError: (error) => {
+      setError((isAxiosError(error) && error.response?.data?.error) || 'Failed to cancel live stream');
+    },
+  });
 
   const handleGoLive = () => {
     router.push('/live/create');
@@ -33,26 +101,150 @@ export default function LiveStreaming() {
                 🔴 Go Live
               </Button>
             </div>
+
+            {/* Category Filter */}
+            <div className="flex gap-2 overflow-x-auto" role="group" aria-label="Filter by category">
+              {['', ...LIVE_CATEGORIES].map((cat) => (
+                <button
+                  key={cat || 'all'}
+                  onClick={() => setCategory(cat)}
+                  aria-pressed={category === cat}
+                  className={`px-3 py-1 rounded-full text-sm whitespace-nowrap border ${
+                    category === cat
+                      ? 'bg-red-600 border-red-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {cat || 'All'}
+                </button>
+              ))}
+            </div>
           </div>
 
+          {error && <p className="px-4 pt-4 text-sm text-red-600">{error}</p>}
+
           {/* Active Streams */}
           <div className="px-4 py-4">
-            <h2 className="text-lg font-bold text-gray-900 mb-4">Active Streams</h2>
-            <div className="text-center py-12">
-              <p className="text-gray-500 mb-4">No active streams at the moment</p>
-              <p className="text-sm text-gray-400">
-                Start a live stream to connect with your audience in real-time!
-              </p>
-            </div>
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Live Now</h2>
+            {liveLoading ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner size="md" />
+              </div>
+            ) : liveStreams.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-gray-500 mb-4">No active streams at the moment</p>
+                <p className="text-sm text-gray-400">
+                  Start a live stream to connect with your audience in real-time!
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {liveStreams.map((stream) => (
+                  <Link
+                    key={stream.id}
+                    href={`/live/${stream.id}`}
+                    className="block bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:border-red-300"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="font-semibold text-gray-900 truncate">{stream.title}</h3>
+                      <span className="px-2 py-0.5 rounded bg-red-600 text-white text-xs font-bold">
+                        LIVE
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {stream.host?.full_name || stream.host?.username}
+                      {stream.category && ` · ${stream.category}`}
+                      {` · ${stream.viewers_count} watching`}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            )}
           </div>
 
+          {/* Upcoming Streams */}
+          {currentUser && (
+            <div className="px-4 py-4">
+              <h2 className="text-lg font-bold text-gray-900 mb-4">Upcoming</h2>
+              {upcomingLoading ? (
+                <div className="flex justify-center py-12">
+                  <LoadingSpinner size="md" />
+                </div>
+              ) : upcomingStreams.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No scheduled streams</p>
+              ) : (
+                <div className="space-y-3">
+                  {upcomingStreams.map((stream) => {
+                    const isHost = stream.host_id === currentUser.id;
+
+                    return (
+                      <div
+                        key={stream.id}
+                        className="bg-white rounded-lg shadow-sm border border-gray-200 p-4"
+                      >
+                        <h3 className="font-semibold text-gray-900">{stream.title}</h3>
+                        <p className="text-sm text-gray-600">
+                          {stream.host?.full_name || stream.host?.username}
+                          {stream.category && ` · ${stream.category}`}
+                        </p>
+                        {stream.scheduled_at && (
+                          <p className="text-sm text-gray-500 mt-1">
+                            {new Date(stream.scheduled_at).toLocaleString()}
+                          </p>
+                        )}
+                        {stream.description && (
+                          <p className="text-sm text-gray-700 mt-2">{stream.description}</p>
+                        )}
+                        <div className="flex items-center justify-between gap-2 mt-3">
+                          <span className="text-xs text-gray-500">
+                            {stream.rsvp_count || 0}{' '}
+                            {stream.rsvp_count === 1 ? 'person' : 'people'} want a reminder
+                          </span>
+                          {isHost ? (
+                            <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                onClick={() => cancelMutation.mutate(stream.id)}
+                                disabled={cancelMutation.isPending || startMutation.isPending}
+                                className="px-3 py-1 text-sm"
+                              >
+                                Cancel
+                              </Button>
+                              <Button
+                                variant="primary"
+                                onClick={() => startMutation.mutate(stream.id)}
+                                disabled={cancelMutation.isPending || startMutation.isPending}
+                                className="px-3 py-1 text-sm bg-red-600"
+                              >
+                                🔴 Go Live
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              variant={stream.rsvped ? 'secondary' : 'outline'}
+                              onClick={() => rsvpMutation.mutate(stream)}
+                              disabled={rsvpMutation.isPending}
+                              className="px-3 py-1 text-sm"
+                            >
+                              {stream.rsvped ? '🔔 Reminder set' : 'Remind me'}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Info Section */}
           <div className="px-4 py-4">
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
               <h3 className="font-bold text-gray-900 mb-2">About Live Streaming</h3>
               <p className="text-sm text-gray-600 mb-4">
                 Go live to share moments, host discussions, or connect with your community in
-                real-time. Streaming is powered by Agora for high-quality video and audio.
+                real-time. Streaming is powered by Daily.co for high-quality video and audio.
               </p>
               <div className="space-y-2 text-sm text-gray-600">
                 <p>• Share screen or camera feed</p>
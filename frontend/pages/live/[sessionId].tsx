@@ -4,9 +4,11 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import Layout from '../../components/Layout';
 import { liveAPI } from '../../lib/api';
 import { getUser } from '../../lib/auth';
-import { useDaily } from '../../hooks/useDaily';
-import { getSocket } from '../../lib/socket';
+import { useRtcSession } from '../../hooks/useRtcSession';
+import { useSocketEvent, useSocketRoom } from '../../lib/socket';
 import Button from '../../components/Button';
+import LiveChatPanel from '../../components/LiveChatPanel';
+import LiveReactions, { LiveReactionPicker } from '../../components/LiveReactions';
 import LoadingSpinner from '../../components/LoadingSpinner';
 
 export default function LiveStreamView() {
@@ -17,8 +19,9 @@ export default function LiveStreamView() {
   const remoteVideoRefs = useRef<Map<string, HTMLVideoElement>>(new Map());
   const [shouldStart, setShouldStart] = useState(false);
   const [viewersCount, setViewersCount] = useState(0);
+  const [showChat, setShowChat] = useState(true);
 
-  const { data: sessionData, isLoading } = useQuery({
+  const { data: sessionData, isLoading, refetch } = useQuery({
     queryKey: ['liveSession', sessionId],
     queryFn: async () => {
       if (sessionId && typeof sessionId === 'string') {
@@ -37,13 +40,14 @@ export default function LiveStreamView() {
   // If sessionId exists, check if current user is the host
   const isHost = !sessionId || sessionData?.session?.host_id === currentUser?.id;
 
-  // Only use Daily.co hook when sessionData is loaded AND user has clicked start
+  // Only connect when sessionData is loaded AND user has clicked start
   // This ensures permission request happens in response to user click
-  const { isConnected, isConnecting, error, needsPermission, localVideoTrack, participants, callObject, requestPermissions } = useDaily(
+  const { isConnected, isConnecting, error, needsPermission, localVideoTrack, participants, leave, requestPermissions } = useRtcSession(
     sessionData && shouldStart
       ? {
           roomUrl: sessionData.roomUrl || '',
           token: sessionData.token || null,
+          userName: currentUser?.full_name,
           enableVideo: isHost, // Only enable video for hosts in live streaming
           enableAudio: isHost, // Only enable audio for hosts in live streaming
         }
@@ -56,40 +60,34 @@ export default function LiveStreamView() {
   );
 
   // Set up Socket.io for real-time viewer count updates
-  useEffect(() => {
-    if (!sessionData?.session?.id || typeof window === 'undefined') return;
-
-    const socket = getSocket();
-    const sessionIdStr = sessionData.session.id;
+  const liveSessionId = sessionData?.session?.id;
+  useSocketRoom(liveSessionId ? `live:${liveSessionId}` : null);
 
-    // Join live stream room
-    socket.emit('join:live', sessionIdStr);
+  useSocketEvent('live.viewers.updated', (data) => {
+    if (data.sessionId === liveSessionId) {
+      setViewersCount(data.viewersCount);
+    }
+  });
 
-    // Listen for viewer count updates
-    socket.on('live.viewers.updated', (data: { sessionId: string; viewersCount: number }) => {
-      if (data.sessionId === sessionIdStr) {
-        setViewersCount(data.viewersCount);
-      }
-    });
+  useSocketEvent('live.stream.ended', (data) => {
+    if (data.sessionId === liveSessionId) {
+      router.push('/live');
+    }
+  });
 
-    // Listen for stream ended
-    socket.on('live.stream.ended', (data: { sessionId: string }) => {
-      if (data.sessionId === sessionIdStr) {
-        router.push('/live');
-      }
-    });
+  useSocketEvent('live.user.banned', (data) => {
+    if (data.sessionId === liveSessionId && data.userId === currentUser?.id) {
+      leave();
+      router.push('/live');
+    }
+  });
 
-    // Set initial viewer count from session data
-    if (sessionData.session.viewers_count !== undefined) {
+  // Set initial viewer count from session data
+  useEffect(() => {
+    if (sessionData?.session?.viewers_count !== undefined) {
       setViewersCount(sessionData.session.viewers_count);
     }
-
-    return () => {
-      socket.emit('leave:live', sessionIdStr);
-      socket.off('live.viewers.updated');
-      socket.off('live.stream.ended');
-    };
-  }, [sessionData, router]);
+  }, [sessionData]);
 
   // Render local video track
   useEffect(() => {
@@ -111,7 +109,7 @@ export default function LiveStreamView() {
   useEffect(() => {
     participants.forEach((participant) => {
       if (participant.videoTrack) {
-        const videoElement = remoteVideoRefs.current.get(participant.session_id);
+        const videoElement = remoteVideoRefs.current.get(participant.id);
         if (videoElement) {
           const stream = new MediaStream([participant.videoTrack]);
           videoElement.srcObject = stream;
@@ -177,12 +175,12 @@ export default function LiveStreamView() {
         {/* Remote participants video */}
         {participants.map((participant) => (
           <video
-            key={participant.session_id}
+            key={participant.id}
             ref={(el) => {
               if (el) {
-                remoteVideoRefs.current.set(participant.session_id, el);
+                remoteVideoRefs.current.set(participant.id, el);
               } else {
-                remoteVideoRefs.current.delete(participant.session_id);
+                remoteVideoRefs.current.delete(participant.id);
               }
             }}
             className="w-full h-screen object-cover"
@@ -205,7 +203,11 @@ export default function LiveStreamView() {
               </p>
               <Button
                 variant="primary"
-                onClick={() => {
+                onClick={async () => {
+                  // Viewer tokens are short-lived, so get a fresh one to watch with
+                  if (!isHost) {
+                    await refetch();
+                  }
                   setShouldStart(true);
                 }}
                 className="bg-red-600 px-8 py-3 text-lg z-10 relative"
@@ -248,10 +250,36 @@ export default function LiveStreamView() {
           </div>
         )}
 
+        {liveSessionId && <LiveReactions sessionId={liveSessionId} />}
+
+        {/* Chat: a sidebar on larger screens, a bottom sheet on phones */}
+        {liveSessionId && sessionData && currentUser && showChat && (
+          <div className="absolute inset-x-0 bottom-36 h-2/5 md:inset-x-auto md:right-0 md:top-0 md:bottom-0 md:h-auto md:w-80 z-30">
+            <LiveChatPanel
+              sessionId={liveSessionId}
+              hostId={sessionData.session.host_id}
+              currentUserId={currentUser.id}
+              isLive={sessionData.session.status === 'active'}
+            />
+          </div>
+        )}
+
         {/* Controls overlay */}
         {isConnected && (
-          <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6 z-30">
+          <div
+            className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6 z-30 ${
+              showChat ? 'md:right-80' : ''
+            }`}
+          >
+            {liveSessionId && (
+              <div className="flex justify-center mb-4">
+                <LiveReactionPicker sessionId={liveSessionId} />
+              </div>
+            )}
             <div className="flex items-center justify-center gap-4">
+              <Button variant="secondary" onClick={() => setShowChat(!showChat)}>
+                {showChat ? 'Hide Chat' : 'Show Chat'}
+              </Button>
               {isHost && (
                 <Button
                   variant="primary"
@@ -264,7 +292,7 @@ export default function LiveStreamView() {
               <Button
                 variant="secondary"
                 onClick={() => {
-                  callObject?.leave();
+                  leave();
                   router.back();
                 }}
               >
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import { useMutation } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import Layout from '../../components/Layout';
 import BottomNav from '../../components/BottomNav';
 import Button from '../../components/Button';
@@ -9,16 +10,7 @@ import Input from '../../components/Input';
 import FormField from '../../components/FormField';
 import { liveAPI } from '../../lib/api';
 import { getUser } from '../../lib/auth';
-
-const CATEGORIES = [
-  'Gaming',
-  'Music',
-  'Art & Creative',
-  'Technology',
-  'Education',
-  'Lifestyle',
-  'Other',
-];
+import { LIVE_CATEGORIES, toDateTimeInput } from '../../lib/live';
 
 export default function CreateLiveStream() {
   const router = useRouter();
@@ -29,6 +21,8 @@ export default function CreateLiveStream() {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
+  const [scheduleForLater, setScheduleForLater] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
@@ -111,6 +105,22 @@ export default function CreateLiveStream() {
     },
   });
 
+  const scheduleSessionMutation = useMutation({
+    mutationFn: (data: { title: string; description?: string; category?: string; scheduled_at: string }) =>
+      liveAPI.scheduleSession(data),
+    onSuccess: () => {
+      stopCameraPreview();
+      router.push('/live');
+    },
+    onError: (error) => {
+      setErrors({
+        general: (isAxiosError(error) && error.response?.data?.error) || 'Failed to schedule live stream',
+      });
+    },
+  });
+
+  const isSubmitting = createSessionMutation.isPending || scheduleSessionMutation.isPending;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
@@ -125,6 +135,22 @@ export default function CreateLiveStream() {
       return;
     }
 
+    if (scheduleForLater) {
+      const startsAt = scheduledAt ? new Date(scheduledAt) : null;
+      if (!startsAt || startsAt <= new Date()) {
+        setErrors({ scheduledAt: 'Pick a start time in the future' });
+        return;
+      }
+
+      scheduleSessionMutation.mutate({
+        title: title.trim(),
+        description: description.trim() || undefined,
+        category: category || undefined,
+        scheduled_at: startsAt.toISOString(),
+      });
+      return;
+    }
+
     createSessionMutation.mutate({
       title: title.trim(),
       description: description.trim() || undefined,
@@ -156,46 +182,95 @@ export default function CreateLiveStream() {
         </div>
 
         <form onSubmit={handleSubmit} className="px-4 py-6 space-y-6">
+          {/* When */}
+          <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group">
+            <button
+              type="button"
+              onClick={() => setScheduleForLater(false)}
+              aria-pressed={!scheduleForLater}
+              className={`flex-1 px-4 py-2 text-sm font-medium ${
+                !scheduleForLater
+                  ? 'bg-red-600 text-white'
+                  : 'bg-white text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+              }`}
+            >
+              Go live now
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                stopCameraPreview();
+                setScheduleForLater(true);
+              }}
+              aria-pressed={scheduleForLater}
+              className={`flex-1 px-4 py-2 text-sm font-medium ${
+                scheduleForLater
+                  ? 'bg-red-600 text-white'
+                  : 'bg-white text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+              }`}
+            >
+              Schedule for later
+            </button>
+          </div>
+
+          {scheduleForLater && (
+            <FormField label="Starts At" error={errors.scheduledAt}>
+              <input
+                type="datetime-local"
+                value={scheduledAt}
+                min={toDateTimeInput(new Date())}
+                onChange={(e) => setScheduledAt(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-gray-100"
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Viewers can ask to be reminded, and get a notification when you go live.
+              </p>
+            </FormField>
+          )}
+
           {/* Camera Preview */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Camera Preview
-            </label>
-            <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden">
-              {cameraStarted && videoRef.current ? (
-                <video
-                  ref={videoRef}
-                  autoPlay
-                  playsInline
-                  muted
-                  className="w-full h-full object-cover"
-                />
-              ) : (
-                <div className="w-full h-full flex items-center justify-center">
-                  <button
-                    type="button"
-                    onClick={startCameraPreview}
-                    className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
-                  >
-                    <span>📹</span>
-                    <span>Start Camera Preview</span>
-                  </button>
-                </div>
+          {!scheduleForLater && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Camera Preview
+              </label>
+              <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden">
+                {cameraStarted && videoRef.current ? (
+                  <video
+                    ref={videoRef}
+                    autoPlay
+                    playsInline
+                    muted
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <button
+                      type="button"
+                      onClick={startCameraPreview}
+                      className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+                    >
+                      <span>📹</span>
+                      <span>Start Camera Preview</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+              {errors.camera && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">{errors.camera}</p>
+              )}
+              {cameraStarted && (
+                <button
+                  type="button"
+                  onClick={stopCameraPreview}
+                  className="mt-2 text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                >
+                  Stop Camera Preview
+                </button>
               )}
             </div>
-            {errors.camera && (
-              <p className="mt-2 text-sm text-red-600 dark:text-red-400">{errors.camera}</p>
-            )}
-            {cameraStarted && (
-              <button
-                type="button"
-                onClick={stopCameraPreview}
-                className="mt-2 text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
-              >
-                Stop Camera Preview
-              </button>
-            )}
-          </div>
+          )}
 
           {/* Stream Title */}
           <FormField label="Stream Title" error={errors.title}>
@@ -229,7 +304,7 @@ export default function CreateLiveStream() {
               required
             >
               <option value="">Select a category</option>
-              {CATEGORIES.map((cat) => (
+              {LIVE_CATEGORIES.map((cat) => (
                 <option key={cat} value={cat}>
                   {cat}
                 </option>
@@ -251,7 +326,7 @@ export default function CreateLiveStream() {
               variant="secondary"
               onClick={handleCancel}
               className="flex-1"
-              disabled={createSessionMutation.isPending}
+              disabled={isSubmitting}
             >
               Cancel
             </Button>
@@ -259,10 +334,12 @@ export default function CreateLiveStream() {
               type="submit"
               variant="primary"
               className="flex-1 bg-red-600 hover:bg-red-700"
-              disabled={createSessionMutation.isPending || !title.trim() || !category}
+              disabled={isSubmitting || !title.trim() || !category || (scheduleForLater && !scheduledAt)}
             >
-              {createSessionMutation.isPending ? (
+              {isSubmitting ? (
                 <LoadingSpinner size="sm" />
+              ) : scheduleForLater ? (
+                '📅 Schedule Stream'
               ) : (
                 '🔴 Go Live'
               )}
@@ -9,6 +9,8 @@ import FormField from '../components/FormField';
 import Logo from '../components/Logo';
 import { authAPI } from '../lib/api';
 import { setAuth } from '../lib/auth';
+import { ensureDeviceKeyPublished } from '../lib/encryption';
+import type { AuthResponse } from '../types';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -17,6 +19,12 @@ const loginSchema = z.object({
 
 type FormData = z.infer<typeof loginSchema>;
 
+// Set by redirectToLogin when the user was signed out
+const signedOutMessages: Record<string, string> = {
+  session_revoked: 'You were signed out of this device. Please sign in again.',
+  session_expired: 'Your session has expired. Please sign in again.',
+};
+
 export default function Login() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
@@ -25,6 +33,12 @@ export default function Login() {
     email: '',
     password: '',
   });
+  // Set once the password is accepted for an account with two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const signedOutMessage =
+    typeof router.query.reason === 'string' ? signedOutMessages[router.query.reason] : undefined;
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -32,6 +46,46 @@ export default function Login() {
     setError('');
   };
 
+  const completeLogin = (response: AuthResponse) => {
+    // Store auth data
+    setAuth(response);
+    ensureDeviceKeyPublished().catch(console.error);
+
+    // Admins and moderators have to enrol before using moderation tools
+    if (response.twoFactorSetupRequired) {
+      router.push('/settings/account?setup2fa=1');
+    } else if (response.profileComplete) {
+      // Redirect based on profile completeness
+      router.push('/home');
+    } else {
+      router.push('/profile-complete');
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken || !code.trim()) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      completeLogin(await authAPI.loginTwoFactor({ challengeToken, code: code.trim() }));
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 401 && error.response.data?.error?.includes('expired')) {
+        // The challenge only lasts a few minutes; start over from the password
+        setChallengeToken(null);
+        setCode('');
+      }
+      if (isAxiosError(error) && error.response?.data?.error) {
+        setError(error.response.data.error);
+      } else {
+        setError('Verification failed. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -44,15 +98,12 @@ export default function Login() {
       // Login user
       const response = await authAPI.login(validatedData);
 
-      // Store auth data
-      setAuth(response);
-
-      // Redirect based on profile completeness
-      if (response.profileComplete) {
-        router.push('/home');
-      } else {
-        router.push('/profile-complete');
+      if (response.twoFactorRequired) {
+        setChallengeToken(response.challengeToken);
+        return;
       }
+
+      completeLogin(response);
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         setError(error.issues[0]?.message || 'Invalid input.');
@@ -82,6 +133,70 @@ export default function Login() {
             </p>
           </div>
 
+          {challengeToken ? (
+            <form onSubmit={handleTwoFactorSubmit} className="bg-white rounded-lg shadow-lg p-6">
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <p className="text-sm text-gray-600 mb-4">
+                {useRecoveryCode
+                  ? 'Enter one of the recovery codes you saved when you set up two-factor authentication. Each code works once.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </p>
+
+              <FormField label={useRecoveryCode ? 'Recovery Code' : 'Authentication Code'} required>
+                <Input
+                  type="text"
+                  name="code"
+                  value={code}
+                  onChange={(e) => {
+                    setCode(e.target.value);
+                    setError('');
+                  }}
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+              </FormField>
+
+              <Button
+                type="submit"
+                loading={loading}
+                className="w-full mt-6"
+              >
+                Verify
+              </Button>
+
+              <div className="mt-4 flex justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                    setError('');
+                  }}
+                  className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setChallengeToken(null);
+                    setCode('');
+                    setError('');
+                  }}
+                  className="text-gray-600 dark:text-gray-400 hover:text-gray-700"
+                >
+                  Back
+                </button>
+              </div>
+            </form>
+          ) : (
           <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-6">
             {error && (
               <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
@@ -89,6 +204,12 @@ export default function Login() {
               </div>
             )}
 
+            {!error && signedOutMessage && (
+              <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+                {signedOutMessage}
+              </div>
+            )}
+
             <FormField label="Email" required>
               <Input
                 type="email"
@@ -109,6 +230,16 @@ export default function Login() {
               />
             </FormField>
 
+            <div className="-mt-2 text-right">
+              <button
+                type="button"
+                onClick={() => router.push('/forgot-password')}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+              >
+                Forgot password?
+              </button>
+            </div>
+
             <Button
               type="submit"
               loading={loading}
@@ -128,6 +259,7 @@ export default function Login() {
               </button>
             </p>
           </form>
+          )}
         </div>
       </div>
     </Layout>
@@ -7,6 +7,8 @@ import NotificationsBell from '../components/NotificationsBell';
 import NotificationsPanel from '../components/NotificationsPanel';
 import Logo from '../components/Logo';
 import { clearAuth, getUser } from '../lib/auth';
+import { authAPI } from '../lib/api';
+import { disconnectSocket } from '../lib/socket';
 
 export default function More() {
   const router = useRouter();
@@ -59,7 +61,10 @@ export default function More() {
     };
   }, [router]);
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    // Close our socket first so the server's revoked event doesn't redirect us too
+    disconnectSocket();
+    await authAPI.logout().catch(console.error);
     clearAuth();
     router.push('/');
   };
@@ -7,7 +7,7 @@ import Button from '../components/Button';
 import Input from '../components/Input';
 import FormField from '../components/FormField';
 import { profileAPI, authAPI } from '../lib/api';
-import { getToken, setAuth } from '../lib/auth';
+import { isAuthenticated, setAuth } from '../lib/auth';
 
 const profileSchema = z.object({
   bio: z.string().min(10, 'Bio must be at least 10 characters'),
@@ -41,8 +41,7 @@ export default function ProfileComplete() {
   // Check if profile already exists and user is authenticated
   useEffect(() => {
     const checkProfile = async () => {
-      const token = getToken();
-      if (!token) {
+      if (!isAuthenticated()) {
         router.push('/login');
         return;
       }
@@ -60,7 +59,7 @@ export default function ProfileComplete() {
             position: response.profile.position || '',
             phone: response.profile.phone || '',
             education: response.profile.education || '',
-            avatar_url: response.profile.avatar_url,
+            avatar_url: response.profile.avatar_url ?? undefined,
           });
         }
         // If profile is not complete and no profile exists, user can proceed to fill the form
@@ -151,7 +150,6 @@ export default function ProfileComplete() {
       // Update profile complete status
       const verifyResponse = await authAPI.verify();
       setAuth({
-        token: getToken()!,
         user: verifyResponse.user,
         profileComplete: true,
       });
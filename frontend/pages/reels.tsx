@@ -8,7 +8,7 @@ import Button from '../components/Button';
 import CreatePostModal from '../components/CreatePostModal';
 import ReactionsBar from '../components/ReactionsBar';
 import { postsAPI } from '../lib/api';
-import { getSocket } from '../lib/socket';
+import { useSocketEvent, useSocketRoom } from '../lib/socket';
 import { getUser } from '../lib/auth';
 import Image from 'next/image';
 import Link from 'next/link';
@@ -50,30 +50,15 @@ export default function Reels() {
   const reels = reelsPages.flatMap((page: ReelsPage) => page.posts ?? []);
 
   // Set up Socket.io for real-time updates
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-
-    const socket = getSocket();
-    socket.emit('subscribe:posts');
-
-    socket.on('post.new', (newPost: any) => {
-      if (newPost.is_reel && newPost.module?.includes('visuals')) {
-        refetch();
-      }
-    });
-
-    socket.on('post.deleted', (deletedPost: any) => {
-      if (deletedPost?.id) {
-        refetch();
-      }
-    });
-
-    return () => {
-      socket.emit('unsubscribe:posts');
-      socket.off('post.new');
-      socket.off('post.deleted');
-    };
-  }, [refetch]);
+  useSocketRoom('posts');
+  useSocketEvent('post.new', (newPost) => {
+    if (newPost.is_reel && newPost.module.includes('visuals')) {
+      refetch();
+    }
+  });
+  useSocketEvent('post.deleted', () => {
+    refetch();
+  });
 
   // Handle video play/pause
   const togglePlay = (index: number) => {
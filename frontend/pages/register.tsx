@@ -9,6 +9,7 @@ import FormField from '../components/FormField';
 import Logo from '../components/Logo';
 import { authAPI } from '../lib/api';
 import { setAuth } from '../lib/auth';
+import { ensureDeviceKeyPublished } from '../lib/encryption';
 
 const registerSchema = z.object({
   full_name: z.string().min(1, 'Full name is required'),
@@ -95,6 +96,7 @@ export default function Register() {
 
       // Store auth data
       setAuth(response);
+      ensureDeviceKeyPublished().catch(console.error);
 
       // Show success message if contact was auto-created via QR
       if (response.qrContact) {
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { z } from 'zod';
+import { isAxiosError } from 'axios';
+import Layout from '../components/Layout';
+import Button from '../components/Button';
+import Input from '../components/Input';
+import FormField from '../components/FormField';
+import Logo from '../components/Logo';
+import { authAPI } from '../lib/api';
+import { clearAuth } from '../lib/auth';
+
+// Same rules as registration
+const resetSchema = z
+  .object({
+    password: z
+      .string()
+      .min(8, 'Password must be at least 8 characters')
+      .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+      .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+      .regex(/[0-9]/, 'Password must contain at least one number')
+      .regex(/[^a-zA-Z0-9]/, 'Password must contain at least one symbol'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type FormData = z.infer<typeof resetSchema>;
+
+export default function ResetPassword() {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [done, setDone] = useState(false);
+  const [formData, setFormData] = useState<FormData>({
+    password: '',
+    confirmPassword: '',
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+    setLoading(true);
+
+    try {
+      const { password } = resetSchema.parse(formData);
+      await authAPI.resetPassword({ token, password });
+
+      // Every session was signed out, including this browser's
+      clearAuth();
+      setDone(true);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        const fieldErrors: Record<string, string> = {};
+        error.issues.forEach((issue) => {
+          const field = String(issue.path[0]);
+          if (!fieldErrors[field]) {
+            fieldErrors[field] = issue.message;
+          }
+        });
+        setErrors(fieldErrors);
+      } else if (isAxiosError(error) && error.response?.data?.error) {
+        setErrors({ general: error.response.data.error });
+      } else {
+        setErrors({ general: 'Could not reset your password. Please try again.' });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (!router.isReady) {
+      return null;
+    }
+
+    if (!token) {
+      return (
+        <p className="text-sm text-gray-600 text-center">
+          This reset link is incomplete. Request a new one from the sign-in page.
+        </p>
+      );
+    }
+
+    if (done) {
+      return (
+        <div className="text-center">
+          <p className="text-gray-900 font-medium mb-2">Password updated</p>
+          <p className="text-sm text-gray-600 mb-4">
+            You&apos;ve been signed out on all devices. Sign in with your new password.
+          </p>
+          <Button onClick={() => router.push('/login')} className="w-full">
+            Sign In
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit}>
+        {errors.general && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+            {errors.general}
+          </div>
+        )}
+
+        <FormField label="New Password" error={errors.password} required>
+          <Input
+            type="password"
+            name="password"
+            value={formData.password}
+            onChange={handleChange}
+            error={errors.password}
+            placeholder="••••••••"
+            autoComplete="new-password"
+          />
+        </FormField>
+
+        <FormField label="Confirm Password" error={errors.confirmPassword} required>
+          <Input
+            type="password"
+            name="confirmPassword"
+            value={formData.confirmPassword}
+            onChange={handleChange}
+            error={errors.confirmPassword}
+            placeholder="••••••••"
+            autoComplete="new-password"
+          />
+        </FormField>
+
+        <Button
+          type="submit"
+          loading={loading}
+          className="w-full mt-6"
+        >
+          Reset Password
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <Layout title="Reset Password - Kartess">
+      <div className="min-h-screen flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-4">
+              <Logo size="lg" showText={false} onClick={() => {}} />
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              Choose a New Password
+            </h1>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            {renderBody()}
+
+            {!done && (
+              <p className="mt-4 text-center text-sm text-gray-600 dark:text-gray-400">
+                Link expired?{' '}
+                <button
+                  type="button"
+                  onClick={() => router.push('/forgot-password')}
+                  className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+                >
+                  Send a new one
+                </button>
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -44,6 +44,14 @@ export default function Settings() {
       route: '/settings/advanced',
       color: 'bg-green-500',
     },
+    {
+      id: 'blocked',
+      title: 'Blocked & Muted',
+      description: 'Review the people you have blocked or muted',
+      icon: '🚫',
+      route: '/settings/blocked',
+      color: 'bg-red-500',
+    },
     {
       id: 'notifications',
       title: 'Notifications',
@@ -2,6 +2,7 @@ import { useState, useRef } from 'react';
 import { useRouter } from 'next/router';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import Image from 'next/image';
+import { isAxiosError } from 'axios';
 import Layout from '../../components/Layout';
 import BottomNav from '../../components/BottomNav';
 import Button from '../../components/Button';
@@ -9,8 +10,11 @@ import Logo from '../../components/Logo';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import ConfirmModal from '../../components/ConfirmModal';
 import Toast from '../../components/Toast';
+import ActiveSessions from '../../components/ActiveSessions';
+import TwoFactorSettings from '../../components/TwoFactorSettings';
 import { getUser, clearAuth } from '../../lib/auth';
-import { profileAPI, usersAPI } from '../../lib/api';
+import { authAPI, profileAPI, usersAPI } from '../../lib/api';
+import { disconnectSocket } from '../../lib/socket';
 
 export default function AccountSettings() {
   const router = useRouter();
@@ -103,6 +107,20 @@ export default function AccountSettings() {
     },
   });
 
+  const sendVerificationMutation = useMutation({
+    mutationFn: () => authAPI.sendVerificationEmail(),
+    onSuccess: () => {
+      setToast({ message: `Verification link sent to ${user?.email}`, type: 'success', isVisible: true });
+    },
+    onError: (error) => {
+      setToast({
+        message: (isAxiosError(error) && error.response?.data?.error) || 'Failed to send verification email',
+        type: 'error',
+        isVisible: true,
+      });
+    },
+  });
+
   const handleDeleteAccount = () => {
     setShowDeleteConfirm(true);
   };
@@ -112,7 +130,10 @@ export default function AccountSettings() {
     setShowDeleteConfirm(false);
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    // Close our socket first so the server's revoked event doesn't redirect us too
+    disconnectSocket();
+    await authAPI.logout().catch(console.error);
     clearAuth();
     router.push('/');
   };
@@ -220,6 +241,19 @@ export default function AccountSettings() {
                 <div>
                   <p className="text-sm text-gray-500">Email</p>
                   <p className="text-base font-medium text-gray-900">{user?.email}</p>
+                  {user?.is_verified === false && (
+                    <div className="mt-1 flex items-center gap-2 text-sm">
+                      <span className="text-amber-600">Not verified</span>
+                      <button
+                        type="button"
+                        onClick={() => sendVerificationMutation.mutate()}
+                        disabled={sendVerificationMutation.isPending || sendVerificationMutation.isSuccess}
+                        className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                      >
+                        {sendVerificationMutation.isSuccess ? 'Link sent' : 'Resend verification link'}
+                      </button>
+                    </div>
+                  )}
                 </div>
                 {user?.role && (
                   <div>
@@ -230,6 +264,12 @@ export default function AccountSettings() {
               </div>
             </div>
 
+            {/* Two-Factor Authentication */}
+            <TwoFactorSettings />
+
+            {/* Sessions */}
+            <ActiveSessions />
+
             {/* Account Actions */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
               <h2 className="text-lg font-bold text-gray-900 mb-4">Actions</h2>
@@ -0,0 +1,162 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/router';
+import { isAxiosError } from 'axios';
+import Layout from '../../components/Layout';
+import BottomNav from '../../components/BottomNav';
+import Button from '../../components/Button';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import Logo from '../../components/Logo';
+import { usersAPI } from '../../lib/api';
+import type { BlockEntry } from '../../types';
+
+interface BlockListProps {
+  title: string;
+  description: string;
+  emptyText: string;
+  entries: BlockEntry[];
+  actionLabel: string;
+  pendingUserId?: string;
+  onAction: (userId: string) => void;
+}
+
+function BlockList({
+  title,
+  description,
+  emptyText,
+  entries,
+  actionLabel,
+  pendingUserId,
+  onAction,
+}: BlockListProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+      <h2 className="text-lg font-bold text-gray-900 dark:text-gray-100">{title}</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{description}</p>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">{emptyText}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {entries.map(({ user, created_at }) => (
+            <li key={user.id} className="flex items-center gap-3 py-3">
+              <Link href={`/${user.username}/profile`} className="flex items-center gap-3 flex-1 min-w-0">
+                <div className="w-10 h-10 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden flex-shrink-0">
+                  {user.profile?.avatar_url ? (
+                    <Image
+                      src={user.profile.avatar_url}
+                      alt={user.full_name}
+                      width={40}
+                      height={40}
+                      className="object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
+                      {user.full_name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{user.full_name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    @{user.username} · since {new Date(created_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </Link>
+              <Button
+                variant="secondary"
+                loading={pendingUserId === user.id}
+                onClick={() => onAction(user.id)}
+              >
+                {actionLabel}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function BlockedSettings() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['blocks'],
+    queryFn: () => usersAPI.getBlocks(),
+  });
+
+  const onError = (error: Error) => {
+    alert((isAxiosError(error) && error.response?.data?.error) || 'Something went wrong');
+  };
+
+  const unblockMutation = useMutation({
+    mutationFn: (userId: string) => usersAPI.unblock(userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['blocks'] });
+    },
+    onError,
+  });
+
+  const unmuteMutation = useMutation({
+    mutationFn: (userId: string) => usersAPI.unmute(userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['blocks'] });
+    },
+    onError,
+  });
+
+  return (
+    <Layout title="Blocked & Muted - Kartess">
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-20">
+          {/* Header */}
+          <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-4 py-6">
+            <div className="flex items-center gap-3 mb-2">
+              <button
+                onClick={() => router.back()}
+                className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <span className="text-xl">←</span>
+              </button>
+              <Logo size="sm" showText={false} onClick={() => {}} />
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Blocked & Muted</h1>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Review the people you have blocked or muted
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : (
+            <div className="px-4 py-6 space-y-6">
+              <BlockList
+                title="Blocked"
+                description="Blocked people can't message, call, follow or find you, and you won't see each other's posts."
+                emptyText="You haven't blocked anyone"
+                entries={data?.blocked || []}
+                actionLabel="Unblock"
+                pendingUserId={unblockMutation.isPending ? unblockMutation.variables : undefined}
+                onAction={(userId) => unblockMutation.mutate(userId)}
+              />
+              <BlockList
+                title="Muted"
+                description="Muted people's posts and stories are hidden from your feeds. They aren't told."
+                emptyText="You haven't muted anyone"
+                entries={data?.muted || []}
+                actionLabel="Unmute"
+                pendingUserId={unmuteMutation.isPending ? unmuteMutation.variables : undefined}
+                onAction={(userId) => unmuteMutation.mutate(userId)}
+              />
+            </div>
+          )}
+        </div>
+
+        <BottomNav />
+      </Layout>
+  );
+}
@@ -6,7 +6,7 @@ import BottomNav from '../../components/BottomNav';
 import Button from '../../components/Button';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import Logo from '../../components/Logo';
-import { getToken } from '../../lib/auth';
+import { usersAPI } from '../../lib/api';
 
 export default function NotificationSettings() {
   const router = useRouter();
@@ -23,18 +23,8 @@ export default function NotificationSettings() {
   });
 
   const updateSettingsMutation = useMutation({
-    mutationFn: async (settings: any) => {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/users/settings`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${getToken()}`,
-        },
-        body: JSON.stringify({ notifications: settings }),
-      });
-      if (!res.ok) throw new Error('Failed to update settings');
-      return res.json();
-    },
+    mutationFn: (settings: typeof notificationSettings) =>
+      usersAPI.updateSettings({ notifications: settings }),
     onSuccess: () => {
       alert('Notification settings updated successfully!');
     },
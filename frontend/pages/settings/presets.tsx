@@ -7,23 +7,7 @@ import Button from '../../components/Button';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import Logo from '../../components/Logo';
 import { presetsAPI } from '../../lib/api';
-
-interface PresetFields {
-  email?: boolean;
-  phone?: boolean;
-  company?: boolean;
-  position?: boolean;
-  education?: boolean;
-  bio?: boolean;
-  handles?: boolean;
-  avatar?: boolean;
-}
-
-interface Presets {
-  personal?: PresetFields;
-  professional?: PresetFields;
-  custom?: PresetFields;
-}
+import type { PresetFields, VisibilityPresets as Presets } from '../../types';
 
 export default function VisibilityPresets() {
   const router = useRouter();
@@ -80,12 +64,12 @@ export default function VisibilityPresets() {
     { key: 'avatar', label: 'Avatar' },
   ];
 
-  const handleToggle = (presetName: string, field: keyof PresetFields) => {
+  const handleToggle = (presetName: keyof Presets, field: keyof PresetFields) => {
     const updatedPresets = {
       ...presets,
       [presetName]: {
-        ...presets[presetName as keyof Presets],
-        [field]: !presets[presetName as keyof Presets]?.[field],
+        ...presets[presetName],
+        [field]: !presets[presetName]?.[field],
       },
     };
     updateMutation.mutate(updatedPresets);
@@ -159,7 +143,7 @@ export default function VisibilityPresets() {
                       <input
                         type="checkbox"
                         checked={
-                          presets[presetName as keyof Presets]?.[field.key] || false
+                          presets[presetName]?.[field.key] || false
                         }
                         onChange={() => handleToggle(presetName, field.key)}
                         disabled={editingPreset !== presetName}
@@ -61,7 +61,7 @@ export default function ProfileEdit() {
             position: response.profile.position || '',
             phone: response.profile.phone || '',
             education: response.profile.education || '',
-            avatar_url: response.profile.avatar_url,
+            avatar_url: response.profile.avatar_url ?? undefined,
           });
         }
       } catch (error: any) {
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/router';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import Layout from '../../components/Layout';
@@ -6,7 +6,7 @@ import BottomNav from '../../components/BottomNav';
 import Button from '../../components/Button';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import { threadsAPI } from '../../lib/api';
-import { getSocket } from '../../lib/socket';
+import { useSocketEvent, useSocketRoom } from '../../lib/socket';
 import { getUser } from '../../lib/auth';
 import Link from 'next/link';
 import Image from 'next/image';
@@ -38,21 +38,10 @@ export default function ThreadDetail() {
     },
   });
 
-  useEffect(() => {
-    if (!threadId) return;
-
-    const socket = getSocket();
-    socket.emit('join:thread', threadId);
-
-    socket.on('thread.reply.new', () => {
-      queryClient.invalidateQueries({ queryKey: ['thread', threadId] });
-    });
-
-    return () => {
-      socket.emit('leave:thread', threadId);
-      socket.off('thread.reply.new');
-    };
-  }, [threadId, queryClient]);
+  useSocketRoom(typeof threadId === 'string' ? `thread:${threadId}` : null);
+  useSocketEvent('thread.reply.new', () => {
+    queryClient.invalidateQueries({ queryKey: ['thread', threadId] });
+  });
 
   const handleReply = (e: React.FormEvent) => {
     e.preventDefault();
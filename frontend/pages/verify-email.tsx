@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import { isAxiosError } from 'axios';
+import Layout from '../components/Layout';
+import Button from '../components/Button';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Logo from '../components/Logo';
+import { authAPI } from '../lib/api';
+import { isAuthenticated, updateStoredUser } from '../lib/auth';
+
+type Status = 'verifying' | 'verified' | 'error';
+
+export default function VerifyEmail() {
+  const router = useRouter();
+  const [status, setStatus] = useState<Status>('verifying');
+  const [error, setError] = useState('');
+  // Tokens are single-use, so a second request (e.g. a Strict Mode re-run) would fail
+  const requestedRef = useRef(false);
+
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const missingToken = router.isReady && !token;
+
+  useEffect(() => {
+    if (!token || requestedRef.current) return;
+    requestedRef.current = true;
+
+    authAPI
+      .verifyEmail(token)
+      .then(() => {
+        updateStoredUser({ is_verified: true });
+        setStatus('verified');
+      })
+      .catch((error: unknown) => {
+        setStatus('error');
+        setError(
+          (isAxiosError(error) && error.response?.data?.error) ||
+            'Could not verify your email. Please try again.'
+        );
+      });
+  }, [token]);
+
+  const signedIn = isAuthenticated();
+  const currentStatus: Status = missingToken ? 'error' : status;
+  const errorMessage = missingToken ? 'This verification link is incomplete.' : error;
+
+  return (
+    <Layout title="Verify Email - Kartess">
+      <div className="min-h-screen flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-4">
+              <Logo size="lg" showText={false} onClick={() => {}} />
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              Email Verification
+            </h1>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6 text-center">
+            {currentStatus === 'verifying' && (
+              <div className="flex flex-col items-center gap-3">
+                <LoadingSpinner size="md" />
+                <p className="text-sm text-gray-600">Confirming your email...</p>
+              </div>
+            )}
+
+            {currentStatus === 'verified' && (
+              <>
+                <p className="text-gray-900 font-medium mb-2">Your email is confirmed</p>
+                <p className="text-sm text-gray-600 mb-4">Thanks for verifying your address.</p>
+                <Button onClick={() => router.push(signedIn ? '/home' : '/login')} className="w-full">
+                  {signedIn ? 'Continue' : 'Sign In'}
+                </Button>
+              </>
+            )}
+
+            {currentStatus === 'error' && (
+              <>
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+                  {errorMessage}
+                </div>
+                <p className="text-sm text-gray-600 mb-4">
+                  {signedIn
+                    ? 'You can send a new link from Settings → Account.'
+                    : 'Sign in to send a new link from Settings → Account.'}
+                </p>
+                <Button
+                  variant="secondary"
+                  onClick={() => router.push(signedIn ? '/settings/account' : '/login')}
+                  className="w-full"
+                >
+                  {signedIn ? 'Go to Account Settings' : 'Sign In'}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,55 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useRtcSession } from '../../hooks/useRtcSession';
+import { createLoopbackProvider } from '../../lib/rtc/loopback';
+import type { RtcProvider } from '../../lib/rtc';
+
+describe('useRtcSession', () => {
+  const provider = createLoopbackProvider({ peers: ['Alex', 'Sam'] });
+
+  it('should not connect until a room URL is set', () => {
+    const { result } = renderHook(() => useRtcSession({ roomUrl: '', token: null, provider }));
+
+    expect(result.current.isConnected).toBe(false);
+    expect(result.current.isConnecting).toBe(false);
+    expect(result.current.participants).toEqual([]);
+  });
+
+  it('should join the room and list the other participants', async () => {
+    const { result } = renderHook(() =>
+      useRtcSession({ roomUrl: 'loopback://room', token: null, provider })
+    );
+
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+    expect(result.current.isConnecting).toBe(false);
+    expect(result.current.localSessionId).toBe('loopback-local');
+    expect(result.current.participants.map((participant) => participant.name)).toEqual(['Alex', 'Sam']);
+    expect(result.current.activeSpeakerId).toBe(result.current.participants[0].id);
+  });
+
+  it('should clear the room after leaving', async () => {
+    const { result } = renderHook(() =>
+      useRtcSession({ roomUrl: 'loopback://room', token: null, provider })
+    );
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+
+    act(() => {
+      result.current.leave();
+    });
+
+    await waitFor(() => expect(result.current.isConnected).toBe(false));
+    expect(result.current.participants).toEqual([]);
+    expect(result.current.activeSpeakerId).toBeNull();
+  });
+
+  it('should report missing media support instead of connecting', async () => {
+    const mediaProvider: RtcProvider = { ...provider, usesMediaDevices: true, connect: jest.fn() };
+
+    const { result } = renderHook(() =>
+      useRtcSession({ roomUrl: 'https://example.daily.co/room', token: null, provider: mediaProvider })
+    );
+
+    await waitFor(() => expect(result.current.error).toMatch(/Media devices API not available/));
+    expect(mediaProvider.connect).not.toHaveBeenCalled();
+    expect(result.current.isConnected).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import type { AxiosAdapter } from 'axios';
+import api, { postsAPI } from '../../lib/api';
+
+const post = {
+  id: 'post-1',
+  user_id: 'user-1',
+  content: 'Hello',
+  module: 'connect',
+  visibility: 'public',
+  network_type: 'personal',
+  is_story: false,
+  is_reel: false,
+  is_poll: false,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  user: { id: 'user-1', username: 'alex', full_name: 'Alex', profile: null },
+};
+
+function respondWith(data: unknown) {
+  const adapter: AxiosAdapter = async (config) => ({
+    data,
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+  });
+  api.defaults.adapter = adapter;
+}
+
+function setNodeEnv(value: string) {
+  (process.env as Record<string, string>).NODE_ENV = value;
+}
+
+describe('api response validation', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    setNodeEnv(nodeEnv);
+    jest.clearAllMocks();
+  });
+
+  it('should return a response that matches its schema, keeping unlisted fields', async () => {
+    respondWith({ ...post, view_count: 3 });
+
+    await expect(postsAPI.getPost('post-1')).resolves.toEqual({ ...post, view_count: 3 });
+  });
+
+  it('should throw outside production when the response does not match', async () => {
+    respondWith({ ...post, visibility: 'everyone', user: undefined });
+
+    await expect(postsAPI.getPost('post-1')).rejects.toThrow(
+      /Unexpected response from GET \/api\/posts\/:postId[\s\S]*visibility[\s\S]*user/
+    );
+  });
+
+  it('should log the mismatch and pass the body through in production', async () => {
+    setNodeEnv('production');
+    const body = { ...post, is_poll: 'no' };
+    respondWith(body);
+
+    await expect(postsAPI.getPost('post-1')).resolves.toEqual(body);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('GET /api/posts/:postId'));
+  });
+});
@@ -0,0 +1,47 @@
+import { isSameSiteApi, usesCookieSession } from '../../lib/auth';
+
+describe('auth', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  // jsdom serves the page from http://localhost
+  describe('isSameSiteApi', () => {
+    it('should treat another port on the same host as the same site', () => {
+      expect(isSameSiteApi('http://localhost:3001')).toBe(true);
+    });
+
+    it('should compare the scheme as well as the host', () => {
+      expect(isSameSiteApi('https://localhost:3001')).toBe(false);
+    });
+
+    it('should treat another host as a different site', () => {
+      expect(isSameSiteApi('http://api.example.com')).toBe(false);
+    });
+  });
+
+  describe('usesCookieSession', () => {
+    it('should default to cookie sessions for a same-site API', () => {
+      delete process.env.NEXT_PUBLIC_AUTH_MODE;
+      process.env.NEXT_PUBLIC_API_URL = 'http://localhost:3001';
+
+      expect(usesCookieSession()).toBe(true);
+    });
+
+    it('should keep bearer tokens for a cross-site API', () => {
+      delete process.env.NEXT_PUBLIC_AUTH_MODE;
+      process.env.NEXT_PUBLIC_API_URL = 'https://kartess-api.up.railway.app';
+
+      expect(usesCookieSession()).toBe(false);
+    });
+
+    it('should let NEXT_PUBLIC_AUTH_MODE=token opt out', () => {
+      process.env.NEXT_PUBLIC_AUTH_MODE = 'token';
+      process.env.NEXT_PUBLIC_API_URL = 'http://localhost:3001';
+
+      expect(usesCookieSession()).toBe(false);
+    });
+  });
+});
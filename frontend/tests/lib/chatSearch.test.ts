@@ -0,0 +1,104 @@
+import {
+  buildSnippet,
+  indexMessages,
+  removeFromIndex,
+  searchIndex,
+  splitSearchTerms,
+} from '../../lib/chatSearch';
+import { UNDECRYPTABLE_MESSAGE } from '../../lib/encryption';
+import type { Message } from '../../types';
+// Shared with backend/utils/chatSearch.js so server and device results look the same
+import snippetCases from '../fixtures/searchSnippets.json';
+
+const mockUser = { id: 'user-1' };
+
+jest.mock('../../lib/auth', () => ({
+  getUser: () => mockUser,
+}));
+jest.mock('../../lib/idb', () => {
+  const records = new Map<string, unknown>();
+  return {
+    idbPut: async (store: string, key: string, value: unknown) => {
+      records.set(key, value);
+    },
+    idbDelete: async (store: string, key: string) => {
+      records.delete(key);
+    },
+    idbGetAll: async () => Array.from(records.values()),
+  };
+});
+
+function message(id: string, content: string, changes: Partial<Message> = {}): Message {
+  return {
+    id,
+    thread_id: 'thread-1',
+    user_id: 'user-2',
+    content,
+    encrypted: true,
+    created_at: `2026-01-0${id.slice(-1)}T00:00:00.000Z`,
+    user: { id: 'user-2', username: 'sam', full_name: 'Sam' },
+    ...changes,
+  };
+}
+
+describe('chatSearch', () => {
+  it('should lowercase and split queries on whitespace', () => {
+    expect(splitSearchTerms('  Lunch   NOON ')).toEqual(['lunch', 'noon']);
+  });
+
+  it.each(snippetCases.map((testCase) => [testCase.name, testCase] as const))('%s', (_, testCase) => {
+    expect(buildSnippet(testCase.content, splitSearchTerms(testCase.query))).toEqual(testCase.expected);
+  });
+
+  describe('on-device index', () => {
+    beforeAll(() => {
+      indexMessages([
+        message('msg-1', 'Project kickoff on Monday'),
+        message('msg-2', 'Kickoff moved, project room B', { thread_id: 'thread-2' }),
+        message('msg-3', 'Plaintext kickoff', { encrypted: false }),
+        message('msg-4', 'Sam renamed the project kickoff group', { type: 'system' }),
+        message('msg-5', UNDECRYPTABLE_MESSAGE),
+        message('msg-6', 'The project KICKOFF slides'),
+      ]);
+    });
+
+    it('should find decrypted messages matching every term, newest first', async () => {
+      const results = await searchIndex('kickoff project');
+
+      expect(results.map((result) => result.message_id)).toEqual(['msg-6', 'msg-2', 'msg-1']);
+      expect(results[0]).toEqual({
+        message_id: 'msg-6',
+        thread_id: 'thread-1',
+        user: { id: 'user-2', username: 'sam', full_name: 'Sam' },
+        created_at: '2026-01-06T00:00:00.000Z',
+        snippet: 'The project KICKOFF slides',
+        highlights: [
+          { start: 4, end: 11 },
+          { start: 12, end: 19 },
+        ],
+      });
+    });
+
+    it('should limit results to one thread and a maximum count', async () => {
+      expect((await searchIndex('kickoff', 'thread-2')).map((result) => result.message_id)).toEqual([
+        'msg-2',
+      ]);
+      expect(await searchIndex('kickoff', undefined, 1)).toHaveLength(1);
+    });
+
+    it('should ignore blank queries and entries indexed by another user', async () => {
+      expect(await searchIndex('   ')).toEqual([]);
+
+      mockUser.id = 'user-3';
+      expect(await searchIndex('kickoff')).toEqual([]);
+      mockUser.id = 'user-1';
+    });
+
+    it('should forget removed messages', async () => {
+      expect((await searchIndex('slides')).map((result) => result.message_id)).toEqual(['msg-6']);
+      removeFromIndex('msg-6');
+
+      expect((await searchIndex('slides')).map((result) => result.message_id)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { chatsAPI, profileAPI } from '../../lib/api';
+import {
+  decryptMessage,
+  encryptMessage,
+  invalidateThreadKeys,
+  UNDECRYPTABLE_MESSAGE,
+} from '../../lib/encryption';
+
+jest.mock('../../lib/api', () => ({
+  chatsAPI: { getThreadKeys: jest.fn(), rotateThreadKey: jest.fn() },
+  profileAPI: { publishDeviceKey: jest.fn(), getDeviceKeys: jest.fn() },
+}));
+jest.mock('../../lib/auth', () => ({
+  getUser: () => ({ id: 'user-1' }),
+}));
+jest.mock('../../lib/idb', () => {
+  const records = new Map<string, unknown>();
+  return {
+    idbGet: async (store: string, key: string) => records.get(`${store}:${key}`),
+    idbPut: async (store: string, key: string, value: unknown) => {
+      records.set(`${store}:${key}`, value);
+    },
+  };
+});
+
+// jsdom has neither Web Crypto nor the text codecs
+Object.defineProperty(window.crypto, 'subtle', { value: webcrypto.subtle });
+Object.assign(global, { TextEncoder, TextDecoder });
+
+interface WrappedKey {
+  user_id: string;
+  device_id: string;
+  key_version: number;
+  wrapped_key: string;
+  ephemeral_public_key: string;
+}
+
+// The key endpoints, kept in memory: one thread between user-1 and user-2
+const devices: Array<{ user_id: string; device_id: string; public_key: string }> = [];
+let keyVersion = 0;
+let wrappedKeys: WrappedKey[] = [];
+
+function rotationRequired() {
+  const current = wrappedKeys.filter((key) => key.key_version === keyVersion);
+  return (
+    keyVersion === 0 ||
+    devices.some((device) => !current.some((key) => key.device_id === device.device_id))
+  );
+}
+
+async function publishOtherDevice(deviceId: string) {
+  const keyPair = (await webcrypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, [
+    'deriveKey',
+  ])) as CryptoKeyPair;
+  const spki = await webcrypto.subtle.exportKey('spki', keyPair.publicKey);
+  devices.push({ user_id: 'user-2', device_id: deviceId, public_key: Buffer.from(spki).toString('base64') });
+}
+
+describe('encryption', () => {
+  beforeAll(() => {
+    (profileAPI.publishDeviceKey as jest.Mock).mockImplementation(async (data) => {
+      if (!devices.some((device) => device.device_id === data.device_id)) {
+        devices.push({ user_id: 'user-1', device_id: data.device_id, public_key: data.public_key });
+      }
+      return { key: { user_id: 'user-1', ...data } };
+    });
+    (profileAPI.getDeviceKeys as jest.Mock).mockImplementation(async () => ({ keys: devices }));
+    (chatsAPI.getThreadKeys as jest.Mock).mockImplementation(async (threadId: string, deviceId: string) => ({
+      key_version: keyVersion,
+      rotation_required: rotationRequired(),
+      participant_ids: ['user-1', 'user-2'],
+      keys: wrappedKeys.filter((key) => key.device_id === deviceId),
+    }));
+    (chatsAPI.rotateThreadKey as jest.Mock).mockImplementation(async (threadId: string, data) => {
+      if (data.key_version !== keyVersion + 1) {
+        return Promise.reject({ response: { status: 409 } });
+      }
+      keyVersion = data.key_version;
+      wrappedKeys = [
+        ...wrappedKeys,
+        ...data.keys.map((key: Omit<WrappedKey, 'key_version'>) => ({ ...key, key_version: keyVersion })),
+      ];
+      return { key_version: keyVersion };
+    });
+  });
+
+  it('should create the first thread key and round-trip a message', async () => {
+    const sealed = await encryptMessage('thread-1', 'See you at noon');
+
+    expect(sealed.key_version).toBe(1);
+    expect(sealed.content).not.toContain('noon');
+    expect(devices).toHaveLength(1);
+
+    const opened = await decryptMessage('thread-1', { ...sealed, encrypted: true });
+    expect(opened.content).toBe('See you at noon');
+  });
+
+  it('should decrypt a quoted message too', async () => {
+    const original = await encryptMessage('thread-1', 'Lunch?');
+    const reply = await encryptMessage('thread-1', 'Sure');
+
+    const opened = await decryptMessage('thread-1', {
+      ...reply,
+      encrypted: true,
+      reply_to: { ...original, encrypted: true },
+    });
+
+    expect(opened.content).toBe('Sure');
+    expect(opened.reply_to?.content).toBe('Lunch?');
+  });
+
+  it('should rotate the key when a participant device appears and keep old messages readable', async () => {
+    const before = await encryptMessage('thread-1', 'Before the new phone');
+    await publishOtherDevice('device-user-2');
+    invalidateThreadKeys('thread-1');
+
+    const after = await encryptMessage('thread-1', 'After the new phone');
+
+    expect(after.key_version).toBe(2);
+    expect(wrappedKeys.filter((key) => key.key_version === 2).map((key) => key.device_id)).toEqual(
+      devices.map((device) => device.device_id)
+    );
+    expect((await decryptMessage('thread-1', { ...before, encrypted: true })).content).toBe(
+      'Before the new phone'
+    );
+    expect((await decryptMessage('thread-1', { ...after, encrypted: true })).content).toBe(
+      'After the new phone'
+    );
+  });
+
+  it('should reload and retry when another participant rotates first', async () => {
+    await publishOtherDevice('device-user-2-tablet');
+    invalidateThreadKeys('thread-1');
+    const rotateThreadKey = chatsAPI.rotateThreadKey as jest.Mock;
+    const callsBefore = rotateThreadKey.mock.calls.length;
+    rotateThreadKey.mockRejectedValueOnce({ response: { status: 409 } });
+
+    const sealed = await encryptMessage('thread-1', 'Race');
+
+    expect(rotateThreadKey.mock.calls.length - callsBefore).toBe(2);
+    expect(sealed.key_version).toBe(3);
+    expect((await decryptMessage('thread-1', { ...sealed, encrypted: true })).content).toBe('Race');
+  });
+
+  it('should show a placeholder when the key was never wrapped for this device', async () => {
+    const message = { content: 'c2VhbGVk', encrypted: true, key_version: 99 };
+
+    expect((await decryptMessage('thread-1', message)).content).toBe(UNDECRYPTABLE_MESSAGE);
+  });
+
+  it('should leave plaintext messages alone', async () => {
+    const message = { content: 'Plain', encrypted: false };
+
+    expect(await decryptMessage('thread-1', message)).toBe(message);
+  });
+});
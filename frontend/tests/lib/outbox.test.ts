@@ -0,0 +1,153 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { OutboxEntry } from '../../lib/outbox';
+
+jest.mock('../../lib/api', () => ({
+  messagesAPI: { send: jest.fn() },
+}));
+jest.mock('../../lib/auth', () => ({
+  getUser: () => ({ id: 'user-1' }),
+}));
+jest.mock('../../lib/idb', () => ({
+  idbGetAll: jest.fn(),
+  idbPut: jest.fn(),
+  idbDelete: jest.fn(),
+}));
+
+const offline = new AxiosError('Network Error', AxiosError.ERR_NETWORK);
+
+function rejected(status: number, data: object) {
+  return new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, undefined, undefined, {
+    status,
+    statusText: '',
+    data,
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+}
+
+describe('outbox', () => {
+  // Fresh module state (queue, load and flush promises) for every test
+  let outbox: typeof import('../../lib/outbox');
+  let send: jest.Mock;
+  let idb: { idbGetAll: jest.Mock; idbPut: jest.Mock; idbDelete: jest.Mock };
+
+  beforeEach(async () => {
+    jest.resetModules();
+    outbox = await import('../../lib/outbox');
+    send = (await import('../../lib/api')).messagesAPI.send as jest.Mock;
+    idb = (await import('../../lib/idb')) as unknown as typeof idb;
+    idb.idbGetAll.mockResolvedValue([]);
+    idb.idbPut.mockResolvedValue(undefined);
+    idb.idbDelete.mockResolvedValue(undefined);
+    send.mockImplementation(async (data) => ({ id: `message-${data.content}`, ...data }));
+  });
+
+  it('should deliver a queued message with its client ID and hand back the server copy', async () => {
+    const listener = jest.fn();
+    outbox.subscribeOutbox(listener);
+
+    const entry = await outbox.queueMessage({ thread_id: 'thread-1', content: 'Hi' });
+    await outbox.flushOutbox();
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ client_id: entry.client_id, content: 'Hi' }));
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: 'message-Hi' }));
+    expect(outbox.getOutboxEntries('thread-1')).toEqual([]);
+    expect(idb.idbDelete).toHaveBeenCalledWith('outbox', entry.client_id);
+  });
+
+  it('should keep messages queued in order while offline and replay them with the same client IDs', async () => {
+    send.mockRejectedValue(offline);
+
+    const first = await outbox.queueMessage({ thread_id: 'thread-1', content: 'One' });
+    const second = await outbox.queueMessage({ thread_id: 'thread-1', content: 'Two' });
+    await outbox.flushOutbox();
+
+    expect(outbox.getOutboxEntries('thread-1').map((entry) => entry.status)).toEqual(['failed', 'failed']);
+
+    send.mockReset();
+    send.mockImplementation(async (data) => ({ id: `message-${data.content}`, ...data }));
+    await outbox.flushOutbox();
+
+    expect(send.mock.calls.map(([data]) => data.client_id)).toEqual([first.client_id, second.client_id]);
+    expect(outbox.getOutboxEntries('thread-1')).toEqual([]);
+  });
+
+  it('should wait out a rate limit and try again', async () => {
+    send.mockRejectedValueOnce(rejected(429, { retryAfterMs: 1 }));
+
+    await outbox.queueMessage({ thread_id: 'thread-1', content: 'Hi' });
+    await outbox.flushOutbox();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0][0].client_id).toBe(send.mock.calls[1][0].client_id);
+    expect(outbox.getOutboxEntries('thread-1')).toEqual([]);
+  });
+
+  it('should hold a rejected message until the user retries it', async () => {
+    send.mockRejectedValueOnce(rejected(400, { error: 'Message is too long' }));
+
+    const entry = await outbox.queueMessage({ thread_id: 'thread-1', content: 'Hi' });
+    await outbox.flushOutbox();
+
+    expect(outbox.getOutboxEntries('thread-1')).toEqual([
+      expect.objectContaining({ status: 'failed', error: 'Message is too long' }),
+    ]);
+
+    await outbox.flushOutbox();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await outbox.retryMessage(entry.client_id);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(outbox.getOutboxEntries('thread-1')).toEqual([]);
+  });
+
+  it('should hold only the message that failed locally and send the rest', async () => {
+    send.mockRejectedValueOnce(new Error('Thread key unavailable'));
+
+    await outbox.queueMessage({ thread_id: 'thread-1', content: 'One' });
+    await outbox.queueMessage({ thread_id: 'thread-1', content: 'Two' });
+    await outbox.flushOutbox();
+
+    expect(send.mock.calls.map(([data]) => data.content)).toEqual(['One', 'Two']);
+    expect(outbox.getOutboxEntries('thread-1')).toEqual([
+      expect.objectContaining({ content: 'One', status: 'failed', error: 'Failed to send message' }),
+    ]);
+  });
+
+  it('should send messages left over from an earlier visit before new ones', async () => {
+    const stored: OutboxEntry = {
+      client_id: 'client-earlier',
+      user_id: 'user-1',
+      thread_id: 'thread-1',
+      content: 'Earlier',
+      media: [],
+      created_at: '2026-01-01T00:00:00.000Z',
+      status: 'failed',
+    };
+    idb.idbGetAll.mockResolvedValue([stored]);
+
+    await outbox.queueMessage({ thread_id: 'thread-1', content: 'Later' });
+    await outbox.flushOutbox();
+
+    expect(send.mock.calls.map(([data]) => data.content)).toEqual(['Earlier', 'Later']);
+  });
+
+  it('should not send another user\'s queued messages', async () => {
+    idb.idbGetAll.mockResolvedValue([
+      {
+        client_id: 'client-other',
+        user_id: 'user-2',
+        thread_id: 'thread-1',
+        content: 'Not mine',
+        media: [],
+        created_at: '2026-01-01T00:00:00.000Z',
+        status: 'failed',
+      },
+    ]);
+
+    await outbox.flushOutbox();
+
+    expect(send).not.toHaveBeenCalled();
+    expect(outbox.getOutboxEntries('thread-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { act, renderHook } from '@testing-library/react';
+import { redirectToLogin } from '../../lib/auth';
+import { flushOutbox } from '../../lib/outbox';
+import { disconnectSocket, getSocket, useSocketEvent, useSocketRoom } from '../../lib/socket';
+import type { SocketRoom } from '../../types/socket';
+
+// A socket whose server side the tests drive
+const mockSocket = {
+  handlers: new Map<string, Set<(...args: unknown[]) => void>>(),
+  connected: true,
+  on: jest.fn((event: string, handler: (...args: unknown[]) => void) => {
+    if (!mockSocket.handlers.has(event)) mockSocket.handlers.set(event, new Set());
+    mockSocket.handlers.get(event)!.add(handler);
+  }),
+  off: jest.fn((event: string, handler: (...args: unknown[]) => void) => {
+    mockSocket.handlers.get(event)?.delete(handler);
+  }),
+  emit: jest.fn(),
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+  io: { on: jest.fn() },
+};
+
+function serverSends(event: string, ...args: unknown[]) {
+  act(() => {
+    mockSocket.handlers.get(event)?.forEach((handler) => handler(...args));
+  });
+}
+
+jest.mock('socket.io-client', () => ({
+  io: jest.fn(() => mockSocket),
+}));
+jest.mock('../../lib/auth', () => ({
+  getToken: jest.fn(() => 'token'),
+  redirectToLogin: jest.fn(),
+}));
+jest.mock('../../lib/outbox', () => ({
+  flushOutbox: jest.fn(() => Promise.resolve()),
+}));
+
+describe('socket', () => {
+  beforeEach(() => {
+    mockSocket.handlers.clear();
+    mockSocket.connected = true;
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    disconnectSocket();
+  });
+
+  describe('useSocketEvent', () => {
+    it('should call the latest handler and stop listening on unmount', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const { rerender, unmount } = renderHook(({ handler }) => useSocketEvent('thread.read', handler), {
+        initialProps: { handler: first },
+      });
+
+      rerender({ handler: second });
+      serverSends('thread.read', { thread_id: 'thread-1', unreadCount: 0 });
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledWith({ thread_id: 'thread-1', unreadCount: 0 });
+
+      unmount();
+      serverSends('thread.read', { thread_id: 'thread-1', unreadCount: 0 });
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only remove its own listener', () => {
+      const kept = jest.fn();
+      renderHook(() => useSocketEvent('thread.updated', kept));
+      const { unmount } = renderHook(() => useSocketEvent('thread.updated', jest.fn()));
+
+      unmount();
+      serverSends('thread.updated', { thread_id: 'thread-1' });
+
+      expect(kept).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not listen while disabled', () => {
+      const handler = jest.fn();
+      renderHook(() => useSocketEvent('thread.updated', handler, false));
+
+      serverSends('thread.updated', { thread_id: 'thread-1' });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useSocketRoom', () => {
+    it('should join a room once and leave after its last subscriber unmounts', () => {
+      const first = renderHook(() => useSocketRoom('thread:thread-1'));
+      const second = renderHook(() => useSocketRoom('thread:thread-1'));
+
+      expect(mockSocket.emit).toHaveBeenCalledTimes(1);
+      expect(mockSocket.emit).toHaveBeenCalledWith('join:thread', 'thread-1');
+
+      first.unmount();
+      expect(mockSocket.emit).not.toHaveBeenCalledWith('leave:thread', 'thread-1');
+
+      second.unmount();
+      expect(mockSocket.emit).toHaveBeenCalledWith('leave:thread', 'thread-1');
+    });
+
+    it('should join rooms in use again and replay the outbox after reconnecting', () => {
+      mockSocket.connected = false;
+      const rooms: SocketRoom[] = ['posts', 'live:live-1'];
+      const hooks = rooms.map((room) => renderHook(() => useSocketRoom(room)));
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+
+      mockSocket.connected = true;
+      serverSends('connect');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('subscribe:posts');
+      expect(mockSocket.emit).toHaveBeenCalledWith('join:live', 'live-1');
+      expect(flushOutbox).toHaveBeenCalled();
+
+      hooks.forEach((hook) => hook.unmount());
+    });
+
+    it('should skip a missing room', () => {
+      renderHook(() => useSocketRoom(null));
+
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should sign out when the server revokes this session', () => {
+    getSocket();
+
+    serverSends('session.revoked', { sessionId: 'session-1' });
+
+    expect(mockSocket.disconnect).toHaveBeenCalled();
+    expect(redirectToLogin).toHaveBeenCalledWith('session_revoked');
+  });
+});
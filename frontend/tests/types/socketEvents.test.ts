@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import {
+  applicationStatusSchema,
+  commentSchema,
+  liveChatMessageSchema,
+  messageReactionSchema,
+  messageSchema,
+  postSchema,
+  reactionSchema,
+  threadReplySchema,
+  userSummarySchema,
+} from '../../types/schemas';
+import type { ServerToClientEvents } from '../../types/socket';
+// The backend's route tests check what they emit against the same samples
+import socketEvents from '../fixtures/socketEvents.json';
+
+type EventPayloadSchemas = {
+  [Event in keyof ServerToClientEvents]: z.ZodType<Parameters<ServerToClientEvents[Event]>[0]>;
+};
+
+const id = z.string();
+
+// Typed against the event map, so tsc fails when a schema and types/socket.ts drift
+// apart. Event payloads are strict: a key the types do not list is an error
+const eventSchemas: EventPayloadSchemas = {
+  'post.new': postSchema,
+  'post.updated': postSchema,
+  'post.deleted': z.strictObject({ id, user_id: id.optional() }),
+  'reaction.update': z.strictObject({ post_id: id, reaction: reactionSchema.nullable() }),
+  'comment.new': commentSchema,
+  'comment.updated': commentSchema,
+  'comment.deleted': z.strictObject({ comment_id: id, post_id: id }),
+  'poll.vote': z.strictObject({ post_id: id, option_id: id, user_id: id }),
+  'message.new': messageSchema,
+  'message.updated': messageSchema,
+  'message.deleted': z.strictObject({ message_id: id, thread_id: id }),
+  'message.reaction': z.strictObject({ message_id: id, thread_id: id, reactions: z.array(messageReactionSchema) }),
+  'message.read': z.strictObject({ thread_id: id, user_id: id, message_ids: z.array(id), read_at: z.string() }),
+  'thread:typing': z.strictObject({ user_id: id, typing: z.boolean() }),
+  'thread.key_rotated': z.strictObject({ thread_id: id, key_version: z.number() }),
+  'thread.reply.new': threadReplySchema,
+  'call.group.updated': z.strictObject({
+    sessionId: id,
+    threadId: id,
+    callType: z.enum(['voice', 'video']),
+    status: z.enum(['active', 'ended']),
+    activeParticipantIds: z.array(id),
+  }),
+  'notification.new': z.strictObject({ type: z.string(), title: z.string(), message: z.string() }),
+  'application.status': z.strictObject({ applicationId: id, jobId: id, status: applicationStatusSchema }),
+  'thread.updated': z.strictObject({ thread_id: id }),
+  'thread.deleted': z.strictObject({ thread_id: id }),
+  'thread.member_removed': z.strictObject({ thread_id: id, user_id: id }),
+  'thread.unread': z.strictObject({ thread_id: id }),
+  'thread.read': z.strictObject({ thread_id: id, unreadCount: z.number() }),
+  'call.incoming': z.strictObject({
+    sessionId: id,
+    threadId: id,
+    caller: userSummarySchema.nullable(),
+    type: z.enum(['voice', 'video']),
+    roomUrl: z.string(),
+  }),
+  'call.accepted': z.strictObject({ sessionId: id, acceptedBy: id }),
+  'call.rejected': z.strictObject({ sessionId: id, rejectedBy: id }),
+  'call.ended': z.strictObject({ sessionId: id, endedBy: id }),
+  'live.stream.started': z.strictObject({
+    sessionId: id,
+    host: userSummarySchema.nullable(),
+    title: z.string(),
+    description: z.string().optional(),
+    category: z.string().optional(),
+    roomUrl: z.string(),
+    rsvped: z.boolean().optional(),
+  }),
+  'session.revoked': z.strictObject({ sessionId: id }),
+  'live.viewers.updated': z.strictObject({ sessionId: id, viewersCount: z.number() }),
+  'live.stream.ended': z.strictObject({ sessionId: id, endedBy: id }),
+  'live.chat.message': liveChatMessageSchema,
+  'live.chat.deleted': z.strictObject({ sessionId: id, messageId: id }),
+  'live.chat.settings': z.strictObject({ sessionId: id, slowModeSeconds: z.number(), moderatorIds: z.array(id) }),
+  'live.user.banned': z.strictObject({ sessionId: id, userId: id }),
+  'live.reaction': z.strictObject({ sessionId: id, emoji: z.string(), userId: id }),
+  error: z.strictObject({ message: z.string() }),
+};
+
+const samples = Object.entries(socketEvents.payloads).flatMap(([event, payloads]) =>
+  payloads.map((payload, index) => [`${event} #${index + 1}`, event, payload] as const)
+);
+
+describe('socket event contract', () => {
+  it('should cover every server event in the shared samples', () => {
+    const covered = [...socketEvents.entityEvents, ...Object.keys(socketEvents.payloads)];
+
+    expect(covered.sort()).toEqual(Object.keys(eventSchemas).sort());
+  });
+
+  it.each(samples)('should accept the %s sample', (_, event, payload) => {
+    const schema = eventSchemas[event as keyof ServerToClientEvents];
+
+    expect(schema.safeParse(payload).error).toBeUndefined();
+  });
+});
@@ -1,36 +1,115 @@
-export interface User {
-  id: string;
-  email: string;
-  username: string;
-  full_name: string;
-  role?: 'admin' | 'moderator' | 'user';
-  profile?: Profile;
-}
-
-export interface Profile {
-  id: string;
-  bio?: string;
-  company?: string;
-  position?: string;
-  phone?: string;
-  education?: string;
-  avatar_url?: string;
-  handles?: {
-    connect?: string;
-    visuals?: string;
-    threads?: string;
-    careernet?: string;
-  };
-}
-
-export interface AuthResponse {
-  token: string;
-  refreshToken?: string;
-  user: User;
-  profileComplete?: boolean;
-  qrContact?: {
-    id: string;
-    user?: User;
-    [key: string]: any;
-  };
-}
+import { z } from 'zod';
+import {
+  activeCallSchema,
+  adminStatsSchema,
+  applicantSchema,
+  applicationNoteSchema,
+  applicationSchema,
+  applicationStatusSchema,
+  authResponseSchema,
+  blockEntrySchema,
+  bookmarkSchema,
+  callHistoryEntrySchema,
+  callSessionSchema,
+  callSummarySchema,
+  chatThreadSchema,
+  commentSchema,
+  contactSchema,
+  deviceKeySchema,
+  endorsementSchema,
+  groupDetailsSchema,
+  hashtagSchema,
+  jobSchema,
+  liveChatMessageSchema,
+  liveChatSettingsSchema,
+  liveRsvpSchema,
+  loginSessionSchema,
+  mentionSuggestionSchema,
+  messageSchema,
+  messageReactionSchema,
+  messageSearchResultSchema,
+  myApplicationSchema,
+  notificationSchema,
+  pollSchema,
+  postSchema,
+  profileSchema,
+  publicUserSchema,
+  reactionSchema,
+  reportSchema,
+  revisionSchema,
+  roomAccessSchema,
+  savedJobSearchSchema,
+  storyGroupSchema,
+  storyHighlightSchema,
+  threadReplySchema,
+  threadSchema,
+  twoFactorChallengeSchema,
+  twoFactorStatusSchema,
+  userAnalyticsSchema,
+  userSchema,
+  userSettingsSchema,
+  userSummarySchema,
+  visibilityPresetsSchema,
+} from './schemas';
+
+// Domain models are inferred from the runtime schemas in ./schemas so the two can't drift
+
+export type User = z.infer<typeof userSchema>;
+export type UserSummary = z.infer<typeof userSummarySchema>;
+export type PublicUser = z.infer<typeof publicUserSchema>;
+export type UserAnalytics = z.infer<typeof userAnalyticsSchema>;
+export type Profile = z.infer<typeof profileSchema>;
+export type UserSettings = z.infer<typeof userSettingsSchema>;
+export type BlockEntry = z.infer<typeof blockEntrySchema>;
+export type VisibilityPresets = z.infer<typeof visibilityPresetsSchema>;
+export type PresetFields = NonNullable<VisibilityPresets['personal']>;
+export type AuthResponse = z.infer<typeof authResponseSchema>;
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+export type LoginSession = z.infer<typeof loginSessionSchema>;
+export type DeviceKey = z.infer<typeof deviceKeySchema>;
+
+export type Post = z.infer<typeof postSchema>;
+export type Comment = z.infer<typeof commentSchema>;
+export type Revision = z.infer<typeof revisionSchema>;
+export type Reaction = z.infer<typeof reactionSchema>;
+export type Poll = z.infer<typeof pollSchema>;
+export type Bookmark = z.infer<typeof bookmarkSchema>;
+export type StoryGroup = z.infer<typeof storyGroupSchema>;
+export type StoryHighlight = z.infer<typeof storyHighlightSchema>;
+
+export type Hashtag = z.infer<typeof hashtagSchema>;
+export type MentionSuggestion = z.infer<typeof mentionSuggestionSchema>;
+
+export type Contact = z.infer<typeof contactSchema>;
+export type Notification = z.infer<typeof notificationSchema>;
+
+export type ChatThread = z.infer<typeof chatThreadSchema>;
+export type GroupDetails = z.infer<typeof groupDetailsSchema>;
+export type Message = z.infer<typeof messageSchema>;
+export type MessageReaction = z.infer<typeof messageReactionSchema>;
+export type MessageSearchResult = z.infer<typeof messageSearchResultSchema>;
+
+export type Thread = z.infer<typeof threadSchema>;
+export type ThreadReply = z.infer<typeof threadReplySchema>;
+
+export type Job = z.infer<typeof jobSchema>;
+export type Application = z.infer<typeof applicationSchema>;
+export type ApplicationStatus = z.infer<typeof applicationStatusSchema>;
+export type ApplicationNote = z.infer<typeof applicationNoteSchema>;
+export type Applicant = z.infer<typeof applicantSchema>;
+export type MyApplication = z.infer<typeof myApplicationSchema>;
+export type SavedJobSearch = z.infer<typeof savedJobSearchSchema>;
+export type Endorsement = z.infer<typeof endorsementSchema>;
+
+export type CallSession = z.infer<typeof callSessionSchema>;
+export type CallSummary = z.infer<typeof callSummarySchema>;
+export type ActiveCall = z.infer<typeof activeCallSchema>;
+export type CallHistoryEntry = z.infer<typeof callHistoryEntrySchema>;
+export type RoomAccess = z.infer<typeof roomAccessSchema>;
+export type LiveChatMessage = z.infer<typeof liveChatMessageSchema>;
+export type LiveChatSettings = z.infer<typeof liveChatSettingsSchema>;
+export type LiveRsvp = z.infer<typeof liveRsvpSchema>;
+
+export type Report = z.infer<typeof reportSchema>;
+export type AdminStats = z.infer<typeof adminStatsSchema>;
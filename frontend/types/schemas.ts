@@ -0,0 +1,728 @@
+import { z } from 'zod';
+
+/**
+ * Runtime schemas for API responses, mirroring backend/prisma/schema.prisma.
+ *
+ * Objects are loose so fields added by the backend pass through untouched;
+ * only the fields listed here are checked. Prisma DateTime values arrive as
+ * ISO-8601 strings and nullable columns come back as `null`.
+ */
+
+const id = z.string();
+const timestamp = z.string();
+const stringList = z.array(z.string());
+
+export const userSummarySchema = z.looseObject({
+  id,
+  username: z.string(),
+  full_name: z.string(),
+  profile: z
+    .looseObject({
+      avatar_url: z.string().nullish(),
+    })
+    .nullish(),
+});
+
+export const userSettingsSchema = z.looseObject({
+  privacy: z
+    .looseObject({
+      profileVisibility: z.string().optional(),
+      showEmail: z.boolean().optional(),
+      allowMessages: z.boolean().optional(),
+      allowFollowRequests: z.boolean().optional(),
+    })
+    .optional(),
+  notifications: z
+    .looseObject({
+      emailNotifications: z.boolean().optional(),
+      pushNotifications: z.boolean().optional(),
+      newFollows: z.boolean().optional(),
+      newMessages: z.boolean().optional(),
+      newComments: z.boolean().optional(),
+      newReactions: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+// Which profile fields a contact sees under each preset
+const presetFieldsSchema = z.object({
+  email: z.boolean().optional(),
+  phone: z.boolean().optional(),
+  company: z.boolean().optional(),
+  position: z.boolean().optional(),
+  education: z.boolean().optional(),
+  bio: z.boolean().optional(),
+  handles: z.boolean().optional(),
+  avatar: z.boolean().optional(),
+});
+
+export const visibilityPresetsSchema = z.object({
+  personal: presetFieldsSchema.optional(),
+  professional: presetFieldsSchema.optional(),
+  custom: presetFieldsSchema.optional(),
+});
+
+export const profileSchema = z.looseObject({
+  id: id.optional(),
+  user_id: id.optional(),
+  bio: z.string().nullish(),
+  company: z.string().nullish(),
+  position: z.string().nullish(),
+  phone: z.string().nullish(),
+  education: z.string().nullish(),
+  avatar_url: z.string().nullish(),
+  handles: z
+    .looseObject({
+      connect: z.string().optional(),
+      visuals: z.string().optional(),
+      threads: z.string().optional(),
+      careernet: z.string().optional(),
+    })
+    .nullish(),
+  visibility_presets: visibilityPresetsSchema.nullish(),
+});
+
+export const userSchema = z.looseObject({
+  id,
+  email: z.string().optional(),
+  username: z.string(),
+  full_name: z.string(),
+  role: z.enum(['user', 'moderator', 'admin']).optional(),
+  is_verified: z.boolean().optional(),
+  is_suspended: z.boolean().optional(),
+  two_factor_enabled: z.boolean().optional(),
+  created_at: timestamp.optional(),
+  profile: profileSchema.nullish(),
+});
+
+export const deviceKeySchema = z.looseObject({
+  user_id: id,
+  device_id: z.string(),
+  public_key: z.string(), // Base64 SPKI ECDH public key
+});
+
+// Public profile as returned by GET /api/users/:username
+export const publicUserSchema = userSchema.extend({
+  _count: z
+    .looseObject({
+      posts: z.number(),
+      sentContacts: z.number(),
+      receivedContacts: z.number(),
+    })
+    .optional(),
+});
+
+export const userAnalyticsSchema = z.looseObject({
+  posts: z.looseObject({ total: z.number() }),
+  reactions: z.looseObject({ total: z.number() }),
+  comments: z.looseObject({ total: z.number() }),
+  contacts: z.looseObject({ total: z.number() }),
+  engagement: z.looseObject({
+    avgReactions: z.number(),
+    avgComments: z.number(),
+  }),
+});
+
+// A user the current user has blocked or muted, from GET /api/users/blocks
+export const blockEntrySchema = z.looseObject({
+  user: userSummarySchema,
+  created_at: timestamp,
+});
+
+export const authResponseSchema = z.looseObject({
+  // Tokens are only in the body in token mode; cookie sessions get a CSRF token instead
+  token: z.string().optional(),
+  refreshToken: z.string().optional(),
+  csrfToken: z.string().optional(),
+  user: userSchema,
+  profileComplete: z.boolean().optional(),
+  qrContact: z
+    .looseObject({
+      id,
+      user: userSchema.optional(),
+    })
+    .nullish(),
+  twoFactorRequired: z.literal(false).optional(), // See twoFactorChallengeSchema
+  twoFactorSetupRequired: z.boolean().optional(), // Staff who still have to enrol
+  usedRecoveryCode: z.boolean().optional(),
+});
+
+// Login response when the account has two-factor authentication enabled
+export const twoFactorChallengeSchema = z.looseObject({
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string(),
+});
+
+export const twoFactorStatusSchema = z.looseObject({
+  enabled: z.boolean(),
+  required: z.boolean(), // Admins and moderators can't turn it off
+  recoveryCodesRemaining: z.number(),
+});
+
+// A device the user is logged in on, from GET /api/sessions
+export const loginSessionSchema = z.looseObject({
+  id,
+  browser: z.string(),
+  os: z.string(),
+  device: z.enum(['desktop', 'mobile', 'tablet']),
+  ip_address: z.string().nullable(),
+  created_at: timestamp,
+  last_seen_at: timestamp,
+  expires_at: timestamp,
+  current: z.boolean(), // The session making the request
+});
+
+// Posts
+
+const postCountSchema = z.looseObject({
+  reactions: z.number(),
+  comments: z.number(),
+});
+
+const basePostSchema = z.looseObject({
+  id,
+  user_id: id,
+  content: z.string(),
+  module: z.string(), // 'connect', 'visuals', 'threads', 'careernet', or comma-separated
+  visibility: z.enum(['public', 'private', 'followers']),
+  network_type: z.enum(['personal', 'professional', 'both']),
+  media_urls: stringList.nullish(),
+  tags: stringList.nullish(),
+  parent_id: id.nullish(),
+  is_story: z.boolean(),
+  is_reel: z.boolean(),
+  is_poll: z.boolean(),
+  edited_at: timestamp.nullish(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  user: userSummarySchema,
+  _count: postCountSchema.optional(),
+  // Only the current user's reaction, when the endpoint is authenticated
+  reactions: z.array(z.looseObject({ type: z.string() })).optional(),
+});
+
+export const postSchema = basePostSchema.extend({
+  parent: basePostSchema.nullish(),
+});
+
+export const postPageSchema = z.looseObject({
+  posts: z.array(postSchema),
+  nextCursor: id.nullable(),
+});
+
+export const commentSchema = z.looseObject({
+  id,
+  post_id: id,
+  user_id: id,
+  content: z.string(),
+  parent_id: id.nullish(),
+  edited_at: timestamp.nullish(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  user: userSummarySchema,
+  parent: z
+    .looseObject({
+      id,
+      user: z.looseObject({ username: z.string() }).optional(),
+    })
+    .nullish(),
+  _count: z.looseObject({ replies: z.number() }).optional(),
+  get replies() {
+    return z.array(commentSchema).optional();
+  },
+});
+
+// A version of a post or comment that an edit replaced
+export const revisionSchema = z.looseObject({
+  id,
+  content: z.string(),
+  tags: stringList.nullish(), // Posts only
+  created_at: timestamp, // When this version was replaced
+});
+
+export const reactionSchema = z.looseObject({
+  id,
+  post_id: id.nullish(),
+  user_id: id,
+  type: z.string(), // 'like', 'love', 'wow', 'sad', 'angry', 'endorse'
+  created_at: timestamp,
+  user: userSummarySchema.optional(),
+});
+
+export const pollSchema = z.looseObject({
+  options: z.array(
+    z.looseObject({
+      id,
+      option_text: z.string(),
+      vote_count: z.number(),
+      percentage: z.number(),
+    })
+  ),
+  totalVotes: z.number(),
+  userVote: z
+    .looseObject({
+      option_id: id,
+      option_text: z.string(),
+    })
+    .nullable(),
+});
+
+export const bookmarkSchema = z.looseObject({
+  id,
+  user_id: id,
+  post_id: id,
+  created_at: timestamp,
+  post: basePostSchema.optional(),
+});
+
+export const storyHighlightSchema = z.looseObject({
+  id,
+  user_id: id,
+  title: z.string(),
+  cover_url: z.string().nullish(),
+  story_ids: stringList,
+  created_at: timestamp,
+  updated_at: timestamp,
+  stories: z.array(basePostSchema).optional(),
+});
+
+export const storyGroupSchema = z.looseObject({
+  user: userSummarySchema,
+  stories: z.array(basePostSchema),
+});
+
+// Search
+
+export const hashtagSchema = z.looseObject({
+  tag: z.string(),
+  count: z.number(),
+});
+
+export const mentionSuggestionSchema = z.looseObject({
+  id,
+  username: z.string(),
+  full_name: z.string(),
+  avatar_url: z.string().nullish(),
+});
+
+// Contacts
+
+export const contactSchema = z.looseObject({
+  id,
+  sender_id: id.optional(),
+  receiver_id: id.optional(),
+  status: z.enum(['pending', 'approved', 'rejected']),
+  sender_preset: z.string().nullish(),
+  receiver_preset: z.string().nullish(),
+  shared_data: z.record(z.string(), z.unknown()).nullish(),
+  created_at: timestamp,
+  updated_at: timestamp.optional(),
+  // Populated depending on the endpoint
+  user: userSummarySchema.optional(),
+  sender: userSummarySchema.optional(),
+  receiver: userSummarySchema.optional(),
+});
+
+// Notifications
+
+export const notificationSchema = z.looseObject({
+  id,
+  user_id: id,
+  sender_id: id.nullish(),
+  type: z.string(), // 'follow', 'message', 'reaction', 'comment', 'qr_scan', 'endorse', ...
+  title: z.string(),
+  message: z.string(),
+  link: z.string().nullish(),
+  read: z.boolean(),
+  created_at: timestamp,
+  sender: userSummarySchema.nullish(),
+});
+
+// Chats
+
+export const messageReactionSchema = z.looseObject({
+  emoji: z.string(),
+  user_id: id,
+});
+
+const callStatusSchema = z.enum(['ringing', 'accepted', 'rejected', 'ended']);
+
+// The call a 'call' message records
+export const callSummarySchema = z.looseObject({
+  id,
+  host_id: id,
+  thread_id: id.nullish(),
+  call_type: z.enum(['voice', 'video']).nullish(),
+  call_status: callStatusSchema.nullish(),
+  status: z.enum(['scheduled', 'active', 'ended']),
+  started_at: timestamp.nullish(),
+  answered_at: timestamp.nullish(),
+  ended_at: timestamp.nullish(),
+});
+
+export const messageSchema = z.looseObject({
+  id,
+  thread_id: id,
+  user_id: id,
+  content: z.string(),
+  encrypted: z.boolean(),
+  key_version: z.number().nullish(),
+  // System messages record group changes, call messages record calls; neither is encrypted
+  type: z.enum(['text', 'system', 'call']).optional(),
+  client_id: z.string().nullish(),
+  reply_to_id: id.nullish(),
+  // Quoted message; null once it has been deleted
+  reply_to: z
+    .looseObject({
+      id,
+      user_id: id,
+      content: z.string(),
+      encrypted: z.boolean(),
+      key_version: z.number().nullish(),
+      media_urls: stringList.nullish(),
+      user: userSummarySchema,
+    })
+    .nullish(),
+  media_urls: stringList.nullish(),
+  edited_at: timestamp.nullish(),
+  created_at: timestamp,
+  updated_at: timestamp.optional(),
+  user: userSummarySchema,
+  reactions: z.array(messageReactionSchema).optional(),
+  // Read receipts from every participant who has seen the message
+  reads: z.array(z.looseObject({ user_id: id, read_at: timestamp })).optional(),
+  call_session: callSummarySchema.nullish(),
+});
+
+export const chatThreadSchema = z.looseObject({
+  id,
+  type: z.enum(['1:1', 'group']),
+  name: z.string().nullish(),
+  avatar_url: z.string().nullish(),
+  admin_ids: stringList.optional(),
+  // Participants other than the current user
+  participants: z.array(userSummarySchema),
+  latestMessage: z
+    .looseObject({
+      id,
+      type: z.enum(['text', 'system', 'call']).optional(),
+      content: z.string(),
+      encrypted: z.boolean(),
+      key_version: z.number().nullish(),
+      created_at: timestamp,
+      user: userSummarySchema,
+    })
+    .nullable(),
+  unreadCount: z.number(),
+  updated_at: timestamp,
+});
+
+export const groupDetailsSchema = z.looseObject({
+  thread: chatThreadSchema.omit({ latestMessage: true, unreadCount: true }),
+  // Every member, including the current user
+  members: z.array(userSummarySchema),
+});
+
+export const messageSearchResultSchema = z.looseObject({
+  message_id: id,
+  thread_id: id,
+  user: userSummarySchema,
+  created_at: timestamp,
+  // Excerpt around the match; highlights are character ranges within it
+  snippet: z.string(),
+  highlights: z.array(z.looseObject({ start: z.number(), end: z.number() })),
+});
+
+export const wrappedThreadKeySchema = z.looseObject({
+  key_version: z.number(),
+  wrapped_key: z.string(),
+  ephemeral_public_key: z.string(),
+});
+
+// Threads module (discussions)
+
+export const threadReplySchema = z.looseObject({
+  id,
+  thread_id: id,
+  user_id: id,
+  content: z.string(),
+  parent_id: id.nullish(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  user: userSummarySchema,
+  get replies() {
+    return z.array(threadReplySchema).optional();
+  },
+});
+
+export const threadSchema = z.looseObject({
+  id,
+  user_id: id,
+  title: z.string(),
+  content: z.string(),
+  topic: z.string().nullish(),
+  pinned: z.boolean(),
+  locked: z.boolean(),
+  views_count: z.number(),
+  replies_count: z.number(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  user: userSummarySchema,
+  _count: z.looseObject({ replies: z.number() }).optional(),
+  replies: z.array(threadReplySchema).optional(),
+});
+
+// CareerNet
+
+export const jobSchema = z.looseObject({
+  id,
+  user_id: id,
+  title: z.string(),
+  description: z.string(),
+  company: z.string().nullish(),
+  location: z.string().nullish(), // Display text, built from city and country
+  location_city: z.string().nullish(),
+  location_country: z.string().nullish(),
+  workplace_type: z.enum(['onsite', 'hybrid', 'remote']).nullish(),
+  type: z.string().nullish(), // 'full-time', 'part-time', 'contract', 'internship'
+  seniority: z.enum(['entry', 'mid', 'senior', 'lead', 'executive']).nullish(),
+  salary_min: z.number().nullish(),
+  salary_max: z.number().nullish(),
+  salary_currency: z.string().nullish(),
+  salary_period: z.enum(['hour', 'month', 'year']).nullish(),
+  salary_range: z.string().nullish(), // Free text from before structured salaries
+  requirements: stringList.nullish(),
+  tags: stringList.nullish(),
+  application_url: z.string().nullish(),
+  application_email: z.string().nullish(),
+  status: z.enum(['open', 'closed', 'filled']),
+  expires_at: timestamp.nullish(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  user: userSummarySchema.extend({
+    profile: z
+      .looseObject({
+        avatar_url: z.string().nullish(),
+        company: z.string().nullish(),
+      })
+      .nullish(),
+  }),
+  _count: z.looseObject({ applications: z.number() }).optional(),
+});
+
+export const savedJobSearchSchema = z.looseObject({
+  id,
+  user_id: id,
+  name: z.string(),
+  query: z.string().nullish(),
+  type: z.string().nullish(),
+  location: z.string().nullish(),
+  workplace_type: z.string().nullish(),
+  seniority: z.string().nullish(),
+  tags: stringList.nullish(),
+  salary_min: z.number().nullish(),
+  salary_max: z.number().nullish(),
+  salary_currency: z.string().nullish(),
+  salary_period: z.enum(['hour', 'month', 'year']).nullish(),
+  alert_frequency: z.enum(['instant', 'daily', 'off']),
+  push_enabled: z.boolean(),
+  created_at: timestamp,
+});
+
+export const applicationStatusSchema = z.enum([
+  'pending',
+  'reviewed',
+  'interviewed',
+  'accepted',
+  'rejected',
+]);
+
+export const applicationSchema = z.looseObject({
+  id,
+  job_id: id,
+  user_id: id,
+  cover_letter: z.string().nullish(),
+  resume_url: z.string().nullish(),
+  status: applicationStatusSchema,
+  created_at: timestamp,
+  updated_at: timestamp,
+  user: userSummarySchema,
+  job: z.looseObject({ id, title: z.string() }).optional(),
+});
+
+// Private to the job poster
+export const applicationNoteSchema = z.looseObject({
+  id,
+  application_id: id,
+  author_id: id,
+  content: z.string(),
+  created_at: timestamp,
+  author: z.looseObject({ id, full_name: z.string() }),
+});
+
+// An application as the job poster sees it in the pipeline
+export const applicantSchema = applicationSchema.extend({
+  user: userSummarySchema.extend({
+    profile: z
+      .looseObject({
+        avatar_url: z.string().nullish(),
+        position: z.string().nullish(),
+        company: z.string().nullish(),
+      })
+      .nullish(),
+  }),
+  notes: z.array(applicationNoteSchema),
+});
+
+// An application as the candidate sees it
+export const myApplicationSchema = z.looseObject({
+  id,
+  job_id: id,
+  status: applicationStatusSchema,
+  resume_url: z.string().nullish(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  job: z.looseObject({
+    id,
+    title: z.string(),
+    company: z.string().nullish(),
+    location: z.string().nullish(),
+    status: z.enum(['open', 'closed', 'filled']),
+  }),
+});
+
+export const endorsementSchema = z.looseObject({
+  id,
+  giver_id: id,
+  receiver_id: id,
+  skill: z.string(),
+  message: z.string().nullish(),
+  created_at: timestamp,
+  giver: userSummarySchema,
+});
+
+// Live streaming and calls
+
+export const callSessionSchema = z.looseObject({
+  id,
+  host_id: id,
+  type: z.enum(['live', 'call']),
+  thread_id: id.nullish(),
+  title: z.string().nullish(),
+  description: z.string().nullish(),
+  category: z.string().nullish(),
+  daily_room_url: z.string().nullish(),
+  status: z.enum(['scheduled', 'active', 'ended']),
+  call_status: callStatusSchema.nullish(),
+  call_type: z.enum(['voice', 'video']).nullish(),
+  scheduled_at: timestamp.nullish(),
+  started_at: timestamp.nullish(),
+  answered_at: timestamp.nullish(),
+  ended_at: timestamp.nullish(),
+  participants: stringList.nullish(),
+  // Group calls: who is in the call right now
+  active_participant_ids: stringList.nullish(),
+  viewers_count: z.number(),
+  slow_mode_seconds: z.number().optional(),
+  moderator_ids: stringList.nullish(),
+  banned_user_ids: stringList.nullish(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  host: userSummarySchema.nullish(),
+  // Scheduled streams, from GET /api/live/upcoming
+  rsvp_count: z.number().optional(),
+  rsvped: z.boolean().optional(),
+});
+
+export const liveChatMessageSchema = z.looseObject({
+  id,
+  session_id: id,
+  user_id: id,
+  content: z.string(),
+  created_at: timestamp,
+  user: userSummarySchema,
+});
+
+export const liveChatSettingsSchema = z.looseObject({
+  slow_mode_seconds: z.number(),
+  moderator_ids: z.array(id),
+});
+
+export const liveRsvpSchema = z.looseObject({
+  rsvped: z.boolean(),
+  rsvp_count: z.number(),
+});
+
+// GET /api/live/threads/:threadId/call: the call in progress in a group thread
+export const activeCallSchema = callSummarySchema.extend({
+  active_participant_ids: stringList,
+});
+
+// GET /api/live/calls: a call from one of the user's threads, from their side
+export const callHistoryEntrySchema = callSummarySchema.extend({
+  created_at: timestamp,
+  host: userSummarySchema.nullable(),
+  direction: z.enum(['incoming', 'outgoing']),
+  outcome: z.enum(['ongoing', 'completed', 'missed', 'declined']),
+  duration_seconds: z.number().nullable(),
+  thread: z.looseObject({
+    id,
+    type: z.enum(['1:1', 'group']),
+    name: z.string().nullish(),
+    avatar_url: z.string().nullish(),
+    // Participants other than the current user
+    participants: z.array(userSummarySchema),
+  }),
+});
+
+export const roomAccessSchema = z.looseObject({
+  session: callSessionSchema,
+  roomUrl: z.string(), // Daily.co room URL
+  token: z.string(), // Daily.co meeting token
+  userId: id.optional(),
+});
+
+// Moderation
+
+export const reportSchema = z.looseObject({
+  id,
+  reporter_id: id,
+  target_type: z.enum(['post', 'comment', 'user', 'thread', 'job']),
+  target_id: id,
+  reason: z.enum(['spam', 'harassment', 'inappropriate', 'fake', 'other']),
+  description: z.string().nullish(),
+  status: z.enum(['pending', 'reviewed', 'resolved', 'dismissed']),
+  reviewed_by: id.nullish(),
+  reviewed_at: timestamp.nullish(),
+  action_taken: z.string().nullish(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  reporter: z
+    .looseObject({
+      id,
+      username: z.string(),
+      full_name: z.string(),
+    })
+    .optional(),
+});
+
+export const adminStatsSchema = z.looseObject({
+  users: z.looseObject({
+    total: z.number(),
+    active: z.number(),
+    recentSignups: z.number(),
+  }),
+  content: z.looseObject({
+    posts: z.number(),
+    threads: z.number(),
+    jobs: z.number(),
+  }),
+  moderation: z.looseObject({ pendingReports: z.number() }),
+  connections: z.looseObject({ contacts: z.number() }),
+});
+
+// Generic envelopes
+
+export const messageResponseSchema = z.looseObject({
+  message: z.string(),
+});
@@ -0,0 +1,135 @@
+import type {
+  ApplicationStatus,
+  Comment,
+  LiveChatMessage,
+  Message,
+  MessageReaction,
+  Post,
+  Reaction,
+  ThreadReply,
+  UserSummary,
+} from './index';
+
+/**
+ * Socket.io event contract shared by the frontend (lib/socket.ts) and the backend,
+ * whose Socket.io server in backend/app.js is typed against these maps. Rooms are
+ * named like on the server: `posts`, `user:<id>`, `thread:<id>`, `live:<id>`, and
+ * `session:<id>`, which the server joins for each signed-in socket.
+ *
+ * Payload samples in tests/fixtures/socketEvents.json are parsed against these
+ * types by tests/types/socketEvents.test.ts, and the backend's route tests check
+ * every payload they emit against the same samples.
+ */
+
+/**
+ * Events the server pushes to clients, keyed by event name
+ */
+export interface ServerToClientEvents {
+  // `posts` room: public feed updates
+  'post.new': (post: Post) => void;
+  'post.updated': (post: Post) => void;
+  'post.deleted': (data: { id: string; user_id?: string }) => void;
+  'reaction.update': (data: { post_id: string; reaction: Reaction | null }) => void;
+  'comment.new': (comment: Comment) => void;
+  'comment.updated': (comment: Comment) => void;
+  'comment.deleted': (data: { comment_id: string; post_id: string }) => void;
+  'poll.vote': (data: { post_id: string; option_id: string; user_id: string }) => void;
+
+  // `thread:<id>` room: chat threads and discussion threads
+  'message.new': (message: Message) => void;
+  'message.updated': (message: Message) => void;
+  'message.deleted': (data: { message_id: string; thread_id: string }) => void;
+  'message.reaction': (data: {
+    message_id: string;
+    thread_id: string;
+    reactions: MessageReaction[];
+  }) => void;
+  'message.read': (data: {
+    thread_id: string;
+    user_id: string;
+    message_ids: string[];
+    read_at: string;
+  }) => void;
+  'thread:typing': (data: { user_id: string; typing: boolean }) => void;
+  'thread.key_rotated': (data: { thread_id: string; key_version: number }) => void;
+  'thread.reply.new': (reply: ThreadReply) => void;
+  // Group calls: sent on start, join, leave and end (status 'ended')
+  'call.group.updated': (data: {
+    sessionId: string;
+    threadId: string;
+    callType: 'voice' | 'video';
+    status: 'active' | 'ended';
+    activeParticipantIds: string[];
+  }) => void;
+
+  // `user:<id>` room: per-user notifications
+  'notification.new': (data: { type: string; title: string; message: string }) => void;
+  'application.status': (data: { applicationId: string; jobId: string; status: ApplicationStatus }) => void;
+  'thread.updated': (data: { thread_id: string }) => void;
+  'thread.deleted': (data: { thread_id: string }) => void;
+  'thread.member_removed': (data: { thread_id: string; user_id: string }) => void;
+  'thread.unread': (data: { thread_id: string }) => void;
+  'thread.read': (data: { thread_id: string; unreadCount: number }) => void;
+  'call.incoming': (data: {
+    sessionId: string;
+    threadId: string;
+    caller: UserSummary | null;
+    type: 'voice' | 'video';
+    roomUrl: string;
+  }) => void;
+  'call.accepted': (data: { sessionId: string; acceptedBy: string }) => void;
+  'call.rejected': (data: { sessionId: string; rejectedBy: string }) => void;
+  'call.ended': (data: { sessionId: string; endedBy: string }) => void;
+  'live.stream.started': (data: {
+    sessionId: string;
+    host: UserSummary | null;
+    title: string;
+    description?: string;
+    category?: string;
+    roomUrl: string;
+    rsvped?: boolean; // The user asked to be reminded about this scheduled stream
+  }) => void;
+
+  // `session:<id>` room: sent just before the server drops a signed-out device
+  'session.revoked': (data: { sessionId: string }) => void;
+
+  // `live:<id>` room: live stream viewers
+  'live.viewers.updated': (data: { sessionId: string; viewersCount: number }) => void;
+  'live.stream.ended': (data: { sessionId: string; endedBy: string }) => void;
+  'live.chat.message': (message: LiveChatMessage) => void;
+  'live.chat.deleted': (data: { sessionId: string; messageId: string }) => void;
+  'live.chat.settings': (data: {
+    sessionId: string;
+    slowModeSeconds: number;
+    moderatorIds: string[];
+  }) => void;
+  // Everyone in the room hears about it; the banned viewer is then dropped from the room
+  'live.user.banned': (data: { sessionId: string; userId: string }) => void;
+  'live.reaction': (data: { sessionId: string; emoji: string; userId: string }) => void;
+
+  error: (data: { message: string }) => void;
+}
+
+/**
+ * Events clients send to the server, keyed by event name
+ */
+export interface ClientToServerEvents {
+  'subscribe:posts': () => void;
+  'unsubscribe:posts': () => void;
+  'join:thread': (threadId: string) => void;
+  'leave:thread': (threadId: string) => void;
+  'join:user': (userId: string) => void;
+  'join:live': (sessionId: string) => void;
+  'leave:live': (sessionId: string) => void;
+  // Only accepted from sockets in the stream's room, for the emoji in LIVE_REACTIONS
+  'live:reaction': (data: { sessionId: string; emoji: string }) => void;
+  'thread:typing': (data: { thread_id: string; typing: boolean }) => void;
+  // Accepting and rejecting go through the REST API; the server only acknowledges these
+  'call:accept': (data: { sessionId: string }) => void;
+  'call:reject': (data: { sessionId: string }) => void;
+}
+
+/**
+ * A room the client can subscribe to; see useSocketRoom
+ */
+export type SocketRoom = 'posts' | `thread:${string}` | `user:${string}` | `live:${string}`;